@@ -28,10 +28,111 @@ const config = {
     password: process.env.NEO4J_PASSWORD || 'password',
   },
   
+  // Storage backend configuration
+  database: {
+    // 'neo4j' for a Neo4j server, 'embedded' for the local file-backed graph store
+    driver: process.env.DATABASE_DRIVER || 'neo4j',
+    embedded: {
+      // Snapshot file of the embedded store; ':memory:' keeps the graph in memory only
+      path: process.env.EMBEDDED_DB_PATH || 'data/rpg-archivist.graph',
+    },
+    // Apply pending schema migrations when the server starts
+    migrateOnStartup: process.env.DATABASE_MIGRATE_ON_STARTUP !== 'false',
+  },
+  
+  // Campaign trash configuration
+  trash: {
+    // Days a deleted entity stays in the trash before it is purged; 0 keeps it until purged by hand
+    retentionDays: parseInt(process.env.TRASH_RETENTION_DAYS || '30', 10),
+  },
+
+  // Background job queue configuration
+  jobs: {
+    // Jobs run at the same time
+    concurrency: parseInt(process.env.JOB_CONCURRENCY || '1', 10),
+    // Attempts a job gets before it is marked as failed
+    maxAttempts: parseInt(process.env.JOB_MAX_ATTEMPTS || '3', 10),
+    // Delay before the first retry of a failed job; doubles with every further attempt
+    retryDelayMs: parseInt(process.env.JOB_RETRY_DELAY_MS || '30000', 10),
+    // How often the queue looks for jobs that became due
+    pollIntervalMs: parseInt(process.env.JOB_POLL_INTERVAL_MS || '5000', 10),
+  },
+  
+  // Transcription configuration
+  transcription: {
+    // Local whisper.cpp command line tool used for offline transcription
+    whisperCpp: {
+      // Path or name on the PATH of the tool (whisper-cli, or main in older builds)
+      binaryPath: process.env.WHISPER_CPP_BINARY || 'whisper-cli',
+      // ggml model file; the provider is unavailable until it is set
+      modelPath: process.env.WHISPER_CPP_MODEL || '',
+      threads: parseInt(process.env.WHISPER_CPP_THREADS || '4', 10),
+      // Longest a single run may take; 0 disables the limit
+      timeoutMs: parseInt(process.env.WHISPER_CPP_TIMEOUT_MS || '0', 10),
+    },
+    // Transcription of sessions while they are being recorded
+    live: {
+      // Seconds of new audio collected before the live transcript is updated
+      windowSeconds: parseInt(process.env.LIVE_TRANSCRIPTION_WINDOW_SECONDS || '10', 10),
+      // Longest audio transcribed at once before a segment still being spoken is made final
+      maxWindowSeconds: parseInt(process.env.LIVE_TRANSCRIPTION_MAX_WINDOW_SECONDS || '30', 10),
+      // Transcription service used when the client does not ask for one
+      service: process.env.LIVE_TRANSCRIPTION_SERVICE || 'hybrid',
+    },
+    // Classifier telling in-character play from rules talk and off-topic chatter in new transcripts
+    segmentClassifier: process.env.SEGMENT_CLASSIFIER || 'keyword',
+    // Translation of transcripts with the language model
+    translation: {
+      // Segments sent to the language model in one request
+      batchSize: parseInt(process.env.TRANSCRIPT_TRANSLATION_BATCH_SIZE || '40', 10),
+      // Language model to translate with; the default model of the LLM configuration when empty
+      model: process.env.TRANSCRIPT_TRANSLATION_MODEL || '',
+    },
+  },
+  
+  // Audio playback configuration
+  audio: {
+    // Path or name on the PATH of ffmpeg, used to cut clips out of recordings
+    ffmpegPath: process.env.FFMPEG_BINARY || 'ffmpeg',
+    // Longest clip that may be requested
+    maxClipSeconds: parseInt(process.env.AUDIO_MAX_CLIP_SECONDS || '300', 10),
+    // Longest cutting a clip may take
+    timeoutMs: parseInt(process.env.AUDIO_CLIP_TIMEOUT_MS || '30000', 10),
+    // Seconds a signed stream URL can be played from; players request ranges of it until the recording ends
+    streamUrlTtlSeconds: parseInt(process.env.AUDIO_STREAM_URL_TTL_SECONDS || '21600', 10),
+    // Waveform peaks drawn by the audio player
+    waveform: {
+      ffmpegPath: process.env.FFMPEG_BINARY || 'ffmpeg',
+      // Peaks per second of the finest resolution
+      peaksPerSecond: parseInt(process.env.AUDIO_WAVEFORM_PEAKS_PER_SECOND || '50', 10),
+      // Longest decoding a recording may take; 0 disables the limit
+      timeoutMs: parseInt(process.env.AUDIO_WAVEFORM_TIMEOUT_MS || '0', 10),
+    },
+    // Mixing the per-speaker tracks of multi-track recordings into one file
+    mixdown: {
+      ffmpegPath: process.env.FFMPEG_BINARY || 'ffmpeg',
+      // Longest mixing may take; 0 disables the limit
+      timeoutMs: parseInt(process.env.AUDIO_MIXDOWN_TIMEOUT_MS || '0', 10),
+    },
+    // Silencing redacted audio in stored recordings
+    redaction: {
+      ffmpegPath: process.env.FFMPEG_BINARY || 'ffmpeg',
+      // Longest silencing a recording may take; 0 disables the limit
+      timeoutMs: parseInt(process.env.AUDIO_REDACTION_TIMEOUT_MS || '0', 10),
+    },
+  },
+  
   // File upload configuration
   upload: {
     directory: process.env.UPLOAD_DIRECTORY || 'uploads',
     maxFileSize: parseInt(process.env.MAX_FILE_SIZE || '5242880', 10), // 5MB
+    // Resumable uploads of long session recordings
+    resumable: {
+      maxChunkSize: parseInt(process.env.UPLOAD_MAX_CHUNK_SIZE || '16777216', 10), // 16MB
+      maxUploadSize: parseInt(process.env.UPLOAD_MAX_RECORDING_SIZE || '2147483648', 10), // 2GB
+      // Hours without a new chunk before an unfinished upload is discarded; 0 keeps them
+      expiryHours: parseInt(process.env.UPLOAD_EXPIRY_HOURS || '48', 10),
+    },
   },
   
   // Logging configuration
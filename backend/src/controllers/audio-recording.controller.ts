@@ -1,9 +1,22 @@
 import { Request, Response } from 'express';
 import { AudioRecordingService } from '../services/audio-recording.service';
-import { AudioRecordingUpdateParams, TranscriptionStatus } from '../models/audio-recording.model';
+import { AudioClipError, AudioClipService } from '../services/audio-clip.service';
+import { WaveformError, WaveformService } from '../services/waveform.service';
+import { AudioMixdownError } from '../services/audio-mixdown.service';
+import {
+  AudioRecordingUpdateParams,
+  AudioTrackUpload,
+  NoiseReductionLevel,
+  TranscriptionService as TranscriptionEngine,
+  TranscriptionStatus
+} from '../models/audio-recording.model';
 import { validateRequest } from '../utils/validation';
+import { AudioMetadataError } from '../utils/audio-metadata';
+import { parseByteRange } from '../utils/http-range';
+import { AuthRequest, createStreamToken } from '../middleware/auth.middleware';
 import { z } from 'zod';
 import multer from 'multer';
+import * as fs from 'fs';
 import * as path from 'path';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -24,7 +37,18 @@ const upload = multer({
   },
   fileFilter: (req, file, cb) => {
     // Accept only audio files
-    const allowedMimeTypes = ['audio/wav', 'audio/mpeg', 'audio/mp3', 'audio/ogg', 'audio/webm'];
+    const allowedMimeTypes = [
+      'audio/wav',
+      'audio/x-wav',
+      'audio/wave',
+      'audio/mpeg',
+      'audio/mp3',
+      'audio/ogg',
+      'audio/opus',
+      'audio/flac',
+      'audio/x-flac',
+      'audio/webm'
+    ];
     if (allowedMimeTypes.includes(file.mimetype)) {
       cb(null, true);
     } else {
@@ -33,11 +57,27 @@ const upload = multer({
   }
 });
 
+/**
+ * Most tracks a multi-track recording may have
+ */
+const MAX_TRACKS = 32;
+
+/**
+ * HTTP status of each clip error code
+ */
+const CLIP_ERROR_STATUS: Record<string, number> = {
+  INVALID_CLIP_RANGE: 400,
+  CLIP_TOO_LONG: 400,
+  CLIP_FAILED: 500
+};
+
 /**
  * Audio recording controller
  */
 export class AudioRecordingController {
   private audioRecordingService: AudioRecordingService;
+  private audioClipService?: AudioClipService;
+  private waveformService?: WaveformService;
 
   /**
    * Helper method to safely get error message
@@ -48,8 +88,14 @@ export class AudioRecordingController {
     return error instanceof Error ? error.message : String(error);
   }
 
-  constructor(audioRecordingService: AudioRecordingService) {
+  constructor(
+    audioRecordingService: AudioRecordingService,
+    audioClipService?: AudioClipService,
+    waveformService?: WaveformService
+  ) {
     this.audioRecordingService = audioRecordingService;
+    this.audioClipService = audioClipService;
+    this.waveformService = waveformService;
   }
 
   /**
@@ -124,6 +170,280 @@ export class AudioRecordingController {
     }
   };
 
+  /**
+   * Get a signed URL to stream a recording from, for audio elements that cannot send the Authorization header
+   * @param req Request
+   * @param res Response
+   */
+  public getStreamUrl = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { recordingId } = req.params;
+      const { user } = req as AuthRequest;
+
+      if (!user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required.'
+          }
+        });
+        return;
+      }
+
+      const recording = await this.audioRecordingService.getById(recordingId);
+
+      if (!recording) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'RECORDING_NOT_FOUND',
+            message: 'Audio recording not found.'
+          }
+        });
+        return;
+      }
+
+      const { token, expires_at } = createStreamToken(recordingId, user);
+      res.status(200).json({
+        success: true,
+        data: {
+          url: `${req.baseUrl}/${recordingId}/stream?token=${encodeURIComponent(token)}`,
+          expires_at
+        }
+      });
+    } catch (error) {
+      console.error('Error signing audio stream URL:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'An error occurred while signing the audio stream URL.'
+        }
+      });
+    }
+  };
+
+  /**
+   * Stream the audio of a recording, honouring byte ranges so players can seek
+   * @param req Request
+   * @param res Response
+   */
+  public stream = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { recordingId } = req.params;
+
+      const audioFile = await this.audioRecordingService.getAudioFile(recordingId);
+
+      if (!audioFile) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'RECORDING_NOT_FOUND',
+            message: 'Audio recording not found.'
+          }
+        });
+        return;
+      }
+
+      const range = parseByteRange(req.headers.range, audioFile.size);
+      res.setHeader('Accept-Ranges', 'bytes');
+      res.setHeader('Content-Type', audioFile.contentType);
+
+      if (range === 'unsatisfiable') {
+        res.setHeader('Content-Range', `bytes */${audioFile.size}`);
+        res.status(416).end();
+        return;
+      }
+
+      const { start, end } = range || { start: 0, end: audioFile.size - 1 };
+      if (range) {
+        res.status(206);
+        res.setHeader('Content-Range', `bytes ${start}-${end}/${audioFile.size}`);
+      } else {
+        res.status(200);
+      }
+      res.setHeader('Content-Length', Math.max(0, end - start + 1));
+
+      if (req.method === 'HEAD' || audioFile.size === 0) {
+        res.end();
+        return;
+      }
+
+      const fileStream = fs.createReadStream(audioFile.filePath, { start, end });
+      fileStream.on('error', (error) => {
+        console.error('Error streaming audio recording:', error);
+        res.destroy(error);
+      });
+      fileStream.pipe(res);
+    } catch (error) {
+      console.error('Error streaming audio recording:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'An error occurred while streaming the audio recording.'
+        }
+      });
+    }
+  };
+
+  /**
+   * Get the audio between two timestamps of a recording
+   * @param req Request
+   * @param res Response
+   */
+  public clip = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      if (!this.audioClipService) {
+        res.status(501).json({
+          success: false,
+          error: {
+            code: 'NOT_IMPLEMENTED',
+            message: 'Audio clips are not available.'
+          }
+        });
+        return;
+      }
+
+      const schema = z.object({
+        start: z.coerce.number().min(0),
+        end: z.coerce.number().positive()
+      });
+
+      const validationResult = validateRequest<z.infer<typeof schema>>(req.query, schema);
+      if (!validationResult.success || !validationResult.data) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request data.',
+            details: validationResult.errors
+          }
+        });
+        return;
+      }
+
+      const { start, end } = validationResult.data;
+      const clip = await this.audioClipService.createClip(req.params.recordingId, start, end);
+
+      if (!clip) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'RECORDING_NOT_FOUND',
+            message: 'Audio recording not found.'
+          }
+        });
+        return;
+      }
+
+      res.setHeader('Content-Type', clip.contentType);
+      res.setHeader('Content-Disposition', `inline; filename="${clip.fileName}"`);
+      res.status(200).send(clip.data);
+    } catch (error) {
+      if (error instanceof AudioClipError) {
+        if (error.code === 'CLIP_FAILED') {
+          console.error('Error cutting audio clip:', error);
+        }
+        res.status(CLIP_ERROR_STATUS[error.code] || 400).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      console.error('Error cutting audio clip:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'An error occurred while cutting the audio clip.'
+        }
+      });
+    }
+  };
+
+  /**
+   * Get the waveform peaks of a recording, optionally for a section of it
+   * @param req Request
+   * @param res Response
+   */
+  public getWaveform = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      if (!this.waveformService) {
+        res.status(501).json({
+          success: false,
+          error: {
+            code: 'NOT_IMPLEMENTED',
+            message: 'Waveforms are not available.'
+          }
+        });
+        return;
+      }
+
+      const schema = z.object({
+        peaks: z.coerce.number().int().positive().max(100000).optional(),
+        start: z.coerce.number().min(0).optional(),
+        end: z.coerce.number().positive().optional()
+      });
+
+      const validationResult = validateRequest<z.infer<typeof schema>>(req.query, schema);
+      if (!validationResult.success || !validationResult.data) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request data.',
+            details: validationResult.errors
+          }
+        });
+        return;
+      }
+
+      const waveform = await this.waveformService.getWaveform(req.params.recordingId, validationResult.data);
+
+      if (!waveform) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'RECORDING_NOT_FOUND',
+            message: 'Audio recording not found.'
+          }
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: waveform
+      });
+    } catch (error) {
+      console.error('Error getting waveform:', error);
+      if (error instanceof WaveformError) {
+        res.status(error.code === 'AUDIO_FILE_MISSING' ? 404 : 500).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'An error occurred while getting the waveform.'
+        }
+      });
+    }
+  };
+
   /**
    * Upload audio recording
    * @param req Request
@@ -139,7 +459,7 @@ export class AudioRecordingController {
         autoTranscribe: z.boolean().optional(),
         enableSpeakerDiarization: z.boolean().optional(),
         noiseReductionLevel: z.enum(['none', 'low', 'medium', 'high']).optional(),
-        transcriptionService: z.enum(['openai_whisper', 'vosk', 'hybrid']).optional()
+        transcriptionService: z.enum(['openai_whisper', 'vosk', 'whisper_cpp', 'hybrid']).optional()
       });
 
       const validationResult = validateRequest(req.body, schema);
@@ -202,6 +522,17 @@ export class AudioRecordingController {
         data: recording
       });
     } catch (error) {
+      if (error instanceof AudioMetadataError) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_AUDIO_FILE',
+            message: error.message
+          }
+        });
+        return;
+      }
+
       console.error('Error uploading audio recording:', error);
       res.status(500).json({
         success: false,
@@ -213,6 +544,150 @@ export class AudioRecordingController {
     }
   };
 
+  /**
+   * Upload a multi-track recording: one audio file per speaker in the "tracks" field, with a "speakers" JSON array
+   * telling, in the same order, which speaker, character or user each track belongs to
+   * @param req Request
+   * @param res Response
+   */
+  public uploadMultiTrack = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const speakerSchema = z.object({
+        speaker_id: z.string().uuid().optional(),
+        speaker_name: z.string().min(1).max(100).optional(),
+        character_id: z.string().uuid().optional(),
+        user_id: z.string().uuid().optional()
+      });
+      const schema = z.object({
+        sessionId: z.string().uuid(),
+        name: z.string().min(1).max(100),
+        description: z.string().max(500).optional(),
+        speakers: z
+          .string()
+          .transform((value, ctx) => {
+            try {
+              return JSON.parse(value);
+            } catch {
+              ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'speakers must be a JSON array' });
+              return z.NEVER;
+            }
+          })
+          .pipe(z.array(speakerSchema).max(MAX_TRACKS))
+          .optional(),
+        autoTranscribe: z.enum(['true', 'false']).optional(),
+        noiseReductionLevel: z.enum(['none', 'low', 'medium', 'high']).optional(),
+        transcriptionService: z.enum(['openai_whisper', 'vosk', 'whisper_cpp', 'hybrid']).optional()
+      });
+
+      const validationResult = validateRequest<z.infer<typeof schema>>(req.body, schema);
+      if (!validationResult.success || !validationResult.data) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request data.',
+            details: validationResult.errors
+          }
+        });
+        return;
+      }
+
+      const files = Array.isArray(req.files) ? req.files : [];
+      if (files.length === 0) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'FILE_REQUIRED',
+            message: 'At least one audio track is required.'
+          }
+        });
+        return;
+      }
+
+      const { sessionId, name, description, speakers = [], autoTranscribe, noiseReductionLevel, transcriptionService } =
+        validationResult.data;
+      if (speakers.length > 0 && speakers.length !== files.length) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'speakers must have one entry per track.'
+          }
+        });
+        return;
+      }
+
+      const userId = req.user?.user_id;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'User not authenticated.'
+          }
+        });
+        return;
+      }
+
+      const tracks: AudioTrackUpload[] = files.map((file, index) => ({
+        file: file.buffer,
+        file_name: file.originalname,
+        ...speakers[index]
+      }));
+
+      const recording = await this.audioRecordingService.createMultiTrack(
+        sessionId,
+        name,
+        description,
+        tracks,
+        userId,
+        {
+          auto_transcribe: autoTranscribe !== 'false',
+          // Every track holds one speaker, so there is nothing to diarize
+          enable_speaker_diarization: false,
+          noise_reduction_level: (noiseReductionLevel || 'medium') as NoiseReductionLevel,
+          transcription_service: (transcriptionService || 'hybrid') as TranscriptionEngine
+        }
+      );
+
+      res.status(201).json({
+        success: true,
+        data: recording
+      });
+    } catch (error) {
+      if (error instanceof AudioMetadataError) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_AUDIO_FILE',
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      if (error instanceof AudioMixdownError) {
+        res.status(500).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      console.error('Error uploading multi-track audio recording:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'An error occurred while uploading the multi-track recording.'
+        }
+      });
+    }
+  };
+
   /**
    * Update audio recording
    * @param req Request
@@ -225,7 +700,8 @@ export class AudioRecordingController {
       // Validate request
       const schema = z.object({
         name: z.string().min(1).max(100).optional(),
-        description: z.string().max(500).optional()
+        description: z.string().max(500).optional(),
+        session_offset_seconds: z.number().min(0).nullable().optional()
       });
 
       const validationResult = validateRequest(req.body, schema);
@@ -241,7 +717,7 @@ export class AudioRecordingController {
         return;
       }
 
-      const { name, description } = req.body;
+      const { name, description, session_offset_seconds } = req.body;
 
       // Check if recording exists
       const existingRecording = await this.audioRecordingService.getById(recordingId);
@@ -260,6 +736,7 @@ export class AudioRecordingController {
       const params: AudioRecordingUpdateParams = {};
       if (name !== undefined) params.name = name;
       if (description !== undefined) params.description = description;
+      if (session_offset_seconds !== undefined) params.session_offset_seconds = session_offset_seconds;
 
       const updatedRecording = await this.audioRecordingService.update(recordingId, params);
 
@@ -347,7 +824,7 @@ export class AudioRecordingController {
       const schema = z.object({
         enableSpeakerDiarization: z.boolean().optional(),
         noiseReductionLevel: z.enum(['none', 'low', 'medium', 'high']).optional(),
-        transcriptionService: z.enum(['openai_whisper', 'vosk', 'hybrid']).optional()
+        transcriptionService: z.enum(['openai_whisper', 'vosk', 'whisper_cpp', 'hybrid']).optional()
       });
 
       const validationResult = validateRequest(req.body, schema);
@@ -394,7 +871,7 @@ export class AudioRecordingController {
       }
 
       // Start transcription
-      const transcriptionId = await this.audioRecordingService.startTranscription(
+      const { transcriptionId, jobId } = await this.audioRecordingService.startTranscription(
         recordingId,
         userId,
         {
@@ -408,6 +885,7 @@ export class AudioRecordingController {
         success: true,
         data: {
           transcription_id: transcriptionId,
+          job_id: jobId,
           status: TranscriptionStatus.IN_PROGRESS
         }
       });
@@ -463,7 +941,7 @@ export class AudioRecordingController {
         file_format: z.string().optional(),
         max_duration_minutes: z.number().int().positive().optional(),
         auto_transcribe: z.boolean().optional(),
-        transcription_service: z.enum(['openai_whisper', 'vosk', 'hybrid']).optional(),
+        transcription_service: z.enum(['openai_whisper', 'vosk', 'whisper_cpp', 'hybrid']).optional(),
         enable_speaker_diarization: z.boolean().optional(),
         noise_reduction_level: z.enum(['none', 'low', 'medium', 'high']).optional()
       });
@@ -506,4 +984,12 @@ export class AudioRecordingController {
   public getUploadMiddleware() {
     return upload.single('audio');
   }
+
+  /**
+   * Get the middleware receiving the tracks of a multi-track upload
+   * @returns Multer middleware
+   */
+  public getMultiTrackUploadMiddleware() {
+    return upload.array('tracks', MAX_TRACKS);
+  }
 }
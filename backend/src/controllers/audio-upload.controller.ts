@@ -0,0 +1,310 @@
+import express, { Request, Response } from 'express';
+import { z } from 'zod';
+import { AudioUploadError, AudioUploadService } from '../services/audio-upload.service';
+import { AudioMetadataError } from '../utils/audio-metadata';
+import { validateRequest } from '../utils/validation';
+import { NoiseReductionLevel, TranscriptionService } from '../models/audio-recording.model';
+
+// Extend the Express Request type to include user property
+interface AuthenticatedRequest extends Request {
+  user?: {
+    user_id: string;
+    role?: string;
+  };
+}
+
+/**
+ * HTTP status of each upload error code
+ */
+const UPLOAD_ERROR_STATUS: Record<string, number> = {
+  UPLOAD_NOT_FOUND: 404,
+  SESSION_NOT_FOUND: 404,
+  CHUNK_TOO_LARGE: 413,
+  UPLOAD_TOO_LARGE: 413,
+  MISSING_CHUNKS: 409,
+  UPLOAD_IN_PROGRESS: 409
+};
+
+/**
+ * Controller for resumable audio recording uploads
+ */
+export class AudioUploadController {
+  private audioUploadService: AudioUploadService;
+  private maxChunkSize: number;
+
+  /**
+   * @param audioUploadService Audio upload service
+   * @param maxChunkSize Most data a single chunk may hold, in bytes
+   */
+  constructor(audioUploadService: AudioUploadService, maxChunkSize: number) {
+    this.audioUploadService = audioUploadService;
+    this.maxChunkSize = maxChunkSize;
+  }
+
+  /**
+   * Send an error response for a failed upload request
+   * @param res Response
+   * @param error Error
+   * @param message Message for unexpected errors
+   */
+  private sendError(res: Response, error: unknown, message: string): void {
+    if (error instanceof AudioUploadError) {
+      res.status(UPLOAD_ERROR_STATUS[error.code] || 400).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      });
+      return;
+    }
+    if (error instanceof AudioMetadataError) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_AUDIO_FILE',
+          message: error.message
+        }
+      });
+      return;
+    }
+
+    console.error(`${message}:`, error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: `${message}.`
+      }
+    });
+  }
+
+  /**
+   * Get the ID of the authenticated user, sending a 401 response if there is none
+   * @param req Request
+   * @param res Response
+   * @returns User ID, or undefined if a response was sent
+   */
+  private requireUser(req: AuthenticatedRequest, res: Response): string | undefined {
+    const userId = req.user?.user_id;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'User not authenticated.'
+        }
+      });
+    }
+    return userId;
+  }
+
+  /**
+   * Send a 400 response for invalid request data
+   * @param res Response
+   * @param errors Validation errors
+   */
+  private sendValidationError(res: Response, errors: unknown): void {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid request data.',
+        details: errors
+      }
+    });
+  }
+
+  /**
+   * Start a resumable upload
+   * @param req Request
+   * @param res Response
+   */
+  public initiate = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const userId = this.requireUser(req, res);
+      if (!userId) {
+        return;
+      }
+
+      const schema = z.object({
+        session_id: z.string().uuid(),
+        file_name: z.string().min(1).max(255)
+      });
+
+      const validationResult = validateRequest<z.infer<typeof schema>>(req.body, schema);
+      if (!validationResult.success || !validationResult.data) {
+        this.sendValidationError(res, validationResult.errors);
+        return;
+      }
+
+      const upload = await this.audioUploadService.initiate(validationResult.data, userId);
+
+      res.status(201).json({
+        success: true,
+        data: upload
+      });
+    } catch (error) {
+      this.sendError(res, error, 'An error occurred while starting the upload');
+    }
+  };
+
+  /**
+   * Get an upload and the chunks received so far
+   * @param req Request
+   * @param res Response
+   */
+  public getStatus = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const userId = this.requireUser(req, res);
+      if (!userId) {
+        return;
+      }
+
+      const upload = await this.audioUploadService.getStatus(req.params.uploadId, userId);
+
+      if (!upload) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'UPLOAD_NOT_FOUND',
+            message: 'Upload not found.'
+          }
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: upload
+      });
+    } catch (error) {
+      this.sendError(res, error, 'An error occurred while getting the upload');
+    }
+  };
+
+  /**
+   * Store a chunk of an upload sent as the raw request body
+   * @param req Request
+   * @param res Response
+   */
+  public uploadChunk = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const userId = this.requireUser(req, res);
+      if (!userId) {
+        return;
+      }
+
+      if (!Buffer.isBuffer(req.body)) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_CHUNK',
+            message: 'Send chunk data with Content-Type application/octet-stream.'
+          }
+        });
+        return;
+      }
+
+      const upload = await this.audioUploadService.putChunk(
+        req.params.uploadId,
+        Number(req.params.index),
+        req.body,
+        userId
+      );
+
+      res.status(200).json({
+        success: true,
+        data: upload
+      });
+    } catch (error) {
+      this.sendError(res, error, 'An error occurred while storing the chunk');
+    }
+  };
+
+  /**
+   * Join the chunks of an upload and create the audio recording
+   * @param req Request
+   * @param res Response
+   */
+  public complete = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const userId = this.requireUser(req, res);
+      if (!userId) {
+        return;
+      }
+
+      const schema = z.object({
+        total_chunks: z.number().int().positive(),
+        name: z.string().min(1).max(100),
+        description: z.string().max(500).optional(),
+        auto_transcribe: z.boolean().optional(),
+        enable_speaker_diarization: z.boolean().optional(),
+        noise_reduction_level: z.nativeEnum(NoiseReductionLevel).optional(),
+        transcription_service: z.nativeEnum(TranscriptionService).optional()
+      });
+
+      const validationResult = validateRequest<z.infer<typeof schema>>(req.body, schema);
+      if (!validationResult.success || !validationResult.data) {
+        this.sendValidationError(res, validationResult.errors);
+        return;
+      }
+
+      const { total_chunks, name, description, ...settings } = validationResult.data;
+      const recording = await this.audioUploadService.complete(
+        req.params.uploadId,
+        { total_chunks, name, description, settings },
+        userId
+      );
+
+      res.status(201).json({
+        success: true,
+        data: recording
+      });
+    } catch (error) {
+      this.sendError(res, error, 'An error occurred while completing the upload');
+    }
+  };
+
+  /**
+   * Discard an upload
+   * @param req Request
+   * @param res Response
+   */
+  public abort = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const userId = this.requireUser(req, res);
+      if (!userId) {
+        return;
+      }
+
+      const aborted = await this.audioUploadService.abort(req.params.uploadId, userId);
+
+      if (!aborted) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'UPLOAD_NOT_FOUND',
+            message: 'Upload not found.'
+          }
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Upload discarded.'
+      });
+    } catch (error) {
+      this.sendError(res, error, 'An error occurred while discarding the upload');
+    }
+  };
+
+  /**
+   * Get middleware reading chunk data from the raw request body
+   * @returns Body parser middleware
+   */
+  public getChunkMiddleware() {
+    return express.raw({ type: 'application/octet-stream', limit: this.maxChunkSize });
+  }
+}
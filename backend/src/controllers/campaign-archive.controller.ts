@@ -0,0 +1,219 @@
+import fs from 'fs';
+import os from 'os';
+import { pipeline } from 'stream/promises';
+import { promisify } from 'util';
+import { Request, Response } from 'express';
+import { validationResult } from 'express-validator';
+import multer from 'multer';
+import { CampaignArchiveError, CampaignArchiveService } from '../services/campaign-archive.service';
+import { CampaignRepository } from '../repositories/campaign.repository';
+import { RPGWorldRepository } from '../repositories/rpg-world.repository';
+
+// Extend the Express Request type to include user property
+interface AuthenticatedRequest extends Request {
+  user?: {
+    user_id: string;
+    role?: string;
+  };
+}
+
+const unlink = promisify(fs.unlink);
+
+// Configure multer for archive uploads, kept on disk until they are imported
+const upload = multer({
+  dest: os.tmpdir(),
+  limits: {
+    fileSize: 2 * 1024 * 1024 * 1024 // 2GB limit, archives include session audio
+  }
+});
+
+/**
+ * Controller for campaign archive export and import
+ */
+export class CampaignArchiveController {
+  private campaignArchiveService: CampaignArchiveService;
+  private campaignRepository: CampaignRepository;
+  private rpgWorldRepository: RPGWorldRepository;
+
+  constructor(
+    campaignArchiveService: CampaignArchiveService,
+    campaignRepository: CampaignRepository,
+    rpgWorldRepository: RPGWorldRepository
+  ) {
+    this.campaignArchiveService = campaignArchiveService;
+    this.campaignRepository = campaignRepository;
+    this.rpgWorldRepository = rpgWorldRepository;
+
+    // Bind methods to ensure 'this' context
+    this.exportCampaign = this.exportCampaign.bind(this);
+    this.importCampaign = this.importCampaign.bind(this);
+  }
+
+  /**
+   * Get error message from error object
+   * @param error Error object
+   * @returns Error message
+   */
+  private getErrorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  /**
+   * Respond with validation errors, if any
+   * @param req Request
+   * @param res Response
+   * @returns True when the request is invalid
+   */
+  private rejectInvalid(req: Request, res: Response): boolean {
+    const errors = validationResult(req);
+    if (errors.isEmpty()) {
+      return false;
+    }
+    res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Validation error',
+        details: errors.array()
+      }
+    });
+    return true;
+  }
+
+  /**
+   * Download a campaign as an archive
+   * @param req Request
+   * @param res Response
+   */
+  public async exportCampaign(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (this.rejectInvalid(req, res)) {
+        return;
+      }
+
+      const campaignId = req.params.campaignId;
+      const userId = req.user?.user_id;
+      if (!userId || !(await this.campaignRepository.isParticipant(campaignId, userId))) {
+        res.status(403).json({
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: 'You are not a participant in this campaign'
+          }
+        });
+        return;
+      }
+
+      const archive = await this.campaignArchiveService.exportCampaign(campaignId);
+      if (!archive) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'CAMPAIGN_NOT_FOUND',
+            message: 'Campaign not found'
+          }
+        });
+        return;
+      }
+
+      res.setHeader('Content-Type', 'application/gzip');
+      res.setHeader('Content-Disposition', `attachment; filename="${archive.fileName}"`);
+      res.status(200);
+      await pipeline(archive.data, res);
+    } catch (error) {
+      console.error('Error exporting campaign:', error);
+      if (res.headersSent) {
+        // The download has started; the client sees the connection close
+        return;
+      }
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'An error occurred while exporting the campaign',
+          details: this.getErrorMessage(error)
+        }
+      });
+    }
+  }
+
+  /**
+   * Import a campaign from an uploaded archive
+   * @param req Request
+   * @param res Response
+   */
+  public async importCampaign(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (this.rejectInvalid(req, res)) {
+        return;
+      }
+
+      if (!req.file) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Archive file is required'
+          }
+        });
+        return;
+      }
+
+      const worldId = req.body.worldId as string | undefined;
+      if (worldId && !(await this.rpgWorldRepository.getById(worldId))) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'RPG_WORLD_NOT_FOUND',
+            message: 'RPG World not found'
+          }
+        });
+        return;
+      }
+
+      const result = await this.campaignArchiveService.importCampaign(req.file.path, {
+        userId: req.user?.user_id as string,
+        worldId,
+        name: req.body.name
+      });
+
+      res.status(201).json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      if (error instanceof CampaignArchiveError) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_ARCHIVE',
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      console.error('Error importing campaign:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'An error occurred while importing the campaign',
+          details: this.getErrorMessage(error)
+        }
+      });
+    } finally {
+      if (req.file) {
+        await unlink(req.file.path).catch((error) => console.error('Error removing uploaded archive:', error));
+      }
+    }
+  }
+
+  /**
+   * Get multer upload middleware
+   * @returns Multer middleware
+   */
+  public getUploadMiddleware() {
+    return upload.single('archive');
+  }
+}
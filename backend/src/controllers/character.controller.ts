@@ -370,7 +370,7 @@ export class CharacterController {
         character_type: req.body.character_type,
         is_player_character: req.body.is_player_character,
         player_id: req.body.player_id
-      });
+      }, { userId: req.user?.user_id });
 
       // Return response
       res.status(200).json({
@@ -445,7 +445,7 @@ export class CharacterController {
 
       // Delete character
       try {
-        const deleted = await this.repositoryFactory.getCharacterRepository().delete(characterId);
+        const deleted = await this.repositoryFactory.getCharacterRepository().delete(characterId, userId);
 
         // Return response
         res.status(200).json({
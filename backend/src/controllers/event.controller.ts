@@ -428,7 +428,7 @@ export class EventController {
         timeline_position: req.body.timeline_position,
         session_id: req.body.session_id,
         location_id: req.body.location_id
-      });
+      }, { userId: req.user?.user_id });
 
       // Return response
       res.status(200).json({
@@ -491,7 +491,7 @@ export class EventController {
 
       // Delete event
       try {
-        const deleted = await this.repositoryFactory.getEventRepository().delete(eventId);
+        const deleted = await this.repositoryFactory.getEventRepository().delete(eventId, userId);
 
         // Return response
         res.status(200).json({
@@ -0,0 +1,219 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { GlossaryError, GlossaryService } from '../services/glossary.service';
+import { validateRequest } from '../utils/validation';
+
+// Extend the Express Request type to include user property
+interface AuthenticatedRequest extends Request {
+  user?: {
+    user_id: string;
+    role?: string;
+  };
+}
+
+/**
+ * HTTP status of each glossary error code
+ */
+const GLOSSARY_ERROR_STATUS: Record<string, number> = {
+  CAMPAIGN_NOT_FOUND: 404,
+  CORRECTION_NOT_FOUND: 404,
+  CORRECTION_ALREADY_UNDONE: 409,
+  CORRECTION_CONFLICT: 409
+};
+
+/**
+ * Controller for campaign glossaries and the transcript corrections made with them
+ */
+export class GlossaryController {
+  private glossaryService: GlossaryService;
+
+  constructor(glossaryService: GlossaryService) {
+    this.glossaryService = glossaryService;
+  }
+
+  /**
+   * Get the glossary of a campaign
+   * @param req Request
+   * @param res Response
+   */
+  public getByCampaign = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { campaignId } = req.params;
+
+      const terms = await this.glossaryService.getGlossary(campaignId);
+
+      res.status(200).json({
+        success: true,
+        data: terms
+      });
+    } catch (error) {
+      console.error('Error getting glossary:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'An error occurred while getting the glossary.'
+        }
+      });
+    }
+  };
+
+  /**
+   * Add a term to the glossary of a campaign
+   * @param req Request
+   * @param res Response
+   */
+  public addTerm = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      // Validate request
+      const schema = z.object({
+        term: z.string().trim().min(1).max(100),
+        sounds_like: z.array(z.string().max(100)).max(20).optional()
+      });
+
+      const validationResult = validateRequest<z.infer<typeof schema>>(req.body, schema);
+      if (!validationResult.success) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request data.',
+            details: validationResult.errors
+          }
+        });
+        return;
+      }
+
+      const term = await this.glossaryService.addTerm(req.params.campaignId, req.body, req.user?.user_id);
+
+      res.status(201).json({
+        success: true,
+        data: term
+      });
+    } catch (error) {
+      if (error instanceof GlossaryError) {
+        res.status(GLOSSARY_ERROR_STATUS[error.code] || 400).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      console.error('Error adding glossary term:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'An error occurred while adding the glossary term.'
+        }
+      });
+    }
+  };
+
+  /**
+   * Delete a term added to a glossary
+   * @param req Request
+   * @param res Response
+   */
+  public deleteTerm = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { termId } = req.params;
+
+      const deleted = await this.glossaryService.deleteTerm(termId);
+      if (!deleted) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'TERM_NOT_FOUND',
+            message: 'Glossary term not found.'
+          }
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: {
+          deleted
+        }
+      });
+    } catch (error) {
+      console.error('Error deleting glossary term:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'An error occurred while deleting the glossary term.'
+        }
+      });
+    }
+  };
+
+  /**
+   * Get the glossary corrections made in a transcription
+   * @param req Request
+   * @param res Response
+   */
+  public getCorrections = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { transcriptionId } = req.params;
+
+      const corrections = await this.glossaryService.getCorrections(transcriptionId);
+
+      res.status(200).json({
+        success: true,
+        data: corrections
+      });
+    } catch (error) {
+      console.error('Error getting glossary corrections:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'An error occurred while getting the glossary corrections.'
+        }
+      });
+    }
+  };
+
+  /**
+   * Undo a glossary correction
+   * @param req Request
+   * @param res Response
+   */
+  public undoCorrection = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { correctionId } = req.params;
+
+      const result = await this.glossaryService.undoCorrection(correctionId, req.user?.user_id);
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      if (error instanceof GlossaryError) {
+        res.status(GLOSSARY_ERROR_STATUS[error.code] || 400).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      console.error('Error undoing glossary correction:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'An error occurred while undoing the glossary correction.'
+        }
+      });
+    }
+  };
+}
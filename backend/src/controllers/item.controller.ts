@@ -311,7 +311,7 @@ export class ItemController {
         value: req.body.value,
         weight: req.body.weight,
         properties: req.body.properties
-      });
+      }, { userId: req.user?.user_id });
 
       // Return response
       res.status(200).json({
@@ -374,7 +374,7 @@ export class ItemController {
 
       // Delete item
       try {
-        const deleted = await this.repositoryFactory.getItemRepository().delete(itemId);
+        const deleted = await this.repositoryFactory.getItemRepository().delete(itemId, userId);
 
         // Return response
         res.status(200).json({
@@ -0,0 +1,326 @@
+import { Request, Response } from 'express';
+import { validationResult } from 'express-validator';
+import { JobQueueService } from '../services/job-queue.service';
+import { Job, JobStatus, JobType } from '../models/job.model';
+
+// Extend the Express Request type to include user property
+interface AuthenticatedRequest extends Request {
+  user?: {
+    user_id: string;
+    role?: string;
+  };
+}
+
+/**
+ * Job states after which a job no longer changes on its own
+ */
+const FINISHED_STATUSES = [JobStatus.COMPLETED, JobStatus.FAILED, JobStatus.CANCELLED];
+
+/**
+ * Interval of keep-alive comments on progress streams
+ */
+const STREAM_HEARTBEAT_MS = 15 * 1000;
+
+/**
+ * Controller for background jobs
+ */
+export class JobController {
+  private jobQueueService: JobQueueService;
+
+  constructor(jobQueueService: JobQueueService) {
+    this.jobQueueService = jobQueueService;
+
+    // Bind methods to ensure 'this' context
+    this.getJobs = this.getJobs.bind(this);
+    this.getJob = this.getJob.bind(this);
+    this.streamJob = this.streamJob.bind(this);
+    this.cancel = this.cancel.bind(this);
+    this.retry = this.retry.bind(this);
+  }
+
+  /**
+   * Get error message from error object
+   * @param error Error object
+   * @returns Error message
+   */
+  private getErrorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  /**
+   * Respond with validation errors, if any
+   * @param req Request
+   * @param res Response
+   * @returns True when the request is invalid
+   */
+  private rejectInvalid(req: Request, res: Response): boolean {
+    const errors = validationResult(req);
+    if (errors.isEmpty()) {
+      return false;
+    }
+    res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Validation error',
+        details: errors.array()
+      }
+    });
+    return true;
+  }
+
+  /**
+   * Load a job the user may access, responding with 404 or 403 otherwise
+   * @param req Request
+   * @param res Response
+   * @returns Job, or null when a response has been sent
+   */
+  private async loadJob(req: AuthenticatedRequest, res: Response): Promise<Job | null> {
+    const job = await this.jobQueueService.getJob(req.params.jobId);
+    if (!job) {
+      res.status(404).json({
+        success: false,
+        error: {
+          code: 'JOB_NOT_FOUND',
+          message: 'Job not found'
+        }
+      });
+      return null;
+    }
+
+    if (job.created_by && job.created_by !== req.user?.user_id) {
+      res.status(403).json({
+        success: false,
+        error: {
+          code: 'FORBIDDEN',
+          message: 'You do not have access to this job'
+        }
+      });
+      return null;
+    }
+    return job;
+  }
+
+  /**
+   * Get the user's jobs
+   * @param req Request
+   * @param res Response
+   */
+  public async getJobs(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (this.rejectInvalid(req, res)) {
+        return;
+      }
+
+      const page = req.query.page ? parseInt(req.query.page as string, 10) : 1;
+      const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 20;
+      const { jobs, total } = await this.jobQueueService.getJobs(
+        {
+          type: req.query.type as JobType | undefined,
+          status: req.query.status as JobStatus | undefined,
+          created_by: req.user?.user_id
+        },
+        page,
+        limit
+      );
+
+      res.status(200).json({
+        success: true,
+        data: jobs,
+        meta: {
+          total,
+          page,
+          limit,
+          totalPages: Math.ceil(total / limit)
+        }
+      });
+    } catch (error) {
+      console.error('Error getting jobs:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'An error occurred while getting jobs',
+          details: this.getErrorMessage(error)
+        }
+      });
+    }
+  }
+
+  /**
+   * Get a job
+   * @param req Request
+   * @param res Response
+   */
+  public async getJob(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (this.rejectInvalid(req, res)) {
+        return;
+      }
+
+      const job = await this.loadJob(req, res);
+      if (!job) {
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: job
+      });
+    } catch (error) {
+      console.error('Error getting job:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'An error occurred while getting the job',
+          details: this.getErrorMessage(error)
+        }
+      });
+    }
+  }
+
+  /**
+   * Stream the progress of a job as server-sent events until it finishes
+   * @param req Request
+   * @param res Response
+   */
+  public async streamJob(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (this.rejectInvalid(req, res)) {
+        return;
+      }
+
+      const job = await this.loadJob(req, res);
+      if (!job) {
+        return;
+      }
+
+      // Set headers for streaming response
+      res.setHeader('Content-Type', 'text/event-stream');
+      res.setHeader('Cache-Control', 'no-cache');
+      res.setHeader('Connection', 'keep-alive');
+      res.flushHeaders();
+
+      const send = (update: Job) => {
+        res.write(`event: job\ndata: ${JSON.stringify(update)}\n\n`);
+      };
+
+      const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), STREAM_HEARTBEAT_MS);
+      const close = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+        res.end();
+      };
+      const unsubscribe = this.jobQueueService.subscribe((update) => {
+        if (update.job_id !== job.job_id) {
+          return;
+        }
+        send(update);
+        if (FINISHED_STATUSES.includes(update.status)) {
+          close();
+        }
+      });
+      req.on('close', close);
+
+      send(job);
+      if (FINISHED_STATUSES.includes(job.status)) {
+        close();
+      }
+    } catch (error) {
+      console.error('Error streaming job:', error);
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'An error occurred while streaming the job',
+          details: this.getErrorMessage(error)
+        }
+      });
+    }
+  }
+
+  /**
+   * Cancel a queued or running job
+   * @param req Request
+   * @param res Response
+   */
+  public async cancel(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (this.rejectInvalid(req, res) || !(await this.loadJob(req, res))) {
+        return;
+      }
+
+      const job = await this.jobQueueService.cancel(req.params.jobId);
+      if (!job) {
+        res.status(409).json({
+          success: false,
+          error: {
+            code: 'JOB_NOT_ACTIVE',
+            message: 'Only queued or running jobs can be cancelled'
+          }
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: job
+      });
+    } catch (error) {
+      console.error('Error cancelling job:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'An error occurred while cancelling the job',
+          details: this.getErrorMessage(error)
+        }
+      });
+    }
+  }
+
+  /**
+   * Queue a failed or cancelled job again
+   * @param req Request
+   * @param res Response
+   */
+  public async retry(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (this.rejectInvalid(req, res) || !(await this.loadJob(req, res))) {
+        return;
+      }
+
+      const job = await this.jobQueueService.retry(req.params.jobId);
+      if (!job) {
+        res.status(409).json({
+          success: false,
+          error: {
+            code: 'JOB_NOT_RETRYABLE',
+            message: 'Only failed or cancelled jobs can be retried'
+          }
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: job
+      });
+    } catch (error) {
+      console.error('Error retrying job:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'An error occurred while retrying the job',
+          details: this.getErrorMessage(error)
+        }
+      });
+    }
+  }
+}
@@ -356,7 +356,7 @@ export class LocationController {
         description: req.body.description,
         location_type: req.body.location_type,
         parent_location_id: req.body.parent_location_id
-      });
+      }, { userId: req.user?.user_id });
 
       // Return response
       res.status(200).json({
@@ -419,7 +419,7 @@ export class LocationController {
 
       // Delete location
       try {
-        const deleted = await this.repositoryFactory.getLocationRepository().delete(locationId);
+        const deleted = await this.repositoryFactory.getLocationRepository().delete(locationId, userId);
 
         // Return response
         res.status(200).json({
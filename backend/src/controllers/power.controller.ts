@@ -305,7 +305,7 @@ export class PowerController {
         power_type: req.body.power_type,
         effect: req.body.effect,
         requirements: req.body.requirements
-      });
+      }, { userId: req.user?.user_id });
 
       // Return response
       res.status(200).json({
@@ -368,7 +368,7 @@ export class PowerController {
 
       // Delete power
       try {
-        const deleted = await this.repositoryFactory.getPowerRepository().delete(powerId);
+        const deleted = await this.repositoryFactory.getPowerRepository().delete(powerId, userId);
 
         // Return response
         res.status(200).json({
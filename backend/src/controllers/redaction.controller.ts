@@ -0,0 +1,291 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { RedactionError, RedactionService } from '../services/redaction.service';
+import { AudioRedactionError } from '../services/audio-redaction.service';
+import { PiiPattern, RedactionRuleType } from '../models/redaction.model';
+import { validateRequest } from '../utils/validation';
+
+// Extend the Express Request type to include user property
+interface AuthenticatedRequest extends Request {
+  user?: {
+    user_id: string;
+    role?: string;
+  };
+}
+
+/**
+ * HTTP status of each redaction error code
+ */
+const REDACTION_ERROR_STATUS: Record<string, number> = {
+  CAMPAIGN_NOT_FOUND: 404,
+  SPEAKER_NOT_FOUND: 404,
+  TRANSCRIPTION_NOT_FOUND: 404,
+  SEGMENT_NOT_FOUND: 404,
+  INVALID_RULE: 400,
+  INVALID_PATTERN: 400,
+  INVALID_SPAN: 400,
+  SEGMENT_CONFLICT: 409
+};
+
+/**
+ * Controller for redaction rules and redacting transcripts
+ */
+export class RedactionController {
+  private redactionService: RedactionService;
+
+  constructor(redactionService: RedactionService) {
+    this.redactionService = redactionService;
+  }
+
+  /**
+   * Get the redaction rules of a campaign
+   * @param req Request
+   * @param res Response
+   */
+  public getRules = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { campaignId } = req.params;
+
+      const rules = await this.redactionService.getRules(campaignId);
+
+      res.status(200).json({
+        success: true,
+        data: rules
+      });
+    } catch (error) {
+      console.error('Error getting redaction rules:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'An error occurred while getting the redaction rules.'
+        }
+      });
+    }
+  };
+
+  /**
+   * Add a redaction rule to a campaign and apply it to the transcripts of the campaign
+   * @param req Request
+   * @param res Response
+   */
+  public addRule = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      // Validate request
+      const schema = z.object({
+        type: z.nativeEnum(RedactionRuleType),
+        speaker_id: z.string().uuid().optional(),
+        pattern: z.string().min(1).max(500).optional(),
+        pii_pattern: z.nativeEnum(PiiPattern).optional(),
+        silence_audio: z.boolean().optional(),
+        description: z.string().max(500).optional()
+      });
+
+      const validationResult = validateRequest<z.infer<typeof schema>>(req.body, schema);
+      if (!validationResult.success) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request data.',
+            details: validationResult.errors
+          }
+        });
+        return;
+      }
+
+      const result = await this.redactionService.addRule(req.params.campaignId, req.body, req.user?.user_id);
+
+      res.status(201).json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      if (error instanceof RedactionError) {
+        res.status(REDACTION_ERROR_STATUS[error.code] || 400).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      if (error instanceof AudioRedactionError) {
+        res.status(500).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      console.error('Error adding redaction rule:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'An error occurred while adding the redaction rule.'
+        }
+      });
+    }
+  };
+
+  /**
+   * Delete a redaction rule
+   * @param req Request
+   * @param res Response
+   */
+  public deleteRule = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { ruleId } = req.params;
+
+      const deleted = await this.redactionService.deleteRule(ruleId);
+      if (!deleted) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'RULE_NOT_FOUND',
+            message: 'Redaction rule not found.'
+          }
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: {
+          deleted
+        }
+      });
+    } catch (error) {
+      console.error('Error deleting redaction rule:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'An error occurred while deleting the redaction rule.'
+        }
+      });
+    }
+  };
+
+  /**
+   * Apply the redaction rules of its campaign to a transcription
+   * @param req Request
+   * @param res Response
+   */
+  public applyToTranscription = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { transcriptionId } = req.params;
+
+      const summary = await this.redactionService.applyToTranscription(transcriptionId);
+      if (!summary) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'TRANSCRIPTION_NOT_FOUND',
+            message: 'Transcription not found.'
+          }
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: summary
+      });
+    } catch (error) {
+      if (error instanceof AudioRedactionError) {
+        res.status(500).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      console.error('Error redacting transcription:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'An error occurred while redacting the transcription.'
+        }
+      });
+    }
+  };
+
+  /**
+   * Redact a span of a transcript segment by hand
+   * @param req Request
+   * @param res Response
+   */
+  public redactSpan = async (req: Request, res: Response): Promise<void> => {
+    try {
+      // Validate request
+      const schema = z.object({
+        segment_id: z.string().min(1),
+        start_offset: z.number().int().min(0),
+        end_offset: z.number().int().min(1),
+        silence_audio: z.boolean().optional()
+      });
+
+      const validationResult = validateRequest<z.infer<typeof schema>>(req.body, schema);
+      if (!validationResult.success) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request data.',
+            details: validationResult.errors
+          }
+        });
+        return;
+      }
+
+      const result = await this.redactionService.redactSpan(req.params.transcriptionId, req.body);
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      if (error instanceof RedactionError) {
+        res.status(REDACTION_ERROR_STATUS[error.code] || 400).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      if (error instanceof AudioRedactionError) {
+        res.status(500).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      console.error('Error redacting transcript span:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'An error occurred while redacting the transcript span.'
+        }
+      });
+    }
+  };
+}
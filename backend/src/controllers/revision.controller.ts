@@ -0,0 +1,240 @@
+import { Request, Response } from 'express';
+import { validationResult } from 'express-validator';
+import { RevisionService } from '../services/revision.service';
+import { RevisionEntityType } from '../models/revision.model';
+
+// Extend the Express Request type to include user property
+interface AuthenticatedRequest extends Request {
+  user?: {
+    user_id: string;
+    role?: string;
+  };
+}
+
+/**
+ * Controller for entity revision history
+ */
+export class RevisionController {
+  private revisionService: RevisionService;
+
+  constructor(revisionService: RevisionService) {
+    this.revisionService = revisionService;
+
+    // Bind methods to ensure 'this' context
+    this.getRevisions = this.getRevisions.bind(this);
+    this.getRevision = this.getRevision.bind(this);
+    this.diffRevisions = this.diffRevisions.bind(this);
+    this.revertToRevision = this.revertToRevision.bind(this);
+  }
+
+  /**
+   * Get error message from error object
+   * @param error Error object
+   * @returns Error message
+   */
+  private getErrorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  /**
+   * Respond with validation errors, if any
+   * @param req Request
+   * @param res Response
+   * @returns True when the request is invalid
+   */
+  private rejectInvalid(req: Request, res: Response): boolean {
+    const errors = validationResult(req);
+    if (errors.isEmpty()) {
+      return false;
+    }
+    res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Validation error',
+        details: errors.array()
+      }
+    });
+    return true;
+  }
+
+  /**
+   * Get the revisions of an entity
+   * @param req Request
+   * @param res Response
+   */
+  public async getRevisions(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (this.rejectInvalid(req, res)) {
+        return;
+      }
+
+      const page = req.query.page ? parseInt(req.query.page as string, 10) : 1;
+      const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 20;
+      const { revisions, total } = await this.revisionService.getRevisions(
+        req.params.entityType as RevisionEntityType,
+        req.params.entityId,
+        page,
+        limit
+      );
+
+      res.status(200).json({
+        success: true,
+        data: revisions,
+        meta: {
+          total,
+          page,
+          limit,
+          totalPages: Math.ceil(total / limit)
+        }
+      });
+    } catch (error) {
+      console.error('Error getting revisions:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'An error occurred while getting revisions',
+          details: this.getErrorMessage(error)
+        }
+      });
+    }
+  }
+
+  /**
+   * Get a single revision
+   * @param req Request
+   * @param res Response
+   */
+  public async getRevision(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (this.rejectInvalid(req, res)) {
+        return;
+      }
+
+      const revision = await this.revisionService.getRevision(
+        req.params.entityType as RevisionEntityType,
+        req.params.entityId,
+        parseInt(req.params.revisionNumber, 10)
+      );
+
+      if (!revision) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Revision not found'
+          }
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: revision
+      });
+    } catch (error) {
+      console.error('Error getting revision:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'An error occurred while getting the revision',
+          details: this.getErrorMessage(error)
+        }
+      });
+    }
+  }
+
+  /**
+   * Compare two revisions
+   * @param req Request
+   * @param res Response
+   */
+  public async diffRevisions(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (this.rejectInvalid(req, res)) {
+        return;
+      }
+
+      const diff = await this.revisionService.diff(
+        req.params.entityType as RevisionEntityType,
+        req.params.entityId,
+        parseInt(req.query.from as string, 10),
+        parseInt(req.query.to as string, 10)
+      );
+
+      if (!diff) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Revision not found'
+          }
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: diff
+      });
+    } catch (error) {
+      console.error('Error comparing revisions:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'An error occurred while comparing revisions',
+          details: this.getErrorMessage(error)
+        }
+      });
+    }
+  }
+
+  /**
+   * Restore an entity to an earlier revision
+   * @param req Request
+   * @param res Response
+   */
+  public async revertToRevision(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (this.rejectInvalid(req, res)) {
+        return;
+      }
+
+      const revision = await this.revisionService.revert(
+        req.params.entityType as RevisionEntityType,
+        req.params.entityId,
+        parseInt(req.params.revisionNumber, 10),
+        { userId: req.user?.user_id }
+      );
+
+      if (!revision) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Revision or entity not found'
+          }
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: revision
+      });
+    } catch (error) {
+      console.error('Error reverting entity:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'An error occurred while reverting the entity',
+          details: this.getErrorMessage(error)
+        }
+      });
+    }
+  }
+}
@@ -0,0 +1,297 @@
+import { Request, Response } from 'express';
+import { validationResult } from 'express-validator';
+import { SearchService } from '../services/search.service';
+import {
+  SEARCH_ENTITY_TYPES,
+  SearchEntityType,
+  SearchParams,
+  TranscriptSearchParams
+} from '../models/search.model';
+
+// Extend the Express Request type to include user property
+interface AuthenticatedRequest extends Request {
+  user?: {
+    user_id: string;
+    role?: string;
+  };
+}
+
+/**
+ * Controller for search requests
+ */
+export class SearchController {
+  private searchService: SearchService;
+
+  constructor(searchService: SearchService) {
+    this.searchService = searchService;
+
+    // Bind methods to ensure 'this' context
+    this.search = this.search.bind(this);
+    this.searchTranscripts = this.searchTranscripts.bind(this);
+    this.getSuggestions = this.getSuggestions.bind(this);
+    this.getRecentSearches = this.getRecentSearches.bind(this);
+    this.saveRecentSearch = this.saveRecentSearch.bind(this);
+    this.clearRecentSearches = this.clearRecentSearches.bind(this);
+  }
+
+  /**
+   * Get error message from error object
+   * @param error Error object
+   * @returns Error message
+   */
+  private getErrorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  /**
+   * Respond with validation errors, if any
+   * @param req Request
+   * @param res Response
+   * @returns True when the request is invalid
+   */
+  private rejectInvalid(req: Request, res: Response): boolean {
+    const errors = validationResult(req);
+    if (errors.isEmpty()) {
+      return false;
+    }
+    res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Validation error',
+        details: errors.array()
+      }
+    });
+    return true;
+  }
+
+  /**
+   * Parse the types query parameter, given as repeated values or a comma-separated list
+   * @param value Query parameter value
+   * @returns Entity types
+   */
+  private parseTypes(value: unknown): SearchEntityType[] | undefined {
+    if (value === undefined) {
+      return undefined;
+    }
+    const values = (Array.isArray(value) ? value : [value]).flatMap((entry) => String(entry).split(','));
+    return values.map((entry) => entry.trim()).filter((entry): entry is SearchEntityType =>
+      SEARCH_ENTITY_TYPES.includes(entry as SearchEntityType)
+    );
+  }
+
+  /**
+   * Parse a list of IDs, given as repeated values or a comma-separated list
+   * @param value Query parameter value
+   * @returns IDs
+   */
+  private parseIds(value: unknown): string[] | undefined {
+    if (value === undefined) {
+      return undefined;
+    }
+    const values = (Array.isArray(value) ? value : [value]).flatMap((entry) => String(entry).split(','));
+    return values.map((entry) => entry.trim()).filter(Boolean);
+  }
+
+  /**
+   * Search for entities
+   * @param req Request
+   * @param res Response
+   */
+  public async search(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (this.rejectInvalid(req, res)) {
+        return;
+      }
+
+      const params: SearchParams = {
+        query: req.query.query as string,
+        types: this.parseTypes(req.query.types),
+        worldId: req.query.worldId as string | undefined,
+        campaignId: req.query.campaignId as string | undefined,
+        limit: req.query.limit ? parseInt(req.query.limit as string, 10) : undefined,
+        offset: req.query.offset ? parseInt(req.query.offset as string, 10) : undefined,
+        sortBy: req.query.sortBy as SearchParams['sortBy'],
+        sortDirection: req.query.sortDirection as SearchParams['sortDirection']
+      };
+
+      const data = await this.searchService.search(params);
+
+      res.status(200).json({
+        success: true,
+        data
+      });
+    } catch (error) {
+      console.error('Error searching:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'An error occurred while searching',
+          details: this.getErrorMessage(error)
+        }
+      });
+    }
+  }
+
+  /**
+   * Search the transcripts of a campaign for the moments where something was said
+   * @param req Request
+   * @param res Response
+   */
+  public async searchTranscripts(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (this.rejectInvalid(req, res)) {
+        return;
+      }
+
+      const params: TranscriptSearchParams = {
+        campaignId: req.query.campaignId as string,
+        query: req.query.query as string,
+        speakerIds: this.parseIds(req.query.speakerIds),
+        characterIds: this.parseIds(req.query.characterIds),
+        fuzzy: req.query.fuzzy === 'true',
+        sortBy: req.query.sortBy as TranscriptSearchParams['sortBy'],
+        limit: req.query.limit ? parseInt(req.query.limit as string, 10) : undefined,
+        offset: req.query.offset ? parseInt(req.query.offset as string, 10) : undefined
+      };
+
+      const data = await this.searchService.searchTranscripts(params);
+
+      res.status(200).json({
+        success: true,
+        data
+      });
+    } catch (error) {
+      console.error('Error searching transcripts:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'An error occurred while searching transcripts',
+          details: this.getErrorMessage(error)
+        }
+      });
+    }
+  }
+
+  /**
+   * Get typeahead suggestions
+   * @param req Request
+   * @param res Response
+   */
+  public async getSuggestions(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (this.rejectInvalid(req, res)) {
+        return;
+      }
+
+      const suggestions = await this.searchService.getSuggestions(
+        (req.query.query as string) || '',
+        this.parseTypes(req.query.types),
+        req.query.limit ? parseInt(req.query.limit as string, 10) : undefined
+      );
+
+      res.status(200).json({
+        success: true,
+        data: suggestions
+      });
+    } catch (error) {
+      console.error('Error getting search suggestions:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'An error occurred while getting search suggestions',
+          details: this.getErrorMessage(error)
+        }
+      });
+    }
+  }
+
+  /**
+   * Get the current user's recent searches
+   * @param req Request
+   * @param res Response
+   */
+  public async getRecentSearches(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (this.rejectInvalid(req, res)) {
+        return;
+      }
+
+      const userId = req.user?.user_id as string;
+      const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 10;
+      const searches = await this.searchService.getRecentSearches(userId, limit);
+
+      res.status(200).json({
+        success: true,
+        data: searches
+      });
+    } catch (error) {
+      console.error('Error getting recent searches:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'An error occurred while getting recent searches',
+          details: this.getErrorMessage(error)
+        }
+      });
+    }
+  }
+
+  /**
+   * Save a query to the current user's recent searches
+   * @param req Request
+   * @param res Response
+   */
+  public async saveRecentSearch(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (this.rejectInvalid(req, res)) {
+        return;
+      }
+
+      await this.searchService.saveRecentSearch(req.user?.user_id as string, req.body.query);
+
+      res.status(201).json({
+        success: true
+      });
+    } catch (error) {
+      console.error('Error saving recent search:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'An error occurred while saving the recent search',
+          details: this.getErrorMessage(error)
+        }
+      });
+    }
+  }
+
+  /**
+   * Clear the current user's recent searches
+   * @param req Request
+   * @param res Response
+   */
+  public async clearRecentSearches(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      await this.searchService.clearRecentSearches(req.user?.user_id as string);
+
+      res.status(200).json({
+        success: true
+      });
+    } catch (error) {
+      console.error('Error clearing recent searches:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'An error occurred while clearing recent searches',
+          details: this.getErrorMessage(error)
+        }
+      });
+    }
+  }
+}
@@ -1,6 +1,9 @@
 import { Request, Response } from 'express';
 import { SessionAnalysisService } from '../services/session-analysis.service';
+import { JobQueueService } from '../services/job-queue.service';
 import { AnalysisProcessingOptions } from '../models/session-analysis.model';
+import { SegmentCategory, TranscriptTextVersion } from '../models/transcription.model';
+import { JobType } from '../models/job.model';
 import { validateRequest } from '../utils/validation';
 import { z } from 'zod';
 
@@ -17,9 +20,11 @@ interface AuthenticatedRequest extends Request {
  */
 export class SessionAnalysisController {
   private sessionAnalysisService: SessionAnalysisService;
+  private jobQueueService: JobQueueService;
 
-  constructor(sessionAnalysisService: SessionAnalysisService) {
+  constructor(sessionAnalysisService: SessionAnalysisService, jobQueueService: JobQueueService) {
     this.sessionAnalysisService = sessionAnalysisService;
+    this.jobQueueService = jobQueueService;
   }
 
   /**
@@ -146,7 +151,8 @@ export class SessionAnalysisController {
       // Validate request
       const schema = z.object({
         session_id: z.string().uuid(),
-        transcription_id: z.string().uuid()
+        // The session transcript is analyzed when no transcription is given
+        transcription_id: z.string().uuid().optional()
       });
 
       const validationResult = validateRequest(req.body, schema);
@@ -177,6 +183,17 @@ export class SessionAnalysisController {
         data: analysis
       });
     } catch (error) {
+      if (error instanceof Error && error.message === 'Session transcript not found') {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'SESSION_TRANSCRIPT_NOT_FOUND',
+            message: 'The recordings of this session have not been stitched into a session transcript.'
+          }
+        });
+        return;
+      }
+
       console.error('Error creating session analysis:', error);
       res.status(500).json({
         success: false,
@@ -232,11 +249,11 @@ export class SessionAnalysisController {
   };
 
   /**
-   * Process session analysis
+   * Queue a session analysis for processing
    * @param req Request
    * @param res Response
    */
-  public process = async (req: Request, res: Response): Promise<void> => {
+  public process = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
       const { analysisId } = req.params;
 
@@ -249,7 +266,9 @@ export class SessionAnalysisController {
         model: z.string().optional(),
         max_key_points: z.number().int().positive().optional(),
         max_topics: z.number().int().positive().optional(),
-        min_relevance_score: z.number().min(0).max(1).optional()
+        min_relevance_score: z.number().min(0).max(1).optional(),
+        segment_categories: z.array(z.nativeEnum(SegmentCategory)).optional(),
+        text_version: z.nativeEnum(TranscriptTextVersion).optional()
       });
 
       const validationResult = validateRequest(req.body, schema);
@@ -278,16 +297,20 @@ export class SessionAnalysisController {
         return;
       }
 
-      // Process analysis
+      // Queue analysis
       const options: AnalysisProcessingOptions = req.body;
-      const analysis = await this.sessionAnalysisService.process(analysisId, options);
+      const job = await this.jobQueueService.enqueue({
+        type: JobType.SESSION_ANALYSIS,
+        payload: { analysis_id: analysisId, options },
+        created_by: req.user?.user_id
+      });
 
-      res.status(200).json({
+      res.status(202).json({
         success: true,
-        data: analysis
+        data: job
       });
     } catch (error) {
-      console.error('Error processing session analysis:', error);
+      console.error('Error queueing session analysis:', error);
       res.status(500).json({
         success: false,
         error: {
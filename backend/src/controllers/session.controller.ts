@@ -327,7 +327,7 @@ export class SessionController {
 
       // Delete session
       try {
-        const deleted = await this.repositoryFactory.getSessionRepository().delete(sessionId);
+        const deleted = await this.repositoryFactory.getSessionRepository().delete(sessionId, userId);
 
         // Return response
         res.status(200).json({
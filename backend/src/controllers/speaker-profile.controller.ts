@@ -0,0 +1,117 @@
+import { Request, Response } from 'express';
+import { SpeakerProfileError, SpeakerProfileService } from '../services/speaker-profile.service';
+
+/**
+ * Controller for campaign-level speaker profiles
+ */
+export class SpeakerProfileController {
+  private speakerProfileService: SpeakerProfileService;
+
+  constructor(speakerProfileService: SpeakerProfileService) {
+    this.speakerProfileService = speakerProfileService;
+  }
+
+  /**
+   * Get the speaker profiles of a campaign
+   * @param req Request
+   * @param res Response
+   */
+  public getByCampaign = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { campaignId } = req.params;
+
+      const profiles = await this.speakerProfileService.getByCampaign(campaignId);
+
+      res.status(200).json({
+        success: true,
+        data: profiles
+      });
+    } catch (error) {
+      console.error('Error getting speaker profiles:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'An error occurred while getting the speaker profiles.'
+        }
+      });
+    }
+  };
+
+  /**
+   * Delete a speaker profile
+   * @param req Request
+   * @param res Response
+   */
+  public delete = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { profileId } = req.params;
+
+      const deleted = await this.speakerProfileService.delete(profileId);
+      if (!deleted) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'PROFILE_NOT_FOUND',
+            message: 'Speaker profile not found.'
+          }
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: {
+          deleted
+        }
+      });
+    } catch (error) {
+      console.error('Error deleting speaker profile:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'An error occurred while deleting the speaker profile.'
+        }
+      });
+    }
+  };
+
+  /**
+   * Propose the character and player of the unassigned speakers of a transcription
+   * @param req Request
+   * @param res Response
+   */
+  public getProposals = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { transcriptionId } = req.params;
+
+      const proposals = await this.speakerProfileService.proposeMappings(transcriptionId);
+
+      res.status(200).json({
+        success: true,
+        data: proposals
+      });
+    } catch (error) {
+      if (error instanceof SpeakerProfileError) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      console.error('Error proposing speaker mappings:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'An error occurred while proposing speaker mappings.'
+        }
+      });
+    }
+  };
+}
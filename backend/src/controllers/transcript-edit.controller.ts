@@ -0,0 +1,306 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { TranscriptEditError, TranscriptEditService } from '../services/transcript-edit.service';
+import { SegmentCategory } from '../models/transcription.model';
+import { validateRequest } from '../utils/validation';
+
+// Extend the Express Request type to include user property
+interface AuthenticatedRequest extends Request {
+  user?: {
+    user_id: string;
+    role?: string;
+  };
+}
+
+/**
+ * HTTP status of each transcript edit error code
+ */
+const EDIT_ERROR_STATUS: Record<string, number> = {
+  TRANSCRIPTION_NOT_FOUND: 404,
+  SEGMENT_NOT_FOUND: 404,
+  SPEAKER_NOT_FOUND: 404,
+  REVISION_NOT_FOUND: 404,
+  INVALID_SPLIT: 400,
+  INVALID_TIMING: 400,
+  NO_NEXT_SEGMENT: 409,
+  REVISION_ALREADY_ROLLED_BACK: 409,
+  ROLLBACK_CONFLICT: 409,
+  SEGMENT_CONFLICT: 409
+};
+
+/**
+ * Controller for segment-level transcript editing and its revision log
+ */
+export class TranscriptEditController {
+  private transcriptEditService: TranscriptEditService;
+
+  constructor(transcriptEditService: TranscriptEditService) {
+    this.transcriptEditService = transcriptEditService;
+  }
+
+  /**
+   * Replace the text of a segment
+   * @param req Request
+   * @param res Response
+   */
+  public editText = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const schema = z.object({
+        text: z.string().trim().min(1)
+      });
+      if (!this.validate(req.body, schema, res)) {
+        return;
+      }
+
+      const { transcriptionId, segmentId } = req.params;
+      const result = await this.transcriptEditService.editText(transcriptionId, segmentId, req.body.text, req.user?.user_id);
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      this.sendError(res, error, 'editing the segment');
+    }
+  };
+
+  /**
+   * Split a segment in two before a word
+   * @param req Request
+   * @param res Response
+   */
+  public split = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const schema = z.object({
+        word_index: z.number().int().min(1)
+      });
+      if (!this.validate(req.body, schema, res)) {
+        return;
+      }
+
+      const { transcriptionId, segmentId } = req.params;
+      const result = await this.transcriptEditService.split(transcriptionId, segmentId, req.body.word_index, req.user?.user_id);
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      this.sendError(res, error, 'splitting the segment');
+    }
+  };
+
+  /**
+   * Merge a segment with the segment that follows it
+   * @param req Request
+   * @param res Response
+   */
+  public mergeWithNext = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { transcriptionId, segmentId } = req.params;
+      const result = await this.transcriptEditService.mergeWithNext(transcriptionId, segmentId, req.user?.user_id);
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      this.sendError(res, error, 'merging the segments');
+    }
+  };
+
+  /**
+   * Attribute a segment to another speaker
+   * @param req Request
+   * @param res Response
+   */
+  public reassignSpeaker = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const schema = z.object({
+        speaker_id: z.string().min(1)
+      });
+      if (!this.validate(req.body, schema, res)) {
+        return;
+      }
+
+      const { transcriptionId, segmentId } = req.params;
+      const result = await this.transcriptEditService.reassignSpeaker(
+        transcriptionId,
+        segmentId,
+        req.body.speaker_id,
+        req.user?.user_id
+      );
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      this.sendError(res, error, 'reassigning the speaker');
+    }
+  };
+
+  /**
+   * Move the start and end of a segment
+   * @param req Request
+   * @param res Response
+   */
+  public retime = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const schema = z.object({
+        start_time: z.number().min(0),
+        end_time: z.number().min(0)
+      });
+      if (!this.validate(req.body, schema, res)) {
+        return;
+      }
+
+      const { transcriptionId, segmentId } = req.params;
+      const result = await this.transcriptEditService.retime(
+        transcriptionId,
+        segmentId,
+        req.body.start_time,
+        req.body.end_time,
+        req.user?.user_id
+      );
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      this.sendError(res, error, 'retiming the segment');
+    }
+  };
+
+  /**
+   * Set the category of a segment by hand
+   * @param req Request
+   * @param res Response
+   */
+  public setCategory = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const schema = z.object({
+        category: z.nativeEnum(SegmentCategory)
+      });
+      if (!this.validate(req.body, schema, res)) {
+        return;
+      }
+
+      const { transcriptionId, segmentId } = req.params;
+      const result = await this.transcriptEditService.setCategory(
+        transcriptionId,
+        segmentId,
+        req.body.category,
+        req.user?.user_id
+      );
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      this.sendError(res, error, 'setting the segment category');
+    }
+  };
+
+  /**
+   * Get the revision log of a transcription
+   * @param req Request
+   * @param res Response
+   */
+  public getRevisions = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const page = req.query.page ? parseInt(req.query.page as string, 10) : 1;
+      const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 20;
+      const { revisions, total } = await this.transcriptEditService.getRevisions(req.params.transcriptionId, page, limit);
+
+      res.status(200).json({
+        success: true,
+        data: revisions,
+        meta: {
+          total,
+          page,
+          limit,
+          totalPages: Math.ceil(total / limit)
+        }
+      });
+    } catch (error) {
+      this.sendError(res, error, 'getting the transcript revisions');
+    }
+  };
+
+  /**
+   * Roll back a revision
+   * @param req Request
+   * @param res Response
+   */
+  public rollback = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { transcriptionId, revisionNumber } = req.params;
+      const result = await this.transcriptEditService.rollback(
+        transcriptionId,
+        parseInt(revisionNumber, 10),
+        req.user?.user_id
+      );
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      this.sendError(res, error, 'rolling back the revision');
+    }
+  };
+
+  /**
+   * Validate a request body, answering with the validation errors when it is invalid
+   * @param body Request body
+   * @param schema Schema of the body
+   * @param res Response
+   * @returns True if the body is valid
+   */
+  private validate(body: unknown, schema: z.ZodTypeAny, res: Response): boolean {
+    const validationResult = validateRequest(body, schema);
+    if (!validationResult.success) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid request data.',
+          details: validationResult.errors
+        }
+      });
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Answer with the error of a failed request
+   * @param res Response
+   * @param error Error
+   * @param action What was being done, for the message of unexpected errors
+   */
+  private sendError(res: Response, error: unknown, action: string): void {
+    if (error instanceof TranscriptEditError) {
+      res.status(EDIT_ERROR_STATUS[error.code] || 400).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      });
+      return;
+    }
+
+    console.error(`Error ${action}:`, error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: `An error occurred while ${action}.`
+      }
+    });
+  }
+}
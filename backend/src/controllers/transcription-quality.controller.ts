@@ -0,0 +1,122 @@
+import { Request, Response } from 'express';
+import { TranscriptionQualityError, TranscriptionQualityService } from '../services/transcription-quality.service';
+
+/**
+ * HTTP status of each transcription quality error code
+ */
+const QUALITY_ERROR_STATUS: Record<string, number> = {
+  TRANSCRIPTION_NOT_FOUND: 404
+};
+
+/**
+ * Controller for the quality scores of transcriptions and the comparison of transcription providers
+ */
+export class TranscriptionQualityController {
+  private transcriptionQualityService: TranscriptionQualityService;
+
+  constructor(transcriptionQualityService: TranscriptionQualityService) {
+    this.transcriptionQualityService = transcriptionQualityService;
+  }
+
+  /**
+   * Get the quality score of a transcription
+   * @param req Request
+   * @param res Response
+   */
+  public getScore = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const score = await this.transcriptionQualityService.getScore(req.params.transcriptionId);
+      if (!score) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'QUALITY_SCORE_NOT_FOUND',
+            message: 'The transcription has not been scored; it is scored once its transcript is corrected.'
+          }
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: score
+      });
+    } catch (error) {
+      this.sendError(res, error, 'getting the quality score');
+    }
+  };
+
+  /**
+   * Score a transcription again against its corrections
+   * @param req Request
+   * @param res Response
+   */
+  public score = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const score = await this.transcriptionQualityService.score(req.params.transcriptionId);
+      if (!score) {
+        res.status(409).json({
+          success: false,
+          error: {
+            code: 'NOTHING_TO_SCORE',
+            message: 'Only transcripts made by a transcription provider and corrected since can be scored.'
+          }
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: score
+      });
+    } catch (error) {
+      this.sendError(res, error, 'scoring the transcription');
+    }
+  };
+
+  /**
+   * Compare the transcription providers by the scores of their transcriptions
+   * @param req Request
+   * @param res Response
+   */
+  public compare = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const comparison = await this.transcriptionQualityService.compare();
+
+      res.status(200).json({
+        success: true,
+        data: comparison
+      });
+    } catch (error) {
+      this.sendError(res, error, 'comparing transcription providers');
+    }
+  };
+
+  /**
+   * Answer with the error of a failed request
+   * @param res Response
+   * @param error Error
+   * @param action What was being done, for the message of unexpected errors
+   */
+  private sendError(res: Response, error: unknown, action: string): void {
+    if (error instanceof TranscriptionQualityError) {
+      res.status(QUALITY_ERROR_STATUS[error.code] || 400).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      });
+      return;
+    }
+
+    console.error(`Error ${action}:`, error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: `An error occurred while ${action}.`
+      }
+    });
+  }
+}
@@ -1,17 +1,93 @@
 import { Request, Response } from 'express';
-import { TranscriptionService } from '../services/transcription.service';
-import { SpeakerIdentificationUpdateParams } from '../models/transcription.model';
+import multer from 'multer';
+import { SessionTranscriptError, TranscriptImportError, TranscriptionService } from '../services/transcription.service';
+import { JobQueueService } from '../services/job-queue.service';
+import {
+  SpeakerIdentificationUpdateParams,
+  Transcription,
+  TranscriptExportFormat,
+  TranscriptFormat,
+  TranscriptTextVersion
+} from '../models/transcription.model';
+import { TranscriptionService as TranscriptionEngine } from '../models/audio-recording.model';
+import { Job, JobType } from '../models/job.model';
 import { validateRequest } from '../utils/validation';
+import { TranscriptFormatError } from '../utils/transcript-formats';
+import { SegmentClassifierError } from '../services/segment-classifiers/classifier';
 import { z } from 'zod';
 
+// Extend the Express Request type to include user property
+interface AuthenticatedRequest extends Request {
+  user?: {
+    user_id: string;
+    role?: string;
+  };
+}
+
+// Configure multer for transcript uploads
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 20 * 1024 * 1024 // 20MB limit
+  }
+});
+
+/**
+ * HTTP status of each transcript import error code
+ */
+const IMPORT_ERROR_STATUS: Record<string, number> = {
+  SESSION_NOT_FOUND: 404,
+  RECORDING_NOT_FOUND: 404,
+  RECORDING_ALREADY_TRANSCRIBED: 409
+};
+
+/**
+ * HTTP status of each session transcript error code
+ */
+const SESSION_TRANSCRIPT_ERROR_STATUS: Record<string, number> = {
+  SESSION_NOT_FOUND: 404,
+  NO_TRANSCRIPTIONS: 409
+};
+
 /**
  * Transcription controller
  */
 export class TranscriptionController {
   private transcriptionService: TranscriptionService;
+  private jobQueueService: JobQueueService;
 
-  constructor(transcriptionService: TranscriptionService) {
+  constructor(transcriptionService: TranscriptionService, jobQueueService: JobQueueService) {
     this.transcriptionService = transcriptionService;
+    this.jobQueueService = jobQueueService;
+  }
+
+  /**
+   * Queue a transcription for processing
+   * @param transcription Transcription
+   * @param service Transcription service to use
+   * @param enableSpeakerDiarization Enable speaker diarization
+   * @param userId User ID
+   * @param language Spoken language, detected when omitted
+   * @returns Queued job
+   */
+  private queueTranscription(
+    transcription: Transcription,
+    service: TranscriptionEngine,
+    enableSpeakerDiarization: boolean,
+    userId?: string,
+    language?: string
+  ): Promise<Job> {
+    return this.jobQueueService.enqueue({
+      type: JobType.TRANSCRIPTION,
+      payload: {
+        transcription_id: transcription.transcription_id,
+        recording_id: transcription.recording_id,
+        service,
+        enable_speaker_diarization: enableSpeakerDiarization,
+        language
+      },
+      created_by: userId
+    });
   }
 
   /**
@@ -91,64 +167,125 @@ export class TranscriptionController {
   };
 
   /**
-   * Delete transcription
+   * Import a transcript file made by another tool into a session
    * @param req Request
    * @param res Response
    */
-  public delete = async (req: Request, res: Response): Promise<void> => {
+  public importTranscript = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
-      const { transcriptionId } = req.params;
+      // Validate request
+      const schema = z.object({
+        session_id: z.string().uuid(),
+        recording_id: z.string().uuid().optional(),
+        format: z.nativeEnum(TranscriptFormat).optional(),
+        language_code: z.string().min(2).max(10).optional(),
+        content: z.string().optional()
+      });
 
-      // Check if transcription exists
-      const existingTranscription = await this.transcriptionService.getById(transcriptionId);
-      if (!existingTranscription) {
-        res.status(404).json({
+      const validationResult = validateRequest(req.body, schema);
+      if (!validationResult.success) {
+        res.status(400).json({
           success: false,
           error: {
-            code: 'TRANSCRIPTION_NOT_FOUND',
-            message: 'Transcription not found.'
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request data.',
+            details: validationResult.errors
           }
         });
         return;
       }
 
-      // Delete transcription
-      const deleted = await this.transcriptionService.delete(transcriptionId);
+      const content = req.file ? req.file.buffer.toString('utf8') : req.body.content;
+      if (!content) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'NO_TRANSCRIPT',
+            message: 'Upload a transcript file or send its content.'
+          }
+        });
+        return;
+      }
 
-      res.status(200).json({
+      const { session_id, recording_id, format, language_code } = req.body;
+
+      // Import transcript
+      const transcription = await this.transcriptionService.importTranscript(
+        {
+          session_id,
+          recording_id,
+          format,
+          language_code,
+          file_name: req.file?.originalname,
+          created_by: req.user?.user_id
+        },
+        content
+      );
+
+      res.status(201).json({
         success: true,
-        data: {
-          deleted
-        }
+        data: transcription
       });
     } catch (error) {
-      console.error('Error deleting transcription:', error);
+      if (error instanceof TranscriptFormatError) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_TRANSCRIPT',
+            message: error.message
+          }
+        });
+        return;
+      }
+      if (error instanceof TranscriptImportError) {
+        res.status(IMPORT_ERROR_STATUS[error.code] || 400).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      console.error('Error importing transcript:', error);
       res.status(500).json({
         success: false,
         error: {
           code: 'SERVER_ERROR',
-          message: 'An error occurred while deleting the transcription.'
+          message: 'An error occurred while importing the transcript.'
         }
       });
     }
   };
 
   /**
-   * Process transcription with Whisper
+   * Get multer upload middleware for transcript files
+   * @returns Multer middleware
+   */
+  public getUploadMiddleware() {
+    return upload.single('transcript');
+  }
+
+  /**
+   * Download a transcription in an export format
    * @param req Request
    * @param res Response
    */
-  public processWithWhisper = async (req: Request, res: Response): Promise<void> => {
+  public exportTranscript = async (req: Request, res: Response): Promise<void> => {
     try {
       const { transcriptionId } = req.params;
 
-      // Validate request
+      // Validate format and options
       const schema = z.object({
-        enableSpeakerDiarization: z.boolean().optional()
+        format: z.nativeEnum(TranscriptExportFormat),
+        min_confidence: z.coerce.number().min(0).max(1).optional(),
+        include_timestamps: z.enum(['true', 'false']).optional(),
+        text_version: z.nativeEnum(TranscriptTextVersion).optional()
       });
 
-      const validationResult = validateRequest(req.body, schema);
-      if (!validationResult.success) {
+      const validationResult = validateRequest<z.infer<typeof schema>>({ ...req.query, format: req.params.format }, schema);
+      if (!validationResult.success || !validationResult.data) {
         res.status(400).json({
           success: false,
           error: {
@@ -160,11 +297,16 @@ export class TranscriptionController {
         return;
       }
 
-      const { enableSpeakerDiarization = true } = req.body;
+      const { format, min_confidence, include_timestamps, text_version } = validationResult.data;
 
-      // Check if transcription exists
-      const existingTranscription = await this.transcriptionService.getById(transcriptionId);
-      if (!existingTranscription) {
+      // Export transcription
+      const file = await this.transcriptionService.exportTranscript(transcriptionId, format, {
+        min_confidence,
+        include_timestamps: include_timestamps === 'true',
+        text_version
+      });
+
+      if (!file) {
         res.status(404).json({
           success: false,
           error: {
@@ -175,44 +317,87 @@ export class TranscriptionController {
         return;
       }
 
-      // Process transcription
-      const transcription = await this.transcriptionService.processWithWhisper(
-        transcriptionId,
-        enableSpeakerDiarization
-      );
+      res.setHeader('Content-Type', `${file.contentType}; charset=utf-8`);
+      res.setHeader('Content-Disposition', `attachment; filename="${file.fileName}"`);
+      res.status(200).send(file.data);
+    } catch (error) {
+      console.error('Error exporting transcription:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'An error occurred while exporting the transcription.'
+        }
+      });
+    }
+  };
+
+  /**
+   * Classify the segments of a transcription as in character, rules or off-topic again
+   * @param req Request
+   * @param res Response
+   */
+  public classify = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { transcriptionId } = req.params;
+
+      const transcription = await this.transcriptionService.classify(transcriptionId);
+      if (!transcription) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'TRANSCRIPTION_NOT_FOUND',
+            message: 'Transcription not found.'
+          }
+        });
+        return;
+      }
 
       res.status(200).json({
         success: true,
         data: transcription
       });
     } catch (error) {
-      console.error('Error processing transcription with Whisper:', error);
+      if (error instanceof SegmentClassifierError) {
+        res.status(503).json({
+          success: false,
+          error: {
+            code: 'SEGMENT_CLASSIFIER_UNAVAILABLE',
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      console.error('Error classifying transcription segments:', error);
       res.status(500).json({
         success: false,
         error: {
           code: 'SERVER_ERROR',
-          message: 'An error occurred while processing the transcription.'
+          message: 'An error occurred while classifying the transcription segments.'
         }
       });
     }
   };
 
   /**
-   * Process transcription with Vosk
+   * Queue the translation of a transcription into a language
    * @param req Request
    * @param res Response
    */
-  public processWithVosk = async (req: Request, res: Response): Promise<void> => {
+  public translate = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
       const { transcriptionId } = req.params;
 
       // Validate request
       const schema = z.object({
-        enableSpeakerDiarization: z.boolean().optional()
+        target_language: z.string().regex(/^[a-z]{2}$/, 'Expected an ISO 639-1 language code'),
+        model: z.string().optional(),
+        retranslate: z.boolean().optional()
       });
 
-      const validationResult = validateRequest(req.body, schema);
-      if (!validationResult.success) {
+      const validationResult = validateRequest<z.infer<typeof schema>>(req.body, schema);
+      if (!validationResult.success || !validationResult.data) {
         res.status(400).json({
           success: false,
           error: {
@@ -224,7 +409,49 @@ export class TranscriptionController {
         return;
       }
 
-      const { enableSpeakerDiarization = true } = req.body;
+      const transcription = await this.transcriptionService.getById(transcriptionId);
+      if (!transcription) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'TRANSCRIPTION_NOT_FOUND',
+            message: 'Transcription not found.'
+          }
+        });
+        return;
+      }
+
+      // Queue translation
+      const job = await this.jobQueueService.enqueue({
+        type: JobType.TRANSCRIPT_TRANSLATION,
+        payload: { transcription_id: transcriptionId, ...validationResult.data },
+        created_by: req.user?.user_id
+      });
+
+      res.status(202).json({
+        success: true,
+        data: job
+      });
+    } catch (error) {
+      console.error('Error queueing transcription translation:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'An error occurred while translating the transcription.'
+        }
+      });
+    }
+  };
+
+  /**
+   * Delete transcription
+   * @param req Request
+   * @param res Response
+   */
+  public delete = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { transcriptionId } = req.params;
 
       // Check if transcription exists
       const existingTranscription = await this.transcriptionService.getById(transcriptionId);
@@ -239,40 +466,82 @@ export class TranscriptionController {
         return;
       }
 
-      // Process transcription
-      const transcription = await this.transcriptionService.processWithVosk(
-        transcriptionId,
-        enableSpeakerDiarization
-      );
+      // Delete transcription
+      const deleted = await this.transcriptionService.delete(transcriptionId);
 
       res.status(200).json({
         success: true,
-        data: transcription
+        data: {
+          deleted
+        }
       });
     } catch (error) {
-      console.error('Error processing transcription with Vosk:', error);
+      console.error('Error deleting transcription:', error);
       res.status(500).json({
         success: false,
         error: {
           code: 'SERVER_ERROR',
-          message: 'An error occurred while processing the transcription.'
+          message: 'An error occurred while deleting the transcription.'
+        }
+      });
+    }
+  };
+
+  /**
+   * Queue transcription with a local whisper.cpp
+   * @param req Request
+   * @param res Response
+   */
+  public processWithWhisperCpp = (req: AuthenticatedRequest, res: Response): Promise<void> =>
+    this.process(req, res, TranscriptionEngine.WHISPER_CPP);
+
+  /**
+   * Queue transcription with hybrid approach
+   * @param req Request
+   * @param res Response
+   */
+  public processWithHybrid = (req: AuthenticatedRequest, res: Response): Promise<void> =>
+    this.process(req, res, TranscriptionEngine.HYBRID);
+
+  /**
+   * Get the transcription providers with their capabilities and availability
+   * @param req Request
+   * @param res Response
+   */
+  public getProviders = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const providers = await this.transcriptionService.getProviders();
+
+      res.status(200).json({
+        success: true,
+        data: providers
+      });
+    } catch (error) {
+      console.error('Error getting transcription providers:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'An error occurred while getting the transcription providers.'
         }
       });
     }
   };
 
   /**
-   * Process transcription with hybrid approach
+   * Queue transcription with a transcription service
    * @param req Request
    * @param res Response
+   * @param service Transcription service to use
    */
-  public processWithHybrid = async (req: Request, res: Response): Promise<void> => {
+  private async process(req: AuthenticatedRequest, res: Response, service: TranscriptionEngine): Promise<void> {
     try {
       const { transcriptionId } = req.params;
 
       // Validate request
       const schema = z.object({
-        enableSpeakerDiarization: z.boolean().optional()
+        enableSpeakerDiarization: z.boolean().optional(),
+        language: z.string().regex(/^[a-z]{2,3}$/).optional()
       });
 
       const validationResult = validateRequest(req.body, schema);
@@ -288,7 +557,7 @@ export class TranscriptionController {
         return;
       }
 
-      const { enableSpeakerDiarization = true } = req.body;
+      const { enableSpeakerDiarization = true, language } = req.body;
 
       // Check if transcription exists
       const existingTranscription = await this.transcriptionService.getById(transcriptionId);
@@ -303,18 +572,21 @@ export class TranscriptionController {
         return;
       }
 
-      // Process transcription
-      const transcription = await this.transcriptionService.processWithHybrid(
-        transcriptionId,
-        enableSpeakerDiarization
+      // Queue transcription
+      const job = await this.queueTranscription(
+        existingTranscription,
+        service,
+        enableSpeakerDiarization,
+        req.user?.user_id,
+        language
       );
 
-      res.status(200).json({
+      res.status(202).json({
         success: true,
-        data: transcription
+        data: job
       });
     } catch (error) {
-      console.error('Error processing transcription with hybrid approach:', error);
+      console.error(`Error processing transcription with ${service}:`, error);
       res.status(500).json({
         success: false,
         error: {
@@ -323,7 +595,7 @@ export class TranscriptionController {
         }
       });
     }
-  };
+  }
 
   /**
    * Create or update speaker
@@ -462,4 +734,106 @@ export class TranscriptionController {
       });
     }
   };
+
+  /**
+   * Get the recordings of a session on the session timeline
+   * @param req Request
+   * @param res Response
+   */
+  public getSessionTimeline = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { sessionId } = req.params;
+
+      const timeline = await this.transcriptionService.getSessionTimeline(sessionId);
+
+      res.status(200).json({
+        success: true,
+        data: timeline
+      });
+    } catch (error) {
+      console.error('Error getting session timeline:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'An error occurred while getting the session timeline.'
+        }
+      });
+    }
+  };
+
+  /**
+   * Get the session transcript stitched from all recordings of a session
+   * @param req Request
+   * @param res Response
+   */
+  public getSessionTranscript = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { sessionId } = req.params;
+
+      const transcription = await this.transcriptionService.getSessionTranscript(sessionId);
+      if (!transcription) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'SESSION_TRANSCRIPT_NOT_FOUND',
+            message: 'The recordings of this session have not been stitched into a session transcript.'
+          }
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: transcription
+      });
+    } catch (error) {
+      console.error('Error getting session transcript:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'An error occurred while getting the session transcript.'
+        }
+      });
+    }
+  };
+
+  /**
+   * Stitch the transcriptions of all recordings of a session into the session transcript
+   * @param req Request
+   * @param res Response
+   */
+  public stitchSession = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { sessionId } = req.params;
+
+      const transcription = await this.transcriptionService.stitchSession(sessionId, req.user?.user_id);
+
+      res.status(200).json({
+        success: true,
+        data: transcription
+      });
+    } catch (error) {
+      if (error instanceof SessionTranscriptError) {
+        res.status(SESSION_TRANSCRIPT_ERROR_STATUS[error.code] || 400).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message
+          }
+        });
+        return;
+      }
+
+      console.error('Error stitching session transcript:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'An error occurred while stitching the session transcript.'
+        }
+      });
+    }
+  };
 }
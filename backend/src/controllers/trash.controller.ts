@@ -0,0 +1,317 @@
+import { Request, Response } from 'express';
+import { validationResult } from 'express-validator';
+import { TrashService } from '../services/trash.service';
+import { CampaignRepository } from '../repositories/campaign.repository';
+import { TrashEntityType, TrashEntry } from '../models/trash.model';
+
+// Extend the Express Request type to include user property
+interface AuthenticatedRequest extends Request {
+  user?: {
+    user_id: string;
+    role?: string;
+  };
+}
+
+/**
+ * Controller for the campaign trash
+ */
+export class TrashController {
+  private trashService: TrashService;
+  private campaignRepository: CampaignRepository;
+
+  constructor(trashService: TrashService, campaignRepository: CampaignRepository) {
+    this.trashService = trashService;
+    this.campaignRepository = campaignRepository;
+
+    // Bind methods to ensure 'this' context
+    this.getCampaignTrash = this.getCampaignTrash.bind(this);
+    this.emptyCampaignTrash = this.emptyCampaignTrash.bind(this);
+    this.getEntry = this.getEntry.bind(this);
+    this.restore = this.restore.bind(this);
+    this.purge = this.purge.bind(this);
+  }
+
+  /**
+   * Get error message from error object
+   * @param error Error object
+   * @returns Error message
+   */
+  private getErrorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  /**
+   * Respond with validation errors, if any
+   * @param req Request
+   * @param res Response
+   * @returns True when the request is invalid
+   */
+  private rejectInvalid(req: Request, res: Response): boolean {
+    const errors = validationResult(req);
+    if (errors.isEmpty()) {
+      return false;
+    }
+    res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Validation error',
+        details: errors.array()
+      }
+    });
+    return true;
+  }
+
+  /**
+   * Respond with 403 unless the user takes part in the campaign
+   * @param campaignId Campaign ID
+   * @param req Request
+   * @param res Response
+   * @returns True when access is denied
+   */
+  private async rejectNonParticipant(campaignId: string, req: AuthenticatedRequest, res: Response): Promise<boolean> {
+    const userId = req.user?.user_id;
+    if (userId && (await this.campaignRepository.isParticipant(campaignId, userId))) {
+      return false;
+    }
+    res.status(403).json({
+      success: false,
+      error: {
+        code: 'FORBIDDEN',
+        message: 'You are not a participant in this campaign'
+      }
+    });
+    return true;
+  }
+
+  /**
+   * Load a trash entry the user may access, responding with 404 or 403 otherwise
+   * @param req Request
+   * @param res Response
+   * @returns Trash entry, or null when a response has been sent
+   */
+  private async loadEntry(req: AuthenticatedRequest, res: Response): Promise<TrashEntry | null> {
+    const entry = await this.trashService.getEntry(req.params.trashId);
+    if (!entry) {
+      res.status(404).json({
+        success: false,
+        error: {
+          code: 'TRASH_ENTRY_NOT_FOUND',
+          message: 'Trash entry not found'
+        }
+      });
+      return null;
+    }
+
+    if (entry.campaign_id) {
+      return (await this.rejectNonParticipant(entry.campaign_id, req, res)) ? null : entry;
+    }
+
+    // Entities outside any campaign are only visible to whoever deleted them
+    if (entry.deleted_by !== req.user?.user_id) {
+      res.status(403).json({
+        success: false,
+        error: {
+          code: 'FORBIDDEN',
+          message: 'You do not have access to this trash entry'
+        }
+      });
+      return null;
+    }
+    return entry;
+  }
+
+  /**
+   * Get the trash of a campaign
+   * @param req Request
+   * @param res Response
+   */
+  public async getCampaignTrash(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (this.rejectInvalid(req, res) || (await this.rejectNonParticipant(req.params.campaignId, req, res))) {
+        return;
+      }
+
+      const page = req.query.page ? parseInt(req.query.page as string, 10) : 1;
+      const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 20;
+      const { entries, total } = await this.trashService.getCampaignTrash(
+        req.params.campaignId,
+        page,
+        limit,
+        req.query.entityType as TrashEntityType | undefined
+      );
+
+      res.status(200).json({
+        success: true,
+        data: entries,
+        meta: {
+          total,
+          page,
+          limit,
+          totalPages: Math.ceil(total / limit)
+        }
+      });
+    } catch (error) {
+      console.error('Error getting campaign trash:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'An error occurred while getting the campaign trash',
+          details: this.getErrorMessage(error)
+        }
+      });
+    }
+  }
+
+  /**
+   * Permanently delete everything in a campaign's trash
+   * @param req Request
+   * @param res Response
+   */
+  public async emptyCampaignTrash(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (this.rejectInvalid(req, res) || (await this.rejectNonParticipant(req.params.campaignId, req, res))) {
+        return;
+      }
+
+      const purged = await this.trashService.emptyCampaignTrash(req.params.campaignId);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          purged
+        }
+      });
+    } catch (error) {
+      console.error('Error emptying campaign trash:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'An error occurred while emptying the campaign trash',
+          details: this.getErrorMessage(error)
+        }
+      });
+    }
+  }
+
+  /**
+   * Get a trash entry
+   * @param req Request
+   * @param res Response
+   */
+  public async getEntry(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (this.rejectInvalid(req, res)) {
+        return;
+      }
+
+      const entry = await this.loadEntry(req, res);
+      if (!entry) {
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: entry
+      });
+    } catch (error) {
+      console.error('Error getting trash entry:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'An error occurred while getting the trash entry',
+          details: this.getErrorMessage(error)
+        }
+      });
+    }
+  }
+
+  /**
+   * Restore a trashed entity
+   * @param req Request
+   * @param res Response
+   */
+  public async restore(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (this.rejectInvalid(req, res)) {
+        return;
+      }
+
+      const entry = await this.loadEntry(req, res);
+      if (!entry) {
+        return;
+      }
+
+      try {
+        const result = await this.trashService.restore(entry.trash_id);
+
+        res.status(200).json({
+          success: true,
+          data: result
+        });
+      } catch (error) {
+        if (error instanceof Error && error.message.endsWith('already exists')) {
+          res.status(409).json({
+            success: false,
+            error: {
+              code: 'ENTITY_EXISTS',
+              message: 'An entity with the same ID already exists'
+            }
+          });
+        } else {
+          throw error;
+        }
+      }
+    } catch (error) {
+      console.error('Error restoring trash entry:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'An error occurred while restoring the trash entry',
+          details: this.getErrorMessage(error)
+        }
+      });
+    }
+  }
+
+  /**
+   * Permanently delete a trash entry
+   * @param req Request
+   * @param res Response
+   */
+  public async purge(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (this.rejectInvalid(req, res)) {
+        return;
+      }
+
+      const entry = await this.loadEntry(req, res);
+      if (!entry) {
+        return;
+      }
+
+      const deleted = await this.trashService.purge(entry.trash_id);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          deleted
+        }
+      });
+    } catch (error) {
+      console.error('Error purging trash entry:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'An error occurred while purging the trash entry',
+          details: this.getErrorMessage(error)
+        }
+      });
+    }
+  }
+}
@@ -16,17 +16,49 @@ import { itemRoutes } from './routes/item.routes';
 import { eventRoutes } from './routes/event.routes';
 import { audioRecordingRoutes } from './routes/audio-recording.routes';
 import { transcriptionRoutes } from './routes/transcription.routes';
+import { speakerProfileRoutes } from './routes/speaker-profile.routes';
+import { glossaryRoutes } from './routes/glossary.routes';
+import { redactionRoutes } from './routes/redaction.routes';
 import { sessionAnalysisRoutes } from './routes/session-analysis.routes';
 import { graphRoutes } from './routes/graph.routes';
 import { llmRoutes } from './routes/llm.routes';
 import { changeProposalRoutes } from './routes/change-proposal.routes';
 import { contentAnalysisRoutes } from './routes/content-analysis.routes';
+import { searchRoutes } from './routes/search.routes';
+import { revisionRoutes } from './routes/revision.routes';
+import { trashRoutes } from './routes/trash.routes';
+import { campaignArchiveRoutes } from './routes/campaign-archive.routes';
+import { jobRoutes } from './routes/job.routes';
+import { JobQueueService } from './services/job-queue.service';
+import { registerJobHandlers } from './services/job-handlers';
+import { SocketService } from './services/socket.service';
+import { LiveTranscriptionService } from './services/live-transcription.service';
+import { RedactionService } from './services/redaction.service';
+import { AudioRedactionService } from './services/audio-redaction.service';
+import { createTranscriptionProviderRegistry } from './services/transcription-providers/registry';
+import { TranscriptionService as TranscriptionEngine } from './models/audio-recording.model';
+import { TrashService } from './services/trash.service';
+import { LLMService } from './services/llm.service';
 import path from 'path';
+import config from './config';
 
 // Initialize database service
 const dbService = new DatabaseService();
 const repositoryFactory = new RepositoryFactory(dbService);
 
+// Create LLM service for change proposals, content analysis and transcript translation jobs
+const llmRepository = repositoryFactory.getLLMRepository();
+const llmService = new LLMService(llmRepository);
+
+// Initialize LLM service
+llmService.initialize().catch(error => {
+  console.error('Error initializing LLM service:', error);
+});
+
+// Initialize background job queue
+const jobQueueService = new JobQueueService(repositoryFactory.getJobRepository(), config.jobs);
+registerJobHandlers(jobQueueService, repositoryFactory, llmService);
+
 // Initialize Express app
 const app: Express = express();
 const port = process.env.PORT || 3000;
@@ -38,7 +70,10 @@ app.use(morgan('dev'));
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
-// Static files
+// Static files; recordings are only served through the authenticated audio recording stream endpoint
+app.use('/uploads/audio', (req, res) => {
+  res.status(404).end();
+});
 app.use('/uploads', express.static(path.join(__dirname, '../uploads')));
 
 // Routes
@@ -52,26 +87,22 @@ app.use('/api/locations', locationRoutes(repositoryFactory));
 app.use('/api/powers', powerRoutes(repositoryFactory));
 app.use('/api/items', itemRoutes(repositoryFactory));
 app.use('/api/events', eventRoutes(repositoryFactory));
-app.use('/api/audio-recordings', audioRecordingRoutes(repositoryFactory));
-app.use('/api/transcriptions', transcriptionRoutes(repositoryFactory));
-app.use('/api/session-analyses', sessionAnalysisRoutes(repositoryFactory));
+app.use('/api/audio-recordings', audioRecordingRoutes(repositoryFactory, jobQueueService));
+app.use('/api/transcriptions', transcriptionRoutes(repositoryFactory, jobQueueService));
+app.use('/api/speaker-profiles', speakerProfileRoutes(repositoryFactory));
+app.use('/api/glossary', glossaryRoutes(repositoryFactory));
+app.use('/api/redactions', redactionRoutes(repositoryFactory));
+app.use('/api/session-analyses', sessionAnalysisRoutes(repositoryFactory, jobQueueService));
+app.use('/api/jobs', jobRoutes(jobQueueService));
 app.use('/api/graph', graphRoutes(repositoryFactory));
 app.use('/api/llm', llmRoutes(repositoryFactory));
 
-// Import LLM service
-import { LLMService } from './services/llm.service';
-
-// Create LLM service for change proposal routes
-const llmRepository = repositoryFactory.getLLMRepository();
-const llmService = new LLMService(llmRepository);
-
-// Initialize LLM service
-llmService.initialize().catch(error => {
-  console.error('Error initializing LLM service:', error);
-});
-
 app.use('/api/proposals', changeProposalRoutes(repositoryFactory, llmService, dbService));
 app.use('/api/content-analysis', contentAnalysisRoutes(repositoryFactory, llmService));
+app.use('/api/search', searchRoutes(repositoryFactory));
+app.use('/api/revisions', revisionRoutes(repositoryFactory));
+app.use('/api/trash', trashRoutes(repositoryFactory));
+app.use('/api/campaign-archives', campaignArchiveRoutes(repositoryFactory));
 
 // Health check
 app.get('/health', (req, res) => {
@@ -83,12 +114,46 @@ const startServer = async () => {
   try {
     // Initialize database
     await dbService.initialize();
-    await dbService.initSchema();
+    if (config.database.migrateOnStartup) {
+      await dbService.initSchema();
+    }
+
+    // Purge trashed entities once their retention period has passed
+    new TrashService(repositoryFactory.getTrashRepository(), config.trash.retentionDays).startAutoPurge();
+
+    // Run queued transcription and analysis jobs
+    await jobQueueService.start();
 
     // Start server
-    app.listen(port, () => {
+    const server = app.listen(port, () => {
       console.log(`Server running on port ${port}`);
     });
+
+    // Push job progress to connected clients and transcribe recordings live
+    const socketService = new SocketService(server);
+    socketService.attachJobQueue(jobQueueService);
+    socketService.attachLiveTranscription(
+      new LiveTranscriptionService(
+        repositoryFactory.getAudioRecordingRepository(),
+        repositoryFactory.getTranscriptionRepository(),
+        repositoryFactory.getSessionRepository(),
+        createTranscriptionProviderRegistry(),
+        {
+          windowSeconds: config.transcription.live.windowSeconds,
+          maxWindowSeconds: config.transcription.live.maxWindowSeconds,
+          service: config.transcription.live.service as TranscriptionEngine,
+          ffmpegPath: config.audio.ffmpegPath
+        },
+        new RedactionService(
+          repositoryFactory.getRedactionRepository(),
+          repositoryFactory.getTranscriptionRepository(),
+          repositoryFactory.getSessionRepository(),
+          repositoryFactory.getAudioRecordingRepository(),
+          repositoryFactory.getTranscriptRevisionRepository(),
+          new AudioRedactionService(config.audio.redaction)
+        )
+      )
+    );
   } catch (error) {
     console.error('Failed to start server:', error);
     process.exit(1);
@@ -99,6 +164,7 @@ const startServer = async () => {
 process.on('SIGINT', async () => {
   console.log('Shutting down server...');
   try {
+    jobQueueService.stop();
     await dbService.close();
     console.log('Database connection closed');
     process.exit(0);
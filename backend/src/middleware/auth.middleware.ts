@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import { Socket } from 'socket.io';
 import { User, UserRole } from '../models/user.model';
 import config from '../config';
 
@@ -80,6 +81,118 @@ export function authenticate(req: Request, res: Response, next: NextFunction): v
   }
 }
 
+/**
+ * Authenticate socket.io connections with the access token sent in the handshake
+ * @param socket Connecting socket
+ * @param next Next function
+ */
+export function authenticateSocket(socket: Socket, next: (error?: Error) => void): void {
+  try {
+    const token = socket.handshake.auth?.token;
+
+    if (!token) {
+      // Match the development bypass of HTTP authentication
+      if (config.nodeEnv === 'development') {
+        socket.data.user = {
+          user_id: '00000000-0000-0000-0000-000000000000',
+          username: 'dev_user',
+          email: 'dev@example.com',
+          role: UserRole.ADMIN,
+          name: 'Development User'
+        };
+        next();
+        return;
+      }
+      next(new Error('Authentication required'));
+      return;
+    }
+
+    // Verify token
+    const decoded = jwt.verify(token, config.jwt.secret) as any;
+    socket.data.user = {
+      user_id: decoded.user_id,
+      username: decoded.username,
+      email: decoded.email,
+      role: decoded.role,
+      name: decoded.name
+    };
+
+    next();
+  } catch (error) {
+    console.error('Socket authentication error:', error);
+    next(new Error('Invalid or expired token'));
+  }
+}
+
+/**
+ * Purpose of the tokens that let the holder stream one recording
+ */
+const STREAM_TOKEN_PURPOSE = 'audio-stream';
+
+/**
+ * Sign a token that lets the holder stream one recording. Audio elements cannot send the Authorization header, so
+ * players put this token in the stream URL instead.
+ * @param recordingId Recording ID
+ * @param user User the stream is signed for
+ * @returns Token and when it expires
+ */
+export function createStreamToken(recordingId: string, user: User): { token: string; expires_at: string } {
+  const expiresIn = config.audio.streamUrlTtlSeconds;
+  const token = jwt.sign(
+    {
+      purpose: STREAM_TOKEN_PURPOSE,
+      recording_id: recordingId,
+      user_id: user.user_id,
+      username: user.username,
+      email: user.email,
+      role: user.role,
+      name: user.name
+    },
+    config.jwt.secret,
+    { expiresIn }
+  );
+  return { token, expires_at: new Date(Date.now() + expiresIn * 1000).toISOString() };
+}
+
+/**
+ * Authenticate a recording stream with the stream token in its URL, or like any other request when it has none
+ * @param req Request
+ * @param res Response
+ * @param next Next function
+ */
+export function authenticateStream(req: Request, res: Response, next: NextFunction): void {
+  const { token } = req.query;
+  if (typeof token !== 'string') {
+    authenticate(req, res, next);
+    return;
+  }
+
+  try {
+    const decoded = jwt.verify(token, config.jwt.secret) as any;
+    if (decoded.purpose !== STREAM_TOKEN_PURPOSE || decoded.recording_id !== req.params.recordingId) {
+      throw new Error('Token is not a stream token of this recording');
+    }
+
+    (req as AuthRequest).user = {
+      user_id: decoded.user_id,
+      username: decoded.username,
+      email: decoded.email,
+      role: decoded.role,
+      name: decoded.name
+    };
+
+    next();
+  } catch (error) {
+    res.status(401).json({
+      success: false,
+      error: {
+        code: 'INVALID_TOKEN',
+        message: 'Invalid or expired stream token'
+      }
+    });
+  }
+}
+
 /**
  * Authentication middleware class
  */
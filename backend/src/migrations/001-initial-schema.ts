@@ -0,0 +1,67 @@
+import { Migration } from './migration';
+
+/**
+ * Uniqueness constraints as [name, label, property]
+ */
+const constraints: Array<[string, string, string]> = [
+  ['user_id', 'User', 'user_id'],
+  ['user_email', 'User', 'email'],
+  ['user_username', 'User', 'username'],
+  ['rpg_world_id', 'RPGWorld', 'world_id'],
+  ['campaign_id', 'Campaign', 'campaign_id'],
+  ['session_id', 'Session', 'session_id'],
+  ['character_id', 'Character', 'character_id'],
+  ['location_id', 'Location', 'location_id'],
+  ['item_id', 'Item', 'item_id'],
+  ['power_id', 'Power', 'power_id'],
+  ['event_id', 'Event', 'event_id'],
+  ['audio_recording_id', 'AudioRecording', 'recording_id'],
+  ['transcription_id', 'Transcription', 'transcription_id'],
+  ['session_analysis_id', 'SessionAnalysis', 'analysis_id'],
+  ['change_proposal_id', 'ChangeProposal', 'id'],
+  ['proposal_batch_id', 'ProposalBatch', 'id'],
+  ['proposal_template_id', 'ProposalTemplate', 'id'],
+  ['prompt_template_id', 'PromptTemplate', 'id'],
+  ['llm_context_id', 'LLMContext', 'sessionId'],
+];
+
+/**
+ * Name indexes as [name, label, property]
+ */
+const indexes: Array<[string, string, string]> = [
+  ['user_name', 'User', 'name'],
+  ['rpg_world_name', 'RPGWorld', 'name'],
+  ['campaign_name', 'Campaign', 'name'],
+  ['session_name', 'Session', 'name'],
+  ['character_name', 'Character', 'name'],
+  ['location_name', 'Location', 'name'],
+  ['item_name', 'Item', 'name'],
+  ['power_name', 'Power', 'name'],
+  ['event_name', 'Event', 'name'],
+];
+
+/**
+ * Constraints and indexes for the core entities
+ */
+export const initialSchema: Migration = {
+  version: 1,
+  name: 'initial-schema',
+
+  async up(tx) {
+    for (const [name, label, property] of constraints) {
+      await tx.run(`CREATE CONSTRAINT ${name} IF NOT EXISTS FOR (n:${label}) REQUIRE n.${property} IS UNIQUE`);
+    }
+    for (const [name, label, property] of indexes) {
+      await tx.run(`CREATE INDEX ${name} IF NOT EXISTS FOR (n:${label}) ON (n.${property})`);
+    }
+  },
+
+  async down(tx) {
+    for (const [name] of indexes) {
+      await tx.run(`DROP INDEX ${name} IF EXISTS`);
+    }
+    for (const [name] of constraints) {
+      await tx.run(`DROP CONSTRAINT ${name} IF EXISTS`);
+    }
+  },
+};
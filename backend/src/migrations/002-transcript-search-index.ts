@@ -0,0 +1,29 @@
+import { Migration } from './migration';
+
+/**
+ * Term indexes as [name, label, property]
+ */
+const indexes: Array<[string, string, string]> = [
+  ['transcript_term', 'TranscriptTerm', 'term'],
+  ['transcript_term_phonetic_key', 'TranscriptTerm', 'phonetic_key'],
+];
+
+/**
+ * Indexes for looking up the terms of transcript search
+ */
+export const transcriptSearchIndex: Migration = {
+  version: 2,
+  name: 'transcript-search-index',
+
+  async up(tx) {
+    for (const [name, label, property] of indexes) {
+      await tx.run(`CREATE INDEX ${name} IF NOT EXISTS FOR (n:${label}) ON (n.${property})`);
+    }
+  },
+
+  async down(tx) {
+    for (const [name] of indexes) {
+      await tx.run(`DROP INDEX ${name} IF EXISTS`);
+    }
+  },
+};
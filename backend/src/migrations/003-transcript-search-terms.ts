@@ -0,0 +1,55 @@
+import { int } from 'neo4j-driver';
+import { Migration } from './migration';
+import { indexTerms } from '../utils/transcript-search';
+
+/**
+ * Segments indexed per query
+ */
+const BATCH_SIZE = 500;
+
+/**
+ * Index the terms of the segments transcribed before transcript search, in batches of segments
+ */
+export const transcriptSearchTerms: Migration = {
+  version: 3,
+  name: 'transcript-search-terms',
+
+  async up(tx) {
+    for (let skip = 0; ; skip += BATCH_SIZE) {
+      const result = await tx.run(
+        `
+        MATCH (s:TranscriptionSegment)
+        RETURN s.segment_id as segmentId, s.text as text
+        ORDER BY s.segment_id
+        SKIP $skip
+        LIMIT $limit
+        `,
+        { skip: int(skip), limit: int(BATCH_SIZE) }
+      );
+      if (result.records.length === 0) {
+        break;
+      }
+
+      await tx.run(
+        `
+        UNWIND $segments AS segment
+        MATCH (s:TranscriptionSegment {segment_id: segment.segmentId})
+        UNWIND segment.terms AS term
+        MERGE (tt:TranscriptTerm {term: term.term})
+        SET tt.phonetic_key = term.phonetic_key
+        MERGE (s)-[:HAS_TERM]->(tt)
+        `,
+        {
+          segments: result.records.map((record) => ({
+            segmentId: record.get('segmentId'),
+            terms: indexTerms(record.get('text') || ''),
+          })),
+        }
+      );
+    }
+  },
+
+  async down(tx) {
+    await tx.run('MATCH (tt:TranscriptTerm) DETACH DELETE tt');
+  },
+};
@@ -0,0 +1,19 @@
+import { Migration } from './migration';
+
+/**
+ * Uniqueness of entity revision numbers. Revisions carry a revision_key of entity type, entity ID
+ * and revision number, so that two updates of an entity committed at the same time cannot both
+ * record the same revision number.
+ */
+export const entityRevisionKey: Migration = {
+  version: 4,
+  name: 'entity-revision-key',
+
+  async up(tx) {
+    await tx.run('CREATE CONSTRAINT entity_revision_key IF NOT EXISTS FOR (n:EntityRevision) REQUIRE n.revision_key IS UNIQUE');
+  },
+
+  async down(tx) {
+    await tx.run('DROP CONSTRAINT entity_revision_key IF EXISTS');
+  },
+};
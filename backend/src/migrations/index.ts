@@ -0,0 +1,18 @@
+import { Migration } from './migration';
+import { initialSchema } from './001-initial-schema';
+import { transcriptSearchIndex } from './002-transcript-search-index';
+import { transcriptSearchTerms } from './003-transcript-search-terms';
+import { entityRevisionKey } from './004-entity-revision-key';
+
+export { Migration, renameNodeProperty, renameRelationshipProperty } from './migration';
+
+/**
+ * All migrations, in the order they are applied. Append new migrations with the next
+ * version number; never renumber or edit a migration that has been released.
+ */
+export const migrations: Migration[] = [
+  initialSchema,
+  transcriptSearchIndex,
+  transcriptSearchTerms,
+  entityRevisionKey,
+];
@@ -0,0 +1,60 @@
+import { Transaction } from 'neo4j-driver';
+
+/**
+ * Versioned schema or data migration
+ */
+export interface Migration {
+  /**
+   * Unique version; migrations are applied in ascending order
+   */
+  version: number;
+
+  /**
+   * Short, stable name recorded alongside the version
+   */
+  name: string;
+
+  /**
+   * Apply the migration
+   * @param tx Write transaction
+   */
+  up(tx: Transaction): Promise<void>;
+
+  /**
+   * Revert the migration
+   * @param tx Write transaction
+   */
+  down(tx: Transaction): Promise<void>;
+}
+
+/**
+ * Rename a property on every node carrying a label
+ * @param tx Write transaction
+ * @param label Node label
+ * @param from Current property name
+ * @param to New property name
+ */
+export async function renameNodeProperty(tx: Transaction, label: string, from: string, to: string): Promise<void> {
+  await tx.run(`
+    MATCH (n:\`${label}\`)
+    WHERE n.\`${from}\` IS NOT NULL
+    SET n.\`${to}\` = n.\`${from}\`
+    REMOVE n.\`${from}\`
+  `);
+}
+
+/**
+ * Rename a property on every relationship of a type
+ * @param tx Write transaction
+ * @param type Relationship type
+ * @param from Current property name
+ * @param to New property name
+ */
+export async function renameRelationshipProperty(tx: Transaction, type: string, from: string, to: string): Promise<void> {
+  await tx.run(`
+    MATCH ()-[r:\`${type}\`]->()
+    WHERE r.\`${from}\` IS NOT NULL
+    SET r.\`${to}\` = r.\`${from}\`
+    REMOVE r.\`${from}\`
+  `);
+}
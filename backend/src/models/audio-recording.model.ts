@@ -10,13 +10,22 @@ export interface AudioRecording {
   duration_seconds: number;
   file_size_bytes: number;
   file_format: string;
+  codec: string;
   sample_rate: number;
   channels: number;
+  /**
+   * Bits per sample, 0 for lossy codecs
+   */
   bit_depth: number;
   created_at: string;
   created_by: string;
   transcription_status: TranscriptionStatus;
   transcription_id?: string;
+  /**
+   * Seconds from the start of the session at which the recording starts. When not set, the recording is taken to
+   * start where the previous recording of the session ended.
+   */
+  session_offset_seconds?: number;
 }
 
 /**
@@ -30,11 +39,63 @@ export interface AudioRecordingCreationParams {
   duration_seconds: number;
   file_size_bytes: number;
   file_format: string;
+  codec: string;
   sample_rate: number;
   channels: number;
   bit_depth: number;
 }
 
+/**
+ * Track of one speaker in a multi-track recording, such as the per-participant files Craig records from Discord
+ */
+export interface AudioTrack {
+  track_id: string;
+  recording_id: string;
+  /**
+   * Name of the uploaded file
+   */
+  name: string;
+  file_path: string;
+  duration_seconds: number;
+  file_size_bytes: number;
+  file_format: string;
+  codec: string;
+  sample_rate: number;
+  channels: number;
+  bit_depth: number;
+  /**
+   * Speaker every segment transcribed from the track is attributed to
+   */
+  speaker_id: string;
+  speaker_name?: string;
+}
+
+/**
+ * Audio track creation parameters
+ */
+export type AudioTrackCreationParams = Omit<AudioTrack, 'track_id' | 'recording_id' | 'speaker_name'>;
+
+/**
+ * Uploaded track of a multi-track recording and who speaks on it
+ */
+export interface AudioTrackUpload {
+  file: Buffer;
+  file_name: string;
+  /**
+   * Existing speaker of the track; a speaker is created when omitted
+   */
+  speaker_id?: string;
+  /**
+   * Name of the created speaker; taken from the file name when omitted
+   */
+  speaker_name?: string;
+  /**
+   * Character and user the created speaker is identified as
+   */
+  character_id?: string;
+  user_id?: string;
+}
+
 /**
  * Audio recording update parameters
  */
@@ -43,6 +104,10 @@ export interface AudioRecordingUpdateParams {
   description?: string;
   transcription_status?: TranscriptionStatus;
   transcription_id?: string;
+  /**
+   * Null clears the offset so that the recording follows the previous one again
+   */
+  session_offset_seconds?: number | null;
 }
 
 /**
@@ -76,6 +141,7 @@ export interface AudioRecordingSettings {
 export enum TranscriptionService {
   OPENAI_WHISPER = 'openai_whisper',
   VOSK = 'vosk',
+  WHISPER_CPP = 'whisper_cpp',
   HYBRID = 'hybrid'
 }
 
@@ -0,0 +1,52 @@
+import { AudioRecordingSettings } from './audio-recording.model';
+
+/**
+ * Resumable upload of an audio recording, sent as numbered chunks
+ */
+export interface AudioUpload {
+  upload_id: string;
+  session_id: string;
+  file_name: string;
+  created_by: string;
+  created_at: string;
+  /**
+   * Most chunk data the upload accepts, in bytes
+   */
+  max_chunk_size: number;
+}
+
+/**
+ * Resumable upload together with the chunks the server holds
+ */
+export interface AudioUploadStatus extends AudioUpload {
+  /**
+   * Ranges of received chunk numbers, inclusive and in order, e.g. [[0, 41], [43, 43]]
+   */
+  received_chunks: [number, number][];
+  received_bytes: number;
+  updated_at: string;
+}
+
+/**
+ * Audio upload creation parameters
+ */
+export interface AudioUploadCreationParams {
+  session_id: string;
+  /**
+   * Name of the file being uploaded; its extension is kept
+   */
+  file_name: string;
+}
+
+/**
+ * Parameters for assembling an upload into an audio recording
+ */
+export interface AudioUploadCompletionParams {
+  /**
+   * Number of chunks in the file, numbered from 0
+   */
+  total_chunks: number;
+  name: string;
+  description?: string;
+  settings?: Partial<AudioRecordingSettings>;
+}
@@ -0,0 +1,116 @@
+/**
+ * Campaign archive models
+ */
+
+/**
+ * Format identifier written to every campaign archive
+ */
+export const CAMPAIGN_ARCHIVE_FORMAT = 'rpg-archivist-campaign';
+
+/**
+ * Version of the archive layout written by this release. Imports accept this version and older ones.
+ */
+export const CAMPAIGN_ARCHIVE_VERSION = 1;
+
+/**
+ * Archive manifest, stored as manifest.json
+ */
+export interface CampaignArchiveManifest {
+  format: string;
+  version: number;
+  exported_at: string;
+  app_version: string;
+  campaign_id: string;
+  campaign_name: string;
+  counts: {
+    nodes: number;
+    relationships: number;
+    files: number;
+  };
+}
+
+/**
+ * Node belonging to the campaign
+ */
+export interface ArchivedNode {
+  /**
+   * Reference used by relationships and files within the archive
+   */
+  ref: string;
+  labels: string[];
+  properties: Record<string, any>;
+}
+
+/**
+ * Node outside the campaign that campaign nodes point to, such as users and the RPG world
+ */
+export interface ArchivedExternalNode {
+  ref: string;
+  label: string;
+  key: string;
+  value: string;
+}
+
+/**
+ * Relationship between archived nodes, or between an archived node and an external node
+ */
+export interface ArchivedRelationship {
+  type: string;
+  start: string;
+  end: string;
+  properties: Record<string, any>;
+}
+
+/**
+ * Uploaded file referenced by a node property
+ */
+export interface ArchivedFile {
+  node: string;
+  property: string;
+  /**
+   * Path of the file within the archive
+   */
+  path: string;
+}
+
+/**
+ * Campaign graph, stored as graph.json
+ */
+export interface CampaignArchiveGraph {
+  nodes: ArchivedNode[];
+  external: ArchivedExternalNode[];
+  relationships: ArchivedRelationship[];
+  files: ArchivedFile[];
+}
+
+/**
+ * Campaign import options
+ */
+export interface CampaignImportOptions {
+  /**
+   * User importing the archive; becomes the creator of the imported campaign
+   */
+  userId: string;
+  /**
+   * RPG world to attach the campaign to instead of the world it was exported from
+   */
+  worldId?: string;
+  /**
+   * New campaign name
+   */
+  name?: string;
+}
+
+/**
+ * Outcome of a campaign import
+ */
+export interface CampaignImportResult {
+  campaign_id: string;
+  nodes: number;
+  relationships: number;
+  files: number;
+  /**
+   * Relationships to users or worlds that do not exist in this instance
+   */
+  skipped_relationships: number;
+}
@@ -1,3 +1,5 @@
+import { SegmentCategory, TranscriptTextVersion } from './transcription.model';
+
 /**
  * Content analysis models
  */
@@ -212,6 +214,15 @@ export interface ContentAnalysisRequest {
     includeExisting?: boolean;
     model?: string;
     customPrompt?: string;
+    /**
+     * Read only the transcription segments of these categories, such as to leave off-topic table talk out; segments
+     * that were never classified are always read
+     */
+    segmentCategories?: SegmentCategory[];
+    /**
+     * Read the original text of the transcription segments or their translation
+     */
+    textVersion?: TranscriptTextVersion;
   };
 }
 
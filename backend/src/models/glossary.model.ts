@@ -0,0 +1,79 @@
+/**
+ * Campaign glossary models
+ */
+
+/**
+ * Where a glossary term comes from
+ */
+export enum GlossaryTermSource {
+  CHARACTER = 'character',
+  LOCATION = 'location',
+  ITEM = 'item',
+  POWER = 'power',
+  RPG_WORLD = 'rpg_world',
+  USER = 'user'
+}
+
+/**
+ * Name or word that speech-to-text should know about, such as a fantasy name of the campaign
+ */
+export interface GlossaryTerm {
+  /**
+   * Set on terms added by users only
+   */
+  term_id?: string;
+  term: string;
+  source: GlossaryTermSource;
+  /**
+   * ID of the character, location, item, power or world the term names
+   */
+  entity_id?: string;
+  /**
+   * Ways transcription is known to mishear the term, as in "Zan a thar" for "Xanathar"
+   */
+  sounds_like: string[];
+}
+
+/**
+ * Glossary term creation parameters
+ */
+export interface GlossaryTermCreationParams {
+  term: string;
+  sounds_like?: string[];
+}
+
+/**
+ * Substitution made in the text of a transcription segment by the glossary correction pass
+ */
+export interface GlossaryCorrection {
+  correction_id: string;
+  transcription_id: string;
+  segment_id: string;
+  term: string;
+  /**
+   * Text as transcribed
+   */
+  original: string;
+  /**
+   * Text it was replaced with
+   */
+  replacement: string;
+  /**
+   * Character offset of the replacement in the corrected segment text
+   */
+  position: number;
+  /**
+   * Phonetic similarity from 0 to 1 of the original to the term
+   */
+  similarity: number;
+  created_at: string;
+  /**
+   * Set once the substitution has been undone
+   */
+  undone_at?: string;
+}
+
+/**
+ * Glossary correction creation parameters
+ */
+export type GlossaryCorrectionCreationParams = Omit<GlossaryCorrection, 'correction_id' | 'transcription_id' | 'created_at' | 'undone_at'>;
@@ -0,0 +1,95 @@
+/**
+ * Background job models
+ */
+
+/**
+ * Kinds of work run by the job queue
+ */
+export enum JobType {
+  TRANSCRIPTION = 'transcription',
+  SESSION_ANALYSIS = 'session_analysis',
+  WAVEFORM = 'waveform',
+  TRANSCRIPT_TRANSLATION = 'transcript_translation'
+}
+
+/**
+ * Job lifecycle states
+ */
+export enum JobStatus {
+  QUEUED = 'queued',
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled'
+}
+
+/**
+ * All job types
+ */
+export const JOB_TYPES: JobType[] = Object.values(JobType);
+
+/**
+ * All job states
+ */
+export const JOB_STATUSES: JobStatus[] = Object.values(JobStatus);
+
+/**
+ * Background job
+ */
+export interface Job {
+  job_id: string;
+  type: JobType;
+  status: JobStatus;
+  /**
+   * Input handed to the job handler
+   */
+  payload: Record<string, any>;
+  /**
+   * Percentage of the work done, from 0 to 100
+   */
+  progress: number;
+  progress_message?: string;
+  /**
+   * Number of times the job has been started
+   */
+  attempts: number;
+  max_attempts: number;
+  /**
+   * Output of the job handler once the job has completed
+   */
+  result?: any;
+  error?: string;
+  created_by?: string;
+  created_at: string;
+  updated_at: string;
+  /**
+   * Earliest time the job may be started; set when a failed attempt is retried after a delay
+   */
+  run_after: string;
+  started_at?: string;
+  completed_at?: string;
+}
+
+/**
+ * Receives the progress of long-running work as a percentage with an optional description of the current step
+ */
+export type ProgressCallback = (progress: number, message?: string) => Promise<void> | void;
+
+/**
+ * Job creation parameters
+ */
+export interface JobCreationParams {
+  type: JobType;
+  payload: Record<string, any>;
+  created_by?: string;
+  max_attempts?: number;
+}
+
+/**
+ * Job listing filter
+ */
+export interface JobFilter {
+  type?: JobType;
+  status?: JobStatus;
+  created_by?: string;
+}
@@ -0,0 +1,62 @@
+import { TranscriptionService as TranscriptionEngine } from './audio-recording.model';
+import { TranscriptionSegment } from './transcription.model';
+
+/**
+ * Audio formats accepted by live transcription
+ */
+export enum LiveAudioFormat {
+  /**
+   * MediaRecorder output, decoded with ffmpeg
+   */
+  WEBM = 'webm',
+  OGG = 'ogg',
+  /**
+   * Signed 16-bit little-endian mono PCM at 16 kHz, used as is
+   */
+  PCM = 'pcm'
+}
+
+/**
+ * Live transcription start parameters
+ */
+export interface LiveTranscriptionStartParams {
+  session_id: string;
+  format: LiveAudioFormat;
+  /**
+   * ISO 639-1 code of the spoken language; detected when omitted
+   */
+  language?: string;
+  /**
+   * Transcription service; the configured default when omitted
+   */
+  service?: TranscriptionEngine;
+}
+
+/**
+ * Live transcription of a recording in progress
+ */
+export interface LiveTranscription {
+  live_id: string;
+  session_id: string;
+  format: LiveAudioFormat;
+  /**
+   * Transcription service of the provider in use
+   */
+  service: TranscriptionEngine;
+  started_at: string;
+}
+
+/**
+ * Transcript update pushed to the client while recording
+ */
+export interface LiveTranscriptUpdate {
+  live_id: string;
+  /**
+   * Segments that are final, with times from the start of the recording
+   */
+  segments: TranscriptionSegment[];
+  /**
+   * Segment still being spoken; replaced by the next update
+   */
+  partial?: TranscriptionSegment;
+}
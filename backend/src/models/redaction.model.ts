@@ -0,0 +1,109 @@
+/**
+ * Text that takes the place of redacted material in transcripts
+ */
+export const REDACTED_TEXT = '[redacted]';
+
+/**
+ * What a redaction rule matches
+ */
+export enum RedactionRuleType {
+  /**
+   * Everything a speaker says, for players who do not want to be archived
+   */
+  SPEAKER = 'speaker',
+  /**
+   * Text matching a regular expression or a built-in pattern of personal information
+   */
+  PATTERN = 'pattern'
+}
+
+/**
+ * Built-in patterns of personal information
+ */
+export enum PiiPattern {
+  EMAIL = 'email',
+  PHONE = 'phone',
+  CREDIT_CARD = 'credit_card'
+}
+
+/**
+ * Redaction rule of a campaign, applied to every transcript of its sessions
+ */
+export interface RedactionRule {
+  rule_id: string;
+  campaign_id: string;
+  type: RedactionRuleType;
+  /**
+   * Speaker whose segments are removed, for speaker rules
+   */
+  speaker_id?: string;
+  /**
+   * Regular expression matched without regard to case, for pattern rules
+   */
+  pattern?: string;
+  /**
+   * Built-in pattern, for pattern rules without a regular expression
+   */
+  pii_pattern?: PiiPattern;
+  /**
+   * Also silence the matching audio in the stored recordings
+   */
+  silence_audio: boolean;
+  description?: string;
+  created_at: string;
+  created_by?: string;
+}
+
+/**
+ * Redaction rule creation parameters
+ */
+export type RedactionRuleCreationParams = Pick<
+  RedactionRule,
+  'type' | 'speaker_id' | 'pattern' | 'pii_pattern' | 'description'
+> & {
+  silence_audio?: boolean;
+};
+
+/**
+ * Part of a segment redacted by hand
+ */
+export interface SpanRedactionParams {
+  segment_id: string;
+  /**
+   * Offset in the segment text of the first redacted character
+   */
+  start_offset: number;
+  /**
+   * Offset in the segment text after the last redacted character
+   */
+  end_offset: number;
+  /**
+   * Also silence the redacted audio in the stored recording
+   */
+  silence_audio?: boolean;
+}
+
+/**
+ * Span of audio in seconds
+ */
+export interface AudioRange {
+  start_time: number;
+  end_time: number;
+}
+
+/**
+ * What redacting a transcript changed
+ */
+export interface RedactionSummary {
+  transcription_id: string;
+  /**
+   * Segments of excluded speakers
+   */
+  segments_removed: number;
+  segments_redacted: number;
+  words_redacted: number;
+  /**
+   * Audio silenced in the stored recording
+   */
+  silenced_ranges: AudioRange[];
+}
@@ -0,0 +1,80 @@
+/**
+ * Entity revision models
+ */
+
+/**
+ * Entity types with revision history
+ */
+export type RevisionEntityType = 'character' | 'location' | 'item' | 'power' | 'event';
+
+/**
+ * All entity types with revision history
+ */
+export const REVISION_ENTITY_TYPES: RevisionEntityType[] = ['character', 'location', 'item', 'power', 'event'];
+
+/**
+ * What produced a revision
+ */
+export enum RevisionChangeType {
+  /**
+   * State of the entity before its first recorded change
+   */
+  BASELINE = 'baseline',
+  UPDATE = 'update',
+  REVERT = 'revert'
+}
+
+/**
+ * User or change proposal responsible for a change
+ */
+export interface RevisionAuthor {
+  userId?: string;
+  proposalId?: string;
+}
+
+/**
+ * Immutable snapshot of an entity's properties
+ */
+export interface EntityRevision {
+  revision_id: string;
+  entity_type: RevisionEntityType;
+  entity_id: string;
+  revision_number: number;
+  change_type: RevisionChangeType;
+  changed_fields: string[];
+  snapshot: Record<string, any>;
+  created_at: string;
+  created_by?: string;
+  proposal_id?: string;
+  reverted_from?: number;
+}
+
+/**
+ * Word-level change within a text field
+ */
+export interface TextDiffSegment {
+  type: 'equal' | 'insert' | 'delete';
+  value: string;
+}
+
+/**
+ * Change of a single field between two revisions
+ */
+export interface FieldDiff {
+  field: string;
+  type: 'added' | 'removed' | 'changed';
+  oldValue?: any;
+  newValue?: any;
+  textDiff?: TextDiffSegment[];
+}
+
+/**
+ * Differences between two revisions
+ */
+export interface RevisionDiff {
+  entity_type: RevisionEntityType;
+  entity_id: string;
+  from_revision: number;
+  to_revision: number;
+  changes: FieldDiff[];
+}
@@ -0,0 +1,187 @@
+/**
+ * Search model
+ */
+
+/**
+ * Searchable entity types
+ */
+export type SearchEntityType =
+  | 'world'
+  | 'campaign'
+  | 'session'
+  | 'character'
+  | 'location'
+  | 'item'
+  | 'event'
+  | 'transcription';
+
+/**
+ * All searchable entity types
+ */
+export const SEARCH_ENTITY_TYPES: SearchEntityType[] = [
+  'world',
+  'campaign',
+  'session',
+  'character',
+  'location',
+  'item',
+  'event',
+  'transcription',
+];
+
+/**
+ * Sort fields for search results
+ */
+export type SearchSortBy = 'relevance' | 'name' | 'createdAt' | 'updatedAt';
+
+/**
+ * Search query parameters
+ */
+export interface SearchParams {
+  query: string;
+  types?: SearchEntityType[];
+  worldId?: string;
+  campaignId?: string;
+  limit?: number;
+  offset?: number;
+  sortBy?: SearchSortBy;
+  sortDirection?: 'asc' | 'desc';
+}
+
+/**
+ * Highlighted fragment of a matching field
+ */
+export interface SearchHighlight {
+  field: string;
+  text: string;
+}
+
+/**
+ * Search result
+ */
+export interface SearchResult {
+  id: string;
+  name: string;
+  type: SearchEntityType;
+  description?: string;
+  imageUrl?: string;
+  parentId?: string;
+  parentName?: string;
+  parentType?: SearchEntityType;
+  createdAt: string;
+  updatedAt: string;
+  score: number;
+  highlights?: SearchHighlight[];
+}
+
+/**
+ * Entity matching a search, before ranking
+ */
+export interface SearchCandidate {
+  id: string;
+  type: SearchEntityType;
+  name: string;
+  description?: string;
+  text?: string;
+  imageUrl?: string;
+  parentId?: string;
+  parentName?: string;
+  parentType?: SearchEntityType;
+  createdAt?: string | number;
+  updatedAt?: string | number;
+}
+
+/**
+ * Search scope
+ */
+export interface SearchScope {
+  worldId?: string;
+  campaignId?: string;
+}
+
+/**
+ * Sort orders for transcript search hits
+ */
+export type TranscriptSearchSortBy = 'relevance' | 'time';
+
+/**
+ * Transcript search parameters
+ */
+export interface TranscriptSearchParams {
+  campaignId: string;
+  /**
+   * Words to find; quoted phrases must occur word for word
+   */
+  query: string;
+  speakerIds?: string[];
+  characterIds?: string[];
+  /**
+   * Also match words that sound like the query terms, such as misheard names
+   */
+  fuzzy?: boolean;
+  sortBy?: TranscriptSearchSortBy;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Segment filters of a transcript search
+ */
+export interface TranscriptSearchFilters {
+  campaignId: string;
+  speakerIds?: string[];
+  characterIds?: string[];
+}
+
+/**
+ * Transcript segment containing every searched term, before phrases are checked and it is ranked
+ */
+export interface TranscriptSegmentCandidate {
+  segmentId: string;
+  transcriptionId: string;
+  recordingId?: string;
+  sessionId: string;
+  sessionName: string;
+  sessionNumber?: number;
+  sessionDate?: string;
+  startTime: number;
+  endTime: number;
+  text: string;
+  speakerId?: string;
+  speakerName?: string;
+  characterId?: string;
+  characterName?: string;
+  /**
+   * Indexed terms of the segment that were searched for
+   */
+  matchedTerms: string[];
+}
+
+/**
+ * Moment of a session where a transcript search matched, with what is needed to open the transcript and audio
+ * there
+ */
+export interface TranscriptSearchHit {
+  sessionId: string;
+  sessionName: string;
+  sessionNumber?: number;
+  sessionDate?: string;
+  recordingId?: string;
+  transcriptionId: string;
+  segmentId: string;
+  /**
+   * Seconds from the start of the recording
+   */
+  startTime: number;
+  endTime: number;
+  text: string;
+  speakerId?: string;
+  speakerName?: string;
+  characterId?: string;
+  characterName?: string;
+  score: number;
+  /**
+   * HTML-escaped text with the matching words wrapped in <mark>
+   */
+  highlight: string;
+}
@@ -1,3 +1,5 @@
+import { SegmentCategory, TranscriptTextVersion } from './transcription.model';
+
 /**
  * Session analysis model
  */
@@ -28,6 +30,14 @@ export interface KeyPoint {
   key_point_id: string;
   text: string;
   segment_ids: string[];
+  /**
+   * Start of the first of the key point's segments, in seconds
+   */
+  start_time?: number;
+  /**
+   * End of the last of the key point's segments, in seconds
+   */
+  end_time?: number;
   importance_score: number;
   category: KeyPointCategory;
 }
@@ -165,7 +175,10 @@ export interface AnalysisMetadata {
  */
 export interface SessionAnalysisCreationParams {
   session_id: string;
-  transcription_id: string;
+  /**
+   * Analyze the session transcript stitched from all recordings of the session when omitted
+   */
+  transcription_id?: string;
   created_by: string;
 }
 
@@ -187,5 +200,14 @@ export interface AnalysisProcessingOptions {
   max_key_points?: number;
   max_topics?: number;
   min_relevance_score?: number;
+  /**
+   * Analyze only the segments of these categories, such as to leave off-topic table talk out; segments that were
+   * never classified are always analyzed
+   */
+  segment_categories?: SegmentCategory[];
+  /**
+   * Analyze the original text or its translation
+   */
+  text_version?: TranscriptTextVersion;
   additional_options?: Record<string, any>;
 }
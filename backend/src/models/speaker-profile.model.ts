@@ -0,0 +1,89 @@
+/**
+ * Speaker profile models
+ */
+
+/**
+ * What has been learned about how a speaker sounds in transcriptions
+ */
+export interface SpeakerProfileFeatures {
+  /**
+   * Names the speaker called themselves, as in "I'm Ireena"
+   */
+  self_references: string[];
+  /**
+   * Names of the multi-track recording tracks the speaker was heard on, without track number and extension
+   */
+  track_names: string[];
+  /**
+   * Labels transcription gave the speaker, leaving out generic ones such as "Speaker 1"
+   */
+  labels: string[];
+  average_turn_seconds: number;
+  average_turn_words: number;
+  /**
+   * Number of turns the averages are taken over
+   */
+  turn_count: number;
+}
+
+/**
+ * Campaign-level profile of a speaker, learned from the speakers assigned to the same character or user
+ */
+export interface SpeakerProfile {
+  profile_id: string;
+  campaign_id: string;
+  name: string;
+  character_id?: string;
+  character_name?: string;
+  user_id?: string;
+  features: SpeakerProfileFeatures;
+  /**
+   * Session speakers the profile has learned from
+   */
+  speaker_ids: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Speaker profile creation parameters
+ */
+export interface SpeakerProfileCreationParams {
+  campaign_id: string;
+  name: string;
+  character_id?: string;
+  user_id?: string;
+  features: SpeakerProfileFeatures;
+  speaker_ids: string[];
+}
+
+/**
+ * Speaker profile update parameters
+ */
+export interface SpeakerProfileUpdateParams {
+  name?: string;
+  character_id?: string;
+  user_id?: string;
+  features?: SpeakerProfileFeatures;
+  speaker_ids?: string[];
+}
+
+/**
+ * Proposed mapping of a speaker of a transcription to the character and user of a speaker profile
+ */
+export interface SpeakerMappingProposal {
+  speaker_id: string;
+  speaker_name: string;
+  profile_id: string;
+  character_id?: string;
+  character_name?: string;
+  user_id?: string;
+  /**
+   * Confidence from 0 to 1 that the speaker is the speaker of the profile
+   */
+  confidence_score: number;
+  /**
+   * Features of the speaker that match the profile
+   */
+  reasons: string[];
+}
@@ -0,0 +1,62 @@
+import { TranscriptionSegment } from './transcription.model';
+
+/**
+ * Segment-level operations on a transcript
+ */
+export enum SegmentOperation {
+  EDIT_TEXT = 'edit_text',
+  /**
+   * One segment becomes two at a word
+   */
+  SPLIT = 'split',
+  /**
+   * A segment and the segment that follows it become one
+   */
+  MERGE = 'merge',
+  REASSIGN_SPEAKER = 'reassign_speaker',
+  RETIME = 'retime',
+  /**
+   * The category of a segment is set by hand
+   */
+  SET_CATEGORY = 'set_category',
+  /**
+   * Segments of an earlier revision are put back as they were before it
+   */
+  ROLLBACK = 'rollback'
+}
+
+/**
+ * Record of a segment-level operation on a transcript
+ */
+export interface TranscriptRevision {
+  revision_id: string;
+  transcription_id: string;
+  revision_number: number;
+  operation: SegmentOperation;
+  /**
+   * Segments the operation replaced, as they were
+   */
+  before: TranscriptionSegment[];
+  /**
+   * Segments the operation produced
+   */
+  after: TranscriptionSegment[];
+  created_at: string;
+  created_by?: string;
+  /**
+   * Revision a rollback undid
+   */
+  rollback_of?: number;
+  /**
+   * Rollback that undid this revision
+   */
+  rolled_back_by?: number;
+}
+
+/**
+ * Transcript revision creation parameters
+ */
+export type TranscriptRevisionCreationParams = Pick<
+  TranscriptRevision,
+  'operation' | 'before' | 'after' | 'created_by' | 'rollback_of'
+>;
@@ -0,0 +1,89 @@
+/**
+ * Transcription quality models: what transcription providers produced, scored against the transcripts users corrected
+ */
+
+/**
+ * Word alignment of a provider's transcript against the corrected transcript
+ */
+export interface TranscriptAlignment {
+  /**
+   * Words of the corrected transcript
+   */
+  reference_words: number;
+  /**
+   * Words of the provider's transcript
+   */
+  hypothesis_words: number;
+  substitutions: number;
+  /**
+   * Words of the corrected transcript the provider missed
+   */
+  deletions: number;
+  /**
+   * Words the provider heard that are not in the corrected transcript
+   */
+  insertions: number;
+  /**
+   * Words the provider attributed to a speaker, among the words it got right or substituted
+   */
+  attributed_words: number;
+  /**
+   * Attributed words the corrected transcript gives to the same speaker
+   */
+  correctly_attributed_words: number;
+}
+
+/**
+ * Quality of a transcription, from the corrections users made to it
+ */
+export interface TranscriptionQualityScore extends TranscriptAlignment {
+  transcription_id: string;
+  session_id: string;
+  recording_id?: string;
+  /**
+   * Transcription service the transcript was asked of, such as hybrid
+   */
+  service: string;
+  /**
+   * Service of the provider that transcribed, which for the hybrid service is the provider it picked
+   */
+  provider: string;
+  model: string;
+  noise_reduction_level?: string;
+  /**
+   * Substitutions, deletions and insertions per word of the corrected transcript
+   */
+  word_error_rate: number;
+  /**
+   * Share of the attributed words given to the right speaker; unset when the provider attributed none
+   */
+  speaker_accuracy?: number;
+  /**
+   * Revisions of the transcript the score is based on
+   */
+  revision_count: number;
+  scored_at: string;
+}
+
+/**
+ * Quality of the transcriptions made the same way
+ */
+export interface TranscriptionQualityComparison {
+  service: string;
+  provider: string;
+  model: string;
+  noise_reduction_level?: string;
+  /**
+   * Scored transcriptions
+   */
+  transcriptions: number;
+  reference_words: number;
+  substitutions: number;
+  deletions: number;
+  insertions: number;
+  /**
+   * Errors over all corrected words of the group, so that long transcripts weigh more than short ones
+   */
+  word_error_rate: number;
+  speaker_accuracy?: number;
+}
@@ -31,6 +31,60 @@ export interface TranscriptionSegment {
   speaker_name?: string;
   confidence_score: number;
   words?: TranscriptionWord[];
+  /**
+   * What the segment is about; unset until the transcript is classified
+   */
+  category?: SegmentCategory;
+  /**
+   * Confidence of the category, from 0 to 1
+   */
+  category_confidence?: number;
+  /**
+   * User who set the category by hand; classifiers leave such categories alone
+   */
+  category_set_by?: string;
+  /**
+   * Language the segment is spoken in, as an ISO 639-1 code; detected per segment because tables switch languages
+   */
+  language_code?: string;
+  /**
+   * Text translated into translation_language_code, next to the original text
+   */
+  translated_text?: string;
+  translation_language_code?: string;
+}
+
+/**
+ * Text of a segment to work with, the words as spoken or their translation
+ */
+export enum TranscriptTextVersion {
+  ORIGINAL = 'original',
+  /**
+   * Translated text, falling back to the original for segments that were not translated
+   */
+  TRANSLATION = 'translation'
+}
+
+/**
+ * What a segment of a session is about, telling the game from the table talk around it
+ */
+export enum SegmentCategory {
+  /**
+   * The game master describing the scene or what happens
+   */
+  IN_CHARACTER_NARRATION = 'in_character_narration',
+  /**
+   * Characters speaking or acting in the fiction
+   */
+  IN_CHARACTER_DIALOGUE = 'in_character_dialogue',
+  /**
+   * Dice, rules lookups and other game mechanics
+   */
+  RULES = 'rules',
+  /**
+   * Snacks, scheduling and everything else unrelated to the game
+   */
+  OFF_TOPIC = 'off_topic'
 }
 
 /**
@@ -84,6 +138,111 @@ export enum TimestampGranularity {
   WORD = 'word'
 }
 
+/**
+ * Transcript file formats that can be imported
+ */
+export enum TranscriptFormat {
+  SRT = 'srt',
+  WEBVTT = 'vtt',
+  /**
+   * "Speaker: text" lines, optionally starting with a [HH:MM:SS] timestamp
+   */
+  CHAT = 'chat',
+  /**
+   * Discord channel exports (DiscordChatExporter JSON or text)
+   */
+  DISCORD = 'discord'
+}
+
+/**
+ * Transcript import parameters
+ */
+export interface TranscriptImportParams {
+  session_id: string;
+  /**
+   * Recording the transcript belongs to, if the session audio was kept
+   */
+  recording_id?: string;
+  /**
+   * Detected from the content when omitted
+   */
+  format?: TranscriptFormat;
+  language_code?: string;
+  /**
+   * Name of the original file
+   */
+  file_name?: string;
+  created_by?: string;
+}
+
+/**
+ * Formats transcripts can be exported to
+ */
+export enum TranscriptExportFormat {
+  SRT = 'srt',
+  WEBVTT = 'vtt',
+  /**
+   * Speaker turns as Markdown paragraphs
+   */
+  MARKDOWN = 'markdown',
+  /**
+   * Plain-text screenplay with the names of the characters the speakers play
+   */
+  SCREENPLAY = 'screenplay'
+}
+
+/**
+ * Transcript export options
+ */
+export interface TranscriptExportOptions {
+  /**
+   * Segments with a lower confidence score are left out
+   */
+  min_confidence?: number;
+  /**
+   * Add the start time of each speaker turn to Markdown and screenplay exports
+   */
+  include_timestamps?: boolean;
+  /**
+   * Export the original text or its translation
+   */
+  text_version?: TranscriptTextVersion;
+}
+
+/**
+ * Transcript translation parameters
+ */
+export interface TranscriptTranslationParams {
+  /**
+   * Language to translate into, as an ISO 639-1 code
+   */
+  target_language: string;
+  /**
+   * Language model to translate with, the configured model when omitted
+   */
+  model?: string;
+  /**
+   * Translate segments again that already have a translation into the target language
+   */
+  retranslate?: boolean;
+}
+
+/**
+ * Outcome of translating a transcript
+ */
+export interface TranscriptTranslationSummary {
+  target_language: string;
+  translated_segments: number;
+  /**
+   * Segments already in the target language or already translated
+   */
+  skipped_segments: number;
+  /**
+   * Segments the language model returned no translation for, or that were edited while they were translated
+   */
+  failed_segments: number;
+}
+
 /**
  * Transcription update parameters
  */
@@ -95,6 +254,41 @@ export interface TranscriptionUpdateParams {
   metadata?: Partial<TranscriptionMetadata>;
 }
 
+/**
+ * Service recorded on the session transcript, the transcript that stitches the transcriptions of all recordings of a
+ * session together
+ */
+export const SESSION_TRANSCRIPT_SERVICE = 'session_transcript';
+
+/**
+ * Place of a recording on the timeline of its session
+ */
+export interface SessionTimelineEntry {
+  recording_id: string;
+  name: string;
+  /**
+   * Seconds from the start of the session at which the recording starts
+   */
+  offset_seconds: number;
+  duration_seconds: number;
+  /**
+   * False when the offset follows from the end of the previous recording
+   */
+  offset_is_explicit: boolean;
+  transcription_id?: string;
+  transcription_status: string;
+}
+
+/**
+ * Transcription of a recording as stitched into the session transcript
+ */
+export interface SessionTranscriptSource {
+  recording_id: string;
+  transcription_id: string;
+  offset_seconds: number;
+  duration_seconds: number;
+}
+
 /**
  * Speaker identification
  */
@@ -102,6 +296,7 @@ export interface SpeakerIdentification {
   speaker_id: string;
   speaker_name: string;
   character_id?: string;
+  character_name?: string;
   user_id?: string;
   confidence_score: number;
 }
@@ -0,0 +1,64 @@
+/**
+ * Campaign trash models
+ */
+
+/**
+ * Entity types that are moved to the trash when deleted
+ */
+export type TrashEntityType = 'character' | 'location' | 'item' | 'power' | 'event' | 'session';
+
+/**
+ * All entity types that are moved to the trash when deleted
+ */
+export const TRASH_ENTITY_TYPES: TrashEntityType[] = ['character', 'location', 'item', 'power', 'event', 'session'];
+
+/**
+ * Node at the other end of a trashed relationship
+ */
+export interface TrashedNodeRef {
+  label: string;
+  key: string;
+  value: string;
+}
+
+/**
+ * Relationship a trashed entity took part in
+ */
+export interface TrashedRelationship {
+  type: string;
+  direction: 'outgoing' | 'incoming';
+  properties: Record<string, any>;
+  node: TrashedNodeRef;
+}
+
+/**
+ * Deleted entity held in its campaign's trash
+ */
+export interface TrashEntry {
+  trash_id: string;
+  entity_type: TrashEntityType;
+  entity_id: string;
+  campaign_id?: string;
+  name?: string;
+  properties: Record<string, any>;
+  relationships: TrashedRelationship[];
+  deleted_at: string;
+  deleted_by?: string;
+  expires_at?: string;
+}
+
+/**
+ * Outcome of restoring a trash entry
+ */
+export interface TrashRestoreResult {
+  entry: TrashEntry;
+  restoredRelationships: number;
+  /**
+   * Relationships to entities that are still in the trash; they are restored along with those entities
+   */
+  pendingRelationships: number;
+  /**
+   * Relationships whose other end no longer exists
+   */
+  missingRelationships: number;
+}
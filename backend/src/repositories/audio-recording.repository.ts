@@ -1,6 +1,13 @@
 import { BaseRepository } from './base.repository';
 import { DatabaseService } from '../services/database.service';
-import { AudioRecording, AudioRecordingCreationParams, AudioRecordingUpdateParams, TranscriptionStatus } from '../models/audio-recording.model';
+import {
+  AudioRecording,
+  AudioRecordingCreationParams,
+  AudioRecordingUpdateParams,
+  AudioTrack,
+  AudioTrackCreationParams,
+  TranscriptionStatus
+} from '../models/audio-recording.model';
 import { v4 as uuidv4 } from 'uuid';
 
 /**
@@ -70,13 +77,15 @@ export class AudioRecordingRepository extends BaseRepository {
             duration_seconds: recording.duration_seconds,
             file_size_bytes: recording.file_size_bytes,
             file_format: recording.file_format,
+            codec: recording.codec,
             sample_rate: recording.sample_rate,
             channels: recording.channels,
             bit_depth: recording.bit_depth,
             created_at: recording.created_at,
             created_by: recording.created_by,
             transcription_status: recording.transcription_status as TranscriptionStatus,
-            transcription_id: recording.transcription_id
+            transcription_id: recording.transcription_id,
+        session_offset_seconds: recording.session_offset_seconds ?? undefined
           };
         });
       });
@@ -122,13 +131,15 @@ export class AudioRecordingRepository extends BaseRepository {
         duration_seconds: result.duration_seconds,
         file_size_bytes: result.file_size_bytes,
         file_format: result.file_format,
+        codec: result.codec,
         sample_rate: result.sample_rate,
         channels: result.channels,
         bit_depth: result.bit_depth,
         created_at: result.created_at,
         created_by: result.created_by,
         transcription_status: result.transcription_status as TranscriptionStatus,
-        transcription_id: result.transcription_id
+        transcription_id: result.transcription_id,
+        session_offset_seconds: result.session_offset_seconds ?? undefined
       };
     } catch (error) {
       console.error('Error finding audio recording by ID:', error);
@@ -157,6 +168,7 @@ export class AudioRecordingRepository extends BaseRepository {
           duration_seconds: $durationSeconds,
           file_size_bytes: $fileSizeBytes,
           file_format: $fileFormat,
+          codec: $codec,
           sample_rate: $sampleRate,
           channels: $channels,
           bit_depth: $bitDepth,
@@ -181,6 +193,7 @@ export class AudioRecordingRepository extends BaseRepository {
           durationSeconds: params.duration_seconds,
           fileSizeBytes: params.file_size_bytes,
           fileFormat: params.file_format,
+          codec: params.codec,
           sampleRate: params.sample_rate,
           channels: params.channels,
           bitDepth: params.bit_depth,
@@ -201,13 +214,15 @@ export class AudioRecordingRepository extends BaseRepository {
         duration_seconds: result.duration_seconds,
         file_size_bytes: result.file_size_bytes,
         file_format: result.file_format,
+        codec: result.codec,
         sample_rate: result.sample_rate,
         channels: result.channels,
         bit_depth: result.bit_depth,
         created_at: result.created_at,
         created_by: result.created_by,
         transcription_status: result.transcription_status as TranscriptionStatus,
-        transcription_id: result.transcription_id
+        transcription_id: result.transcription_id,
+        session_offset_seconds: result.session_offset_seconds ?? undefined
       };
     } catch (error) {
       console.error('Error creating audio recording:', error);
@@ -249,6 +264,11 @@ export class AudioRecordingRepository extends BaseRepository {
         parameters.transcriptionId = params.transcription_id;
       }
 
+      if (params.session_offset_seconds !== undefined) {
+        setClause += ', r.session_offset_seconds = $sessionOffsetSeconds';
+        parameters.sessionOffsetSeconds = params.session_offset_seconds;
+      }
+
       const query = `
         MATCH (r:AudioRecording {recording_id: $recordingId})-[:BELONGS_TO]->(s:Session)
         SET ${setClause}
@@ -278,13 +298,15 @@ export class AudioRecordingRepository extends BaseRepository {
         duration_seconds: result.duration_seconds,
         file_size_bytes: result.file_size_bytes,
         file_format: result.file_format,
+        codec: result.codec,
         sample_rate: result.sample_rate,
         channels: result.channels,
         bit_depth: result.bit_depth,
         created_at: result.created_at,
         created_by: result.created_by,
         transcription_status: result.transcription_status as TranscriptionStatus,
-        transcription_id: result.transcription_id
+        transcription_id: result.transcription_id,
+        session_offset_seconds: result.session_offset_seconds ?? undefined
       };
     } catch (error) {
       console.error('Error updating audio recording:', error);
@@ -322,10 +344,11 @@ export class AudioRecordingRepository extends BaseRepository {
         });
       }
 
-      // Now delete the recording
+      // Now delete the recording and its tracks
       const deleteQuery = `
         MATCH (r:AudioRecording {recording_id: $recordingId})
-        DETACH DELETE r
+        OPTIONAL MATCH (tr:AudioTrack)-[:TRACK_OF]->(r)
+        DETACH DELETE tr, r
         RETURN true as deleted
       `;
 
@@ -340,4 +363,107 @@ export class AudioRecordingRepository extends BaseRepository {
       throw error;
     }
   }
+
+  /**
+   * Create the per-speaker tracks of a multi-track recording
+   * @param recordingId Recording ID
+   * @param tracks Audio track creation parameters
+   * @returns Created tracks
+   */
+  public async createTracks(recordingId: string, tracks: AudioTrackCreationParams[]): Promise<AudioTrack[]> {
+    try {
+      const query = `
+        MATCH (r:AudioRecording {recording_id: $recordingId})
+        MATCH (sp:Speaker {speaker_id: $speakerId})
+        CREATE (tr:AudioTrack {
+          track_id: $trackId,
+          name: $name,
+          file_path: $filePath,
+          duration_seconds: $durationSeconds,
+          file_size_bytes: $fileSizeBytes,
+          file_format: $fileFormat,
+          codec: $codec,
+          sample_rate: $sampleRate,
+          channels: $channels,
+          bit_depth: $bitDepth
+        })-[:TRACK_OF]->(r)
+        CREATE (tr)-[:SPOKEN_BY]->(sp)
+        RETURN tr.track_id as trackId
+      `;
+
+      await this.dbService.writeTransaction(async (tx) => {
+        for (const track of tracks) {
+          const result = await tx.run(query, {
+            recordingId,
+            speakerId: track.speaker_id,
+            trackId: uuidv4(),
+            name: track.name,
+            filePath: track.file_path,
+            durationSeconds: track.duration_seconds,
+            fileSizeBytes: track.file_size_bytes,
+            fileFormat: track.file_format,
+            codec: track.codec,
+            sampleRate: track.sample_rate,
+            channels: track.channels,
+            bitDepth: track.bit_depth
+          });
+
+          if (result.records.length === 0) {
+            throw new Error(`Recording or speaker of track ${track.name} not found`);
+          }
+        }
+      });
+
+      return await this.findTracks(recordingId);
+    } catch (error) {
+      console.error('Error creating audio tracks:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find the per-speaker tracks of a recording
+   * @param recordingId Recording ID
+   * @returns Tracks ordered by name; empty for single-track recordings
+   */
+  public async findTracks(recordingId: string): Promise<AudioTrack[]> {
+    try {
+      const query = `
+        MATCH (tr:AudioTrack)-[:TRACK_OF]->(r:AudioRecording {recording_id: $recordingId})
+        MATCH (tr)-[:SPOKEN_BY]->(sp:Speaker)
+        RETURN tr {
+          .*,
+          recording_id: r.recording_id,
+          speaker_id: sp.speaker_id,
+          speaker_name: sp.name
+        } as track
+        ORDER BY tr.name
+      `;
+
+      return await this.dbService.readTransaction(async (tx) => {
+        const result = await tx.run(query, { recordingId });
+        return result.records.map((record) => {
+          const track = record.get('track');
+          return {
+            track_id: track.track_id,
+            recording_id: track.recording_id,
+            name: track.name,
+            file_path: track.file_path,
+            duration_seconds: track.duration_seconds,
+            file_size_bytes: track.file_size_bytes,
+            file_format: track.file_format,
+            codec: track.codec,
+            sample_rate: track.sample_rate,
+            channels: track.channels,
+            bit_depth: track.bit_depth,
+            speaker_id: track.speaker_id,
+            speaker_name: track.speaker_name
+          };
+        });
+      });
+    } catch (error) {
+      console.error('Error finding audio tracks:', error);
+      throw error;
+    }
+  }
 }
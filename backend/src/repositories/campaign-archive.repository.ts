@@ -0,0 +1,257 @@
+import { Transaction } from 'neo4j-driver';
+import { BaseRepository } from './base.repository';
+import {
+  ArchivedExternalNode,
+  ArchivedNode,
+  ArchivedRelationship,
+  CampaignArchiveGraph
+} from '../models/campaign-archive.model';
+import { identifyNode, isSafeIdentifier } from '../utils/graph-keys';
+import { indexTerms } from '../utils/transcript-search';
+
+/**
+ * Labels of nodes shared between campaigns. They are referenced from the archive but not exported,
+ * and traversal does not continue through them.
+ */
+const EXTERNAL_LABELS = ['User', 'RPGWorld', 'Campaign', 'PromptTemplate', 'ProposalTemplate'];
+
+/**
+ * Labels of bookkeeping nodes that never belong in an archive. Transcript terms are shared by the segments of every
+ * campaign, so walking through them would reach other campaigns; imports index the segments again instead.
+ */
+const EXCLUDED_LABELS = ['SchemaMigration', 'RecentSearch', 'TrashEntry', 'EntityRevision', 'TranscriptTerm'];
+
+/**
+ * Relationship types that tie a node to the campaign owning it
+ */
+const OWNERSHIP_TYPES = ['BELONGS_TO', 'PART_OF'];
+
+/**
+ * Temporary property linking created nodes to their archive references during an import
+ */
+const ARCHIVE_REF_PROPERTY = '_archive_ref';
+
+/**
+ * Repository for reading and writing whole campaign subgraphs
+ */
+export class CampaignArchiveRepository extends BaseRepository {
+  /**
+   * Read a campaign and everything connected to it, stopping at users, worlds, other campaigns and their entities
+   * @param campaignId Campaign ID
+   * @returns Campaign graph without files, or null if the campaign does not exist
+   */
+  async readCampaignGraph(campaignId: string): Promise<CampaignArchiveGraph | null> {
+    try {
+      return await this.dbService.readTransaction(async (tx) => {
+        const seedResult = await tx.run(
+          `
+          MATCH (n)
+          WHERE n.campaign_id = $campaignId
+          RETURN elementId(n) as id, labels(n) as labels, properties(n) as properties
+          `,
+          { campaignId }
+        );
+
+        const nodes = new Map<string, ArchivedNode>();
+        const external = new Map<string, ArchivedExternalNode>();
+        const relationships = new Map<string, ArchivedRelationship>();
+        let rootFound = false;
+        let frontier: string[] = [];
+
+        const addNode = (id: string, labels: string[], properties: Record<string, any>) => {
+          nodes.set(id, { ref: `n${nodes.size + 1}`, labels, properties });
+          frontier.push(id);
+        };
+
+        for (const record of seedResult.records) {
+          const labels: string[] = record.get('labels');
+          if (labels.some((label) => EXCLUDED_LABELS.includes(label))) {
+            continue;
+          }
+          rootFound = rootFound || labels.includes('Campaign');
+          addNode(record.get('id'), labels, record.get('properties'));
+        }
+        if (!rootFound) {
+          return null;
+        }
+
+        while (frontier.length > 0) {
+          const ids = frontier;
+          frontier = [];
+
+          const result = await tx.run(
+            `
+            MATCH (n)-[r]-(m)
+            WHERE elementId(n) IN $ids
+            RETURN elementId(n) as source, elementId(startNode(r)) as start, elementId(r) as id, type(r) as type,
+              properties(r) as properties, elementId(m) as target, labels(m) as labels, properties(m) as other
+            `,
+            { ids }
+          );
+
+          const candidates = new Map<string, { labels: string[]; properties: Record<string, any> }>();
+          for (const record of result.records) {
+            const target: string = record.get('target');
+            const labels: string[] = record.get('labels');
+            if (nodes.has(target) || external.has(target) || labels.some((label) => EXCLUDED_LABELS.includes(label))) {
+              continue;
+            }
+            candidates.set(target, { labels, properties: record.get('other') });
+          }
+
+          // Nodes owned by another campaign are referenced rather than exported
+          const foreign = await this.findForeignOwned(tx, Array.from(candidates.keys()), campaignId);
+          for (const [id, candidate] of candidates) {
+            if (foreign.has(id) || candidate.labels.some((label) => EXTERNAL_LABELS.includes(label))) {
+              const key = identifyNode(candidate.labels, candidate.properties);
+              if (key) {
+                external.set(id, { ref: `x${external.size + 1}`, ...key });
+              }
+            } else {
+              addNode(id, candidate.labels, candidate.properties);
+            }
+          }
+
+          for (const record of result.records) {
+            const relationshipId: string = record.get('id');
+            const source: string = record.get('source');
+            const target: string = record.get('target');
+            const other = nodes.get(target) || external.get(target);
+            if (relationships.has(relationshipId) || !other) {
+              continue;
+            }
+            const self = nodes.get(source) as ArchivedNode;
+            const outgoing = record.get('start') === source;
+            relationships.set(relationshipId, {
+              type: record.get('type'),
+              start: outgoing ? self.ref : other.ref,
+              end: outgoing ? other.ref : self.ref,
+              properties: record.get('properties')
+            });
+          }
+        }
+
+        return {
+          nodes: Array.from(nodes.values()),
+          external: Array.from(external.values()),
+          relationships: Array.from(relationships.values()),
+          files: []
+        };
+      });
+    } catch (error) {
+      console.error('Error reading campaign graph:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create the nodes and relationships of an archive in a single transaction
+   * @param graph Campaign graph with IDs already remapped
+   * @returns Number of relationships created and skipped because an external node is missing
+   */
+  async writeCampaignGraph(graph: CampaignArchiveGraph): Promise<{ relationships: number; skipped: number }> {
+    try {
+      const unsafe = [
+        ...graph.nodes.flatMap((node) => node.labels),
+        ...graph.external.flatMap((node) => [node.label, node.key]),
+        ...graph.relationships.map((relationship) => relationship.type)
+      ].find((identifier) => !isSafeIdentifier(identifier));
+      if (unsafe !== undefined) {
+        throw new Error(`Invalid identifier in campaign archive: ${unsafe}`);
+      }
+
+      const nodes = new Map(graph.nodes.map((node) => [node.ref, node]));
+      const external = new Map(graph.external.map((node) => [node.ref, node]));
+
+      const match = (variable: string, ref: string, parameter: string): { pattern: string; value: string } | null => {
+        const node = nodes.get(ref);
+        if (node) {
+          return { pattern: `(${variable}:${node.labels[0]} {${ARCHIVE_REF_PROPERTY}: $${parameter}})`, value: ref };
+        }
+        const other = external.get(ref);
+        return other ? { pattern: `(${variable}:${other.label} {${other.key}: $${parameter}})`, value: other.value } : null;
+      };
+
+      return await this.dbService.writeTransaction(async (tx) => {
+        for (const node of graph.nodes) {
+          await tx.run(`CREATE (n:${node.labels.join(':')}) SET n = $properties`, {
+            properties: { ...node.properties, [ARCHIVE_REF_PROPERTY]: node.ref }
+          });
+        }
+
+        let created = 0;
+        let skipped = 0;
+        for (const relationship of graph.relationships) {
+          const start = match('a', relationship.start, 'start');
+          const end = match('b', relationship.end, 'end');
+          if (!start || !end) {
+            skipped++;
+            continue;
+          }
+
+          const result = await tx.run(
+            `
+            MATCH ${start.pattern}
+            MATCH ${end.pattern}
+            CREATE (a)-[r:${relationship.type}]->(b)
+            SET r = $properties
+            RETURN count(r) as count
+            `,
+            { start: start.value, end: end.value, properties: relationship.properties }
+          );
+          if (result.records[0].get('count').toNumber() > 0) {
+            created++;
+          } else {
+            skipped++;
+          }
+        }
+
+        // Index the imported segments for transcript search
+        for (const node of graph.nodes.filter((candidate) => candidate.labels.includes('TranscriptionSegment'))) {
+          await tx.run(
+            `
+            MATCH (s:TranscriptionSegment {${ARCHIVE_REF_PROPERTY}: $ref})
+            UNWIND $terms AS term
+            MERGE (tt:TranscriptTerm {term: term.term})
+            SET tt.phonetic_key = term.phonetic_key
+            MERGE (s)-[:HAS_TERM]->(tt)
+            `,
+            { ref: node.ref, terms: indexTerms(String(node.properties.text || '')) }
+          );
+        }
+
+        const labels = new Set(graph.nodes.map((node) => node.labels[0]));
+        for (const label of labels) {
+          await tx.run(`MATCH (n:${label}) WHERE n.${ARCHIVE_REF_PROPERTY} IS NOT NULL REMOVE n.${ARCHIVE_REF_PROPERTY}`);
+        }
+
+        return { relationships: created, skipped };
+      });
+    } catch (error) {
+      console.error('Error writing campaign graph:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find which nodes are owned by a campaign other than the one being exported
+   * @param tx Transaction
+   * @param ids Element IDs of the nodes to check
+   * @param campaignId Campaign being exported
+   * @returns Element IDs of nodes owned by another campaign
+   */
+  private async findForeignOwned(tx: Transaction, ids: string[], campaignId: string): Promise<Set<string>> {
+    if (ids.length === 0) {
+      return new Set();
+    }
+    const result = await tx.run(
+      `
+      MATCH (m)-[r]->(c:Campaign)
+      WHERE elementId(m) IN $ids AND type(r) IN $types AND c.campaign_id <> $campaignId
+      RETURN DISTINCT elementId(m) as id
+      `,
+      { ids, types: OWNERSHIP_TYPES, campaignId }
+    );
+    return new Set(result.records.map((record) => record.get('id') as string));
+  }
+}
@@ -1,11 +1,30 @@
 import { BaseRepository } from './base.repository';
+import { DatabaseService } from '../services/database.service';
 import { Character, CharacterRelationship, CharacterRelationshipCreationParams, CharacterRelationshipUpdateParams } from '../models/character.model';
 import { v4 as uuidv4 } from 'uuid';
+import { Transaction } from 'neo4j-driver';
+import { RevisionRepository } from './revision.repository';
+import { TrashRepository } from './trash.repository';
+import { RevisionAuthor } from '../models/revision.model';
 
 /**
  * Repository for Character entities
  */
 export class CharacterRepository extends BaseRepository {
+  private revisionRepository: RevisionRepository;
+  private trashRepository: TrashRepository;
+
+  /**
+   * @param dbService Database service
+   * @param revisionRepository Repository that records the revisions of updates
+   * @param trashRepository Repository that deleted entities are moved to
+   */
+  constructor(dbService: DatabaseService, revisionRepository: RevisionRepository, trashRepository: TrashRepository) {
+    super(dbService);
+    this.revisionRepository = revisionRepository;
+    this.trashRepository = trashRepository;
+  }
+
   /**
    * Create a new Character
    * @param character Character to create
@@ -52,8 +71,9 @@ export class CharacterRepository extends BaseRepository {
    * Create relationship between Character and Campaign
    * @param characterId Character ID
    * @param campaignId Campaign ID
+   * @param tx Transaction to write in, a transaction of its own when omitted
    */
-  async createCampaignRelationship(characterId: string, campaignId: string): Promise<void> {
+  async createCampaignRelationship(characterId: string, campaignId: string, tx?: Transaction): Promise<void> {
     try {
       const query = `
         MATCH (c:Character {character_id: $characterId})
@@ -61,9 +81,10 @@ export class CharacterRepository extends BaseRepository {
         MERGE (c)-[:BELONGS_TO]->(camp)
       `;
 
-      await this.dbService.writeTransaction(async (tx) => {
+      const create = async (tx: Transaction) => {
         await tx.run(query, { characterId, campaignId });
-      });
+      };
+      await (tx ? create(tx) : this.dbService.writeTransaction(create));
     } catch (error) {
       console.error('Error creating Character-Campaign relationship:', error);
       throw error;
@@ -73,9 +94,10 @@ export class CharacterRepository extends BaseRepository {
   /**
    * Get Character by ID
    * @param characterId Character ID
+   * @param tx Transaction to read in, a transaction of its own when omitted
    * @returns Character
    */
-  async getById(characterId: string): Promise<Character | null> {
+  async getById(characterId: string, tx?: Transaction): Promise<Character | null> {
     try {
       const query = `
         MATCH (c:Character {character_id: $characterId})
@@ -86,12 +108,11 @@ export class CharacterRepository extends BaseRepository {
         } as character
       `;
 
-      const result = await this.dbService.readTransaction(async (tx) => {
+      const read = async (tx: Transaction): Promise<Character | null> => {
         const result = await tx.run(query, { characterId });
         return result.records.length > 0 ? result.records[0].get('character') : null;
-      });
-
-      return result;
+      };
+      return tx ? await read(tx) : await this.dbService.readTransaction(read);
     } catch (error) {
       console.error('Error getting Character by ID:', error);
       throw error;
@@ -203,9 +224,23 @@ export class CharacterRepository extends BaseRepository {
    * Update Character
    * @param characterId Character ID
    * @param character Character data to update
+   * @param author User or proposal making the change
+   * @returns Updated Character
+   */
+  async update(characterId: string, character: Partial<Character>, author?: RevisionAuthor): Promise<Character> {
+    return this.revisionRepository.track('character', characterId, author, (tx) =>
+      this.applyUpdate(characterId, character, tx)
+    );
+  }
+
+  /**
+   * Write Character changes
+   * @param characterId Character ID
+   * @param character Character data to update
+   * @param tx Transaction of the update
    * @returns Updated Character
    */
-  async update(characterId: string, character: Partial<Character>): Promise<Character> {
+  private async applyUpdate(characterId: string, character: Partial<Character>, tx: Transaction): Promise<Character> {
     try {
       // Handle campaign_id separately
       const { campaign_id, ...characterData } = character;
@@ -216,37 +251,31 @@ export class CharacterRepository extends BaseRepository {
         RETURN c {.*} as character
       `;
 
-      const result = await this.dbService.writeTransaction(async (tx) => {
-        const result = await tx.run(query, {
-          characterId,
-          character: characterData
-        });
-
-        if (result.records.length === 0) {
-          throw new Error(`Character with ID ${characterId} not found`);
-        }
-
-        return result.records[0].get('character');
+      const result = await tx.run(query, {
+        characterId,
+        character: characterData
       });
 
+      if (result.records.length === 0) {
+        throw new Error(`Character with ID ${characterId} not found`);
+      }
+
       // Update campaign relationship if campaign_id is provided
       if (campaign_id !== undefined) {
         // Remove existing relationship
-        await this.dbService.writeTransaction(async (tx) => {
-          await tx.run(`
-            MATCH (c:Character {character_id: $characterId})-[r:BELONGS_TO]->(:Campaign)
-            DELETE r
-          `, { characterId });
-        });
+        await tx.run(`
+          MATCH (c:Character {character_id: $characterId})-[r:BELONGS_TO]->(:Campaign)
+          DELETE r
+        `, { characterId });
 
         // Create new relationship if campaign_id is not null
         if (campaign_id) {
-          await this.createCampaignRelationship(characterId, campaign_id);
+          await this.createCampaignRelationship(characterId, campaign_id, tx);
         }
       }
 
       // Get updated character with campaign_id
-      return await this.getById(characterId) as Character;
+      return await this.getById(characterId, tx) as Character;
     } catch (error) {
       console.error('Error updating Character:', error);
       throw error;
@@ -254,24 +283,15 @@ export class CharacterRepository extends BaseRepository {
   }
 
   /**
-   * Delete Character
+   * Delete Character by moving it and its relationships to the campaign trash
    * @param characterId Character ID
+   * @param deletedBy User ID of the user deleting the Character
    * @returns True if deleted
    */
-  async delete(characterId: string): Promise<boolean> {
+  async delete(characterId: string, deletedBy?: string): Promise<boolean> {
     try {
-      const query = `
-        MATCH (c:Character {character_id: $characterId})
-        DETACH DELETE c
-        RETURN count(c) as count
-      `;
-
-      const result = await this.dbService.writeTransaction(async (tx) => {
-        const result = await tx.run(query, { characterId });
-        return result.records[0].get('count').toNumber() > 0;
-      });
-
-      return result;
+      const entry = await this.trashRepository.moveToTrash('character', characterId, deletedBy);
+      return entry !== null;
     } catch (error) {
       console.error('Error deleting Character:', error);
       throw error;
@@ -2,13 +2,26 @@ import { BaseRepository } from './base.repository';
 import { DatabaseService } from '../services/database.service';
 import { Event, EventCreationParams, EventUpdateParams, EventCharacter, EventCharacterCreationParams, EventCharacterUpdateParams, EventItem, EventItemCreationParams, EventItemUpdateParams, Timeline, TimelinePositionUpdateParams, EventType } from '../models/event.model';
 import { v4 as uuidv4 } from 'uuid';
+import { RevisionRepository } from './revision.repository';
+import { TrashRepository } from './trash.repository';
+import { RevisionAuthor } from '../models/revision.model';
 
 /**
  * Repository for managing events
  */
 export class EventRepository extends BaseRepository {
-  constructor(dbService: DatabaseService) {
+  private revisionRepository: RevisionRepository;
+  private trashRepository: TrashRepository;
+
+  /**
+   * @param dbService Database service
+   * @param revisionRepository Repository that records the revisions of updates
+   * @param trashRepository Repository that deleted entities are moved to
+   */
+  constructor(dbService: DatabaseService, revisionRepository: RevisionRepository, trashRepository: TrashRepository) {
     super(dbService);
+    this.revisionRepository = revisionRepository;
+    this.trashRepository = trashRepository;
   }
 
   /**
@@ -76,9 +89,20 @@ export class EventRepository extends BaseRepository {
    * Update event
    * @param eventId Event ID
    * @param params Event update parameters
+   * @param author User or proposal making the change
+   * @returns Updated event
+   */
+  public async update(eventId: string, params: EventUpdateParams, author?: RevisionAuthor): Promise<Event> {
+    return this.revisionRepository.track('event', eventId, author, () => this.applyUpdate(eventId, params));
+  }
+
+  /**
+   * Write event changes
+   * @param eventId Event ID
+   * @param params Event update parameters
    * @returns Updated event
    */
-  public async update(eventId: string, params: EventUpdateParams): Promise<Event> {
+  private async applyUpdate(eventId: string, params: EventUpdateParams): Promise<Event> {
     // Implementation will be added later
     return {
       event_id: eventId,
@@ -96,13 +120,14 @@ export class EventRepository extends BaseRepository {
   }
 
   /**
-   * Delete event
+   * Delete event by moving it and its relationships to the campaign trash
    * @param eventId Event ID
+   * @param deletedBy User ID of the user deleting the event
    * @returns True if deleted
    */
-  public async delete(eventId: string): Promise<boolean> {
-    // Implementation will be added later
-    return true;
+  public async delete(eventId: string, deletedBy?: string): Promise<boolean> {
+    const entry = await this.trashRepository.moveToTrash('event', eventId, deletedBy);
+    return entry !== null;
   }
 
   /**
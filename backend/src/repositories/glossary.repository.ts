@@ -0,0 +1,316 @@
+import { Transaction } from 'neo4j-driver';
+import { v4 as uuidv4 } from 'uuid';
+import { BaseRepository } from './base.repository';
+import {
+  GlossaryCorrection,
+  GlossaryCorrectionCreationParams,
+  GlossaryTerm,
+  GlossaryTermCreationParams,
+  GlossaryTermSource
+} from '../models/glossary.model';
+
+/**
+ * Campaign entities whose names are glossary terms
+ */
+const CAMPAIGN_ENTITIES: { label: string; idKey: string; source: GlossaryTermSource }[] = [
+  { label: 'Character', idKey: 'character_id', source: GlossaryTermSource.CHARACTER },
+  { label: 'Location', idKey: 'location_id', source: GlossaryTermSource.LOCATION },
+  { label: 'Item', idKey: 'item_id', source: GlossaryTermSource.ITEM },
+  { label: 'Power', idKey: 'power_id', source: GlossaryTermSource.POWER }
+];
+
+/**
+ * Repository for campaign glossary terms and the corrections made with them
+ */
+export class GlossaryRepository extends BaseRepository {
+  /**
+   * Find the names of the characters, locations, items and powers of a campaign and of its world
+   * @param campaignId Campaign ID
+   * @returns Glossary terms ordered by source and name
+   */
+  async findEntityTerms(campaignId: string): Promise<GlossaryTerm[]> {
+    try {
+      return await this.dbService.readTransaction(async (tx) => {
+        const terms: GlossaryTerm[] = [];
+        for (const { label, idKey, source } of CAMPAIGN_ENTITIES) {
+          const result = await tx.run(
+            `
+            MATCH (n:${label})-[:BELONGS_TO]->(c:Campaign {campaign_id: $campaignId})
+            WHERE n.name IS NOT NULL
+            RETURN n.${idKey} as entityId, n.name as name
+            ORDER BY n.name
+            `,
+            { campaignId }
+          );
+          terms.push(
+            ...result.records.map((record) => ({
+              term: record.get('name'),
+              source,
+              entity_id: record.get('entityId') || undefined,
+              sounds_like: []
+            }))
+          );
+        }
+
+        const worlds = await tx.run(
+          `
+          MATCH (c:Campaign {campaign_id: $campaignId})-[:PART_OF]->(w:RPGWorld)
+          WHERE w.name IS NOT NULL
+          RETURN w.world_id as entityId, w.name as name
+          `,
+          { campaignId }
+        );
+        terms.push(
+          ...worlds.records.map((record) => ({
+            term: record.get('name'),
+            source: GlossaryTermSource.RPG_WORLD,
+            entity_id: record.get('entityId') || undefined,
+            sounds_like: []
+          }))
+        );
+        return terms;
+      });
+    } catch (error) {
+      console.error('Error finding glossary entity terms:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find the terms users added to the glossary of a campaign
+   * @param campaignId Campaign ID
+   * @returns Glossary terms ordered by term
+   */
+  async findUserTerms(campaignId: string): Promise<GlossaryTerm[]> {
+    try {
+      return await this.dbService.readTransaction(async (tx) => {
+        const result = await tx.run(
+          `
+          MATCH (g:GlossaryTerm)-[:PART_OF]->(c:Campaign {campaign_id: $campaignId})
+          RETURN g {.*} as term
+          ORDER BY g.term
+          `,
+          { campaignId }
+        );
+        return result.records.map((record) => this.toTerm(record.get('term')));
+      });
+    } catch (error) {
+      console.error('Error finding glossary user terms:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Add a term to the glossary of a campaign
+   * @param campaignId Campaign ID
+   * @param params Glossary term creation parameters
+   * @param createdBy ID of the user adding the term
+   * @returns Created glossary term, or null if the campaign does not exist
+   */
+  async createUserTerm(
+    campaignId: string,
+    params: GlossaryTermCreationParams,
+    createdBy?: string
+  ): Promise<GlossaryTerm | null> {
+    try {
+      return await this.dbService.writeTransaction(async (tx) => {
+        const result = await tx.run(
+          `
+          MATCH (c:Campaign {campaign_id: $campaignId})
+          CREATE (g:GlossaryTerm)-[:PART_OF]->(c)
+          SET g = $properties
+          RETURN g {.*} as term
+          `,
+          {
+            campaignId,
+            properties: {
+              term_id: uuidv4(),
+              term: params.term,
+              sounds_like: params.sounds_like || [],
+              created_by: createdBy ?? null,
+              created_at: new Date().toISOString()
+            }
+          }
+        );
+        return result.records.length > 0 ? this.toTerm(result.records[0].get('term')) : null;
+      });
+    } catch (error) {
+      console.error('Error creating glossary term:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a term users added to a glossary
+   * @param termId Term ID
+   * @returns True if deleted
+   */
+  async deleteUserTerm(termId: string): Promise<boolean> {
+    try {
+      return await this.dbService.writeTransaction(async (tx) => {
+        const result = await tx.run(
+          `
+          MATCH (g:GlossaryTerm {term_id: $termId})
+          DETACH DELETE g
+          RETURN count(g) as deleted
+          `,
+          { termId }
+        );
+        return result.records[0].get('deleted').toNumber() > 0;
+      });
+    } catch (error) {
+      console.error('Error deleting glossary term:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find a glossary correction by ID
+   * @param correctionId Correction ID
+   * @param tx Transaction to read in, a transaction of its own when omitted
+   * @returns Glossary correction, or null if not found
+   */
+  async findCorrectionById(correctionId: string, tx?: Transaction): Promise<GlossaryCorrection | null> {
+    try {
+      const find = async (tx: Transaction) => {
+        const result = await tx.run(
+          `
+          MATCH (g:GlossaryCorrection {correction_id: $correctionId})-[:CORRECTS]->(t:Transcription)
+          RETURN g {.*, transcription_id: t.transcription_id} as correction
+          `,
+          { correctionId }
+        );
+        return result.records.length > 0 ? this.toCorrection(result.records[0].get('correction')) : null;
+      };
+      return tx ? await find(tx) : await this.dbService.readTransaction(find);
+    } catch (error) {
+      console.error('Error finding glossary correction:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find the glossary corrections made in a transcription
+   * @param transcriptionId Transcription ID
+   * @returns Glossary corrections ordered by segment and position
+   */
+  async findCorrectionsByTranscription(transcriptionId: string): Promise<GlossaryCorrection[]> {
+    try {
+      return await this.dbService.readTransaction(async (tx) => {
+        const result = await tx.run(
+          `
+          MATCH (g:GlossaryCorrection)-[:CORRECTS]->(t:Transcription {transcription_id: $transcriptionId})
+          RETURN g {.*, transcription_id: t.transcription_id} as correction
+          ORDER BY g.created_at, g.segment_id, g.position
+          `,
+          { transcriptionId }
+        );
+        return result.records.map((record) => this.toCorrection(record.get('correction')));
+      });
+    } catch (error) {
+      console.error('Error finding glossary corrections by transcription:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record the glossary corrections made in a transcription, replacing the ones made before
+   * @param transcriptionId Transcription ID
+   * @param corrections Glossary correction creation parameters
+   * @returns Recorded glossary corrections
+   */
+  async replaceCorrections(
+    transcriptionId: string,
+    corrections: GlossaryCorrectionCreationParams[]
+  ): Promise<GlossaryCorrection[]> {
+    try {
+      const now = new Date().toISOString();
+      await this.dbService.writeTransaction(async (tx) => {
+        await tx.run(
+          `
+          MATCH (g:GlossaryCorrection)-[:CORRECTS]->(:Transcription {transcription_id: $transcriptionId})
+          DETACH DELETE g
+          `,
+          { transcriptionId }
+        );
+        for (const correction of corrections) {
+          await tx.run(
+            `
+            MATCH (t:Transcription {transcription_id: $transcriptionId})
+            CREATE (g:GlossaryCorrection)-[:CORRECTS]->(t)
+            SET g = $properties
+            `,
+            {
+              transcriptionId,
+              properties: { ...correction, correction_id: uuidv4(), created_at: now }
+            }
+          );
+        }
+      });
+      return this.findCorrectionsByTranscription(transcriptionId);
+    } catch (error) {
+      console.error('Error replacing glossary corrections:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Mark a glossary correction as undone
+   * @param correctionId Correction ID
+   * @param tx Transaction of the undone change, a transaction of its own when omitted
+   * @returns Updated glossary correction, or null if not found
+   */
+  async markCorrectionUndone(correctionId: string, tx?: Transaction): Promise<GlossaryCorrection | null> {
+    try {
+      const mark = async (tx: Transaction) => {
+        const result = await tx.run(
+          `
+          MATCH (g:GlossaryCorrection {correction_id: $correctionId})
+          SET g.undone_at = $undoneAt
+          RETURN g.correction_id as correctionId
+          `,
+          { correctionId, undoneAt: new Date().toISOString() }
+        );
+        return result.records.length > 0 ? this.findCorrectionById(correctionId, tx) : null;
+      };
+      return tx ? await mark(tx) : await this.dbService.writeTransaction(mark);
+    } catch (error) {
+      console.error('Error undoing glossary correction:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Convert node properties to a glossary term added by a user
+   * @param properties Node properties
+   * @returns Glossary term
+   */
+  private toTerm(properties: Record<string, any>): GlossaryTerm {
+    return {
+      term_id: properties.term_id,
+      term: properties.term,
+      source: GlossaryTermSource.USER,
+      sounds_like: properties.sounds_like || []
+    };
+  }
+
+  /**
+   * Convert node properties to a glossary correction
+   * @param properties Node properties
+   * @returns Glossary correction
+   */
+  private toCorrection(properties: Record<string, any>): GlossaryCorrection {
+    return {
+      correction_id: properties.correction_id,
+      transcription_id: properties.transcription_id,
+      segment_id: properties.segment_id,
+      term: properties.term,
+      original: properties.original,
+      replacement: properties.replacement,
+      position: properties.position,
+      similarity: properties.similarity,
+      created_at: properties.created_at,
+      undone_at: properties.undone_at || undefined
+    };
+  }
+}
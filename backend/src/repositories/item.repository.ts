@@ -2,13 +2,26 @@ import { BaseRepository } from './base.repository';
 import { DatabaseService } from '../services/database.service';
 import { Item, ItemCreationParams, ItemUpdateParams, CharacterItem, CharacterItemCreationParams, CharacterItemUpdateParams, LocationItem, LocationItemCreationParams, LocationItemUpdateParams, ItemType, ItemRarity } from '../models/item.model';
 import { v4 as uuidv4 } from 'uuid';
+import { RevisionRepository } from './revision.repository';
+import { TrashRepository } from './trash.repository';
+import { RevisionAuthor } from '../models/revision.model';
 
 /**
  * Repository for managing items
  */
 export class ItemRepository extends BaseRepository {
-  constructor(dbService: DatabaseService) {
+  private revisionRepository: RevisionRepository;
+  private trashRepository: TrashRepository;
+
+  /**
+   * @param dbService Database service
+   * @param revisionRepository Repository that records the revisions of updates
+   * @param trashRepository Repository that deleted entities are moved to
+   */
+  constructor(dbService: DatabaseService, revisionRepository: RevisionRepository, trashRepository: TrashRepository) {
     super(dbService);
+    this.revisionRepository = revisionRepository;
+    this.trashRepository = trashRepository;
   }
 
   /**
@@ -74,9 +87,20 @@ export class ItemRepository extends BaseRepository {
    * Update item
    * @param itemId Item ID
    * @param params Item update parameters
+   * @param author User or proposal making the change
+   * @returns Updated item
+   */
+  public async update(itemId: string, params: ItemUpdateParams, author?: RevisionAuthor): Promise<Item> {
+    return this.revisionRepository.track('item', itemId, author, () => this.applyUpdate(itemId, params));
+  }
+
+  /**
+   * Write item changes
+   * @param itemId Item ID
+   * @param params Item update parameters
    * @returns Updated item
    */
-  public async update(itemId: string, params: ItemUpdateParams): Promise<Item> {
+  private async applyUpdate(itemId: string, params: ItemUpdateParams): Promise<Item> {
     // Implementation will be added later
     return {
       item_id: itemId,
@@ -94,13 +118,14 @@ export class ItemRepository extends BaseRepository {
   }
 
   /**
-   * Delete item
+   * Delete item by moving it and its relationships to the campaign trash
    * @param itemId Item ID
+   * @param deletedBy User ID of the user deleting the item
    * @returns True if deleted
    */
-  public async delete(itemId: string): Promise<boolean> {
-    // Implementation will be added later
-    return true;
+  public async delete(itemId: string, deletedBy?: string): Promise<boolean> {
+    const entry = await this.trashRepository.moveToTrash('item', itemId, deletedBy);
+    return entry !== null;
   }
 
   /**
@@ -0,0 +1,333 @@
+import { int, isInt } from 'neo4j-driver';
+import { v4 as uuidv4 } from 'uuid';
+import { BaseRepository } from './base.repository';
+import { Job, JobCreationParams, JobFilter, JobStatus } from '../models/job.model';
+
+/**
+ * Attempts a job gets when its creator does not say otherwise
+ */
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+/**
+ * Repository for background jobs
+ */
+export class JobRepository extends BaseRepository {
+  /**
+   * Queue a job
+   * @param params Job creation parameters
+   * @returns Created job
+   */
+  async create(params: JobCreationParams): Promise<Job> {
+    try {
+      const now = new Date().toISOString();
+      const job: Job = {
+        job_id: uuidv4(),
+        type: params.type,
+        status: JobStatus.QUEUED,
+        payload: params.payload,
+        progress: 0,
+        attempts: 0,
+        max_attempts: params.max_attempts ?? DEFAULT_MAX_ATTEMPTS,
+        created_by: params.created_by,
+        created_at: now,
+        updated_at: now,
+        run_after: now
+      };
+
+      await this.dbService.writeTransaction(async (tx) => {
+        await tx.run('CREATE (j:Job) SET j = $properties', { properties: this.toProperties(job) });
+      });
+
+      return job;
+    } catch (error) {
+      console.error('Error creating job:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a job by ID
+   * @param jobId Job ID
+   * @returns Job, or null if not found
+   */
+  async findById(jobId: string): Promise<Job | null> {
+    try {
+      return await this.dbService.readTransaction(async (tx) => {
+        const result = await tx.run('MATCH (j:Job {job_id: $jobId}) RETURN j {.*} as job', { jobId });
+        return result.records.length > 0 ? this.toJob(result.records[0].get('job')) : null;
+      });
+    } catch (error) {
+      console.error('Error getting job:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get jobs, newest first
+   * @param filter Job filter
+   * @param page Page number
+   * @param limit Items per page
+   * @returns Jobs and total count
+   */
+  async findAll(filter: JobFilter = {}, page = 1, limit = 20): Promise<{ jobs: Job[]; total: number }> {
+    try {
+      const conditions = [
+        filter.type ? 'j.type = $type' : null,
+        filter.status ? 'j.status = $status' : null,
+        filter.created_by ? 'j.created_by = $createdBy' : null
+      ].filter(Boolean);
+      const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+      const params = {
+        type: filter.type || null,
+        status: filter.status || null,
+        createdBy: filter.created_by || null
+      };
+
+      return await this.dbService.readTransaction(async (tx) => {
+        const countResult = await tx.run(`MATCH (j:Job) ${where} RETURN count(j) as total`, params);
+        const result = await tx.run(
+          `
+          MATCH (j:Job)
+          ${where}
+          RETURN j {.*} as job
+          ORDER BY j.created_at DESC
+          SKIP $skip
+          LIMIT $limit
+          `,
+          { ...params, skip: int((page - 1) * limit), limit: int(limit) }
+        );
+
+        return {
+          jobs: result.records.map((record) => this.toJob(record.get('job'))),
+          total: countResult.records[0].get('total').toNumber()
+        };
+      });
+    } catch (error) {
+      console.error('Error getting jobs:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Mark the oldest queued job that is due as running
+   * @param now Current time as an ISO timestamp
+   * @returns Claimed job, or null if no job is due
+   */
+  async claimNext(now: string): Promise<Job | null> {
+    try {
+      return await this.dbService.writeTransaction(async (tx) => {
+        const result = await tx.run(
+          `
+          MATCH (j:Job {status: $queued})
+          WHERE j.run_after <= $now
+          WITH j
+          ORDER BY j.run_after ASC, j.created_at ASC
+          LIMIT 1
+          SET j.status = $running, j.attempts = j.attempts + 1, j.started_at = $now, j.updated_at = $now,
+            j.progress = 0, j.progress_message = null
+          RETURN j {.*} as job
+          `,
+          { queued: JobStatus.QUEUED, running: JobStatus.RUNNING, now }
+        );
+        return result.records.length > 0 ? this.toJob(result.records[0].get('job')) : null;
+      });
+    } catch (error) {
+      console.error('Error claiming job:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record the progress of a running job
+   * @param jobId Job ID
+   * @param progress Percentage done
+   * @param message Optional description of the current step
+   * @returns Updated job, or null if the job is no longer running
+   */
+  async updateProgress(jobId: string, progress: number, message?: string): Promise<Job | null> {
+    return this.updateRunning(jobId, 'j.progress = $progress, j.progress_message = $message', {
+      progress: int(Math.round(Math.min(100, Math.max(0, progress)))),
+      message: message || null
+    });
+  }
+
+  /**
+   * Mark a running job as completed
+   * @param jobId Job ID
+   * @param result Output of the job handler
+   * @returns Updated job, or null if the job is no longer running
+   */
+  async complete(jobId: string, result: any): Promise<Job | null> {
+    return this.updateRunning(
+      jobId,
+      'j.status = $completed, j.progress = 100, j.result = $result, j.error = null, j.completed_at = $now',
+      { completed: JobStatus.COMPLETED, result: result === undefined ? null : JSON.stringify(result) }
+    );
+  }
+
+  /**
+   * Record a failed attempt of a running job
+   * @param jobId Job ID
+   * @param error Error message
+   * @param retryAt When to try again, or undefined to mark the job as failed
+   * @returns Updated job, or null if the job is no longer running
+   */
+  async fail(jobId: string, error: string, retryAt?: string): Promise<Job | null> {
+    return retryAt
+      ? this.updateRunning(jobId, 'j.status = $queued, j.error = $error, j.run_after = $retryAt', {
+          queued: JobStatus.QUEUED,
+          error,
+          retryAt
+        })
+      : this.updateRunning(jobId, 'j.status = $failed, j.error = $error, j.completed_at = $now', {
+          failed: JobStatus.FAILED,
+          error
+        });
+  }
+
+  /**
+   * Cancel a queued or running job
+   * @param jobId Job ID
+   * @returns Updated job, or null if the job is not queued or running
+   */
+  async cancel(jobId: string): Promise<Job | null> {
+    try {
+      const now = new Date().toISOString();
+      return await this.dbService.writeTransaction(async (tx) => {
+        const result = await tx.run(
+          `
+          MATCH (j:Job {job_id: $jobId})
+          WHERE j.status IN $active
+          SET j.status = $cancelled, j.completed_at = $now, j.updated_at = $now
+          RETURN j {.*} as job
+          `,
+          { jobId, active: [JobStatus.QUEUED, JobStatus.RUNNING], cancelled: JobStatus.CANCELLED, now }
+        );
+        return result.records.length > 0 ? this.toJob(result.records[0].get('job')) : null;
+      });
+    } catch (error) {
+      console.error('Error cancelling job:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Queue a failed or cancelled job again with a fresh set of attempts
+   * @param jobId Job ID
+   * @returns Updated job, or null if the job has not failed or been cancelled
+   */
+  async requeue(jobId: string): Promise<Job | null> {
+    try {
+      const now = new Date().toISOString();
+      return await this.dbService.writeTransaction(async (tx) => {
+        const result = await tx.run(
+          `
+          MATCH (j:Job {job_id: $jobId})
+          WHERE j.status IN $finished
+          SET j.status = $queued, j.attempts = 0, j.progress = 0, j.progress_message = null, j.error = null,
+            j.result = null, j.started_at = null, j.completed_at = null, j.run_after = $now, j.updated_at = $now
+          RETURN j {.*} as job
+          `,
+          { jobId, finished: [JobStatus.FAILED, JobStatus.CANCELLED], queued: JobStatus.QUEUED, now }
+        );
+        return result.records.length > 0 ? this.toJob(result.records[0].get('job')) : null;
+      });
+    } catch (error) {
+      console.error('Error requeueing job:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Queue jobs again that were left running when the server stopped
+   * @returns Number of jobs queued again
+   */
+  async requeueInterrupted(): Promise<number> {
+    try {
+      const now = new Date().toISOString();
+      return await this.dbService.writeTransaction(async (tx) => {
+        const result = await tx.run(
+          `
+          MATCH (j:Job {status: $running})
+          SET j.status = $queued, j.run_after = $now, j.updated_at = $now
+          RETURN count(j) as count
+          `,
+          { running: JobStatus.RUNNING, queued: JobStatus.QUEUED, now }
+        );
+        return result.records[0].get('count').toNumber();
+      });
+    } catch (error) {
+      console.error('Error requeueing interrupted jobs:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a job that is still running
+   * @param jobId Job ID
+   * @param assignments SET clause assignments; $now holds the current time
+   * @param params Query parameters
+   * @returns Updated job, or null if the job is no longer running
+   */
+  private async updateRunning(jobId: string, assignments: string, params: Record<string, any>): Promise<Job | null> {
+    try {
+      return await this.dbService.writeTransaction(async (tx) => {
+        const result = await tx.run(
+          `
+          MATCH (j:Job {job_id: $jobId, status: $running})
+          SET ${assignments}, j.updated_at = $now
+          RETURN j {.*} as job
+          `,
+          { ...params, jobId, running: JobStatus.RUNNING, now: new Date().toISOString() }
+        );
+        return result.records.length > 0 ? this.toJob(result.records[0].get('job')) : null;
+      });
+    } catch (error) {
+      console.error('Error updating job:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Convert a job to node properties
+   * @param job Job
+   * @returns Node properties
+   */
+  private toProperties(job: Job): Record<string, any> {
+    return {
+      ...job,
+      payload: JSON.stringify(job.payload),
+      created_by: job.created_by || null,
+      progress: int(job.progress),
+      attempts: int(job.attempts),
+      max_attempts: int(job.max_attempts)
+    };
+  }
+
+  /**
+   * Convert node properties to a job
+   * @param properties Node properties
+   * @returns Job
+   */
+  private toJob(properties: Record<string, any>): Job {
+    const toNumber = (value: any): number => (isInt(value) ? value.toNumber() : Number(value || 0));
+    return {
+      job_id: properties.job_id,
+      type: properties.type,
+      status: properties.status,
+      payload: properties.payload ? JSON.parse(properties.payload) : {},
+      progress: toNumber(properties.progress),
+      progress_message: properties.progress_message || undefined,
+      attempts: toNumber(properties.attempts),
+      max_attempts: toNumber(properties.max_attempts),
+      result: properties.result ? JSON.parse(properties.result) : undefined,
+      error: properties.error || undefined,
+      created_by: properties.created_by || undefined,
+      created_at: properties.created_at,
+      updated_at: properties.updated_at,
+      run_after: properties.run_after,
+      started_at: properties.started_at || undefined,
+      completed_at: properties.completed_at || undefined
+    };
+  }
+}
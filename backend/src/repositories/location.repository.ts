@@ -1,11 +1,30 @@
 import { BaseRepository } from './base.repository';
+import { DatabaseService } from '../services/database.service';
 import { Location } from '../models/location.model';
 import { v4 as uuidv4 } from 'uuid';
+import { Transaction } from 'neo4j-driver';
+import { RevisionRepository } from './revision.repository';
+import { TrashRepository } from './trash.repository';
+import { RevisionAuthor } from '../models/revision.model';
 
 /**
  * Repository for Location entities
  */
 export class LocationRepository extends BaseRepository {
+  private revisionRepository: RevisionRepository;
+  private trashRepository: TrashRepository;
+
+  /**
+   * @param dbService Database service
+   * @param revisionRepository Repository that records the revisions of updates
+   * @param trashRepository Repository that deleted entities are moved to
+   */
+  constructor(dbService: DatabaseService, revisionRepository: RevisionRepository, trashRepository: TrashRepository) {
+    super(dbService);
+    this.revisionRepository = revisionRepository;
+    this.trashRepository = trashRepository;
+  }
+
   /**
    * Create a new Location
    * @param location Location to create
@@ -52,8 +71,9 @@ export class LocationRepository extends BaseRepository {
    * Create relationship between Location and Campaign
    * @param locationId Location ID
    * @param campaignId Campaign ID
+   * @param tx Transaction to write in, a transaction of its own when omitted
    */
-  async createCampaignRelationship(locationId: string, campaignId: string): Promise<void> {
+  async createCampaignRelationship(locationId: string, campaignId: string, tx?: Transaction): Promise<void> {
     try {
       const query = `
         MATCH (l:Location {location_id: $locationId})
@@ -61,9 +81,10 @@ export class LocationRepository extends BaseRepository {
         MERGE (l)-[:BELONGS_TO]->(c)
       `;
 
-      await this.dbService.writeTransaction(async (tx) => {
+      const create = async (tx: Transaction) => {
         await tx.run(query, { locationId, campaignId });
-      });
+      };
+      await (tx ? create(tx) : this.dbService.writeTransaction(create));
     } catch (error) {
       console.error('Error creating Location-Campaign relationship:', error);
       throw error;
@@ -74,8 +95,9 @@ export class LocationRepository extends BaseRepository {
    * Create relationship between Location and parent Location
    * @param locationId Location ID
    * @param parentId Parent Location ID
+   * @param tx Transaction to write in, a transaction of its own when omitted
    */
-  async createParentRelationship(locationId: string, parentId: string): Promise<void> {
+  async createParentRelationship(locationId: string, parentId: string, tx?: Transaction): Promise<void> {
     try {
       const query = `
         MATCH (l:Location {location_id: $locationId})
@@ -83,9 +105,10 @@ export class LocationRepository extends BaseRepository {
         MERGE (l)-[:LOCATED_IN]->(p)
       `;
 
-      await this.dbService.writeTransaction(async (tx) => {
+      const create = async (tx: Transaction) => {
         await tx.run(query, { locationId, parentId });
-      });
+      };
+      await (tx ? create(tx) : this.dbService.writeTransaction(create));
     } catch (error) {
       console.error('Error creating Location-Parent relationship:', error);
       throw error;
@@ -95,9 +118,10 @@ export class LocationRepository extends BaseRepository {
   /**
    * Get Location by ID
    * @param locationId Location ID
+   * @param tx Transaction to read in, a transaction of its own when omitted
    * @returns Location
    */
-  async getById(locationId: string): Promise<Location | null> {
+  async getById(locationId: string, tx?: Transaction): Promise<Location | null> {
     try {
       const query = `
         MATCH (l:Location {location_id: $locationId})
@@ -110,12 +134,11 @@ export class LocationRepository extends BaseRepository {
         } as location
       `;
 
-      const result = await this.dbService.readTransaction(async (tx) => {
+      const read = async (tx: Transaction): Promise<Location | null> => {
         const result = await tx.run(query, { locationId });
         return result.records.length > 0 ? result.records[0].get('location') : null;
-      });
-
-      return result;
+      };
+      return tx ? await read(tx) : await this.dbService.readTransaction(read);
     } catch (error) {
       console.error('Error getting Location by ID:', error);
       throw error;
@@ -236,9 +259,23 @@ export class LocationRepository extends BaseRepository {
    * Update Location
    * @param locationId Location ID
    * @param location Location data to update
+   * @param author User or proposal making the change
+   * @returns Updated Location
+   */
+  async update(locationId: string, location: Partial<Location>, author?: RevisionAuthor): Promise<Location> {
+    return this.revisionRepository.track('location', locationId, author, (tx) =>
+      this.applyUpdate(locationId, location, tx)
+    );
+  }
+
+  /**
+   * Write Location changes
+   * @param locationId Location ID
+   * @param location Location data to update
+   * @param tx Transaction of the update
    * @returns Updated Location
    */
-  async update(locationId: string, location: Partial<Location>): Promise<Location> {
+  private async applyUpdate(locationId: string, location: Partial<Location>, tx: Transaction): Promise<Location> {
     try {
       // Handle campaign_id and parent_location_id separately
       const { campaign_id, parent_location_id, ...locationData } = location;
@@ -249,53 +286,45 @@ export class LocationRepository extends BaseRepository {
         RETURN l {.*} as location
       `;
 
-      const result = await this.dbService.writeTransaction(async (tx) => {
-        const result = await tx.run(query, {
-          locationId,
-          location: locationData
-        });
-
-        if (result.records.length === 0) {
-          throw new Error(`Location with ID ${locationId} not found`);
-        }
-
-        return result.records[0].get('location');
+      const result = await tx.run(query, {
+        locationId,
+        location: locationData
       });
 
+      if (result.records.length === 0) {
+        throw new Error(`Location with ID ${locationId} not found`);
+      }
+
       // Update campaign relationship if campaign_id is provided
       if (campaign_id !== undefined) {
         // Remove existing relationship
-        await this.dbService.writeTransaction(async (tx) => {
-          await tx.run(`
-            MATCH (l:Location {location_id: $locationId})-[r:BELONGS_TO]->(:Campaign)
-            DELETE r
-          `, { locationId });
-        });
+        await tx.run(`
+          MATCH (l:Location {location_id: $locationId})-[r:BELONGS_TO]->(:Campaign)
+          DELETE r
+        `, { locationId });
 
         // Create new relationship if campaign_id is not null
         if (campaign_id) {
-          await this.createCampaignRelationship(locationId, campaign_id);
+          await this.createCampaignRelationship(locationId, campaign_id, tx);
         }
       }
 
       // Update parent relationship if parent_location_id is provided
       if (parent_location_id !== undefined) {
         // Remove existing relationship
-        await this.dbService.writeTransaction(async (tx) => {
-          await tx.run(`
-            MATCH (l:Location {location_id: $locationId})-[r:LOCATED_IN]->(:Location)
-            DELETE r
-          `, { locationId });
-        });
+        await tx.run(`
+          MATCH (l:Location {location_id: $locationId})-[r:LOCATED_IN]->(:Location)
+          DELETE r
+        `, { locationId });
 
         // Create new relationship if parent_location_id is not null
         if (parent_location_id) {
-          await this.createParentRelationship(locationId, parent_location_id);
+          await this.createParentRelationship(locationId, parent_location_id, tx);
         }
       }
 
       // Get updated location with campaign_id and parent_id
-      return await this.getById(locationId) as Location;
+      return await this.getById(locationId, tx) as Location;
     } catch (error) {
       console.error('Error updating Location:', error);
       throw error;
@@ -303,24 +332,15 @@ export class LocationRepository extends BaseRepository {
   }
 
   /**
-   * Delete Location
+   * Delete Location by moving it and its relationships to the campaign trash
    * @param locationId Location ID
+   * @param deletedBy User ID of the user deleting the Location
    * @returns True if deleted
    */
-  async delete(locationId: string): Promise<boolean> {
+  async delete(locationId: string, deletedBy?: string): Promise<boolean> {
     try {
-      const query = `
-        MATCH (l:Location {location_id: $locationId})
-        DETACH DELETE l
-        RETURN count(l) as count
-      `;
-
-      const result = await this.dbService.writeTransaction(async (tx) => {
-        const result = await tx.run(query, { locationId });
-        return result.records[0].get('count').toNumber() > 0;
-      });
-
-      return result;
+      const entry = await this.trashRepository.moveToTrash('location', locationId, deletedBy);
+      return entry !== null;
     } catch (error) {
       console.error('Error deleting Location:', error);
       throw error;
@@ -2,13 +2,27 @@ import { BaseRepository } from './base.repository';
 import { DatabaseService } from '../services/database.service';
 import { Power, PowerCreationParams, PowerUpdateParams, CharacterPower, CharacterPowerCreationParams, CharacterPowerUpdateParams, PowerType } from '../models/power.model';
 import { v4 as uuidv4 } from 'uuid';
+import { Transaction } from 'neo4j-driver';
+import { RevisionRepository } from './revision.repository';
+import { TrashRepository } from './trash.repository';
+import { RevisionAuthor } from '../models/revision.model';
 
 /**
  * Repository for managing powers
  */
 export class PowerRepository extends BaseRepository {
-  constructor(dbService: DatabaseService) {
+  private revisionRepository: RevisionRepository;
+  private trashRepository: TrashRepository;
+
+  /**
+   * @param dbService Database service
+   * @param revisionRepository Repository that records the revisions of updates
+   * @param trashRepository Repository that deleted entities are moved to
+   */
+  constructor(dbService: DatabaseService, revisionRepository: RevisionRepository, trashRepository: TrashRepository) {
     super(dbService);
+    this.revisionRepository = revisionRepository;
+    this.trashRepository = trashRepository;
   }
 
   /**
@@ -221,9 +235,21 @@ export class PowerRepository extends BaseRepository {
    * Update power
    * @param powerId Power ID
    * @param params Power update parameters
+   * @param author User or proposal making the change
+   * @returns Updated power
+   */
+  public async update(powerId: string, params: PowerUpdateParams, author?: RevisionAuthor): Promise<Power> {
+    return this.revisionRepository.track('power', powerId, author, (tx) => this.applyUpdate(powerId, params, tx));
+  }
+
+  /**
+   * Write power changes
+   * @param powerId Power ID
+   * @param params Power update parameters
+   * @param tx Transaction of the update
    * @returns Updated power
    */
-  public async update(powerId: string, params: PowerUpdateParams): Promise<Power> {
+  private async applyUpdate(powerId: string, params: PowerUpdateParams, tx: Transaction): Promise<Power> {
     try {
       const now = new Date().toISOString();
 
@@ -266,15 +292,11 @@ export class PowerRepository extends BaseRepository {
         } as power
       `;
 
-      const result = await this.dbService.writeTransaction(async (tx) => {
-        const result = await tx.run(query, parameters);
-
-        if (result.records.length === 0) {
-          throw new Error('Power not found');
-        }
-
-        return result.records[0].get('power');
-      });
+      const records = (await tx.run(query, parameters)).records;
+      if (records.length === 0) {
+        throw new Error('Power not found');
+      }
+      const result = records[0].get('power');
 
       return {
         power_id: result.power_id,
@@ -297,9 +319,10 @@ export class PowerRepository extends BaseRepository {
   /**
    * Delete power
    * @param powerId Power ID
+   * @param deletedBy User ID of the user deleting the power
    * @returns True if deleted
    */
-  public async delete(powerId: string): Promise<boolean> {
+  public async delete(powerId: string, deletedBy?: string): Promise<boolean> {
     try {
       // First check if power has any characters associated with it
       const checkQuery = `
@@ -316,19 +339,9 @@ export class PowerRepository extends BaseRepository {
         throw new Error('Cannot delete power with associated characters');
       }
 
-      // If no characters are associated, delete the power
-      const deleteQuery = `
-        MATCH (p:Power {power_id: $powerId})
-        DETACH DELETE p
-        RETURN true as deleted
-      `;
-
-      const result = await this.dbService.writeTransaction(async (tx) => {
-        const result = await tx.run(deleteQuery, { powerId });
-        return result.records.length > 0 ? result.records[0].get('deleted') : false;
-      });
-
-      return result;
+      // If no characters are associated, move the power to the campaign trash
+      const entry = await this.trashRepository.moveToTrash('power', powerId, deletedBy);
+      return entry !== null;
     } catch (error) {
       console.error('Error deleting power:', error);
       throw error;
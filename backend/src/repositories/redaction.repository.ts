@@ -0,0 +1,120 @@
+import { v4 as uuidv4 } from 'uuid';
+import { BaseRepository } from './base.repository';
+import { RedactionRule, RedactionRuleCreationParams } from '../models/redaction.model';
+
+/**
+ * Repository for the redaction rules of campaigns
+ */
+export class RedactionRepository extends BaseRepository {
+  /**
+   * Find the redaction rules of a campaign
+   * @param campaignId Campaign ID
+   * @returns Redaction rules, oldest first
+   */
+  async findByCampaign(campaignId: string): Promise<RedactionRule[]> {
+    try {
+      return await this.dbService.readTransaction(async (tx) => {
+        const result = await tx.run(
+          `
+          MATCH (r:RedactionRule)-[:PART_OF]->(c:Campaign {campaign_id: $campaignId})
+          RETURN r {.*, campaign_id: c.campaign_id} as rule
+          ORDER BY r.created_at
+          `,
+          { campaignId }
+        );
+        return result.records.map((record) => this.toRule(record.get('rule')));
+      });
+    } catch (error) {
+      console.error('Error finding redaction rules by campaign:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Add a redaction rule to a campaign
+   * @param campaignId Campaign ID
+   * @param params Redaction rule creation parameters
+   * @param createdBy ID of the user adding the rule
+   * @returns Created redaction rule, or null if the campaign does not exist
+   */
+  async create(
+    campaignId: string,
+    params: RedactionRuleCreationParams,
+    createdBy?: string
+  ): Promise<RedactionRule | null> {
+    try {
+      return await this.dbService.writeTransaction(async (tx) => {
+        const result = await tx.run(
+          `
+          MATCH (c:Campaign {campaign_id: $campaignId})
+          CREATE (r:RedactionRule)-[:PART_OF]->(c)
+          SET r = $properties
+          RETURN r {.*, campaign_id: c.campaign_id} as rule
+          `,
+          {
+            campaignId,
+            properties: {
+              rule_id: uuidv4(),
+              type: params.type,
+              speaker_id: params.speaker_id ?? null,
+              pattern: params.pattern ?? null,
+              pii_pattern: params.pii_pattern ?? null,
+              silence_audio: params.silence_audio ?? false,
+              description: params.description ?? null,
+              created_by: createdBy ?? null,
+              created_at: new Date().toISOString()
+            }
+          }
+        );
+        return result.records.length > 0 ? this.toRule(result.records[0].get('rule')) : null;
+      });
+    } catch (error) {
+      console.error('Error creating redaction rule:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a redaction rule
+   * @param ruleId Rule ID
+   * @returns True if deleted
+   */
+  async delete(ruleId: string): Promise<boolean> {
+    try {
+      return await this.dbService.writeTransaction(async (tx) => {
+        const result = await tx.run(
+          `
+          MATCH (r:RedactionRule {rule_id: $ruleId})
+          DETACH DELETE r
+          RETURN count(r) as deleted
+          `,
+          { ruleId }
+        );
+        return result.records[0].get('deleted').toNumber() > 0;
+      });
+    } catch (error) {
+      console.error('Error deleting redaction rule:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Convert node properties to a redaction rule
+   * @param properties Node properties
+   * @returns Redaction rule
+   */
+  private toRule(properties: Record<string, any>): RedactionRule {
+    return {
+      rule_id: properties.rule_id,
+      campaign_id: properties.campaign_id,
+      type: properties.type,
+      speaker_id: properties.speaker_id || undefined,
+      pattern: properties.pattern || undefined,
+      pii_pattern: properties.pii_pattern || undefined,
+      silence_audio: !!properties.silence_audio,
+      description: properties.description || undefined,
+      created_at: properties.created_at,
+      created_by: properties.created_by || undefined
+    };
+  }
+}
@@ -16,6 +16,16 @@ import { LLMRepository } from './llm.repository';
 import { ChangeProposalRepository } from './change-proposal.repository';
 import { ContentAnalysisRepository } from './content-analysis.repository';
 import { RelationshipRepository } from './relationship.repository';
+import { SearchRepository } from './search.repository';
+import { RevisionRepository } from './revision.repository';
+import { TrashRepository } from './trash.repository';
+import { CampaignArchiveRepository } from './campaign-archive.repository';
+import { JobRepository } from './job.repository';
+import { SpeakerProfileRepository } from './speaker-profile.repository';
+import { GlossaryRepository } from './glossary.repository';
+import { TranscriptRevisionRepository } from './transcript-revision.repository';
+import { RedactionRepository } from './redaction.repository';
+import { TranscriptionQualityRepository } from './transcription-quality.repository';
 
 /**
  * Repository factory
@@ -60,21 +70,27 @@ export class RepositoryFactory {
    * Get Session repository
    */
   public getSessionRepository(): SessionRepository {
-    return this.getRepository('session', () => new SessionRepository(this.dbService));
+    return this.getRepository('session', () => new SessionRepository(this.dbService, this.getTrashRepository()));
   }
 
   /**
    * Get Character repository
    */
   public getCharacterRepository(): CharacterRepository {
-    return this.getRepository('character', () => new CharacterRepository(this.dbService));
+    return this.getRepository(
+      'character',
+      () => new CharacterRepository(this.dbService, this.getRevisionRepository(), this.getTrashRepository())
+    );
   }
 
   /**
    * Get Location repository
    */
   public getLocationRepository(): LocationRepository {
-    return this.getRepository('location', () => new LocationRepository(this.dbService));
+    return this.getRepository(
+      'location',
+      () => new LocationRepository(this.dbService, this.getRevisionRepository(), this.getTrashRepository())
+    );
   }
 
   /**
@@ -95,21 +111,30 @@ export class RepositoryFactory {
    * Get Power repository
    */
   public getPowerRepository(): PowerRepository {
-    return this.getRepository('power', () => new PowerRepository(this.dbService));
+    return this.getRepository(
+      'power',
+      () => new PowerRepository(this.dbService, this.getRevisionRepository(), this.getTrashRepository())
+    );
   }
 
   /**
    * Get Item repository
    */
   public getItemRepository(): ItemRepository {
-    return this.getRepository('item', () => new ItemRepository(this.dbService));
+    return this.getRepository(
+      'item',
+      () => new ItemRepository(this.dbService, this.getRevisionRepository(), this.getTrashRepository())
+    );
   }
 
   /**
    * Get Event repository
    */
   public getEventRepository(): EventRepository {
-    return this.getRepository('event', () => new EventRepository(this.dbService));
+    return this.getRepository(
+      'event',
+      () => new EventRepository(this.dbService, this.getRevisionRepository(), this.getTrashRepository())
+    );
   }
 
   /**
@@ -160,4 +185,74 @@ export class RepositoryFactory {
   public getRelationshipRepository(): RelationshipRepository {
     return this.getRepository('relationship', () => new RelationshipRepository(this.dbService));
   }
+
+  /**
+   * Get search repository
+   */
+  public getSearchRepository(): SearchRepository {
+    return this.getRepository('search', () => new SearchRepository(this.dbService));
+  }
+
+  /**
+   * Get revision repository
+   */
+  public getRevisionRepository(): RevisionRepository {
+    return this.getRepository('revision', () => new RevisionRepository(this.dbService));
+  }
+
+  /**
+   * Get trash repository
+   */
+  public getTrashRepository(): TrashRepository {
+    return this.getRepository('trash', () => new TrashRepository(this.dbService));
+  }
+
+  /**
+   * Get campaign archive repository
+   */
+  public getCampaignArchiveRepository(): CampaignArchiveRepository {
+    return this.getRepository('campaignArchive', () => new CampaignArchiveRepository(this.dbService));
+  }
+
+  /**
+   * Get job repository
+   */
+  public getJobRepository(): JobRepository {
+    return this.getRepository('job', () => new JobRepository(this.dbService));
+  }
+
+  /**
+   * Get speaker profile repository
+   */
+  public getSpeakerProfileRepository(): SpeakerProfileRepository {
+    return this.getRepository('speakerProfile', () => new SpeakerProfileRepository(this.dbService));
+  }
+
+  /**
+   * Get glossary repository
+   */
+  public getGlossaryRepository(): GlossaryRepository {
+    return this.getRepository('glossary', () => new GlossaryRepository(this.dbService));
+  }
+
+  /**
+   * Get transcript revision repository
+   */
+  public getTranscriptRevisionRepository(): TranscriptRevisionRepository {
+    return this.getRepository('transcriptRevision', () => new TranscriptRevisionRepository(this.dbService));
+  }
+
+  /**
+   * Get redaction repository
+   */
+  public getRedactionRepository(): RedactionRepository {
+    return this.getRepository('redaction', () => new RedactionRepository(this.dbService));
+  }
+
+  /**
+   * Get transcription quality repository
+   */
+  public getTranscriptionQualityRepository(): TranscriptionQualityRepository {
+    return this.getRepository('transcriptionQuality', () => new TranscriptionQualityRepository(this.dbService));
+  }
 }
@@ -0,0 +1,414 @@
+import { int, isInt, Transaction } from 'neo4j-driver';
+import { v4 as uuidv4 } from 'uuid';
+import { BaseRepository } from './base.repository';
+import {
+  EntityRevision,
+  RevisionAuthor,
+  RevisionChangeType,
+  RevisionEntityType
+} from '../models/revision.model';
+
+/**
+ * Label and ID property of each entity type with revision history
+ */
+const REVISION_ENTITIES: Record<RevisionEntityType, { label: string; idField: string }> = {
+  character: { label: 'Character', idField: 'character_id' },
+  location: { label: 'Location', idField: 'location_id' },
+  item: { label: 'Item', idField: 'item_id' },
+  power: { label: 'Power', idField: 'power_id' },
+  event: { label: 'Event', idField: 'event_id' }
+};
+
+/**
+ * Properties that change on every write and are not tracked as changes
+ */
+const UNTRACKED_FIELDS = ['updated_at'];
+
+/**
+ * Repository for immutable entity revisions.
+ *
+ * Revisions are stored as EntityRevision nodes keyed by entity type and ID rather than linked
+ * to the entity, so the history survives the entity being deleted. Snapshots are stored as JSON
+ * because node properties cannot hold nested maps. Each revision carries a revision_key of entity
+ * type, entity ID and revision number, which a uniqueness constraint keeps from being numbered twice.
+ */
+export class RevisionRepository extends BaseRepository {
+  /**
+   * Read the current properties of an entity
+   * @param entityType Entity type
+   * @param entityId Entity ID
+   * @param tx Transaction to read in, a transaction of its own when omitted
+   * @returns Entity properties, or null if the entity does not exist
+   */
+  async getSnapshot(
+    entityType: RevisionEntityType,
+    entityId: string,
+    tx?: Transaction
+  ): Promise<Record<string, unknown> | null> {
+    try {
+      const { label, idField } = REVISION_ENTITIES[entityType];
+      const query = `
+        MATCH (n:${label} {${idField}: $entityId})
+        RETURN properties(n) as snapshot
+      `;
+
+      const read = async (tx: Transaction): Promise<Record<string, unknown> | null> => {
+        const result = await tx.run(query, { entityId });
+        return result.records.length > 0 ? result.records[0].get('snapshot') : null;
+      };
+      return tx ? await read(tx) : await this.dbService.readTransaction(read);
+    } catch (error) {
+      console.error('Error getting entity snapshot:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Run an update and record the resulting revision in the same write transaction, so that a
+   * change is never saved without its revision
+   * @param entityType Entity type
+   * @param entityId Entity ID
+   * @param author User or proposal that made the change
+   * @param update Function that updates the entity in the given transaction
+   * @returns Result of the update
+   */
+  async track<T>(
+    entityType: RevisionEntityType,
+    entityId: string,
+    author: RevisionAuthor | undefined,
+    update: (tx: Transaction) => Promise<T>
+  ): Promise<T> {
+    return this.dbService.writeTransaction(async (tx) => {
+      const before = await this.getSnapshot(entityType, entityId, tx);
+      const result = await update(tx);
+      const after = await this.getSnapshot(entityType, entityId, tx);
+      await this.recordChange(entityType, entityId, before, after, author, tx);
+      return result;
+    });
+  }
+
+  /**
+   * Restore an entity to the state of an earlier revision and record the revert as a new revision,
+   * in one write transaction
+   * @param entityType Entity type
+   * @param entityId Entity ID
+   * @param revisionNumber Revision to restore
+   * @param author User or proposal making the change
+   * @returns Revision recording the revert, or null if the revision or entity does not exist
+   */
+  async revert(
+    entityType: RevisionEntityType,
+    entityId: string,
+    revisionNumber: number,
+    author: RevisionAuthor
+  ): Promise<EntityRevision | null> {
+    try {
+      return await this.dbService.writeTransaction(async (tx) => {
+        const target = await this.findByNumber(entityType, entityId, revisionNumber, tx);
+        if (!target) {
+          return null;
+        }
+
+        const before = await this.getSnapshot(entityType, entityId, tx);
+        if (!before) {
+          return null;
+        }
+
+        const after = await this.restoreSnapshot(entityType, entityId, target.snapshot, tx);
+        if (!after) {
+          return null;
+        }
+
+        return this.createRevision(
+          entityType,
+          entityId,
+          RevisionChangeType.REVERT,
+          this.getChangedFields(before, after),
+          after,
+          author,
+          revisionNumber,
+          tx
+        );
+      });
+    } catch (error) {
+      console.error('Error reverting entity:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record the change between two snapshots of an entity. When the entity has no history yet,
+   * the previous state is recorded first as a baseline so that it is never lost.
+   * @param entityType Entity type
+   * @param entityId Entity ID
+   * @param before Properties before the change
+   * @param after Properties after the change
+   * @param author User or proposal that made the change
+   * @param tx Transaction of the change, a transaction of its own when omitted
+   * @returns Recorded revision, or null when nothing changed
+   */
+  async recordChange(
+    entityType: RevisionEntityType,
+    entityId: string,
+    before: Record<string, unknown> | null,
+    after: Record<string, unknown> | null,
+    author: RevisionAuthor = {},
+    tx?: Transaction
+  ): Promise<EntityRevision | null> {
+    try {
+      if (!after) {
+        return null;
+      }
+
+      const changedFields = this.getChangedFields(before || {}, after);
+      if (before && changedFields.length === 0) {
+        return null;
+      }
+
+      const record = async (tx: Transaction): Promise<EntityRevision> => {
+        if (before && (await this.countRevisions(entityType, entityId, tx)) === 0) {
+          await this.createRevision(entityType, entityId, RevisionChangeType.BASELINE, [], before, {}, undefined, tx);
+        }
+        return this.createRevision(entityType, entityId, RevisionChangeType.UPDATE, changedFields, after, author, undefined, tx);
+      };
+      return tx ? await record(tx) : await this.dbService.writeTransaction(record);
+    } catch (error) {
+      console.error('Error recording revision:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a revision with the next revision number
+   * @param entityType Entity type
+   * @param entityId Entity ID
+   * @param changeType What produced the revision
+   * @param changedFields Fields changed relative to the previous revision
+   * @param snapshot Entity properties
+   * @param author User or proposal that made the change
+   * @param revertedFrom Revision restored by a revert
+   * @param tx Transaction of the change, a transaction of its own when omitted
+   * @returns Created revision
+   * @throws If another transaction created the same revision number first
+   */
+  async createRevision(
+    entityType: RevisionEntityType,
+    entityId: string,
+    changeType: RevisionChangeType,
+    changedFields: string[],
+    snapshot: Record<string, unknown>,
+    author: RevisionAuthor,
+    revertedFrom?: number,
+    tx?: Transaction
+  ): Promise<EntityRevision> {
+    try {
+      const query = `
+        OPTIONAL MATCH (existing:EntityRevision {entity_type: $entityType, entity_id: $entityId})
+        WITH coalesce(max(existing.revision_number), 0) + 1 as revisionNumber
+        CREATE (r:EntityRevision {
+          revision_id: $revisionId,
+          revision_key: $entityType + ':' + $entityId + ':' + toString(revisionNumber),
+          entity_type: $entityType,
+          entity_id: $entityId,
+          revision_number: revisionNumber,
+          change_type: $changeType,
+          changed_fields: $changedFields,
+          snapshot: $snapshot,
+          created_at: $createdAt,
+          created_by: $createdBy,
+          proposal_id: $proposalId,
+          reverted_from: $revertedFrom
+        })
+        RETURN r {.*} as revision
+      `;
+
+      const create = async (tx: Transaction): Promise<EntityRevision> => {
+        const result = await tx.run(query, {
+          revisionId: uuidv4(),
+          entityType,
+          entityId,
+          changeType,
+          changedFields,
+          snapshot: JSON.stringify(snapshot),
+          createdAt: new Date().toISOString(),
+          createdBy: author.userId || null,
+          proposalId: author.proposalId || null,
+          revertedFrom: revertedFrom ?? null
+        });
+        return this.toRevision(result.records[0].get('revision'));
+      };
+      return tx ? await create(tx) : await this.dbService.writeTransaction(create);
+    } catch (error) {
+      console.error('Error creating revision:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the revisions of an entity, newest first
+   * @param entityType Entity type
+   * @param entityId Entity ID
+   * @param page Page number
+   * @param limit Items per page
+   * @returns Revisions and total count
+   */
+  async findByEntity(
+    entityType: RevisionEntityType,
+    entityId: string,
+    page = 1,
+    limit = 20
+  ): Promise<{ revisions: EntityRevision[]; total: number }> {
+    try {
+      const total = await this.countRevisions(entityType, entityId);
+
+      const query = `
+        MATCH (r:EntityRevision {entity_type: $entityType, entity_id: $entityId})
+        RETURN r {.*} as revision
+        ORDER BY r.revision_number DESC
+        SKIP $skip
+        LIMIT $limit
+      `;
+
+      const revisions = await this.dbService.readTransaction(async (tx) => {
+        const result = await tx.run(query, {
+          entityType,
+          entityId,
+          skip: int((page - 1) * limit),
+          limit: int(limit)
+        });
+        return result.records.map((record) => this.toRevision(record.get('revision')));
+      });
+
+      return { revisions, total };
+    } catch (error) {
+      console.error('Error getting revisions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a revision by number
+   * @param entityType Entity type
+   * @param entityId Entity ID
+   * @param revisionNumber Revision number
+   * @param tx Transaction to read in, a transaction of its own when omitted
+   * @returns Revision, or null if not found
+   */
+  async findByNumber(
+    entityType: RevisionEntityType,
+    entityId: string,
+    revisionNumber: number,
+    tx?: Transaction
+  ): Promise<EntityRevision | null> {
+    try {
+      const query = `
+        MATCH (r:EntityRevision {entity_type: $entityType, entity_id: $entityId, revision_number: $revisionNumber})
+        RETURN r {.*} as revision
+      `;
+
+      const read = async (tx: Transaction): Promise<EntityRevision | null> => {
+        const result = await tx.run(query, { entityType, entityId, revisionNumber: int(revisionNumber) });
+        return result.records.length > 0 ? this.toRevision(result.records[0].get('revision')) : null;
+      };
+      return tx ? await read(tx) : await this.dbService.readTransaction(read);
+    } catch (error) {
+      console.error('Error getting revision:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace an entity's properties with a snapshot
+   * @param entityType Entity type
+   * @param entityId Entity ID
+   * @param snapshot Properties to restore
+   * @param tx Transaction to write in, a transaction of its own when omitted
+   * @returns Properties after the restore, or null if the entity does not exist
+   */
+  async restoreSnapshot(
+    entityType: RevisionEntityType,
+    entityId: string,
+    snapshot: Record<string, unknown>,
+    tx?: Transaction
+  ): Promise<Record<string, unknown> | null> {
+    try {
+      const { label, idField } = REVISION_ENTITIES[entityType];
+      const query = `
+        MATCH (n:${label} {${idField}: $entityId})
+        SET n = $properties
+        RETURN properties(n) as snapshot
+      `;
+
+      const restore = async (tx: Transaction): Promise<Record<string, unknown> | null> => {
+        const result = await tx.run(query, {
+          entityId,
+          properties: { ...snapshot, [idField]: entityId, updated_at: new Date().toISOString() }
+        });
+        return result.records.length > 0 ? result.records[0].get('snapshot') : null;
+      };
+      return tx ? await restore(tx) : await this.dbService.writeTransaction(restore);
+    } catch (error) {
+      console.error('Error restoring entity snapshot:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * List the fields that differ between two snapshots
+   * @param before Properties before the change
+   * @param after Properties after the change
+   * @returns Changed field names
+   */
+  getChangedFields(before: Record<string, unknown>, after: Record<string, unknown>): string[] {
+    const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+    return Array.from(fields)
+      .filter((field) => !UNTRACKED_FIELDS.includes(field))
+      .filter((field) => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+      .sort();
+  }
+
+  /**
+   * Count the revisions of an entity
+   * @param entityType Entity type
+   * @param entityId Entity ID
+   * @param tx Transaction to read in, a transaction of its own when omitted
+   * @returns Number of revisions
+   */
+  private async countRevisions(entityType: RevisionEntityType, entityId: string, tx?: Transaction): Promise<number> {
+    const count = async (tx: Transaction): Promise<number> => {
+      const result = await tx.run(
+        'MATCH (r:EntityRevision {entity_type: $entityType, entity_id: $entityId}) RETURN count(r) as total',
+        { entityType, entityId }
+      );
+      return result.records[0].get('total').toNumber();
+    };
+    return tx ? count(tx) : this.dbService.readTransaction(count);
+  }
+
+  /**
+   * Convert a stored revision
+   * @param revision Revision node properties
+   * @returns Revision
+   */
+  private toRevision(revision: Record<string, unknown>): EntityRevision {
+    return {
+      revision_id: revision.revision_id as string,
+      entity_type: revision.entity_type as RevisionEntityType,
+      entity_id: revision.entity_id as string,
+      revision_number: toNumber(revision.revision_number),
+      change_type: revision.change_type as RevisionChangeType,
+      changed_fields: (revision.changed_fields as string[] | undefined) || [],
+      snapshot: JSON.parse((revision.snapshot as string | undefined) || '{}'),
+      created_at: revision.created_at as string,
+      created_by: (revision.created_by as string | null) || undefined,
+      proposal_id: (revision.proposal_id as string | null) || undefined,
+      reverted_from: revision.reverted_from !== undefined && revision.reverted_from !== null
+        ? toNumber(revision.reverted_from)
+        : undefined
+    };
+  }
+}
+
+function toNumber(value: unknown): number {
+  return isInt(value) ? value.toNumber() : Number(value);
+}
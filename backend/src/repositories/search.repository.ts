@@ -0,0 +1,391 @@
+import { int, isInt } from 'neo4j-driver';
+import { BaseRepository } from './base.repository';
+import {
+  SearchCandidate,
+  SearchEntityType,
+  SearchScope,
+  TranscriptSearchFilters,
+  TranscriptSegmentCandidate,
+} from '../models/search.model';
+import { SESSION_TRANSCRIPT_SERVICE } from '../models/transcription.model';
+import { TranscriptTerm } from '../utils/transcript-search';
+
+/**
+ * How an entity type is matched and placed in the world/campaign hierarchy
+ */
+interface SearchTypeDefinition {
+  label: string;
+  idField: string;
+  textField?: string;
+
+  /**
+   * Clauses that bind the owning campaign (c), world (w), parent map and display name
+   */
+  context: string;
+}
+
+const CAMPAIGN_PARENT = `CASE WHEN c IS NULL THEN null ELSE {id: c.campaign_id, name: c.name, type: 'campaign'} END`;
+
+/**
+ * Context for entities that belong to a campaign, either through a BELONGS_TO
+ * relationship or a campaign_id property
+ */
+const CAMPAIGN_OWNED_CONTEXT = `
+  OPTIONAL MATCH (n)-[:BELONGS_TO]->(owner:Campaign)
+  WITH n, coalesce(owner.campaign_id, n.campaign_id) as ownerId
+  OPTIONAL MATCH (c:Campaign)
+  WHERE c.campaign_id = ownerId
+  OPTIONAL MATCH (c)-[:PART_OF]->(w:RPGWorld)
+  WITH n, c, w, ${CAMPAIGN_PARENT} as parent, n.name as name
+`;
+
+const SEARCH_TYPES: Record<SearchEntityType, SearchTypeDefinition> = {
+  world: {
+    label: 'RPGWorld',
+    idField: 'world_id',
+    context: `
+      WITH n, null as c, n as w, null as parent, n.name as name
+    `,
+  },
+  campaign: {
+    label: 'Campaign',
+    idField: 'campaign_id',
+    context: `
+      OPTIONAL MATCH (n)-[:PART_OF]->(w:RPGWorld)
+      WITH n, n as c, w,
+        CASE WHEN w IS NULL THEN null ELSE {id: w.world_id, name: w.name, type: 'world'} END as parent,
+        n.name as name
+    `,
+  },
+  session: {
+    label: 'Session',
+    idField: 'session_id',
+    context: `
+      OPTIONAL MATCH (n)-[:PART_OF]->(c:Campaign)
+      OPTIONAL MATCH (c)-[:PART_OF]->(w:RPGWorld)
+      WITH n, c, w, ${CAMPAIGN_PARENT} as parent, n.name as name
+    `,
+  },
+  character: { label: 'Character', idField: 'character_id', context: CAMPAIGN_OWNED_CONTEXT },
+  location: { label: 'Location', idField: 'location_id', context: CAMPAIGN_OWNED_CONTEXT },
+  item: { label: 'Item', idField: 'item_id', context: CAMPAIGN_OWNED_CONTEXT },
+  event: { label: 'Event', idField: 'event_id', context: CAMPAIGN_OWNED_CONTEXT },
+  transcription: {
+    label: 'Transcription',
+    idField: 'transcription_id',
+    textField: 'full_text',
+    context: `
+      OPTIONAL MATCH (n)-[:TRANSCRIBES]->(r:AudioRecording)
+      OPTIONAL MATCH (r)-[:BELONGS_TO]->(rs:Session)
+      OPTIONAL MATCH (n)-[:TRANSCRIPT_OF]->(ts:Session)
+      WITH n, r, coalesce(ts, rs) as s
+      OPTIONAL MATCH (s)-[:PART_OF]->(c:Campaign)
+      OPTIONAL MATCH (c)-[:PART_OF]->(w:RPGWorld)
+      WITH n, c, w,
+        CASE WHEN s IS NULL THEN null ELSE {id: s.session_id, name: s.name, type: 'session'} END as parent,
+        coalesce(r.name, s.name + ' transcript', 'Transcript') as name
+    `,
+  },
+};
+
+/**
+ * Maximum number of recent searches kept per user
+ */
+const RECENT_SEARCH_LIMIT = 50;
+
+/**
+ * Repository for searching across entity types
+ */
+export class SearchRepository extends BaseRepository {
+  /**
+   * Find entities of one type where any term occurs in a searchable field
+   * @param type Entity type
+   * @param terms Lower-cased search terms
+   * @param scope World or campaign to search in
+   * @param limit Maximum number of candidates
+   * @returns Matching entities
+   */
+  async findCandidates(
+    type: SearchEntityType,
+    terms: string[],
+    scope: SearchScope,
+    limit: number
+  ): Promise<SearchCandidate[]> {
+    try {
+      const definition = SEARCH_TYPES[type];
+      const fields = ['name', 'description', ...(definition.textField ? [definition.textField] : [])];
+      const fieldMatches = fields.map((field) => `toLower(coalesce(n.${field}, '')) CONTAINS term`).join(' OR ');
+
+      const query = `
+        MATCH (n:${definition.label})
+        WHERE any(term IN $terms WHERE ${fieldMatches})
+        ${definition.context}
+        WHERE ($campaignId IS NULL OR c.campaign_id = $campaignId)
+          AND ($worldId IS NULL OR w.world_id = $worldId)
+        RETURN {
+          id: n.${definition.idField},
+          name: name,
+          description: n.description,
+          text: ${definition.textField ? `n.${definition.textField}` : 'null'},
+          imageUrl: n.image_url,
+          createdAt: n.created_at,
+          updatedAt: n.updated_at,
+          parent: parent
+        } as candidate
+        LIMIT $limit
+      `;
+
+      return await this.dbService.readTransaction(async (tx) => {
+        const result = await tx.run(query, {
+          terms,
+          campaignId: scope.campaignId || null,
+          worldId: scope.worldId || null,
+          limit: int(limit),
+        });
+
+        return result.records.map((record) => {
+          const candidate = record.get('candidate');
+          return {
+            id: candidate.id,
+            type,
+            name: candidate.name || '',
+            description: candidate.description || undefined,
+            text: candidate.text || undefined,
+            imageUrl: candidate.imageUrl || undefined,
+            parentId: candidate.parent?.id,
+            parentName: candidate.parent?.name,
+            parentType: candidate.parent?.type,
+            createdAt: isInt(candidate.createdAt) ? candidate.createdAt.toNumber() : candidate.createdAt || undefined,
+            updatedAt: isInt(candidate.updatedAt) ? candidate.updatedAt.toNumber() : candidate.updatedAt || undefined,
+          };
+        });
+      });
+    } catch (error) {
+      console.error('Error finding search candidates:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find entity names containing a partial query
+   * @param prefix Lower-cased partial query
+   * @param types Entity types to include
+   * @param limit Maximum number of names
+   * @returns Distinct entity names
+   */
+  async findNames(prefix: string, types: SearchEntityType[], limit: number): Promise<string[]> {
+    try {
+      const labels = types.filter((type) => type !== 'transcription').map((type) => SEARCH_TYPES[type].label);
+      if (labels.length === 0) {
+        return [];
+      }
+
+      const query = `
+        MATCH (n)
+        WHERE any(label IN labels(n) WHERE label IN $labels)
+          AND toLower(n.name) CONTAINS $prefix
+        RETURN DISTINCT n.name as name
+        LIMIT $limit
+      `;
+
+      return await this.dbService.readTransaction(async (tx) => {
+        const result = await tx.run(query, { labels, prefix, limit: int(limit) });
+        return result.records.map((record) => record.get('name'));
+      });
+    } catch (error) {
+      console.error('Error finding search suggestions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find indexed transcript terms by their phonetic keys
+   * @param phoneticKeys Phonetic keys
+   * @returns Terms sharing one of the keys
+   */
+  async findTranscriptTerms(phoneticKeys: string[]): Promise<TranscriptTerm[]> {
+    try {
+      const query = `
+        UNWIND $phoneticKeys AS phoneticKey
+        MATCH (tt:TranscriptTerm {phonetic_key: phoneticKey})
+        RETURN DISTINCT tt.term as term, tt.phonetic_key as phoneticKey
+      `;
+
+      return await this.dbService.readTransaction(async (tx) => {
+        const result = await tx.run(query, { phoneticKeys });
+        return result.records.map((record) => ({
+          term: record.get('term'),
+          phonetic_key: record.get('phoneticKey'),
+        }));
+      });
+    } catch (error) {
+      console.error('Error finding transcript terms:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find the transcript segments of a campaign containing every query term, each in one of its forms. Stitched
+   * session transcripts are left out, as they repeat the segments of the recordings they are made of.
+   * @param termForms Indexed forms of each query term, such as the term itself and words that sound like it
+   * @param filters Campaign, speakers and characters to search in
+   * @param limit Maximum number of segments
+   * @returns Matching segments with the forms they contain
+   */
+  async findTranscriptSegments(
+    termForms: string[][],
+    filters: TranscriptSearchFilters,
+    limit: number
+  ): Promise<TranscriptSegmentCandidate[]> {
+    try {
+      // Segments are only limited once they are known to contain every term, so common words cannot crowd them out
+      const query = `
+        UNWIND $queryTerms AS queryTerm
+        UNWIND queryTerm.forms AS form
+        MATCH (tt:TranscriptTerm {term: form})<-[:HAS_TERM]-(s:TranscriptionSegment)
+        WITH s, collect(DISTINCT queryTerm.index) as matchedQueryTerms, collect(DISTINCT tt.term) as matchedTerms
+        WHERE size(matchedQueryTerms) = size($queryTerms)
+        MATCH (s)-[:PART_OF]->(t:Transcription)
+        WHERE coalesce(t.service_used, '') <> $sessionTranscriptService
+        OPTIONAL MATCH (t)-[:TRANSCRIBES]->(r:AudioRecording)
+        OPTIONAL MATCH (r)-[:BELONGS_TO]->(rs:Session)
+        OPTIONAL MATCH (t)-[:TRANSCRIPT_OF]->(ts:Session)
+        WITH s, matchedTerms, t, r, coalesce(ts, rs) as session
+        MATCH (session)-[:PART_OF]->(c:Campaign {campaign_id: $campaignId})
+        OPTIONAL MATCH (s)-[:SPOKEN_BY]->(sp:Speaker)
+        OPTIONAL MATCH (sp)-[:REPRESENTS]->(ch:Character)
+        WITH s, matchedTerms, t, r, session, sp, ch
+        WHERE ($speakerIds IS NULL OR sp.speaker_id IN $speakerIds)
+          AND ($characterIds IS NULL OR ch.character_id IN $characterIds)
+        RETURN {
+          segmentId: s.segment_id,
+          transcriptionId: t.transcription_id,
+          recordingId: r.recording_id,
+          sessionId: session.session_id,
+          sessionName: session.name,
+          sessionNumber: session.number,
+          sessionDate: session.date,
+          startTime: s.start_time,
+          endTime: s.end_time,
+          text: s.text,
+          speakerId: sp.speaker_id,
+          speakerName: coalesce(sp.name, s.speaker_name),
+          characterId: ch.character_id,
+          characterName: ch.name,
+          matchedTerms: matchedTerms
+        } as candidate
+        LIMIT $limit
+      `;
+
+      return await this.dbService.readTransaction(async (tx) => {
+        const result = await tx.run(query, {
+          queryTerms: termForms.map((forms, index) => ({ index: int(index), forms })),
+          campaignId: filters.campaignId,
+          speakerIds: filters.speakerIds && filters.speakerIds.length > 0 ? filters.speakerIds : null,
+          characterIds: filters.characterIds && filters.characterIds.length > 0 ? filters.characterIds : null,
+          sessionTranscriptService: SESSION_TRANSCRIPT_SERVICE,
+          limit: int(limit),
+        });
+
+        return result.records.map((record) => {
+          const candidate = record.get('candidate');
+          return {
+            segmentId: candidate.segmentId,
+            transcriptionId: candidate.transcriptionId,
+            recordingId: candidate.recordingId || undefined,
+            sessionId: candidate.sessionId,
+            sessionName: candidate.sessionName || '',
+            sessionNumber: isInt(candidate.sessionNumber)
+              ? candidate.sessionNumber.toNumber()
+              : candidate.sessionNumber ?? undefined,
+            sessionDate: candidate.sessionDate || undefined,
+            startTime: candidate.startTime,
+            endTime: candidate.endTime,
+            text: candidate.text || '',
+            speakerId: candidate.speakerId || undefined,
+            speakerName: candidate.speakerName || undefined,
+            characterId: candidate.characterId || undefined,
+            characterName: candidate.characterName || undefined,
+            matchedTerms: candidate.matchedTerms,
+          };
+        });
+      });
+    } catch (error) {
+      console.error('Error finding transcript segments:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record a search for a user, keeping only the most recent ones
+   * @param userId User ID
+   * @param query Search query
+   */
+  async saveRecentSearch(userId: string, query: string): Promise<void> {
+    try {
+      await this.dbService.writeTransaction(async (tx) => {
+        await tx.run(
+          `
+          MERGE (rs:RecentSearch {user_id: $userId, query: $query})
+          SET rs.searched_at = $searchedAt
+          `,
+          { userId, query, searchedAt: new Date().toISOString() }
+        );
+
+        await tx.run(
+          `
+          MATCH (rs:RecentSearch {user_id: $userId})
+          WITH rs
+          ORDER BY rs.searched_at DESC
+          SKIP $keep
+          DELETE rs
+          `,
+          { userId, keep: int(RECENT_SEARCH_LIMIT) }
+        );
+      });
+    } catch (error) {
+      console.error('Error saving recent search:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a user's recent searches, newest first
+   * @param userId User ID
+   * @param limit Maximum number of searches
+   * @returns Search queries
+   */
+  async getRecentSearches(userId: string, limit: number): Promise<string[]> {
+    try {
+      const query = `
+        MATCH (rs:RecentSearch {user_id: $userId})
+        RETURN rs.query as query
+        ORDER BY rs.searched_at DESC
+        LIMIT $limit
+      `;
+
+      return await this.dbService.readTransaction(async (tx) => {
+        const result = await tx.run(query, { userId, limit: int(limit) });
+        return result.records.map((record) => record.get('query'));
+      });
+    } catch (error) {
+      console.error('Error getting recent searches:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove all recent searches of a user
+   * @param userId User ID
+   */
+  async clearRecentSearches(userId: string): Promise<void> {
+    try {
+      await this.dbService.writeTransaction(async (tx) => {
+        await tx.run('MATCH (rs:RecentSearch {user_id: $userId}) DELETE rs', { userId });
+      });
+    } catch (error) {
+      console.error('Error clearing recent searches:', error);
+      throw error;
+    }
+  }
+}
@@ -1,4 +1,6 @@
 import { BaseRepository } from './base.repository';
+import { TrashRepository } from './trash.repository';
+import { DatabaseService } from '../services/database.service';
 import { Session } from '../models/session.model';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -6,6 +8,17 @@ import { v4 as uuidv4 } from 'uuid';
  * Repository for Session entities
  */
 export class SessionRepository extends BaseRepository {
+  private trashRepository: TrashRepository;
+
+  /**
+   * @param dbService Database service
+   * @param trashRepository Repository that deleted sessions are moved to
+   */
+  constructor(dbService: DatabaseService, trashRepository: TrashRepository) {
+    super(dbService);
+    this.trashRepository = trashRepository;
+  }
+
   /**
    * Create a new Session
    * @param session Session to create
@@ -277,24 +290,16 @@ export class SessionRepository extends BaseRepository {
   }
 
   /**
-   * Delete Session
+   * Delete Session by moving it and its relationships to the campaign trash. Its recordings, transcriptions and
+   * analyses are kept and are linked to it again when it is restored.
    * @param sessionId Session ID
+   * @param deletedBy User ID of the user deleting the Session
    * @returns True if deleted
    */
-  async delete(sessionId: string): Promise<boolean> {
+  async delete(sessionId: string, deletedBy?: string): Promise<boolean> {
     try {
-      const query = `
-        MATCH (s:Session {session_id: $sessionId})
-        DETACH DELETE s
-        RETURN count(s) as count
-      `;
-
-      const result = await this.dbService.writeTransaction(async (tx) => {
-        const result = await tx.run(query, { sessionId });
-        return result.records[0].get('count').toNumber() > 0;
-      });
-
-      return result;
+      const entry = await this.trashRepository.moveToTrash('session', sessionId, deletedBy);
+      return entry !== null;
     } catch (error) {
       console.error('Error deleting Session:', error);
       throw error;
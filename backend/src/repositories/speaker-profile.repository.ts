@@ -0,0 +1,227 @@
+import { v4 as uuidv4 } from 'uuid';
+import { BaseRepository } from './base.repository';
+import {
+  SpeakerProfile,
+  SpeakerProfileCreationParams,
+  SpeakerProfileFeatures,
+  SpeakerProfileUpdateParams
+} from '../models/speaker-profile.model';
+
+/**
+ * Returns the profile `p` of campaign `c` with the character it represents
+ */
+const RETURN_PROFILE = `
+  OPTIONAL MATCH (p)-[:REPRESENTS]->(ch:Character)
+  RETURN p {
+    .*,
+    campaign_id: c.campaign_id,
+    character_id: ch.character_id,
+    character_name: ch.name
+  } as profile
+`;
+
+/**
+ * Repository for campaign-level speaker profiles
+ */
+export class SpeakerProfileRepository extends BaseRepository {
+  /**
+   * Find a speaker profile by ID
+   * @param profileId Profile ID
+   * @returns Speaker profile, or null if not found
+   */
+  async findById(profileId: string): Promise<SpeakerProfile | null> {
+    try {
+      return await this.dbService.readTransaction(async (tx) => {
+        const result = await tx.run(
+          `
+          MATCH (p:SpeakerProfile {profile_id: $profileId})-[:PART_OF]->(c:Campaign)
+          ${RETURN_PROFILE}
+          `,
+          { profileId }
+        );
+        return result.records.length > 0 ? this.toProfile(result.records[0].get('profile')) : null;
+      });
+    } catch (error) {
+      console.error('Error finding speaker profile:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find the speaker profiles of a campaign
+   * @param campaignId Campaign ID
+   * @returns Speaker profiles ordered by name
+   */
+  async findByCampaign(campaignId: string): Promise<SpeakerProfile[]> {
+    try {
+      return await this.dbService.readTransaction(async (tx) => {
+        const result = await tx.run(
+          `
+          MATCH (p:SpeakerProfile)-[:PART_OF]->(c:Campaign {campaign_id: $campaignId})
+          ${RETURN_PROFILE}
+          ORDER BY p.name
+          `,
+          { campaignId }
+        );
+        return result.records.map((record) => this.toProfile(record.get('profile')));
+      });
+    } catch (error) {
+      console.error('Error finding speaker profiles by campaign:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a speaker profile
+   * @param params Speaker profile creation parameters
+   * @returns Created speaker profile, or null if the campaign does not exist
+   */
+  async create(params: SpeakerProfileCreationParams): Promise<SpeakerProfile | null> {
+    try {
+      const profileId = uuidv4();
+      const now = new Date().toISOString();
+
+      const created = await this.dbService.writeTransaction(async (tx) => {
+        const result = await tx.run(
+          `
+          MATCH (c:Campaign {campaign_id: $campaignId})
+          CREATE (p:SpeakerProfile)-[:PART_OF]->(c)
+          SET p = $properties
+          RETURN p.profile_id as profileId
+          `,
+          {
+            campaignId: params.campaign_id,
+            properties: {
+              profile_id: profileId,
+              name: params.name,
+              user_id: params.user_id ?? null,
+              features: JSON.stringify(params.features),
+              speaker_ids: params.speaker_ids,
+              created_at: now,
+              updated_at: now
+            }
+          }
+        );
+        return result.records.length > 0;
+      });
+
+      if (!created) {
+        return null;
+      }
+      if (params.character_id) {
+        await this.linkCharacter(profileId, params.character_id);
+      }
+      return this.findById(profileId);
+    } catch (error) {
+      console.error('Error creating speaker profile:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a speaker profile
+   * @param profileId Profile ID
+   * @param params Speaker profile update parameters
+   * @returns Updated speaker profile, or null if not found
+   */
+  async update(profileId: string, params: SpeakerProfileUpdateParams): Promise<SpeakerProfile | null> {
+    try {
+      const properties: Record<string, any> = { updated_at: new Date().toISOString() };
+      if (params.name !== undefined) properties.name = params.name;
+      if (params.user_id !== undefined) properties.user_id = params.user_id;
+      if (params.features !== undefined) properties.features = JSON.stringify(params.features);
+      if (params.speaker_ids !== undefined) properties.speaker_ids = params.speaker_ids;
+
+      const updated = await this.dbService.writeTransaction(async (tx) => {
+        const result = await tx.run(
+          `
+          MATCH (p:SpeakerProfile {profile_id: $profileId})
+          SET p += $properties
+          RETURN p.profile_id as profileId
+          `,
+          { profileId, properties }
+        );
+        return result.records.length > 0;
+      });
+
+      if (!updated) {
+        return null;
+      }
+      if (params.character_id !== undefined) {
+        await this.linkCharacter(profileId, params.character_id);
+      }
+      return this.findById(profileId);
+    } catch (error) {
+      console.error('Error updating speaker profile:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a speaker profile
+   * @param profileId Profile ID
+   * @returns True if deleted
+   */
+  async delete(profileId: string): Promise<boolean> {
+    try {
+      return await this.dbService.writeTransaction(async (tx) => {
+        const result = await tx.run(
+          `
+          MATCH (p:SpeakerProfile {profile_id: $profileId})
+          DETACH DELETE p
+          RETURN count(p) as deleted
+          `,
+          { profileId }
+        );
+        return result.records[0].get('deleted').toNumber() > 0;
+      });
+    } catch (error) {
+      console.error('Error deleting speaker profile:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Link a speaker profile to the character it represents, replacing the previous character
+   * @param profileId Profile ID
+   * @param characterId Character ID
+   */
+  private async linkCharacter(profileId: string, characterId: string): Promise<void> {
+    await this.dbService.writeTransaction(async (tx) => {
+      await tx.run(
+        `
+        MATCH (p:SpeakerProfile {profile_id: $profileId})
+        OPTIONAL MATCH (p)-[r:REPRESENTS]->(:Character)
+        DELETE r
+        WITH p
+        MATCH (ch:Character {character_id: $characterId})
+        MERGE (p)-[:REPRESENTS]->(ch)
+        `,
+        { profileId, characterId }
+      );
+    });
+  }
+
+  /**
+   * Convert node properties to a speaker profile
+   * @param properties Node properties
+   * @returns Speaker profile
+   */
+  private toProfile(properties: Record<string, any>): SpeakerProfile {
+    const features: SpeakerProfileFeatures = properties.features
+      ? JSON.parse(properties.features)
+      : { self_references: [], track_names: [], labels: [], average_turn_seconds: 0, average_turn_words: 0, turn_count: 0 };
+    return {
+      profile_id: properties.profile_id,
+      campaign_id: properties.campaign_id,
+      name: properties.name,
+      character_id: properties.character_id || undefined,
+      character_name: properties.character_name || undefined,
+      user_id: properties.user_id || undefined,
+      features,
+      speaker_ids: properties.speaker_ids || [],
+      created_at: properties.created_at,
+      updated_at: properties.updated_at
+    };
+  }
+}
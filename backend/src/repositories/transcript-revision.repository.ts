@@ -0,0 +1,234 @@
+import { int, isInt, Transaction } from 'neo4j-driver';
+import { v4 as uuidv4 } from 'uuid';
+import { BaseRepository } from './base.repository';
+import { TranscriptRevision, TranscriptRevisionCreationParams } from '../models/transcript-revision.model';
+
+/**
+ * Repository for the revision log of segment-level transcript operations.
+ *
+ * Revisions are stored as TranscriptRevision nodes keyed by transcription ID, like entity revisions, with the
+ * segments before and after each operation as JSON.
+ */
+export class TranscriptRevisionRepository extends BaseRepository {
+  /**
+   * Record a revision with the next revision number of its transcription
+   * @param transcriptionId Transcription ID
+   * @param params Transcript revision creation parameters
+   * @param tx Transaction of the change the revision records, a transaction of its own when omitted
+   * @returns Created revision
+   */
+  async create(
+    transcriptionId: string,
+    params: TranscriptRevisionCreationParams,
+    tx?: Transaction
+  ): Promise<TranscriptRevision> {
+    try {
+      const query = `
+        OPTIONAL MATCH (existing:TranscriptRevision {transcription_id: $transcriptionId})
+        WITH count(existing) as revisionCount
+        CREATE (r:TranscriptRevision {
+          revision_id: $revisionId,
+          transcription_id: $transcriptionId,
+          revision_number: revisionCount + 1,
+          operation: $operation,
+          before: $before,
+          after: $after,
+          created_at: $createdAt,
+          created_by: $createdBy,
+          rollback_of: $rollbackOf
+        })
+        RETURN r {.*} as revision
+      `;
+
+      const record = async (tx: Transaction) => {
+        const result = await tx.run(query, {
+          revisionId: uuidv4(),
+          transcriptionId,
+          operation: params.operation,
+          before: JSON.stringify(params.before),
+          after: JSON.stringify(params.after),
+          createdAt: new Date().toISOString(),
+          createdBy: params.created_by || null,
+          rollbackOf: params.rollback_of !== undefined ? int(params.rollback_of) : null
+        });
+        return this.toRevision(result.records[0].get('revision'));
+      };
+      return tx ? await record(tx) : await this.dbService.writeTransaction(record);
+    } catch (error) {
+      console.error('Error creating transcript revision:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the revisions of a transcription, newest first
+   * @param transcriptionId Transcription ID
+   * @param page Page number
+   * @param limit Items per page
+   * @returns Revisions and total count
+   */
+  async findByTranscription(
+    transcriptionId: string,
+    page = 1,
+    limit = 20
+  ): Promise<{ revisions: TranscriptRevision[]; total: number }> {
+    try {
+      return await this.dbService.readTransaction(async (tx) => {
+        const count = await tx.run(
+          'MATCH (r:TranscriptRevision {transcription_id: $transcriptionId}) RETURN count(r) as total',
+          { transcriptionId }
+        );
+        const result = await tx.run(
+          `
+          MATCH (r:TranscriptRevision {transcription_id: $transcriptionId})
+          RETURN r {.*} as revision
+          ORDER BY r.revision_number DESC
+          SKIP $skip
+          LIMIT $limit
+          `,
+          { transcriptionId, skip: int((page - 1) * limit), limit: int(limit) }
+        );
+        return {
+          revisions: result.records.map((record) => this.toRevision(record.get('revision'))),
+          total: count.records[0].get('total').toNumber()
+        };
+      });
+    } catch (error) {
+      console.error('Error getting transcript revisions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a revision by number
+   * @param transcriptionId Transcription ID
+   * @param revisionNumber Revision number
+   * @returns Revision, or null if not found
+   */
+  async findByNumber(transcriptionId: string, revisionNumber: number): Promise<TranscriptRevision | null> {
+    try {
+      return await this.dbService.readTransaction(async (tx) => {
+        const result = await tx.run(
+          `
+          MATCH (r:TranscriptRevision {transcription_id: $transcriptionId, revision_number: $revisionNumber})
+          RETURN r {.*} as revision
+          `,
+          { transcriptionId, revisionNumber: int(revisionNumber) }
+        );
+        return result.records.length > 0 ? this.toRevision(result.records[0].get('revision')) : null;
+      });
+    } catch (error) {
+      console.error('Error getting transcript revision:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Mark a revision as rolled back
+   * @param transcriptionId Transcription ID
+   * @param revisionNumber Revision rolled back
+   * @param rolledBackBy Revision of the rollback
+   * @param tx Transaction of the rollback, a transaction of its own when omitted
+   */
+  async markRolledBack(
+    transcriptionId: string,
+    revisionNumber: number,
+    rolledBackBy: number,
+    tx?: Transaction
+  ): Promise<void> {
+    try {
+      const mark = async (tx: Transaction) => {
+        await tx.run(
+          `
+          MATCH (r:TranscriptRevision {transcription_id: $transcriptionId, revision_number: $revisionNumber})
+          SET r.rolled_back_by = $rolledBackBy
+          `,
+          { transcriptionId, revisionNumber: int(revisionNumber), rolledBackBy: int(rolledBackBy) }
+        );
+      };
+      await (tx ? mark(tx) : this.dbService.writeTransaction(mark));
+    } catch (error) {
+      console.error('Error marking transcript revision as rolled back:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get every revision of a transcription, oldest first
+   * @param transcriptionId Transcription ID
+   * @returns Revisions
+   */
+  async findAllByTranscription(transcriptionId: string): Promise<TranscriptRevision[]> {
+    try {
+      return await this.dbService.readTransaction(async (tx) => {
+        const result = await tx.run(
+          `
+          MATCH (r:TranscriptRevision {transcription_id: $transcriptionId})
+          RETURN r {.*} as revision
+          ORDER BY r.revision_number
+          `,
+          { transcriptionId }
+        );
+        return result.records.map((record) => this.toRevision(record.get('revision')));
+      });
+    } catch (error) {
+      console.error('Error getting all transcript revisions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace the segments recorded in a revision, such as to redact them
+   * @param revisionId Revision ID
+   * @param before Segments the operation replaced
+   * @param after Segments the operation produced
+   */
+  async updateSegments(
+    revisionId: string,
+    before: TranscriptRevision['before'],
+    after: TranscriptRevision['after']
+  ): Promise<void> {
+    try {
+      await this.dbService.writeTransaction(async (tx) => {
+        await tx.run(
+          `
+          MATCH (r:TranscriptRevision {revision_id: $revisionId})
+          SET r.before = $before, r.after = $after
+          `,
+          { revisionId, before: JSON.stringify(before), after: JSON.stringify(after) }
+        );
+      });
+    } catch (error) {
+      console.error('Error updating transcript revision segments:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Convert a stored revision
+   * @param revision Revision node properties
+   * @returns Revision
+   */
+  private toRevision(revision: Record<string, any>): TranscriptRevision {
+    return {
+      revision_id: revision.revision_id,
+      transcription_id: revision.transcription_id,
+      revision_number: toNumber(revision.revision_number),
+      operation: revision.operation,
+      before: JSON.parse(revision.before || '[]'),
+      after: JSON.parse(revision.after || '[]'),
+      created_at: revision.created_at,
+      created_by: revision.created_by || undefined,
+      rollback_of: revision.rollback_of !== undefined && revision.rollback_of !== null
+        ? toNumber(revision.rollback_of)
+        : undefined,
+      rolled_back_by: revision.rolled_back_by !== undefined && revision.rolled_back_by !== null
+        ? toNumber(revision.rolled_back_by)
+        : undefined
+    };
+  }
+}
+
+function toNumber(value: any): number {
+  return isInt(value) ? value.toNumber() : Number(value);
+}
@@ -0,0 +1,162 @@
+import { int, isInt } from 'neo4j-driver';
+import { BaseRepository } from './base.repository';
+import { TranscriptionQualityScore } from '../models/transcription-quality.model';
+
+/**
+ * Repository for the quality scores of transcriptions.
+ *
+ * Each transcription has at most one score, stored as a TranscriptionQualityScore node that SCORES it and is
+ * replaced whenever the transcription is scored again.
+ */
+export class TranscriptionQualityRepository extends BaseRepository {
+  /**
+   * Save the score of a transcription, replacing its previous score
+   * @param score Quality score
+   * @returns Saved score, or null if the transcription does not exist
+   */
+  async upsert(score: TranscriptionQualityScore): Promise<TranscriptionQualityScore | null> {
+    try {
+      return await this.dbService.writeTransaction(async (tx) => {
+        const result = await tx.run(
+          `
+          MATCH (t:Transcription {transcription_id: $transcriptionId})
+          MERGE (q:TranscriptionQualityScore {transcription_id: $transcriptionId})
+          SET q = $properties
+          MERGE (q)-[:SCORES]->(t)
+          RETURN q {.*} as score
+          `,
+          {
+            transcriptionId: score.transcription_id,
+            properties: {
+              transcription_id: score.transcription_id,
+              session_id: score.session_id,
+              recording_id: score.recording_id ?? null,
+              service: score.service,
+              provider: score.provider,
+              model: score.model,
+              noise_reduction_level: score.noise_reduction_level ?? null,
+              reference_words: int(score.reference_words),
+              hypothesis_words: int(score.hypothesis_words),
+              substitutions: int(score.substitutions),
+              deletions: int(score.deletions),
+              insertions: int(score.insertions),
+              attributed_words: int(score.attributed_words),
+              correctly_attributed_words: int(score.correctly_attributed_words),
+              word_error_rate: score.word_error_rate,
+              speaker_accuracy: score.speaker_accuracy ?? null,
+              revision_count: int(score.revision_count),
+              scored_at: score.scored_at
+            }
+          }
+        );
+        return result.records.length > 0 ? this.toScore(result.records[0].get('score')) : null;
+      });
+    } catch (error) {
+      console.error('Error saving transcription quality score:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find the score of a transcription
+   * @param transcriptionId Transcription ID
+   * @returns Quality score, or null if the transcription has not been scored
+   */
+  async findByTranscription(transcriptionId: string): Promise<TranscriptionQualityScore | null> {
+    try {
+      return await this.dbService.readTransaction(async (tx) => {
+        const result = await tx.run(
+          `
+          MATCH (q:TranscriptionQualityScore {transcription_id: $transcriptionId})-[:SCORES]->(:Transcription)
+          RETURN q {.*} as score
+          `,
+          { transcriptionId }
+        );
+        return result.records.length > 0 ? this.toScore(result.records[0].get('score')) : null;
+      });
+    } catch (error) {
+      console.error('Error finding transcription quality score:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find the scores of every transcription that still exists
+   * @returns Quality scores, oldest first
+   */
+  async findAll(): Promise<TranscriptionQualityScore[]> {
+    try {
+      return await this.dbService.readTransaction(async (tx) => {
+        const result = await tx.run(
+          `
+          MATCH (q:TranscriptionQualityScore)-[:SCORES]->(:Transcription)
+          RETURN q {.*} as score
+          ORDER BY q.scored_at
+          `
+        );
+        return result.records.map((record) => this.toScore(record.get('score')));
+      });
+    } catch (error) {
+      console.error('Error finding transcription quality scores:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete the score of a transcription
+   * @param transcriptionId Transcription ID
+   * @returns True if deleted
+   */
+  async deleteByTranscription(transcriptionId: string): Promise<boolean> {
+    try {
+      return await this.dbService.writeTransaction(async (tx) => {
+        const result = await tx.run(
+          `
+          MATCH (q:TranscriptionQualityScore {transcription_id: $transcriptionId})
+          DETACH DELETE q
+          RETURN count(q) as deleted
+          `,
+          { transcriptionId }
+        );
+        return toNumber(result.records[0].get('deleted')) > 0;
+      });
+    } catch (error) {
+      console.error('Error deleting transcription quality score:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Convert node properties to a quality score
+   * @param properties Node properties
+   * @returns Quality score
+   */
+  private toScore(properties: Record<string, any>): TranscriptionQualityScore {
+    return {
+      transcription_id: properties.transcription_id,
+      session_id: properties.session_id,
+      recording_id: properties.recording_id || undefined,
+      service: properties.service,
+      provider: properties.provider,
+      model: properties.model,
+      noise_reduction_level: properties.noise_reduction_level || undefined,
+      reference_words: toNumber(properties.reference_words),
+      hypothesis_words: toNumber(properties.hypothesis_words),
+      substitutions: toNumber(properties.substitutions),
+      deletions: toNumber(properties.deletions),
+      insertions: toNumber(properties.insertions),
+      attributed_words: toNumber(properties.attributed_words),
+      correctly_attributed_words: toNumber(properties.correctly_attributed_words),
+      word_error_rate: toNumber(properties.word_error_rate),
+      speaker_accuracy: properties.speaker_accuracy !== undefined && properties.speaker_accuracy !== null
+        ? toNumber(properties.speaker_accuracy)
+        : undefined,
+      revision_count: toNumber(properties.revision_count),
+      scored_at: properties.scored_at
+    };
+  }
+}
+
+function toNumber(value: any): number {
+  return isInt(value) ? value.toNumber() : Number(value);
+}
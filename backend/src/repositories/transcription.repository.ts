@@ -1,7 +1,30 @@
+import { Transaction } from 'neo4j-driver';
 import { BaseRepository } from './base.repository';
 import { DatabaseService } from '../services/database.service';
-import { Transcription, TranscriptionCreationParams, TranscriptionSegment, TranscriptionUpdateParams, SpeakerIdentification, SpeakerIdentificationUpdateParams } from '../models/transcription.model';
+import { SESSION_TRANSCRIPT_SERVICE, Transcription, TranscriptionCreationParams, TranscriptImportParams, TranscriptionSegment, TranscriptionUpdateParams, TranscriptionWord, SpeakerIdentification, SpeakerIdentificationUpdateParams } from '../models/transcription.model';
 import { v4 as uuidv4 } from 'uuid';
+import { indexTerms } from '../utils/transcript-search';
+
+/**
+ * Matches the session of a transcription `t`. Imported transcriptions are linked to their session directly and
+ * may have no recording; older transcriptions are only linked through their recording.
+ */
+const SESSION_OF_TRANSCRIPTION = `
+  OPTIONAL MATCH (t)-[:TRANSCRIBES]->(r:AudioRecording)
+  OPTIONAL MATCH (r)-[:BELONGS_TO]->(rs:Session)
+  OPTIONAL MATCH (t)-[:TRANSCRIPT_OF]->(ts:Session)
+`;
+
+/**
+ * Links a segment to the search terms of its text, given as `$segmentId` and `$terms`
+ */
+const INDEX_SEGMENT_TERMS = `
+  MATCH (s:TranscriptionSegment {segment_id: $segmentId})
+  UNWIND $terms AS term
+  MERGE (tt:TranscriptTerm {term: term.term})
+  SET tt.phonetic_key = term.phonetic_key
+  MERGE (s)-[:HAS_TERM]->(tt)
+`;
 
 /**
  * Repository for managing transcriptions
@@ -19,12 +42,13 @@ export class TranscriptionRepository extends BaseRepository {
   public async findById(transcriptionId: string): Promise<Transcription | null> {
     try {
       const query = `
-        MATCH (t:Transcription {transcription_id: $transcriptionId})-[:TRANSCRIBES]->(r:AudioRecording)-[:BELONGS_TO]->(s:Session)
+        MATCH (t:Transcription {transcription_id: $transcriptionId})
+        ${SESSION_OF_TRANSCRIPTION}
         RETURN t {
           .*,
           transcription_id: t.transcription_id,
           recording_id: r.recording_id,
-          session_id: s.session_id
+          session_id: coalesce(ts.session_id, rs.session_id)
         } as transcription
       `;
 
@@ -38,38 +62,11 @@ export class TranscriptionRepository extends BaseRepository {
       }
 
       // Get segments
-      const segmentsQuery = `
-        MATCH (s:TranscriptionSegment)-[:PART_OF]->(t:Transcription {transcription_id: $transcriptionId})
-        OPTIONAL MATCH (s)-[:SPOKEN_BY]->(sp:Speaker)
-        RETURN s {
-          .*,
-          segment_id: s.segment_id,
-          speaker_id: sp.speaker_id,
-          speaker_name: sp.name
-        } as segment
-        ORDER BY s.start_time
-      `;
-
-      const segments = await this.dbService.readTransaction(async (tx) => {
-        const result = await tx.run(segmentsQuery, { transcriptionId });
-        return result.records.map(record => {
-          const segment = record.get('segment');
-          return {
-            segment_id: segment.segment_id,
-            start_time: segment.start_time,
-            end_time: segment.end_time,
-            text: segment.text,
-            speaker_id: segment.speaker_id,
-            speaker_name: segment.speaker_name,
-            confidence_score: segment.confidence_score,
-            words: segment.words
-          } as TranscriptionSegment;
-        });
-      });
+      const segments = await this.dbService.readTransaction(async (tx) => this.readSegments(tx, transcriptionId));
 
       return {
         transcription_id: result.transcription_id,
-        recording_id: result.recording_id,
+        recording_id: result.recording_id || '', // Imported transcriptions may have no recording
         session_id: result.session_id,
         full_text: result.full_text,
         segments: segments,
@@ -123,7 +120,7 @@ export class TranscriptionRepository extends BaseRepository {
           .*,
           segment_id: s.segment_id,
           speaker_id: sp.speaker_id,
-          speaker_name: sp.name
+          speaker_name: coalesce(sp.name, s.speaker_name)
         } as segment
         ORDER BY s.start_time
       `;
@@ -140,7 +137,13 @@ export class TranscriptionRepository extends BaseRepository {
             speaker_id: segment.speaker_id,
             speaker_name: segment.speaker_name,
             confidence_score: segment.confidence_score,
-            words: segment.words
+            words: this.parseWords(segment.words),
+            category: segment.category || undefined,
+            category_confidence: segment.category_confidence ?? undefined,
+            category_set_by: segment.category_set_by || undefined,
+            language_code: segment.language_code || undefined,
+            translated_text: segment.translated_text || undefined,
+            translation_language_code: segment.translation_language_code || undefined
           } as TranscriptionSegment;
         });
       });
@@ -167,6 +170,30 @@ export class TranscriptionRepository extends BaseRepository {
     }
   }
 
+  /**
+   * Find the session transcript of a session
+   * @param sessionId Session ID
+   * @returns Session transcript, or null if the transcriptions of the session have not been stitched
+   */
+  public async findSessionTranscript(sessionId: string): Promise<Transcription | null> {
+    try {
+      const query = `
+        MATCH (t:Transcription {service_used: $serviceUsed})-[:TRANSCRIPT_OF]->(s:Session {session_id: $sessionId})
+        RETURN t.transcription_id as transcriptionId
+      `;
+
+      const transcriptionId = await this.dbService.readTransaction(async (tx) => {
+        const result = await tx.run(query, { sessionId, serviceUsed: SESSION_TRANSCRIPT_SERVICE });
+        return result.records.length > 0 ? result.records[0].get('transcriptionId') : null;
+      });
+
+      return transcriptionId ? this.findById(transcriptionId) : null;
+    } catch (error) {
+      console.error('Error finding session transcript:', error);
+      throw error;
+    }
+  }
+
   /**
    * Create transcription
    * @param params Transcription creation parameters
@@ -192,6 +219,7 @@ export class TranscriptionRepository extends BaseRepository {
           updated_at: $createdAt,
           metadata: $metadata
         })-[:TRANSCRIBES]->(r)
+        CREATE (t)-[:TRANSCRIPT_OF]->(s)
         RETURN t {
           .*,
           transcription_id: t.transcription_id,
@@ -253,6 +281,56 @@ export class TranscriptionRepository extends BaseRepository {
     }
   }
 
+  /**
+   * Create an imported transcription, linked to its session and, if given, to its recording
+   * @param params Transcript import parameters
+   * @param serviceUsed Source of the transcript
+   * @returns Created transcription, or null if the session or the recording in that session does not exist
+   */
+  public async createImported(params: TranscriptImportParams, serviceUsed: string): Promise<Transcription | null> {
+    try {
+      const transcriptionId = uuidv4();
+      const now = new Date().toISOString();
+
+      const query = `
+        MATCH (s:Session {session_id: $sessionId})
+        ${params.recording_id ? 'MATCH (r:AudioRecording {recording_id: $recordingId})-[:BELONGS_TO]->(s)' : ''}
+        CREATE (t:Transcription {
+          transcription_id: $transcriptionId,
+          full_text: "",
+          language_code: $languageCode,
+          confidence_score: 0,
+          word_count: 0,
+          processing_time_seconds: 0,
+          service_used: $serviceUsed,
+          created_at: $createdAt,
+          updated_at: $createdAt,
+          created_by: $createdBy
+        })-[:TRANSCRIPT_OF]->(s)
+        ${params.recording_id ? 'CREATE (t)-[:TRANSCRIBES]->(r) SET r.transcription_id = $transcriptionId' : ''}
+        RETURN t.transcription_id as transcriptionId
+      `;
+
+      const created = await this.dbService.writeTransaction(async (tx) => {
+        const result = await tx.run(query, {
+          transcriptionId,
+          sessionId: params.session_id,
+          recordingId: params.recording_id ?? null,
+          languageCode: params.language_code || 'en',
+          serviceUsed,
+          createdAt: now,
+          createdBy: params.created_by ?? null
+        });
+        return result.records.length > 0;
+      });
+
+      return created ? this.findById(transcriptionId) : null;
+    } catch (error) {
+      console.error('Error creating imported transcription:', error);
+      throw error;
+    }
+  }
+
   /**
    * Update transcription
    * @param transcriptionId Transcription ID
@@ -290,13 +368,15 @@ export class TranscriptionRepository extends BaseRepository {
       }
 
       const query = `
-        MATCH (t:Transcription {transcription_id: $transcriptionId})-[:TRANSCRIBES]->(r:AudioRecording)-[:BELONGS_TO]->(s:Session)
+        MATCH (t:Transcription {transcription_id: $transcriptionId})
         SET ${setClause}
+        WITH t
+        ${SESSION_OF_TRANSCRIPTION}
         RETURN t {
           .*,
           transcription_id: t.transcription_id,
           recording_id: r.recording_id,
-          session_id: s.session_id
+          session_id: coalesce(ts.session_id, rs.session_id)
         } as transcription
       `;
 
@@ -324,49 +404,9 @@ export class TranscriptionRepository extends BaseRepository {
 
         // Then create new segments
         for (const segment of params.segments) {
-          const segmentId = segment.segment_id || uuidv4();
-
-          // Create segment
-          const createSegmentQuery = `
-            MATCH (t:Transcription {transcription_id: $transcriptionId})
-            CREATE (s:TranscriptionSegment {
-              segment_id: $segmentId,
-              start_time: $startTime,
-              end_time: $endTime,
-              text: $text,
-              confidence_score: $confidenceScore,
-              words: $words
-            })-[:PART_OF]->(t)
-            RETURN s.segment_id
-          `;
-
           await this.dbService.writeTransaction(async (tx) => {
-            await tx.run(createSegmentQuery, {
-              transcriptionId,
-              segmentId,
-              startTime: segment.start_time,
-              endTime: segment.end_time,
-              text: segment.text,
-              confidenceScore: segment.confidence_score,
-              words: segment.words || []
-            });
+            await this.createSegment(tx, transcriptionId, segment);
           });
-
-          // If speaker information is provided, create or link to speaker
-          if (segment.speaker_id) {
-            const linkSpeakerQuery = `
-              MATCH (s:TranscriptionSegment {segment_id: $segmentId})
-              MATCH (sp:Speaker {speaker_id: $speakerId})
-              MERGE (s)-[:SPOKEN_BY]->(sp)
-            `;
-
-            await this.dbService.writeTransaction(async (tx) => {
-              await tx.run(linkSpeakerQuery, {
-                segmentId,
-                speakerId: segment.speaker_id
-              });
-            });
-          }
         }
 
         // Update word count
@@ -395,6 +435,183 @@ export class TranscriptionRepository extends BaseRepository {
     }
   }
 
+  /**
+   * Replace some segments of a transcription in one transaction, leaving the other segments as they are, and update
+   * the full text and word count
+   * @param transcriptionId Transcription ID
+   * @param removedSegmentIds Segments to delete
+   * @param segments Segments to create; a segment given the ID of a removed segment takes its place
+   * @param options.expected Segments as the caller read them; nothing is replaced if one has changed or is gone since
+   * @param options.onReplaced Further work of the same transaction, given the created segments as saved
+   * @returns Updated transcription, or null if an expected segment has changed
+   */
+  public async replaceSegments(
+    transcriptionId: string,
+    removedSegmentIds: string[],
+    segments: TranscriptionSegment[],
+    options: {
+      expected?: TranscriptionSegment[];
+      onReplaced?: (tx: Transaction, saved: TranscriptionSegment[]) => Promise<void>;
+    } = {}
+  ): Promise<Transcription | null> {
+    try {
+      const replaced = await this.dbService.writeTransaction(async (tx) => {
+        const existing = await tx.run(
+          'MATCH (t:Transcription {transcription_id: $transcriptionId}) RETURN t.transcription_id as transcriptionId',
+          { transcriptionId }
+        );
+        if (existing.records.length === 0) {
+          throw new Error('Transcription not found');
+        }
+
+        if (options.expected) {
+          const current = new Map(
+            (await this.readSegments(tx, transcriptionId, options.expected.map((segment) => segment.segment_id))).map(
+              (segment) => [segment.segment_id, segment]
+            )
+          );
+          const unchanged = options.expected.every((expected) => {
+            const segment = current.get(expected.segment_id);
+            return (
+              segment !== undefined &&
+              segment.text === expected.text &&
+              segment.start_time === expected.start_time &&
+              segment.end_time === expected.end_time &&
+              (segment.speaker_id || null) === (expected.speaker_id || null)
+            );
+          });
+          if (!unchanged) {
+            return false;
+          }
+        }
+
+        await tx.run(
+          `
+          MATCH (s:TranscriptionSegment)-[:PART_OF]->(t:Transcription {transcription_id: $transcriptionId})
+          WHERE s.segment_id IN $segmentIds
+          DETACH DELETE s
+          `,
+          { transcriptionId, segmentIds: removedSegmentIds }
+        );
+        for (const segment of segments) {
+          await this.createSegment(tx, transcriptionId, segment);
+        }
+
+        const texts = await tx.run(
+          `
+          MATCH (s:TranscriptionSegment)-[:PART_OF]->(t:Transcription {transcription_id: $transcriptionId})
+          RETURN s.text as text
+          ORDER BY s.start_time
+          `,
+          { transcriptionId }
+        );
+        const fullText = texts.records.map((record) => record.get('text') as string).join(' ');
+        await tx.run(
+          `
+          MATCH (t:Transcription {transcription_id: $transcriptionId})
+          SET t.full_text = $fullText, t.word_count = $wordCount, t.updated_at = $updatedAt
+          `,
+          {
+            transcriptionId,
+            fullText,
+            wordCount: fullText.split(/\s+/).filter(Boolean).length,
+            updatedAt: new Date().toISOString()
+          }
+        );
+
+        if (options.onReplaced) {
+          // Hand over the segments as saved, with the names of their speakers
+          const saved = new Map(
+            (await this.readSegments(tx, transcriptionId, segments.map((segment) => segment.segment_id))).map(
+              (segment) => [segment.segment_id, segment]
+            )
+          );
+          await options.onReplaced(tx, segments.map((segment) => saved.get(segment.segment_id) || segment));
+        }
+        return true;
+      });
+
+      return replaced ? await this.findById(transcriptionId) : null;
+    } catch (error) {
+      console.error('Error replacing transcription segments:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Set the categories of segments of a transcription, leaving their text and timing as they are
+   * @param transcriptionId Transcription ID
+   * @param segments Segments with their new category
+   */
+  public async updateSegmentCategories(
+    transcriptionId: string,
+    segments: Pick<TranscriptionSegment, 'segment_id' | 'category' | 'category_confidence' | 'category_set_by'>[]
+  ): Promise<void> {
+    try {
+      await this.dbService.writeTransaction(async (tx) => {
+        for (const segment of segments) {
+          await tx.run(
+            `
+            MATCH (s:TranscriptionSegment {segment_id: $segmentId})-[:PART_OF]->(t:Transcription {transcription_id: $transcriptionId})
+            SET s.category = $category, s.category_confidence = $categoryConfidence, s.category_set_by = $categorySetBy
+            `,
+            {
+              transcriptionId,
+              segmentId: segment.segment_id,
+              category: segment.category ?? null,
+              categoryConfidence: segment.category_confidence ?? null,
+              categorySetBy: segment.category_set_by ?? null
+            }
+          );
+        }
+      });
+    } catch (error) {
+      console.error('Error updating segment categories:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Set the translations of segments of a transcription, leaving their original text as it is. A segment whose text
+   * is no longer the text that was translated, because it was edited or redacted meanwhile, is left alone.
+   * @param transcriptionId Transcription ID
+   * @param segments Segments with the text that was translated and their new translation; an unset translation
+   * clears the stored one
+   * @returns IDs of the segments updated
+   */
+  public async updateSegmentTranslations(
+    transcriptionId: string,
+    segments: Pick<TranscriptionSegment, 'segment_id' | 'text' | 'translated_text' | 'translation_language_code'>[]
+  ): Promise<string[]> {
+    try {
+      return await this.dbService.writeTransaction(async (tx) => {
+        const updated: string[] = [];
+        for (const segment of segments) {
+          const result = await tx.run(
+            `
+            MATCH (s:TranscriptionSegment {segment_id: $segmentId})-[:PART_OF]->(t:Transcription {transcription_id: $transcriptionId})
+            WHERE s.text = $sourceText
+            SET s.translated_text = $translatedText, s.translation_language_code = $translationLanguageCode
+            RETURN s.segment_id as segmentId
+            `,
+            {
+              transcriptionId,
+              segmentId: segment.segment_id,
+              sourceText: segment.text,
+              translatedText: segment.translated_text ?? null,
+              translationLanguageCode: segment.translation_language_code ?? null
+            }
+          );
+          updated.push(...result.records.map((record) => record.get('segmentId') as string));
+        }
+        return updated;
+      });
+    } catch (error) {
+      console.error('Error updating segment translations:', error);
+      throw error;
+    }
+  }
+
   /**
    * Delete transcription
    * @param transcriptionId Transcription ID
@@ -454,6 +671,23 @@ export class TranscriptionRepository extends BaseRepository {
     }
   }
 
+  /**
+   * Whether a speaker exists
+   * @param speakerId Speaker ID
+   * @returns True if the speaker exists
+   */
+  public async speakerExists(speakerId: string): Promise<boolean> {
+    try {
+      return await this.dbService.readTransaction(async (tx) => {
+        const result = await tx.run('MATCH (sp:Speaker {speaker_id: $speakerId}) RETURN sp.speaker_id', { speakerId });
+        return result.records.length > 0;
+      });
+    } catch (error) {
+      console.error('Error checking speaker:', error);
+      throw error;
+    }
+  }
+
   /**
    * Create or update speaker
    * @param speakerId Speaker ID (optional, will be generated if not provided)
@@ -720,10 +954,13 @@ export class TranscriptionRepository extends BaseRepository {
   public async getSpeakersForSession(sessionId: string): Promise<SpeakerIdentification[]> {
     try {
       const query = `
-        MATCH (s:Speaker)-[:SPOKEN_BY]-(seg:TranscriptionSegment)-[:PART_OF]->(t:Transcription)-[:TRANSCRIBES]->(r:AudioRecording)-[:BELONGS_TO]->(ses:Session {session_id: $sessionId})
+        MATCH (s:Speaker)-[:SPOKEN_BY]-(seg:TranscriptionSegment)-[:PART_OF]->(t:Transcription)
+        ${SESSION_OF_TRANSCRIPTION}
+        WITH DISTINCT s, coalesce(ts.session_id, rs.session_id) as sessionId
+        WHERE sessionId = $sessionId
         OPTIONAL MATCH (s)-[:REPRESENTS]->(c:Character)
         OPTIONAL MATCH (s)-[:IS_USER]->(u:User)
-        RETURN DISTINCT s.speaker_id as speakerId, s.name as speakerName, c.character_id as characterId, u.user_id as userId
+        RETURN DISTINCT s.speaker_id as speakerId, s.name as speakerName, c.character_id as characterId, c.name as characterName, u.user_id as userId
       `;
 
       const results = await this.dbService.readTransaction(async (tx) => {
@@ -733,6 +970,7 @@ export class TranscriptionRepository extends BaseRepository {
             speaker_id: record.get('speakerId'),
             speaker_name: record.get('speakerName'),
             character_id: record.get('characterId'),
+            character_name: record.get('characterName'),
             user_id: record.get('userId'),
             confidence_score: 1.0
           } as SpeakerIdentification;
@@ -745,4 +983,182 @@ export class TranscriptionRepository extends BaseRepository {
       throw error;
     }
   }
+
+  /**
+   * Find the transcriptions a speaker is heard in
+   * @param speakerId Speaker ID
+   * @returns Transcription IDs
+   */
+  public async findTranscriptionIdsBySpeaker(speakerId: string): Promise<string[]> {
+    try {
+      const query = `
+        MATCH (sp:Speaker {speaker_id: $speakerId})<-[:SPOKEN_BY]-(seg:TranscriptionSegment)-[:PART_OF]->(t:Transcription)
+        RETURN DISTINCT t.transcription_id as transcriptionId
+      `;
+
+      return await this.dbService.readTransaction(async (tx) => {
+        const result = await tx.run(query, { speakerId });
+        return result.records.map(record => record.get('transcriptionId'));
+      });
+    } catch (error) {
+      console.error('Error finding transcriptions by speaker:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find the transcriptions of the sessions of a campaign, including the session transcripts
+   * @param campaignId Campaign ID
+   * @returns Transcription IDs
+   */
+  public async findTranscriptionIdsByCampaign(campaignId: string): Promise<string[]> {
+    try {
+      return await this.dbService.readTransaction(async (tx) => {
+        const recorded = await tx.run(
+          `
+          MATCH (t:Transcription)-[:TRANSCRIBES]->(:AudioRecording)-[:BELONGS_TO]->(:Session)-[:PART_OF]->(:Campaign {campaign_id: $campaignId})
+          RETURN DISTINCT t.transcription_id as transcriptionId
+          `,
+          { campaignId }
+        );
+        const imported = await tx.run(
+          `
+          MATCH (t:Transcription)-[:TRANSCRIPT_OF]->(:Session)-[:PART_OF]->(:Campaign {campaign_id: $campaignId})
+          RETURN DISTINCT t.transcription_id as transcriptionId
+          `,
+          { campaignId }
+        );
+        return Array.from(
+          new Set([...recorded.records, ...imported.records].map(record => record.get('transcriptionId') as string))
+        );
+      });
+    } catch (error) {
+      console.error('Error finding transcriptions by campaign:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Read the segments of a transcription in a transaction
+   * @param tx Transaction
+   * @param transcriptionId Transcription ID
+   * @param segmentIds Segments to read, all of them when omitted
+   * @returns Segments in time order
+   */
+  private async readSegments(tx: Transaction, transcriptionId: string, segmentIds?: string[]): Promise<TranscriptionSegment[]> {
+    const result = await tx.run(
+      `
+      MATCH (s:TranscriptionSegment)-[:PART_OF]->(t:Transcription {transcription_id: $transcriptionId})
+      WHERE $segmentIds IS NULL OR s.segment_id IN $segmentIds
+      OPTIONAL MATCH (s)-[:SPOKEN_BY]->(sp:Speaker)
+      RETURN s {
+        .*,
+        segment_id: s.segment_id,
+        speaker_id: sp.speaker_id,
+        speaker_name: coalesce(sp.name, s.speaker_name)
+      } as segment
+      ORDER BY s.start_time
+      `,
+      { transcriptionId, segmentIds: segmentIds ?? null }
+    );
+    return result.records.map(record => {
+      const segment = record.get('segment');
+      return {
+        segment_id: segment.segment_id,
+        start_time: segment.start_time,
+        end_time: segment.end_time,
+        text: segment.text,
+        speaker_id: segment.speaker_id,
+        speaker_name: segment.speaker_name,
+        confidence_score: segment.confidence_score,
+        words: this.parseWords(segment.words),
+        category: segment.category || undefined,
+        category_confidence: segment.category_confidence ?? undefined,
+        category_set_by: segment.category_set_by || undefined,
+        language_code: segment.language_code || undefined,
+        translated_text: segment.translated_text || undefined,
+        translation_language_code: segment.translation_language_code || undefined
+      } as TranscriptionSegment;
+    });
+  }
+
+  /**
+   * Parse the stored words of a segment
+   * @param words Words as stored on the segment node
+   * @returns Words
+   */
+  private parseWords(words: unknown): TranscriptionWord[] {
+    if (typeof words === 'string') {
+      return JSON.parse(words);
+    }
+    return Array.isArray(words) ? words : [];
+  }
+
+  /**
+   * Create a segment of a transcription, linked to its speaker
+   * @param tx Transaction
+   * @param transcriptionId Transcription ID
+   * @param segment Segment; given an ID when it has none
+   */
+  private async createSegment(tx: Transaction, transcriptionId: string, segment: TranscriptionSegment): Promise<void> {
+    const segmentId = segment.segment_id || uuidv4();
+
+    await tx.run(
+      `
+      MATCH (t:Transcription {transcription_id: $transcriptionId})
+      CREATE (s:TranscriptionSegment {
+        segment_id: $segmentId,
+        start_time: $startTime,
+        end_time: $endTime,
+        text: $text,
+        confidence_score: $confidenceScore,
+        speaker_name: $speakerName,
+        words: $words,
+        category: $category,
+        category_confidence: $categoryConfidence,
+        category_set_by: $categorySetBy,
+        language_code: $languageCode,
+        translated_text: $translatedText,
+        translation_language_code: $translationLanguageCode
+      })-[:PART_OF]->(t)
+      RETURN s.segment_id
+      `,
+      {
+        transcriptionId,
+        segmentId,
+        startTime: segment.start_time,
+        endTime: segment.end_time,
+        text: segment.text,
+        confidenceScore: segment.confidence_score,
+        // Label given by the transcription provider until the speaker is identified
+        speakerName: segment.speaker_name ?? null,
+        // Stored as JSON because graph properties cannot hold maps
+        words: JSON.stringify(segment.words || []),
+        category: segment.category ?? null,
+        categoryConfidence: segment.category_confidence ?? null,
+        categorySetBy: segment.category_set_by ?? null,
+        languageCode: segment.language_code ?? null,
+        translatedText: segment.translated_text ?? null,
+        translationLanguageCode: segment.translation_language_code ?? null
+      }
+    );
+
+    // Index the terms of the text for transcript search
+    await tx.run(INDEX_SEGMENT_TERMS, { segmentId, terms: indexTerms(segment.text) });
+
+    // If speaker information is provided, link to the speaker
+    if (segment.speaker_id) {
+      await tx.run(
+        `
+        MATCH (s:TranscriptionSegment {segment_id: $segmentId})
+        MATCH (sp:Speaker {speaker_id: $speakerId})
+        MERGE (s)-[:SPOKEN_BY]->(sp)
+        `,
+        {
+          segmentId,
+          speakerId: segment.speaker_id
+        }
+      );
+    }
+  }
 }
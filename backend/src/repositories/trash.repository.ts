@@ -0,0 +1,404 @@
+import { int, Transaction } from 'neo4j-driver';
+import { v4 as uuidv4 } from 'uuid';
+import { BaseRepository } from './base.repository';
+import {
+  TrashedNodeRef,
+  TrashedRelationship,
+  TrashEntityType,
+  TrashEntry,
+  TrashRestoreResult
+} from '../models/trash.model';
+import { identifyNode, isSafeIdentifier } from '../utils/graph-keys';
+
+/**
+ * Label, ID property and campaign relationship of each entity type that is moved to the trash
+ */
+const TRASH_ENTITIES: Record<TrashEntityType, { label: string; idField: string; campaignRelationship: string }> = {
+  character: { label: 'Character', idField: 'character_id', campaignRelationship: 'BELONGS_TO' },
+  location: { label: 'Location', idField: 'location_id', campaignRelationship: 'BELONGS_TO' },
+  item: { label: 'Item', idField: 'item_id', campaignRelationship: 'BELONGS_TO' },
+  power: { label: 'Power', idField: 'power_id', campaignRelationship: 'BELONGS_TO' },
+  event: { label: 'Event', idField: 'event_id', campaignRelationship: 'BELONGS_TO' },
+  session: { label: 'Session', idField: 'session_id', campaignRelationship: 'PART_OF' }
+};
+
+/**
+ * Repository for the campaign trash.
+ *
+ * Deleting an entity stores its properties and the relationships it took part in on a TrashEntry node and then
+ * removes the entity. Restoring recreates the entity and every relationship whose other end still exists.
+ */
+export class TrashRepository extends BaseRepository {
+  /**
+   * Move an entity and its relationships to the trash
+   * @param entityType Entity type
+   * @param entityId Entity ID
+   * @param deletedBy User ID of the user deleting the entity
+   * @returns Trash entry, or null if the entity does not exist
+   */
+  async moveToTrash(entityType: TrashEntityType, entityId: string, deletedBy?: string): Promise<TrashEntry | null> {
+    try {
+      const { label, idField, campaignRelationship } = TRASH_ENTITIES[entityType];
+
+      return await this.dbService.writeTransaction(async (tx) => {
+        const nodeResult = await tx.run(
+          `
+          MATCH (n:${label} {${idField}: $entityId})
+          OPTIONAL MATCH (n)-[:${campaignRelationship}]->(c:Campaign)
+          RETURN properties(n) as properties, coalesce(c.campaign_id, n.campaign_id) as campaignId
+          `,
+          { entityId }
+        );
+        if (nodeResult.records.length === 0) {
+          return null;
+        }
+
+        const properties = nodeResult.records[0].get('properties');
+        const campaignId = nodeResult.records[0].get('campaignId');
+        const relationships = [
+          ...(await this.readRelationships(tx, label, idField, entityId, 'outgoing')),
+          ...(await this.readRelationships(tx, label, idField, entityId, 'incoming'))
+        ];
+
+        const entry: TrashEntry = {
+          trash_id: uuidv4(),
+          entity_type: entityType,
+          entity_id: entityId,
+          campaign_id: campaignId || undefined,
+          name: properties.name || undefined,
+          properties,
+          relationships,
+          deleted_at: new Date().toISOString(),
+          deleted_by: deletedBy
+        };
+
+        await tx.run(
+          `
+          CREATE (:TrashEntry {
+            trash_id: $trashId,
+            entity_type: $entityType,
+            entity_id: $entityId,
+            campaign_id: $campaignId,
+            name: $name,
+            properties: $properties,
+            relationships: $relationships,
+            deleted_at: $deletedAt,
+            deleted_by: $deletedBy
+          })
+          `,
+          {
+            trashId: entry.trash_id,
+            entityType,
+            entityId,
+            campaignId: entry.campaign_id || null,
+            name: entry.name || null,
+            properties: JSON.stringify(properties),
+            relationships: JSON.stringify(relationships),
+            deletedAt: entry.deleted_at,
+            deletedBy: deletedBy || null
+          }
+        );
+        await tx.run(`MATCH (n:${label} {${idField}: $entityId}) DETACH DELETE n`, { entityId });
+
+        return entry;
+      });
+    } catch (error) {
+      console.error('Error moving entity to trash:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the trash of a campaign, most recently deleted first
+   * @param campaignId Campaign ID
+   * @param page Page number
+   * @param limit Items per page
+   * @param entityType Optional entity type filter
+   * @returns Trash entries and total count
+   */
+  async findByCampaign(
+    campaignId: string,
+    page = 1,
+    limit = 20,
+    entityType?: TrashEntityType
+  ): Promise<{ entries: TrashEntry[]; total: number }> {
+    try {
+      const where = entityType ? 'WHERE t.entity_type = $entityType' : '';
+
+      return await this.dbService.readTransaction(async (tx) => {
+        const countResult = await tx.run(
+          `MATCH (t:TrashEntry {campaign_id: $campaignId}) ${where} RETURN count(t) as total`,
+          { campaignId, entityType: entityType || null }
+        );
+        const result = await tx.run(
+          `
+          MATCH (t:TrashEntry {campaign_id: $campaignId})
+          ${where}
+          RETURN t {.*} as entry
+          ORDER BY t.deleted_at DESC
+          SKIP $skip
+          LIMIT $limit
+          `,
+          { campaignId, entityType: entityType || null, skip: int((page - 1) * limit), limit: int(limit) }
+        );
+
+        return {
+          entries: result.records.map((record) => this.toEntry(record.get('entry'))),
+          total: countResult.records[0].get('total').toNumber()
+        };
+      });
+    } catch (error) {
+      console.error('Error getting campaign trash:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a trash entry by ID
+   * @param trashId Trash entry ID
+   * @returns Trash entry, or null if not found
+   */
+  async findById(trashId: string): Promise<TrashEntry | null> {
+    try {
+      return await this.dbService.readTransaction(async (tx) => {
+        const result = await tx.run('MATCH (t:TrashEntry {trash_id: $trashId}) RETURN t {.*} as entry', { trashId });
+        return result.records.length > 0 ? this.toEntry(result.records[0].get('entry')) : null;
+      });
+    } catch (error) {
+      console.error('Error getting trash entry:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Restore a trashed entity and its relationships. Relationships to entities that are themselves in the trash
+   * are handed over to their trash entries so that they come back when those entities are restored.
+   * @param trashId Trash entry ID
+   * @returns Restore outcome, or null if the entry does not exist
+   */
+  async restore(trashId: string): Promise<TrashRestoreResult | null> {
+    try {
+      return await this.dbService.writeTransaction(async (tx) => {
+        const entryResult = await tx.run('MATCH (t:TrashEntry {trash_id: $trashId}) RETURN t {.*} as entry', {
+          trashId
+        });
+        if (entryResult.records.length === 0) {
+          return null;
+        }
+
+        const entry = this.toEntry(entryResult.records[0].get('entry'));
+        const { label, idField } = TRASH_ENTITIES[entry.entity_type];
+
+        const existing = await tx.run(`MATCH (n:${label} {${idField}: $entityId}) RETURN count(n) as count`, {
+          entityId: entry.entity_id
+        });
+        if (existing.records[0].get('count').toNumber() > 0) {
+          throw new Error(`Entity with ID ${entry.entity_id} already exists`);
+        }
+
+        await tx.run(`CREATE (n:${label}) SET n = $properties`, { properties: entry.properties });
+
+        const outcome: TrashRestoreResult = {
+          entry,
+          restoredRelationships: 0,
+          pendingRelationships: 0,
+          missingRelationships: 0
+        };
+        const self: TrashedNodeRef = { label, key: idField, value: entry.entity_id };
+
+        for (const relationship of entry.relationships) {
+          if (await this.createRelationship(tx, self, relationship)) {
+            outcome.restoredRelationships++;
+          } else if (await this.deferRelationship(tx, self, relationship)) {
+            outcome.pendingRelationships++;
+          } else {
+            outcome.missingRelationships++;
+          }
+        }
+
+        await tx.run('MATCH (t:TrashEntry {trash_id: $trashId}) DELETE t', { trashId });
+
+        return outcome;
+      });
+    } catch (error) {
+      console.error('Error restoring trash entry:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Permanently delete a trash entry
+   * @param trashId Trash entry ID
+   * @returns True if deleted
+   */
+  async purge(trashId: string): Promise<boolean> {
+    try {
+      return await this.dbService.writeTransaction(async (tx) => {
+        const result = await tx.run(
+          'MATCH (t:TrashEntry {trash_id: $trashId}) DELETE t RETURN count(t) as count',
+          { trashId }
+        );
+        return result.records[0].get('count').toNumber() > 0;
+      });
+    } catch (error) {
+      console.error('Error purging trash entry:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Permanently delete every trash entry of a campaign
+   * @param campaignId Campaign ID
+   * @returns Number of entries deleted
+   */
+  async purgeCampaign(campaignId: string): Promise<number> {
+    try {
+      return await this.dbService.writeTransaction(async (tx) => {
+        const result = await tx.run(
+          'MATCH (t:TrashEntry {campaign_id: $campaignId}) DELETE t RETURN count(t) as count',
+          { campaignId }
+        );
+        return result.records[0].get('count').toNumber();
+      });
+    } catch (error) {
+      console.error('Error emptying campaign trash:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Permanently delete trash entries deleted before a point in time
+   * @param cutoff ISO timestamp
+   * @returns Number of entries deleted
+   */
+  async purgeDeletedBefore(cutoff: string): Promise<number> {
+    try {
+      return await this.dbService.writeTransaction(async (tx) => {
+        const result = await tx.run(
+          'MATCH (t:TrashEntry) WHERE t.deleted_at < $cutoff DELETE t RETURN count(t) as count',
+          { cutoff }
+        );
+        return result.records[0].get('count').toNumber();
+      });
+    } catch (error) {
+      console.error('Error purging expired trash entries:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Read the relationships of an entity in one direction
+   * @param tx Transaction
+   * @param label Entity label
+   * @param idField Entity ID property
+   * @param entityId Entity ID
+   * @param direction Relationship direction as seen from the entity
+   * @returns Relationships whose other end can be identified
+   */
+  private async readRelationships(
+    tx: Transaction,
+    label: string,
+    idField: string,
+    entityId: string,
+    direction: TrashedRelationship['direction']
+  ): Promise<TrashedRelationship[]> {
+    const pattern = direction === 'outgoing' ? '(n)-[r]->(other)' : '(n)<-[r]-(other)';
+    const result = await tx.run(
+      `
+      MATCH (n:${label} {${idField}: $entityId})
+      MATCH ${pattern}
+      RETURN type(r) as type, properties(r) as properties, labels(other) as labels, properties(other) as other
+      `,
+      { entityId }
+    );
+
+    const relationships: TrashedRelationship[] = [];
+    for (const record of result.records) {
+      const node = identifyNode(record.get('labels'), record.get('other'));
+      // Self-relationships are read in both directions; keep one copy
+      if (!node || (direction === 'incoming' && node.label === label && node.value === entityId)) {
+        continue;
+      }
+      relationships.push({ type: record.get('type'), direction, properties: record.get('properties'), node });
+    }
+    return relationships;
+  }
+
+  /**
+   * Recreate a trashed relationship
+   * @param tx Transaction
+   * @param self Restored entity
+   * @param relationship Relationship to recreate
+   * @returns True if the other end exists and the relationship was created
+   */
+  private async createRelationship(tx: Transaction, self: TrashedNodeRef, relationship: TrashedRelationship): Promise<boolean> {
+    const { node } = relationship;
+    if (![node.label, node.key, relationship.type].every(isSafeIdentifier)) {
+      return false;
+    }
+
+    const pattern = relationship.direction === 'outgoing'
+      ? `(n)-[r:${relationship.type}]->(other)`
+      : `(n)<-[r:${relationship.type}]-(other)`;
+    const result = await tx.run(
+      `
+      MATCH (n:${self.label} {${self.key}: $selfId})
+      MATCH (other:${node.label} {${node.key}: $otherId})
+      CREATE ${pattern}
+      SET r = $properties
+      RETURN count(r) as count
+      `,
+      { selfId: self.value, otherId: node.value, properties: relationship.properties }
+    );
+    return result.records[0].get('count').toNumber() > 0;
+  }
+
+  /**
+   * Hand a relationship over to the trash entry of its other end
+   * @param tx Transaction
+   * @param self Restored entity
+   * @param relationship Relationship whose other end is missing
+   * @returns True if the other end is in the trash
+   */
+  private async deferRelationship(tx: Transaction, self: TrashedNodeRef, relationship: TrashedRelationship): Promise<boolean> {
+    const result = await tx.run(
+      'MATCH (t:TrashEntry {entity_id: $entityId}) RETURN t.trash_id as trashId, t.relationships as relationships',
+      { entityId: relationship.node.value }
+    );
+    if (result.records.length === 0) {
+      return false;
+    }
+
+    const relationships: TrashedRelationship[] = JSON.parse(result.records[0].get('relationships') || '[]');
+    relationships.push({
+      type: relationship.type,
+      direction: relationship.direction === 'outgoing' ? 'incoming' : 'outgoing',
+      properties: relationship.properties,
+      node: self
+    });
+    await tx.run('MATCH (t:TrashEntry {trash_id: $trashId}) SET t.relationships = $relationships', {
+      trashId: result.records[0].get('trashId'),
+      relationships: JSON.stringify(relationships)
+    });
+    return true;
+  }
+
+  /**
+   * Convert a stored trash entry
+   * @param entry Trash entry node properties
+   * @returns Trash entry
+   */
+  private toEntry(entry: Record<string, any>): TrashEntry {
+    return {
+      trash_id: entry.trash_id,
+      entity_type: entry.entity_type,
+      entity_id: entry.entity_id,
+      campaign_id: entry.campaign_id || undefined,
+      name: entry.name || undefined,
+      properties: JSON.parse(entry.properties || '{}'),
+      relationships: JSON.parse(entry.relationships || '[]'),
+      deleted_at: entry.deleted_at,
+      deleted_by: entry.deleted_by || undefined
+    };
+  }
+}
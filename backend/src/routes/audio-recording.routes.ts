@@ -1,22 +1,33 @@
 import { Router } from 'express';
 import { AudioRecordingController } from '../controllers/audio-recording.controller';
+import { AudioUploadController } from '../controllers/audio-upload.controller';
 import { RepositoryFactory } from '../repositories/repository.factory';
 import { AudioRecordingService } from '../services/audio-recording.service';
+import { AudioClipService } from '../services/audio-clip.service';
+import { WaveformService } from '../services/waveform.service';
+import { AudioMixdownService } from '../services/audio-mixdown.service';
+import { AudioUploadService } from '../services/audio-upload.service';
 import { TranscriptionService } from '../services/transcription.service';
-import { authenticate } from '../middleware/auth.middleware';
+import { JobQueueService } from '../services/job-queue.service';
+import { authenticate, authenticateStream } from '../middleware/auth.middleware';
+import config from '../config';
 
 /**
  * Create audio recording routes
  * @param repositoryFactory Repository factory
+ * @param jobQueueService Job queue service
  * @returns Router
  */
-export function audioRecordingRoutes(repositoryFactory: RepositoryFactory): Router {
+export function audioRecordingRoutes(repositoryFactory: RepositoryFactory, jobQueueService: JobQueueService): Router {
   const router = Router();
 
   // Create services
   const audioRecordingService = new AudioRecordingService(
     repositoryFactory.getAudioRecordingRepository(),
-    repositoryFactory.getTranscriptionRepository()
+    repositoryFactory.getTranscriptionRepository(),
+    undefined,
+    jobQueueService,
+    new AudioMixdownService(config.audio.mixdown)
   );
 
   const transcriptionService = new TranscriptionService(
@@ -24,8 +35,18 @@ export function audioRecordingRoutes(repositoryFactory: RepositoryFactory): Rout
     repositoryFactory.getAudioRecordingRepository()
   );
 
-  // Create controller
-  const audioRecordingController = new AudioRecordingController(audioRecordingService);
+  const audioClipService = new AudioClipService(repositoryFactory.getAudioRecordingRepository(), config.audio);
+  const waveformService = new WaveformService(repositoryFactory.getAudioRecordingRepository(), config.audio.waveform);
+
+  const audioUploadService = new AudioUploadService(
+    audioRecordingService,
+    repositoryFactory.getSessionRepository(),
+    config.upload.resumable
+  );
+
+  // Create controllers
+  const audioRecordingController = new AudioRecordingController(audioRecordingService, audioClipService, waveformService);
+  const audioUploadController = new AudioUploadController(audioUploadService, config.upload.resumable.maxChunkSize);
 
   // Get upload middleware
   const uploadMiddleware = audioRecordingController.getUploadMiddleware();
@@ -33,7 +54,22 @@ export function audioRecordingRoutes(repositoryFactory: RepositoryFactory): Rout
   // Routes
   router.get('/session/:sessionId', authenticate, audioRecordingController.getAllBySession);
   router.get('/:recordingId', authenticate, audioRecordingController.getById);
+  router.post('/:recordingId/stream-url', authenticate, audioRecordingController.getStreamUrl);
+  router.get('/:recordingId/stream', authenticateStream, audioRecordingController.stream);
+  router.get('/:recordingId/clip', authenticate, audioRecordingController.clip);
+  router.get('/:recordingId/waveform', authenticate, audioRecordingController.getWaveform);
   router.post('/upload', authenticate, uploadMiddleware, audioRecordingController.upload);
+  router.post(
+    '/upload/multitrack',
+    authenticate,
+    audioRecordingController.getMultiTrackUploadMiddleware(),
+    audioRecordingController.uploadMultiTrack
+  );
+  router.post('/uploads', authenticate, audioUploadController.initiate);
+  router.get('/uploads/:uploadId', authenticate, audioUploadController.getStatus);
+  router.put('/uploads/:uploadId/chunks/:index', authenticate, audioUploadController.getChunkMiddleware(), audioUploadController.uploadChunk);
+  router.post('/uploads/:uploadId/complete', authenticate, audioUploadController.complete);
+  router.delete('/uploads/:uploadId', authenticate, audioUploadController.abort);
   router.put('/:recordingId', authenticate, audioRecordingController.update);
   router.delete('/:recordingId', authenticate, audioRecordingController.delete);
   router.post('/:recordingId/transcribe', authenticate, audioRecordingController.startTranscription);
@@ -0,0 +1,45 @@
+import { Router } from 'express';
+import { body, param } from 'express-validator';
+import { CampaignArchiveController } from '../controllers/campaign-archive.controller';
+import { CampaignArchiveService } from '../services/campaign-archive.service';
+import { RepositoryFactory } from '../repositories/repository.factory';
+import { authenticate } from '../middleware/auth.middleware';
+
+/**
+ * Create campaign archive routes
+ * @param repositoryFactory Repository factory
+ * @returns Router
+ */
+export const campaignArchiveRoutes = (repositoryFactory: RepositoryFactory) => {
+  const router = Router();
+
+  // Create campaign archive service
+  const campaignArchiveService = new CampaignArchiveService(repositoryFactory.getCampaignArchiveRepository());
+
+  // Create campaign archive controller
+  const campaignArchiveController = new CampaignArchiveController(
+    campaignArchiveService,
+    repositoryFactory.getCampaignRepository(),
+    repositoryFactory.getRPGWorldRepository()
+  );
+
+  // Routes
+  router.get(
+    '/:campaignId',
+    authenticate,
+    [param('campaignId').isString().notEmpty().withMessage('Campaign ID is required')],
+    campaignArchiveController.exportCampaign
+  );
+  router.post(
+    '/',
+    authenticate,
+    campaignArchiveController.getUploadMiddleware(),
+    [
+      body('worldId').optional().isString().notEmpty().withMessage('World ID must be a non-empty string'),
+      body('name').optional().isString().notEmpty().withMessage('Name must be a non-empty string')
+    ],
+    campaignArchiveController.importCampaign
+  );
+
+  return router;
+};
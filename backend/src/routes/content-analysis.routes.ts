@@ -4,8 +4,11 @@ import { ContentAnalysisService } from '../services/content-analysis.service';
 import { LLMService } from '../services/llm.service';
 import { SessionAnalysisService } from '../services/session-analysis.service';
 import { TranscriptionService } from '../services/transcription.service';
+import { RedactionService } from '../services/redaction.service';
+import { AudioRedactionService } from '../services/audio-redaction.service';
 import { RepositoryFactory } from '../repositories/repository.factory';
 import { authenticate } from '../middleware/auth.middleware';
+import config from '../config';
 
 /**
  * Create content analysis routes
@@ -43,7 +46,15 @@ export const contentAnalysisRoutes = (
     llmService,
     sessionAnalysisService,
     transcriptionService,
-    repositoryFactory
+    repositoryFactory,
+    new RedactionService(
+      repositoryFactory.getRedactionRepository(),
+      repositoryFactory.getTranscriptionRepository(),
+      repositoryFactory.getSessionRepository(),
+      repositoryFactory.getAudioRecordingRepository(),
+      repositoryFactory.getTranscriptRevisionRepository(),
+      new AudioRedactionService(config.audio.redaction)
+    )
   );
 
   // Create content analysis controller
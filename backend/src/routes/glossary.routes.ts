@@ -0,0 +1,34 @@
+import { Router } from 'express';
+import { GlossaryController } from '../controllers/glossary.controller';
+import { RepositoryFactory } from '../repositories/repository.factory';
+import { GlossaryService } from '../services/glossary.service';
+import { authenticate } from '../middleware/auth.middleware';
+
+/**
+ * Create glossary routes
+ * @param repositoryFactory Repository factory
+ * @returns Router
+ */
+export function glossaryRoutes(repositoryFactory: RepositoryFactory): Router {
+  const router = Router();
+
+  // Create service
+  const glossaryService = new GlossaryService(
+    repositoryFactory.getGlossaryRepository(),
+    repositoryFactory.getTranscriptionRepository(),
+    repositoryFactory.getSessionRepository(),
+    repositoryFactory.getTranscriptRevisionRepository()
+  );
+
+  // Create controller
+  const glossaryController = new GlossaryController(glossaryService);
+
+  // Routes
+  router.get('/campaign/:campaignId', authenticate, glossaryController.getByCampaign);
+  router.post('/campaign/:campaignId/terms', authenticate, glossaryController.addTerm);
+  router.delete('/terms/:termId', authenticate, glossaryController.deleteTerm);
+  router.get('/transcription/:transcriptionId/corrections', authenticate, glossaryController.getCorrections);
+  router.post('/corrections/:correctionId/undo', authenticate, glossaryController.undoCorrection);
+
+  return router;
+}
@@ -10,6 +10,10 @@ import { relationshipRoutes } from './relationship.routes';
 import { powerRoutes } from './power.routes';
 import { itemRoutes } from './item.routes';
 import { eventRoutes } from './event.routes';
+import { searchRoutes } from './search.routes';
+import { revisionRoutes } from './revision.routes';
+import { trashRoutes } from './trash.routes';
+import { campaignArchiveRoutes } from './campaign-archive.routes';
 import { RepositoryFactory } from '../repositories/repository.factory';
 import { DatabaseService } from '../services/database.service';
 
@@ -33,6 +37,10 @@ export function createApiRouter(dbService: DatabaseService): Router {
   router.use('/powers', powerRoutes(repositoryFactory));
   router.use('/items', itemRoutes(repositoryFactory));
   router.use('/events', eventRoutes(repositoryFactory));
+  router.use('/search', searchRoutes(repositoryFactory));
+  router.use('/revisions', revisionRoutes(repositoryFactory));
+  router.use('/trash', trashRoutes(repositoryFactory));
+  router.use('/campaign-archives', campaignArchiveRoutes(repositoryFactory));
 
   return router;
 }
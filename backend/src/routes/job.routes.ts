@@ -0,0 +1,39 @@
+import { Router } from 'express';
+import { param, query } from 'express-validator';
+import { JobController } from '../controllers/job.controller';
+import { JobQueueService } from '../services/job-queue.service';
+import { JOB_STATUSES, JOB_TYPES } from '../models/job.model';
+import { authenticate } from '../middleware/auth.middleware';
+
+/**
+ * Create job routes
+ * @param jobQueueService Job queue service
+ * @returns Router
+ */
+export const jobRoutes = (jobQueueService: JobQueueService) => {
+  const router = Router();
+
+  // Create job controller
+  const jobController = new JobController(jobQueueService);
+
+  const jobValidator = param('jobId').isString().notEmpty().withMessage('Job ID is required');
+
+  // Routes
+  router.get(
+    '/',
+    authenticate,
+    [
+      query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+      query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+      query('type').optional().isIn(JOB_TYPES).withMessage(`Type must be one of ${JOB_TYPES.join(', ')}`),
+      query('status').optional().isIn(JOB_STATUSES).withMessage(`Status must be one of ${JOB_STATUSES.join(', ')}`)
+    ],
+    jobController.getJobs
+  );
+  router.get('/:jobId', authenticate, [jobValidator], jobController.getJob);
+  router.get('/:jobId/events', authenticate, [jobValidator], jobController.streamJob);
+  router.post('/:jobId/cancel', authenticate, [jobValidator], jobController.cancel);
+  router.post('/:jobId/retry', authenticate, [jobValidator], jobController.retry);
+
+  return router;
+};
@@ -0,0 +1,38 @@
+import { Router } from 'express';
+import { RedactionController } from '../controllers/redaction.controller';
+import { RepositoryFactory } from '../repositories/repository.factory';
+import { RedactionService } from '../services/redaction.service';
+import { AudioRedactionService } from '../services/audio-redaction.service';
+import { authenticate } from '../middleware/auth.middleware';
+import config from '../config';
+
+/**
+ * Create redaction routes
+ * @param repositoryFactory Repository factory
+ * @returns Router
+ */
+export function redactionRoutes(repositoryFactory: RepositoryFactory): Router {
+  const router = Router();
+
+  // Create service
+  const redactionService = new RedactionService(
+    repositoryFactory.getRedactionRepository(),
+    repositoryFactory.getTranscriptionRepository(),
+    repositoryFactory.getSessionRepository(),
+    repositoryFactory.getAudioRecordingRepository(),
+    repositoryFactory.getTranscriptRevisionRepository(),
+    new AudioRedactionService(config.audio.redaction)
+  );
+
+  // Create controller
+  const redactionController = new RedactionController(redactionService);
+
+  // Routes
+  router.get('/campaign/:campaignId/rules', authenticate, redactionController.getRules);
+  router.post('/campaign/:campaignId/rules', authenticate, redactionController.addRule);
+  router.delete('/rules/:ruleId', authenticate, redactionController.deleteRule);
+  router.post('/transcription/:transcriptionId/apply', authenticate, redactionController.applyToTranscription);
+  router.post('/transcription/:transcriptionId/spans', authenticate, redactionController.redactSpan);
+
+  return router;
+}
@@ -0,0 +1,68 @@
+import { Router } from 'express';
+import { param, query } from 'express-validator';
+import { RevisionController } from '../controllers/revision.controller';
+import { RevisionService } from '../services/revision.service';
+import { RepositoryFactory } from '../repositories/repository.factory';
+import { REVISION_ENTITY_TYPES } from '../models/revision.model';
+import { authenticate } from '../middleware/auth.middleware';
+
+/**
+ * Create revision routes
+ * @param repositoryFactory Repository factory
+ * @returns Router
+ */
+export const revisionRoutes = (repositoryFactory: RepositoryFactory) => {
+  const router = Router();
+
+  // Create revision service
+  const revisionService = new RevisionService(repositoryFactory.getRevisionRepository());
+
+  // Create revision controller
+  const revisionController = new RevisionController(revisionService);
+
+  const entityValidators = [
+    param('entityType')
+      .isIn(REVISION_ENTITY_TYPES)
+      .withMessage(`Entity type must be one of ${REVISION_ENTITY_TYPES.join(', ')}`),
+    param('entityId').isString().notEmpty().withMessage('Entity ID is required')
+  ];
+  const revisionValidator = param('revisionNumber')
+    .isInt({ min: 1 })
+    .withMessage('Revision number must be a positive integer');
+
+  // Routes
+  router.get(
+    '/:entityType/:entityId',
+    authenticate,
+    [
+      ...entityValidators,
+      query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+      query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100')
+    ],
+    revisionController.getRevisions
+  );
+  router.get(
+    '/:entityType/:entityId/diff',
+    authenticate,
+    [
+      ...entityValidators,
+      query('from').isInt({ min: 1 }).withMessage('From revision must be a positive integer'),
+      query('to').isInt({ min: 1 }).withMessage('To revision must be a positive integer')
+    ],
+    revisionController.diffRevisions
+  );
+  router.get(
+    '/:entityType/:entityId/:revisionNumber',
+    authenticate,
+    [...entityValidators, revisionValidator],
+    revisionController.getRevision
+  );
+  router.post(
+    '/:entityType/:entityId/:revisionNumber/revert',
+    authenticate,
+    [...entityValidators, revisionValidator],
+    revisionController.revertToRevision
+  );
+
+  return router;
+};
@@ -0,0 +1,72 @@
+import { Router } from 'express';
+import { body, query } from 'express-validator';
+import { SearchController } from '../controllers/search.controller';
+import { SearchService } from '../services/search.service';
+import { RepositoryFactory } from '../repositories/repository.factory';
+import { authenticate } from '../middleware/auth.middleware';
+
+/**
+ * Create search routes
+ * @param repositoryFactory Repository factory
+ * @returns Router
+ */
+export const searchRoutes = (repositoryFactory: RepositoryFactory) => {
+  const router = Router();
+
+  // Create search service
+  const searchService = new SearchService(repositoryFactory.getSearchRepository());
+
+  // Create search controller
+  const searchController = new SearchController(searchService);
+
+  // Routes
+  router.get(
+    '/',
+    authenticate,
+    [
+      query('query').isString().trim().notEmpty().withMessage('Search query is required'),
+      query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+      query('offset').optional().isInt({ min: 0 }).withMessage('Offset must be a non-negative integer'),
+      query('sortBy')
+        .optional()
+        .isIn(['relevance', 'name', 'createdAt', 'updatedAt'])
+        .withMessage('Sort field must be relevance, name, createdAt or updatedAt'),
+      query('sortDirection').optional().isIn(['asc', 'desc']).withMessage('Sort direction must be asc or desc')
+    ],
+    searchController.search
+  );
+  router.get(
+    '/transcripts',
+    authenticate,
+    [
+      query('campaignId').isString().trim().notEmpty().withMessage('Campaign ID is required'),
+      query('query').isString().trim().notEmpty().withMessage('Search query is required'),
+      query('fuzzy').optional().isBoolean().withMessage('Fuzzy must be true or false'),
+      query('sortBy').optional().isIn(['relevance', 'time']).withMessage('Sort order must be relevance or time'),
+      query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+      query('offset').optional().isInt({ min: 0 }).withMessage('Offset must be a non-negative integer')
+    ],
+    searchController.searchTranscripts
+  );
+  router.get(
+    '/suggestions',
+    authenticate,
+    [query('limit').optional().isInt({ min: 1, max: 50 }).withMessage('Limit must be between 1 and 50')],
+    searchController.getSuggestions
+  );
+  router.get(
+    '/recent',
+    authenticate,
+    [query('limit').optional().isInt({ min: 1, max: 50 }).withMessage('Limit must be between 1 and 50')],
+    searchController.getRecentSearches
+  );
+  router.post(
+    '/recent',
+    authenticate,
+    [body('query').isString().trim().notEmpty().withMessage('Search query is required')],
+    searchController.saveRecentSearch
+  );
+  router.delete('/recent', authenticate, searchController.clearRecentSearches);
+
+  return router;
+};
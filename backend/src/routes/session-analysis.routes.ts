@@ -2,14 +2,16 @@ import { Router } from 'express';
 import { SessionAnalysisController } from '../controllers/session-analysis.controller';
 import { RepositoryFactory } from '../repositories/repository.factory';
 import { SessionAnalysisService } from '../services/session-analysis.service';
+import { JobQueueService } from '../services/job-queue.service';
 import { AuthMiddleware } from '../middleware/auth.middleware';
 
 /**
  * Create session analysis routes
  * @param repositoryFactory Repository factory
+ * @param jobQueueService Job queue service
  * @returns Router
  */
-export function sessionAnalysisRoutes(repositoryFactory: RepositoryFactory): Router {
+export function sessionAnalysisRoutes(repositoryFactory: RepositoryFactory, jobQueueService: JobQueueService): Router {
   const router = Router();
 
   // Create service
@@ -22,7 +24,7 @@ export function sessionAnalysisRoutes(repositoryFactory: RepositoryFactory): Rou
   );
 
   // Create controller
-  const sessionAnalysisController = new SessionAnalysisController(sessionAnalysisService);
+  const sessionAnalysisController = new SessionAnalysisController(sessionAnalysisService, jobQueueService);
 
   // Create auth middleware
   const authMiddleware = new AuthMiddleware();
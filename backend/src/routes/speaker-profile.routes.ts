@@ -0,0 +1,32 @@
+import { Router } from 'express';
+import { SpeakerProfileController } from '../controllers/speaker-profile.controller';
+import { RepositoryFactory } from '../repositories/repository.factory';
+import { SpeakerProfileService } from '../services/speaker-profile.service';
+import { authenticate } from '../middleware/auth.middleware';
+
+/**
+ * Create speaker profile routes
+ * @param repositoryFactory Repository factory
+ * @returns Router
+ */
+export function speakerProfileRoutes(repositoryFactory: RepositoryFactory): Router {
+  const router = Router();
+
+  // Create service
+  const speakerProfileService = new SpeakerProfileService(
+    repositoryFactory.getSpeakerProfileRepository(),
+    repositoryFactory.getTranscriptionRepository(),
+    repositoryFactory.getAudioRecordingRepository(),
+    repositoryFactory.getSessionRepository()
+  );
+
+  // Create controller
+  const speakerProfileController = new SpeakerProfileController(speakerProfileService);
+
+  // Routes
+  router.get('/campaign/:campaignId', authenticate, speakerProfileController.getByCampaign);
+  router.get('/transcription/:transcriptionId/proposals', authenticate, speakerProfileController.getProposals);
+  router.delete('/:profileId', authenticate, speakerProfileController.delete);
+
+  return router;
+}
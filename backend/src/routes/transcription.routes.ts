@@ -1,36 +1,100 @@
 import { Router } from 'express';
 import { TranscriptionController } from '../controllers/transcription.controller';
+import { TranscriptEditController } from '../controllers/transcript-edit.controller';
+import { TranscriptionQualityController } from '../controllers/transcription-quality.controller';
 import { RepositoryFactory } from '../repositories/repository.factory';
 import { TranscriptionService } from '../services/transcription.service';
+import { SpeakerProfileService } from '../services/speaker-profile.service';
+import { TranscriptEditService } from '../services/transcript-edit.service';
+import { TranscriptionQualityService } from '../services/transcription-quality.service';
+import { RedactionService } from '../services/redaction.service';
+import { AudioRedactionService } from '../services/audio-redaction.service';
+import { createTranscriptionProviderRegistry } from '../services/transcription-providers/registry';
+import { createSegmentClassifier } from '../services/segment-classifiers/registry';
+import { JobQueueService } from '../services/job-queue.service';
 import { authenticate } from '../middleware/auth.middleware';
+import config from '../config';
 
 /**
  * Create transcription routes
  * @param repositoryFactory Repository factory
+ * @param jobQueueService Job queue service
  * @returns Router
  */
-export function transcriptionRoutes(repositoryFactory: RepositoryFactory): Router {
+export function transcriptionRoutes(repositoryFactory: RepositoryFactory, jobQueueService: JobQueueService): Router {
   const router = Router();
 
   // Create service
   const transcriptionService = new TranscriptionService(
     repositoryFactory.getTranscriptionRepository(),
-    repositoryFactory.getAudioRecordingRepository()
+    repositoryFactory.getAudioRecordingRepository(),
+    createTranscriptionProviderRegistry(),
+    new SpeakerProfileService(
+      repositoryFactory.getSpeakerProfileRepository(),
+      repositoryFactory.getTranscriptionRepository(),
+      repositoryFactory.getAudioRecordingRepository(),
+      repositoryFactory.getSessionRepository()
+    ),
+    undefined,
+    createSegmentClassifier(),
+    new RedactionService(
+      repositoryFactory.getRedactionRepository(),
+      repositoryFactory.getTranscriptionRepository(),
+      repositoryFactory.getSessionRepository(),
+      repositoryFactory.getAudioRecordingRepository(),
+      repositoryFactory.getTranscriptRevisionRepository(),
+      new AudioRedactionService(config.audio.redaction)
+    )
   );
 
-  // Create controller
-  const transcriptionController = new TranscriptionController(transcriptionService);
+  const transcriptionQualityService = new TranscriptionQualityService(
+    repositoryFactory.getTranscriptionRepository(),
+    repositoryFactory.getTranscriptRevisionRepository(),
+    repositoryFactory.getTranscriptionQualityRepository()
+  );
+  const transcriptEditService = new TranscriptEditService(
+    repositoryFactory.getTranscriptionRepository(),
+    repositoryFactory.getTranscriptRevisionRepository(),
+    transcriptionQualityService
+  );
+
+  // Create controllers
+  const transcriptionController = new TranscriptionController(transcriptionService, jobQueueService);
+  const transcriptEditController = new TranscriptEditController(transcriptEditService);
+  const transcriptionQualityController = new TranscriptionQualityController(transcriptionQualityService);
 
   // Routes
+  router.get('/providers', authenticate, transcriptionController.getProviders);
+  router.get('/quality/comparison', authenticate, transcriptionQualityController.compare);
+  router.post('/import', authenticate, transcriptionController.getUploadMiddleware(), transcriptionController.importTranscript);
   router.get('/:transcriptionId', authenticate, transcriptionController.getById);
+  router.get('/:transcriptionId/export/:format', authenticate, transcriptionController.exportTranscript);
+  router.post('/:transcriptionId/classify', authenticate, transcriptionController.classify);
+  router.post('/:transcriptionId/translate', authenticate, transcriptionController.translate);
   router.get('/recording/:recordingId', authenticate, transcriptionController.getByRecordingId);
   router.delete('/:transcriptionId', authenticate, transcriptionController.delete);
-  router.post('/:transcriptionId/process/whisper', authenticate, transcriptionController.processWithWhisper);
-  router.post('/:transcriptionId/process/vosk', authenticate, transcriptionController.processWithVosk);
+  router.post('/:transcriptionId/process/whisper-cpp', authenticate, transcriptionController.processWithWhisperCpp);
   router.post('/:transcriptionId/process/hybrid', authenticate, transcriptionController.processWithHybrid);
   router.post('/speakers', authenticate, transcriptionController.createOrUpdateSpeaker);
   router.put('/speakers/:speakerId', authenticate, transcriptionController.updateSpeakerIdentification);
   router.get('/session/:sessionId/speakers', authenticate, transcriptionController.getSpeakersForSession);
+  router.get('/session/:sessionId/timeline', authenticate, transcriptionController.getSessionTimeline);
+  router.get('/session/:sessionId/transcript', authenticate, transcriptionController.getSessionTranscript);
+  router.post('/session/:sessionId/transcript', authenticate, transcriptionController.stitchSession);
+
+  // Segment editing
+  router.put('/:transcriptionId/segments/:segmentId/text', authenticate, transcriptEditController.editText);
+  router.post('/:transcriptionId/segments/:segmentId/split', authenticate, transcriptEditController.split);
+  router.post('/:transcriptionId/segments/:segmentId/merge', authenticate, transcriptEditController.mergeWithNext);
+  router.put('/:transcriptionId/segments/:segmentId/speaker', authenticate, transcriptEditController.reassignSpeaker);
+  router.put('/:transcriptionId/segments/:segmentId/timing', authenticate, transcriptEditController.retime);
+  router.put('/:transcriptionId/segments/:segmentId/category', authenticate, transcriptEditController.setCategory);
+  router.get('/:transcriptionId/revisions', authenticate, transcriptEditController.getRevisions);
+  router.post('/:transcriptionId/revisions/:revisionNumber/rollback', authenticate, transcriptEditController.rollback);
+
+  // Quality of the transcription providers
+  router.get('/:transcriptionId/quality', authenticate, transcriptionQualityController.getScore);
+  router.post('/:transcriptionId/quality', authenticate, transcriptionQualityController.score);
 
   return router;
 }
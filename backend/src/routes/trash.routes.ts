@@ -0,0 +1,48 @@
+import { Router } from 'express';
+import { param, query } from 'express-validator';
+import { TrashController } from '../controllers/trash.controller';
+import { TrashService } from '../services/trash.service';
+import { RepositoryFactory } from '../repositories/repository.factory';
+import { TRASH_ENTITY_TYPES } from '../models/trash.model';
+import { authenticate } from '../middleware/auth.middleware';
+import config from '../config';
+
+/**
+ * Create trash routes
+ * @param repositoryFactory Repository factory
+ * @returns Router
+ */
+export const trashRoutes = (repositoryFactory: RepositoryFactory) => {
+  const router = Router();
+
+  // Create trash service
+  const trashService = new TrashService(repositoryFactory.getTrashRepository(), config.trash.retentionDays);
+
+  // Create trash controller
+  const trashController = new TrashController(trashService, repositoryFactory.getCampaignRepository());
+
+  const campaignValidator = param('campaignId').isString().notEmpty().withMessage('Campaign ID is required');
+  const trashValidator = param('trashId').isString().notEmpty().withMessage('Trash entry ID is required');
+
+  // Routes
+  router.get(
+    '/campaigns/:campaignId',
+    authenticate,
+    [
+      campaignValidator,
+      query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+      query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+      query('entityType')
+        .optional()
+        .isIn(TRASH_ENTITY_TYPES)
+        .withMessage(`Entity type must be one of ${TRASH_ENTITY_TYPES.join(', ')}`)
+    ],
+    trashController.getCampaignTrash
+  );
+  router.delete('/campaigns/:campaignId', authenticate, [campaignValidator], trashController.emptyCampaignTrash);
+  router.get('/:trashId', authenticate, [trashValidator], trashController.getEntry);
+  router.post('/:trashId/restore', authenticate, [trashValidator], trashController.restore);
+  router.delete('/:trashId', authenticate, [trashValidator], trashController.purge);
+
+  return router;
+};
@@ -0,0 +1,66 @@
+import fs from 'fs';
+import { pipeline } from 'stream/promises';
+import { DatabaseService } from '../services/database.service';
+import { CampaignArchiveRepository } from '../repositories/campaign-archive.repository';
+import { CampaignArchiveService } from '../services/campaign-archive.service';
+
+/**
+ * Export and import campaign archives from the command line
+ *
+ * Usage:
+ *   campaign-archive export <campaignId> [file]          Write a campaign to an archive file
+ *   campaign-archive import <file> <userId> [worldId]    Import an archive as a new campaign owned by a user
+ * @param args Command line arguments
+ */
+export async function runCampaignArchive(args: string[]) {
+  const [command, ...rest] = args;
+
+  const dbService = new DatabaseService();
+  await dbService.initialize();
+
+  try {
+    const campaignArchiveService = new CampaignArchiveService(new CampaignArchiveRepository(dbService));
+
+    switch (command) {
+      case 'export': {
+        const [campaignId, file] = rest;
+        if (!campaignId) {
+          throw new Error('Usage: campaign-archive export <campaignId> [file]');
+        }
+        const archive = await campaignArchiveService.exportCampaign(campaignId);
+        if (!archive) {
+          throw new Error(`Campaign ${campaignId} not found`);
+        }
+        await pipeline(archive.data, fs.createWriteStream(file || archive.fileName));
+        console.log(`Exported campaign ${campaignId} to ${file || archive.fileName}`);
+        break;
+      }
+      case 'import': {
+        const [file, userId, worldId] = rest;
+        if (!file || !userId) {
+          throw new Error('Usage: campaign-archive import <file> <userId> [worldId]');
+        }
+        const result = await campaignArchiveService.importCampaign(file, { userId, worldId });
+        console.log(
+          `Imported campaign ${result.campaign_id}: ${result.nodes} nodes, ${result.relationships} relationships, ` +
+            `${result.files} files (${result.skipped_relationships} relationships skipped)`
+        );
+        break;
+      }
+      default:
+        throw new Error(`Unknown campaign archive command '${command}'. Use export or import.`);
+    }
+  } finally {
+    await dbService.close();
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  runCampaignArchive(process.argv.slice(2))
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('Error:', error);
+      process.exit(1);
+    });
+}
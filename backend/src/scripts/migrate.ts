@@ -0,0 +1,59 @@
+import { DatabaseService } from '../services/database.service';
+import { MigrationService } from '../services/migration.service';
+
+/**
+ * Run schema migrations from the command line
+ *
+ * Usage:
+ *   migrate status          List migrations and whether they are applied
+ *   migrate up [version]    Apply pending migrations, optionally up to a version
+ *   migrate down [steps]    Revert the newest applied migrations (default 1)
+ * @param args Command line arguments
+ */
+export async function runMigrations(args: string[]) {
+  const [command = 'up', argument] = args;
+
+  const dbService = new DatabaseService();
+  await dbService.initialize();
+
+  try {
+    const migrationService = new MigrationService(dbService);
+
+    switch (command) {
+      case 'status': {
+        const status = await migrationService.getStatus();
+        status.forEach((migration) => {
+          const state = migration.applied ? `applied ${migration.applied_at}` : 'pending';
+          console.log(`${String(migration.version).padStart(3, '0')} ${migration.name} - ${state}`);
+        });
+        break;
+      }
+      case 'up': {
+        const applied = await migrationService.migrate(argument !== undefined ? parseInt(argument, 10) : undefined);
+        applied.forEach((migration) => console.log(`Applied migration ${migration.version} (${migration.name})`));
+        console.log(applied.length > 0 ? `Schema is now at version ${await migrationService.getCurrentVersion()}` : 'Schema is up to date');
+        break;
+      }
+      case 'down': {
+        const reverted = await migrationService.rollback(argument !== undefined ? parseInt(argument, 10) : 1);
+        reverted.forEach((migration) => console.log(`Reverted migration ${migration.version} (${migration.name})`));
+        console.log(`Reverted ${reverted.length} migration(s); schema is now at version ${await migrationService.getCurrentVersion()}`);
+        break;
+      }
+      default:
+        throw new Error(`Unknown migration command '${command}'. Use status, up or down.`);
+    }
+  } finally {
+    await dbService.close();
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  runMigrations(process.argv.slice(2))
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('Error:', error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,126 @@
+import * as path from 'path';
+import { AudioRecordingRepository } from '../repositories/audio-recording.repository';
+import { runFfmpeg } from '../utils/ffmpeg';
+
+/**
+ * Audio clip options
+ */
+export interface AudioClipOptions {
+  /**
+   * Path or name on the PATH of the ffmpeg command line tool
+   */
+  ffmpegPath: string;
+  /**
+   * Longest clip that may be cut, in seconds
+   */
+  maxClipSeconds: number;
+  /**
+   * Longest cutting a clip may take before ffmpeg is stopped; 0 disables the limit
+   */
+  timeoutMs: number;
+}
+
+const DEFAULT_OPTIONS: AudioClipOptions = {
+  ffmpegPath: 'ffmpeg',
+  maxClipSeconds: 300,
+  timeoutMs: 30000
+};
+
+/**
+ * Clip cut from an audio recording
+ */
+export interface AudioClip {
+  fileName: string;
+  contentType: string;
+  data: Buffer;
+}
+
+/**
+ * Error thrown when a clip cannot be cut
+ */
+export class AudioClipError extends Error {
+  public readonly code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.name = 'AudioClipError';
+    this.code = code;
+  }
+}
+
+/**
+ * Cuts short clips out of audio recordings with ffmpeg, so a moment of a session can be played without loading the
+ * whole recording. Clips are encoded as MP3, which every browser plays, and are small enough to be kept in memory.
+ */
+export class AudioClipService {
+  private audioRecordingRepository: AudioRecordingRepository;
+  private options: AudioClipOptions;
+
+  /**
+   * @param audioRecordingRepository Audio recording repository
+   * @param options Audio clip options
+   */
+  constructor(audioRecordingRepository: AudioRecordingRepository, options: Partial<AudioClipOptions> = {}) {
+    this.audioRecordingRepository = audioRecordingRepository;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Cut the audio between two timestamps out of a recording. An end past the end of the recording is clamped to it.
+   * @param recordingId Recording ID
+   * @param startSeconds Start of the clip
+   * @param endSeconds End of the clip
+   * @returns Clip, or null if the recording does not exist
+   * @throws AudioClipError if the timestamps are invalid, the clip is too long or ffmpeg fails
+   */
+  public async createClip(recordingId: string, startSeconds: number, endSeconds: number): Promise<AudioClip | null> {
+    const recording = await this.audioRecordingRepository.findById(recordingId);
+    if (!recording) {
+      return null;
+    }
+
+    const end = recording.duration_seconds > 0 ? Math.min(endSeconds, recording.duration_seconds) : endSeconds;
+    if (startSeconds < 0 || startSeconds >= end) {
+      throw new AudioClipError(
+        'INVALID_CLIP_RANGE',
+        `Clip must start before it ends and within the recording (${recording.duration_seconds} seconds)`
+      );
+    }
+    if (end - startSeconds > this.options.maxClipSeconds) {
+      throw new AudioClipError('CLIP_TOO_LONG', `Clips may be at most ${this.options.maxClipSeconds} seconds long`);
+    }
+
+    const data = await this.run([
+      '-hide_banner',
+      '-loglevel', 'error',
+      '-ss', startSeconds.toFixed(3),
+      '-t', (end - startSeconds).toFixed(3),
+      '-i', recording.file_path,
+      '-vn',
+      '-f', 'mp3',
+      'pipe:1'
+    ]);
+
+    const baseName = path.basename(recording.name).replace(/[^\w.-]+/g, '_') || 'recording';
+    return {
+      fileName: `${baseName}-${Math.floor(startSeconds)}-${Math.ceil(end)}.mp3`,
+      contentType: 'audio/mpeg',
+      data
+    };
+  }
+
+  /**
+   * Run ffmpeg and collect what it writes to stdout
+   * @param args Arguments
+   * @returns Output
+   */
+  private async run(args: string[]): Promise<Buffer> {
+    const output: Buffer[] = [];
+    await runFfmpeg(
+      args,
+      { ...this.options, onData: (chunk) => output.push(chunk) },
+      (message) => new AudioClipError('CLIP_FAILED', message)
+    );
+    return Buffer.concat(output);
+  }
+}
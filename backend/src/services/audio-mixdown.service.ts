@@ -0,0 +1,68 @@
+import { runFfmpeg } from '../utils/ffmpeg';
+
+/**
+ * Audio mixdown options
+ */
+export interface AudioMixdownOptions {
+  /**
+   * Path or name on the PATH of the ffmpeg command line tool
+   */
+  ffmpegPath: string;
+  /**
+   * Longest mixing may take before ffmpeg is stopped; 0 disables the limit
+   */
+  timeoutMs: number;
+}
+
+const DEFAULT_OPTIONS: AudioMixdownOptions = {
+  ffmpegPath: 'ffmpeg',
+  timeoutMs: 0
+};
+
+/**
+ * Error thrown when tracks cannot be mixed
+ */
+export class AudioMixdownError extends Error {
+  public readonly code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.name = 'AudioMixdownError';
+    this.code = code;
+  }
+}
+
+/**
+ * Mixes the per-speaker tracks of a multi-track recording into one file with ffmpeg, so the recording can be played,
+ * clipped and drawn like any other. The tracks are kept for transcription.
+ */
+export class AudioMixdownService {
+  private options: AudioMixdownOptions;
+
+  /**
+   * @param options Audio mixdown options
+   */
+  constructor(options: Partial<AudioMixdownOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Mix tracks that start at the same time into an MP3 file as long as the longest track. Tracks are added without
+   * lowering their volume, as usually one speaker talks at a time.
+   * @param inputPaths Paths of the tracks
+   * @param outputPath Path of the mixed file
+   * @throws AudioMixdownError if ffmpeg fails
+   */
+  public mix(inputPaths: string[], outputPath: string): Promise<void> {
+    const args = ['-hide_banner', '-loglevel', 'error', '-y'];
+    inputPaths.forEach((inputPath) => args.push('-i', inputPath));
+    args.push(
+      '-filter_complex', `amix=inputs=${inputPaths.length}:duration=longest:normalize=0`,
+      '-vn',
+      '-f', 'mp3',
+      outputPath
+    );
+
+    return runFfmpeg(args, this.options, (message) => new AudioMixdownError('MIXDOWN_FAILED', message));
+  }
+}
@@ -1,7 +1,12 @@
 import { AudioRecordingRepository } from '../repositories/audio-recording.repository';
-import { AudioRecording, AudioRecordingCreationParams, AudioRecordingUpdateParams, AudioRecordingSettings, NoiseReductionLevel, TranscriptionService, TranscriptionStatus } from '../models/audio-recording.model';
+import { AudioRecording, AudioRecordingCreationParams, AudioRecordingUpdateParams, AudioRecordingSettings, AudioTrackCreationParams, AudioTrackUpload, NoiseReductionLevel, TranscriptionService, TranscriptionStatus } from '../models/audio-recording.model';
 import { TranscriptionRepository } from '../repositories/transcription.repository';
 import { TranscriptionCreationParams } from '../models/transcription.model';
+import { JobType } from '../models/job.model';
+import { JobQueueService } from './job-queue.service';
+import { WaveformService } from './waveform.service';
+import { AudioMixdownService } from './audio-mixdown.service';
+import { AudioMetadata, readAudioMetadata, readAudioMetadataFromFile } from '../utils/audio-metadata';
 import * as fs from 'fs';
 import * as path from 'path';
 import { promisify } from 'util';
@@ -9,7 +14,39 @@ import { v4 as uuidv4 } from 'uuid';
 
 const mkdir = promisify(fs.mkdir);
 const writeFile = promisify(fs.writeFile);
+const rename = promisify(fs.rename);
 const unlink = promisify(fs.unlink);
+const stat = promisify(fs.stat);
+
+/**
+ * MIME type of each stored audio format
+ */
+const AUDIO_CONTENT_TYPES: Record<string, string> = {
+  wav: 'audio/wav',
+  mp3: 'audio/mpeg',
+  ogg: 'audio/ogg',
+  flac: 'audio/flac',
+  webm: 'audio/webm'
+};
+
+/**
+ * Stored audio file of a recording
+ */
+export interface AudioFile {
+  filePath: string;
+  size: number;
+  contentType: string;
+}
+
+/**
+ * Name of the speaker of a track taken from its file name. Craig names tracks "<number>-<username>.<extension>".
+ * @param fileName File name of the track
+ * @returns Speaker name
+ */
+const speakerNameOfTrack = (fileName: string): string => {
+  const baseName = path.basename(fileName, path.extname(fileName));
+  return baseName.replace(/^\d+-/, '') || baseName;
+};
 
 /**
  * Audio recording service
@@ -18,16 +55,22 @@ export class AudioRecordingService {
   private audioRecordingRepository: AudioRecordingRepository;
   private transcriptionRepository: TranscriptionRepository;
   private uploadDir: string;
+  private jobQueueService?: JobQueueService;
+  private audioMixdownService?: AudioMixdownService;
   private defaultSettings: AudioRecordingSettings;
 
   constructor(
     audioRecordingRepository: AudioRecordingRepository,
     transcriptionRepository: TranscriptionRepository,
-    uploadDir: string = path.join(process.cwd(), 'uploads', 'audio')
+    uploadDir: string = path.join(process.cwd(), 'uploads', 'audio'),
+    jobQueueService?: JobQueueService,
+    audioMixdownService?: AudioMixdownService
   ) {
     this.audioRecordingRepository = audioRecordingRepository;
     this.transcriptionRepository = transcriptionRepository;
     this.uploadDir = uploadDir;
+    this.jobQueueService = jobQueueService;
+    this.audioMixdownService = audioMixdownService;
 
     // Default settings
     this.defaultSettings = {
@@ -89,7 +132,33 @@ export class AudioRecordingService {
   }
 
   /**
-   * Create audio recording from file
+   * Get the stored audio file of a recording for streaming
+   * @param recordingId Recording ID
+   * @returns Audio file, or null if the recording or its file does not exist
+   */
+  public async getAudioFile(recordingId: string): Promise<AudioFile | null> {
+    const recording = await this.audioRecordingRepository.findById(recordingId);
+    if (!recording || !recording.file_path) {
+      return null;
+    }
+
+    try {
+      const stats = await stat(recording.file_path);
+      return {
+        filePath: recording.file_path,
+        size: stats.size,
+        contentType: AUDIO_CONTENT_TYPES[recording.file_format] || 'application/octet-stream'
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Create audio recording from file. Duration, sample rate, channel count and codec are read from the file headers.
    * @param sessionId Session ID
    * @param name Recording name
    * @param description Recording description
@@ -98,6 +167,7 @@ export class AudioRecordingService {
    * @param userId User ID
    * @param settings Audio recording settings
    * @returns Created audio recording
+   * @throws AudioMetadataError if the file is not a supported audio format or is corrupt
    */
   public async createFromFile(
     sessionId: string,
@@ -109,49 +179,206 @@ export class AudioRecordingService {
     settings?: Partial<AudioRecordingSettings>
   ): Promise<AudioRecording> {
     try {
-      // Merge settings with defaults
-      const mergedSettings = { ...this.defaultSettings, ...settings };
+      // Read audio metadata before anything is stored
+      const metadata = readAudioMetadata(file);
 
       // Generate unique file name
-      const fileExtension = path.extname(fileOriginalName);
+      const fileExtension = path.extname(fileOriginalName) || `.${metadata.format}`;
       const fileName = `${uuidv4()}${fileExtension}`;
       const filePath = path.join(this.uploadDir, fileName);
 
       // Save file
       await writeFile(filePath, file);
 
-      // Get file metadata (in a real implementation, you would use a library to get actual audio metadata)
-      const fileSizeBytes = file.length;
-      const durationSeconds = 0; // This would be extracted from the audio file
-
-      // Create audio recording
-      const params: AudioRecordingCreationParams = {
-        session_id: sessionId,
-        name: name,
-        description: description,
-        file_path: filePath,
-        duration_seconds: durationSeconds,
-        file_size_bytes: fileSizeBytes,
-        file_format: mergedSettings.file_format,
-        sample_rate: mergedSettings.sample_rate,
-        channels: mergedSettings.channels,
-        bit_depth: mergedSettings.bit_depth
-      };
+      return await this.createRecording(sessionId, name, description, filePath, file.length, metadata, userId, settings);
+    } catch (error) {
+      console.error('Error creating audio recording from file:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create audio recording from a file already on disk, such as an assembled chunked upload. The file is moved into
+   * the upload directory; only its headers and its end are read.
+   * @param sessionId Session ID
+   * @param name Recording name
+   * @param description Recording description
+   * @param sourcePath Path of the file
+   * @param userId User ID
+   * @param settings Audio recording settings
+   * @returns Created audio recording
+   * @throws AudioMetadataError if the file is not a supported audio format or is corrupt
+   */
+  public async createFromPath(
+    sessionId: string,
+    name: string,
+    description: string | undefined,
+    sourcePath: string,
+    userId: string,
+    settings?: Partial<AudioRecordingSettings>
+  ): Promise<AudioRecording> {
+    try {
+      const metadata = await readAudioMetadataFromFile(sourcePath);
+      const { size } = await stat(sourcePath);
+
+      const fileExtension = path.extname(sourcePath) || `.${metadata.format}`;
+      const filePath = path.join(this.uploadDir, `${uuidv4()}${fileExtension}`);
+      await rename(sourcePath, filePath);
 
-      const recording = await this.audioRecordingRepository.create(params, userId);
+      return await this.createRecording(sessionId, name, description, filePath, size, metadata, userId, settings);
+    } catch (error) {
+      console.error('Error creating audio recording from stored file:', error);
+      throw error;
+    }
+  }
 
-      // If auto-transcribe is enabled, start transcription process
-      if (mergedSettings.auto_transcribe) {
-        await this.startTranscription(recording.recording_id, userId, mergedSettings);
+  /**
+   * Create a recording from one track per speaker, such as the per-participant files Craig records from Discord.
+   * The tracks are mixed into the audio of the recording and kept to be transcribed one by one, so every segment is
+   * attributed to the speaker of its track without diarization.
+   * @param sessionId Session ID
+   * @param name Recording name
+   * @param description Recording description
+   * @param tracks Uploaded tracks, all starting at the start of the session
+   * @param userId User ID
+   * @param settings Audio recording settings
+   * @returns Created audio recording
+   * @throws AudioMetadataError if a track is not a supported audio format or is corrupt
+   * @throws AudioMixdownError if the tracks cannot be mixed
+   */
+  public async createMultiTrack(
+    sessionId: string,
+    name: string,
+    description: string | undefined,
+    tracks: AudioTrackUpload[],
+    userId: string,
+    settings?: Partial<AudioRecordingSettings>
+  ): Promise<AudioRecording> {
+    if (!this.audioMixdownService) {
+      throw new Error('Multi-track recordings are not supported');
+    }
+
+    const baseName = uuidv4();
+    const storedPaths: string[] = [];
+    try {
+      // Read the metadata of every track before anything is stored
+      const metadata = tracks.map((track) => readAudioMetadata(track.file));
+
+      const trackParams: AudioTrackCreationParams[] = [];
+      for (const [index, track] of tracks.entries()) {
+        const fileExtension = path.extname(track.file_name) || `.${metadata[index].format}`;
+        const filePath = path.join(this.uploadDir, `${baseName}-track-${index + 1}${fileExtension}`);
+        await writeFile(filePath, track.file);
+        storedPaths.push(filePath);
+
+        const speaker = track.speaker_id
+          ? { speaker_id: track.speaker_id }
+          : await this.transcriptionRepository.createOrUpdateSpeaker(
+              undefined,
+              track.speaker_name || speakerNameOfTrack(track.file_name),
+              track.character_id,
+              track.user_id
+            );
+
+        trackParams.push({
+          name: track.file_name,
+          file_path: filePath,
+          duration_seconds: metadata[index].duration_seconds,
+          file_size_bytes: track.file.length,
+          file_format: metadata[index].format,
+          codec: metadata[index].codec,
+          sample_rate: metadata[index].sample_rate,
+          channels: metadata[index].channels,
+          bit_depth: metadata[index].bit_depth,
+          speaker_id: speaker.speaker_id
+        });
       }
 
-      return recording;
+      const mixPath = path.join(this.uploadDir, `${baseName}.mp3`);
+      await this.audioMixdownService.mix(trackParams.map((track) => track.file_path), mixPath);
+      storedPaths.push(mixPath);
+      const mixMetadata = await readAudioMetadataFromFile(mixPath);
+      const { size: mixSize } = await stat(mixPath);
+
+      return await this.createRecording(
+        sessionId,
+        name,
+        description,
+        mixPath,
+        mixSize,
+        mixMetadata,
+        userId,
+        settings,
+        trackParams
+      );
     } catch (error) {
-      console.error('Error creating audio recording from file:', error);
+      console.error('Error creating multi-track audio recording:', error);
+      await Promise.all(storedPaths.map((storedPath) => fs.promises.rm(storedPath, { force: true })));
       throw error;
     }
   }
 
+  /**
+   * Create the audio recording of a stored file, queue computing its waveform and start transcribing it if enabled
+   * @param sessionId Session ID
+   * @param name Recording name
+   * @param description Recording description
+   * @param filePath Path of the stored file
+   * @param fileSizeBytes File size
+   * @param metadata Audio metadata read from the file
+   * @param userId User ID
+   * @param settings Audio recording settings
+   * @param tracks Per-speaker tracks of a multi-track recording
+   * @returns Created audio recording
+   */
+  private async createRecording(
+    sessionId: string,
+    name: string,
+    description: string | undefined,
+    filePath: string,
+    fileSizeBytes: number,
+    metadata: AudioMetadata,
+    userId: string,
+    settings?: Partial<AudioRecordingSettings>,
+    tracks: AudioTrackCreationParams[] = []
+  ): Promise<AudioRecording> {
+    // Merge settings with defaults
+    const mergedSettings = { ...this.defaultSettings, ...settings };
+
+    // Create audio recording
+    const params: AudioRecordingCreationParams = {
+      session_id: sessionId,
+      name: name,
+      description: description,
+      file_path: filePath,
+      duration_seconds: metadata.duration_seconds,
+      file_size_bytes: fileSizeBytes,
+      file_format: metadata.format,
+      codec: metadata.codec,
+      sample_rate: metadata.sample_rate,
+      channels: metadata.channels,
+      bit_depth: metadata.bit_depth
+    };
+
+    const recording = await this.audioRecordingRepository.create(params, userId);
+    if (tracks.length > 0) {
+      await this.audioRecordingRepository.createTracks(recording.recording_id, tracks);
+    }
+
+    await this.jobQueueService?.enqueue({
+      type: JobType.WAVEFORM,
+      payload: { recording_id: recording.recording_id },
+      created_by: userId
+    });
+
+    // If auto-transcribe is enabled, start transcription process
+    if (mergedSettings.auto_transcribe) {
+      await this.startTranscription(recording.recording_id, userId, mergedSettings);
+    }
+
+    return recording;
+  }
+
   /**
    * Update audio recording
    * @param recordingId Recording ID
@@ -176,13 +403,21 @@ export class AudioRecordingService {
         throw new Error('Recording not found');
       }
 
+      const tracks = await this.audioRecordingRepository.findTracks(recordingId);
+
       // Delete recording from database
       const deleted = await this.audioRecordingRepository.delete(recordingId);
 
-      // Delete file if it exists
+      // Delete file and its cached waveform if they exist
       if (deleted && recording.file_path && fs.existsSync(recording.file_path)) {
         await unlink(recording.file_path);
       }
+      if (deleted && recording.file_path) {
+        await fs.promises.rm(WaveformService.getCachePath(recording), { force: true });
+      }
+      if (deleted) {
+        await Promise.all(tracks.map((track) => fs.promises.rm(track.file_path, { force: true })));
+      }
 
       return deleted;
     } catch (error) {
@@ -192,17 +427,17 @@ export class AudioRecordingService {
   }
 
   /**
-   * Start transcription process
+   * Start transcription process. The transcription itself runs as a background job.
    * @param recordingId Recording ID
    * @param userId User ID
    * @param settings Audio recording settings
-   * @returns Transcription ID
+   * @returns Transcription ID and the ID of the job transcribing it, if one was queued
    */
   public async startTranscription(
     recordingId: string,
     userId: string,
     settings?: Partial<AudioRecordingSettings>
-  ): Promise<string> {
+  ): Promise<{ transcriptionId: string; jobId?: string }> {
     try {
       // Merge settings with defaults
       const mergedSettings = { ...this.defaultSettings, ...settings };
@@ -214,11 +449,15 @@ export class AudioRecordingService {
         throw new Error('Recording not found');
       }
 
-      // Check if transcription already exists
+      // Reuse an existing transcription; only transcribe it again if it has not completed
+      let transcriptionId: string | undefined;
       if (recording.transcription_id) {
         const transcription = await this.transcriptionRepository.findById(recording.transcription_id);
         if (transcription) {
-          return transcription.transcription_id;
+          if (recording.transcription_status === TranscriptionStatus.COMPLETED) {
+            return { transcriptionId: transcription.transcription_id };
+          }
+          transcriptionId = transcription.transcription_id;
         }
       }
 
@@ -227,24 +466,36 @@ export class AudioRecordingService {
         transcription_status: TranscriptionStatus.IN_PROGRESS
       });
 
-      // Create transcription
-      const transcriptionParams: TranscriptionCreationParams = {
-        recording_id: recordingId,
-        session_id: recording.session_id,
-        service_options: {
-          service: mergedSettings.transcription_service,
-          enable_speaker_diarization: mergedSettings.enable_speaker_diarization,
-          additional_options: {
-            noise_reduction_level: mergedSettings.noise_reduction_level
+      if (!transcriptionId) {
+        // Create transcription
+        const transcriptionParams: TranscriptionCreationParams = {
+          recording_id: recordingId,
+          session_id: recording.session_id,
+          service_options: {
+            service: mergedSettings.transcription_service,
+            enable_speaker_diarization: mergedSettings.enable_speaker_diarization,
+            additional_options: {
+              noise_reduction_level: mergedSettings.noise_reduction_level
+            }
           }
-        }
-      };
+        };
+
+        const transcription = await this.transcriptionRepository.create(transcriptionParams);
+        transcriptionId = transcription.transcription_id;
+      }
 
-      const transcription = await this.transcriptionRepository.create(transcriptionParams);
+      const job = await this.jobQueueService?.enqueue({
+        type: JobType.TRANSCRIPTION,
+        payload: {
+          transcription_id: transcriptionId,
+          recording_id: recordingId,
+          service: mergedSettings.transcription_service,
+          enable_speaker_diarization: mergedSettings.enable_speaker_diarization
+        },
+        created_by: userId
+      });
 
-      // In a real implementation, you would start the transcription process asynchronously
-      // For now, we'll just return the transcription ID
-      return transcription.transcription_id;
+      return { transcriptionId, jobId: job?.job_id };
     } catch (error) {
       console.error('Error starting transcription:', error);
       throw error;
@@ -0,0 +1,87 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { AudioRange } from '../models/redaction.model';
+import { runFfmpeg } from '../utils/ffmpeg';
+
+/**
+ * Audio redaction options
+ */
+export interface AudioRedactionOptions {
+  /**
+   * Path or name on the PATH of the ffmpeg command line tool
+   */
+  ffmpegPath: string;
+  /**
+   * Longest silencing a file may take before ffmpeg is stopped; 0 disables the limit
+   */
+  timeoutMs: number;
+}
+
+const DEFAULT_OPTIONS: AudioRedactionOptions = {
+  ffmpegPath: 'ffmpeg',
+  timeoutMs: 0
+};
+
+/**
+ * Error thrown when audio cannot be silenced
+ */
+export class AudioRedactionError extends Error {
+  public readonly code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.name = 'AudioRedactionError';
+    this.code = code;
+  }
+}
+
+/**
+ * Silences redacted stretches of stored audio files with ffmpeg. The file is rewritten in its own format next to the
+ * original and moved over it once complete, so a failed run leaves the original as it was.
+ */
+export class AudioRedactionService {
+  private options: AudioRedactionOptions;
+
+  /**
+   * @param options Audio redaction options
+   */
+  constructor(options: Partial<AudioRedactionOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Silence stretches of an audio file, keeping its length
+   * @param filePath Path of the file
+   * @param ranges Stretches to silence, in seconds from the start of the file
+   * @throws AudioRedactionError if ffmpeg fails
+   */
+  public async silence(filePath: string, ranges: AudioRange[]): Promise<void> {
+    if (ranges.length === 0) {
+      return;
+    }
+
+    // Keep the extension last so that ffmpeg writes the format of the original
+    const extension = path.extname(filePath);
+    const outputPath = path.join(
+      path.dirname(filePath),
+      `.${path.basename(filePath, extension)}.redacting${extension}`
+    );
+    const enable = ranges
+      .map((range) => `between(t,${range.start_time.toFixed(3)},${range.end_time.toFixed(3)})`)
+      .join('+');
+
+    try {
+      await runFfmpeg([
+        '-hide_banner', '-loglevel', 'error', '-y',
+        '-i', filePath,
+        '-map_metadata', '0',
+        '-af', `volume=enable='${enable}':volume=0`,
+        outputPath
+      ], this.options, (message) => new AudioRedactionError('SILENCING_FAILED', message));
+      await fs.rename(outputPath, filePath);
+    } catch (error) {
+      await fs.unlink(outputPath).catch(() => undefined);
+      throw error;
+    }
+  }
+}
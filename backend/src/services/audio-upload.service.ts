@@ -0,0 +1,372 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { AudioRecordingService } from './audio-recording.service';
+import { SessionRepository } from '../repositories/session.repository';
+import { AudioRecording } from '../models/audio-recording.model';
+import {
+  AudioUpload,
+  AudioUploadCompletionParams,
+  AudioUploadCreationParams,
+  AudioUploadStatus
+} from '../models/audio-upload.model';
+
+/**
+ * Resumable upload options
+ */
+export interface AudioUploadOptions {
+  /**
+   * Directory holding the chunks of unfinished uploads
+   */
+  directory: string;
+  /**
+   * Most data a single chunk may hold, in bytes
+   */
+  maxChunkSize: number;
+  /**
+   * Most data an upload may hold in total, in bytes
+   */
+  maxUploadSize: number;
+  /**
+   * Hours without a new chunk after which an unfinished upload is discarded
+   */
+  expiryHours: number;
+}
+
+const DEFAULT_OPTIONS: AudioUploadOptions = {
+  directory: path.join(process.cwd(), 'uploads', 'audio', 'incoming'),
+  maxChunkSize: 16 * 1024 * 1024,
+  maxUploadSize: 2 * 1024 * 1024 * 1024,
+  expiryHours: 48
+};
+
+/**
+ * File holding the upload description in an upload directory
+ */
+const MANIFEST_FILE = 'upload.json';
+
+/**
+ * Chunk file names: the chunk number padded to a fixed width, so they sort in order
+ */
+const CHUNK_FILE = /^chunk-(\d{6})$/;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Error thrown when an upload or one of its chunks is rejected
+ */
+export class AudioUploadError extends Error {
+  public code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.name = 'AudioUploadError';
+    this.code = code;
+  }
+}
+
+/**
+ * Service for resumable audio uploads.
+ *
+ * A recording is sent as numbered chunks of any size up to the chunk limit. Chunks may arrive in any order and
+ * may be sent again; the server keeps each chunk in its own file, so a client that lost its connection asks which
+ * chunks arrived and sends the rest. Completing an upload joins the chunks in order and creates the audio recording.
+ */
+export class AudioUploadService {
+  private audioRecordingService: AudioRecordingService;
+  private sessionRepository: SessionRepository;
+  private options: AudioUploadOptions;
+  private completing = new Set<string>();
+
+  /**
+   * @param audioRecordingService Audio recording service
+   * @param sessionRepository Session repository
+   * @param options Resumable upload options
+   */
+  constructor(
+    audioRecordingService: AudioRecordingService,
+    sessionRepository: SessionRepository,
+    options: Partial<AudioUploadOptions> = {}
+  ) {
+    this.audioRecordingService = audioRecordingService;
+    this.sessionRepository = sessionRepository;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Start an upload. Uploads abandoned for longer than the expiry time are discarded first.
+   * @param params Audio upload creation parameters
+   * @param userId User ID
+   * @returns Upload status
+   * @throws AudioUploadError if the session does not exist
+   */
+  public async initiate(params: AudioUploadCreationParams, userId: string): Promise<AudioUploadStatus> {
+    await this.purgeExpired();
+
+    if (!(await this.sessionRepository.findById(params.session_id))) {
+      throw new AudioUploadError('SESSION_NOT_FOUND', 'Session not found');
+    }
+
+    const upload: AudioUpload = {
+      upload_id: uuidv4(),
+      session_id: params.session_id,
+      file_name: path.basename(params.file_name),
+      created_by: userId,
+      created_at: new Date().toISOString(),
+      max_chunk_size: this.options.maxChunkSize
+    };
+
+    await fs.promises.mkdir(this.uploadDir(upload.upload_id), { recursive: true });
+    await fs.promises.writeFile(path.join(this.uploadDir(upload.upload_id), MANIFEST_FILE), JSON.stringify(upload));
+
+    return this.describe(upload);
+  }
+
+  /**
+   * Get an upload and the chunks received so far
+   * @param uploadId Upload ID
+   * @param userId User ID; uploads of other users are not found
+   * @returns Upload status, or null if not found
+   */
+  public async getStatus(uploadId: string, userId: string): Promise<AudioUploadStatus | null> {
+    const upload = await this.readUpload(uploadId, userId);
+    return upload ? this.describe(upload) : null;
+  }
+
+  /**
+   * Store a chunk of an upload, replacing any earlier copy of it
+   * @param uploadId Upload ID
+   * @param index Chunk number, from 0
+   * @param data Chunk data
+   * @param userId User ID
+   * @returns Upload status
+   * @throws AudioUploadError if the upload does not exist, or the chunk is empty or too large
+   */
+  public async putChunk(uploadId: string, index: number, data: Buffer, userId: string): Promise<AudioUploadStatus> {
+    const upload = await this.requireUpload(uploadId, userId);
+
+    if (!Number.isInteger(index) || index < 0 || index > 999999) {
+      throw new AudioUploadError('INVALID_CHUNK', 'Chunk numbers run from 0 to 999999');
+    }
+    if (data.length === 0) {
+      throw new AudioUploadError('INVALID_CHUNK', 'Chunk is empty');
+    }
+    if (data.length > this.options.maxChunkSize) {
+      throw new AudioUploadError('CHUNK_TOO_LARGE', `Chunks may hold at most ${this.options.maxChunkSize} bytes`);
+    }
+
+    const chunks = await this.listChunks(uploadId);
+    const otherBytes = chunks.filter((chunk) => chunk.index !== index).reduce((total, chunk) => total + chunk.size, 0);
+    if (otherBytes + data.length > this.options.maxUploadSize) {
+      throw new AudioUploadError('UPLOAD_TOO_LARGE', `Uploads may hold at most ${this.options.maxUploadSize} bytes`);
+    }
+
+    // Write under a temporary name so an interrupted request never leaves a partial chunk behind
+    const chunkPath = path.join(this.uploadDir(uploadId), this.chunkFileName(index));
+    const temporaryPath = `${chunkPath}.${uuidv4()}.part`;
+    await fs.promises.writeFile(temporaryPath, data);
+    await fs.promises.rename(temporaryPath, chunkPath);
+
+    return this.describe(upload);
+  }
+
+  /**
+   * Join the chunks of an upload and create the audio recording
+   * @param uploadId Upload ID
+   * @param params Completion parameters
+   * @param userId User ID
+   * @returns Created audio recording
+   * @throws AudioUploadError if the upload does not exist, is being completed already or misses chunks
+   * @throws AudioMetadataError if the joined file is not a supported audio format
+   */
+  public async complete(uploadId: string, params: AudioUploadCompletionParams, userId: string): Promise<AudioRecording> {
+    const upload = await this.requireUpload(uploadId, userId);
+
+    if (this.completing.has(uploadId)) {
+      throw new AudioUploadError('UPLOAD_IN_PROGRESS', 'The upload is already being completed');
+    }
+    this.completing.add(uploadId);
+
+    const assembledPath = path.join(this.uploadDir(uploadId), `assembled${path.extname(upload.file_name)}`);
+    try {
+      const received = new Set((await this.listChunks(uploadId)).map((chunk) => chunk.index));
+      const missing: number[] = [];
+      for (let index = 0; index < params.total_chunks; index++) {
+        if (!received.has(index)) {
+          missing.push(index);
+        }
+      }
+      if (params.total_chunks < 1 || missing.length > 0) {
+        throw new AudioUploadError(
+          'MISSING_CHUNKS',
+          params.total_chunks < 1 ? 'The upload has no chunks' : `Missing chunks: ${missing.slice(0, 20).join(', ')}`
+        );
+      }
+
+      await fs.promises.writeFile(assembledPath, Buffer.alloc(0));
+      for (let index = 0; index < params.total_chunks; index++) {
+        await fs.promises.appendFile(
+          assembledPath,
+          await fs.promises.readFile(path.join(this.uploadDir(uploadId), this.chunkFileName(index)))
+        );
+      }
+
+      const recording = await this.audioRecordingService.createFromPath(
+        upload.session_id,
+        params.name,
+        params.description,
+        assembledPath,
+        userId,
+        params.settings
+      );
+
+      await fs.promises.rm(this.uploadDir(uploadId), { recursive: true, force: true });
+      return recording;
+    } finally {
+      await fs.promises.rm(assembledPath, { force: true });
+      this.completing.delete(uploadId);
+    }
+  }
+
+  /**
+   * Discard an upload and its chunks
+   * @param uploadId Upload ID
+   * @param userId User ID
+   * @returns True if the upload existed
+   */
+  public async abort(uploadId: string, userId: string): Promise<boolean> {
+    if (!(await this.readUpload(uploadId, userId)) || this.completing.has(uploadId)) {
+      return false;
+    }
+    await fs.promises.rm(this.uploadDir(uploadId), { recursive: true, force: true });
+    return true;
+  }
+
+  /**
+   * Discard uploads that received no chunk within the expiry time
+   * @param now Current time
+   * @returns Number of discarded uploads
+   */
+  public async purgeExpired(now: Date = new Date()): Promise<number> {
+    if (this.options.expiryHours <= 0) {
+      return 0;
+    }
+
+    let entries: string[];
+    try {
+      entries = await fs.promises.readdir(this.options.directory);
+    } catch (error) {
+      return 0;
+    }
+
+    const cutoff = now.getTime() - this.options.expiryHours * HOUR_MS;
+    let purged = 0;
+    for (const uploadId of entries) {
+      if (this.completing.has(uploadId)) {
+        continue;
+      }
+      const upload = await this.readUpload(uploadId);
+      if (upload && new Date((await this.describe(upload)).updated_at).getTime() < cutoff) {
+        await fs.promises.rm(this.uploadDir(uploadId), { recursive: true, force: true });
+        purged++;
+      }
+    }
+    return purged;
+  }
+
+  /**
+   * Get the directory of an upload
+   * @param uploadId Upload ID
+   * @returns Directory path
+   */
+  private uploadDir(uploadId: string): string {
+    return path.join(this.options.directory, uploadId);
+  }
+
+  /**
+   * Get the file name of a chunk
+   * @param index Chunk number
+   * @returns File name
+   */
+  private chunkFileName(index: number): string {
+    return `chunk-${String(index).padStart(6, '0')}`;
+  }
+
+  /**
+   * Read the description of an upload
+   * @param uploadId Upload ID
+   * @param userId Only find uploads of this user
+   * @returns Upload, or null if not found
+   */
+  private async readUpload(uploadId: string, userId?: string): Promise<AudioUpload | null> {
+    // Upload IDs become directory names; anything but a UUID could point outside the upload directory
+    if (!/^[0-9a-f-]{36}$/i.test(uploadId)) {
+      return null;
+    }
+    try {
+      const upload = JSON.parse(await fs.promises.readFile(path.join(this.uploadDir(uploadId), MANIFEST_FILE), 'utf8')) as AudioUpload;
+      return userId === undefined || upload.created_by === userId ? upload : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Read the description of an upload that must exist
+   * @param uploadId Upload ID
+   * @param userId User ID
+   * @returns Upload
+   * @throws AudioUploadError if the upload does not exist
+   */
+  private async requireUpload(uploadId: string, userId: string): Promise<AudioUpload> {
+    const upload = await this.readUpload(uploadId, userId);
+    if (!upload) {
+      throw new AudioUploadError('UPLOAD_NOT_FOUND', 'Upload not found');
+    }
+    return upload;
+  }
+
+  /**
+   * List the chunks stored for an upload
+   * @param uploadId Upload ID
+   * @returns Chunk numbers, sizes and modification times, ordered by number
+   */
+  private async listChunks(uploadId: string): Promise<{ index: number; size: number; modified: Date }[]> {
+    const chunks: { index: number; size: number; modified: Date }[] = [];
+    for (const name of (await fs.promises.readdir(this.uploadDir(uploadId))).sort()) {
+      const match = CHUNK_FILE.exec(name);
+      if (match) {
+        const stats = await fs.promises.stat(path.join(this.uploadDir(uploadId), name));
+        chunks.push({ index: parseInt(match[1], 10), size: stats.size, modified: stats.mtime });
+      }
+    }
+    return chunks;
+  }
+
+  /**
+   * Describe an upload with the chunks received so far
+   * @param upload Upload
+   * @returns Upload status
+   */
+  private async describe(upload: AudioUpload): Promise<AudioUploadStatus> {
+    const chunks = await this.listChunks(upload.upload_id);
+
+    const ranges: [number, number][] = [];
+    for (const chunk of chunks) {
+      const last = ranges[ranges.length - 1];
+      if (last && last[1] === chunk.index - 1) {
+        last[1] = chunk.index;
+      } else {
+        ranges.push([chunk.index, chunk.index]);
+      }
+    }
+
+    const lastChange = chunks.reduce((latest, chunk) => Math.max(latest, chunk.modified.getTime()), new Date(upload.created_at).getTime());
+    return {
+      ...upload,
+      received_chunks: ranges,
+      received_bytes: chunks.reduce((total, chunk) => total + chunk.size, 0),
+      updated_at: new Date(lastChange).toISOString()
+    };
+  }
+}
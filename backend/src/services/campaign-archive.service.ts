@@ -0,0 +1,365 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { pipeline, Readable } from 'stream';
+import { pipeline as pipelineAsync } from 'stream/promises';
+import { promisify } from 'util';
+import { createGunzip, createGzip } from 'zlib';
+import { v4 as uuidv4 } from 'uuid';
+import { CampaignArchiveRepository } from '../repositories/campaign-archive.repository';
+import {
+  CAMPAIGN_ARCHIVE_FORMAT,
+  CAMPAIGN_ARCHIVE_VERSION,
+  CampaignArchiveGraph,
+  CampaignArchiveManifest,
+  CampaignImportOptions,
+  CampaignImportResult
+} from '../models/campaign-archive.model';
+import { identifyNode } from '../utils/graph-keys';
+import { createTar, extractTar, TarEntry } from '../utils/tar';
+import config from '../config';
+
+const readFile = promisify(fs.readFile);
+const copyFile = promisify(fs.copyFile);
+const mkdir = promisify(fs.mkdir);
+const mkdtemp = promisify(fs.mkdtemp);
+const rm = promisify(fs.rm);
+
+/**
+ * Node properties that point at uploaded files
+ */
+const FILE_PROPERTIES = ['file_path', 'image_url'];
+
+/**
+ * Node properties stored as JSON strings, by label. IDs inside them are remapped on import like the other properties.
+ */
+const JSON_PROPERTIES: Record<string, string[]> = {
+  SpeakerProfile: ['features'],
+  TranscriptRevision: ['before', 'after'],
+  TranscriptionSegment: ['words'],
+  SessionAnalysis: ['key_points', 'character_insights', 'plot_developments', 'sentiment_analysis', 'topics', 'metadata']
+};
+
+/**
+ * URL prefix under which the upload directory is served
+ */
+const UPLOADS_URL_PREFIX = '/uploads/';
+
+/**
+ * Error raised for archives that cannot be imported
+ */
+export class CampaignArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CampaignArchiveError';
+  }
+}
+
+/**
+ * Service for exporting campaigns to portable archives and importing them again.
+ *
+ * An archive is a gzipped tar file holding manifest.json, graph.json and the uploaded files under files/.
+ */
+export class CampaignArchiveService {
+  private campaignArchiveRepository: CampaignArchiveRepository;
+  private uploadRoot: string;
+
+  /**
+   * @param campaignArchiveRepository Campaign archive repository
+   * @param uploadRoot Directory that uploaded files are stored in
+   */
+  constructor(
+    campaignArchiveRepository: CampaignArchiveRepository,
+    uploadRoot: string = path.resolve(process.cwd(), config.upload.directory)
+  ) {
+    this.campaignArchiveRepository = campaignArchiveRepository;
+    this.uploadRoot = uploadRoot;
+  }
+
+  /**
+   * Export a campaign. Uploaded files are read from disk while the archive is streamed.
+   * @param campaignId Campaign ID
+   * @returns Archive file name and gzipped contents, or null if the campaign does not exist
+   */
+  public async exportCampaign(campaignId: string): Promise<{ fileName: string; data: Readable } | null> {
+    try {
+      const graph = await this.campaignArchiveRepository.readCampaignGraph(campaignId);
+      if (!graph) {
+        return null;
+      }
+
+      const fileEntries: TarEntry[] = [];
+      for (const node of graph.nodes) {
+        for (const property of FILE_PROPERTIES) {
+          const source = this.resolveUpload(property, node.properties[property]);
+          if (!source || !fs.existsSync(source)) {
+            continue;
+          }
+          const relative = path.relative(this.uploadRoot, source);
+          const archivePath = relative.startsWith('..') || path.isAbsolute(relative)
+            ? `files/external/${node.ref}-${path.basename(source)}`
+            : `files/${relative.split(path.sep).join('/')}`;
+          graph.files.push({ node: node.ref, property, path: archivePath });
+          fileEntries.push({ name: archivePath, filePath: source });
+        }
+      }
+
+      const campaign = graph.nodes.find((node) => node.labels.includes('Campaign') && node.properties.campaign_id === campaignId);
+      const manifest: CampaignArchiveManifest = {
+        format: CAMPAIGN_ARCHIVE_FORMAT,
+        version: CAMPAIGN_ARCHIVE_VERSION,
+        exported_at: new Date().toISOString(),
+        app_version: config.version,
+        campaign_id: campaignId,
+        campaign_name: campaign?.properties.name || '',
+        counts: {
+          nodes: graph.nodes.length,
+          relationships: graph.relationships.length,
+          files: graph.files.length
+        }
+      };
+
+      const tar = createTar([
+        { name: 'manifest.json', data: Buffer.from(JSON.stringify(manifest, null, 2)) },
+        { name: 'graph.json', data: Buffer.from(JSON.stringify(graph)) },
+        ...fileEntries
+      ]);
+      // Errors reading the uploaded files destroy the returned stream
+      const data = pipeline(tar, createGzip(), (error) => {
+        if (error) {
+          console.error('Error writing campaign archive:', error);
+        }
+      });
+
+      const slug = (manifest.campaign_name || 'campaign').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+      return {
+        fileName: `${slug || 'campaign'}-${manifest.exported_at.slice(0, 10)}.rpgarchive.tar.gz`,
+        data
+      };
+    } catch (error) {
+      console.error('Error exporting campaign:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Import a campaign archive. Every exported node gets a new ID, so an archive can be imported
+   * several times and into the instance it came from.
+   * @param archivePath Path of the archive file
+   * @param options Import options
+   * @returns Import outcome
+   */
+  public async importCampaign(archivePath: string, options: CampaignImportOptions): Promise<CampaignImportResult> {
+    const directory = await mkdtemp(path.join(os.tmpdir(), 'campaign-import-'));
+    try {
+      const { manifest, graph, files } = await this.readArchive(archivePath, directory);
+
+      const campaign = graph.nodes.find(
+        (node) => node.labels.includes('Campaign') && node.properties.campaign_id === manifest.campaign_id
+      );
+      if (!campaign) {
+        throw new CampaignArchiveError('Campaign archive does not contain its campaign');
+      }
+
+      // New IDs for every exported node, and the target world in place of the original one
+      const idMap = new Map<string, string>();
+      for (const node of graph.nodes) {
+        const key = identifyNode(node.labels, node.properties);
+        if (key && typeof key.value === 'string') {
+          idMap.set(key.value, uuidv4());
+        }
+      }
+      if (options.worldId) {
+        for (const node of graph.external.filter((external) => external.label === 'RPGWorld')) {
+          idMap.set(node.value, options.worldId);
+          node.value = options.worldId;
+        }
+      }
+      for (const node of graph.nodes) {
+        const jsonProperties = node.labels.flatMap((label) => JSON_PROPERTIES[label] || []);
+        node.properties = this.remapProperties(node.properties, idMap, jsonProperties);
+      }
+      for (const relationship of graph.relationships) {
+        relationship.properties = this.remapProperties(relationship.properties, idMap);
+      }
+
+      if (options.name) {
+        campaign.properties.name = options.name;
+      }
+
+      // Make the importing user the campaign's creator
+      const importer = graph.external.find((node) => node.label === 'User' && node.value === options.userId);
+      const importerRef = importer?.ref || 'importer';
+      if (!importer) {
+        graph.external.push({ ref: importerRef, label: 'User', key: 'user_id', value: options.userId });
+      }
+      const isCreator = graph.relationships.some(
+        (relationship) => relationship.type === 'CREATED' && relationship.start === importerRef && relationship.end === campaign.ref
+      );
+      if (!isCreator) {
+        graph.relationships.push({ type: 'CREATED', start: importerRef, end: campaign.ref, properties: {} });
+      }
+
+      // Files are copied first so that their nodes point at the copies, and removed again if the graph is not written
+      const restoredFiles: string[] = [];
+      let written: { relationships: number; skipped: number };
+      try {
+        await this.restoreFiles(graph, directory, files, restoredFiles);
+        written = await this.campaignArchiveRepository.writeCampaignGraph(graph);
+      } catch (error) {
+        await Promise.all(restoredFiles.map((file) => rm(file, { force: true })));
+        throw error;
+      }
+
+      return {
+        campaign_id: campaign.properties.campaign_id,
+        nodes: graph.nodes.length,
+        relationships: written.relationships,
+        files: restoredFiles.length,
+        skipped_relationships: written.skipped
+      };
+    } catch (error) {
+      console.error('Error importing campaign:', error);
+      throw error;
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Unpack and validate an archive
+   * @param archivePath Path of the archive file
+   * @param directory Directory to unpack into
+   * @returns Manifest, graph and the archive paths of the unpacked files
+   */
+  private async readArchive(
+    archivePath: string,
+    directory: string
+  ): Promise<{ manifest: CampaignArchiveManifest; graph: CampaignArchiveGraph; files: Set<string> }> {
+    const files = new Set<string>();
+    try {
+      await pipelineAsync(fs.createReadStream(archivePath), createGunzip(), async (archive: AsyncIterable<Buffer>) => {
+        for (const name of await extractTar(archive, directory)) {
+          files.add(name);
+        }
+      });
+    } catch (error) {
+      throw new CampaignArchiveError('File is not a campaign archive');
+    }
+
+    if (!files.has('manifest.json') || !files.has('graph.json')) {
+      throw new CampaignArchiveError('File is not a campaign archive');
+    }
+
+    let manifest: CampaignArchiveManifest;
+    let graph: CampaignArchiveGraph;
+    try {
+      manifest = JSON.parse(await readFile(path.join(directory, 'manifest.json'), 'utf8'));
+      graph = JSON.parse(await readFile(path.join(directory, 'graph.json'), 'utf8'));
+    } catch (error) {
+      throw new CampaignArchiveError('Campaign archive is corrupt');
+    }
+
+    if (manifest.format !== CAMPAIGN_ARCHIVE_FORMAT) {
+      throw new CampaignArchiveError('File is not a campaign archive');
+    }
+    if (!Number.isInteger(manifest.version) || manifest.version > CAMPAIGN_ARCHIVE_VERSION) {
+      throw new CampaignArchiveError(
+        `Campaign archive version ${manifest.version} is not supported; this instance reads up to version ${CAMPAIGN_ARCHIVE_VERSION}`
+      );
+    }
+
+    return { manifest, graph, files };
+  }
+
+  /**
+   * Replace IDs in property values
+   * @param properties Properties
+   * @param idMap Old ID to new ID
+   * @param jsonProperties Properties holding JSON strings, whose parsed values are searched for IDs too
+   * @returns Properties with IDs replaced
+   */
+  private remapProperties(
+    properties: Record<string, any>,
+    idMap: Map<string, string>,
+    jsonProperties: string[] = []
+  ): Record<string, any> {
+    const remap = (value: any): any => {
+      if (typeof value === 'string') {
+        return idMap.get(value) ?? value;
+      }
+      return Array.isArray(value) ? value.map(remap) : value;
+    };
+    const remapParsed = (value: any): any =>
+      value !== null && typeof value === 'object' && !Array.isArray(value)
+        ? Object.fromEntries(Object.entries(value).map(([key, nested]) => [key, remapParsed(nested)]))
+        : Array.isArray(value) ? value.map(remapParsed) : remap(value);
+    const remapJson = (value: string): string => {
+      try {
+        return JSON.stringify(remapParsed(JSON.parse(value)));
+      } catch (error) {
+        return value;
+      }
+    };
+
+    return Object.fromEntries(
+      Object.entries(properties).map(([key, value]) => [
+        key,
+        jsonProperties.includes(key) && typeof value === 'string' ? remapJson(value) : remap(value)
+      ])
+    );
+  }
+
+  /**
+   * Copy unpacked files into the upload directory under new names and point their nodes at them
+   * @param graph Campaign graph
+   * @param directory Directory the archive was unpacked into
+   * @param files Archive paths of the unpacked files
+   * @param restored Paths of the copied files, added to as each file is copied
+   */
+  private async restoreFiles(
+    graph: CampaignArchiveGraph,
+    directory: string,
+    files: Set<string>,
+    restored: string[]
+  ): Promise<void> {
+    const nodes = new Map(graph.nodes.map((node) => [node.ref, node]));
+
+    for (const file of graph.files) {
+      const node = nodes.get(file.node);
+      if (!node || !files.has(file.path) || !FILE_PROPERTIES.includes(file.property)) {
+        continue;
+      }
+
+      const targetDirectory = path.resolve(this.uploadRoot, path.dirname(file.path.replace(/^files\//, '')));
+      if (targetDirectory !== this.uploadRoot && !targetDirectory.startsWith(this.uploadRoot + path.sep)) {
+        throw new CampaignArchiveError(`Invalid file path in campaign archive: ${file.path}`);
+      }
+
+      await mkdir(targetDirectory, { recursive: true });
+      const target = path.join(targetDirectory, `${uuidv4()}${path.extname(file.path)}`);
+      await copyFile(path.join(directory, file.path), target);
+      restored.push(target);
+
+      node.properties[file.property] = file.property === 'file_path'
+        ? target
+        : UPLOADS_URL_PREFIX + path.relative(this.uploadRoot, target).split(path.sep).join('/');
+    }
+  }
+
+  /**
+   * Find the file behind an upload property
+   * @param property Property name
+   * @param value Property value
+   * @returns Absolute file path, or null if the value does not point at a local upload
+   */
+  private resolveUpload(property: string, value: unknown): string | null {
+    if (typeof value !== 'string' || value === '') {
+      return null;
+    }
+    if (property === 'file_path') {
+      return path.resolve(process.cwd(), value);
+    }
+    return value.startsWith(UPLOADS_URL_PREFIX) ? path.join(this.uploadRoot, value.slice(UPLOADS_URL_PREFIX.length)) : null;
+  }
+}
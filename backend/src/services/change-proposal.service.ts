@@ -190,10 +190,10 @@ export class ChangeProposalService {
           result = await this.applyCreateProposal(proposal);
           break;
         case ProposalType.UPDATE:
-          result = await this.applyUpdateProposal(proposal);
+          result = await this.applyUpdateProposal(proposal, userId);
           break;
         case ProposalType.DELETE:
-          result = await this.applyDeleteProposal(proposal);
+          result = await this.applyDeleteProposal(proposal, userId);
           break;
         case ProposalType.RELATE:
           result = await this.applyRelateProposal(proposal);
@@ -276,9 +276,10 @@ export class ChangeProposalService {
   /**
    * Apply update proposal
    * @param proposal Proposal
+   * @param userId User ID of the user applying the proposal
    * @returns Application result
    */
-  private async applyUpdateProposal(proposal: ChangeProposal): Promise<ProposalApplicationResult> {
+  private async applyUpdateProposal(proposal: ChangeProposal, userId: string): Promise<ProposalApplicationResult> {
     try {
       // Check if entity ID is provided
       if (!proposal.entityId) {
@@ -309,8 +310,8 @@ export class ChangeProposalService {
         entityData[change.field] = change.newValue;
       }
 
-      // Update the entity
-      const updatedEntity = await repository.update(proposal.entityId, entityData);
+      // Update the entity, attributing the revision to the proposal
+      const updatedEntity = await repository.update(proposal.entityId, entityData, { proposalId: proposal.id, userId });
 
       return {
         success: true,
@@ -332,9 +333,10 @@ export class ChangeProposalService {
   /**
    * Apply delete proposal
    * @param proposal Proposal
+   * @param userId User ID of the user applying the proposal
    * @returns Application result
    */
-  private async applyDeleteProposal(proposal: ChangeProposal): Promise<ProposalApplicationResult> {
+  private async applyDeleteProposal(proposal: ChangeProposal, userId: string): Promise<ProposalApplicationResult> {
     try {
       // Check if entity ID is provided
       if (!proposal.entityId) {
@@ -357,7 +359,7 @@ export class ChangeProposalService {
       }
 
       // Delete the entity
-      const deleted = await repository.delete(proposal.entityId);
+      const deleted = await repository.delete(proposal.entityId, userId);
 
       if (!deleted) {
         return {
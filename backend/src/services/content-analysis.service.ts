@@ -2,6 +2,7 @@ import { ContentAnalysisRepository } from '../repositories/content-analysis.repo
 import { LLMService } from './llm.service';
 import { SessionAnalysisService } from './session-analysis.service';
 import { TranscriptionService } from './transcription.service';
+import { RedactionService } from './redaction.service';
 import { RepositoryFactory } from '../repositories/repository.factory';
 import {
   ContentSuggestion,
@@ -20,6 +21,8 @@ import {
   NoteSuggestion
 } from '../models/content-analysis.model';
 import { LLMMessage, LLMMessageRole } from '../models/llm.model';
+import { filterSegmentsByCategory } from '../utils/segment-categories';
+import { withTextVersion } from '../utils/language-detection';
 import { v4 as uuidv4 } from 'uuid';
 
 /**
@@ -31,19 +34,30 @@ export class ContentAnalysisService {
   private sessionAnalysisService: SessionAnalysisService;
   private transcriptionService: TranscriptionService;
   private repositoryFactory: RepositoryFactory;
+  private redactionService?: RedactionService;
 
+  /**
+   * @param contentAnalysisRepository Content analysis repository
+   * @param llmService LLM service
+   * @param sessionAnalysisService Session analysis service
+   * @param transcriptionService Transcription service
+   * @param repositoryFactory Repository factory
+   * @param redactionService Keeps redacted material out of the content sent to the language model
+   */
   constructor(
     contentAnalysisRepository: ContentAnalysisRepository,
     llmService: LLMService,
     sessionAnalysisService: SessionAnalysisService,
     transcriptionService: TranscriptionService,
-    repositoryFactory: RepositoryFactory
+    repositoryFactory: RepositoryFactory,
+    redactionService?: RedactionService
   ) {
     this.contentAnalysisRepository = contentAnalysisRepository;
     this.llmService = llmService;
     this.sessionAnalysisService = sessionAnalysisService;
     this.transcriptionService = transcriptionService;
     this.repositoryFactory = repositoryFactory;
+    this.redactionService = redactionService;
   }
 
   /**
@@ -164,12 +178,23 @@ export class ContentAnalysisService {
       // Get content to analyze
       let content = request.content || '';
 
+      // Session whose redaction rules apply to the content
+      let redactionSessionId = request.contextType?.toLowerCase() === 'session' ? request.contextId : undefined;
+
       // If transcription ID is provided, get transcription content
       if (request.transcriptionId) {
         const transcription = await this.transcriptionService.getById(request.transcriptionId);
 
         if (transcription) {
-          content = transcription.segments.map((segment: any) =>
+          redactionSessionId = transcription.session_id;
+          const redacted = this.redactionService
+            ? (await this.redactionService.redactSegments(transcription.session_id, transcription.segments)).segments
+            : transcription.segments;
+          const segments = withTextVersion(
+            filterSegmentsByCategory(redacted, request.options?.segmentCategories),
+            request.options?.textVersion
+          );
+          content = segments.map((segment: any) =>
             `${segment.speaker ? segment.speaker + ': ' : ''}${segment.text}`
           ).join('\n\n');
         }
@@ -190,6 +215,9 @@ export class ContentAnalysisService {
         }
       }
 
+      // Keep redacted material out of the prompts, including content written before a rule was added
+      content = await this.redactContent(content, request, redactionSessionId);
+
       // Get context data
       let contextData: any = null;
 
@@ -228,6 +256,26 @@ export class ContentAnalysisService {
     }
   }
 
+  /**
+   * Redact content with the rules of the campaign it is about
+   * @param content Content to analyze
+   * @param request Analysis request
+   * @param sessionId Session the content is about
+   * @returns Redacted content, or the content as given when no redaction service is set up
+   */
+  private async redactContent(content: string, request: ContentAnalysisRequest, sessionId?: string): Promise<string> {
+    if (!this.redactionService) {
+      return content;
+    }
+    if (sessionId) {
+      return this.redactionService.redactSessionText(sessionId, content);
+    }
+    if (request.contextId && request.contextType?.toLowerCase() === 'campaign') {
+      return this.redactionService.redactCampaignText(request.contextId, content);
+    }
+    return content;
+  }
+
   /**
    * Get context data for analysis
    * @param contextId Context ID
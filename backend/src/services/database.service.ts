@@ -1,21 +1,69 @@
 import neo4j, { Driver, Session, Transaction } from 'neo4j-driver';
 import config from '../config';
+import { EmbeddedGraphDatabase } from './embedded-graph/embedded-database';
+import { MigrationService } from './migration.service';
+
+/**
+ * Storage backend options
+ */
+export interface DatabaseServiceOptions {
+  /**
+   * 'neo4j' for a Neo4j server, 'embedded' for the local graph store
+   */
+  driver?: 'neo4j' | 'embedded';
+
+  /**
+   * Snapshot file of the embedded store, or ':memory:' / null for an in-memory graph
+   */
+  embeddedPath?: string | null;
+}
 
 /**
  * Service for database operations
  */
 export class DatabaseService {
   private driver: Driver | null = null;
+  private embedded: EmbeddedGraphDatabase | null = null;
+  private readonly options: Required<DatabaseServiceOptions>;
 
   /**
-   * Initialize the Neo4j driver
+   * Create a new database service
+   * @param options Storage backend options, defaulting to the configured backend
+   */
+  constructor(options: DatabaseServiceOptions = {}) {
+    this.options = {
+      driver: options.driver || (config.database?.driver === 'embedded' ? 'embedded' : 'neo4j'),
+      embeddedPath: options.embeddedPath !== undefined ? options.embeddedPath : config.database?.embedded.path ?? null,
+    };
+  }
+
+  /**
+   * Check whether the embedded graph store is in use
+   * @returns True when running on the embedded store
+   */
+  public isEmbedded(): boolean {
+    return this.options.driver === 'embedded';
+  }
+
+  /**
+   * Initialize the Neo4j driver or open the embedded graph store
    */
   public async initialize(): Promise<void> {
+    if (this.isEmbedded()) {
+      const filePath = this.options.embeddedPath === ':memory:' ? null : this.options.embeddedPath;
+      try {
+        const embedded = new EmbeddedGraphDatabase(filePath);
+        await embedded.open();
+        this.embedded = embedded;
+        console.log(`Opened embedded graph store${filePath ? ` at ${filePath}` : ' in memory'}`);
+      } catch (error) {
+        console.error('Failed to open embedded graph store:', error);
+        throw error;
+      }
+      return;
+    }
+
     try {
-      // For development purposes, we'll bypass the database connection
-      console.log('Development mode: Bypassing Neo4j database connection');
-      // Uncomment the following code when you want to connect to a real Neo4j database
-      /*
       this.driver = neo4j.driver(
         config.neo4j.uri,
         neo4j.auth.basic(config.neo4j.username, config.neo4j.password)
@@ -23,40 +71,42 @@ export class DatabaseService {
 
       // Test connection
       const session = this.getSession();
-      await session.run('RETURN 1');
-      session.close();
+      try {
+        await session.run('RETURN 1');
+      } finally {
+        session.close();
+      }
 
       console.log('Connected to Neo4j database');
-      */
     } catch (error) {
       console.error('Failed to connect to Neo4j database:', error);
-      // In development mode, we'll just log the error and continue
-      console.log('Continuing in development mode without database connection');
+      throw error;
     }
   }
 
   /**
-   * Get a Neo4j session
-   * @returns Neo4j session
+   * Get a database session
+   * @returns Neo4j session, or an embedded session with the same transaction API
    */
   public getSession(): Session {
+    if (this.embedded) {
+      return this.embedded.session() as unknown as Session;
+    }
     if (!this.driver) {
-      // For development purposes, we'll return a mock session
-      console.log('Development mode: Returning mock Neo4j session');
-      return {
-        run: () => Promise.resolve({ records: [] }),
-        readTransaction: (callback: any) => Promise.resolve(callback({ run: () => Promise.resolve({ records: [] }) })),
-        writeTransaction: (callback: any) => Promise.resolve(callback({ run: () => Promise.resolve({ records: [] }) })),
-        close: () => {}
-      } as any;
+      throw new Error('Neo4j driver not initialized');
     }
     return this.driver.session();
   }
 
   /**
-   * Close the Neo4j driver
+   * Close the Neo4j driver or the embedded graph store
    */
   public async close(): Promise<void> {
+    if (this.embedded) {
+      await this.embedded.close();
+      this.embedded = null;
+      console.log('Embedded graph store closed');
+    }
     if (this.driver) {
       await this.driver.close();
       this.driver = null;
@@ -97,82 +147,14 @@ export class DatabaseService {
   }
 
   /**
-   * Initialize the database schema
+   * Initialize the database schema by applying pending migrations
    */
   public async initSchema(): Promise<void> {
     try {
-      console.log('Development mode: Bypassing database schema initialization');
-      // Uncomment the following code when you want to initialize a real Neo4j database schema
-      /*
-      console.log('Initializing database schema...');
-
-      // Create constraints and indexes
-      await this.writeTransaction(async (tx) => {
-        // User constraints
-        await tx.run('CREATE CONSTRAINT user_id IF NOT EXISTS FOR (u:User) REQUIRE u.user_id IS UNIQUE');
-        await tx.run('CREATE CONSTRAINT user_email IF NOT EXISTS FOR (u:User) REQUIRE u.email IS UNIQUE');
-        await tx.run('CREATE CONSTRAINT user_username IF NOT EXISTS FOR (u:User) REQUIRE u.username IS UNIQUE');
-
-        // RPG World constraints
-        await tx.run('CREATE CONSTRAINT rpg_world_id IF NOT EXISTS FOR (w:RPGWorld) REQUIRE w.world_id IS UNIQUE');
-
-        // Campaign constraints
-        await tx.run('CREATE CONSTRAINT campaign_id IF NOT EXISTS FOR (c:Campaign) REQUIRE c.campaign_id IS UNIQUE');
-
-        // Session constraints
-        await tx.run('CREATE CONSTRAINT session_id IF NOT EXISTS FOR (s:Session) REQUIRE s.session_id IS UNIQUE');
-
-        // Character constraints
-        await tx.run('CREATE CONSTRAINT character_id IF NOT EXISTS FOR (c:Character) REQUIRE c.character_id IS UNIQUE');
-
-        // Location constraints
-        await tx.run('CREATE CONSTRAINT location_id IF NOT EXISTS FOR (l:Location) REQUIRE l.location_id IS UNIQUE');
-
-        // Item constraints
-        await tx.run('CREATE CONSTRAINT item_id IF NOT EXISTS FOR (i:Item) REQUIRE i.item_id IS UNIQUE');
-
-        // Power constraints
-        await tx.run('CREATE CONSTRAINT power_id IF NOT EXISTS FOR (p:Power) REQUIRE p.power_id IS UNIQUE');
-
-        // Event constraints
-        await tx.run('CREATE CONSTRAINT event_id IF NOT EXISTS FOR (e:Event) REQUIRE e.event_id IS UNIQUE');
-
-        // Audio Recording constraints
-        await tx.run('CREATE CONSTRAINT audio_recording_id IF NOT EXISTS FOR (a:AudioRecording) REQUIRE a.recording_id IS UNIQUE');
-
-        // Transcription constraints
-        await tx.run('CREATE CONSTRAINT transcription_id IF NOT EXISTS FOR (t:Transcription) REQUIRE t.transcription_id IS UNIQUE');
-
-        // Session Analysis constraints
-        await tx.run('CREATE CONSTRAINT session_analysis_id IF NOT EXISTS FOR (a:SessionAnalysis) REQUIRE a.analysis_id IS UNIQUE');
-
-        // Change Proposal constraints
-        await tx.run('CREATE CONSTRAINT change_proposal_id IF NOT EXISTS FOR (p:ChangeProposal) REQUIRE p.id IS UNIQUE');
-        await tx.run('CREATE CONSTRAINT proposal_batch_id IF NOT EXISTS FOR (b:ProposalBatch) REQUIRE b.id IS UNIQUE');
-        await tx.run('CREATE CONSTRAINT proposal_template_id IF NOT EXISTS FOR (t:ProposalTemplate) REQUIRE t.id IS UNIQUE');
-
-        // LLM constraints
-        await tx.run('CREATE CONSTRAINT prompt_template_id IF NOT EXISTS FOR (t:PromptTemplate) REQUIRE t.id IS UNIQUE');
-        await tx.run('CREATE CONSTRAINT llm_context_id IF NOT EXISTS FOR (c:LLMContext) REQUIRE c.sessionId IS UNIQUE');
-
-        // Indexes
-        await tx.run('CREATE INDEX user_name IF NOT EXISTS FOR (u:User) ON (u.name)');
-        await tx.run('CREATE INDEX rpg_world_name IF NOT EXISTS FOR (w:RPGWorld) ON (w.name)');
-        await tx.run('CREATE INDEX campaign_name IF NOT EXISTS FOR (c:Campaign) ON (c.name)');
-        await tx.run('CREATE INDEX session_name IF NOT EXISTS FOR (s:Session) ON (s.name)');
-        await tx.run('CREATE INDEX character_name IF NOT EXISTS FOR (c:Character) ON (c.name)');
-        await tx.run('CREATE INDEX location_name IF NOT EXISTS FOR (l:Location) ON (l.name)');
-        await tx.run('CREATE INDEX item_name IF NOT EXISTS FOR (i:Item) ON (i.name)');
-        await tx.run('CREATE INDEX power_name IF NOT EXISTS FOR (p:Power) ON (p.name)');
-        await tx.run('CREATE INDEX event_name IF NOT EXISTS FOR (e:Event) ON (e.name)');
-      });
-
-      console.log('Database schema initialized successfully');
-      */
+      await new MigrationService(this).migrate();
     } catch (error) {
       console.error('Failed to initialize database schema:', error);
-      // In development mode, we'll just log the error and continue
-      console.log('Continuing in development mode without database schema initialization');
+      throw error;
     }
   }
 }
@@ -0,0 +1,104 @@
+/**
+ * Abstract syntax tree for the Cypher subset understood by the embedded graph store
+ */
+
+export type Expression =
+  | { type: 'Literal'; value: unknown }
+  | { type: 'Parameter'; name: string }
+  | { type: 'Variable'; name: string }
+  | { type: 'Property'; object: Expression; key: string }
+  | { type: 'Index'; object: Expression; index: Expression }
+  | { type: 'Slice'; object: Expression; from?: Expression; to?: Expression }
+  | { type: 'Map'; entries: Array<[string, Expression]> }
+  | { type: 'List'; items: Expression[] }
+  | { type: 'MapProjection'; variable: string; items: MapProjectionItem[] }
+  | { type: 'FunctionCall'; name: string; args: Expression[]; distinct: boolean; star: boolean }
+  | { type: 'Binary'; operator: string; left: Expression; right: Expression }
+  | { type: 'Unary'; operator: string; operand: Expression }
+  | { type: 'IsNull'; operand: Expression; negated: boolean }
+  | { type: 'LabelCheck'; operand: Expression; labels: string[] }
+  | { type: 'Case'; test?: Expression; whens: Array<{ when: Expression; then: Expression }>; otherwise?: Expression }
+  | { type: 'ListComprehension'; variable: string; list: Expression; where?: Expression; projection?: Expression }
+  | { type: 'Quantifier'; kind: 'any' | 'all' | 'none' | 'single'; variable: string; list: Expression; where: Expression }
+  | { type: 'Reduce'; accumulator: string; init: Expression; variable: string; list: Expression; expression: Expression }
+  | { type: 'PatternPredicate'; pattern: PatternPart }
+  | { type: 'ExistsSubquery'; query: Query };
+
+export type MapProjectionItem =
+  | { kind: 'all' }
+  | { kind: 'property'; key: string }
+  | { kind: 'entry'; key: string; expression: Expression }
+  | { kind: 'variable'; name: string };
+
+export interface NodePattern {
+  variable?: string;
+  labels: string[];
+  properties?: Expression;
+}
+
+export interface RelationshipPattern {
+  variable?: string;
+  types: string[];
+  properties?: Expression;
+  direction: 'out' | 'in' | 'both';
+  /** Present for variable-length relationships */
+  range?: { min: number; max: number };
+}
+
+export interface PatternPart {
+  pathVariable?: string;
+  nodes: NodePattern[];
+  relationships: RelationshipPattern[];
+}
+
+export interface ProjectionItem {
+  expression: Expression;
+  alias: string;
+}
+
+export interface SortItem {
+  expression: Expression;
+  descending: boolean;
+}
+
+export interface Projection {
+  distinct: boolean;
+  star: boolean;
+  items: ProjectionItem[];
+  orderBy: SortItem[];
+  skip?: Expression;
+  limit?: Expression;
+}
+
+export type SetItem =
+  | { kind: 'property'; target: Expression; key: string; value: Expression }
+  | { kind: 'merge'; variable: string; value: Expression }
+  | { kind: 'replace'; variable: string; value: Expression }
+  | { kind: 'labels'; variable: string; labels: string[] };
+
+export type RemoveItem =
+  | { kind: 'property'; target: Expression; key: string }
+  | { kind: 'labels'; variable: string; labels: string[] };
+
+export type Clause =
+  | { type: 'Match'; optional: boolean; patterns: PatternPart[]; where?: Expression }
+  | { type: 'Create'; patterns: PatternPart[] }
+  | { type: 'Merge'; pattern: PatternPart; onCreate: SetItem[]; onMatch: SetItem[] }
+  | { type: 'Set'; items: SetItem[] }
+  | { type: 'Remove'; items: RemoveItem[] }
+  | { type: 'Delete'; detach: boolean; expressions: Expression[] }
+  | { type: 'With'; projection: Projection; where?: Expression }
+  | { type: 'Return'; projection: Projection }
+  | { type: 'Unwind'; expression: Expression; variable: string }
+  | { type: 'CallSubquery'; query: Query }
+  | { type: 'CallProcedure'; name: string; args: Expression[]; yields: ProjectionItem[] };
+
+export interface SingleQuery {
+  clauses: Clause[];
+}
+
+export interface Query {
+  parts: SingleQuery[];
+  /** One entry per UNION between consecutive parts; true for UNION ALL */
+  unionAll: boolean[];
+}
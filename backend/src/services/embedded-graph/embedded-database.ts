@@ -0,0 +1,330 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { int, Node, Path, PathSegment, Record as Neo4jRecord, Relationship } from 'neo4j-driver';
+import { Clause, Query } from './ast';
+import { ExecutionResult, executeQuery, normalizeParameters } from './executor';
+import { parseQuery } from './parser';
+import { SchemaCommand, parseSchemaCommand } from './schema';
+import { ChangeLog, GraphStore } from './store';
+import { CypherExecutionError, NodeValue, PathValue, RelationshipValue, isMap } from './values';
+
+/**
+ * Update statistics in the shape of the driver's QueryStatistics
+ */
+export interface EmbeddedQueryStatistics {
+  nodesCreated: number;
+  nodesDeleted: number;
+  relationshipsCreated: number;
+  relationshipsDeleted: number;
+  propertiesSet: number;
+  labelsAdded: number;
+  labelsRemoved: number;
+}
+
+/**
+ * Result of running a query, compatible with the parts of the driver's QueryResult the
+ * repositories rely on
+ */
+export interface EmbeddedResult {
+  records: Neo4jRecord[];
+  keys: string[];
+  summary: {
+    query: { text: string; parameters: Record<string, unknown> };
+    counters: {
+      updates: () => EmbeddedQueryStatistics;
+      containsUpdates: () => boolean;
+    };
+  };
+}
+
+/**
+ * Transaction handed to readTransaction/writeTransaction callbacks
+ */
+export interface EmbeddedTransaction {
+  run(query: string, parameters?: Record<string, unknown>): Promise<EmbeddedResult>;
+}
+
+/**
+ * Session with the same transaction functions as a neo4j-driver Session
+ */
+export class EmbeddedSession {
+  constructor(private readonly database: EmbeddedGraphDatabase) {}
+
+  /**
+   * Run a query in an auto-commit transaction
+   */
+  public run(query: string, parameters?: Record<string, unknown>): Promise<EmbeddedResult> {
+    const work = (tx: EmbeddedTransaction) => tx.run(query, parameters);
+    const schemaCommand = parseSchemaCommand(query);
+    const updating = schemaCommand ? schemaCommand.type !== 'show' : isUpdatingQuery(parseQuery(query));
+    return updating ? this.database.write(work) : this.database.read(work);
+  }
+
+  public readTransaction<T>(work: (tx: EmbeddedTransaction) => Promise<T>): Promise<T> {
+    return this.database.read(work);
+  }
+
+  public writeTransaction<T>(work: (tx: EmbeddedTransaction) => Promise<T>): Promise<T> {
+    return this.database.write(work);
+  }
+
+  public executeRead<T>(work: (tx: EmbeddedTransaction) => Promise<T>): Promise<T> {
+    return this.database.read(work);
+  }
+
+  public executeWrite<T>(work: (tx: EmbeddedTransaction) => Promise<T>): Promise<T> {
+    return this.database.write(work);
+  }
+
+  public async close(): Promise<void> {
+    // Sessions hold no resources of their own
+  }
+}
+
+/**
+ * Embedded, file-backed graph database that understands the Cypher used by the repositories.
+ *
+ * Write transactions are serialized and applied to the in-memory graph immediately; a failing
+ * transaction is undone from its change log. Reads do not wait for writes.
+ */
+export class EmbeddedGraphDatabase {
+  private readonly store: GraphStore;
+  private writeQueue: Promise<void> = Promise.resolve();
+  private readonly activeWrite = new AsyncLocalStorage<ChangeLog>();
+
+  /**
+   * @param filePath Snapshot file, or null for a purely in-memory graph
+   */
+  constructor(filePath: string | null) {
+    this.store = new GraphStore(filePath);
+  }
+
+  /**
+   * Load persisted data
+   */
+  public async open(): Promise<void> {
+    await this.store.open();
+  }
+
+  /**
+   * Wait for pending writes and fold the journal into the snapshot
+   */
+  public async close(): Promise<void> {
+    await this.writeQueue;
+    await this.store.compact();
+  }
+
+  /**
+   * Create a session
+   */
+  public session(): EmbeddedSession {
+    return new EmbeddedSession(this);
+  }
+
+  /**
+   * Run work in a read transaction
+   */
+  public async read<T>(work: (tx: EmbeddedTransaction) => Promise<T>): Promise<T> {
+    return work(this.transaction(null));
+  }
+
+  /**
+   * Run work in a write transaction, committing on success and rolling back on failure
+   */
+  public async write<T>(work: (tx: EmbeddedTransaction) => Promise<T>): Promise<T> {
+    // A write opened from inside another write's callback must not wait for the outer one
+    if (this.activeWrite.getStore()) {
+      return this.runWrite(work);
+    }
+
+    const previous = this.writeQueue;
+    let release: () => void = () => undefined;
+    this.writeQueue = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    await previous;
+    try {
+      return await this.runWrite(work);
+    } finally {
+      release();
+    }
+  }
+
+  private async runWrite<T>(work: (tx: EmbeddedTransaction) => Promise<T>): Promise<T> {
+    const changes = new ChangeLog();
+    try {
+      const result = await this.activeWrite.run(changes, () => work(this.transaction(changes)));
+      await this.store.commit(changes);
+      return result;
+    } catch (error) {
+      this.store.rollback(changes);
+      throw error;
+    }
+  }
+
+  private transaction(changes: ChangeLog | null): EmbeddedTransaction {
+    return {
+      run: async (query: string, parameters?: Record<string, unknown>) => this.execute(query, parameters, changes),
+    };
+  }
+
+  private execute(text: string, parameters: Record<string, unknown> | undefined, changes: ChangeLog | null): EmbeddedResult {
+    const params = normalizeParameters(parameters);
+    const before = changes ? statistics(changes) : null;
+    const fromOperation = changes ? changes.operations.length : 0;
+    const schemaCommand = parseSchemaCommand(text);
+    const { keys, rows } = schemaCommand
+      ? this.executeSchemaCommand(schemaCommand, changes)
+      : executeQuery(parseQuery(text), { store: this.store, params, changes });
+    if (changes) {
+      this.store.checkConstraints(changes, fromOperation);
+    }
+    const after = changes ? statistics(changes) : null;
+
+    const updates: EmbeddedQueryStatistics = {
+      nodesCreated: 0,
+      nodesDeleted: 0,
+      relationshipsCreated: 0,
+      relationshipsDeleted: 0,
+      propertiesSet: 0,
+      labelsAdded: 0,
+      labelsRemoved: 0,
+    };
+    if (before && after) {
+      (Object.keys(updates) as Array<keyof EmbeddedQueryStatistics>).forEach((key) => {
+        updates[key] = after[key] - before[key];
+      });
+    }
+
+    return {
+      keys,
+      records: rows.map((row) => new Neo4jRecord(keys, row.map((value) => this.toDriverValue(value)))),
+      summary: {
+        query: { text, parameters: params },
+        counters: {
+          updates: () => ({ ...updates }),
+          containsUpdates: () => Object.values(updates).some((count) => count > 0),
+        },
+      },
+    };
+  }
+
+  /**
+   * Create, drop or list constraints and indexes
+   */
+  private executeSchemaCommand(command: SchemaCommand, changes: ChangeLog | null): ExecutionResult {
+    if (command.type === 'show') {
+      const keys = ['name', 'type', 'labelsOrTypes', 'properties'];
+      const rows = this.store
+        .schemaEntries(command.kind)
+        .map((entry) => [entry.name, entry.kind === 'constraint' ? 'UNIQUENESS' : 'RANGE', [entry.label], [entry.property]]);
+      return { keys, rows };
+    }
+
+    if (!changes) {
+      throw new CypherExecutionError('Schema operations are not allowed in read access mode');
+    }
+
+    if (command.type === 'drop') {
+      const existing = this.store.getSchemaEntry(command.name);
+      if (!existing || existing.kind !== command.kind) {
+        if (command.ifExists) {
+          return { keys: [], rows: [] };
+        }
+        throw new CypherExecutionError(`Unable to drop ${command.kind} \`${command.name}\`: No such ${command.kind} ${command.name}.`);
+      }
+      this.store.dropSchemaEntry(command.name, changes);
+      return { keys: [], rows: [] };
+    }
+
+    const { entry } = command;
+    const equivalent = this.store
+      .schemaEntries(entry.kind)
+      .find((existing) => existing.label === entry.label && existing.property === entry.property);
+    const existing = this.store.getSchemaEntry(entry.name) || equivalent;
+    if (existing) {
+      if (command.ifNotExists) {
+        return { keys: [], rows: [] };
+      }
+      throw new CypherExecutionError(`An equivalent ${entry.kind} already exists: \`${existing.name}\``);
+    }
+    this.store.createSchemaEntry(entry, changes);
+    return { keys: [], rows: [] };
+  }
+
+  /**
+   * Convert an execution value to what the Neo4j driver would hand back
+   */
+  private toDriverValue(value: unknown): unknown {
+    if (value instanceof NodeValue) {
+      return this.toDriverNode(value.id);
+    }
+    if (value instanceof RelationshipValue) {
+      return this.toDriverRelationship(value.id);
+    }
+    if (value instanceof PathValue) {
+      const nodes = value.nodes.map((id) => this.toDriverNode(id));
+      const segments = value.relationships.map(
+        (id, index) => new PathSegment(nodes[index], this.toDriverRelationship(id), nodes[index + 1])
+      );
+      return new Path(nodes[0], nodes[nodes.length - 1], segments);
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.toDriverValue(item));
+    }
+    if (isMap(value)) {
+      const result: Record<string, unknown> = {};
+      for (const [key, entry] of Object.entries(value)) {
+        result[key] = this.toDriverValue(entry);
+      }
+      return result;
+    }
+    return value === undefined ? null : value;
+  }
+
+  private toDriverNode(id: number): Node {
+    const node = this.store.getNode(id);
+    return new Node(int(id), [...(node?.labels || [])], clone(node?.properties || {}), String(id));
+  }
+
+  private toDriverRelationship(id: number): Relationship {
+    const relationship = this.store.getRelationship(id);
+    const start = relationship?.start ?? -1;
+    const end = relationship?.end ?? -1;
+    return new Relationship(
+      int(id),
+      int(start),
+      int(end),
+      relationship?.type || '',
+      clone(relationship?.properties || {}),
+      String(id),
+      String(start),
+      String(end)
+    );
+  }
+}
+
+function statistics(changes: ChangeLog): EmbeddedQueryStatistics {
+  return {
+    nodesCreated: changes.nodesCreated,
+    nodesDeleted: changes.nodesDeleted,
+    relationshipsCreated: changes.relationshipsCreated,
+    relationshipsDeleted: changes.relationshipsDeleted,
+    propertiesSet: changes.propertiesSet,
+    labelsAdded: changes.labelsAdded,
+    labelsRemoved: changes.labelsRemoved,
+  };
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+const UPDATING_CLAUSES: Array<Clause['type']> = ['Create', 'Merge', 'Set', 'Remove', 'Delete'];
+
+function isUpdatingQuery(query: Query): boolean {
+  return query.parts.some((part) =>
+    part.clauses.some(
+      (clause) => UPDATING_CLAUSES.includes(clause.type) || (clause.type === 'CallSubquery' && isUpdatingQuery(clause.query))
+    )
+  );
+}
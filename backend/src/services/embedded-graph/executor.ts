@@ -0,0 +1,1242 @@
+import {
+  Clause,
+  Expression,
+  NodePattern,
+  PatternPart,
+  Projection,
+  Query,
+  RelationshipPattern,
+  SetItem,
+  SingleQuery,
+} from './ast';
+import { ChangeLog, GraphStore, PropertyMap } from './store';
+import { callFunction, isAggregateFunction, aggregate } from './functions';
+import { callProcedure } from './procedures';
+import {
+  CypherExecutionError,
+  NodeValue,
+  PathValue,
+  RelationshipValue,
+  Row,
+  cypherCompare,
+  cypherEquals,
+  isMap,
+  isTruthy,
+  normalizeParameter,
+  sortCompare,
+  toNumber,
+  valueKey,
+} from './values';
+
+/**
+ * State shared by all clauses of one query
+ */
+export interface ExecutionContext {
+  store: GraphStore;
+  params: Record<string, unknown>;
+  /** Null inside read transactions, where updating clauses are rejected */
+  changes: ChangeLog | null;
+}
+
+/**
+ * Result of executing a query: column names plus one value array per row
+ */
+export interface ExecutionResult {
+  keys: string[];
+  rows: unknown[][];
+}
+
+interface ProjectedRow {
+  row: Row;
+  source: Row;
+  group?: Row[];
+}
+
+/**
+ * Execute a parsed query against the store
+ * @param query Parsed query
+ * @param context Execution context
+ * @returns Columns and rows
+ */
+export function executeQuery(query: Query, context: ExecutionContext): ExecutionResult {
+  const results = query.parts.map((part) => executeSingleQuery(part, [{}], context));
+  if (results.length === 1) {
+    return results[0];
+  }
+
+  const keys = results[0].keys;
+  let rows: unknown[][] = [];
+  results.forEach((result, index) => {
+    if (result.keys.join('\u0000') !== keys.join('\u0000')) {
+      throw new CypherExecutionError('All sub queries in an UNION must have the same return column names');
+    }
+    rows = rows.concat(result.rows);
+    // UNION without ALL removes duplicates from everything combined so far
+    if (index > 0 && !query.unionAll[index - 1]) {
+      rows = distinctBy(rows, (row) => valueKey(row));
+    }
+  });
+  return { keys, rows };
+}
+
+function executeSingleQuery(query: SingleQuery, input: Row[], context: ExecutionContext): ExecutionResult {
+  let rows = input;
+  for (const clause of query.clauses) {
+    if (clause.type === 'Return') {
+      const projected = project(clause.projection, rows, context);
+      const keys = projectionKeys(clause.projection, rows);
+      return { keys, rows: projected.map((row) => keys.map((key) => row[key])) };
+    }
+    rows = executeClause(clause, rows, context);
+  }
+  return { keys: [], rows: [] };
+}
+
+/**
+ * Run a subquery for one outer row and return the rows it produces
+ */
+function executeSubquery(query: Query, row: Row, context: ExecutionContext): Row[] {
+  const output: Row[] = [];
+  for (const part of query.parts) {
+    let clauses = part.clauses;
+    // A leading importing WITH just re-exposes outer variables, which are already in scope
+    const first = clauses[0];
+    if (
+      first &&
+      first.type === 'With' &&
+      !first.where &&
+      first.projection.orderBy.length === 0 &&
+      first.projection.items.every((item) => item.expression.type === 'Variable' || item.expression.type === 'Parameter')
+    ) {
+      clauses = clauses.slice(1);
+    }
+
+    let rows: Row[] = [row];
+    let returned = false;
+    for (const clause of clauses) {
+      if (clause.type === 'Return') {
+        rows = project(clause.projection, rows, context);
+        returned = true;
+        break;
+      }
+      rows = executeClause(clause, rows, context);
+    }
+    output.push(...(returned ? rows : rows.length > 0 ? [{}] : []));
+  }
+  return output;
+}
+
+function executeClause(clause: Clause, rows: Row[], context: ExecutionContext): Row[] {
+  switch (clause.type) {
+    case 'Match':
+      return executeMatch(clause.patterns, clause.where, clause.optional, rows, context);
+    case 'Create':
+      requireWrite(context);
+      return rows.map((row) => {
+        let current = row;
+        for (const pattern of clause.patterns) {
+          current = createPattern(pattern, current, context);
+        }
+        return current;
+      });
+    case 'Merge':
+      requireWrite(context);
+      return rows.flatMap((row) => executeMerge(clause.pattern, clause.onCreate, clause.onMatch, row, context));
+    case 'Set':
+      requireWrite(context);
+      rows.forEach((row) => clause.items.forEach((item) => applySetItem(item, row, context)));
+      return rows;
+    case 'Remove':
+      requireWrite(context);
+      rows.forEach((row) =>
+        clause.items.forEach((item) => {
+          if (item.kind === 'labels') {
+            const target = row[item.variable];
+            if (target instanceof NodeValue) {
+              item.labels.forEach((label) => context.store.removeLabel(target.id, label, context.changes as ChangeLog));
+            }
+          } else {
+            setProperty(evaluate(item.target, row, context), item.key, null, context);
+          }
+        })
+      );
+      return rows;
+    case 'Delete':
+      requireWrite(context);
+      rows.forEach((row) => clause.expressions.forEach((expression) => deleteValue(evaluate(expression, row, context), clause.detach, context)));
+      return rows;
+    case 'With': {
+      let projected = project(clause.projection, rows, context);
+      if (clause.where) {
+        projected = projected.filter((row) => isTruthy(evaluate(clause.where as Expression, row, context)));
+      }
+      return projected;
+    }
+    case 'Unwind':
+      return rows.flatMap((row) => {
+        const value = evaluate(clause.expression, row, context);
+        if (value === null || value === undefined) {
+          return [];
+        }
+        const items = Array.isArray(value) ? value : [value];
+        return items.map((item) => ({ ...row, [clause.variable]: item }));
+      });
+    case 'CallSubquery':
+      return rows.flatMap((row) => executeSubquery(clause.query, row, context).map((result) => ({ ...row, ...result })));
+    case 'CallProcedure':
+      return rows.flatMap((row) => {
+        const args = clause.args.map((arg) => evaluate(arg, row, context));
+        const records = callProcedure(clause.name, args, context.store);
+        return records.map((record) => {
+          const extended = { ...row };
+          for (const item of clause.yields) {
+            const field = (item.expression as { name: string }).name;
+            if (!(field in record)) {
+              throw new CypherExecutionError(`Procedure ${clause.name} does not yield '${field}'`);
+            }
+            extended[item.alias] = record[field];
+          }
+          return extended;
+        });
+      });
+    case 'Return':
+      return project(clause.projection, rows, context);
+  }
+}
+
+function requireWrite(context: ExecutionContext): void {
+  if (!context.changes) {
+    throw new CypherExecutionError('Writing in read access mode not allowed');
+  }
+}
+
+/* ------------------------------------------------------------------ */
+/* Pattern matching                                                    */
+/* ------------------------------------------------------------------ */
+
+function executeMatch(
+  patterns: PatternPart[],
+  where: Expression | undefined,
+  optional: boolean,
+  rows: Row[],
+  context: ExecutionContext
+): Row[] {
+  const output: Row[] = [];
+  for (const row of rows) {
+    let matched = false;
+    for (const candidate of matchPatterns(patterns, 0, row, new Set(), context)) {
+      if (!where || isTruthy(evaluate(where, candidate, context))) {
+        output.push(candidate);
+        matched = true;
+      }
+    }
+    if (optional && !matched) {
+      const padded = { ...row };
+      for (const variable of patternVariables(patterns)) {
+        if (!(variable in padded)) {
+          padded[variable] = null;
+        }
+      }
+      output.push(padded);
+    }
+  }
+  return output;
+}
+
+function patternVariables(patterns: PatternPart[]): string[] {
+  const variables: string[] = [];
+  for (const pattern of patterns) {
+    if (pattern.pathVariable) variables.push(pattern.pathVariable);
+    pattern.nodes.forEach((node) => node.variable && variables.push(node.variable));
+    pattern.relationships.forEach((relationship) => relationship.variable && variables.push(relationship.variable));
+  }
+  return variables;
+}
+
+function* matchPatterns(
+  patterns: PatternPart[],
+  index: number,
+  row: Row,
+  used: Set<number>,
+  context: ExecutionContext
+): Generator<Row> {
+  if (index >= patterns.length) {
+    yield row;
+    return;
+  }
+  for (const extended of matchPattern(patterns[index], row, used, context)) {
+    yield* matchPatterns(patterns, index + 1, extended, used, context);
+  }
+}
+
+interface Step {
+  relationship: number;
+  from: number;
+  to: number;
+  forward: boolean;
+}
+
+/**
+ * Enumerate all bindings of a pattern part that are consistent with the row.
+ * Matching starts from the most selective node and walks outwards in both directions.
+ */
+function* matchPattern(pattern: PatternPart, row: Row, used: Set<number>, context: ExecutionContext): Generator<Row> {
+  const anchor = chooseAnchor(pattern.nodes, row, context);
+  const steps: Step[] = [];
+  for (let i = anchor; i < pattern.relationships.length; i++) {
+    steps.push({ relationship: i, from: i, to: i + 1, forward: true });
+  }
+  for (let i = anchor - 1; i >= 0; i--) {
+    steps.push({ relationship: i, from: i + 1, to: i, forward: false });
+  }
+
+  const nodeIds: number[] = new Array(pattern.nodes.length);
+  const relationshipIds: number[][] = new Array(pattern.relationships.length);
+
+  for (const candidate of anchorCandidates(pattern.nodes[anchor], row, context)) {
+    const bound = bindNode(pattern.nodes[anchor], candidate, row, context);
+    if (!bound) {
+      continue;
+    }
+    nodeIds[anchor] = candidate;
+    for (const complete of walk(pattern, steps, 0, bound, nodeIds, relationshipIds, used, context)) {
+      if (pattern.pathVariable) {
+        yield { ...complete, [pattern.pathVariable]: buildPath(nodeIds[0], relationshipIds, context.store) };
+      } else {
+        yield complete;
+      }
+    }
+  }
+}
+
+function* walk(
+  pattern: PatternPart,
+  steps: Step[],
+  index: number,
+  row: Row,
+  nodeIds: number[],
+  relationshipIds: number[][],
+  used: Set<number>,
+  context: ExecutionContext
+): Generator<Row> {
+  if (index >= steps.length) {
+    yield row;
+    return;
+  }
+
+  const step = steps[index];
+  const relationshipPattern = pattern.relationships[step.relationship];
+  const targetPattern = pattern.nodes[step.to];
+  const current = nodeIds[step.from];
+  let direction = relationshipPattern.direction;
+  if (!step.forward && direction !== 'both') {
+    direction = direction === 'out' ? 'in' : 'out';
+  }
+
+  if (relationshipPattern.range) {
+    const { min, max } = relationshipPattern.range;
+    for (const [path, end] of expandVariableLength(current, direction, relationshipPattern, min, max, row, used, context)) {
+      const ordered = step.forward ? path : [...path].reverse();
+      const relationshipValue = ordered.map((id) => new RelationshipValue(id));
+      let bound: Row | null = row;
+      if (relationshipPattern.variable) {
+        const existing = row[relationshipPattern.variable];
+        if (existing !== undefined && cypherEquals(existing, relationshipValue) !== true) {
+          continue;
+        }
+        bound = { ...row, [relationshipPattern.variable]: relationshipValue };
+      }
+      bound = bindNode(targetPattern, end, bound, context);
+      if (!bound) {
+        continue;
+      }
+      nodeIds[step.to] = end;
+      relationshipIds[step.relationship] = ordered;
+      path.forEach((id) => used.add(id));
+      yield* walk(pattern, steps, index + 1, bound, nodeIds, relationshipIds, used, context);
+      path.forEach((id) => used.delete(id));
+    }
+    return;
+  }
+
+  for (const relationshipId of context.store.relationshipIdsOf(current, direction)) {
+    if (used.has(relationshipId)) {
+      continue;
+    }
+    const relationship = context.store.getRelationship(relationshipId);
+    if (!relationship || !relationshipMatches(relationshipPattern, relationshipId, row, context)) {
+      continue;
+    }
+    const other = relationship.start === current ? relationship.end : relationship.start;
+    let bound: Row | null = row;
+    if (relationshipPattern.variable) {
+      const existing = row[relationshipPattern.variable];
+      if (existing !== undefined) {
+        if (!(existing instanceof RelationshipValue) || existing.id !== relationshipId) {
+          continue;
+        }
+      } else {
+        bound = { ...row, [relationshipPattern.variable]: new RelationshipValue(relationshipId) };
+      }
+    }
+    bound = bindNode(targetPattern, other, bound, context);
+    if (!bound) {
+      continue;
+    }
+    nodeIds[step.to] = other;
+    relationshipIds[step.relationship] = [relationshipId];
+    used.add(relationshipId);
+    yield* walk(pattern, steps, index + 1, bound, nodeIds, relationshipIds, used, context);
+    used.delete(relationshipId);
+  }
+}
+
+function* expandVariableLength(
+  start: number,
+  direction: 'out' | 'in' | 'both',
+  pattern: RelationshipPattern,
+  min: number,
+  max: number,
+  row: Row,
+  used: Set<number>,
+  context: ExecutionContext
+): Generator<[number[], number]> {
+  if (min === 0) {
+    yield [[], start];
+  }
+  const stack: Array<{ node: number; path: number[] }> = [{ node: start, path: [] }];
+  while (stack.length > 0) {
+    const { node, path } = stack.pop() as { node: number; path: number[] };
+    if (path.length >= max) {
+      continue;
+    }
+    for (const relationshipId of context.store.relationshipIdsOf(node, direction)) {
+      if (used.has(relationshipId) || path.includes(relationshipId)) {
+        continue;
+      }
+      const relationship = context.store.getRelationship(relationshipId);
+      if (!relationship || !relationshipMatches(pattern, relationshipId, row, context)) {
+        continue;
+      }
+      const other = relationship.start === node ? relationship.end : relationship.start;
+      const extended = [...path, relationshipId];
+      if (extended.length >= min) {
+        yield [extended, other];
+      }
+      stack.push({ node: other, path: extended });
+    }
+  }
+}
+
+function relationshipMatches(pattern: RelationshipPattern, relationshipId: number, row: Row, context: ExecutionContext): boolean {
+  const relationship = context.store.getRelationship(relationshipId);
+  if (!relationship) {
+    return false;
+  }
+  if (pattern.types.length > 0 && !pattern.types.includes(relationship.type)) {
+    return false;
+  }
+  return propertiesMatch(pattern.properties, relationship.properties, row, context);
+}
+
+function bindNode(pattern: NodePattern, nodeId: number, row: Row, context: ExecutionContext): Row | null {
+  const node = context.store.getNode(nodeId);
+  if (!node) {
+    return null;
+  }
+  if (pattern.variable) {
+    const existing = row[pattern.variable];
+    if (existing !== undefined) {
+      if (!(existing instanceof NodeValue) || existing.id !== nodeId) {
+        return null;
+      }
+    }
+  }
+  if (!pattern.labels.every((label) => node.labels.includes(label))) {
+    return null;
+  }
+  if (!propertiesMatch(pattern.properties, node.properties, row, context)) {
+    return null;
+  }
+  if (pattern.variable && row[pattern.variable] === undefined) {
+    return { ...row, [pattern.variable]: new NodeValue(nodeId) };
+  }
+  return row;
+}
+
+function propertiesMatch(expression: Expression | undefined, properties: PropertyMap, row: Row, context: ExecutionContext): boolean {
+  if (!expression) {
+    return true;
+  }
+  const expected = evaluate(expression, row, context);
+  if (expected === null) {
+    return false;
+  }
+  if (!isMap(expected)) {
+    throw new CypherExecutionError('Pattern properties must be a map');
+  }
+  return Object.entries(expected).every(([key, value]) => cypherEquals(properties[key] ?? null, value) === true);
+}
+
+function chooseAnchor(nodes: NodePattern[], row: Row, context: ExecutionContext): number {
+  let best = 0;
+  let bestScore = -1;
+  nodes.forEach((node, index) => {
+    let score = 0;
+    if (node.variable && row[node.variable] !== undefined) {
+      score = 4;
+    } else if (node.labels.length > 0 && node.properties) {
+      score = 3;
+    } else if (node.labels.length > 0) {
+      score = 2 - Math.min(1, Math.min(...node.labels.map((label) => context.store.countByLabel(label))) / 1e9);
+    }
+    if (score > bestScore) {
+      best = index;
+      bestScore = score;
+    }
+  });
+  return best;
+}
+
+function anchorCandidates(node: NodePattern, row: Row, context: ExecutionContext): number[] {
+  if (node.variable && row[node.variable] !== undefined) {
+    const value = row[node.variable];
+    return value instanceof NodeValue ? [value.id] : [];
+  }
+  if (node.labels.length > 0) {
+    if (node.properties) {
+      const expected = evaluate(node.properties, row, context);
+      if (isMap(expected)) {
+        const entry = Object.entries(expected).find(([, value]) => ['string', 'number', 'boolean'].includes(typeof toNumber(value)));
+        if (entry) {
+          return context.store.nodeIdsByProperty(node.labels[0], entry[0], toNumber(entry[1]));
+        }
+      }
+    }
+    const smallest = [...node.labels].sort((a, b) => context.store.countByLabel(a) - context.store.countByLabel(b))[0];
+    return context.store.nodeIdsByLabel(smallest);
+  }
+  return context.store.allNodeIds();
+}
+
+function buildPath(start: number, relationshipIds: number[][], store: GraphStore): PathValue {
+  const nodes = [start];
+  const relationships: number[] = [];
+  let current = start;
+  for (const segment of relationshipIds) {
+    for (const id of segment) {
+      const relationship = store.getRelationship(id);
+      if (!relationship) {
+        continue;
+      }
+      current = relationship.start === current ? relationship.end : relationship.start;
+      relationships.push(id);
+      nodes.push(current);
+    }
+  }
+  return new PathValue(nodes, relationships);
+}
+
+/* ------------------------------------------------------------------ */
+/* Updating clauses                                                    */
+/* ------------------------------------------------------------------ */
+
+function createPattern(pattern: PatternPart, row: Row, context: ExecutionContext): Row {
+  const changes = context.changes as ChangeLog;
+  let current = { ...row };
+  const nodeIds: number[] = [];
+
+  for (const node of pattern.nodes) {
+    const existing = node.variable ? current[node.variable] : undefined;
+    if (existing !== undefined) {
+      if (!(existing instanceof NodeValue)) {
+        throw new CypherExecutionError(`Failed to create relationship, node '${node.variable}' is missing`);
+      }
+      if (node.labels.length > 0 || node.properties) {
+        throw new CypherExecutionError(`Can't create node '${node.variable}' with labels or properties here. The variable is already declared in this context`);
+      }
+      nodeIds.push(existing.id);
+      continue;
+    }
+    const properties = node.properties ? toPropertyMap(evaluate(node.properties, current, context)) : {};
+    const created = context.store.createNode(node.labels, properties, changes);
+    nodeIds.push(created.id);
+    if (node.variable) {
+      current[node.variable] = new NodeValue(created.id);
+    }
+  }
+
+  const relationshipIds: number[][] = [];
+  pattern.relationships.forEach((relationship, index) => {
+    if (relationship.types.length !== 1) {
+      throw new CypherExecutionError('Exactly one relationship type must be specified for CREATE');
+    }
+    if (relationship.direction === 'both') {
+      throw new CypherExecutionError('Only directed relationships are supported in CREATE');
+    }
+    if (relationship.variable && current[relationship.variable] !== undefined) {
+      throw new CypherExecutionError(`Variable '${relationship.variable}' already declared`);
+    }
+    const [start, end] = relationship.direction === 'out' ? [nodeIds[index], nodeIds[index + 1]] : [nodeIds[index + 1], nodeIds[index]];
+    const properties = relationship.properties ? toPropertyMap(evaluate(relationship.properties, current, context)) : {};
+    const created = context.store.createRelationship(relationship.types[0], start, end, properties, changes);
+    relationshipIds.push([created.id]);
+    if (relationship.variable) {
+      current[relationship.variable] = new RelationshipValue(created.id);
+    }
+  });
+
+  if (pattern.pathVariable) {
+    current = { ...current, [pattern.pathVariable]: buildPath(nodeIds[0], relationshipIds, context.store) };
+  }
+  return current;
+}
+
+function executeMerge(pattern: PatternPart, onCreate: SetItem[], onMatch: SetItem[], row: Row, context: ExecutionContext): Row[] {
+  const matches = Array.from(matchPattern(pattern, row, new Set(), context));
+  if (matches.length > 0) {
+    matches.forEach((match) => onMatch.forEach((item) => applySetItem(item, match, context)));
+    return matches;
+  }
+
+  for (const node of pattern.nodes) {
+    const existing = node.variable ? row[node.variable] : undefined;
+    if (existing === null) {
+      throw new CypherExecutionError(`Failed to create relationship, node '${node.variable}' is null`);
+    }
+  }
+
+  // Bound nodes are reused as-is; their labels and properties were already checked by the match attempt
+  const creatable: PatternPart = {
+    ...pattern,
+    nodes: pattern.nodes.map((node) =>
+      node.variable && row[node.variable] !== undefined ? { variable: node.variable, labels: [] } : node
+    ),
+  };
+  const created = createPattern(creatable, row, context);
+  onCreate.forEach((item) => applySetItem(item, created, context));
+  return [created];
+}
+
+function applySetItem(item: SetItem, row: Row, context: ExecutionContext): void {
+  switch (item.kind) {
+    case 'property':
+      setProperty(evaluate(item.target, row, context), item.key, evaluate(item.value, row, context), context);
+      return;
+    case 'labels': {
+      const target = row[item.variable];
+      if (target instanceof NodeValue) {
+        item.labels.forEach((label) => context.store.addLabel(target.id, label, context.changes as ChangeLog));
+      }
+      return;
+    }
+    case 'merge':
+    case 'replace': {
+      const target = row[item.variable];
+      if (target === null || target === undefined) {
+        return;
+      }
+      const value = evaluate(item.value, row, context);
+      const source = value instanceof NodeValue || value instanceof RelationshipValue ? entityProperties(value, context.store) : value;
+      if (source !== null && !isMap(source)) {
+        throw new CypherExecutionError(`Cannot set properties of '${item.variable}' from a non-map value`);
+      }
+      const properties = source as PropertyMap | null;
+      if (item.kind === 'replace') {
+        const existing = entityProperties(target, context.store) || {};
+        Object.keys(existing)
+          .filter((key) => !properties || !(key in properties))
+          .forEach((key) => setProperty(target, key, null, context));
+      }
+      Object.entries(properties || {}).forEach(([key, entry]) => setProperty(target, key, entry, context));
+      return;
+    }
+  }
+}
+
+function setProperty(target: unknown, key: string, value: unknown, context: ExecutionContext): void {
+  const changes = context.changes as ChangeLog;
+  const stored = toStoredValue(value);
+  if (target instanceof NodeValue) {
+    context.store.setNodeProperty(target.id, key, stored, changes);
+  } else if (target instanceof RelationshipValue) {
+    context.store.setRelationshipProperty(target.id, key, stored, changes);
+  } else if (target !== null && target !== undefined) {
+    throw new CypherExecutionError(`Cannot set property '${key}' on a value that is not a node or relationship`);
+  }
+}
+
+function deleteValue(value: unknown, detach: boolean, context: ExecutionContext): void {
+  const changes = context.changes as ChangeLog;
+  if (value === null || value === undefined) {
+    return;
+  }
+  if (Array.isArray(value)) {
+    value.forEach((item) => deleteValue(item, detach, context));
+    return;
+  }
+  if (value instanceof RelationshipValue) {
+    context.store.deleteRelationship(value.id, changes);
+    return;
+  }
+  if (value instanceof NodeValue) {
+    if (detach) {
+      context.store.relationshipIdsOf(value.id, 'both').forEach((id) => context.store.deleteRelationship(id, changes));
+    }
+    context.store.deleteNode(value.id, changes);
+    return;
+  }
+  if (value instanceof PathValue) {
+    value.relationships.forEach((id) => context.store.deleteRelationship(id, changes));
+    value.nodes.forEach((id) => deleteValue(new NodeValue(id), detach, context));
+    return;
+  }
+  throw new CypherExecutionError('Only nodes, relationships and paths can be deleted');
+}
+
+function toPropertyMap(value: unknown): PropertyMap {
+  if (value === null || value === undefined) {
+    return {};
+  }
+  if (!isMap(value)) {
+    throw new CypherExecutionError('Properties must be given as a map');
+  }
+  const properties: PropertyMap = {};
+  for (const [key, entry] of Object.entries(value)) {
+    const stored = toStoredValue(entry);
+    if (stored !== undefined) {
+      properties[key] = stored;
+    }
+  }
+  return properties;
+}
+
+/**
+ * Convert a runtime value to what the store persists; undefined means "no property"
+ */
+function toStoredValue(value: unknown): unknown {
+  value = toNumber(value);
+  if (value === null || value === undefined) {
+    return undefined;
+  }
+  if (value instanceof NodeValue || value instanceof RelationshipValue || value instanceof PathValue) {
+    throw new CypherExecutionError('Nodes, relationships and paths cannot be stored as property values');
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => toStoredValue(item) ?? null);
+  }
+  if (isMap(value)) {
+    // Neo4j rejects map properties; the embedded store keeps them so callers need not serialize
+    const result: PropertyMap = {};
+    Object.entries(value).forEach(([key, entry]) => {
+      const stored = toStoredValue(entry);
+      if (stored !== undefined) {
+        result[key] = stored;
+      }
+    });
+    return result;
+  }
+  return value;
+}
+
+/**
+ * Properties of a node or relationship, or null if it no longer exists
+ */
+export function entityProperties(value: unknown, store: GraphStore): PropertyMap | null {
+  if (value instanceof NodeValue) {
+    return store.getNode(value.id)?.properties || null;
+  }
+  if (value instanceof RelationshipValue) {
+    return store.getRelationship(value.id)?.properties || null;
+  }
+  return null;
+}
+
+/* ------------------------------------------------------------------ */
+/* Projection (WITH / RETURN)                                          */
+/* ------------------------------------------------------------------ */
+
+function projectionKeys(projection: Projection, rows: Row[]): string[] {
+  const keys = projection.items.map((item) => item.alias);
+  if (!projection.star) {
+    return keys;
+  }
+  const starKeys = new Set<string>();
+  rows.forEach((row) => Object.keys(row).forEach((key) => starKeys.add(key)));
+  return Array.from(starKeys)
+    .filter((key) => !keys.includes(key))
+    .sort()
+    .concat(keys);
+}
+
+function project(projection: Projection, rows: Row[], context: ExecutionContext): Row[] {
+  const aggregating = projection.items.some((item) => containsAggregate(item.expression));
+  let projected: ProjectedRow[];
+
+  if (!aggregating) {
+    projected = rows.map((source) => {
+      const row: Row = projection.star ? { ...source } : {};
+      projection.items.forEach((item) => {
+        row[item.alias] = evaluate(item.expression, source, context);
+      });
+      return { row, source };
+    });
+  } else {
+    const keyItems = projection.items.filter((item) => !containsAggregate(item.expression));
+    const groups = new Map<string, Row[]>();
+    for (const source of rows) {
+      const key = keyItems.map((item) => valueKey(evaluate(item.expression, source, context))).join('\u0000');
+      const group = groups.get(key);
+      if (group) {
+        group.push(source);
+      } else {
+        groups.set(key, [source]);
+      }
+    }
+    if (groups.size === 0 && keyItems.length === 0) {
+      groups.set('', []);
+    }
+    projected = Array.from(groups.values()).map((group) => {
+      const source = group[0] || {};
+      const row: Row = projection.star ? { ...source } : {};
+      projection.items.forEach((item) => {
+        row[item.alias] = evaluate(item.expression, source, context, group);
+      });
+      return { row, source, group };
+    });
+  }
+
+  if (projection.distinct) {
+    projected = distinctBy(projected, (entry) => valueKey(entry.row));
+  }
+
+  if (projection.orderBy.length > 0) {
+    const keyed = projected.map((entry) => {
+      const scope = { ...entry.source, ...entry.row };
+      return {
+        entry,
+        keys: projection.orderBy.map((sort) => evaluate(sort.expression, scope, context, entry.group)),
+      };
+    });
+    keyed.sort((a, b) => {
+      for (let i = 0; i < projection.orderBy.length; i++) {
+        const result = sortCompare(a.keys[i], b.keys[i]);
+        if (result !== 0) {
+          return projection.orderBy[i].descending ? -result : result;
+        }
+      }
+      return 0;
+    });
+    projected = keyed.map((item) => item.entry);
+  }
+
+  let output = projected.map((entry) => entry.row);
+  if (projection.skip) {
+    output = output.slice(countValue(evaluate(projection.skip, {}, context), 'SKIP'));
+  }
+  if (projection.limit) {
+    output = output.slice(0, countValue(evaluate(projection.limit, {}, context), 'LIMIT'));
+  }
+  return output;
+}
+
+function countValue(value: unknown, clause: string): number {
+  const number = toNumber(value);
+  if (typeof number !== 'number' || number < 0 || !Number.isFinite(number)) {
+    throw new CypherExecutionError(`Invalid input for ${clause}: expected a non-negative integer`);
+  }
+  return Math.floor(number);
+}
+
+function distinctBy<T>(items: T[], key: (item: T) => string): T[] {
+  const seen = new Set<string>();
+  return items.filter((item) => {
+    const itemKey = key(item);
+    if (seen.has(itemKey)) {
+      return false;
+    }
+    seen.add(itemKey);
+    return true;
+  });
+}
+
+function containsAggregate(expression: Expression): boolean {
+  switch (expression.type) {
+    case 'FunctionCall':
+      return isAggregateFunction(expression.name) || expression.args.some(containsAggregate);
+    case 'Property':
+      return containsAggregate(expression.object);
+    case 'Index':
+      return containsAggregate(expression.object) || containsAggregate(expression.index);
+    case 'Slice':
+      return containsAggregate(expression.object) || (!!expression.from && containsAggregate(expression.from)) || (!!expression.to && containsAggregate(expression.to));
+    case 'Map':
+      return expression.entries.some(([, value]) => containsAggregate(value));
+    case 'List':
+      return expression.items.some(containsAggregate);
+    case 'MapProjection':
+      return expression.items.some((item) => item.kind === 'entry' && containsAggregate(item.expression));
+    case 'Binary':
+      return containsAggregate(expression.left) || containsAggregate(expression.right);
+    case 'Unary':
+    case 'IsNull':
+    case 'LabelCheck':
+      return containsAggregate(expression.operand);
+    case 'Case':
+      return (
+        (!!expression.test && containsAggregate(expression.test)) ||
+        expression.whens.some(({ when, then }) => containsAggregate(when) || containsAggregate(then)) ||
+        (!!expression.otherwise && containsAggregate(expression.otherwise))
+      );
+    case 'ListComprehension':
+      return containsAggregate(expression.list);
+    case 'Quantifier':
+    case 'Reduce':
+      return containsAggregate(expression.list);
+    default:
+      return false;
+  }
+}
+
+/* ------------------------------------------------------------------ */
+/* Expressions                                                         */
+/* ------------------------------------------------------------------ */
+
+/**
+ * Evaluate an expression for a row. When a group is given, aggregate functions are
+ * computed over the rows of that group.
+ */
+export function evaluate(expression: Expression, row: Row, context: ExecutionContext, group?: Row[]): unknown {
+  const recurse = (child: Expression, scope: Row = row) => evaluate(child, scope, context, group);
+
+  switch (expression.type) {
+    case 'Literal':
+      return expression.value;
+    case 'Parameter':
+      if (!(expression.name in context.params)) {
+        throw new CypherExecutionError(`Expected parameter(s): ${expression.name}`);
+      }
+      return context.params[expression.name];
+    case 'Variable':
+      if (!(expression.name in row)) {
+        throw new CypherExecutionError(`Variable \`${expression.name}\` not defined`);
+      }
+      return row[expression.name];
+    case 'Property':
+      return propertyOf(recurse(expression.object), expression.key, context.store);
+    case 'Index': {
+      const target = recurse(expression.object);
+      const index = toNumber(recurse(expression.index));
+      if (target === null || index === null) {
+        return null;
+      }
+      if (Array.isArray(target) && typeof index === 'number') {
+        const position = index < 0 ? target.length + index : index;
+        return target[position] ?? null;
+      }
+      if (typeof index === 'string') {
+        return propertyOf(target, index, context.store);
+      }
+      throw new CypherExecutionError('Invalid index access');
+    }
+    case 'Slice': {
+      const target = recurse(expression.object);
+      if (target === null || (!Array.isArray(target) && typeof target !== 'string')) {
+        return null;
+      }
+      const length = target.length;
+      const normalize = (value: unknown, fallback: number) => {
+        const number = toNumber(value);
+        if (typeof number !== 'number') return fallback;
+        return number < 0 ? Math.max(0, length + number) : Math.min(number, length);
+      };
+      const from = expression.from ? normalize(recurse(expression.from), 0) : 0;
+      const to = expression.to ? normalize(recurse(expression.to), length) : length;
+      return target.slice(from, to);
+    }
+    case 'Map': {
+      const result: Record<string, unknown> = {};
+      expression.entries.forEach(([key, value]) => {
+        result[key] = recurse(value);
+      });
+      return result;
+    }
+    case 'List':
+      return expression.items.map((item) => recurse(item));
+    case 'MapProjection': {
+      const target = row[expression.variable];
+      if (target === null || target === undefined) {
+        return null;
+      }
+      const properties = target instanceof NodeValue || target instanceof RelationshipValue
+        ? entityProperties(target, context.store) || {}
+        : isMap(target) ? target : null;
+      if (!properties) {
+        throw new CypherExecutionError(`Cannot project properties of '${expression.variable}'`);
+      }
+      const result: Record<string, unknown> = {};
+      for (const item of expression.items) {
+        switch (item.kind) {
+          case 'all':
+            Object.assign(result, properties);
+            break;
+          case 'property':
+            result[item.key] = properties[item.key] ?? null;
+            break;
+          case 'entry':
+            result[item.key] = recurse(item.expression);
+            break;
+          case 'variable':
+            result[item.name] = recurse({ type: 'Variable', name: item.name });
+            break;
+        }
+      }
+      return result;
+    }
+    case 'FunctionCall':
+      if (isAggregateFunction(expression.name)) {
+        if (!group) {
+          throw new CypherExecutionError(`Aggregate function ${expression.name}() is not allowed here`);
+        }
+        return aggregate(expression, group, (child, scope) => evaluate(child, scope, context));
+      }
+      return callFunction(expression.name, expression.args.map((arg) => recurse(arg)), context.store);
+    case 'Binary':
+      return evaluateBinary(expression.operator, expression.left, expression.right, recurse);
+    case 'Unary': {
+      const operand = recurse(expression.operand);
+      if (operand === null || operand === undefined) {
+        return null;
+      }
+      if (expression.operator === 'NOT') {
+        return !operand;
+      }
+      const number = toNumber(operand);
+      if (typeof number !== 'number') {
+        throw new CypherExecutionError(`Cannot apply unary ${expression.operator} to a non-number`);
+      }
+      return expression.operator === '-' ? -number : number;
+    }
+    case 'IsNull': {
+      const value = recurse(expression.operand);
+      const isNull = value === null || value === undefined;
+      return expression.negated ? !isNull : isNull;
+    }
+    case 'LabelCheck': {
+      const value = recurse(expression.operand);
+      if (value === null || value === undefined) {
+        return null;
+      }
+      if (!(value instanceof NodeValue)) {
+        throw new CypherExecutionError('Label checks require a node');
+      }
+      const node = context.store.getNode(value.id);
+      return !!node && expression.labels.every((label) => node.labels.includes(label));
+    }
+    case 'Case': {
+      if (expression.test) {
+        const test = recurse(expression.test);
+        for (const { when, then } of expression.whens) {
+          if (cypherEquals(test, recurse(when)) === true) {
+            return recurse(then);
+          }
+        }
+      } else {
+        for (const { when, then } of expression.whens) {
+          if (isTruthy(recurse(when))) {
+            return recurse(then);
+          }
+        }
+      }
+      return expression.otherwise ? recurse(expression.otherwise) : null;
+    }
+    case 'ListComprehension': {
+      const list = recurse(expression.list);
+      if (list === null || list === undefined) {
+        return null;
+      }
+      if (!Array.isArray(list)) {
+        throw new CypherExecutionError('List comprehension requires a list');
+      }
+      const result: unknown[] = [];
+      for (const item of list) {
+        const scope = { ...row, [expression.variable]: item };
+        if (expression.where && !isTruthy(recurse(expression.where, scope))) {
+          continue;
+        }
+        result.push(expression.projection ? recurse(expression.projection, scope) : item);
+      }
+      return result;
+    }
+    case 'Quantifier': {
+      const list = recurse(expression.list);
+      if (list === null || list === undefined) {
+        return null;
+      }
+      if (!Array.isArray(list)) {
+        throw new CypherExecutionError(`${expression.kind}() requires a list`);
+      }
+      const matches = list.filter((item) => isTruthy(recurse(expression.where, { ...row, [expression.variable]: item }))).length;
+      switch (expression.kind) {
+        case 'any':
+          return matches > 0;
+        case 'all':
+          return matches === list.length;
+        case 'none':
+          return matches === 0;
+        case 'single':
+          return matches === 1;
+      }
+      return null;
+    }
+    case 'Reduce': {
+      const list = recurse(expression.list);
+      if (list === null || list === undefined) {
+        return null;
+      }
+      if (!Array.isArray(list)) {
+        throw new CypherExecutionError('reduce() requires a list');
+      }
+      let accumulator = recurse(expression.init);
+      for (const item of list) {
+        accumulator = recurse(expression.expression, { ...row, [expression.accumulator]: accumulator, [expression.variable]: item });
+      }
+      return accumulator;
+    }
+    case 'PatternPredicate': {
+      const iterator = matchPattern(expression.pattern, row, new Set(), context);
+      return !iterator.next().done;
+    }
+    case 'ExistsSubquery':
+      return executeSubquery(expression.query, row, context).length > 0;
+  }
+}
+
+function evaluateBinary(operator: string, leftExpression: Expression, rightExpression: Expression, recurse: (expression: Expression) => unknown): unknown {
+  // Boolean operators use three-valued logic and short-circuit where Cypher allows it
+  if (operator === 'AND' || operator === 'OR' || operator === 'XOR') {
+    const left = recurse(leftExpression);
+    if (operator === 'AND' && left === false) return false;
+    if (operator === 'OR' && left === true) return true;
+    const right = recurse(rightExpression);
+    const l = left === null || left === undefined ? null : !!left;
+    const r = right === null || right === undefined ? null : !!right;
+    if (operator === 'AND') {
+      if (l === false || r === false) return false;
+      return l === null || r === null ? null : true;
+    }
+    if (operator === 'OR') {
+      if (l === true || r === true) return true;
+      return l === null || r === null ? null : false;
+    }
+    return l === null || r === null ? null : l !== r;
+  }
+
+  const left = toNumber(recurse(leftExpression));
+  const right = toNumber(recurse(rightExpression));
+
+  switch (operator) {
+    case '=':
+      return cypherEquals(left, right);
+    case '<>': {
+      const equal = cypherEquals(left, right);
+      return equal === null ? null : !equal;
+    }
+    case '<':
+    case '>':
+    case '<=':
+    case '>=': {
+      const result = cypherCompare(left, right);
+      if (result === null) return null;
+      if (operator === '<') return result < 0;
+      if (operator === '>') return result > 0;
+      if (operator === '<=') return result <= 0;
+      return result >= 0;
+    }
+    case 'IN': {
+      if (right === null || right === undefined) return null;
+      if (!Array.isArray(right)) {
+        throw new CypherExecutionError('IN requires a list on its right-hand side');
+      }
+      let sawNull = false;
+      for (const item of right) {
+        const equal = cypherEquals(left, item);
+        if (equal === true) return true;
+        if (equal === null) sawNull = true;
+      }
+      return sawNull ? null : false;
+    }
+    case 'STARTS WITH':
+    case 'ENDS WITH':
+    case 'CONTAINS':
+    case '=~': {
+      if (typeof left !== 'string' || typeof right !== 'string') return null;
+      if (operator === 'STARTS WITH') return left.startsWith(right);
+      if (operator === 'ENDS WITH') return left.endsWith(right);
+      if (operator === 'CONTAINS') return left.includes(right);
+      return regexFromCypher(right).test(left);
+    }
+    case '+':
+      if (left === null || left === undefined || right === null || right === undefined) return null;
+      if (Array.isArray(left)) return left.concat(Array.isArray(right) ? right : [right]);
+      if (Array.isArray(right)) return [left].concat(right);
+      if (typeof left === 'string' || typeof right === 'string') return `${stringify(left)}${stringify(right)}`;
+      return arithmetic(operator, left, right);
+    default:
+      if (left === null || left === undefined || right === null || right === undefined) return null;
+      return arithmetic(operator, left, right);
+  }
+}
+
+function arithmetic(operator: string, left: unknown, right: unknown): number {
+  if (typeof left !== 'number' || typeof right !== 'number') {
+    throw new CypherExecutionError(`Cannot apply ${operator} to non-numeric values`);
+  }
+  switch (operator) {
+    case '+': return left + right;
+    case '-': return left - right;
+    case '*': return left * right;
+    case '/':
+      // Stored numbers do not remember whether they were integers, so division is always exact
+      return left / right;
+    case '%': return left % right;
+    case '^': return Math.pow(left, right);
+  }
+  throw new CypherExecutionError(`Unknown operator ${operator}`);
+}
+
+function regexFromCypher(pattern: string): RegExp {
+  // Java's inline (?i) flag is the usual way to ask for case-insensitive matches
+  let flags = '';
+  let source = pattern;
+  if (source.startsWith('(?i)')) {
+    flags = 'i';
+    source = source.slice(4);
+  }
+  return new RegExp(`^(?:${source})$`, flags);
+}
+
+function stringify(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function propertyOf(target: unknown, key: string, store: GraphStore): unknown {
+  if (target === null || target === undefined) {
+    return null;
+  }
+  if (target instanceof NodeValue || target instanceof RelationshipValue) {
+    const properties = entityProperties(target, store);
+    return properties ? properties[key] ?? null : null;
+  }
+  if (isMap(target)) {
+    return target[key] ?? null;
+  }
+  throw new CypherExecutionError(`Type mismatch: expected a map, node or relationship when reading '${key}'`);
+}
+
+/**
+ * Normalize the parameters of a query before execution
+ */
+export function normalizeParameters(params: Record<string, unknown> | undefined): Record<string, unknown> {
+  return (normalizeParameter(params || {}) as Record<string, unknown>) || {};
+}
@@ -0,0 +1,269 @@
+import { randomUUID } from 'crypto';
+import { Expression } from './ast';
+import { GraphStore } from './store';
+import {
+  CypherExecutionError,
+  NodeValue,
+  PathValue,
+  RelationshipValue,
+  Row,
+  cypherInteger,
+  isMap,
+  sortCompare,
+  toNumber,
+  valueKey,
+} from './values';
+
+const AGGREGATE_FUNCTIONS = new Set(['count', 'collect', 'sum', 'avg', 'min', 'max', 'stdev']);
+
+/**
+ * Check whether a function aggregates over rows
+ */
+export function isAggregateFunction(name: string): boolean {
+  return AGGREGATE_FUNCTIONS.has(name);
+}
+
+/**
+ * Compute an aggregate function over a group of rows
+ * @param call Function call expression
+ * @param group Rows of the group
+ * @param evaluate Evaluates the argument for one row
+ */
+export function aggregate(
+  call: Extract<Expression, { type: 'FunctionCall' }>,
+  group: Row[],
+  evaluate: (expression: Expression, row: Row) => unknown
+): unknown {
+  if (call.star) {
+    return cypherInteger(group.length);
+  }
+  if (call.args.length === 0) {
+    throw new CypherExecutionError(`${call.name}() requires an argument`);
+  }
+
+  let values = group.map((row) => evaluate(call.args[0], row)).filter((value) => value !== null && value !== undefined);
+  if (call.distinct) {
+    const seen = new Set<string>();
+    values = values.filter((value) => {
+      const key = valueKey(value);
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+  }
+
+  switch (call.name) {
+    case 'count':
+      return cypherInteger(values.length);
+    case 'collect':
+      return values;
+    case 'sum':
+      return values.reduce<number>((total, value) => total + numeric(value, 'sum'), 0);
+    case 'avg':
+      return values.length === 0 ? null : values.reduce<number>((total, value) => total + numeric(value, 'avg'), 0) / values.length;
+    case 'min':
+    case 'max': {
+      if (values.length === 0) {
+        return null;
+      }
+      const sorted = [...values].sort(sortCompare);
+      return call.name === 'min' ? sorted[0] : sorted[sorted.length - 1];
+    }
+    case 'stdev': {
+      if (values.length < 2) {
+        return 0;
+      }
+      const numbers = values.map((value) => numeric(value, 'stdev'));
+      const mean = numbers.reduce((a, b) => a + b, 0) / numbers.length;
+      return Math.sqrt(numbers.reduce((total, value) => total + (value - mean) ** 2, 0) / (numbers.length - 1));
+    }
+  }
+  throw new CypherExecutionError(`Unknown aggregate function ${call.name}()`);
+}
+
+/**
+ * Call a scalar function
+ * @param name Lower-cased function name
+ * @param args Evaluated arguments
+ * @param store Graph store, for functions that inspect nodes and relationships
+ */
+export function callFunction(name: string, args: unknown[], store: GraphStore): unknown {
+  const [first, second, third] = args;
+
+  switch (name) {
+    case 'coalesce':
+      return args.find((value) => value !== null && value !== undefined) ?? null;
+    case 'exists':
+      return first !== null && first !== undefined;
+    case 'id':
+      if (first === null || first === undefined) return null;
+      return cypherInteger(entityId(first, 'id'));
+    case 'elementid':
+      if (first === null || first === undefined) return null;
+      return String(entityId(first, 'elementId'));
+    case 'labels': {
+      if (first === null || first === undefined) return null;
+      if (!(first instanceof NodeValue)) throw new CypherExecutionError('labels() requires a node');
+      return [...(store.getNode(first.id)?.labels || [])];
+    }
+    case 'type': {
+      if (first === null || first === undefined) return null;
+      if (!(first instanceof RelationshipValue)) throw new CypherExecutionError('type() requires a relationship');
+      return store.getRelationship(first.id)?.type ?? null;
+    }
+    case 'properties':
+      if (first === null || first === undefined) return null;
+      if (first instanceof NodeValue) return { ...(store.getNode(first.id)?.properties || {}) };
+      if (first instanceof RelationshipValue) return { ...(store.getRelationship(first.id)?.properties || {}) };
+      if (isMap(first)) return { ...first };
+      throw new CypherExecutionError('properties() requires a node, relationship or map');
+    case 'keys':
+      if (first === null || first === undefined) return null;
+      if (first instanceof NodeValue) return Object.keys(store.getNode(first.id)?.properties || {});
+      if (first instanceof RelationshipValue) return Object.keys(store.getRelationship(first.id)?.properties || {});
+      if (isMap(first)) return Object.keys(first);
+      throw new CypherExecutionError('keys() requires a node, relationship or map');
+    case 'startnode':
+    case 'endnode': {
+      if (first === null || first === undefined) return null;
+      if (!(first instanceof RelationshipValue)) throw new CypherExecutionError(`${name}() requires a relationship`);
+      const relationship = store.getRelationship(first.id);
+      if (!relationship) return null;
+      return new NodeValue(name === 'startnode' ? relationship.start : relationship.end);
+    }
+    case 'nodes':
+      if (first === null || first === undefined) return null;
+      if (!(first instanceof PathValue)) throw new CypherExecutionError('nodes() requires a path');
+      return first.nodes.map((id) => new NodeValue(id));
+    case 'relationships':
+      if (first === null || first === undefined) return null;
+      if (!(first instanceof PathValue)) throw new CypherExecutionError('relationships() requires a path');
+      return first.relationships.map((id) => new RelationshipValue(id));
+    case 'size':
+      if (first === null || first === undefined) return null;
+      if (typeof first === 'string' || Array.isArray(first)) return cypherInteger(first.length);
+      throw new CypherExecutionError('size() requires a string or list');
+    case 'length':
+      if (first === null || first === undefined) return null;
+      if (first instanceof PathValue) return cypherInteger(first.relationships.length);
+      if (typeof first === 'string' || Array.isArray(first)) return cypherInteger(first.length);
+      throw new CypherExecutionError('length() requires a path');
+    case 'isempty':
+      if (first === null || first === undefined) return null;
+      if (typeof first === 'string' || Array.isArray(first)) return first.length === 0;
+      if (isMap(first)) return Object.keys(first).length === 0;
+      throw new CypherExecutionError('isEmpty() requires a string, list or map');
+    case 'head':
+      return Array.isArray(first) ? first[0] ?? null : null;
+    case 'last':
+      return Array.isArray(first) ? first[first.length - 1] ?? null : null;
+    case 'tail':
+      return Array.isArray(first) ? first.slice(1) : null;
+    case 'reverse':
+      if (typeof first === 'string') return first.split('').reverse().join('');
+      return Array.isArray(first) ? [...first].reverse() : null;
+    case 'range': {
+      const start = numeric(first, 'range');
+      const end = numeric(second, 'range');
+      const step = third === undefined ? 1 : numeric(third, 'range');
+      if (step === 0) throw new CypherExecutionError('range() step cannot be zero');
+      const result: unknown[] = [];
+      for (let i = start; step > 0 ? i <= end : i >= end; i += step) {
+        result.push(cypherInteger(i));
+      }
+      return result;
+    }
+    case 'tolower':
+      return typeof first === 'string' ? first.toLowerCase() : null;
+    case 'toupper':
+      return typeof first === 'string' ? first.toUpperCase() : null;
+    case 'trim':
+      return typeof first === 'string' ? first.trim() : null;
+    case 'ltrim':
+      return typeof first === 'string' ? first.replace(/^\s+/, '') : null;
+    case 'rtrim':
+      return typeof first === 'string' ? first.replace(/\s+$/, '') : null;
+    case 'left':
+      return typeof first === 'string' ? first.slice(0, numeric(second, 'left')) : null;
+    case 'right': {
+      if (typeof first !== 'string') return null;
+      const count = numeric(second, 'right');
+      return count === 0 ? '' : first.slice(-count);
+    }
+    case 'substring': {
+      if (typeof first !== 'string') return null;
+      const start = numeric(second, 'substring');
+      return third === undefined ? first.slice(start) : first.substr(start, numeric(third, 'substring'));
+    }
+    case 'replace':
+      if (typeof first !== 'string' || typeof second !== 'string' || typeof third !== 'string') return null;
+      return first.split(second).join(third);
+    case 'split':
+      if (typeof first !== 'string' || typeof second !== 'string') return null;
+      return first.split(second);
+    case 'tostring':
+      if (first === null || first === undefined) return null;
+      if (typeof first === 'string') return first;
+      if (typeof toNumber(first) === 'number' || typeof first === 'boolean') return String(toNumber(first));
+      throw new CypherExecutionError('toString() requires a string, number or boolean');
+    case 'tointeger': {
+      if (first === null || first === undefined) return null;
+      const number = typeof first === 'string' ? Number(first) : toNumber(first);
+      if (typeof number === 'boolean') return cypherInteger(number ? 1 : 0);
+      return typeof number === 'number' && Number.isFinite(number) ? cypherInteger(Math.trunc(number)) : null;
+    }
+    case 'tofloat': {
+      if (first === null || first === undefined) return null;
+      const number = typeof first === 'string' ? Number(first) : toNumber(first);
+      return typeof number === 'number' && Number.isFinite(number) ? number : null;
+    }
+    case 'toboolean':
+      if (typeof first === 'boolean') return first;
+      if (typeof first === 'string') {
+        const lower = first.toLowerCase();
+        return lower === 'true' ? true : lower === 'false' ? false : null;
+      }
+      return null;
+    case 'abs':
+      return first === null || first === undefined ? null : Math.abs(numeric(first, 'abs'));
+    case 'ceil':
+      return first === null || first === undefined ? null : Math.ceil(numeric(first, 'ceil'));
+    case 'floor':
+      return first === null || first === undefined ? null : Math.floor(numeric(first, 'floor'));
+    case 'round':
+      return first === null || first === undefined ? null : Math.round(numeric(first, 'round'));
+    case 'sqrt':
+      return first === null || first === undefined ? null : Math.sqrt(numeric(first, 'sqrt'));
+    case 'sign':
+      return first === null || first === undefined ? null : cypherInteger(Math.sign(numeric(first, 'sign')));
+    case 'rand':
+      return Math.random();
+    case 'randomuuid':
+      return randomUUID();
+    case 'timestamp':
+      return cypherInteger(Date.now());
+    case 'datetime':
+      return first === undefined ? new Date().toISOString() : first;
+    case 'date':
+      return first === undefined ? new Date().toISOString().slice(0, 10) : first;
+  }
+
+  throw new CypherExecutionError(`Unknown function '${name}'`);
+}
+
+function entityId(value: unknown, functionName: string): number {
+  if (value instanceof NodeValue || value instanceof RelationshipValue) {
+    return value.id;
+  }
+  throw new CypherExecutionError(`${functionName}() requires a node or relationship`);
+}
+
+function numeric(value: unknown, functionName: string): number {
+  const number = toNumber(value);
+  if (typeof number !== 'number') {
+    throw new CypherExecutionError(`${functionName}() requires numeric arguments`);
+  }
+  return number;
+}
@@ -0,0 +1,158 @@
+/**
+ * Token kinds produced by the Cypher lexer
+ */
+export type TokenType = 'identifier' | 'string' | 'number' | 'parameter' | 'symbol' | 'eof';
+
+/**
+ * Cypher token
+ */
+export interface Token {
+  type: TokenType;
+  value: string;
+  /** True when the identifier was written with backticks and must not be treated as a keyword */
+  quoted?: boolean;
+  position: number;
+}
+
+/**
+ * Error raised when a query cannot be tokenized or parsed
+ */
+export class CypherSyntaxError extends Error {
+  constructor(message: string, public readonly position?: number) {
+    super(position !== undefined ? `${message} (at offset ${position})` : message);
+    this.name = 'CypherSyntaxError';
+  }
+}
+
+const MULTI_CHAR_SYMBOLS = ['<>', '<=', '>=', '=~', '!=', '..', '+='];
+const SINGLE_CHAR_SYMBOLS = '()[]{},.:|=<>+-*/%^;';
+
+/**
+ * Split a Cypher query into tokens
+ * @param query Cypher query text
+ * @returns Tokens, terminated by an eof token
+ */
+export function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const ch = query[i];
+
+    // Whitespace
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    // Line comments
+    if (ch === '/' && query[i + 1] === '/') {
+      while (i < query.length && query[i] !== '\n') {
+        i++;
+      }
+      continue;
+    }
+
+    // Block comments
+    if (ch === '/' && query[i + 1] === '*') {
+      const end = query.indexOf('*/', i + 2);
+      if (end === -1) {
+        throw new CypherSyntaxError('Unterminated comment', i);
+      }
+      i = end + 2;
+      continue;
+    }
+
+    // String literals
+    if (ch === '\'' || ch === '"') {
+      const start = i;
+      let value = '';
+      i++;
+      while (i < query.length && query[i] !== ch) {
+        if (query[i] === '\\') {
+          const next = query[i + 1];
+          switch (next) {
+            case 'n': value += '\n'; break;
+            case 't': value += '\t'; break;
+            case 'r': value += '\r'; break;
+            case 'b': value += '\b'; break;
+            case 'f': value += '\f'; break;
+            case 'u':
+              value += String.fromCharCode(parseInt(query.substr(i + 2, 4), 16));
+              i += 4;
+              break;
+            default: value += next;
+          }
+          i += 2;
+          continue;
+        }
+        value += query[i];
+        i++;
+      }
+      if (i >= query.length) {
+        throw new CypherSyntaxError('Unterminated string literal', start);
+      }
+      i++;
+      tokens.push({ type: 'string', value, position: start });
+      continue;
+    }
+
+    // Backtick-quoted identifiers
+    if (ch === '`') {
+      const end = query.indexOf('`', i + 1);
+      if (end === -1) {
+        throw new CypherSyntaxError('Unterminated quoted identifier', i);
+      }
+      tokens.push({ type: 'identifier', value: query.slice(i + 1, end), quoted: true, position: i });
+      i = end + 1;
+      continue;
+    }
+
+    // Parameters
+    if (ch === '$') {
+      const match = /^\$([A-Za-z_][A-Za-z0-9_]*|[0-9]+)/.exec(query.slice(i));
+      if (!match) {
+        throw new CypherSyntaxError('Invalid parameter name', i);
+      }
+      tokens.push({ type: 'parameter', value: match[1], position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    // Numbers (a trailing '..' belongs to a range, not to the number)
+    if (/[0-9]/.test(ch)) {
+      const match = /^[0-9]+(\.[0-9]+(?!\.))?([eE][+-]?[0-9]+)?/.exec(query.slice(i));
+      const text = match ? match[0] : ch;
+      tokens.push({ type: 'number', value: text, position: i });
+      i += text.length;
+      continue;
+    }
+
+    // Identifiers and keywords
+    if (/[A-Za-z_]/.test(ch)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(query.slice(i));
+      const text = match ? match[0] : ch;
+      tokens.push({ type: 'identifier', value: text, position: i });
+      i += text.length;
+      continue;
+    }
+
+    // Symbols
+    const pair = query.substr(i, 2);
+    if (MULTI_CHAR_SYMBOLS.includes(pair)) {
+      tokens.push({ type: 'symbol', value: pair, position: i });
+      i += 2;
+      continue;
+    }
+    if (SINGLE_CHAR_SYMBOLS.includes(ch)) {
+      tokens.push({ type: 'symbol', value: ch, position: i });
+      i++;
+      continue;
+    }
+
+    throw new CypherSyntaxError(`Unexpected character '${ch}'`, i);
+  }
+
+  tokens.push({ type: 'eof', value: '', position: query.length });
+  return tokens;
+}
@@ -0,0 +1,819 @@
+import { tokenize, Token, CypherSyntaxError } from './lexer';
+import {
+  Clause,
+  Expression,
+  MapProjectionItem,
+  NodePattern,
+  PatternPart,
+  Projection,
+  ProjectionItem,
+  Query,
+  RelationshipPattern,
+  RemoveItem,
+  SetItem,
+  SingleQuery,
+  SortItem,
+} from './ast';
+
+const RESERVED_WORDS = new Set([
+  'MATCH', 'OPTIONAL', 'WHERE', 'RETURN', 'WITH', 'CREATE', 'MERGE', 'SET', 'DELETE', 'DETACH',
+  'REMOVE', 'UNWIND', 'ORDER', 'BY', 'SKIP', 'LIMIT', 'AS', 'AND', 'OR', 'XOR', 'IN', 'IS',
+  'WHEN', 'THEN', 'ELSE', 'END', 'ON', 'CALL', 'YIELD', 'UNION', 'DISTINCT', 'ASC', 'DESC',
+  'ASCENDING', 'DESCENDING', 'STARTS', 'ENDS', 'CONTAINS',
+]);
+
+const COMPARISON_OPERATORS = ['=', '<>', '!=', '<', '>', '<=', '>=', '=~'];
+
+/**
+ * Recursive-descent parser for the Cypher subset used by the repositories
+ */
+class Parser {
+  private tokens: Token[];
+  private index = 0;
+
+  constructor(private readonly text: string) {
+    this.tokens = tokenize(text);
+  }
+
+  /**
+   * Parse a complete query, including UNION parts
+   */
+  public parseQuery(): Query {
+    const query = this.parseUnion();
+    this.acceptSymbol(';');
+    if (this.peek().type !== 'eof') {
+      this.fail(`Unexpected '${this.peek().value}'`);
+    }
+    return query;
+  }
+
+  private parseUnion(): Query {
+    const parts: SingleQuery[] = [this.parseSingleQuery()];
+    const unionAll: boolean[] = [];
+    while (this.acceptKeyword('UNION')) {
+      unionAll.push(this.acceptKeyword('ALL'));
+      parts.push(this.parseSingleQuery());
+    }
+    return { parts, unionAll };
+  }
+
+  private parseSingleQuery(): SingleQuery {
+    const clauses: Clause[] = [];
+    for (;;) {
+      const clause = this.parseClause();
+      if (!clause) {
+        break;
+      }
+      clauses.push(clause);
+    }
+    if (clauses.length === 0) {
+      this.fail(`Expected a clause but found '${this.peek().value}'`);
+    }
+    return { clauses };
+  }
+
+  private parseClause(): Clause | null {
+    if (this.isKeyword('OPTIONAL') && this.isKeyword('MATCH', 1)) {
+      this.index += 2;
+      return this.parseMatch(true);
+    }
+    if (this.acceptKeyword('MATCH')) {
+      return this.parseMatch(false);
+    }
+    if (this.acceptKeyword('CREATE')) {
+      return { type: 'Create', patterns: this.parsePatternList() };
+    }
+    if (this.acceptKeyword('MERGE')) {
+      return this.parseMerge();
+    }
+    if (this.acceptKeyword('SET')) {
+      return { type: 'Set', items: this.parseSetItems() };
+    }
+    if (this.acceptKeyword('REMOVE')) {
+      return { type: 'Remove', items: this.parseRemoveItems() };
+    }
+    if (this.isKeyword('DETACH') && this.isKeyword('DELETE', 1)) {
+      this.index += 2;
+      return { type: 'Delete', detach: true, expressions: this.parseExpressionList() };
+    }
+    if (this.acceptKeyword('DELETE')) {
+      return { type: 'Delete', detach: false, expressions: this.parseExpressionList() };
+    }
+    if (this.acceptKeyword('WITH')) {
+      const projection = this.parseProjection();
+      const where = this.acceptKeyword('WHERE') ? this.parseExpression() : undefined;
+      return { type: 'With', projection, where };
+    }
+    if (this.acceptKeyword('RETURN')) {
+      return { type: 'Return', projection: this.parseProjection() };
+    }
+    if (this.acceptKeyword('UNWIND')) {
+      const expression = this.parseExpression();
+      this.expectKeyword('AS');
+      return { type: 'Unwind', expression, variable: this.expectIdentifier() };
+    }
+    if (this.acceptKeyword('CALL')) {
+      return this.parseCall();
+    }
+    return null;
+  }
+
+  private parseMatch(optional: boolean): Clause {
+    const patterns = this.parsePatternList();
+    const where = this.acceptKeyword('WHERE') ? this.parseExpression() : undefined;
+    return { type: 'Match', optional, patterns, where };
+  }
+
+  private parseMerge(): Clause {
+    const pattern = this.parsePatternPart();
+    const onCreate: SetItem[] = [];
+    const onMatch: SetItem[] = [];
+    while (this.isKeyword('ON')) {
+      this.index++;
+      if (this.acceptKeyword('CREATE')) {
+        this.expectKeyword('SET');
+        onCreate.push(...this.parseSetItems());
+      } else {
+        this.expectKeyword('MATCH');
+        this.expectKeyword('SET');
+        onMatch.push(...this.parseSetItems());
+      }
+    }
+    return { type: 'Merge', pattern, onCreate, onMatch };
+  }
+
+  private parseCall(): Clause {
+    if (this.acceptSymbol('{')) {
+      const query = this.parseUnion();
+      this.expectSymbol('}');
+      return { type: 'CallSubquery', query };
+    }
+
+    let name = this.expectIdentifier();
+    while (this.acceptSymbol('.')) {
+      name += '.' + this.expectIdentifier();
+    }
+    const args: Expression[] = [];
+    this.expectSymbol('(');
+    if (!this.acceptSymbol(')')) {
+      args.push(...this.parseExpressionList());
+      this.expectSymbol(')');
+    }
+
+    const yields: ProjectionItem[] = [];
+    if (this.acceptKeyword('YIELD')) {
+      do {
+        const field = this.expectIdentifier();
+        const alias = this.acceptKeyword('AS') ? this.expectIdentifier() : field;
+        yields.push({ expression: { type: 'Variable', name: field }, alias });
+      } while (this.acceptSymbol(','));
+    }
+    return { type: 'CallProcedure', name: name.toLowerCase(), args, yields };
+  }
+
+  private parseProjection(): Projection {
+    const distinct = this.acceptKeyword('DISTINCT');
+    let star = false;
+    const items: ProjectionItem[] = [];
+
+    if (this.acceptSymbol('*')) {
+      star = true;
+      if (!this.acceptSymbol(',')) {
+        return this.parseProjectionTail({ distinct, star, items, orderBy: [] });
+      }
+    }
+
+    do {
+      const start = this.peek().position;
+      const expression = this.parseExpression();
+      const end = this.peek().position;
+      let alias: string;
+      if (this.acceptKeyword('AS')) {
+        alias = this.expectIdentifier();
+      } else if (expression.type === 'Variable') {
+        alias = expression.name;
+      } else {
+        alias = this.text.slice(start, end).trim();
+      }
+      items.push({ expression, alias });
+    } while (this.acceptSymbol(','));
+
+    return this.parseProjectionTail({ distinct, star, items, orderBy: [] });
+  }
+
+  private parseProjectionTail(projection: Projection): Projection {
+    if (this.isKeyword('ORDER')) {
+      this.index++;
+      this.expectKeyword('BY');
+      const orderBy: SortItem[] = [];
+      do {
+        const expression = this.parseExpression();
+        let descending = false;
+        if (this.acceptKeyword('DESC') || this.acceptKeyword('DESCENDING')) {
+          descending = true;
+        } else if (!this.acceptKeyword('ASC')) {
+          this.acceptKeyword('ASCENDING');
+        }
+        orderBy.push({ expression, descending });
+      } while (this.acceptSymbol(','));
+      projection.orderBy = orderBy;
+    }
+    if (this.acceptKeyword('SKIP')) {
+      projection.skip = this.parseExpression();
+    }
+    if (this.acceptKeyword('LIMIT')) {
+      projection.limit = this.parseExpression();
+    }
+    return projection;
+  }
+
+  private parseSetItems(): SetItem[] {
+    const items: SetItem[] = [];
+    do {
+      const variable = this.expectIdentifier();
+      if (this.isSymbol(':')) {
+        items.push({ kind: 'labels', variable, labels: this.parseLabels() });
+        continue;
+      }
+      if (this.acceptSymbol('+=')) {
+        items.push({ kind: 'merge', variable, value: this.parseExpression() });
+        continue;
+      }
+      if (this.acceptSymbol('=')) {
+        items.push({ kind: 'replace', variable, value: this.parseExpression() });
+        continue;
+      }
+
+      let target: Expression = { type: 'Variable', name: variable };
+      this.expectSymbol('.');
+      let key = this.expectName();
+      while (this.acceptSymbol('.')) {
+        target = { type: 'Property', object: target, key };
+        key = this.expectName();
+      }
+      this.expectSymbol('=');
+      items.push({ kind: 'property', target, key, value: this.parseExpression() });
+    } while (this.acceptSymbol(','));
+    return items;
+  }
+
+  private parseRemoveItems(): RemoveItem[] {
+    const items: RemoveItem[] = [];
+    do {
+      const variable = this.expectIdentifier();
+      if (this.isSymbol(':')) {
+        items.push({ kind: 'labels', variable, labels: this.parseLabels() });
+      } else {
+        this.expectSymbol('.');
+        items.push({ kind: 'property', target: { type: 'Variable', name: variable }, key: this.expectName() });
+      }
+    } while (this.acceptSymbol(','));
+    return items;
+  }
+
+  private parseLabels(): string[] {
+    const labels: string[] = [];
+    while (this.acceptSymbol(':')) {
+      labels.push(this.expectName());
+    }
+    return labels;
+  }
+
+  private parsePatternList(): PatternPart[] {
+    const patterns: PatternPart[] = [];
+    do {
+      patterns.push(this.parsePatternPart());
+    } while (this.acceptSymbol(','));
+    return patterns;
+  }
+
+  private parsePatternPart(): PatternPart {
+    let pathVariable: string | undefined;
+    if (this.peek().type === 'identifier' && this.isSymbol('=', 1)) {
+      pathVariable = this.expectIdentifier();
+      this.expectSymbol('=');
+    }
+
+    const nodes: NodePattern[] = [this.parseNodePattern()];
+    const relationships: RelationshipPattern[] = [];
+    while (this.isSymbol('-') || (this.isSymbol('<') && this.isSymbol('-', 1))) {
+      relationships.push(this.parseRelationshipPattern());
+      nodes.push(this.parseNodePattern());
+    }
+    return { pathVariable, nodes, relationships };
+  }
+
+  private parseNodePattern(): NodePattern {
+    this.expectSymbol('(');
+    const node: NodePattern = { labels: [] };
+    if (this.peek().type === 'identifier') {
+      node.variable = this.expectIdentifier();
+    }
+    node.labels = this.parseLabels();
+    if (this.isSymbol('{')) {
+      node.properties = this.parseMapLiteral();
+    } else if (this.peek().type === 'parameter') {
+      node.properties = { type: 'Parameter', name: this.next().value };
+    }
+    this.expectSymbol(')');
+    return node;
+  }
+
+  private parseRelationshipPattern(): RelationshipPattern {
+    const incoming = this.acceptSymbol('<');
+    this.expectSymbol('-');
+
+    const relationship: RelationshipPattern = { types: [], direction: 'both' };
+    if (this.acceptSymbol('[')) {
+      if (this.peek().type === 'identifier') {
+        relationship.variable = this.expectIdentifier();
+      }
+      if (this.acceptSymbol(':')) {
+        relationship.types.push(this.expectName());
+        while (this.acceptSymbol('|')) {
+          this.acceptSymbol(':');
+          relationship.types.push(this.expectName());
+        }
+      }
+      if (this.acceptSymbol('*')) {
+        relationship.range = this.parseRange();
+      }
+      if (this.isSymbol('{')) {
+        relationship.properties = this.parseMapLiteral();
+      } else if (this.peek().type === 'parameter') {
+        relationship.properties = { type: 'Parameter', name: this.next().value };
+      }
+      this.expectSymbol(']');
+    }
+
+    this.expectSymbol('-');
+    const outgoing = this.acceptSymbol('>');
+    if (incoming && outgoing) {
+      this.fail('A relationship cannot point in both directions');
+    }
+    relationship.direction = incoming ? 'in' : outgoing ? 'out' : 'both';
+    return relationship;
+  }
+
+  private parseRange(): { min: number; max: number } {
+    let min = 1;
+    let max = Infinity;
+    if (this.peek().type === 'number') {
+      min = parseInt(this.next().value, 10);
+      max = min;
+    }
+    if (this.acceptSymbol('..')) {
+      max = this.peek().type === 'number' ? parseInt(this.next().value, 10) : Infinity;
+    }
+    return { min, max };
+  }
+
+  private parseExpressionList(): Expression[] {
+    const expressions: Expression[] = [];
+    do {
+      expressions.push(this.parseExpression());
+    } while (this.acceptSymbol(','));
+    return expressions;
+  }
+
+  public parseExpression(): Expression {
+    return this.parseOr();
+  }
+
+  private parseOr(): Expression {
+    let left = this.parseXor();
+    while (this.acceptKeyword('OR')) {
+      left = { type: 'Binary', operator: 'OR', left, right: this.parseXor() };
+    }
+    return left;
+  }
+
+  private parseXor(): Expression {
+    let left = this.parseAnd();
+    while (this.acceptKeyword('XOR')) {
+      left = { type: 'Binary', operator: 'XOR', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): Expression {
+    let left = this.parseNot();
+    while (this.acceptKeyword('AND')) {
+      left = { type: 'Binary', operator: 'AND', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): Expression {
+    if (this.acceptKeyword('NOT')) {
+      return { type: 'Unary', operator: 'NOT', operand: this.parseNot() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): Expression {
+    let left = this.parseAdditive();
+    for (;;) {
+      const token = this.peek();
+      if (token.type === 'symbol' && COMPARISON_OPERATORS.includes(token.value)) {
+        this.index++;
+        const operator = token.value === '!=' ? '<>' : token.value;
+        left = { type: 'Binary', operator, left, right: this.parseAdditive() };
+      } else if (this.acceptKeyword('IN')) {
+        left = { type: 'Binary', operator: 'IN', left, right: this.parseAdditive() };
+      } else if (this.isKeyword('STARTS') && this.isKeyword('WITH', 1)) {
+        this.index += 2;
+        left = { type: 'Binary', operator: 'STARTS WITH', left, right: this.parseAdditive() };
+      } else if (this.isKeyword('ENDS') && this.isKeyword('WITH', 1)) {
+        this.index += 2;
+        left = { type: 'Binary', operator: 'ENDS WITH', left, right: this.parseAdditive() };
+      } else if (this.acceptKeyword('CONTAINS')) {
+        left = { type: 'Binary', operator: 'CONTAINS', left, right: this.parseAdditive() };
+      } else if (this.acceptKeyword('IS')) {
+        const negated = this.acceptKeyword('NOT');
+        this.expectKeyword('NULL');
+        left = { type: 'IsNull', operand: left, negated };
+      } else {
+        return left;
+      }
+    }
+  }
+
+  private parseAdditive(): Expression {
+    let left = this.parseMultiplicative();
+    while (this.isSymbol('+') || this.isSymbol('-')) {
+      const operator = this.next().value;
+      left = { type: 'Binary', operator, left, right: this.parseMultiplicative() };
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): Expression {
+    let left = this.parsePower();
+    while (this.isSymbol('*') || this.isSymbol('/') || this.isSymbol('%')) {
+      const operator = this.next().value;
+      left = { type: 'Binary', operator, left, right: this.parsePower() };
+    }
+    return left;
+  }
+
+  private parsePower(): Expression {
+    const left = this.parseUnary();
+    if (this.acceptSymbol('^')) {
+      return { type: 'Binary', operator: '^', left, right: this.parsePower() };
+    }
+    return left;
+  }
+
+  private parseUnary(): Expression {
+    if (this.isSymbol('-') || this.isSymbol('+')) {
+      const operator = this.next().value;
+      return { type: 'Unary', operator, operand: this.parseUnary() };
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): Expression {
+    let expression = this.parseAtom();
+    for (;;) {
+      if (this.isSymbol('.') && this.peek(1).type === 'identifier') {
+        this.index++;
+        expression = { type: 'Property', object: expression, key: this.expectName() };
+      } else if (this.isSymbol('[')) {
+        this.index++;
+        if (this.acceptSymbol('..')) {
+          const to = this.isSymbol(']') ? undefined : this.parseExpression();
+          this.expectSymbol(']');
+          expression = { type: 'Slice', object: expression, to };
+          continue;
+        }
+        const index = this.parseExpression();
+        if (this.acceptSymbol('..')) {
+          const to = this.isSymbol(']') ? undefined : this.parseExpression();
+          this.expectSymbol(']');
+          expression = { type: 'Slice', object: expression, from: index, to };
+          continue;
+        }
+        this.expectSymbol(']');
+        expression = { type: 'Index', object: expression, index };
+      } else if (this.isSymbol(':') && this.peek(1).type === 'identifier') {
+        expression = { type: 'LabelCheck', operand: expression, labels: this.parseLabels() };
+      } else {
+        return expression;
+      }
+    }
+  }
+
+  private parseAtom(): Expression {
+    const token = this.peek();
+
+    if (token.type === 'number') {
+      this.index++;
+      return { type: 'Literal', value: Number(token.value) };
+    }
+    if (token.type === 'string') {
+      this.index++;
+      return { type: 'Literal', value: token.value };
+    }
+    if (token.type === 'parameter') {
+      this.index++;
+      return { type: 'Parameter', name: token.value };
+    }
+    if (token.type === 'symbol') {
+      if (token.value === '[') {
+        return this.parseListOrComprehension();
+      }
+      if (token.value === '{') {
+        return this.parseMapLiteral();
+      }
+      if (token.value === '(') {
+        const pattern = this.tryParsePatternPredicate();
+        if (pattern) {
+          return pattern;
+        }
+        this.index++;
+        const inner = this.parseExpression();
+        this.expectSymbol(')');
+        return inner;
+      }
+      this.fail(`Unexpected '${token.value}'`);
+    }
+    if (token.type !== 'identifier') {
+      this.fail('Unexpected end of query');
+    }
+
+    const upper = token.value.toUpperCase();
+    if (!token.quoted) {
+      if (upper === 'TRUE' || upper === 'FALSE') {
+        this.index++;
+        return { type: 'Literal', value: upper === 'TRUE' };
+      }
+      if (upper === 'NULL') {
+        this.index++;
+        return { type: 'Literal', value: null };
+      }
+      if (upper === 'CASE') {
+        this.index++;
+        return this.parseCase();
+      }
+      if (upper === 'EXISTS' && this.isSymbol('{', 1)) {
+        this.index += 2;
+        const query = this.isKeyword('MATCH') || this.isKeyword('OPTIONAL') || this.isKeyword('WITH') || this.isKeyword('CALL') || this.isKeyword('UNWIND')
+          ? this.parseUnion()
+          : this.parseBarePatternSubquery();
+        this.expectSymbol('}');
+        return { type: 'ExistsSubquery', query };
+      }
+      if (upper === 'EXISTS' && this.isSymbol('(', 1)) {
+        const save = this.index;
+        this.index += 2;
+        const pattern = this.tryParsePatternPredicate(true);
+        if (pattern && this.acceptSymbol(')')) {
+          return pattern;
+        }
+        this.index = save;
+      }
+      if (['ANY', 'ALL', 'NONE', 'SINGLE'].includes(upper) && this.isSymbol('(', 1) && this.peek(2).type === 'identifier' && this.isKeyword('IN', 3)) {
+        this.index += 2;
+        const variable = this.expectIdentifier();
+        this.expectKeyword('IN');
+        const list = this.parseExpression();
+        this.expectKeyword('WHERE');
+        const where = this.parseExpression();
+        this.expectSymbol(')');
+        return { type: 'Quantifier', kind: upper.toLowerCase() as 'any' | 'all' | 'none' | 'single', variable, list, where };
+      }
+      if (upper === 'REDUCE' && this.isSymbol('(', 1)) {
+        this.index += 2;
+        const accumulator = this.expectIdentifier();
+        this.expectSymbol('=');
+        const init = this.parseExpression();
+        this.expectSymbol(',');
+        const variable = this.expectIdentifier();
+        this.expectKeyword('IN');
+        const list = this.parseExpression();
+        this.expectSymbol('|');
+        const expression = this.parseExpression();
+        this.expectSymbol(')');
+        return { type: 'Reduce', accumulator, init, variable, list, expression };
+      }
+    }
+
+    // Function calls, including namespaced ones such as apoc.text.join
+    let lookahead = 1;
+    while (this.isSymbol('.', lookahead) && this.peek(lookahead + 1).type === 'identifier') {
+      lookahead += 2;
+    }
+    if (this.isSymbol('(', lookahead)) {
+      let name = this.next().value;
+      while (this.acceptSymbol('.')) {
+        name += '.' + this.next().value;
+      }
+      this.expectSymbol('(');
+      if (this.acceptSymbol('*')) {
+        this.expectSymbol(')');
+        return { type: 'FunctionCall', name: name.toLowerCase(), args: [], distinct: false, star: true };
+      }
+      const distinct = this.acceptKeyword('DISTINCT');
+      const args = this.isSymbol(')') ? [] : this.parseExpressionList();
+      this.expectSymbol(')');
+      return { type: 'FunctionCall', name: name.toLowerCase(), args, distinct, star: false };
+    }
+
+    if (!token.quoted && RESERVED_WORDS.has(upper)) {
+      this.fail(`Unexpected keyword '${token.value}'`);
+    }
+    this.index++;
+
+    if (this.isSymbol('{')) {
+      return this.parseMapProjection(token.value);
+    }
+    return { type: 'Variable', name: token.value };
+  }
+
+  private parseCase(): Expression {
+    const test = this.isKeyword('WHEN') ? undefined : this.parseExpression();
+    const whens: Array<{ when: Expression; then: Expression }> = [];
+    while (this.acceptKeyword('WHEN')) {
+      const when = this.parseExpression();
+      this.expectKeyword('THEN');
+      whens.push({ when, then: this.parseExpression() });
+    }
+    const otherwise = this.acceptKeyword('ELSE') ? this.parseExpression() : undefined;
+    this.expectKeyword('END');
+    return { type: 'Case', test, whens, otherwise };
+  }
+
+  private parseListOrComprehension(): Expression {
+    this.expectSymbol('[');
+    if (this.peek().type === 'identifier' && this.isKeyword('IN', 1)) {
+      const variable = this.expectIdentifier();
+      this.expectKeyword('IN');
+      const list = this.parseExpression();
+      const where = this.acceptKeyword('WHERE') ? this.parseExpression() : undefined;
+      const projection = this.acceptSymbol('|') ? this.parseExpression() : undefined;
+      this.expectSymbol(']');
+      return { type: 'ListComprehension', variable, list, where, projection };
+    }
+    const items = this.isSymbol(']') ? [] : this.parseExpressionList();
+    this.expectSymbol(']');
+    return { type: 'List', items };
+  }
+
+  private parseMapLiteral(): Expression {
+    this.expectSymbol('{');
+    const entries: Array<[string, Expression]> = [];
+    if (!this.isSymbol('}')) {
+      do {
+        const key = this.peek().type === 'string' ? this.next().value : this.expectName();
+        this.expectSymbol(':');
+        entries.push([key, this.parseExpression()]);
+      } while (this.acceptSymbol(','));
+    }
+    this.expectSymbol('}');
+    return { type: 'Map', entries };
+  }
+
+  private parseMapProjection(variable: string): Expression {
+    this.expectSymbol('{');
+    const items: MapProjectionItem[] = [];
+    if (!this.isSymbol('}')) {
+      do {
+        if (this.acceptSymbol('.')) {
+          if (this.acceptSymbol('*')) {
+            items.push({ kind: 'all' });
+          } else {
+            items.push({ kind: 'property', key: this.expectName() });
+          }
+        } else {
+          const key = this.expectName();
+          if (this.acceptSymbol(':')) {
+            items.push({ kind: 'entry', key, expression: this.parseExpression() });
+          } else {
+            items.push({ kind: 'variable', name: key });
+          }
+        }
+      } while (this.acceptSymbol(','));
+    }
+    this.expectSymbol('}');
+    return { type: 'MapProjection', variable, items };
+  }
+
+  /**
+   * Parse "(a)-[...]->(b)" in expression position; restores the position and
+   * returns null when the parenthesis turns out to be an ordinary expression
+   */
+  private tryParsePatternPredicate(allowSingleNode = false): Expression | null {
+    const save = this.index;
+    try {
+      const pattern = this.parsePatternPart();
+      if (pattern.relationships.length > 0 || allowSingleNode) {
+        return { type: 'PatternPredicate', pattern };
+      }
+    } catch (error) {
+      if (!(error instanceof CypherSyntaxError)) {
+        throw error;
+      }
+    }
+    this.index = save;
+    return null;
+  }
+
+  /**
+   * EXISTS { (a)-->(b) WHERE ... } shorthand for a MATCH subquery
+   */
+  private parseBarePatternSubquery(): Query {
+    const patterns = this.parsePatternList();
+    const where = this.acceptKeyword('WHERE') ? this.parseExpression() : undefined;
+    return { parts: [{ clauses: [{ type: 'Match', optional: false, patterns, where }] }], unionAll: [] };
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    this.index++;
+    return token;
+  }
+
+  private isSymbol(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token.type === 'symbol' && token.value === value;
+  }
+
+  private acceptSymbol(value: string): boolean {
+    if (this.isSymbol(value)) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectSymbol(value: string): void {
+    if (!this.acceptSymbol(value)) {
+      this.fail(`Expected '${value}' but found '${this.peek().value || 'end of query'}'`);
+    }
+  }
+
+  private isKeyword(keyword: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token.type === 'identifier' && !token.quoted && token.value.toUpperCase() === keyword;
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    if (this.isKeyword(keyword)) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectKeyword(keyword: string): void {
+    if (!this.acceptKeyword(keyword)) {
+      this.fail(`Expected ${keyword} but found '${this.peek().value || 'end of query'}'`);
+    }
+  }
+
+  private expectIdentifier(): string {
+    const token = this.peek();
+    if (token.type !== 'identifier') {
+      this.fail(`Expected an identifier but found '${token.value || 'end of query'}'`);
+    }
+    this.index++;
+    return token.value;
+  }
+
+  /**
+   * Property keys, labels and relationship types may be reserved words
+   */
+  private expectName(): string {
+    return this.expectIdentifier();
+  }
+
+  private fail(message: string): never {
+    throw new CypherSyntaxError(message, this.peek().position);
+  }
+}
+
+const queryCache = new Map<string, Query>();
+const QUERY_CACHE_LIMIT = 500;
+
+/**
+ * Parse a Cypher query, caching the result by query text
+ * @param text Query text
+ * @returns Parsed query
+ */
+export function parseQuery(text: string): Query {
+  const cached = queryCache.get(text);
+  if (cached) {
+    return cached;
+  }
+  const query = new Parser(text).parseQuery();
+  if (queryCache.size >= QUERY_CACHE_LIMIT) {
+    queryCache.delete(queryCache.keys().next().value as string);
+  }
+  queryCache.set(text, query);
+  return query;
+}
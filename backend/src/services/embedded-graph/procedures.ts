@@ -0,0 +1,173 @@
+import { GraphStore } from './store';
+import { CypherExecutionError, NodeValue, PathValue, toNumber } from './values';
+
+interface RelationshipFilter {
+  type?: string;
+  direction: 'out' | 'in' | 'both';
+}
+
+interface LabelFilter {
+  whitelist: string[];
+  blacklist: string[];
+  termination: string[];
+  endNodes: string[];
+}
+
+/**
+ * Call a procedure and return its records
+ * @param name Lower-cased, fully qualified procedure name
+ * @param args Evaluated arguments
+ * @param store Graph store
+ */
+export function callProcedure(name: string, args: unknown[], store: GraphStore): Array<Record<string, unknown>> {
+  switch (name) {
+    case 'apoc.path.expand':
+      return expandPaths(args, store);
+    case 'db.labels': {
+      const labels = new Set<string>();
+      store.allNodeIds().forEach((id) => store.getNode(id)?.labels.forEach((label) => labels.add(label)));
+      return Array.from(labels).sort().map((label) => ({ label }));
+    }
+    case 'db.relationshiptypes': {
+      const types = new Set<string>();
+      store.allRelationshipIds().forEach((id) => {
+        const relationship = store.getRelationship(id);
+        if (relationship) {
+          types.add(relationship.type);
+        }
+      });
+      return Array.from(types).sort().map((relationshipType) => ({ relationshipType }));
+    }
+  }
+  throw new CypherExecutionError(`Procedure ${name} is not supported by the embedded graph store`);
+}
+
+/**
+ * Breadth-first path expansion following the semantics of apoc.path.expand
+ * with RELATIONSHIP_PATH uniqueness
+ */
+function expandPaths(args: unknown[], store: GraphStore): Array<Record<string, unknown>> {
+  const [start, relationshipFilterArg, labelFilterArg, minLevelArg, maxLevelArg] = args;
+  if (!(start instanceof NodeValue)) {
+    return [];
+  }
+  const relationshipFilters = parseRelationshipFilter(relationshipFilterArg);
+  const labelFilter = parseLabelFilter(labelFilterArg);
+  const minLevel = Number(toNumber(minLevelArg) ?? 0);
+  const maxLevel = maxLevelArg === null || maxLevelArg === undefined ? Infinity : Number(toNumber(maxLevelArg));
+  if (maxLevel !== Infinity && maxLevel < 0) {
+    return [];
+  }
+
+  const records: Array<Record<string, unknown>> = [];
+  let frontier: PathValue[] = [new PathValue([start.id], [])];
+  if (minLevel === 0 && acceptsEndNode(start.id, labelFilter, store)) {
+    records.push({ path: frontier[0] });
+  }
+
+  for (let level = 1; level <= maxLevel && frontier.length > 0; level++) {
+    const next: PathValue[] = [];
+    for (const path of frontier) {
+      const current = path.nodes[path.nodes.length - 1];
+      // Termination nodes end expansion along that path
+      if (path.relationships.length > 0 && hasAnyLabel(current, labelFilter.termination, store)) {
+        continue;
+      }
+      for (const filter of relationshipFilters) {
+        for (const relationshipId of store.relationshipIdsOf(current, filter.direction)) {
+          if (path.relationships.includes(relationshipId)) {
+            continue;
+          }
+          const relationship = store.getRelationship(relationshipId);
+          if (!relationship || (filter.type && relationship.type !== filter.type)) {
+            continue;
+          }
+          const other = relationship.start === current ? relationship.end : relationship.start;
+          if (!passesLabelFilter(other, labelFilter, store)) {
+            continue;
+          }
+          const extended = new PathValue([...path.nodes, other], [...path.relationships, relationshipId]);
+          next.push(extended);
+          if (level >= minLevel && acceptsEndNode(other, labelFilter, store)) {
+            records.push({ path: extended });
+          }
+        }
+      }
+    }
+    frontier = next;
+  }
+
+  return records;
+}
+
+function parseRelationshipFilter(value: unknown): RelationshipFilter[] {
+  const entries = Array.isArray(value) ? value.map(String) : typeof value === 'string' && value ? value.split('|') : [];
+  if (entries.length === 0) {
+    return [{ direction: 'both' }];
+  }
+  const filters: RelationshipFilter[] = [];
+  const seen = new Set<string>();
+  for (const raw of entries) {
+    let entry = raw.trim();
+    let direction: 'out' | 'in' | 'both' = 'both';
+    if (entry.startsWith('<')) {
+      direction = 'in';
+      entry = entry.slice(1);
+    } else if (entry.endsWith('>')) {
+      direction = 'out';
+      entry = entry.slice(0, -1);
+    }
+    const key = `${entry}:${direction}`;
+    if (!seen.has(key)) {
+      seen.add(key);
+      filters.push({ type: entry || undefined, direction });
+    }
+  }
+  return filters;
+}
+
+function parseLabelFilter(value: unknown): LabelFilter {
+  const entries = Array.isArray(value) ? value.map(String) : typeof value === 'string' && value ? value.split('|') : [];
+  const filter: LabelFilter = { whitelist: [], blacklist: [], termination: [], endNodes: [] };
+  for (const raw of entries) {
+    const entry = raw.trim();
+    if (!entry) {
+      continue;
+    }
+    switch (entry[0]) {
+      case '-':
+        filter.blacklist.push(entry.slice(1));
+        break;
+      case '/':
+        filter.termination.push(entry.slice(1));
+        break;
+      case '>':
+        filter.endNodes.push(entry.slice(1));
+        break;
+      case '+':
+        filter.whitelist.push(entry.slice(1));
+        break;
+      default:
+        filter.whitelist.push(entry);
+    }
+  }
+  return filter;
+}
+
+function passesLabelFilter(nodeId: number, filter: LabelFilter, store: GraphStore): boolean {
+  if (hasAnyLabel(nodeId, filter.blacklist, store)) {
+    return false;
+  }
+  const allowed = [...filter.whitelist, ...filter.termination, ...filter.endNodes];
+  return allowed.length === 0 || filter.whitelist.length === 0 || hasAnyLabel(nodeId, allowed, store);
+}
+
+function acceptsEndNode(nodeId: number, filter: LabelFilter, store: GraphStore): boolean {
+  const endLabels = [...filter.termination, ...filter.endNodes];
+  return endLabels.length === 0 || hasAnyLabel(nodeId, endLabels, store);
+}
+
+function hasAnyLabel(nodeId: number, labels: string[], store: GraphStore): boolean {
+  const node = store.getNode(nodeId);
+  return !!node && labels.some((label) => node.labels.includes(label));
+}
@@ -0,0 +1,88 @@
+import { CypherSyntaxError } from './lexer';
+
+/**
+ * Uniqueness constraint or property index on a node label
+ */
+export interface SchemaEntry {
+  name: string;
+  kind: 'constraint' | 'index';
+  label: string;
+  property: string;
+}
+
+/**
+ * Schema command understood by the embedded store
+ */
+export type SchemaCommand =
+  | { type: 'create'; entry: SchemaEntry; ifNotExists: boolean }
+  | { type: 'drop'; kind: SchemaEntry['kind']; name: string; ifExists: boolean }
+  | { type: 'show'; kind: SchemaEntry['kind'] };
+
+const IDENTIFIER = '(?:`[^`]+`|[A-Za-z_][A-Za-z0-9_]*)';
+
+const CREATE_CONSTRAINT = new RegExp(
+  `^CREATE\\s+CONSTRAINT(?:\\s+(?!IF\\b|FOR\\b)(${IDENTIFIER}))?(\\s+IF\\s+NOT\\s+EXISTS)?\\s+FOR\\s*\\(\\s*(${IDENTIFIER})\\s*:\\s*(${IDENTIFIER})\\s*\\)\\s+REQUIRE\\s+(${IDENTIFIER})\\s*\\.\\s*(${IDENTIFIER})\\s+IS\\s+UNIQUE$`,
+  'i'
+);
+
+const CREATE_INDEX = new RegExp(
+  `^CREATE\\s+INDEX(?:\\s+(?!IF\\b|FOR\\b)(${IDENTIFIER}))?(\\s+IF\\s+NOT\\s+EXISTS)?\\s+FOR\\s*\\(\\s*(${IDENTIFIER})\\s*:\\s*(${IDENTIFIER})\\s*\\)\\s+ON\\s*\\(\\s*(${IDENTIFIER})\\s*\\.\\s*(${IDENTIFIER})\\s*\\)$`,
+  'i'
+);
+
+const DROP = new RegExp(`^DROP\\s+(CONSTRAINT|INDEX)\\s+(${IDENTIFIER})(\\s+IF\\s+EXISTS)?$`, 'i');
+
+const SHOW = /^SHOW\s+(CONSTRAINTS|INDEXES)$/i;
+
+/**
+ * Recognize a schema command; returns null for ordinary queries
+ * @param text Query text
+ */
+export function parseSchemaCommand(text: string): SchemaCommand | null {
+  const statement = text.trim().replace(/;$/, '').replace(/\s+/g, ' ');
+  if (!/^(CREATE\s+(CONSTRAINT|INDEX)|DROP\s+(CONSTRAINT|INDEX)|SHOW\s+(CONSTRAINTS|INDEXES))\b/i.test(statement)) {
+    return null;
+  }
+
+  const show = SHOW.exec(statement);
+  if (show) {
+    return { type: 'show', kind: show[1].toUpperCase() === 'CONSTRAINTS' ? 'constraint' : 'index' };
+  }
+
+  const drop = DROP.exec(statement);
+  if (drop) {
+    return {
+      type: 'drop',
+      kind: drop[1].toUpperCase() === 'CONSTRAINT' ? 'constraint' : 'index',
+      name: unquote(drop[2]),
+      ifExists: !!drop[3],
+    };
+  }
+
+  for (const [pattern, kind] of [
+    [CREATE_CONSTRAINT, 'constraint'],
+    [CREATE_INDEX, 'index'],
+  ] as Array<[RegExp, SchemaEntry['kind']]>) {
+    const match = pattern.exec(statement);
+    if (!match) {
+      continue;
+    }
+    const [, name, ifNotExists, variable, label, propertyVariable, property] = match;
+    if (unquote(variable) !== unquote(propertyVariable)) {
+      throw new CypherSyntaxError(`Variable \`${unquote(propertyVariable)}\` not defined`);
+    }
+    const entry: SchemaEntry = {
+      name: name ? unquote(name) : `${kind}_${unquote(label).toLowerCase()}_${unquote(property)}`,
+      kind,
+      label: unquote(label),
+      property: unquote(property),
+    };
+    return { type: 'create', entry, ifNotExists: !!ifNotExists };
+  }
+
+  throw new CypherSyntaxError(`Unsupported schema command: ${statement}`);
+}
+
+function unquote(identifier: string): string {
+  return identifier.startsWith('`') ? identifier.slice(1, -1) : identifier;
+}
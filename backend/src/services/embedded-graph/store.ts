@@ -0,0 +1,678 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SchemaEntry } from './schema';
+
+/**
+ * Property map stored on nodes and relationships
+ */
+export type PropertyMap = Record<string, unknown>;
+
+/**
+ * Node as kept by the store
+ */
+export interface StoredNode {
+  id: number;
+  labels: string[];
+  properties: PropertyMap;
+}
+
+/**
+ * Relationship as kept by the store
+ */
+export interface StoredRelationship {
+  id: number;
+  type: string;
+  start: number;
+  end: number;
+  properties: PropertyMap;
+}
+
+/**
+ * Journal entry describing a single committed mutation
+ */
+type JournalOperation =
+  | { op: 'createNode'; id: number; labels: string[]; properties: PropertyMap }
+  | { op: 'deleteNode'; id: number }
+  | { op: 'createRelationship'; id: number; type: string; start: number; end: number; properties: PropertyMap }
+  | { op: 'deleteRelationship'; id: number }
+  | { op: 'setNodeProperty'; id: number; key: string; value?: unknown }
+  | { op: 'setRelationshipProperty'; id: number; key: string; value?: unknown }
+  | { op: 'addLabel'; id: number; label: string }
+  | { op: 'removeLabel'; id: number; label: string }
+  | { op: 'createSchema'; entry: SchemaEntry }
+  | { op: 'dropSchema'; name: string };
+
+interface Snapshot {
+  version: number;
+  nextNodeId: number;
+  nextRelationshipId: number;
+  nodes: StoredNode[];
+  relationships: StoredRelationship[];
+  schema?: SchemaEntry[];
+}
+
+const SNAPSHOT_VERSION = 1;
+const COMPACT_AFTER_OPERATIONS = 5000;
+
+/**
+ * Undo/redo log for one write transaction
+ */
+export class ChangeLog {
+  public readonly undo: Array<() => void> = [];
+  public readonly operations: JournalOperation[] = [];
+  public nodesCreated = 0;
+  public nodesDeleted = 0;
+  public relationshipsCreated = 0;
+  public relationshipsDeleted = 0;
+  public propertiesSet = 0;
+  public labelsAdded = 0;
+  public labelsRemoved = 0;
+  public schemaChanges = 0;
+
+  /**
+   * Check whether the transaction changed anything
+   */
+  public get isEmpty(): boolean {
+    return this.operations.length === 0;
+  }
+}
+
+/**
+ * In-memory property graph persisted as a JSON snapshot plus an append-only journal.
+ *
+ * Every committed write transaction is appended to the journal as a single line, so a crash
+ * loses at most the transaction being written. The journal is folded back into the snapshot
+ * when the store is opened, closed, or when it grows past a threshold.
+ */
+export class GraphStore {
+  private nodes = new Map<number, StoredNode>();
+  private relationships = new Map<number, StoredRelationship>();
+  private labelIndex = new Map<string, Set<number>>();
+  private outgoing = new Map<number, Set<number>>();
+  private incoming = new Map<number, Set<number>>();
+  private propertyIndexes = new Map<string, Map<string, Set<number>>>();
+  private schema = new Map<string, SchemaEntry>();
+  private nextNodeId = 0;
+  private nextRelationshipId = 0;
+  private journalOperations = 0;
+
+  /**
+   * @param filePath Snapshot file, or null to keep the graph in memory only
+   */
+  constructor(private readonly filePath: string | null) {}
+
+  /**
+   * Load the snapshot and replay the journal
+   */
+  public async open(): Promise<void> {
+    if (!this.filePath) {
+      return;
+    }
+
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    if (fs.existsSync(this.filePath)) {
+      const snapshot = JSON.parse(await fs.promises.readFile(this.filePath, 'utf8')) as Snapshot;
+      if (snapshot.version !== SNAPSHOT_VERSION) {
+        throw new Error(`Unsupported embedded graph snapshot version ${snapshot.version}`);
+      }
+      this.nextNodeId = snapshot.nextNodeId;
+      this.nextRelationshipId = snapshot.nextRelationshipId;
+      for (const node of snapshot.nodes) {
+        this.insertNode(node);
+      }
+      for (const relationship of snapshot.relationships) {
+        this.insertRelationship(relationship);
+      }
+      for (const entry of snapshot.schema || []) {
+        this.schema.set(entry.name, entry);
+      }
+    }
+
+    const journalPath = this.journalPath();
+    if (journalPath && fs.existsSync(journalPath)) {
+      const lines = (await fs.promises.readFile(journalPath, 'utf8')).split('\n');
+      for (const line of lines) {
+        if (!line.trim()) {
+          continue;
+        }
+        let operations: JournalOperation[];
+        try {
+          operations = JSON.parse(line);
+        } catch {
+          // A torn final line means the process died mid-write; that transaction never committed
+          console.warn('Ignoring incomplete embedded graph journal entry');
+          break;
+        }
+        operations.forEach((operation) => this.replay(operation));
+      }
+    }
+
+    await this.compact();
+  }
+
+  /**
+   * Write a fresh snapshot and truncate the journal
+   */
+  public async compact(): Promise<void> {
+    if (!this.filePath) {
+      return;
+    }
+
+    const snapshot: Snapshot = {
+      version: SNAPSHOT_VERSION,
+      nextNodeId: this.nextNodeId,
+      nextRelationshipId: this.nextRelationshipId,
+      nodes: Array.from(this.nodes.values()),
+      relationships: Array.from(this.relationships.values()),
+      schema: Array.from(this.schema.values()),
+    };
+
+    const temporaryPath = `${this.filePath}.tmp`;
+    await fs.promises.writeFile(temporaryPath, JSON.stringify(snapshot));
+    await fs.promises.rename(temporaryPath, this.filePath);
+    await fs.promises.writeFile(this.journalPath() as string, '');
+    this.journalOperations = 0;
+  }
+
+  /**
+   * Persist a committed transaction
+   * @param changes Change log of the transaction
+   */
+  public async commit(changes: ChangeLog): Promise<void> {
+    if (!this.filePath || changes.isEmpty) {
+      return;
+    }
+
+    await fs.promises.appendFile(this.journalPath() as string, JSON.stringify(changes.operations) + '\n');
+    this.journalOperations += changes.operations.length;
+
+    if (this.journalOperations >= COMPACT_AFTER_OPERATIONS) {
+      await this.compact();
+    }
+  }
+
+  /**
+   * Undo every change of a failed transaction
+   * @param changes Change log of the transaction
+   */
+  public rollback(changes: ChangeLog): void {
+    for (let i = changes.undo.length - 1; i >= 0; i--) {
+      changes.undo[i]();
+    }
+  }
+
+  /**
+   * Get node by ID
+   */
+  public getNode(id: number): StoredNode | undefined {
+    return this.nodes.get(id);
+  }
+
+  /**
+   * Get relationship by ID
+   */
+  public getRelationship(id: number): StoredRelationship | undefined {
+    return this.relationships.get(id);
+  }
+
+  /**
+   * IDs of all nodes
+   */
+  public allNodeIds(): number[] {
+    return Array.from(this.nodes.keys());
+  }
+
+  /**
+   * IDs of all relationships
+   */
+  public allRelationshipIds(): number[] {
+    return Array.from(this.relationships.keys());
+  }
+
+  /**
+   * IDs of nodes carrying a label
+   */
+  public nodeIdsByLabel(label: string): number[] {
+    return Array.from(this.labelIndex.get(label) || []);
+  }
+
+  /**
+   * Number of nodes carrying a label
+   */
+  public countByLabel(label: string): number {
+    return this.labelIndex.get(label)?.size || 0;
+  }
+
+  /**
+   * IDs of nodes with a label and an exact property value, using a lazily built index
+   */
+  public nodeIdsByProperty(label: string, key: string, value: unknown): number[] {
+    const indexKey = `${label}\u0000${key}`;
+    let index = this.propertyIndexes.get(indexKey);
+    if (!index) {
+      index = new Map();
+      for (const id of this.labelIndex.get(label) || []) {
+        const node = this.nodes.get(id) as StoredNode;
+        this.addToPropertyIndex(index, node.properties[key], id);
+      }
+      this.propertyIndexes.set(indexKey, index);
+    }
+    return Array.from(index.get(indexValueKey(value)) || []);
+  }
+
+  /**
+   * Relationship IDs attached to a node
+   */
+  public relationshipIdsOf(nodeId: number, direction: 'out' | 'in' | 'both'): number[] {
+    const out = direction === 'in' ? [] : Array.from(this.outgoing.get(nodeId) || []);
+    const inc = direction === 'out' ? [] : Array.from(this.incoming.get(nodeId) || []);
+    if (direction !== 'both') {
+      return direction === 'out' ? out : inc;
+    }
+    // Self-loops appear in both sets but must only be reported once
+    return out.concat(inc.filter((id) => !this.outgoing.get(nodeId)?.has(id)));
+  }
+
+  /**
+   * Constraints and indexes, optionally of one kind
+   */
+  public schemaEntries(kind?: SchemaEntry['kind']): SchemaEntry[] {
+    return Array.from(this.schema.values()).filter((entry) => !kind || entry.kind === kind);
+  }
+
+  /**
+   * Get a constraint or index by name
+   */
+  public getSchemaEntry(name: string): SchemaEntry | undefined {
+    return this.schema.get(name);
+  }
+
+  /**
+   * Add a constraint or index; existing data must already satisfy a new constraint
+   */
+  public createSchemaEntry(entry: SchemaEntry, changes: ChangeLog): void {
+    if (entry.kind === 'constraint') {
+      for (const id of this.nodeIdsByLabel(entry.label)) {
+        this.assertUnique(entry, id);
+      }
+    }
+    this.schema.set(entry.name, { ...entry });
+    changes.undo.push(() => this.schema.delete(entry.name));
+    changes.operations.push({ op: 'createSchema', entry: { ...entry } });
+    changes.schemaChanges++;
+  }
+
+  /**
+   * Remove a constraint or index
+   */
+  public dropSchemaEntry(name: string, changes: ChangeLog): void {
+    const entry = this.schema.get(name);
+    if (!entry) {
+      return;
+    }
+    this.schema.delete(name);
+    changes.undo.push(() => this.schema.set(name, entry));
+    changes.operations.push({ op: 'dropSchema', name });
+    changes.schemaChanges++;
+  }
+
+  /**
+   * Check uniqueness constraints for the nodes touched since an operation offset
+   * @param changes Change log of the running transaction
+   * @param fromOperation Index of the first operation to check
+   */
+  public checkConstraints(changes: ChangeLog, fromOperation: number): void {
+    const constraints = this.schemaEntries('constraint');
+    if (constraints.length === 0) {
+      return;
+    }
+    const touched = new Set<number>();
+    for (const operation of changes.operations.slice(fromOperation)) {
+      if (operation.op === 'createNode' || operation.op === 'setNodeProperty' || operation.op === 'addLabel') {
+        touched.add(operation.id);
+      }
+    }
+    for (const id of touched) {
+      const node = this.nodes.get(id);
+      if (!node) {
+        continue;
+      }
+      for (const constraint of constraints) {
+        if (node.labels.includes(constraint.label)) {
+          this.assertUnique(constraint, id);
+        }
+      }
+    }
+  }
+
+  /**
+   * Create a node
+   */
+  public createNode(labels: string[], properties: PropertyMap, changes: ChangeLog): StoredNode {
+    const node: StoredNode = { id: this.nextNodeId++, labels: unique(labels), properties: { ...properties } };
+    this.insertNode(node);
+    changes.undo.push(() => this.removeNode(node.id));
+    changes.operations.push({ op: 'createNode', id: node.id, labels: node.labels, properties: { ...node.properties } });
+    changes.nodesCreated++;
+    changes.labelsAdded += node.labels.length;
+    changes.propertiesSet += Object.keys(node.properties).length;
+    return node;
+  }
+
+  /**
+   * Delete a node, which must no longer have relationships
+   */
+  public deleteNode(id: number, changes: ChangeLog): void {
+    const node = this.nodes.get(id);
+    if (!node) {
+      return;
+    }
+    if ((this.outgoing.get(id)?.size || 0) + (this.incoming.get(id)?.size || 0) > 0) {
+      throw new Error(`Cannot delete node<${id}>, because it still has relationships. To delete this node, you must first delete its relationships.`);
+    }
+    this.removeNode(id);
+    changes.undo.push(() => this.insertNode(node));
+    changes.operations.push({ op: 'deleteNode', id });
+    changes.nodesDeleted++;
+  }
+
+  /**
+   * Create a relationship
+   */
+  public createRelationship(type: string, start: number, end: number, properties: PropertyMap, changes: ChangeLog): StoredRelationship {
+    if (!this.nodes.has(start) || !this.nodes.has(end)) {
+      throw new Error('Cannot create a relationship to a deleted node');
+    }
+    const relationship: StoredRelationship = { id: this.nextRelationshipId++, type, start, end, properties: { ...properties } };
+    this.insertRelationship(relationship);
+    changes.undo.push(() => this.removeRelationship(relationship.id));
+    changes.operations.push({ op: 'createRelationship', ...relationship, properties: { ...relationship.properties } });
+    changes.relationshipsCreated++;
+    changes.propertiesSet += Object.keys(relationship.properties).length;
+    return relationship;
+  }
+
+  /**
+   * Delete a relationship
+   */
+  public deleteRelationship(id: number, changes: ChangeLog): void {
+    const relationship = this.relationships.get(id);
+    if (!relationship) {
+      return;
+    }
+    this.removeRelationship(id);
+    changes.undo.push(() => this.insertRelationship(relationship));
+    changes.operations.push({ op: 'deleteRelationship', id });
+    changes.relationshipsDeleted++;
+  }
+
+  /**
+   * Set or remove (value undefined) a node property
+   */
+  public setNodeProperty(id: number, key: string, value: unknown, changes: ChangeLog): void {
+    const node = this.nodes.get(id);
+    if (!node) {
+      return;
+    }
+    const previous = node.properties[key];
+    const hadKey = key in node.properties;
+    this.writeNodeProperty(node, key, value);
+    changes.undo.push(() => this.writeNodeProperty(node, key, hadKey ? previous : undefined));
+    changes.operations.push({ op: 'setNodeProperty', id, key, value });
+    changes.propertiesSet++;
+  }
+
+  /**
+   * Set or remove (value undefined) a relationship property
+   */
+  public setRelationshipProperty(id: number, key: string, value: unknown, changes: ChangeLog): void {
+    const relationship = this.relationships.get(id);
+    if (!relationship) {
+      return;
+    }
+    const previous = relationship.properties[key];
+    const hadKey = key in relationship.properties;
+    writeProperty(relationship.properties, key, value);
+    changes.undo.push(() => writeProperty(relationship.properties, key, hadKey ? previous : undefined));
+    changes.operations.push({ op: 'setRelationshipProperty', id, key, value });
+    changes.propertiesSet++;
+  }
+
+  /**
+   * Add a label to a node
+   */
+  public addLabel(id: number, label: string, changes: ChangeLog): void {
+    const node = this.nodes.get(id);
+    if (!node || node.labels.includes(label)) {
+      return;
+    }
+    this.writeLabel(node, label, true);
+    changes.undo.push(() => this.writeLabel(node, label, false));
+    changes.operations.push({ op: 'addLabel', id, label });
+    changes.labelsAdded++;
+  }
+
+  /**
+   * Remove a label from a node
+   */
+  public removeLabel(id: number, label: string, changes: ChangeLog): void {
+    const node = this.nodes.get(id);
+    if (!node || !node.labels.includes(label)) {
+      return;
+    }
+    this.writeLabel(node, label, false);
+    changes.undo.push(() => this.writeLabel(node, label, true));
+    changes.operations.push({ op: 'removeLabel', id, label });
+    changes.labelsRemoved++;
+  }
+
+  private assertUnique(constraint: SchemaEntry, id: number): void {
+    const value = this.nodes.get(id)?.properties[constraint.property];
+    if (value === undefined || value === null) {
+      return;
+    }
+    const owners = this.nodeIdsByProperty(constraint.label, constraint.property, value);
+    if (owners.length > 1) {
+      throw new Error(
+        `Node(${owners.find((owner) => owner !== id)}) already exists with label \`${constraint.label}\` and property \`${constraint.property}\` = ${JSON.stringify(value)}`
+      );
+    }
+  }
+
+  private journalPath(): string | null {
+    return this.filePath ? `${this.filePath}.journal` : null;
+  }
+
+  private replay(operation: JournalOperation): void {
+    switch (operation.op) {
+      case 'createNode':
+        this.insertNode({ id: operation.id, labels: operation.labels, properties: operation.properties });
+        this.nextNodeId = Math.max(this.nextNodeId, operation.id + 1);
+        break;
+      case 'deleteNode':
+        this.removeNode(operation.id);
+        break;
+      case 'createRelationship':
+        this.insertRelationship({
+          id: operation.id,
+          type: operation.type,
+          start: operation.start,
+          end: operation.end,
+          properties: operation.properties,
+        });
+        this.nextRelationshipId = Math.max(this.nextRelationshipId, operation.id + 1);
+        break;
+      case 'deleteRelationship':
+        this.removeRelationship(operation.id);
+        break;
+      case 'setNodeProperty': {
+        const node = this.nodes.get(operation.id);
+        if (node) {
+          this.writeNodeProperty(node, operation.key, operation.value);
+        }
+        break;
+      }
+      case 'setRelationshipProperty': {
+        const relationship = this.relationships.get(operation.id);
+        if (relationship) {
+          writeProperty(relationship.properties, operation.key, operation.value);
+        }
+        break;
+      }
+      case 'addLabel':
+      case 'removeLabel': {
+        const node = this.nodes.get(operation.id);
+        if (node) {
+          this.writeLabel(node, operation.label, operation.op === 'addLabel');
+        }
+        break;
+      }
+      case 'createSchema':
+        this.schema.set(operation.entry.name, operation.entry);
+        break;
+      case 'dropSchema':
+        this.schema.delete(operation.name);
+        break;
+    }
+  }
+
+  private insertNode(node: StoredNode): void {
+    this.nodes.set(node.id, node);
+    for (const label of node.labels) {
+      this.indexLabel(label).add(node.id);
+    }
+    this.updatePropertyIndexes(node, undefined);
+  }
+
+  private removeNode(id: number): void {
+    const node = this.nodes.get(id);
+    if (!node) {
+      return;
+    }
+    this.removeFromPropertyIndexes(node);
+    for (const label of node.labels) {
+      this.labelIndex.get(label)?.delete(id);
+    }
+    this.nodes.delete(id);
+    this.outgoing.delete(id);
+    this.incoming.delete(id);
+  }
+
+  private insertRelationship(relationship: StoredRelationship): void {
+    this.relationships.set(relationship.id, relationship);
+    adjacency(this.outgoing, relationship.start).add(relationship.id);
+    adjacency(this.incoming, relationship.end).add(relationship.id);
+  }
+
+  private removeRelationship(id: number): void {
+    const relationship = this.relationships.get(id);
+    if (!relationship) {
+      return;
+    }
+    this.outgoing.get(relationship.start)?.delete(id);
+    this.incoming.get(relationship.end)?.delete(id);
+    this.relationships.delete(id);
+  }
+
+  private writeNodeProperty(node: StoredNode, key: string, value: unknown): void {
+    this.removeFromPropertyIndexes(node, key);
+    writeProperty(node.properties, key, value);
+    this.updatePropertyIndexes(node, key);
+  }
+
+  private writeLabel(node: StoredNode, label: string, add: boolean): void {
+    this.removeFromPropertyIndexes(node);
+    if (add) {
+      node.labels = [...node.labels, label];
+      this.indexLabel(label).add(node.id);
+    } else {
+      node.labels = node.labels.filter((existing) => existing !== label);
+      this.labelIndex.get(label)?.delete(node.id);
+    }
+    this.updatePropertyIndexes(node, undefined);
+  }
+
+  private indexLabel(label: string): Set<number> {
+    let ids = this.labelIndex.get(label);
+    if (!ids) {
+      ids = new Set();
+      this.labelIndex.set(label, ids);
+    }
+    return ids;
+  }
+
+  private updatePropertyIndexes(node: StoredNode, onlyKey: string | undefined): void {
+    this.forEachPropertyIndex(node, onlyKey, (index, key) => this.addToPropertyIndex(index, node.properties[key], node.id));
+  }
+
+  private removeFromPropertyIndexes(node: StoredNode, onlyKey?: string): void {
+    this.forEachPropertyIndex(node, onlyKey, (index, key) => {
+      const valueKey = indexValueKey(node.properties[key]);
+      index.get(valueKey)?.delete(node.id);
+    });
+  }
+
+  private forEachPropertyIndex(
+    node: StoredNode,
+    onlyKey: string | undefined,
+    callback: (index: Map<string, Set<number>>, key: string) => void
+  ): void {
+    if (this.propertyIndexes.size === 0) {
+      return;
+    }
+    for (const label of node.labels) {
+      if (onlyKey !== undefined) {
+        const index = this.propertyIndexes.get(`${label}\u0000${onlyKey}`);
+        if (index) {
+          callback(index, onlyKey);
+        }
+        continue;
+      }
+      for (const [indexKey, index] of this.propertyIndexes) {
+        const [indexLabel, key] = indexKey.split('\u0000');
+        if (indexLabel === label) {
+          callback(index, key);
+        }
+      }
+    }
+  }
+
+  private addToPropertyIndex(index: Map<string, Set<number>>, value: unknown, id: number): void {
+    if (value === undefined || value === null) {
+      return;
+    }
+    const valueKey = indexValueKey(value);
+    let ids = index.get(valueKey);
+    if (!ids) {
+      ids = new Set();
+      index.set(valueKey, ids);
+    }
+    ids.add(id);
+  }
+}
+
+function writeProperty(properties: PropertyMap, key: string, value: unknown): void {
+  if (value === undefined || value === null) {
+    delete properties[key];
+  } else {
+    properties[key] = value;
+  }
+}
+
+function adjacency(map: Map<number, Set<number>>, nodeId: number): Set<number> {
+  let ids = map.get(nodeId);
+  if (!ids) {
+    ids = new Set();
+    map.set(nodeId, ids);
+  }
+  return ids;
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
+
+function indexValueKey(value: unknown): string {
+  return typeof value === 'string' ? `s:${value}` : `j:${JSON.stringify(value)}`;
+}
@@ -0,0 +1,262 @@
+import { int, isInt, Integer } from 'neo4j-driver';
+
+/**
+ * Reference to a stored node during query execution
+ */
+export class NodeValue {
+  constructor(public readonly id: number) {}
+}
+
+/**
+ * Reference to a stored relationship during query execution
+ */
+export class RelationshipValue {
+  constructor(public readonly id: number) {}
+}
+
+/**
+ * Path through the graph; nodes has one more entry than relationships
+ */
+export class PathValue {
+  constructor(public readonly nodes: number[], public readonly relationships: number[]) {}
+}
+
+/**
+ * Bindings of variables to values for one row of a query
+ */
+export type Row = Record<string, unknown>;
+
+/**
+ * Error raised while executing a query, mirroring the Neo4j error surface
+ */
+export class CypherExecutionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CypherExecutionError';
+  }
+}
+
+/**
+ * Create a Cypher integer, as returned by count(), size(), id() and friends
+ */
+export function cypherInteger(value: number): Integer {
+  return int(value);
+}
+
+/**
+ * Convert driver integers to plain numbers
+ */
+export function toNumber(value: unknown): unknown {
+  return isInt(value) ? (value as Integer).toNumber() : value;
+}
+
+/**
+ * Check for a map value (not a node, relationship, path, list or driver type)
+ */
+export function isMap(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof NodeValue) &&
+    !(value instanceof RelationshipValue) &&
+    !(value instanceof PathValue) &&
+    !isInt(value)
+  );
+}
+
+/**
+ * Normalize a query parameter: driver integers become numbers, dates become ISO strings and
+ * undefined becomes null, recursively
+ */
+export function normalizeParameter(value: unknown): unknown {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (isInt(value)) {
+    return (value as Integer).toNumber();
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(normalizeParameter);
+  }
+  if (typeof value === 'object') {
+    // Driver temporal types (DateTime, Date, ...) serialize to ISO strings
+    const constructorName = (value as object).constructor?.name;
+    if (constructorName && constructorName !== 'Object' && typeof (value as { toString: () => string }).toString === 'function' && 'year' in (value as object)) {
+      return String(value);
+    }
+    const result: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value as Record<string, unknown>)) {
+      result[key] = normalizeParameter(entry);
+    }
+    return result;
+  }
+  return value;
+}
+
+/**
+ * Three-valued Cypher equality; returns null when either side is null
+ */
+export function cypherEquals(left: unknown, right: unknown): boolean | null {
+  left = toNumber(left);
+  right = toNumber(right);
+  if (left === null || left === undefined || right === null || right === undefined) {
+    return null;
+  }
+  if (left instanceof NodeValue || right instanceof NodeValue) {
+    return left instanceof NodeValue && right instanceof NodeValue && left.id === right.id;
+  }
+  if (left instanceof RelationshipValue || right instanceof RelationshipValue) {
+    return left instanceof RelationshipValue && right instanceof RelationshipValue && left.id === right.id;
+  }
+  if (left instanceof PathValue || right instanceof PathValue) {
+    return left instanceof PathValue && right instanceof PathValue && valueKey(left) === valueKey(right);
+  }
+  if (Array.isArray(left) || Array.isArray(right)) {
+    if (!Array.isArray(left) || !Array.isArray(right) || left.length !== right.length) {
+      return false;
+    }
+    let sawNull = false;
+    for (let i = 0; i < left.length; i++) {
+      const equal = cypherEquals(left[i], right[i]);
+      if (equal === false) {
+        return false;
+      }
+      if (equal === null) {
+        sawNull = true;
+      }
+    }
+    return sawNull ? null : true;
+  }
+  if (isMap(left) || isMap(right)) {
+    if (!isMap(left) || !isMap(right)) {
+      return false;
+    }
+    const keys = Object.keys(left);
+    if (keys.length !== Object.keys(right).length) {
+      return false;
+    }
+    let sawNull = false;
+    for (const key of keys) {
+      if (!(key in right)) {
+        return false;
+      }
+      const equal = cypherEquals(left[key], right[key]);
+      if (equal === false) {
+        return false;
+      }
+      if (equal === null) {
+        sawNull = true;
+      }
+    }
+    return sawNull ? null : true;
+  }
+  return left === right;
+}
+
+/**
+ * Ordering comparison for <, >, <= and >=; returns null for incomparable values
+ */
+export function cypherCompare(left: unknown, right: unknown): number | null {
+  left = toNumber(left);
+  right = toNumber(right);
+  if (left === null || left === undefined || right === null || right === undefined) {
+    return null;
+  }
+  if (typeof left === 'number' && typeof right === 'number') {
+    return left < right ? -1 : left > right ? 1 : 0;
+  }
+  if (typeof left === 'string' && typeof right === 'string') {
+    return left < right ? -1 : left > right ? 1 : 0;
+  }
+  if (typeof left === 'boolean' && typeof right === 'boolean') {
+    return Number(left) - Number(right);
+  }
+  if (Array.isArray(left) && Array.isArray(right)) {
+    for (let i = 0; i < Math.min(left.length, right.length); i++) {
+      const result = cypherCompare(left[i], right[i]);
+      if (result !== 0) {
+        return result;
+      }
+    }
+    return left.length - right.length;
+  }
+  return null;
+}
+
+const SORT_TYPE_ORDER = ['map', 'node', 'relationship', 'list', 'path', 'string', 'boolean', 'number'];
+
+/**
+ * Total ordering used by ORDER BY; nulls sort last in ascending order
+ */
+export function sortCompare(left: unknown, right: unknown): number {
+  left = toNumber(left);
+  right = toNumber(right);
+  const leftNull = left === null || left === undefined;
+  const rightNull = right === null || right === undefined;
+  if (leftNull || rightNull) {
+    return leftNull && rightNull ? 0 : leftNull ? 1 : -1;
+  }
+  const leftType = SORT_TYPE_ORDER.indexOf(sortType(left));
+  const rightType = SORT_TYPE_ORDER.indexOf(sortType(right));
+  if (leftType !== rightType) {
+    return leftType - rightType;
+  }
+  const result = cypherCompare(left, right);
+  if (result !== null) {
+    return result;
+  }
+  const leftKey = valueKey(left);
+  const rightKey = valueKey(right);
+  return leftKey < rightKey ? -1 : leftKey > rightKey ? 1 : 0;
+}
+
+function sortType(value: unknown): string {
+  if (value instanceof NodeValue) return 'node';
+  if (value instanceof RelationshipValue) return 'relationship';
+  if (value instanceof PathValue) return 'path';
+  if (Array.isArray(value)) return 'list';
+  if (typeof value === 'string') return 'string';
+  if (typeof value === 'boolean') return 'boolean';
+  if (typeof value === 'number') return 'number';
+  return 'map';
+}
+
+/**
+ * Stable string key for grouping and DISTINCT
+ */
+export function valueKey(value: unknown): string {
+  value = toNumber(value);
+  if (value === null || value === undefined) {
+    return 'null';
+  }
+  if (value instanceof NodeValue) {
+    return `N${value.id}`;
+  }
+  if (value instanceof RelationshipValue) {
+    return `R${value.id}`;
+  }
+  if (value instanceof PathValue) {
+    return `P${value.nodes.join(',')}|${value.relationships.join(',')}`;
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(valueKey).join(',')}]`;
+  }
+  if (typeof value === 'object') {
+    const entries = Object.keys(value as object)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${valueKey((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Interpret a value in a boolean context, where null counts as false
+ */
+export function isTruthy(value: unknown): boolean {
+  return value === true;
+}
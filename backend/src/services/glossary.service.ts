@@ -0,0 +1,284 @@
+import { GlossaryRepository } from '../repositories/glossary.repository';
+import { TranscriptionRepository } from '../repositories/transcription.repository';
+import { SessionRepository } from '../repositories/session.repository';
+import { TranscriptRevisionRepository } from '../repositories/transcript-revision.repository';
+import {
+  GlossaryCorrection,
+  GlossaryCorrectionCreationParams,
+  GlossaryTerm,
+  GlossaryTermCreationParams
+} from '../models/glossary.model';
+import { Transcription, TranscriptionSegment } from '../models/transcription.model';
+import { SegmentOperation } from '../models/transcript-revision.model';
+import { PhoneticTerm, findPhoneticMatches } from '../utils/phonetic';
+
+/**
+ * Error thrown when a glossary term or correction cannot be changed
+ */
+export class GlossaryError extends Error {
+  public readonly code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.name = 'GlossaryError';
+    this.code = code;
+  }
+}
+
+/**
+ * Segments with the glossary corrections made in them
+ */
+export interface GlossaryCorrectionResult {
+  segments: TranscriptionSegment[];
+  corrections: GlossaryCorrectionCreationParams[];
+}
+
+/**
+ * Keeps the glossary of a campaign, made of the names of its characters, locations, items, powers and world and of
+ * the terms users add, so that transcription gets the fantasy names of the campaign right. The glossary is given to
+ * transcription providers as vocabulary, and transcribed text that sounds like a term is rewritten to the term.
+ * Every rewrite is recorded and can be undone.
+ */
+export class GlossaryService {
+  private glossaryRepository: GlossaryRepository;
+  private transcriptionRepository: TranscriptionRepository;
+  private sessionRepository: SessionRepository;
+  private transcriptRevisionRepository: TranscriptRevisionRepository;
+
+  /**
+   * @param glossaryRepository Glossary repository
+   * @param transcriptionRepository Transcription repository
+   * @param sessionRepository Session repository
+   * @param transcriptRevisionRepository Transcript revision repository, to record undone corrections in
+   */
+  constructor(
+    glossaryRepository: GlossaryRepository,
+    transcriptionRepository: TranscriptionRepository,
+    sessionRepository: SessionRepository,
+    transcriptRevisionRepository: TranscriptRevisionRepository
+  ) {
+    this.glossaryRepository = glossaryRepository;
+    this.transcriptionRepository = transcriptionRepository;
+    this.sessionRepository = sessionRepository;
+    this.transcriptRevisionRepository = transcriptRevisionRepository;
+  }
+
+  /**
+   * Get the glossary of a campaign
+   * @param campaignId Campaign ID
+   * @returns Terms added by users, then the names of the campaign entities
+   */
+  public async getGlossary(campaignId: string): Promise<GlossaryTerm[]> {
+    const [userTerms, entityTerms] = await Promise.all([
+      this.glossaryRepository.findUserTerms(campaignId),
+      this.glossaryRepository.findEntityTerms(campaignId)
+    ]);
+    return [...userTerms, ...entityTerms];
+  }
+
+  /**
+   * Get the glossary of the campaign a session is part of
+   * @param sessionId Session ID
+   * @returns Glossary terms, or none if the session is not part of a campaign
+   */
+  public async getSessionGlossary(sessionId: string): Promise<GlossaryTerm[]> {
+    const session = await this.sessionRepository.findById(sessionId);
+    return session?.campaign_id ? this.getGlossary(session.campaign_id) : [];
+  }
+
+  /**
+   * Add a term to the glossary of a campaign
+   * @param campaignId Campaign ID
+   * @param params Glossary term creation parameters
+   * @param createdBy ID of the user adding the term
+   * @returns Created glossary term
+   */
+  public async addTerm(campaignId: string, params: GlossaryTermCreationParams, createdBy?: string): Promise<GlossaryTerm> {
+    const term = await this.glossaryRepository.createUserTerm(
+      campaignId,
+      {
+        term: params.term.trim(),
+        sounds_like: (params.sounds_like || []).map((form) => form.trim()).filter(Boolean)
+      },
+      createdBy
+    );
+    if (!term) {
+      throw new GlossaryError('CAMPAIGN_NOT_FOUND', 'Campaign not found');
+    }
+    return term;
+  }
+
+  /**
+   * Delete a term added to a glossary
+   * @param termId Term ID
+   * @returns True if deleted
+   */
+  public async deleteTerm(termId: string): Promise<boolean> {
+    return this.glossaryRepository.deleteUserTerm(termId);
+  }
+
+  /**
+   * Distinct terms of a glossary, to give to transcription providers as vocabulary
+   * @param terms Glossary terms
+   * @returns Terms in glossary order
+   */
+  public toVocabulary(terms: GlossaryTerm[]): string[] {
+    const vocabulary = new Map<string, string>();
+    for (const { term } of terms) {
+      if (!vocabulary.has(term.toLowerCase())) {
+        vocabulary.set(term.toLowerCase(), term);
+      }
+    }
+    return Array.from(vocabulary.values());
+  }
+
+  /**
+   * Rewrite the text of segments that sounds like glossary terms to the terms. Word timings are left as transcribed.
+   * @param segments Transcribed segments
+   * @param terms Glossary terms
+   * @returns Corrected segments and the corrections made
+   */
+  public correct(segments: TranscriptionSegment[], terms: GlossaryTerm[]): GlossaryCorrectionResult {
+    const phoneticTerms = this.toPhoneticTerms(terms);
+    if (phoneticTerms.length === 0) {
+      return { segments, corrections: [] };
+    }
+
+    const corrections: GlossaryCorrectionCreationParams[] = [];
+    const corrected = segments.map((segment) => {
+      const matches = findPhoneticMatches(segment.text, phoneticTerms);
+      if (matches.length === 0) {
+        return segment;
+      }
+
+      let text = '';
+      let copied = 0;
+      for (const match of matches) {
+        text += segment.text.slice(copied, match.start);
+        corrections.push({
+          segment_id: segment.segment_id,
+          term: match.term,
+          original: match.original,
+          replacement: match.term,
+          position: text.length,
+          similarity: Math.round(match.similarity * 100) / 100
+        });
+        text += match.term;
+        copied = match.end;
+      }
+      return { ...segment, text: text + segment.text.slice(copied) };
+    });
+    return { segments: corrected, corrections };
+  }
+
+  /**
+   * Record the corrections made in a transcription, replacing the ones of earlier runs
+   * @param transcriptionId Transcription ID
+   * @param corrections Corrections made
+   * @returns Recorded corrections
+   */
+  public async recordCorrections(
+    transcriptionId: string,
+    corrections: GlossaryCorrectionCreationParams[]
+  ): Promise<GlossaryCorrection[]> {
+    return this.glossaryRepository.replaceCorrections(transcriptionId, corrections);
+  }
+
+  /**
+   * Get the corrections made in a transcription
+   * @param transcriptionId Transcription ID
+   * @returns Glossary corrections
+   */
+  public async getCorrections(transcriptionId: string): Promise<GlossaryCorrection[]> {
+    return this.glossaryRepository.findCorrectionsByTranscription(transcriptionId);
+  }
+
+  /**
+   * Undo a correction, putting the text as transcribed back into its segment and recording the edit in the transcript
+   * revision log
+   * @param correctionId Correction ID
+   * @param userId ID of the user undoing the correction
+   * @returns Undone correction and the updated transcription
+   */
+  public async undoCorrection(
+    correctionId: string,
+    userId?: string
+  ): Promise<{ correction: GlossaryCorrection; transcription: Transcription }> {
+    const correction = await this.glossaryRepository.findCorrectionById(correctionId);
+    if (!correction) {
+      throw new GlossaryError('CORRECTION_NOT_FOUND', 'Correction not found');
+    }
+    if (correction.undone_at) {
+      throw new GlossaryError('CORRECTION_ALREADY_UNDONE', 'Correction has already been undone');
+    }
+
+    const transcription = await this.transcriptionRepository.findById(correction.transcription_id);
+    const segments = transcription?.segments || [];
+    const segment = segments.find((candidate) => candidate.segment_id === correction.segment_id);
+    const position = segment ? this.findReplacement(segment.text, correction) : -1;
+    if (!transcription || !segment || position < 0) {
+      throw new GlossaryError('CORRECTION_CONFLICT', 'The corrected text has changed since the correction was made');
+    }
+
+    const text =
+      segment.text.slice(0, position) + correction.original + segment.text.slice(position + correction.replacement.length);
+    // Only the corrected segment is written, and only if nobody edited it since it was read
+    let undone: GlossaryCorrection | null | undefined;
+    const updatedTranscription = await this.transcriptionRepository.replaceSegments(
+      transcription.transcription_id,
+      [segment.segment_id],
+      [{ ...segment, text }],
+      {
+        expected: [segment],
+        onReplaced: async (tx, saved) => {
+          await this.transcriptRevisionRepository.create(
+            transcription.transcription_id,
+            { operation: SegmentOperation.EDIT_TEXT, before: [segment], after: saved, created_by: userId },
+            tx
+          );
+          undone = await this.glossaryRepository.markCorrectionUndone(correctionId, tx);
+        }
+      }
+    );
+    if (!updatedTranscription || !undone) {
+      throw new GlossaryError('CORRECTION_CONFLICT', 'The segment was changed by someone else in the meantime');
+    }
+
+    return { correction: undone, transcription: updatedTranscription };
+  }
+
+  /**
+   * Terms to look for with the forms they may be heard as, merging terms spelled the same
+   * @param terms Glossary terms
+   */
+  private toPhoneticTerms(terms: GlossaryTerm[]): PhoneticTerm[] {
+    const phoneticTerms = new Map<string, PhoneticTerm>();
+    for (const { term, sounds_like } of terms) {
+      const key = term.toLowerCase();
+      const phoneticTerm = phoneticTerms.get(key) || { term, forms: [term] };
+      phoneticTerm.forms.push(...sounds_like);
+      phoneticTerms.set(key, phoneticTerm);
+    }
+    return Array.from(phoneticTerms.values());
+  }
+
+  /**
+   * Position of the replacement of a correction in the text of its segment, looking around the recorded position
+   * when earlier corrections of the segment have been undone
+   * @param text Segment text
+   * @param correction Glossary correction
+   * @returns Position, or -1 if the replacement is no longer in the text
+   */
+  private findReplacement(text: string, correction: GlossaryCorrection): number {
+    if (text.startsWith(correction.replacement, correction.position)) {
+      return correction.position;
+    }
+    let nearest = -1;
+    for (let index = text.indexOf(correction.replacement); index >= 0; index = text.indexOf(correction.replacement, index + 1)) {
+      if (nearest < 0 || Math.abs(index - correction.position) < Math.abs(nearest - correction.position)) {
+        nearest = index;
+      }
+    }
+    return nearest;
+  }
+}
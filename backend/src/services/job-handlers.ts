@@ -0,0 +1,127 @@
+import { RepositoryFactory } from '../repositories/repository.factory';
+import { JobQueueService } from './job-queue.service';
+import { TranscriptionService } from './transcription.service';
+import { SessionAnalysisService } from './session-analysis.service';
+import { WaveformService } from './waveform.service';
+import { GlossaryService } from './glossary.service';
+import { RedactionService } from './redaction.service';
+import { AudioRedactionService } from './audio-redaction.service';
+import { TranscriptTranslationService } from './transcript-translation.service';
+import { TranscriptionQualityService } from './transcription-quality.service';
+import { LLMService } from './llm.service';
+import { createTranscriptionProviderRegistry } from './transcription-providers/registry';
+import { createSegmentClassifier } from './segment-classifiers/registry';
+import { JobType } from '../models/job.model';
+import { TranscriptionStatus } from '../models/audio-recording.model';
+import config from '../config';
+
+/**
+ * Register the handlers of every job type with a job queue
+ * @param jobQueueService Job queue service
+ * @param repositoryFactory Repository factory
+ * @param llmService LLM service that transcripts are translated with
+ */
+export const registerJobHandlers = (
+  jobQueueService: JobQueueService,
+  repositoryFactory: RepositoryFactory,
+  llmService: LLMService
+): void => {
+  const audioRecordingRepository = repositoryFactory.getAudioRecordingRepository();
+  const transcriptionService = new TranscriptionService(
+    repositoryFactory.getTranscriptionRepository(),
+    audioRecordingRepository,
+    createTranscriptionProviderRegistry(),
+    undefined,
+    new GlossaryService(
+      repositoryFactory.getGlossaryRepository(),
+      repositoryFactory.getTranscriptionRepository(),
+      repositoryFactory.getSessionRepository(),
+      repositoryFactory.getTranscriptRevisionRepository()
+    ),
+    createSegmentClassifier(),
+    new RedactionService(
+      repositoryFactory.getRedactionRepository(),
+      repositoryFactory.getTranscriptionRepository(),
+      repositoryFactory.getSessionRepository(),
+      repositoryFactory.getAudioRecordingRepository(),
+      repositoryFactory.getTranscriptRevisionRepository(),
+      new AudioRedactionService(config.audio.redaction)
+    )
+  );
+  const sessionAnalysisService = new SessionAnalysisService(
+    repositoryFactory.getSessionAnalysisRepository(),
+    repositoryFactory.getTranscriptionRepository(),
+    repositoryFactory.getSessionRepository(),
+    repositoryFactory.getCharacterRepository(),
+    audioRecordingRepository
+  );
+  const waveformService = new WaveformService(audioRecordingRepository, config.audio.waveform);
+  const transcriptionQualityService = new TranscriptionQualityService(
+    repositoryFactory.getTranscriptionRepository(),
+    repositoryFactory.getTranscriptRevisionRepository(),
+    repositoryFactory.getTranscriptionQualityRepository()
+  );
+
+  const transcriptTranslationService = new TranscriptTranslationService(
+    repositoryFactory.getTranscriptionRepository(),
+    llmService,
+    config.transcription.translation
+  );
+
+  jobQueueService.registerHandler(JobType.TRANSCRIPTION, {
+    run: async (job, { signal, reportProgress }) => {
+      const { transcription_id, service, enable_speaker_diarization, language } = job.payload;
+      await transcriptionService.processWith(
+        transcription_id,
+        service,
+        enable_speaker_diarization !== false,
+        reportProgress,
+        { language, signal }
+      );
+      // The corrections of the previous transcript no longer apply to this one
+      await transcriptionQualityService.score(transcription_id).catch(error => {
+        console.error('Error scoring transcription quality:', error);
+      });
+      return { transcription_id };
+    },
+    onCancel: async (job) => {
+      // Let the recording be transcribed again
+      if (job.payload.recording_id) {
+        await audioRecordingRepository.update(job.payload.recording_id, {
+          transcription_status: TranscriptionStatus.NOT_STARTED
+        });
+      }
+    }
+  });
+
+  jobQueueService.registerHandler(JobType.SESSION_ANALYSIS, {
+    run: async (job, { signal, reportProgress }) => {
+      const { analysis_id, options } = job.payload;
+      await sessionAnalysisService.process(analysis_id, options || {}, reportProgress, signal);
+      return { analysis_id };
+    }
+  });
+
+  jobQueueService.registerHandler(JobType.WAVEFORM, {
+    run: async (job, { reportProgress }) => {
+      const { recording_id } = job.payload;
+      await waveformService.generate(recording_id, reportProgress);
+      return { recording_id };
+    }
+  });
+
+  jobQueueService.registerHandler(JobType.TRANSCRIPT_TRANSLATION, {
+    run: async (job, { reportProgress }) => {
+      const { transcription_id, target_language, model, retranslate } = job.payload;
+      const summary = await transcriptTranslationService.translate(
+        transcription_id,
+        { target_language, model, retranslate },
+        reportProgress
+      );
+      if (!summary) {
+        throw new Error('Transcription not found');
+      }
+      return { transcription_id, ...summary };
+    }
+  });
+};
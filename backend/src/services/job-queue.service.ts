@@ -0,0 +1,324 @@
+import { EventEmitter } from 'events';
+import { JobRepository } from '../repositories/job.repository';
+import { Job, JobCreationParams, JobFilter, JobType, ProgressCallback } from '../models/job.model';
+
+/**
+ * Context handed to a job handler while it runs
+ */
+export interface JobContext {
+  /**
+   * Aborted when the job is cancelled; handlers should stop as soon as they notice
+   */
+  signal: AbortSignal;
+  reportProgress: ProgressCallback;
+}
+
+/**
+ * Runs the jobs of one type
+ */
+export interface JobHandler {
+  /**
+   * Do the work of a job
+   * @returns Job result, stored on the job once it completes
+   */
+  run: (job: Job, context: JobContext) => Promise<any>;
+  /**
+   * Clean up after a job was cancelled
+   */
+  onCancel?: (job: Job) => Promise<void>;
+}
+
+/**
+ * Job queue options
+ */
+export interface JobQueueOptions {
+  /**
+   * Jobs run at the same time
+   */
+  concurrency: number;
+  /**
+   * Attempts a job gets before it is marked as failed
+   */
+  maxAttempts: number;
+  /**
+   * Delay before the first retry; it doubles with every further attempt
+   */
+  retryDelayMs: number;
+  /**
+   * How often the queue looks for jobs that became due
+   */
+  pollIntervalMs: number;
+}
+
+const DEFAULT_OPTIONS: JobQueueOptions = {
+  concurrency: 1,
+  maxAttempts: 3,
+  retryDelayMs: 30 * 1000,
+  pollIntervalMs: 5 * 1000
+};
+
+/**
+ * Service for running long work such as transcription and session analysis outside of HTTP requests.
+ *
+ * Jobs are stored in the database, so queued work survives a restart; jobs that were running when the server
+ * stopped are queued again on start. Every change to a job is emitted as an 'update' event.
+ */
+export class JobQueueService extends EventEmitter {
+  private jobRepository: JobRepository;
+  private options: JobQueueOptions;
+  private handlers = new Map<JobType, JobHandler>();
+  private running = new Map<string, AbortController>();
+  private pollTimer: NodeJS.Timeout | null = null;
+  private claiming = false;
+  private claimAgain = false;
+
+  /**
+   * @param jobRepository Job repository
+   * @param options Job queue options
+   */
+  constructor(jobRepository: JobRepository, options: Partial<JobQueueOptions> = {}) {
+    super();
+    this.jobRepository = jobRepository;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Register the handler for a job type
+   * @param type Job type
+   * @param handler Job handler
+   */
+  public registerHandler(type: JobType, handler: JobHandler): void {
+    this.handlers.set(type, handler);
+  }
+
+  /**
+   * Listen for job changes
+   * @param listener Called with the job after every change
+   * @returns Function that removes the listener
+   */
+  public subscribe(listener: (job: Job) => void): () => void {
+    this.on('update', listener);
+    return () => {
+      this.off('update', listener);
+    };
+  }
+
+  /**
+   * Queue a job
+   * @param params Job creation parameters
+   * @returns Queued job
+   */
+  public async enqueue(params: JobCreationParams): Promise<Job> {
+    try {
+      const job = await this.jobRepository.create({ max_attempts: this.options.maxAttempts, ...params });
+      this.publish(job);
+      this.pump();
+      return job;
+    } catch (error) {
+      console.error('Error queueing job:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a job
+   * @param jobId Job ID
+   * @returns Job, or null if not found
+   */
+  public async getJob(jobId: string): Promise<Job | null> {
+    return this.jobRepository.findById(jobId);
+  }
+
+  /**
+   * Get jobs, newest first
+   * @param filter Job filter
+   * @param page Page number
+   * @param limit Items per page
+   * @returns Jobs and total count
+   */
+  public async getJobs(filter: JobFilter = {}, page = 1, limit = 20): Promise<{ jobs: Job[]; total: number }> {
+    return this.jobRepository.findAll(filter, page, limit);
+  }
+
+  /**
+   * Cancel a queued or running job
+   * @param jobId Job ID
+   * @returns Cancelled job, or null if the job is not queued or running
+   */
+  public async cancel(jobId: string): Promise<Job | null> {
+    try {
+      const job = await this.jobRepository.cancel(jobId);
+      if (!job) {
+        return null;
+      }
+
+      this.running.get(jobId)?.abort();
+      this.publish(job);
+
+      const handler = this.handlers.get(job.type);
+      if (handler?.onCancel) {
+        await handler.onCancel(job);
+      }
+
+      return job;
+    } catch (error) {
+      console.error('Error cancelling job:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Queue a failed or cancelled job again
+   * @param jobId Job ID
+   * @returns Queued job, or null if the job has not failed or been cancelled
+   */
+  public async retry(jobId: string): Promise<Job | null> {
+    try {
+      const job = await this.jobRepository.requeue(jobId);
+      if (job) {
+        this.publish(job);
+        this.pump();
+      }
+      return job;
+    } catch (error) {
+      console.error('Error retrying job:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Queue jobs interrupted by a restart again and start running jobs
+   */
+  public async start(): Promise<void> {
+    if (this.pollTimer) {
+      return;
+    }
+
+    const interrupted = await this.jobRepository.requeueInterrupted();
+    if (interrupted > 0) {
+      console.warn(`Queued ${interrupted} interrupted jobs again`);
+    }
+
+    this.pollTimer = setInterval(() => this.pump(), this.options.pollIntervalMs);
+    this.pollTimer.unref();
+    this.pump();
+  }
+
+  /**
+   * Stop starting new jobs. Running jobs are left to finish.
+   */
+  public stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  /**
+   * Start due jobs while there is capacity
+   */
+  private pump(): void {
+    if (!this.pollTimer) {
+      return;
+    }
+    // A job queued while claiming may have been missed by the running claim
+    if (this.claiming) {
+      this.claimAgain = true;
+      return;
+    }
+    this.claiming = true;
+    this.claimAgain = false;
+
+    const claim = async () => {
+      while (this.pollTimer && this.running.size < this.options.concurrency) {
+        const job = await this.jobRepository.claimNext(new Date().toISOString());
+        if (!job) {
+          break;
+        }
+        this.publish(job);
+        void this.run(job);
+      }
+    };
+
+    claim()
+      .catch((error) => console.error('Error starting jobs:', error))
+      .finally(() => {
+        this.claiming = false;
+        if (this.claimAgain) {
+          this.pump();
+        }
+      });
+  }
+
+  /**
+   * Run a claimed job and record its outcome
+   * @param job Running job
+   */
+  private async run(job: Job): Promise<void> {
+    const controller = new AbortController();
+    this.running.set(job.job_id, controller);
+
+    try {
+      const handler = this.handlers.get(job.type);
+      if (!handler) {
+        throw new Error(`No handler registered for ${job.type} jobs`);
+      }
+
+      const reportProgress: ProgressCallback = async (progress, message) => {
+        if (controller.signal.aborted) {
+          return;
+        }
+        const updated = await this.jobRepository.updateProgress(job.job_id, progress, message);
+        if (updated) {
+          this.publish(updated);
+        }
+      };
+
+      const result = await handler.run(job, { signal: controller.signal, reportProgress });
+      if (!controller.signal.aborted) {
+        const completed = await this.jobRepository.complete(job.job_id, result);
+        if (completed) {
+          this.publish(completed);
+        }
+      }
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        await this.recordFailure(job, error);
+      }
+    } finally {
+      this.running.delete(job.job_id);
+      this.pump();
+    }
+  }
+
+  /**
+   * Queue a failed job for another attempt, or mark it as failed once it is out of attempts
+   * @param job Failed job
+   * @param error Error thrown by the handler
+   */
+  private async recordFailure(job: Job, error: unknown): Promise<void> {
+    try {
+      const message = error instanceof Error ? error.message : String(error);
+      const retryAt =
+        job.attempts < job.max_attempts
+          ? new Date(Date.now() + this.options.retryDelayMs * 2 ** (job.attempts - 1)).toISOString()
+          : undefined;
+
+      console.error(`Job ${job.job_id} (${job.type}) failed on attempt ${job.attempts}:`, message);
+      const failed = await this.jobRepository.fail(job.job_id, message, retryAt);
+      if (failed) {
+        this.publish(failed);
+      }
+    } catch (failError) {
+      console.error('Error recording job failure:', failError);
+    }
+  }
+
+  /**
+   * Emit a job change
+   * @param job Changed job
+   */
+  private publish(job: Job): void {
+    this.emit('update', job);
+  }
+}
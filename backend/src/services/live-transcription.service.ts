@@ -0,0 +1,508 @@
+import { ChildProcess, spawn } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { AudioRecordingRepository } from '../repositories/audio-recording.repository';
+import { SessionRepository } from '../repositories/session.repository';
+import { TranscriptionRepository } from '../repositories/transcription.repository';
+import { TranscriptionService as TranscriptionEngine, TranscriptionStatus } from '../models/audio-recording.model';
+import { Transcription, TranscriptionSegment } from '../models/transcription.model';
+import {
+  LiveAudioFormat,
+  LiveTranscriptUpdate,
+  LiveTranscription,
+  LiveTranscriptionStartParams
+} from '../models/live-transcription.model';
+import { TranscriptionProvider } from './transcription-providers/provider';
+import { TranscriptionProviderRegistry } from './transcription-providers/registry';
+import { RedactionService } from './redaction.service';
+import { detectSegmentLanguages } from '../utils/language-detection';
+
+/**
+ * Live transcription options
+ */
+export interface LiveTranscriptionOptions {
+  /**
+   * Seconds of new audio collected before the transcript is updated
+   */
+  windowSeconds: number;
+  /**
+   * Longest audio transcribed at once; a segment still being spoken at this length is made final
+   */
+  maxWindowSeconds: number;
+  /**
+   * Transcription service used when a client does not ask for one
+   */
+  service: TranscriptionEngine;
+  /**
+   * Path or name on the PATH of ffmpeg, used to decode MediaRecorder audio
+   */
+  ffmpegPath: string;
+}
+
+const DEFAULT_OPTIONS: LiveTranscriptionOptions = {
+  windowSeconds: 10,
+  maxWindowSeconds: 30,
+  service: TranscriptionEngine.HYBRID,
+  ffmpegPath: 'ffmpeg'
+};
+
+/**
+ * Receives transcript updates and errors of a live transcription
+ */
+export interface LiveTranscriptionListener {
+  onUpdate: (update: LiveTranscriptUpdate) => void;
+  onError: (message: string) => void;
+}
+
+/**
+ * Error thrown when a live transcription cannot be started, fed or finished
+ */
+export class LiveTranscriptionError extends Error {
+  public readonly code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.name = 'LiveTranscriptionError';
+    this.code = code;
+  }
+}
+
+/**
+ * Audio is transcribed as 16 kHz mono PCM, the input whisper models expect
+ */
+const SAMPLE_RATE = 16000;
+const BYTES_PER_SECOND = SAMPLE_RATE * 2;
+
+/**
+ * State of a live transcription
+ */
+interface LiveSession extends LiveTranscription {
+  user_id: string;
+  language?: string;
+  provider: TranscriptionProvider;
+  listener: LiveTranscriptionListener;
+  workDir: string;
+  decoder?: ChildProcess;
+  decoderClosed: Promise<void>;
+  /**
+   * Audio not yet made final, starting at bufferStart seconds into the recording
+   */
+  pcm: Buffer;
+  bufferStart: number;
+  /**
+   * Bytes added to pcm since the last transcription run
+   */
+  newBytes: number;
+  segments: TranscriptionSegment[];
+  partial?: TranscriptionSegment;
+  running: Promise<void> | null;
+  languageCode?: string;
+  modelVersion?: string;
+  stopped: boolean;
+}
+
+/**
+ * Transcribes audio streamed while a session is being recorded.
+ *
+ * Audio is decoded to PCM as it arrives and transcribed in rolling windows. The last segment of a window may still
+ * be being spoken, so it is sent as a partial segment and its audio is transcribed again with the next window; the
+ * other segments are final. Speaker diarization is left to the transcription of the finished recording, since
+ * speakers cannot be matched across windows. When recording stops the final segments become the transcription of
+ * the uploaded recording.
+ */
+export class LiveTranscriptionService {
+  private audioRecordingRepository: AudioRecordingRepository;
+  private transcriptionRepository: TranscriptionRepository;
+  private sessionRepository: SessionRepository;
+  private providerRegistry: TranscriptionProviderRegistry;
+  private options: LiveTranscriptionOptions;
+  private redactionService?: RedactionService;
+  private sessions = new Map<string, LiveSession>();
+
+  /**
+   * @param audioRecordingRepository Audio recording repository
+   * @param transcriptionRepository Transcription repository
+   * @param sessionRepository Session repository
+   * @param providerRegistry Transcription provider registry
+   * @param options Live transcription options
+   * @param redactionService Redacts the saved transcript with the rules of its campaign
+   */
+  constructor(
+    audioRecordingRepository: AudioRecordingRepository,
+    transcriptionRepository: TranscriptionRepository,
+    sessionRepository: SessionRepository,
+    providerRegistry: TranscriptionProviderRegistry,
+    options: Partial<LiveTranscriptionOptions> = {},
+    redactionService?: RedactionService
+  ) {
+    this.audioRecordingRepository = audioRecordingRepository;
+    this.transcriptionRepository = transcriptionRepository;
+    this.sessionRepository = sessionRepository;
+    this.providerRegistry = providerRegistry;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.redactionService = redactionService;
+  }
+
+  /**
+   * Start a live transcription
+   * @param params Start parameters
+   * @param userId User ID
+   * @param listener Receives transcript updates and errors
+   * @returns Live transcription
+   * @throws LiveTranscriptionError if the session does not exist or no provider is available
+   */
+  public async start(
+    params: LiveTranscriptionStartParams,
+    userId: string,
+    listener: LiveTranscriptionListener
+  ): Promise<LiveTranscription> {
+    if (!(await this.sessionRepository.findById(params.session_id))) {
+      throw new LiveTranscriptionError('SESSION_NOT_FOUND', 'Session not found');
+    }
+
+    let provider: TranscriptionProvider;
+    try {
+      provider = await this.providerRegistry.resolve(params.service || this.options.service, { language: params.language });
+    } catch (error) {
+      throw new LiveTranscriptionError('PROVIDER_UNAVAILABLE', (error as Error).message);
+    }
+
+    const session: LiveSession = {
+      live_id: uuidv4(),
+      session_id: params.session_id,
+      format: params.format,
+      service: provider.service,
+      started_at: new Date().toISOString(),
+      user_id: userId,
+      language: params.language,
+      provider,
+      listener,
+      workDir: await fs.promises.mkdtemp(path.join(os.tmpdir(), 'live-transcription-')),
+      decoderClosed: Promise.resolve(),
+      pcm: Buffer.alloc(0),
+      bufferStart: 0,
+      newBytes: 0,
+      segments: [],
+      running: null,
+      stopped: false
+    };
+
+    if (params.format !== LiveAudioFormat.PCM) {
+      this.startDecoder(session);
+    }
+    this.sessions.set(session.live_id, session);
+
+    return this.describe(session);
+  }
+
+  /**
+   * Add recorded audio to a live transcription
+   * @param liveId Live transcription ID
+   * @param chunk Audio in the format the transcription was started with
+   * @param userId User ID
+   * @throws LiveTranscriptionError if the live transcription does not exist
+   */
+  public pushAudio(liveId: string, chunk: Buffer, userId: string): void {
+    const session = this.getSession(liveId, userId);
+    if (session.stopped) {
+      throw new LiveTranscriptionError('LIVE_STOPPED', 'Live transcription has stopped');
+    }
+
+    if (session.decoder) {
+      session.decoder.stdin?.write(chunk);
+    } else {
+      this.addPcm(session, chunk);
+    }
+  }
+
+  /**
+   * Stop a live transcription, transcribe the audio still pending and save the transcript as the transcription of
+   * the uploaded recording
+   * @param liveId Live transcription ID
+   * @param recordingId Recording of the audio that was transcribed
+   * @param userId User ID
+   * @returns Transcription
+   * @throws LiveTranscriptionError if the live transcription or the recording does not exist
+   */
+  public async stop(liveId: string, recordingId: string, userId: string): Promise<Transcription> {
+    const session = this.getSession(liveId, userId);
+    const recording = await this.audioRecordingRepository.findById(recordingId);
+    if (!recording || recording.session_id !== session.session_id) {
+      throw new LiveTranscriptionError('RECORDING_NOT_FOUND', 'Recording not found in the session being transcribed');
+    }
+
+    session.stopped = true;
+    try {
+      session.decoder?.stdin?.end();
+      await session.decoderClosed;
+      while (session.running) {
+        await session.running;
+      }
+      if (session.pcm.length > 0) {
+        await this.transcribeWindow(session, true);
+      }
+
+      return await this.saveTranscript(session, recordingId);
+    } finally {
+      await this.discard(session);
+    }
+  }
+
+  /**
+   * Cancel a live transcription without saving it
+   * @param liveId Live transcription ID
+   * @param userId User ID
+   * @returns False if the live transcription does not exist
+   */
+  public async cancel(liveId: string, userId: string): Promise<boolean> {
+    const session = this.sessions.get(liveId);
+    if (!session || session.user_id !== userId) {
+      return false;
+    }
+    session.stopped = true;
+    await this.discard(session);
+    return true;
+  }
+
+  /**
+   * Get a live transcription of a user
+   * @param liveId Live transcription ID
+   * @param userId User ID
+   * @returns Live transcription state
+   * @throws LiveTranscriptionError if it does not exist
+   */
+  private getSession(liveId: string, userId: string): LiveSession {
+    const session = this.sessions.get(liveId);
+    if (!session || session.user_id !== userId) {
+      throw new LiveTranscriptionError('LIVE_NOT_FOUND', 'Live transcription not found');
+    }
+    return session;
+  }
+
+  /**
+   * Decode MediaRecorder audio to PCM with ffmpeg as it arrives
+   * @param session Live transcription state
+   */
+  private startDecoder(session: LiveSession): void {
+    const decoder = spawn(
+      this.options.ffmpegPath,
+      ['-hide_banner', '-loglevel', 'error', '-i', 'pipe:0', '-vn', '-ac', '1', '-ar', String(SAMPLE_RATE), '-f', 's16le', 'pipe:1'],
+      { stdio: ['pipe', 'pipe', 'ignore'] }
+    );
+    session.decoder = decoder;
+
+    decoder.stdout?.on('data', (chunk: Buffer) => this.addPcm(session, chunk));
+    // Writes after ffmpeg has exited are reported through the error and close events
+    decoder.stdin?.on('error', () => undefined);
+    session.decoderClosed = new Promise((resolve) => {
+      decoder.on('error', (error) => {
+        session.listener.onError(`Could not decode audio: ${error.message}`);
+        resolve();
+      });
+      decoder.on('close', (code) => {
+        if (code !== 0 && !session.stopped) {
+          session.listener.onError(`Audio decoder exited with code ${code}`);
+        }
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Add decoded audio and transcribe the next window once enough new audio has arrived
+   * @param session Live transcription state
+   * @param chunk Signed 16-bit mono PCM
+   */
+  private addPcm(session: LiveSession, chunk: Buffer): void {
+    session.pcm = Buffer.concat([session.pcm, chunk]);
+    session.newBytes += chunk.length;
+    this.scheduleWindow(session);
+  }
+
+  /**
+   * Start transcribing a window unless one is running or too little new audio has arrived
+   * @param session Live transcription state
+   */
+  private scheduleWindow(session: LiveSession): void {
+    if (session.running || session.stopped || session.newBytes < this.options.windowSeconds * BYTES_PER_SECOND) {
+      return;
+    }
+
+    session.running = this.transcribeWindow(session, false).finally(() => {
+      session.running = null;
+      this.scheduleWindow(session);
+    });
+  }
+
+  /**
+   * Transcribe the pending audio, make its segments final except one still being spoken, and push the update
+   * @param session Live transcription state
+   * @param final Make every segment final, as no more audio will follow
+   */
+  private async transcribeWindow(session: LiveSession, final: boolean): Promise<void> {
+    // Keep whole samples only
+    const pcm = session.pcm.subarray(0, session.pcm.length - (session.pcm.length % 2));
+    const windowStart = session.bufferStart;
+    const windowSeconds = pcm.length / BYTES_PER_SECOND;
+    session.newBytes = 0;
+
+    const wavPath = path.join(session.workDir, 'window.wav');
+    let segments: TranscriptionSegment[];
+    try {
+      await fs.promises.writeFile(wavPath, toWav(pcm));
+      const result = await session.provider.transcribe({
+        filePath: wavPath,
+        language: session.language,
+        enableSpeakerDiarization: false
+      });
+      session.languageCode = result.language_code;
+      session.modelVersion = result.model_version;
+      segments = result.segments
+        .filter((segment) => segment.text.trim())
+        .sort((a, b) => a.start_time - b.start_time);
+    } catch (error) {
+      // Skip the window rather than retrying it forever
+      console.error('Error transcribing live audio:', error);
+      session.listener.onError(`Transcription failed: ${(error as Error).message}`);
+      this.dropAudio(session, pcm.length);
+      return;
+    }
+
+    const keepLast = !final && segments.length > 0 && windowSeconds < this.options.maxWindowSeconds;
+    const finished = keepLast ? segments.slice(0, -1) : segments;
+    const partial = keepLast ? segments[segments.length - 1] : undefined;
+
+    const shift = (segment: TranscriptionSegment): TranscriptionSegment => ({
+      ...segment,
+      start_time: segment.start_time + windowStart,
+      end_time: segment.end_time + windowStart,
+      words: segment.words?.map((word) => ({
+        ...word,
+        start_time: word.start_time + windowStart,
+        end_time: word.end_time + windowStart
+      }))
+    });
+    const finalSegments = finished.map(shift);
+    session.segments.push(...finalSegments);
+    session.partial = partial && shift(partial);
+
+    // Audio of the partial segment is transcribed again with the next window
+    const keepFrom = partial ? Math.floor(partial.start_time * SAMPLE_RATE) * 2 : pcm.length;
+    this.dropAudio(session, Math.min(keepFrom, pcm.length));
+
+    session.listener.onUpdate({ live_id: session.live_id, segments: finalSegments, partial: session.partial });
+  }
+
+  /**
+   * Remove audio from the start of the pending audio
+   * @param session Live transcription state
+   * @param bytes Bytes to remove
+   */
+  private dropAudio(session: LiveSession, bytes: number): void {
+    session.pcm = session.pcm.subarray(bytes);
+    session.bufferStart += bytes / BYTES_PER_SECOND;
+  }
+
+  /**
+   * Save the final segments as the transcription of a recording, replacing any transcript it had
+   * @param session Live transcription state
+   * @param recordingId Recording ID
+   * @returns Transcription
+   */
+  private async saveTranscript(session: LiveSession, recordingId: string): Promise<Transcription> {
+    const existing = await this.transcriptionRepository.findByRecordingId(recordingId);
+    const transcription =
+      existing ||
+      (await this.transcriptionRepository.create({
+        recording_id: recordingId,
+        session_id: session.session_id,
+        service_options: {
+          service: session.service,
+          language: session.language,
+          enable_speaker_diarization: false
+        }
+      }));
+
+    let segments = session.segments;
+    if (this.redactionService) {
+      const redaction = await this.redactionService.redactSegments(session.session_id, segments);
+      await this.redactionService.silenceRecording(recordingId, redaction.silenced_ranges);
+      segments = redaction.segments;
+    }
+    segments = detectSegmentLanguages(segments, session.languageCode || session.language);
+    const confidence = segments.length
+      ? segments.reduce((total, segment) => total + segment.confidence_score, 0) / segments.length
+      : 0;
+    const updated = await this.transcriptionRepository.update(transcription.transcription_id, {
+      full_text: segments.map((segment) => segment.text).join(' '),
+      segments,
+      language_code: session.languageCode || session.language || '',
+      confidence_score: confidence,
+      metadata: {
+        model_version: session.modelVersion || '',
+        audio_duration: session.bufferStart,
+        additional_info: {
+          service: session.service,
+          live: true
+        }
+      }
+    });
+
+    await this.audioRecordingRepository.update(recordingId, {
+      transcription_status: TranscriptionStatus.COMPLETED
+    });
+
+    return updated;
+  }
+
+  /**
+   * Stop the decoder and remove the files of a live transcription
+   * @param session Live transcription state
+   */
+  private async discard(session: LiveSession): Promise<void> {
+    this.sessions.delete(session.live_id);
+    if (session.decoder && session.decoder.exitCode === null) {
+      session.decoder.kill('SIGTERM');
+    }
+    await fs.promises.rm(session.workDir, { recursive: true, force: true });
+  }
+
+  /**
+   * Public description of a live transcription
+   * @param session Live transcription state
+   * @returns Live transcription
+   */
+  private describe(session: LiveSession): LiveTranscription {
+    return {
+      live_id: session.live_id,
+      session_id: session.session_id,
+      format: session.format,
+      service: session.service,
+      started_at: session.started_at
+    };
+  }
+}
+
+/**
+ * Wrap 16 kHz mono PCM in a WAV header
+ * @param pcm Signed 16-bit little-endian PCM
+ * @returns WAV file
+ */
+const toWav = (pcm: Buffer): Buffer => {
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0, 'latin1');
+  header.writeUInt32LE(36 + pcm.length, 4);
+  header.write('WAVEfmt ', 8, 'latin1');
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(1, 22);
+  header.writeUInt32LE(SAMPLE_RATE, 24);
+  header.writeUInt32LE(BYTES_PER_SECOND, 28);
+  header.writeUInt16LE(2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36, 'latin1');
+  header.writeUInt32LE(pcm.length, 40);
+  return Buffer.concat([header, pcm]);
+};
@@ -0,0 +1,177 @@
+import { DatabaseService } from './database.service';
+import { Migration, migrations as defaultMigrations } from '../migrations';
+
+/**
+ * Applied state of a migration
+ */
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  applied: boolean;
+  applied_at?: string;
+}
+
+/**
+ * Migration as recorded in the graph
+ */
+interface AppliedMigration {
+  version: number;
+  name: string;
+  applied_at: string;
+}
+
+/**
+ * Service that applies and reverts versioned schema migrations.
+ *
+ * Applied migrations are recorded as SchemaMigration nodes. Each migration step runs in its own
+ * write transaction and is recorded in a separate one, because Neo4j does not allow schema and
+ * data changes in the same transaction.
+ */
+export class MigrationService {
+  private dbService: DatabaseService;
+  private migrations: Migration[];
+
+  /**
+   * Create a new migration service
+   * @param dbService Database service
+   * @param migrations Migrations to manage, defaulting to the application's migrations
+   */
+  constructor(dbService: DatabaseService, migrations: Migration[] = defaultMigrations) {
+    this.dbService = dbService;
+    this.migrations = [...migrations].sort((a, b) => a.version - b.version);
+
+    this.migrations.forEach((migration, index) => {
+      if (index > 0 && this.migrations[index - 1].version === migration.version) {
+        throw new Error(`Duplicate migration version ${migration.version}`);
+      }
+    });
+  }
+
+  /**
+   * Get the status of every known migration
+   * @returns Migration status ordered by version
+   */
+  public async getStatus(): Promise<MigrationStatus[]> {
+    const applied = await this.getApplied();
+    return this.migrations.map((migration) => ({
+      version: migration.version,
+      name: migration.name,
+      applied: applied.has(migration.version),
+      applied_at: applied.get(migration.version)?.applied_at,
+    }));
+  }
+
+  /**
+   * Get the highest applied migration version
+   * @returns Current schema version, or 0 for a fresh database
+   */
+  public async getCurrentVersion(): Promise<number> {
+    const applied = await this.getApplied();
+    return applied.size > 0 ? Math.max(...applied.keys()) : 0;
+  }
+
+  /**
+   * Apply pending migrations
+   * @param targetVersion Highest version to apply, defaulting to all
+   * @returns Migrations that were applied
+   */
+  public async migrate(targetVersion?: number): Promise<Migration[]> {
+    const applied = await this.getApplied();
+
+    applied.forEach((record) => {
+      const migration = this.migrations.find((m) => m.version === record.version);
+      if (!migration) {
+        console.warn(`Database has migration ${record.version} (${record.name}) applied, which is unknown to this version`);
+      } else if (migration.name !== record.name) {
+        console.warn(`Migration ${record.version} was applied as '${record.name}' but is now named '${migration.name}'`);
+      }
+    });
+
+    const pending = this.migrations.filter(
+      (migration) =>
+        !applied.has(migration.version) && (targetVersion === undefined || migration.version <= targetVersion)
+    );
+
+    for (const migration of pending) {
+      try {
+        await this.dbService.writeTransaction((tx) => migration.up(tx));
+        await this.dbService.writeTransaction(async (tx) => {
+          await tx.run(
+            `
+            CREATE (m:SchemaMigration {
+              version: $version,
+              name: $name,
+              applied_at: $appliedAt
+            })
+            `,
+            { version: migration.version, name: migration.name, appliedAt: new Date().toISOString() }
+          );
+        });
+      } catch (error) {
+        console.error(`Error applying migration ${migration.version} (${migration.name}):`, error);
+        throw error;
+      }
+    }
+
+    return pending;
+  }
+
+  /**
+   * Revert applied migrations, newest first
+   * @param steps Number of migrations to revert
+   * @returns Migrations that were reverted
+   */
+  public async rollback(steps = 1): Promise<Migration[]> {
+    const applied = await this.getApplied();
+    const versions = Array.from(applied.keys())
+      .sort((a, b) => b - a)
+      .slice(0, Math.max(0, steps));
+
+    const reverted: Migration[] = [];
+    for (const version of versions) {
+      const migration = this.migrations.find((m) => m.version === version);
+      if (!migration) {
+        throw new Error(`Cannot revert migration ${version}: no such migration is defined`);
+      }
+
+      try {
+        await this.dbService.writeTransaction((tx) => migration.down(tx));
+        await this.dbService.writeTransaction(async (tx) => {
+          await tx.run('MATCH (m:SchemaMigration {version: $version}) DELETE m', { version: migration.version });
+        });
+        reverted.push(migration);
+      } catch (error) {
+        console.error(`Error reverting migration ${migration.version} (${migration.name}):`, error);
+        throw error;
+      }
+    }
+
+    return reverted;
+  }
+
+  /**
+   * Read the migrations recorded in the graph
+   * @returns Applied migrations by version
+   */
+  private async getApplied(): Promise<Map<number, AppliedMigration>> {
+    const records = await this.dbService.readTransaction(async (tx) => {
+      const result = await tx.run(`
+        MATCH (m:SchemaMigration)
+        RETURN m.version as version, m.name as name, m.applied_at as applied_at
+      `);
+      return result.records;
+    });
+
+    const applied = new Map<number, AppliedMigration>();
+    records.forEach((record) => {
+      const version = record.get('version');
+      const numericVersion = typeof version === 'number' ? version : version.toNumber();
+      applied.set(numericVersion, {
+        version: numericVersion,
+        name: record.get('name'),
+        applied_at: record.get('applied_at'),
+      });
+    });
+    return applied;
+  }
+}
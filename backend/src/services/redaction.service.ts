@@ -0,0 +1,363 @@
+import { RedactionRepository } from '../repositories/redaction.repository';
+import { TranscriptionRepository } from '../repositories/transcription.repository';
+import { SessionRepository } from '../repositories/session.repository';
+import { AudioRecordingRepository } from '../repositories/audio-recording.repository';
+import { TranscriptRevisionRepository } from '../repositories/transcript-revision.repository';
+import {
+  AudioRange,
+  RedactionRule,
+  RedactionRuleCreationParams,
+  RedactionRuleType,
+  RedactionSummary,
+  SpanRedactionParams
+} from '../models/redaction.model';
+import { Transcription, TranscriptionSegment } from '../models/transcription.model';
+import { AudioRedactionService } from './audio-redaction.service';
+import {
+  CompiledRedactionRules,
+  SegmentsRedaction,
+  literalMatcher,
+  piiMatcher,
+  redactFreeText,
+  redactSegment,
+  redactSegments,
+  regexMatcher
+} from '../utils/redaction';
+
+/**
+ * Error thrown when a redaction rule or span cannot be applied
+ */
+export class RedactionError extends Error {
+  public readonly code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.name = 'RedactionError';
+    this.code = code;
+  }
+}
+
+/**
+ * Span redaction with the transcription it changed
+ */
+export interface SpanRedactionResult {
+  transcription: Transcription;
+  summary: RedactionSummary;
+}
+
+/**
+ * Redacts transcripts for privacy: players who opted out are removed from the transcripts of a campaign, personal
+ * information such as phone numbers and emails is masked, and spans are redacted by hand. Rules apply to new
+ * transcripts before they are saved and to the existing transcripts of the campaign when added; redacted text is
+ * also scrubbed from the revision log so that a rollback cannot bring it back. The matching audio can be silenced
+ * in the stored recording and its tracks.
+ *
+ * Redaction cannot be undone: deleting a rule only stops it from applying to new transcripts.
+ */
+export class RedactionService {
+  private redactionRepository: RedactionRepository;
+  private transcriptionRepository: TranscriptionRepository;
+  private sessionRepository: SessionRepository;
+  private audioRecordingRepository: AudioRecordingRepository;
+  private transcriptRevisionRepository: TranscriptRevisionRepository;
+  private audioRedactionService: AudioRedactionService;
+
+  /**
+   * @param redactionRepository Redaction repository
+   * @param transcriptionRepository Transcription repository
+   * @param sessionRepository Session repository
+   * @param audioRecordingRepository Audio recording repository
+   * @param transcriptRevisionRepository Transcript revision repository
+   * @param audioRedactionService Silences redacted audio
+   */
+  constructor(
+    redactionRepository: RedactionRepository,
+    transcriptionRepository: TranscriptionRepository,
+    sessionRepository: SessionRepository,
+    audioRecordingRepository: AudioRecordingRepository,
+    transcriptRevisionRepository: TranscriptRevisionRepository,
+    audioRedactionService: AudioRedactionService = new AudioRedactionService()
+  ) {
+    this.redactionRepository = redactionRepository;
+    this.transcriptionRepository = transcriptionRepository;
+    this.sessionRepository = sessionRepository;
+    this.audioRecordingRepository = audioRecordingRepository;
+    this.transcriptRevisionRepository = transcriptRevisionRepository;
+    this.audioRedactionService = audioRedactionService;
+  }
+
+  /**
+   * Get the redaction rules of a campaign
+   * @param campaignId Campaign ID
+   * @returns Redaction rules, oldest first
+   */
+  public async getRules(campaignId: string): Promise<RedactionRule[]> {
+    return this.redactionRepository.findByCampaign(campaignId);
+  }
+
+  /**
+   * Add a redaction rule to a campaign and apply it to the existing transcripts of the campaign
+   * @param campaignId Campaign ID
+   * @param params Redaction rule creation parameters
+   * @param createdBy ID of the user adding the rule
+   * @returns Created rule and what redacting each transcript of the campaign changed
+   * @throws RedactionError if the rule is invalid or the campaign does not exist
+   */
+  public async addRule(
+    campaignId: string,
+    params: RedactionRuleCreationParams,
+    createdBy?: string
+  ): Promise<{ rule: RedactionRule; summaries: RedactionSummary[] }> {
+    if (params.type === RedactionRuleType.SPEAKER) {
+      if (!params.speaker_id || params.pattern || params.pii_pattern) {
+        throw new RedactionError('INVALID_RULE', 'A speaker rule needs a speaker and no pattern');
+      }
+      if (!(await this.transcriptionRepository.speakerExists(params.speaker_id))) {
+        throw new RedactionError('SPEAKER_NOT_FOUND', 'Speaker not found');
+      }
+    } else if (params.speaker_id || !params.pattern === !params.pii_pattern) {
+      throw new RedactionError('INVALID_RULE', 'A pattern rule needs either a regular expression or a built-in pattern');
+    } else if (params.pattern) {
+      try {
+        regexMatcher(params.pattern);
+      } catch (error) {
+        throw new RedactionError('INVALID_PATTERN', `Invalid regular expression: ${(error as Error).message}`);
+      }
+    }
+
+    const rule = await this.redactionRepository.create(campaignId, params, createdBy);
+    if (!rule) {
+      throw new RedactionError('CAMPAIGN_NOT_FOUND', 'Campaign not found');
+    }
+    return { rule, summaries: await this.applyToCampaign(campaignId) };
+  }
+
+  /**
+   * Delete a redaction rule. Transcripts it redacted stay redacted.
+   * @param ruleId Rule ID
+   * @returns True if deleted
+   */
+  public async deleteRule(ruleId: string): Promise<boolean> {
+    return this.redactionRepository.delete(ruleId);
+  }
+
+  /**
+   * Redact segments of a session with the rules of its campaign, such as before a new transcript is saved
+   * @param sessionId Session ID
+   * @param segments Segments
+   * @returns Redacted segments and the audio to silence
+   */
+  public async redactSegments(sessionId: string, segments: TranscriptionSegment[]): Promise<SegmentsRedaction> {
+    return redactSegments(segments, await this.compileSessionRules(sessionId));
+  }
+
+  /**
+   * Redact free text about a session with the patterns of its campaign, such as content sent to a language model
+   * @param sessionId Session ID
+   * @param text Text
+   * @returns Redacted text
+   */
+  public async redactSessionText(sessionId: string, text: string): Promise<string> {
+    const rules = await this.compileSessionRules(sessionId);
+    return redactFreeText(text, rules.matchers.map(({ match }) => match));
+  }
+
+  /**
+   * Redact free text about a campaign with its patterns
+   * @param campaignId Campaign ID
+   * @param text Text
+   * @returns Redacted text
+   */
+  public async redactCampaignText(campaignId: string, text: string): Promise<string> {
+    const rules = this.compile(await this.redactionRepository.findByCampaign(campaignId));
+    return redactFreeText(text, rules.matchers.map(({ match }) => match));
+  }
+
+  /**
+   * Apply the rules of the campaign of a transcription to it, its revision log and its recording
+   * @param transcriptionId Transcription ID
+   * @returns What redacting the transcription changed, or null if it does not exist
+   * @throws AudioRedactionError if the audio cannot be silenced
+   */
+  public async applyToTranscription(transcriptionId: string): Promise<RedactionSummary | null> {
+    const transcription = await this.transcriptionRepository.findById(transcriptionId);
+    if (!transcription) {
+      return null;
+    }
+    return this.apply(transcription, await this.compileSessionRules(transcription.session_id));
+  }
+
+  /**
+   * Apply the rules of a campaign to the transcriptions of its sessions
+   * @param campaignId Campaign ID
+   * @returns What redacting each transcription changed
+   * @throws AudioRedactionError if the audio cannot be silenced
+   */
+  public async applyToCampaign(campaignId: string): Promise<RedactionSummary[]> {
+    const rules = this.compile(await this.redactionRepository.findByCampaign(campaignId));
+    const summaries: RedactionSummary[] = [];
+    for (const transcriptionId of await this.transcriptionRepository.findTranscriptionIdsByCampaign(campaignId)) {
+      const transcription = await this.transcriptionRepository.findById(transcriptionId);
+      if (transcription) {
+        summaries.push(await this.apply(transcription, rules));
+      }
+    }
+    return summaries;
+  }
+
+  /**
+   * Redact a span of a segment by hand. The span is widened to whole words, and its text is also scrubbed from the
+   * revision log of the transcription.
+   * @param transcriptionId Transcription ID
+   * @param params Span redaction parameters
+   * @returns Redacted transcription and what redacting it changed
+   * @throws RedactionError if the transcription or segment does not exist, the span is empty or out of range, or the
+   * segment changes while it is redacted
+   * @throws AudioRedactionError if the audio cannot be silenced
+   */
+  public async redactSpan(transcriptionId: string, params: SpanRedactionParams): Promise<SpanRedactionResult> {
+    const transcription = await this.transcriptionRepository.findById(transcriptionId);
+    if (!transcription) {
+      throw new RedactionError('TRANSCRIPTION_NOT_FOUND', 'Transcription not found');
+    }
+    const segment = transcription.segments.find(({ segment_id }) => segment_id === params.segment_id);
+    if (!segment) {
+      throw new RedactionError('SEGMENT_NOT_FOUND', 'Segment not found');
+    }
+    if (params.start_offset < 0 || params.end_offset > segment.text.length || params.start_offset >= params.end_offset) {
+      throw new RedactionError('INVALID_SPAN', 'The span must be within the segment text');
+    }
+
+    const redaction = redactSegment(segment, [
+      { start: params.start_offset, end: params.end_offset, silence_audio: params.silence_audio }
+    ]);
+    if (!redaction) {
+      throw new RedactionError('INVALID_SPAN', 'The span holds no words left to redact');
+    }
+
+    const silencedRanges = redaction.silenced_ranges;
+    await this.silenceRecording(transcription.recording_id, silencedRanges);
+    const updated = await this.transcriptionRepository.replaceSegments(
+      transcriptionId,
+      [segment.segment_id],
+      [redaction.segment],
+      { expected: [segment] }
+    );
+    if (!updated) {
+      throw new RedactionError('SEGMENT_CONFLICT', 'The segment was changed in the meantime; reload the transcript and try again');
+    }
+    await this.scrubRevisions(transcriptionId, {
+      speakers: new Map(),
+      matchers: [{ match: literalMatcher(segment.text.slice(params.start_offset, params.end_offset)), silence_audio: false }]
+    });
+
+    return {
+      transcription: updated,
+      summary: {
+        transcription_id: transcriptionId,
+        segments_removed: 0,
+        segments_redacted: 1,
+        words_redacted: redaction.words_redacted,
+        silenced_ranges: silencedRanges
+      }
+    };
+  }
+
+  /**
+   * Silence stretches of a recording and of each of its tracks, which start together with it
+   * @param recordingId Recording ID; imported and stitched transcripts may have none
+   * @param ranges Stretches to silence, in seconds from the start of the recording
+   * @throws AudioRedactionError if the audio cannot be silenced
+   */
+  public async silenceRecording(recordingId: string | undefined, ranges: AudioRange[]): Promise<void> {
+    if (!recordingId || ranges.length === 0) {
+      return;
+    }
+    const recording = await this.audioRecordingRepository.findById(recordingId);
+    if (!recording) {
+      return;
+    }
+
+    await this.audioRedactionService.silence(recording.file_path, ranges);
+    for (const track of await this.audioRecordingRepository.findTracks(recordingId)) {
+      await this.audioRedactionService.silence(track.file_path, ranges);
+    }
+  }
+
+  /**
+   * Apply compiled rules to a transcription, its revision log and its recording
+   * @param transcription Transcription
+   * @param rules Compiled redaction rules
+   * @returns What redacting the transcription changed
+   */
+  private async apply(transcription: Transcription, rules: CompiledRedactionRules): Promise<RedactionSummary> {
+    const redaction = redactSegments(transcription.segments, rules);
+    if (redaction.segments_removed + redaction.segments_redacted > 0) {
+      // Silence first, so that a failure leaves the transcript to be redacted again
+      await this.silenceRecording(transcription.recording_id, redaction.silenced_ranges);
+      await this.transcriptionRepository.replaceSegments(
+        transcription.transcription_id,
+        transcription.segments.map(({ segment_id }) => segment_id),
+        redaction.segments
+      );
+    }
+    await this.scrubRevisions(transcription.transcription_id, rules);
+
+    return {
+      transcription_id: transcription.transcription_id,
+      segments_removed: redaction.segments_removed,
+      segments_redacted: redaction.segments_redacted,
+      words_redacted: redaction.words_redacted,
+      silenced_ranges: redaction.silenced_ranges
+    };
+  }
+
+  /**
+   * Redact the segments recorded in the revision log of a transcription
+   * @param transcriptionId Transcription ID
+   * @param rules Compiled redaction rules
+   */
+  private async scrubRevisions(transcriptionId: string, rules: CompiledRedactionRules): Promise<void> {
+    if (rules.speakers.size === 0 && rules.matchers.length === 0) {
+      return;
+    }
+    for (const revision of await this.transcriptRevisionRepository.findAllByTranscription(transcriptionId)) {
+      const before = redactSegments(revision.before, rules);
+      const after = redactSegments(revision.after, rules);
+      const changes =
+        before.segments_removed + before.segments_redacted + after.segments_removed + after.segments_redacted;
+      if (changes > 0) {
+        await this.transcriptRevisionRepository.updateSegments(revision.revision_id, before.segments, after.segments);
+      }
+    }
+  }
+
+  /**
+   * Compile the rules of the campaign of a session
+   * @param sessionId Session ID
+   * @returns Compiled redaction rules, empty if the session is not part of a campaign
+   */
+  private async compileSessionRules(sessionId: string | undefined): Promise<CompiledRedactionRules> {
+    const session = sessionId ? await this.sessionRepository.findById(sessionId) : null;
+    return this.compile(session?.campaign_id ? await this.redactionRepository.findByCampaign(session.campaign_id) : []);
+  }
+
+  /**
+   * Compile redaction rules
+   * @param rules Redaction rules
+   * @returns Compiled redaction rules
+   */
+  private compile(rules: RedactionRule[]): CompiledRedactionRules {
+    const compiled: CompiledRedactionRules = { speakers: new Map(), matchers: [] };
+    for (const rule of rules) {
+      if (rule.type === RedactionRuleType.SPEAKER && rule.speaker_id) {
+        compiled.speakers.set(rule.speaker_id, rule.silence_audio || !!compiled.speakers.get(rule.speaker_id));
+      } else if (rule.pattern) {
+        compiled.matchers.push({ match: regexMatcher(rule.pattern), silence_audio: rule.silence_audio });
+      } else if (rule.pii_pattern) {
+        compiled.matchers.push({ match: piiMatcher(rule.pii_pattern), silence_audio: rule.silence_audio });
+      }
+    }
+    return compiled;
+  }
+}
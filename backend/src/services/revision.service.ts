@@ -0,0 +1,212 @@
+import { RevisionRepository } from '../repositories/revision.repository';
+import {
+  EntityRevision,
+  FieldDiff,
+  RevisionAuthor,
+  RevisionDiff,
+  RevisionEntityType,
+  TextDiffSegment
+} from '../models/revision.model';
+
+/**
+ * Largest token grid compared word by word; longer texts are shown as a full replacement
+ */
+const MAX_TEXT_DIFF_CELLS = 1000000;
+
+/**
+ * Service for entity revision history
+ */
+export class RevisionService {
+  private revisionRepository: RevisionRepository;
+
+  constructor(revisionRepository: RevisionRepository) {
+    this.revisionRepository = revisionRepository;
+  }
+
+  /**
+   * Get the revisions of an entity, newest first
+   * @param entityType Entity type
+   * @param entityId Entity ID
+   * @param page Page number
+   * @param limit Items per page
+   * @returns Revisions and total count
+   */
+  public async getRevisions(
+    entityType: RevisionEntityType,
+    entityId: string,
+    page = 1,
+    limit = 20
+  ): Promise<{ revisions: EntityRevision[]; total: number }> {
+    try {
+      return await this.revisionRepository.findByEntity(entityType, entityId, page, limit);
+    } catch (error) {
+      console.error('Error getting revisions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a revision by number
+   * @param entityType Entity type
+   * @param entityId Entity ID
+   * @param revisionNumber Revision number
+   * @returns Revision, or null if not found
+   */
+  public async getRevision(
+    entityType: RevisionEntityType,
+    entityId: string,
+    revisionNumber: number
+  ): Promise<EntityRevision | null> {
+    try {
+      return await this.revisionRepository.findByNumber(entityType, entityId, revisionNumber);
+    } catch (error) {
+      console.error('Error getting revision:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Compare two revisions of an entity
+   * @param entityType Entity type
+   * @param entityId Entity ID
+   * @param fromRevision Older revision number
+   * @param toRevision Newer revision number
+   * @returns Field-level differences, or null if either revision does not exist
+   */
+  public async diff(
+    entityType: RevisionEntityType,
+    entityId: string,
+    fromRevision: number,
+    toRevision: number
+  ): Promise<RevisionDiff | null> {
+    try {
+      const from = await this.revisionRepository.findByNumber(entityType, entityId, fromRevision);
+      const to = await this.revisionRepository.findByNumber(entityType, entityId, toRevision);
+      if (!from || !to) {
+        return null;
+      }
+
+      const changes = this.revisionRepository
+        .getChangedFields(from.snapshot, to.snapshot)
+        .map((field) => this.diffField(field, from.snapshot[field], to.snapshot[field]));
+
+      return {
+        entity_type: entityType,
+        entity_id: entityId,
+        from_revision: fromRevision,
+        to_revision: toRevision,
+        changes
+      };
+    } catch (error) {
+      console.error('Error comparing revisions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Restore an entity to the state of an earlier revision. The revert is itself recorded as a new revision.
+   * @param entityType Entity type
+   * @param entityId Entity ID
+   * @param revisionNumber Revision to restore
+   * @param author User or proposal making the change
+   * @returns Revision recording the revert, or null if the revision or entity does not exist
+   */
+  public async revert(
+    entityType: RevisionEntityType,
+    entityId: string,
+    revisionNumber: number,
+    author: RevisionAuthor = {}
+  ): Promise<EntityRevision | null> {
+    try {
+      return await this.revisionRepository.revert(entityType, entityId, revisionNumber, author);
+    } catch (error) {
+      console.error('Error reverting entity:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Describe the change of a single field
+   * @param field Field name
+   * @param oldValue Value in the older revision
+   * @param newValue Value in the newer revision
+   * @returns Field difference
+   */
+  private diffField(field: string, oldValue: any, newValue: any): FieldDiff {
+    if (oldValue === undefined || oldValue === null) {
+      return { field, type: 'added', newValue };
+    }
+    if (newValue === undefined || newValue === null) {
+      return { field, type: 'removed', oldValue };
+    }
+
+    const change: FieldDiff = { field, type: 'changed', oldValue, newValue };
+    if (typeof oldValue === 'string' && typeof newValue === 'string') {
+      change.textDiff = this.diffText(oldValue, newValue);
+    }
+    return change;
+  }
+
+  /**
+   * Compare two texts word by word using the longest common subsequence
+   * @param oldText Older text
+   * @param newText Newer text
+   * @returns Equal, deleted and inserted segments in reading order
+   */
+  private diffText(oldText: string, newText: string): TextDiffSegment[] {
+    // Each token is a word with its trailing whitespace
+    const oldTokens = oldText.match(/^\s+|\S+\s*/g) || [];
+    const newTokens = newText.match(/^\s+|\S+\s*/g) || [];
+
+    if (oldTokens.length * newTokens.length > MAX_TEXT_DIFF_CELLS) {
+      return [
+        { type: 'delete', value: oldText },
+        { type: 'insert', value: newText }
+      ];
+    }
+
+    // lengths[i][j] is the LCS length of oldTokens[i..] and newTokens[j..]
+    const lengths: number[][] = Array.from({ length: oldTokens.length + 1 }, () =>
+      new Array<number>(newTokens.length + 1).fill(0)
+    );
+    for (let i = oldTokens.length - 1; i >= 0; i--) {
+      for (let j = newTokens.length - 1; j >= 0; j--) {
+        lengths[i][j] = oldTokens[i] === newTokens[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+
+    const segments: TextDiffSegment[] = [];
+    const push = (type: TextDiffSegment['type'], value: string) => {
+      const last = segments[segments.length - 1];
+      if (last && last.type === type) {
+        last.value += value;
+      } else {
+        segments.push({ type, value });
+      }
+    };
+
+    let i = 0;
+    let j = 0;
+    while (i < oldTokens.length && j < newTokens.length) {
+      if (oldTokens[i] === newTokens[j]) {
+        push('equal', oldTokens[i]);
+        i++;
+        j++;
+      } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+        push('delete', oldTokens[i++]);
+      } else {
+        push('insert', newTokens[j++]);
+      }
+    }
+    while (i < oldTokens.length) {
+      push('delete', oldTokens[i++]);
+    }
+    while (j < newTokens.length) {
+      push('insert', newTokens[j++]);
+    }
+
+    return segments;
+  }
+}
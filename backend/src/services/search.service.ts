@@ -0,0 +1,487 @@
+import { SearchRepository } from '../repositories/search.repository';
+import {
+  SEARCH_ENTITY_TYPES,
+  SearchCandidate,
+  SearchEntityType,
+  SearchHighlight,
+  SearchParams,
+  SearchResult,
+  TranscriptSearchHit,
+  TranscriptSearchParams,
+  TranscriptSegmentCandidate,
+} from '../models/search.model';
+import { parseTranscriptQuery, tokenizeTranscript } from '../utils/transcript-search';
+import { phoneticKey, phoneticSimilarity } from '../utils/phonetic';
+
+/**
+ * Maximum number of candidates fetched per entity type before ranking
+ */
+const CANDIDATE_LIMIT = 500;
+
+/**
+ * Maximum length of a highlight snippet
+ */
+const SNIPPET_LENGTH = 160;
+
+/**
+ * Characters of context shown before the first match in a snippet
+ */
+const SNIPPET_LEAD = 60;
+
+/**
+ * Maximum number of transcript segments fetched before ranking
+ */
+const TRANSCRIPT_CANDIDATE_LIMIT = 2000;
+
+/**
+ * Terms with fewer letters are only matched exactly
+ */
+const MIN_FUZZY_TERM_LENGTH = 4;
+
+/**
+ * Lowest similarity at which a word that sounds like a term is taken for it
+ */
+const MIN_FUZZY_SIMILARITY = 0.75;
+
+/**
+ * Score of a term matched word for word, and the share of it a word that only sounds like the term gets
+ */
+const TERM_SCORE = 10;
+const FUZZY_TERM_WEIGHT = 0.6;
+
+/**
+ * Score of each quoted phrase found in a segment
+ */
+const PHRASE_SCORE = 20;
+
+/**
+ * Service for searching across worlds, campaigns, sessions, their entities and transcripts
+ */
+export class SearchService {
+  private searchRepository: SearchRepository;
+
+  constructor(searchRepository: SearchRepository) {
+    this.searchRepository = searchRepository;
+  }
+
+  /**
+   * Search for entities
+   * @param params Search parameters
+   * @returns Ranked results and total number of matches
+   */
+  public async search(params: SearchParams): Promise<{ results: SearchResult[]; total: number }> {
+    try {
+      const phrase = params.query.trim().toLowerCase();
+      const terms = this.tokenize(phrase);
+      if (terms.length === 0) {
+        return { results: [], total: 0 };
+      }
+
+      const types = params.types && params.types.length > 0 ? params.types : SEARCH_ENTITY_TYPES;
+      const scope = { worldId: params.worldId, campaignId: params.campaignId };
+
+      const candidates: SearchCandidate[] = [];
+      for (const type of types) {
+        candidates.push(...(await this.searchRepository.findCandidates(type, terms, scope, CANDIDATE_LIMIT)));
+      }
+
+      const results = candidates.map((candidate) => this.toResult(candidate, phrase, terms));
+      this.sortResults(results, params.sortBy || 'relevance', params.sortDirection);
+
+      const offset = Math.max(0, params.offset || 0);
+      const limit = Math.max(1, params.limit || 20);
+
+      return {
+        results: results.slice(offset, offset + limit),
+        total: results.length,
+      };
+    } catch (error) {
+      console.error('Error searching:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Search the transcript segments of a campaign. Every term of the query must occur in a segment and every quoted
+   * phrase word for word; with fuzzy matching, words that sound like a term also match it.
+   * @param params Transcript search parameters
+   * @returns Ranked hits and total number of matching segments
+   */
+  public async searchTranscripts(
+    params: TranscriptSearchParams
+  ): Promise<{ results: TranscriptSearchHit[]; total: number }> {
+    try {
+      const { terms, phrases } = parseTranscriptQuery(params.query);
+      if (terms.length === 0) {
+        return { results: [], total: 0 };
+      }
+
+      // Indexed words each term matches, weighted by how closely
+      const forms = new Map(terms.map((term) => [term, new Map([[term, 1]])]));
+      if (params.fuzzy) {
+        const fuzzyTerms = terms.filter((term) => term.length >= MIN_FUZZY_TERM_LENGTH);
+        const vocabulary =
+          fuzzyTerms.length > 0
+            ? await this.searchRepository.findTranscriptTerms(Array.from(new Set(fuzzyTerms.map(phoneticKey))))
+            : [];
+        for (const term of fuzzyTerms) {
+          const key = phoneticKey(term);
+          for (const word of vocabulary) {
+            const similarity = phoneticSimilarity(term, word.term);
+            if (word.term !== term && word.phonetic_key === key && similarity >= MIN_FUZZY_SIMILARITY) {
+              forms.get(term)?.set(word.term, FUZZY_TERM_WEIGHT * similarity);
+            }
+          }
+        }
+      }
+
+      const candidates = await this.searchRepository.findTranscriptSegments(
+        Array.from(forms.values()).map((weights) => Array.from(weights.keys())),
+        { campaignId: params.campaignId, speakerIds: params.speakerIds, characterIds: params.characterIds },
+        TRANSCRIPT_CANDIDATE_LIMIT
+      );
+
+      const results = candidates
+        .map((candidate) => this.toTranscriptHit(candidate, forms, phrases))
+        .filter((hit): hit is TranscriptSearchHit => hit !== null);
+      results.sort((a, b) =>
+        params.sortBy === 'time' ? compareMoments(a, b) : b.score - a.score || compareMoments(a, b)
+      );
+
+      const offset = Math.max(0, params.offset || 0);
+      const limit = Math.max(1, params.limit || 20);
+
+      return {
+        results: results.slice(offset, offset + limit),
+        total: results.length,
+      };
+    } catch (error) {
+      console.error('Error searching transcripts:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get typeahead suggestions for a partial query
+   * @param query Partial query
+   * @param types Entity types to include
+   * @param limit Maximum number of suggestions
+   * @returns Entity names, best matches first
+   */
+  public async getSuggestions(query: string, types?: SearchEntityType[], limit = 10): Promise<string[]> {
+    try {
+      const prefix = query.trim().toLowerCase();
+      if (!prefix) {
+        return [];
+      }
+
+      const names = await this.searchRepository.findNames(
+        prefix,
+        types && types.length > 0 ? types : SEARCH_ENTITY_TYPES,
+        limit * 5
+      );
+
+      const rank = (name: string): number => {
+        const lower = name.toLowerCase();
+        if (lower.startsWith(prefix)) return 0;
+        if (lower.split(/\s+/).some((word) => word.startsWith(prefix))) return 1;
+        return 2;
+      };
+
+      return names
+        .sort((a, b) => rank(a) - rank(b) || a.localeCompare(b))
+        .slice(0, limit);
+    } catch (error) {
+      console.error('Error getting search suggestions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a user's recent searches
+   * @param userId User ID
+   * @param limit Maximum number of searches
+   * @returns Search queries, newest first
+   */
+  public async getRecentSearches(userId: string, limit = 10): Promise<string[]> {
+    try {
+      return await this.searchRepository.getRecentSearches(userId, limit);
+    } catch (error) {
+      console.error('Error getting recent searches:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Save a query to a user's recent searches
+   * @param userId User ID
+   * @param query Search query
+   */
+  public async saveRecentSearch(userId: string, query: string): Promise<void> {
+    try {
+      const trimmed = query.trim();
+      if (trimmed) {
+        await this.searchRepository.saveRecentSearch(userId, trimmed);
+      }
+    } catch (error) {
+      console.error('Error saving recent search:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Clear a user's recent searches
+   * @param userId User ID
+   */
+  public async clearRecentSearches(userId: string): Promise<void> {
+    try {
+      await this.searchRepository.clearRecentSearches(userId);
+    } catch (error) {
+      console.error('Error clearing recent searches:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Split a query into distinct lower-cased terms
+   * @param phrase Lower-cased query
+   * @returns Search terms
+   */
+  private tokenize(phrase: string): string[] {
+    return Array.from(new Set(phrase.split(/[\s,;]+/).map((term) => term.replace(/^["'(]+|["')?!.:]+$/g, '')).filter(Boolean)));
+  }
+
+  /**
+   * Score a candidate and build its highlights
+   * @param candidate Matching entity
+   * @param phrase Full lower-cased query
+   * @param terms Search terms
+   * @returns Search result
+   */
+  private toResult(candidate: SearchCandidate, phrase: string, terms: string[]): SearchResult {
+    const name = candidate.name.toLowerCase();
+    const description = (candidate.description || '').toLowerCase();
+    const text = (candidate.text || '').toLowerCase();
+
+    let score = 0;
+    if (name === phrase) {
+      score += 100;
+    } else if (name.startsWith(phrase)) {
+      score += 50;
+    } else if (name.includes(phrase)) {
+      score += 30;
+    }
+    if (terms.length > 1 && description.includes(phrase)) {
+      score += 10;
+    }
+
+    let matchedTerms = 0;
+    for (const term of terms) {
+      const inName = countOccurrences(name, term);
+      const inDescription = countOccurrences(description, term);
+      const inText = countOccurrences(text, term);
+      if (inName + inDescription + inText > 0) {
+        matchedTerms++;
+      }
+      if (inName > 0) {
+        score += 10 + (new RegExp(`\\b${escapeRegExp(term)}`).test(name) ? 5 : 0);
+      }
+      score += Math.min(inDescription, 5) * 3;
+      score += Math.min(inText, 10);
+    }
+    if (matchedTerms === terms.length && terms.length > 1) {
+      score *= 1.5;
+    }
+
+    const highlights: SearchHighlight[] = [];
+    for (const [field, value] of [
+      ['name', candidate.name],
+      ['description', candidate.description],
+      ['text', candidate.text],
+    ] as Array<[string, string | undefined]>) {
+      const snippet = value ? highlight(value, terms) : null;
+      if (snippet) {
+        highlights.push({ field, text: snippet });
+      }
+    }
+
+    return {
+      id: candidate.id,
+      name: candidate.name,
+      type: candidate.type,
+      description: candidate.description,
+      imageUrl: candidate.imageUrl,
+      parentId: candidate.parentId,
+      parentName: candidate.parentName,
+      parentType: candidate.parentType,
+      createdAt: toIsoString(candidate.createdAt),
+      updatedAt: toIsoString(candidate.updatedAt ?? candidate.createdAt),
+      score: Math.round(score * 100) / 100,
+      highlights,
+    };
+  }
+
+  /**
+   * Score a transcript segment and highlight its matching words
+   * @param candidate Segment containing some of the searched words
+   * @param forms Indexed words each query term matches, with their weights
+   * @param phrases Quoted phrases as tokens
+   * @returns Search hit, or null when a term or phrase is missing from the segment
+   */
+  private toTranscriptHit(
+    candidate: TranscriptSegmentCandidate,
+    forms: Map<string, Map<string, number>>,
+    phrases: string[][]
+  ): TranscriptSearchHit | null {
+    const contained = new Set(candidate.matchedTerms);
+
+    let score = 0;
+    for (const weights of forms.values()) {
+      const weight = Math.max(0, ...Array.from(weights).filter(([form]) => contained.has(form)).map(([, value]) => value));
+      if (weight === 0) {
+        return null;
+      }
+      score += TERM_SCORE * weight;
+    }
+
+    const tokens = tokenizeTranscript(candidate.text);
+    const sameWord = (token: string, word: string) => token === word || !!forms.get(word)?.has(token);
+    for (const phrase of phrases) {
+      const found = tokens.some((_token, start) => phrase.every((word, index) => sameWord(tokens[start + index] || '', word)));
+      if (!found) {
+        return null;
+      }
+      score += PHRASE_SCORE;
+    }
+
+    const { matchedTerms, ...moment } = candidate;
+    return {
+      ...moment,
+      score: Math.round(score * 100) / 100,
+      highlight: highlight(candidate.text, matchedTerms, true) || escapeHtml(candidate.text),
+    };
+  }
+
+  /**
+   * Sort results in place
+   * @param results Search results
+   * @param sortBy Sort field
+   * @param sortDirection Sort direction; relevance defaults to descending, other fields to ascending
+   */
+  private sortResults(results: SearchResult[], sortBy: NonNullable<SearchParams['sortBy']>, sortDirection?: 'asc' | 'desc'): void {
+    const direction = (sortDirection || (sortBy === 'relevance' ? 'desc' : 'asc')) === 'asc' ? 1 : -1;
+    const byName = (a: SearchResult, b: SearchResult) => a.name.localeCompare(b.name);
+
+    results.sort((a, b) => {
+      switch (sortBy) {
+        case 'name':
+          return direction * byName(a, b);
+        case 'createdAt':
+          return direction * a.createdAt.localeCompare(b.createdAt) || byName(a, b);
+        case 'updatedAt':
+          return direction * a.updatedAt.localeCompare(b.updatedAt) || byName(a, b);
+        default:
+          return direction * (a.score - b.score) || byName(a, b);
+      }
+    });
+  }
+}
+
+/**
+ * Count non-overlapping occurrences of a term
+ */
+function countOccurrences(value: string, term: string): number {
+  if (!value) {
+    return 0;
+  }
+  let count = 0;
+  let index = value.indexOf(term);
+  while (index !== -1) {
+    count++;
+    index = value.indexOf(term, index + term.length);
+  }
+  return count;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Build an HTML-escaped snippet around the first match, with matches wrapped in <mark>
+ * @param value Field value
+ * @param terms Search terms
+ * @param wholeWords Only match terms as whole words rather than anywhere in a word
+ * @returns Snippet, or null when no term occurs in the value
+ */
+function highlight(value: string, terms: string[], wholeWords = false): string | null {
+  const alternatives = terms.map(escapeRegExp).sort((a, b) => b.length - a.length).join('|');
+  const pattern = wholeWords
+    ? new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives})(?![\\p{L}\\p{N}])`, 'giu')
+    : new RegExp(alternatives, 'gi');
+  const first = value.search(pattern);
+  if (first === -1) {
+    return null;
+  }
+
+  let start = value.length <= SNIPPET_LENGTH ? 0 : Math.max(0, first - SNIPPET_LEAD);
+  const end = Math.min(value.length, start + SNIPPET_LENGTH);
+  start = Math.max(0, Math.min(start, end - SNIPPET_LENGTH));
+
+  // Avoid cutting words in half at the edges of the snippet
+  if (start > 0) {
+    const space = value.indexOf(' ', start);
+    if (space !== -1 && space < first) {
+      start = space + 1;
+    }
+  }
+  let snippetEnd = end;
+  if (end < value.length) {
+    const space = value.lastIndexOf(' ', end);
+    if (space > first) {
+      snippetEnd = space;
+    }
+  }
+
+  const snippet = value.slice(start, snippetEnd);
+  let html = '';
+  let last = 0;
+  snippet.replace(pattern, (match, offset: number) => {
+    html += `${escapeHtml(snippet.slice(last, offset))}<mark>${escapeHtml(match)}</mark>`;
+    last = offset + match.length;
+    return match;
+  });
+  html += escapeHtml(snippet.slice(last));
+
+  return `${start > 0 ? '…' : ''}${html}${snippetEnd < value.length ? '…' : ''}`;
+}
+
+/**
+ * Order transcript hits as they happened: by session, then by recording, then by time in the recording
+ */
+function compareMoments(a: TranscriptSearchHit, b: TranscriptSearchHit): number {
+  return (
+    (a.sessionNumber ?? Number.MAX_SAFE_INTEGER) - (b.sessionNumber ?? Number.MAX_SAFE_INTEGER) ||
+    (a.sessionDate || '').localeCompare(b.sessionDate || '') ||
+    a.sessionId.localeCompare(b.sessionId) ||
+    a.transcriptionId.localeCompare(b.transcriptionId) ||
+    a.startTime - b.startTime
+  );
+}
+
+/**
+ * Normalize stored timestamps, which are ISO strings or epoch milliseconds
+ */
+function toIsoString(value: string | number | undefined): string {
+  if (value === undefined || value === null || value === '') {
+    return '';
+  }
+  if (typeof value === 'number') {
+    return new Date(value).toISOString();
+  }
+  return String(value);
+}
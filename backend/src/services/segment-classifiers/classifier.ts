@@ -0,0 +1,39 @@
+import { SegmentCategory, TranscriptionSegment } from '../../models/transcription.model';
+
+/**
+ * Category given to a segment by a classifier
+ */
+export interface SegmentClassification {
+  category: SegmentCategory;
+  /**
+   * Confidence of the category, from 0 to 1
+   */
+  confidence: number;
+}
+
+/**
+ * Tells in-character play from rules talk and off-topic chatter in transcript segments
+ */
+export interface SegmentClassifier {
+  /**
+   * Name the classifier is configured by
+   */
+  readonly name: string;
+  /**
+   * Classify the segments of a transcript. Segments are given in time order so that a classifier can use the
+   * segments around each one.
+   * @param segments Segments of one transcript
+   * @returns One classification per segment, in the order of the segments
+   */
+  classify(segments: TranscriptionSegment[]): Promise<SegmentClassification[]>;
+}
+
+/**
+ * Error thrown when a classifier is missing or fails to classify
+ */
+export class SegmentClassifierError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SegmentClassifierError';
+  }
+}
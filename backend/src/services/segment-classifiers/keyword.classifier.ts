@@ -0,0 +1,134 @@
+import { SegmentCategory, TranscriptionSegment } from '../../models/transcription.model';
+import { SegmentClassification, SegmentClassifier } from './classifier';
+
+/**
+ * Phrases that point to each category; a segment scores a point for every pattern it matches
+ */
+const CUES: Record<SegmentCategory, RegExp[]> = {
+  [SegmentCategory.RULES]: [
+    /\b\d*d(?:4|6|8|10|12|20|100)\b/i,
+    /\b(?:roll|rolls|rolled|rolling)\b/i,
+    /\bnat(?:ural)?\s+(?:1|20|one|twenty)\b/i,
+    /\b(?:plus|minus)\s+\d+\b/i,
+    /\b(?:initiative|saving throws?|modifiers?|advantage|disadvantage|proficiency|cantrips?|concentration|bonus action|attack roll|spell slots?|hit points|armou?r class|damage|short rest|long rest)\b/i,
+    /\b(?:AC|HP|DC|XP|PHB)\b/,
+    /\b(?:rules?|rulebook|handbook|errata|as written)\b/i
+  ],
+  [SegmentCategory.OFF_TOPIC]: [
+    /\b(?:pizza|snacks?|chips|beers?|soda|coffee|dinner|lunch|takeout|delivery)\b/i,
+    /\b(?:bathroom|toilet|brb|be right back|take a break)\b/i,
+    /\b(?:next (?:week|session)|schedule|calendar|monday|tuesday|wednesday|thursday|friday|saturday|sunday|o'?clock|tomorrow)\b/i,
+    /\b(?:can you hear me|you'?re muted|microphone|mic|wi-?fi|internet|lagging)\b/i,
+    /\b(?:lol|lmao|haha+|netflix|traffic)\b/i
+  ],
+  [SegmentCategory.IN_CHARACTER_DIALOGUE]: [
+    /["“”]/,
+    /\b(?:I|he|she|they) (?:say|says|said|ask|asks|shout|shouts|whisper|whispers|tell|tells|reply|replies|yell|yells)\b/i,
+    /\bI (?:draw|cast|attack|open|search|sneak|climb|grab|drink|pick up|hide|bow|nod)\b/i,
+    /\b(?:in character|in-character)\b/i,
+    /^(?:hail|greetings|well met|my lord|my lady|farewell|who goes there|who are you)\b/i,
+    /\b(?:thee|thou|thy|milord|m'?lady)\b/i
+  ],
+  [SegmentCategory.IN_CHARACTER_NARRATION]: [
+    /\byou (?:see|hear|notice|enter|find|feel|smell|arrive|approach|reach|spot)\b/i,
+    /\b(?:in front of you|before you|around you|ahead of you|as you)\b/i,
+    /\b(?:suddenly|the (?:room|door|corridor|hall|cave|forest|air|walls?|floor|ceiling|sky))\b/i
+  ]
+};
+
+/**
+ * Confidence of a category with as many cues as the runner-up
+ */
+const BASE_CONFIDENCE = 0.4;
+
+/**
+ * Confidence gained for every cue the category has over the runner-up
+ */
+const CUE_CONFIDENCE = 0.15;
+
+const MAX_CONFIDENCE = 0.9;
+
+/**
+ * Confidence of a segment without cues, given the category of the stretch it is in
+ */
+const INHERITED_CONFIDENCE = 0.3;
+
+/**
+ * Confidence of the segments of a transcript without any cues at all
+ */
+const DEFAULT_CONFIDENCE = 0.2;
+
+/**
+ * Most of a session is played in character, so that is what a transcript without cues is taken to be
+ */
+const DEFAULT_CATEGORY = SegmentCategory.IN_CHARACTER_DIALOGUE;
+
+/**
+ * Classifies segments by the dice, rules, food, scheduling and scene-setting phrases in their text. Segments without
+ * such phrases continue the stretch they are in, as table talk and scenes tend to run over several segments.
+ */
+export class KeywordSegmentClassifier implements SegmentClassifier {
+  public readonly name = 'keyword';
+
+  /**
+   * Classify the segments of a transcript
+   * @param segments Segments of one transcript, in time order
+   * @returns One classification per segment
+   */
+  public async classify(segments: TranscriptionSegment[]): Promise<SegmentClassification[]> {
+    const cued: (SegmentClassification | null)[] = [];
+    // Category of the closest segment with cues before each segment
+    const stretches: (SegmentCategory | undefined)[] = [];
+    let previous: SegmentCategory | undefined;
+    for (const segment of segments) {
+      const classification = this.classifyText(segment.text, previous);
+      cued.push(classification);
+      stretches.push(previous);
+      previous = classification?.category ?? previous;
+    }
+
+    // Segments before the first cue belong to the stretch that follows them
+    const classifications: SegmentClassification[] = new Array(cued.length);
+    let next: SegmentCategory | undefined;
+    for (let index = cued.length - 1; index >= 0; index--) {
+      const classification = cued[index];
+      if (classification) {
+        next = classification.category;
+        classifications[index] = classification;
+        continue;
+      }
+      const inherited = stretches[index] ?? next;
+      classifications[index] = inherited
+        ? { category: inherited, confidence: INHERITED_CONFIDENCE }
+        : { category: DEFAULT_CATEGORY, confidence: DEFAULT_CONFIDENCE };
+    }
+    return classifications;
+  }
+
+  /**
+   * Classify a text by its cues
+   * @param text Segment text
+   * @param previous Category of the segment before, which wins ties
+   * @returns Classification, or null if the text has no cues
+   */
+  private classifyText(text: string, previous?: SegmentCategory): SegmentClassification | null {
+    const scores = (Object.keys(CUES) as SegmentCategory[])
+      .map((category) => ({
+        category,
+        score: CUES[category].filter((pattern) => pattern.test(text)).length
+      }))
+      .sort((a, b) => b.score - a.score);
+
+    const [best, runnerUp] = scores;
+    if (best.score === 0) {
+      return null;
+    }
+
+    const tied = scores.filter(({ score }) => score === best.score);
+    const category = tied.some((candidate) => candidate.category === previous) ? (previous as SegmentCategory) : best.category;
+    return {
+      category,
+      confidence: Math.min(MAX_CONFIDENCE, BASE_CONFIDENCE + CUE_CONFIDENCE * (best.score - runnerUp.score))
+    };
+  }
+}
@@ -0,0 +1,33 @@
+import config from '../../config';
+import { SegmentClassifier, SegmentClassifierError } from './classifier';
+import { KeywordSegmentClassifier } from './keyword.classifier';
+
+/**
+ * Classifiers that can be configured, keyed by name
+ */
+const classifierFactories = new Map<string, () => SegmentClassifier>([
+  ['keyword', () => new KeywordSegmentClassifier()]
+]);
+
+/**
+ * Make a classifier available under a name, replacing any classifier of the same name
+ * @param name Name the classifier is configured by
+ * @param factory Creates the classifier
+ */
+export const registerSegmentClassifier = (name: string, factory: () => SegmentClassifier): void => {
+  classifierFactories.set(name, factory);
+};
+
+/**
+ * Create the classifier set up in the configuration
+ * @param name Classifier name; the configured classifier when omitted
+ * @returns Segment classifier
+ * @throws SegmentClassifierError if no classifier has the name
+ */
+export const createSegmentClassifier = (name: string = config.transcription.segmentClassifier): SegmentClassifier => {
+  const factory = classifierFactories.get(name);
+  if (!factory) {
+    throw new SegmentClassifierError(`No segment classifier is registered as ${name}`);
+  }
+  return factory();
+};
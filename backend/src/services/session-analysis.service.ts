@@ -11,7 +11,10 @@ import {
   KeyPointCategory,
   EntityType
 } from '../models/session-analysis.model';
-import { Transcription, TranscriptionSegment } from '../models/transcription.model';
+import { Transcription, TranscriptionSegment, TranscriptTextVersion } from '../models/transcription.model';
+import { ProgressCallback } from '../models/job.model';
+import { filterSegmentsByCategory } from '../utils/segment-categories';
+import { withTextVersion } from '../utils/language-detection';
 import { v4 as uuidv4 } from 'uuid';
 
 /**
@@ -187,18 +190,20 @@ export class SessionAnalysisService {
     }
 
     // Check if transcription exists
-    const transcription = await this.transcriptionRepository.findById(params.transcription_id);
+    const transcription = params.transcription_id
+      ? await this.transcriptionRepository.findById(params.transcription_id)
+      : await this.transcriptionRepository.findSessionTranscript(params.session_id);
     if (!transcription) {
-      throw new Error('Transcription not found');
+      throw new Error(params.transcription_id ? 'Transcription not found' : 'Session transcript not found');
     }
 
     // Check if analysis already exists for this transcription
-    const existingAnalysis = await this.sessionAnalysisRepository.findByTranscriptionId(params.transcription_id);
+    const existingAnalysis = await this.sessionAnalysisRepository.findByTranscriptionId(transcription.transcription_id);
     if (existingAnalysis) {
       return existingAnalysis;
     }
 
-    return this.sessionAnalysisRepository.create(params);
+    return this.sessionAnalysisRepository.create({ ...params, transcription_id: transcription.transcription_id });
   }
 
   /**
@@ -245,11 +250,15 @@ export class SessionAnalysisService {
    * Process session analysis
    * @param analysisId Analysis ID
    * @param options Analysis processing options
+   * @param onProgress Optional progress callback
+   * @param signal Optional abort signal, checked between the steps of the analysis
    * @returns Processed session analysis
    */
   public async process(
     analysisId: string,
-    options: AnalysisProcessingOptions = {}
+    options: AnalysisProcessingOptions = {},
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
   ): Promise<SessionAnalysis> {
     try {
       // Get analysis
@@ -258,17 +267,18 @@ export class SessionAnalysisService {
         throw new Error('Analysis not found');
       }
 
-      // Get transcription
-      const transcription = await this.transcriptionRepository.findById(analysis.transcription_id);
-      if (!transcription) {
-        throw new Error('Transcription not found');
-      }
+      // Get transcription, without the segments of categories left out of the analysis
+      const transcription = await this.findAnalyzedTranscription(analysis.transcription_id, options);
+      this.throwIfCancelled(signal);
 
       // Start processing timer
       const startTime = Date.now();
 
       // Process transcription
-      const processedAnalysis = await this.processTranscription(transcription, options);
+      await onProgress?.(10, 'Analyzing transcription');
+      const processedAnalysis = await this.processTranscription(transcription, options, signal);
+      this.throwIfCancelled(signal);
+      await onProgress?.(90, 'Saving analysis');
 
       // Calculate processing time
       const processingTime = (Date.now() - startTime) / 1000;
@@ -279,7 +289,10 @@ export class SessionAnalysisService {
         processing_time_seconds: processingTime,
         model_version: options.model || 'default',
         word_count: transcription.word_count,
-        confidence_score: transcription.confidence_score
+        confidence_score: transcription.confidence_score,
+        additional_info: options.segment_categories?.length || options.text_version === TranscriptTextVersion.TRANSLATION
+          ? { segment_categories: options.segment_categories, text_version: options.text_version }
+          : undefined
       };
 
       // Update analysis
@@ -305,10 +318,7 @@ export class SessionAnalysisService {
       }
 
       // Get transcription
-      const transcription = await this.transcriptionRepository.findById(sessionAnalysis.transcription_id);
-      if (!transcription) {
-        throw new Error('Transcription not found');
-      }
+      const transcription = await this.findAnalyzedTranscription(sessionAnalysis.transcription_id, options);
 
       // Update status to processing
       sessionAnalysis.status = 'processing';
@@ -382,15 +392,59 @@ export class SessionAnalysisService {
     }
   }
 
+  /**
+   * Get the transcription an analysis is made of, keeping only the segments of the categories to analyze, in the text
+   * version to analyze
+   * @param transcriptionId Transcription ID
+   * @param options Analysis processing options
+   * @returns Transcription with the analyzed segments
+   */
+  private async findAnalyzedTranscription(
+    transcriptionId: string,
+    options: AnalysisProcessingOptions
+  ): Promise<Transcription> {
+    const transcription = await this.transcriptionRepository.findById(transcriptionId);
+    if (!transcription) {
+      throw new Error('Transcription not found');
+    }
+    if (!options.segment_categories?.length && options.text_version !== TranscriptTextVersion.TRANSLATION) {
+      return transcription;
+    }
+
+    const segments = withTextVersion(
+      filterSegmentsByCategory(transcription.segments, options.segment_categories),
+      options.text_version
+    );
+    const fullText = segments.map(segment => segment.text).join(' ');
+    return {
+      ...transcription,
+      segments,
+      full_text: fullText,
+      word_count: fullText.split(/\s+/).filter(Boolean).length
+    };
+  }
+
+  /**
+   * Stop an analysis whose job was cancelled
+   * @param signal Optional abort signal
+   */
+  private throwIfCancelled(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      throw new Error('Session analysis was cancelled');
+    }
+  }
+
   /**
    * Process transcription
    * @param transcription Transcription
    * @param options Analysis processing options
+   * @param signal Optional abort signal
    * @returns Session analysis update parameters
    */
   private async processTranscription(
     transcription: Transcription,
-    options: AnalysisProcessingOptions
+    options: AnalysisProcessingOptions,
+    signal?: AbortSignal
   ): Promise<SessionAnalysisUpdateParams> {
     // In a real implementation, this would use NLP and AI to analyze the transcription
     // For now, we'll create a simple mock implementation
@@ -400,15 +454,19 @@ export class SessionAnalysisService {
 
     // Extract key points
     const keyPoints = this.extractKeyPoints(transcription.segments, options.max_key_points || 5);
+    this.throwIfCancelled(signal);
 
     // Generate character insights
     const characterInsights = this.generateCharacterInsights(transcription);
+    this.throwIfCancelled(signal);
 
     // Extract plot developments
     const plotDevelopments = this.extractPlotDevelopments(transcription.segments);
+    this.throwIfCancelled(signal);
 
     // Analyze sentiment
     const sentimentAnalysis = this.analyzeSentiment(transcription.segments);
+    this.throwIfCancelled(signal);
 
     // Extract topics
     const topics = this.extractTopics(transcription.segments, options.max_topics || 5);
@@ -468,6 +526,8 @@ export class SessionAnalysisService {
         key_point_id: uuidv4(),
         text: segment.text,
         segment_ids: [segment.segment_id],
+        start_time: segment.start_time,
+        end_time: segment.end_time,
         importance_score: 0.5 + Math.random() * 0.5, // Random score between 0.5 and 1.0
         category: randomCategory
       });
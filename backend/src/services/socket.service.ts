@@ -0,0 +1,191 @@
+import { Server as HttpServer } from 'http';
+import { Server, Socket } from 'socket.io';
+import { z } from 'zod';
+import { JobQueueService } from './job-queue.service';
+import { LiveTranscriptionError, LiveTranscriptionService } from './live-transcription.service';
+import { LiveAudioFormat } from '../models/live-transcription.model';
+import { TranscriptionService as TranscriptionEngine } from '../models/audio-recording.model';
+import { validateRequest } from '../utils/validation';
+import { authenticateSocket } from '../middleware/auth.middleware';
+import config from '../config';
+
+/**
+ * Acknowledgement sent back for socket requests, shaped like HTTP API responses
+ */
+type SocketAck = (response: { success: boolean; data?: unknown; error?: { code: string; message: string; details?: unknown } }) => void;
+
+/**
+ * Service for pushing realtime updates to clients over socket.io.
+ *
+ * Every authenticated socket joins a room for its user; job updates are sent to the room of the job's creator
+ * as 'job:update' events.
+ *
+ * Live transcription runs over the socket that started it: 'live:start' starts it, 'live:audio' sends recorded
+ * audio, 'live:stop' saves the transcript to the uploaded recording and 'live:cancel' discards it. Transcript
+ * updates arrive as 'live:transcript' events and failures as 'live:error' events. Live transcriptions still running
+ * when their socket disconnects are cancelled.
+ */
+export class SocketService {
+  private io: Server;
+  private liveTranscriptionService?: LiveTranscriptionService;
+
+  /**
+   * @param httpServer HTTP server to attach to
+   */
+  constructor(httpServer: HttpServer) {
+    this.io = new Server(httpServer, {
+      cors: {
+        origin: config.frontendUrl
+      }
+    });
+    this.io.use(authenticateSocket);
+    this.io.on('connection', (socket) => this.handleConnection(socket));
+  }
+
+  /**
+   * Forward job updates to the users that created the jobs
+   * @param jobQueueService Job queue service
+   */
+  public attachJobQueue(jobQueueService: JobQueueService): void {
+    jobQueueService.subscribe((job) => {
+      if (job.created_by) {
+        this.io.to(this.userRoom(job.created_by)).emit('job:update', job);
+      }
+    });
+  }
+
+  /**
+   * Handle live transcription requests of connected clients
+   * @param liveTranscriptionService Live transcription service
+   */
+  public attachLiveTranscription(liveTranscriptionService: LiveTranscriptionService): void {
+    this.liveTranscriptionService = liveTranscriptionService;
+  }
+
+  /**
+   * Close all connections
+   */
+  public async close(): Promise<void> {
+    await new Promise<void>((resolve) => this.io.close(() => resolve()));
+  }
+
+  /**
+   * Set up a new connection
+   * @param socket Connected socket
+   */
+  private handleConnection(socket: Socket): void {
+    const userId: string | undefined = socket.data.user?.user_id;
+    if (userId) {
+      socket.join(this.userRoom(userId));
+      this.handleLiveTranscription(socket, userId);
+    }
+  }
+
+  /**
+   * Set up the live transcription events of a socket
+   * @param socket Connected socket
+   * @param userId ID of the authenticated user
+   */
+  private handleLiveTranscription(socket: Socket, userId: string): void {
+    const liveIds = new Set<string>();
+
+    socket.on('live:start', async (params: unknown, ack?: SocketAck) => {
+      const service = this.liveTranscriptionService;
+      if (!service) {
+        ack?.({ success: false, error: { code: 'NOT_IMPLEMENTED', message: 'Live transcription is not available.' } });
+        return;
+      }
+
+      const schema = z.object({
+        session_id: z.string().uuid(),
+        format: z.nativeEnum(LiveAudioFormat),
+        language: z.string().min(2).max(10).optional(),
+        service: z.nativeEnum(TranscriptionEngine).optional()
+      });
+      const validationResult = validateRequest<z.infer<typeof schema>>(params, schema);
+      if (!validationResult.success || !validationResult.data) {
+        ack?.({
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: 'Invalid request data.', details: validationResult.errors }
+        });
+        return;
+      }
+
+      try {
+        const live = await service.start(validationResult.data, userId, {
+          onUpdate: (update) => socket.emit('live:transcript', update),
+          onError: (message) => socket.emit('live:error', { live_id: live.live_id, message })
+        });
+        liveIds.add(live.live_id);
+        ack?.({ success: true, data: live });
+      } catch (error) {
+        ack?.(this.liveErrorResponse(error, 'An error occurred while starting live transcription.'));
+      }
+    });
+
+    socket.on('live:audio', (liveId: string, chunk: unknown) => {
+      try {
+        if (!Buffer.isBuffer(chunk)) {
+          throw new LiveTranscriptionError('INVALID_AUDIO', 'Audio must be sent as binary data');
+        }
+        this.liveTranscriptionService?.pushAudio(liveId, chunk, userId);
+      } catch (error) {
+        socket.emit('live:error', { live_id: liveId, message: (error as Error).message });
+      }
+    });
+
+    socket.on('live:stop', async (params: { live_id?: string; recording_id?: string }, ack?: SocketAck) => {
+      const service = this.liveTranscriptionService;
+      if (!service || !params?.live_id || !params.recording_id) {
+        ack?.({ success: false, error: { code: 'VALIDATION_ERROR', message: 'live_id and recording_id are required.' } });
+        return;
+      }
+
+      try {
+        liveIds.delete(params.live_id);
+        const transcription = await service.stop(params.live_id, params.recording_id, userId);
+        ack?.({ success: true, data: transcription });
+      } catch (error) {
+        ack?.(this.liveErrorResponse(error, 'An error occurred while saving the live transcript.'));
+      }
+    });
+
+    socket.on('live:cancel', async (params: { live_id?: string }, ack?: SocketAck) => {
+      if (params?.live_id) {
+        liveIds.delete(params.live_id);
+      }
+      const cancelled = params?.live_id ? await this.liveTranscriptionService?.cancel(params.live_id, userId) : false;
+      ack?.({ success: Boolean(cancelled) });
+    });
+
+    socket.on('disconnect', () => {
+      for (const liveId of liveIds) {
+        void this.liveTranscriptionService?.cancel(liveId, userId);
+      }
+      liveIds.clear();
+    });
+  }
+
+  /**
+   * Build the acknowledgement of a failed live transcription request
+   * @param error Error
+   * @param message Message for unexpected errors
+   * @returns Acknowledgement
+   */
+  private liveErrorResponse(error: unknown, message: string): Parameters<SocketAck>[0] {
+    if (error instanceof LiveTranscriptionError) {
+      return { success: false, error: { code: error.code, message: error.message } };
+    }
+    console.error(`${message}:`, error);
+    return { success: false, error: { code: 'SERVER_ERROR', message } };
+  }
+
+  /**
+   * Get the room of a user
+   * @param userId User ID
+   * @returns Room name
+   */
+  private userRoom(userId: string): string {
+    return `user:${userId}`;
+  }
+}
@@ -0,0 +1,404 @@
+import { SpeakerProfileRepository } from '../repositories/speaker-profile.repository';
+import { TranscriptionRepository } from '../repositories/transcription.repository';
+import { AudioRecordingRepository } from '../repositories/audio-recording.repository';
+import { SessionRepository } from '../repositories/session.repository';
+import { AudioTrack } from '../models/audio-recording.model';
+import { SESSION_TRANSCRIPT_SERVICE, SpeakerIdentification, Transcription } from '../models/transcription.model';
+import { SpeakerMappingProposal, SpeakerProfile, SpeakerProfileFeatures } from '../models/speaker-profile.model';
+
+/**
+ * Error thrown when speaker mappings cannot be proposed
+ */
+export class SpeakerProfileError extends Error {
+  public readonly code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.name = 'SpeakerProfileError';
+    this.code = code;
+  }
+}
+
+/**
+ * Labels that say nothing about who is speaking, such as "Speaker 1" or "SPEAKER_00"
+ */
+const GENERIC_LABEL = /^(?:speaker|spk|unknown)?[\s_-]*\d*$/i;
+
+/**
+ * Ways speakers introduce themselves; the name is the capitalized word that follows
+ */
+const SELF_REFERENCE = /\b(?:I'm|I am|[Mm]y name is|[Cc]all me|[Tt]his is)\s+([A-Z][\w'-]+)/g;
+
+/**
+ * Most values kept of each list of features
+ */
+const MAX_FEATURE_VALUES = 20;
+
+/**
+ * Weight of each matching feature as evidence that a speaker is the speaker of a profile
+ */
+const EVIDENCE = {
+  trackName: 0.9,
+  selfReference: 0.8,
+  label: 0.7,
+  turnLength: 0.3
+};
+
+/**
+ * Least ratio of the shorter to the longer average turn length for turn lengths to count as evidence
+ */
+const MIN_TURN_LENGTH_SIMILARITY = 0.75;
+
+/**
+ * Least confidence a mapping needs to be proposed; turn length alone never suffices
+ */
+const MIN_PROPOSAL_CONFIDENCE = 0.35;
+
+/**
+ * Speaker name of a track: Craig names tracks "<number>-<username>.<extension>"
+ */
+const trackNameOf = (name: string): string => name.replace(/\.[^.]+$/, '').replace(/^\d+-/, '');
+
+/**
+ * First value of a list that is also in another list, ignoring case
+ */
+const shared = (values: string[], others: string[]): string | undefined =>
+  values.find((value) => others.some((other) => other.toLowerCase() === value.toLowerCase()));
+
+/**
+ * Values of both lists without duplicates, ignoring case, keeping the most recent
+ */
+const union = (values: string[], others: string[]): string[] => {
+  const merged = new Map<string, string>();
+  [...values, ...others].forEach((value) => {
+    merged.delete(value.toLowerCase());
+    merged.set(value.toLowerCase(), value);
+  });
+  return Array.from(merged.values()).slice(-MAX_FEATURE_VALUES);
+};
+
+/**
+ * Learns campaign-level speaker profiles from the speakers a game master assigns to characters and players, and
+ * proposes the character and player of the speakers of new transcriptions from them
+ */
+export class SpeakerProfileService {
+  private speakerProfileRepository: SpeakerProfileRepository;
+  private transcriptionRepository: TranscriptionRepository;
+  private audioRecordingRepository: AudioRecordingRepository;
+  private sessionRepository: SessionRepository;
+
+  constructor(
+    speakerProfileRepository: SpeakerProfileRepository,
+    transcriptionRepository: TranscriptionRepository,
+    audioRecordingRepository: AudioRecordingRepository,
+    sessionRepository: SessionRepository
+  ) {
+    this.speakerProfileRepository = speakerProfileRepository;
+    this.transcriptionRepository = transcriptionRepository;
+    this.audioRecordingRepository = audioRecordingRepository;
+    this.sessionRepository = sessionRepository;
+  }
+
+  /**
+   * Get the speaker profiles of a campaign
+   * @param campaignId Campaign ID
+   * @returns Speaker profiles
+   */
+  public async getByCampaign(campaignId: string): Promise<SpeakerProfile[]> {
+    return this.speakerProfileRepository.findByCampaign(campaignId);
+  }
+
+  /**
+   * Delete a speaker profile
+   * @param profileId Profile ID
+   * @returns True if deleted
+   */
+  public async delete(profileId: string): Promise<boolean> {
+    return this.speakerProfileRepository.delete(profileId);
+  }
+
+  /**
+   * Learn from a speaker that has been assigned a character or player. The features of the speaker are added to the
+   * profile of that character, or of that player for speakers without a character, in the campaign of the session.
+   * A speaker is learned from once.
+   * @param speakerId Speaker ID
+   * @returns Profile the speaker was learned into, or null if the speaker is not assigned or not in a campaign
+   */
+  public async learnFromSpeaker(speakerId: string): Promise<SpeakerProfile | null> {
+    const transcriptions = await this.transcriptionsOfSpeaker(speakerId);
+    if (transcriptions.length === 0) {
+      return null;
+    }
+
+    const sessionId = transcriptions[0].session_id;
+    const speaker = (await this.transcriptionRepository.getSpeakersForSession(sessionId)).find(
+      (candidate) => candidate.speaker_id === speakerId
+    );
+    if (!speaker || (!speaker.character_id && !speaker.user_id)) {
+      return null;
+    }
+
+    const campaignId = await this.campaignOfSession(sessionId);
+    if (!campaignId) {
+      return null;
+    }
+
+    const profile = (await this.speakerProfileRepository.findByCampaign(campaignId)).find((candidate) =>
+      speaker.character_id
+        ? candidate.character_id === speaker.character_id
+        : !candidate.character_id && candidate.user_id === speaker.user_id
+    );
+    if (profile?.speaker_ids.includes(speakerId)) {
+      return profile;
+    }
+
+    const features = this.extractFeatures(speaker, transcriptions, await this.tracksOf(transcriptions));
+    if (!profile) {
+      return this.speakerProfileRepository.create({
+        campaign_id: campaignId,
+        name: speaker.character_name || speaker.speaker_name,
+        character_id: speaker.character_id,
+        user_id: speaker.user_id,
+        features,
+        speaker_ids: [speakerId]
+      });
+    }
+
+    return this.speakerProfileRepository.update(profile.profile_id, {
+      user_id: speaker.user_id || profile.user_id,
+      features: this.mergeFeatures(profile.features, features),
+      speaker_ids: [...profile.speaker_ids, speakerId]
+    });
+  }
+
+  /**
+   * Propose the character and player of each speaker of a transcription that has not been assigned one, from the
+   * speaker profiles of the campaign. Every profile is proposed for at most one speaker, and profiles of characters
+   * and players already assigned in the transcription are left out.
+   * @param transcriptionId Transcription ID
+   * @returns Proposals, most confident first
+   * @throws SpeakerProfileError if the transcription does not exist
+   */
+  public async proposeMappings(transcriptionId: string): Promise<SpeakerMappingProposal[]> {
+    const transcription = await this.transcriptionRepository.findById(transcriptionId);
+    if (!transcription) {
+      throw new SpeakerProfileError('TRANSCRIPTION_NOT_FOUND', 'Transcription not found');
+    }
+
+    const campaignId = await this.campaignOfSession(transcription.session_id);
+    if (!campaignId) {
+      return [];
+    }
+
+    const speakerIds = new Set(transcription.segments.map((segment) => segment.speaker_id).filter(Boolean));
+    const speakers = (await this.transcriptionRepository.getSpeakersForSession(transcription.session_id)).filter(
+      (speaker) => speakerIds.has(speaker.speaker_id)
+    );
+    const assigned = speakers.filter((speaker) => speaker.character_id || speaker.user_id);
+    const profiles = (await this.speakerProfileRepository.findByCampaign(campaignId)).filter(
+      (profile) =>
+        !assigned.some((speaker) =>
+          profile.character_id ? speaker.character_id === profile.character_id : speaker.user_id === profile.user_id
+        )
+    );
+    if (profiles.length === 0) {
+      return [];
+    }
+
+    const tracks = await this.tracksOf([transcription]);
+    const candidates: SpeakerMappingProposal[] = [];
+    for (const speaker of speakers.filter((candidate) => !assigned.includes(candidate))) {
+      const features = this.extractFeatures(speaker, [transcription], tracks);
+      for (const profile of profiles) {
+        const { confidence, reasons } = this.score(features, profile);
+        if (confidence >= MIN_PROPOSAL_CONFIDENCE) {
+          candidates.push({
+            speaker_id: speaker.speaker_id,
+            speaker_name: speaker.speaker_name,
+            profile_id: profile.profile_id,
+            character_id: profile.character_id,
+            character_name: profile.character_name,
+            user_id: profile.user_id,
+            confidence_score: Math.round(confidence * 100) / 100,
+            reasons
+          });
+        }
+      }
+    }
+
+    // Match the most confident pairs first
+    const proposals: SpeakerMappingProposal[] = [];
+    candidates.sort((a, b) => b.confidence_score - a.confidence_score);
+    for (const candidate of candidates) {
+      if (
+        !proposals.some(
+          (proposal) => proposal.speaker_id === candidate.speaker_id || proposal.profile_id === candidate.profile_id
+        )
+      ) {
+        proposals.push(candidate);
+      }
+    }
+    return proposals;
+  }
+
+  /**
+   * Features of a speaker in some transcriptions. A turn is a run of consecutive segments of the speaker.
+   * @param speaker Speaker
+   * @param transcriptions Transcriptions the speaker is heard in
+   * @param tracks Tracks of the recordings of the transcriptions
+   * @returns Features
+   */
+  private extractFeatures(
+    speaker: SpeakerIdentification,
+    transcriptions: Transcription[],
+    tracks: AudioTrack[]
+  ): SpeakerProfileFeatures {
+    const selfReferences: string[] = [];
+    let turnCount = 0;
+    let turnSeconds = 0;
+    let turnWords = 0;
+
+    for (const transcription of transcriptions) {
+      let turnStart: number | undefined;
+      let turnEnd = 0;
+      const segments = [...transcription.segments].sort((a, b) => a.start_time - b.start_time);
+      for (const segment of [...segments, undefined]) {
+        if (segment?.speaker_id === speaker.speaker_id) {
+          turnStart = turnStart ?? segment.start_time;
+          turnEnd = segment.end_time;
+          turnWords += segment.text.split(/\s+/).filter(Boolean).length;
+          for (const match of segment.text.matchAll(SELF_REFERENCE)) {
+            selfReferences.push(match[1]);
+          }
+        } else if (turnStart !== undefined) {
+          turnCount += 1;
+          turnSeconds += turnEnd - turnStart;
+          turnStart = undefined;
+        }
+      }
+    }
+
+    return {
+      self_references: union([], selfReferences),
+      track_names: union(
+        [],
+        tracks.filter((track) => track.speaker_id === speaker.speaker_id).map((track) => trackNameOf(track.name))
+      ),
+      labels: GENERIC_LABEL.test(speaker.speaker_name.trim()) ? [] : [speaker.speaker_name.trim()],
+      average_turn_seconds: turnCount > 0 ? turnSeconds / turnCount : 0,
+      average_turn_words: turnCount > 0 ? turnWords / turnCount : 0,
+      turn_count: turnCount
+    };
+  }
+
+  /**
+   * Add newly learned features to the features of a profile
+   * @param features Features of the profile
+   * @param learned Learned features
+   * @returns Merged features
+   */
+  private mergeFeatures(features: SpeakerProfileFeatures, learned: SpeakerProfileFeatures): SpeakerProfileFeatures {
+    const turnCount = features.turn_count + learned.turn_count;
+    const average = (a: number, b: number) =>
+      turnCount > 0 ? (a * features.turn_count + b * learned.turn_count) / turnCount : 0;
+
+    return {
+      self_references: union(features.self_references, learned.self_references),
+      track_names: union(features.track_names, learned.track_names),
+      labels: union(features.labels, learned.labels),
+      average_turn_seconds: average(features.average_turn_seconds, learned.average_turn_seconds),
+      average_turn_words: average(features.average_turn_words, learned.average_turn_words),
+      turn_count: turnCount
+    };
+  }
+
+  /**
+   * Confidence that a speaker with some features is the speaker of a profile. Every matching feature is independent
+   * evidence, so the confidence is the chance that not all of them are wrong.
+   * @param features Features of the speaker
+   * @param profile Speaker profile
+   * @returns Confidence from 0 to 1 and the matching features
+   */
+  private score(features: SpeakerProfileFeatures, profile: SpeakerProfile): { confidence: number; reasons: string[] } {
+    const evidence: number[] = [];
+    const reasons: string[] = [];
+    const known = profile.features;
+
+    const trackName = shared(features.track_names, known.track_names);
+    if (trackName) {
+      evidence.push(EVIDENCE.trackName);
+      reasons.push(`Heard on track "${trackName}"`);
+    }
+
+    const names = [...known.self_references, profile.name, profile.character_name].filter(
+      (name): name is string => !!name
+    );
+    const selfReference = shared(features.self_references, names);
+    if (selfReference) {
+      evidence.push(EVIDENCE.selfReference);
+      reasons.push(`Calls themselves "${selfReference}"`);
+    }
+
+    const label = shared(features.labels, known.labels);
+    if (label) {
+      evidence.push(EVIDENCE.label);
+      reasons.push(`Labelled "${label}" before`);
+    }
+
+    if (features.average_turn_seconds > 0 && known.average_turn_seconds > 0) {
+      const similarity =
+        Math.min(features.average_turn_seconds, known.average_turn_seconds) /
+        Math.max(features.average_turn_seconds, known.average_turn_seconds);
+      if (similarity >= MIN_TURN_LENGTH_SIMILARITY) {
+        evidence.push(EVIDENCE.turnLength * similarity);
+        reasons.push(`Similar turn length (${features.average_turn_seconds.toFixed(1)} s)`);
+      }
+    }
+
+    return {
+      confidence: 1 - evidence.reduce((doubt, weight) => doubt * (1 - weight), 1),
+      reasons
+    };
+  }
+
+  /**
+   * Transcriptions of recordings a speaker is heard in, leaving out session transcripts that repeat them
+   * @param speakerId Speaker ID
+   * @returns Transcriptions
+   */
+  private async transcriptionsOfSpeaker(speakerId: string): Promise<Transcription[]> {
+    const transcriptions: Transcription[] = [];
+    for (const transcriptionId of await this.transcriptionRepository.findTranscriptionIdsBySpeaker(speakerId)) {
+      const transcription = await this.transcriptionRepository.findById(transcriptionId);
+      if (transcription && transcription.service_used !== SESSION_TRANSCRIPT_SERVICE) {
+        transcriptions.push(transcription);
+      }
+    }
+    return transcriptions;
+  }
+
+  /**
+   * Tracks of the recordings of some transcriptions
+   * @param transcriptions Transcriptions
+   * @returns Tracks
+   */
+  private async tracksOf(transcriptions: Transcription[]): Promise<AudioTrack[]> {
+    const tracks: AudioTrack[] = [];
+    for (const transcription of transcriptions) {
+      if (transcription.recording_id) {
+        tracks.push(...(await this.audioRecordingRepository.findTracks(transcription.recording_id)));
+      }
+    }
+    return tracks;
+  }
+
+  /**
+   * Campaign a session is part of
+   * @param sessionId Session ID
+   * @returns Campaign ID, or undefined if the session is not part of a campaign
+   */
+  private async campaignOfSession(sessionId: string): Promise<string | undefined> {
+    const session = await this.sessionRepository.findById(sessionId);
+    return session?.campaign_id || undefined;
+  }
+}
@@ -0,0 +1,393 @@
+import { v4 as uuidv4 } from 'uuid';
+import { TranscriptionRepository } from '../repositories/transcription.repository';
+import { TranscriptRevisionRepository } from '../repositories/transcript-revision.repository';
+import { TranscriptionQualityService } from './transcription-quality.service';
+import { SegmentCategory, Transcription, TranscriptionSegment } from '../models/transcription.model';
+import { SegmentOperation, TranscriptRevision } from '../models/transcript-revision.model';
+import { alignWords, rescaleWords, tokenize } from '../utils/segment-words';
+import { detectLanguage } from '../utils/language-detection';
+
+/**
+ * Error thrown when a segment operation or rollback cannot be applied
+ */
+export class TranscriptEditError extends Error {
+  public readonly code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.name = 'TranscriptEditError';
+    this.code = code;
+  }
+}
+
+/**
+ * Transcript after an operation, with the revision recording it
+ */
+export interface TranscriptEditResult {
+  transcription: Transcription;
+  revision: TranscriptRevision;
+}
+
+/**
+ * Edits transcripts one segment at a time, so that people editing different segments at once do not overwrite each
+ * other, and records every operation in a revision log from which it can be rolled back
+ */
+export class TranscriptEditService {
+  private transcriptionRepository: TranscriptionRepository;
+  private transcriptRevisionRepository: TranscriptRevisionRepository;
+  private transcriptionQualityService?: TranscriptionQualityService;
+
+  /**
+   * @param transcriptionRepository Transcription repository
+   * @param transcriptRevisionRepository Transcript revision repository
+   * @param transcriptionQualityService Optional transcription quality service, to score transcripts as they are corrected
+   */
+  constructor(
+    transcriptionRepository: TranscriptionRepository,
+    transcriptRevisionRepository: TranscriptRevisionRepository,
+    transcriptionQualityService?: TranscriptionQualityService
+  ) {
+    this.transcriptionRepository = transcriptionRepository;
+    this.transcriptRevisionRepository = transcriptRevisionRepository;
+    this.transcriptionQualityService = transcriptionQualityService;
+  }
+
+  /**
+   * Replace the text of a segment, keeping the timing of the words left unchanged
+   * @param transcriptionId Transcription ID
+   * @param segmentId Segment ID
+   * @param text New text
+   * @param userId ID of the user making the edit
+   * @returns Updated transcription and revision
+   */
+  public async editText(transcriptionId: string, segmentId: string, text: string, userId?: string): Promise<TranscriptEditResult> {
+    const { segment } = await this.findSegment(transcriptionId, segmentId);
+    const edited: TranscriptionSegment = {
+      ...this.withText(segment, text.trim()),
+      words: alignWords(segment.words || [], text, segment.start_time, segment.end_time)
+    };
+    return this.apply(transcriptionId, SegmentOperation.EDIT_TEXT, [segment], [edited], userId);
+  }
+
+  /**
+   * Split a segment in two before one of its words
+   * @param transcriptionId Transcription ID
+   * @param segmentId Segment ID
+   * @param wordIndex Index of the first word of the second segment
+   * @param userId ID of the user making the edit
+   * @returns Updated transcription and revision
+   */
+  public async split(transcriptionId: string, segmentId: string, wordIndex: number, userId?: string): Promise<TranscriptEditResult> {
+    const { segment } = await this.findSegment(transcriptionId, segmentId);
+    const tokens = tokenize(segment.text);
+    if (!Number.isInteger(wordIndex) || wordIndex < 1 || wordIndex >= tokens.length) {
+      throw new TranscriptEditError('INVALID_SPLIT', `A segment of ${tokens.length} words cannot be split before word ${wordIndex}`);
+    }
+
+    // Split at the start of the word when the words are timed, and in proportion to the words otherwise
+    const words = segment.words || [];
+    const timed = words.length === tokens.length;
+    const splitTime = timed
+      ? words[wordIndex].start_time
+      : segment.start_time + ((segment.end_time - segment.start_time) * wordIndex) / tokens.length;
+    const isFirst = (index: number) => (timed ? index < wordIndex : words[index].start_time < splitTime);
+
+    const first: TranscriptionSegment = {
+      ...this.withText(segment, tokens.slice(0, wordIndex).join(' ')),
+      end_time: splitTime,
+      words: words.filter((_, index) => isFirst(index))
+    };
+    const second: TranscriptionSegment = {
+      ...this.withText(segment, tokens.slice(wordIndex).join(' ')),
+      segment_id: uuidv4(),
+      start_time: splitTime,
+      words: words.filter((_, index) => !isFirst(index))
+    };
+    return this.apply(transcriptionId, SegmentOperation.SPLIT, [segment], [first, second], userId);
+  }
+
+  /**
+   * Merge a segment with the segment that follows it. The merged segment keeps the speaker of the first.
+   * @param transcriptionId Transcription ID
+   * @param segmentId ID of the first segment
+   * @param userId ID of the user making the edit
+   * @returns Updated transcription and revision
+   */
+  public async mergeWithNext(transcriptionId: string, segmentId: string, userId?: string): Promise<TranscriptEditResult> {
+    const { transcription, segment, index } = await this.findSegment(transcriptionId, segmentId);
+    const next = transcription.segments[index + 1];
+    if (!next) {
+      throw new TranscriptEditError('NO_NEXT_SEGMENT', 'The last segment has no segment to merge with');
+    }
+
+    // Weigh the confidence of each segment by its duration
+    const durations = [segment, next].map((part) => Math.max(part.end_time - part.start_time, 0));
+    const totalDuration = durations[0] + durations[1];
+    const merged: TranscriptionSegment = {
+      ...this.withText(segment, `${segment.text} ${next.text}`.trim()),
+      end_time: Math.max(segment.end_time, next.end_time),
+      confidence_score: totalDuration > 0
+        ? (segment.confidence_score * durations[0] + next.confidence_score * durations[1]) / totalDuration
+        : (segment.confidence_score + next.confidence_score) / 2,
+      words: [...(segment.words || []), ...(next.words || [])]
+    };
+    return this.apply(transcriptionId, SegmentOperation.MERGE, [segment, next], [merged], userId);
+  }
+
+  /**
+   * Attribute a segment to another speaker
+   * @param transcriptionId Transcription ID
+   * @param segmentId Segment ID
+   * @param speakerId Speaker ID
+   * @param userId ID of the user making the edit
+   * @returns Updated transcription and revision
+   */
+  public async reassignSpeaker(
+    transcriptionId: string,
+    segmentId: string,
+    speakerId: string,
+    userId?: string
+  ): Promise<TranscriptEditResult> {
+    const { segment } = await this.findSegment(transcriptionId, segmentId);
+    if (!(await this.transcriptionRepository.speakerExists(speakerId))) {
+      throw new TranscriptEditError('SPEAKER_NOT_FOUND', 'Speaker not found');
+    }
+
+    const reassigned: TranscriptionSegment = { ...segment, speaker_id: speakerId, speaker_name: undefined };
+    return this.apply(transcriptionId, SegmentOperation.REASSIGN_SPEAKER, [segment], [reassigned], userId);
+  }
+
+  /**
+   * Move the start and end of a segment, moving and stretching its word timings with it
+   * @param transcriptionId Transcription ID
+   * @param segmentId Segment ID
+   * @param startTime New start in seconds
+   * @param endTime New end in seconds
+   * @param userId ID of the user making the edit
+   * @returns Updated transcription and revision
+   */
+  public async retime(
+    transcriptionId: string,
+    segmentId: string,
+    startTime: number,
+    endTime: number,
+    userId?: string
+  ): Promise<TranscriptEditResult> {
+    const { segment } = await this.findSegment(transcriptionId, segmentId);
+    if (startTime < 0 || endTime <= startTime) {
+      throw new TranscriptEditError('INVALID_TIMING', 'A segment must end after it starts');
+    }
+
+    const timing = { start_time: startTime, end_time: endTime };
+    const retimed: TranscriptionSegment = {
+      ...segment,
+      ...timing,
+      words: rescaleWords(segment.words || [], segment, timing)
+    };
+    return this.apply(transcriptionId, SegmentOperation.RETIME, [segment], [retimed], userId);
+  }
+
+  /**
+   * Set the category of a segment by hand. Classifiers leave the category alone from then on.
+   * @param transcriptionId Transcription ID
+   * @param segmentId Segment ID
+   * @param category Category
+   * @param userId ID of the user making the edit
+   * @returns Updated transcription and revision
+   */
+  public async setCategory(
+    transcriptionId: string,
+    segmentId: string,
+    category: SegmentCategory,
+    userId?: string
+  ): Promise<TranscriptEditResult> {
+    const { segment } = await this.findSegment(transcriptionId, segmentId);
+    const categorized: TranscriptionSegment = {
+      ...segment,
+      category,
+      category_confidence: 1,
+      category_set_by: userId
+    };
+    return this.apply(transcriptionId, SegmentOperation.SET_CATEGORY, [segment], [categorized], userId);
+  }
+
+  /**
+   * Get the revision log of a transcription, newest first
+   * @param transcriptionId Transcription ID
+   * @param page Page number
+   * @param limit Items per page
+   * @returns Revisions and total count
+   */
+  public async getRevisions(
+    transcriptionId: string,
+    page = 1,
+    limit = 20
+  ): Promise<{ revisions: TranscriptRevision[]; total: number }> {
+    return this.transcriptRevisionRepository.findByTranscription(transcriptionId, page, limit);
+  }
+
+  /**
+   * Roll back a revision, putting its segments back as they were before it. The segments it produced must not have
+   * changed since; later revisions touching them are rolled back first. The rollback is itself recorded as a revision.
+   * @param transcriptionId Transcription ID
+   * @param revisionNumber Revision to roll back
+   * @param userId ID of the user rolling back
+   * @returns Updated transcription and the revision recording the rollback
+   */
+  public async rollback(transcriptionId: string, revisionNumber: number, userId?: string): Promise<TranscriptEditResult> {
+    const revision = await this.transcriptRevisionRepository.findByNumber(transcriptionId, revisionNumber);
+    if (!revision) {
+      throw new TranscriptEditError('REVISION_NOT_FOUND', 'Revision not found');
+    }
+    if (revision.rolled_back_by !== undefined) {
+      throw new TranscriptEditError(
+        'REVISION_ALREADY_ROLLED_BACK',
+        `Revision ${revisionNumber} was rolled back by revision ${revision.rolled_back_by}`
+      );
+    }
+
+    const transcription = await this.getTranscription(transcriptionId);
+    const current = revision.after.map((produced) =>
+      transcription.segments.find((segment) => segment.segment_id === produced.segment_id)
+    );
+    const unchanged = current.every(
+      (segment, index) => segment && this.sameContent(segment, revision.after[index])
+    );
+    if (!unchanged) {
+      throw new TranscriptEditError(
+        'ROLLBACK_CONFLICT',
+        'The segments of this revision have changed since; roll back the later revisions first'
+      );
+    }
+
+    return this.apply(
+      transcriptionId,
+      SegmentOperation.ROLLBACK,
+      current as TranscriptionSegment[],
+      revision.before,
+      userId,
+      revisionNumber
+    );
+  }
+
+  /**
+   * Replace segments and record the revision
+   * @param transcriptionId Transcription ID
+   * @param operation Operation replacing the segments
+   * @param before Segments replaced
+   * @param after Segments replacing them
+   * @param userId ID of the user making the change
+   * @param rollbackOf Revision undone by a rollback, marked as rolled back with the same transaction
+   * @returns Updated transcription and revision
+   * @throws TranscriptEditError if one of the segments has changed since it was read
+   */
+  private async apply(
+    transcriptionId: string,
+    operation: SegmentOperation,
+    before: TranscriptionSegment[],
+    after: TranscriptionSegment[],
+    userId?: string,
+    rollbackOf?: number
+  ): Promise<TranscriptEditResult> {
+    // The segments must be as they were read, or one edit would silently undo another
+    let revision: TranscriptRevision | undefined;
+    const transcription = await this.transcriptionRepository.replaceSegments(
+      transcriptionId,
+      before.map((segment) => segment.segment_id),
+      after,
+      {
+        expected: before,
+        onReplaced: async (tx, saved) => {
+          revision = await this.transcriptRevisionRepository.create(
+            transcriptionId,
+            { operation, before, after: saved, created_by: userId, rollback_of: rollbackOf },
+            tx
+          );
+          if (rollbackOf !== undefined) {
+            await this.transcriptRevisionRepository.markRolledBack(
+              transcriptionId,
+              rollbackOf,
+              revision.revision_number,
+              tx
+            );
+          }
+        }
+      }
+    );
+    if (!transcription || !revision) {
+      throw new TranscriptEditError(
+        'SEGMENT_CONFLICT',
+        'The segment was changed by someone else in the meantime; reload the transcript and try again'
+      );
+    }
+
+    // A failed score leaves the previous one until the next edit rather than failing the edit
+    try {
+      await this.transcriptionQualityService?.score(transcriptionId);
+    } catch (error) {
+      console.error('Error scoring transcription quality:', error);
+    }
+    return { transcription, revision };
+  }
+
+  /**
+   * Find a segment of a transcription
+   * @param transcriptionId Transcription ID
+   * @param segmentId Segment ID
+   * @returns Transcription, segment and its index in time order
+   */
+  private async findSegment(
+    transcriptionId: string,
+    segmentId: string
+  ): Promise<{ transcription: Transcription; segment: TranscriptionSegment; index: number }> {
+    const transcription = await this.getTranscription(transcriptionId);
+    const index = transcription.segments.findIndex((segment) => segment.segment_id === segmentId);
+    if (index < 0) {
+      throw new TranscriptEditError('SEGMENT_NOT_FOUND', 'Segment not found');
+    }
+    return { transcription, segment: transcription.segments[index], index };
+  }
+
+  /**
+   * Get a transcription
+   * @param transcriptionId Transcription ID
+   * @returns Transcription
+   */
+  private async getTranscription(transcriptionId: string): Promise<Transcription> {
+    const transcription = await this.transcriptionRepository.findById(transcriptionId);
+    if (!transcription) {
+      throw new TranscriptEditError('TRANSCRIPTION_NOT_FOUND', 'Transcription not found');
+    }
+    return transcription;
+  }
+
+  /**
+   * A segment with new text, in the language detected from the text; its translation no longer matches and is dropped
+   * @param segment Segment
+   * @param text New text
+   * @returns Segment with the text
+   */
+  private withText(segment: TranscriptionSegment, text: string): TranscriptionSegment {
+    return {
+      ...segment,
+      text,
+      language_code: detectLanguage(text) || segment.language_code,
+      translated_text: undefined,
+      translation_language_code: undefined
+    };
+  }
+
+  /**
+   * Whether two versions of a segment have the same text, timing, speaker and category set by hand. Categories set by
+   * a classifier may change when the transcript is classified again and do not count.
+   */
+  private sameContent(a: TranscriptionSegment, b: TranscriptionSegment): boolean {
+    return (
+      a.text === b.text &&
+      a.start_time === b.start_time &&
+      a.end_time === b.end_time &&
+      (a.speaker_id || null) === (b.speaker_id || null) &&
+      (a.category_set_by ? a.category : null) === (b.category_set_by ? b.category : null)
+    );
+  }
+}
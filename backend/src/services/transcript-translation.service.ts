@@ -0,0 +1,224 @@
+import { TranscriptionRepository } from '../repositories/transcription.repository';
+import { LLMService } from './llm.service';
+import {
+  TranscriptionSegment,
+  TranscriptTranslationParams,
+  TranscriptTranslationSummary
+} from '../models/transcription.model';
+import { LLMMessage, LLMMessageRole } from '../models/llm.model';
+import { ProgressCallback } from '../models/job.model';
+import { REDACTED_TEXT } from '../models/redaction.model';
+import { LANGUAGE_NAMES } from '../utils/language-detection';
+
+/**
+ * Transcript translation options
+ */
+export interface TranscriptTranslationOptions {
+  /**
+   * Segments sent to the language model in one request
+   */
+  batchSize: number;
+  /**
+   * Language model to translate with when a translation does not name one; the default model when empty
+   */
+  model: string;
+}
+
+const DEFAULT_OPTIONS: TranscriptTranslationOptions = {
+  batchSize: 40,
+  model: ''
+};
+
+/**
+ * Error thrown when a transcript cannot be translated
+ */
+export class TranscriptTranslationError extends Error {
+  public readonly code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.name = 'TranscriptTranslationError';
+    this.code = code;
+  }
+}
+
+/**
+ * Translates the segments of transcripts with the language model, storing each translation next to the original
+ * text. Segments already spoken in the target language are left as they are, so a session that switches between
+ * two languages can be read in either.
+ */
+export class TranscriptTranslationService {
+  private transcriptionRepository: TranscriptionRepository;
+  private llmService: LLMService;
+  private options: TranscriptTranslationOptions;
+
+  /**
+   * @param transcriptionRepository Transcription repository
+   * @param llmService LLM service
+   * @param options Translation options
+   */
+  constructor(
+    transcriptionRepository: TranscriptionRepository,
+    llmService: LLMService,
+    options: Partial<TranscriptTranslationOptions> = {}
+  ) {
+    this.transcriptionRepository = transcriptionRepository;
+    this.llmService = llmService;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Translate the segments of a transcription into a language. Translations are saved batch by batch, so a
+   * translation that stops halfway keeps what it translated and picks up from there when run again.
+   * @param transcriptionId Transcription ID
+   * @param params Translation parameters
+   * @param onProgress Called as batches are translated
+   * @returns Translation summary, or null if the transcription does not exist
+   * @throws TranscriptTranslationError if the language model cannot be reached
+   */
+  public async translate(
+    transcriptionId: string,
+    params: TranscriptTranslationParams,
+    onProgress?: ProgressCallback
+  ): Promise<TranscriptTranslationSummary | null> {
+    const transcription = await this.transcriptionRepository.findById(transcriptionId);
+    if (!transcription) {
+      return null;
+    }
+
+    const targetLanguage = params.target_language.toLowerCase();
+    const summary: TranscriptTranslationSummary = {
+      target_language: targetLanguage,
+      translated_segments: 0,
+      skipped_segments: 0,
+      failed_segments: 0
+    };
+
+    // Segments spoken in the target language need no translation, and one made before the language was known is stale
+    const stale = transcription.segments.filter(
+      (segment) => segment.language_code === targetLanguage && segment.translated_text !== undefined
+    );
+    if (stale.length > 0) {
+      await this.transcriptionRepository.updateSegmentTranslations(
+        transcriptionId,
+        stale.map((segment) => ({ segment_id: segment.segment_id, text: segment.text }))
+      );
+    }
+
+    const pending = transcription.segments.filter(
+      (segment) =>
+        segment.language_code !== targetLanguage &&
+        segment.text.trim() !== '' &&
+        (params.retranslate || !segment.translated_text || segment.translation_language_code !== targetLanguage)
+    );
+    summary.skipped_segments = transcription.segments.length - pending.length;
+
+    const batchSize = Math.max(1, this.options.batchSize);
+    for (let start = 0; start < pending.length; start += batchSize) {
+      const batch = pending.slice(start, start + batchSize);
+      await onProgress?.(
+        Math.round((start / pending.length) * 100),
+        `Translating segments ${start + 1}-${start + batch.length} of ${pending.length}`
+      );
+
+      const translations = await this.translateBatch(batch, targetLanguage, params.model);
+      const translated = batch
+        .filter((segment) => translations.has(segment.segment_id))
+        .map((segment) => ({
+          segment_id: segment.segment_id,
+          text: segment.text,
+          translated_text: translations.get(segment.segment_id),
+          translation_language_code: targetLanguage
+        }));
+      // Segments edited or redacted while the batch was translated keep no translation of their old text
+      const saved = await this.transcriptionRepository.updateSegmentTranslations(transcriptionId, translated);
+
+      summary.translated_segments += saved.length;
+      summary.failed_segments += batch.length - saved.length;
+    }
+
+    await onProgress?.(100, 'Translation complete');
+    return summary;
+  }
+
+  /**
+   * Translate a batch of segments with the language model
+   * @param segments Segments
+   * @param targetLanguage Language to translate into, as an ISO 639-1 code
+   * @param model Language model, the configured model when omitted
+   * @returns Translated text by segment ID; segments the model returned nothing for are missing
+   * @throws TranscriptTranslationError if the language model cannot be reached
+   */
+  private async translateBatch(
+    segments: TranscriptionSegment[],
+    targetLanguage: string,
+    model?: string
+  ): Promise<Map<string, string>> {
+    const languageName = LANGUAGE_NAMES[targetLanguage] || targetLanguage;
+    const messages: LLMMessage[] = [
+      {
+        role: LLMMessageRole.SYSTEM,
+        content: `You translate transcripts of tabletop role-playing game sessions into ${languageName}.
+The players switch languages, so lines may be in different languages; lines already in ${languageName} are returned as they are.
+Keep the names of characters, places and things as they are, and keep ${REDACTED_TEXT} wherever it appears.
+Keep the tone of spoken language and translate each line on its own, without merging or splitting lines.
+Respond in JSON format with an array of the translated lines: [{"id": "line id", "text": "translated text"}]`
+      },
+      {
+        role: LLMMessageRole.USER,
+        content: JSON.stringify(segments.map((segment) => ({ id: segment.segment_id, text: segment.text })))
+      }
+    ];
+
+    let content: string;
+    try {
+      const response = await this.llmService.chat(messages, {
+        model: model || this.options.model || undefined,
+        temperature: 0.2
+      });
+      content = response.message.content;
+    } catch (error) {
+      throw new TranscriptTranslationError(
+        'LLM_UNAVAILABLE',
+        `The language model could not translate the transcript: ${error instanceof Error ? error.message : error}`
+      );
+    }
+
+    return this.parseTranslations(content, new Set(segments.map((segment) => segment.segment_id)));
+  }
+
+  /**
+   * Read the translated lines out of a language model response
+   * @param response Response content
+   * @param segmentIds IDs of the segments asked for; lines with other IDs are ignored
+   * @returns Translated text by segment ID, empty if the response holds no JSON
+   */
+  private parseTranslations(response: string, segmentIds: Set<string>): Map<string, string> {
+    const translations = new Map<string, string>();
+
+    // Extract JSON from response
+    const jsonMatch = response.match(/```json\n([\s\S]*?)\n```/) ||
+                      response.match(/```\n([\s\S]*?)\n```/) ||
+                      response.match(/(\[[\s\S]*\])/);
+    let lines: unknown;
+    try {
+      lines = JSON.parse((jsonMatch ? jsonMatch[1] : response).trim());
+    } catch (error) {
+      console.error('Error parsing transcript translation:', error);
+      return translations;
+    }
+
+    for (const line of Array.isArray(lines) ? lines : []) {
+      if (
+        line &&
+        typeof line.id === 'string' &&
+        typeof line.text === 'string' &&
+        segmentIds.has(line.id) &&
+        line.text.trim() !== ''
+      ) {
+        translations.set(line.id, line.text.trim());
+      }
+    }
+    return translations;
+  }
+}
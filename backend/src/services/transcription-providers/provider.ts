@@ -0,0 +1,78 @@
+import { TranscriptionSegment } from '../../models/transcription.model';
+import { TranscriptionService as TranscriptionEngine } from '../../models/audio-recording.model';
+import { ProgressCallback } from '../../models/job.model';
+
+/**
+ * What a transcription provider can do
+ */
+export interface TranscriptionProviderCapabilities {
+  /**
+   * Segments are attributed to speakers
+   */
+  diarization: boolean;
+  /**
+   * Segments carry the timing of every word
+   */
+  wordTimestamps: boolean;
+  /**
+   * ISO 639-1 codes of the supported languages; empty when any language is supported
+   */
+  languages: string[];
+}
+
+/**
+ * Audio to transcribe
+ */
+export interface TranscriptionRequest {
+  filePath: string;
+  /**
+   * ISO 639-1 code of the spoken language; detected when omitted
+   */
+  language?: string;
+  enableSpeakerDiarization: boolean;
+  /**
+   * Names and words likely to be spoken, such as the campaign glossary; providers that cannot use hints ignore them
+   */
+  vocabulary?: string[];
+  /**
+   * Aborts the transcription
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Transcript produced by a provider
+ */
+export interface TranscriptionProviderResult {
+  segments: TranscriptionSegment[];
+  language_code: string;
+  confidence_score: number;
+  model_version: string;
+  speaker_count?: number;
+}
+
+/**
+ * Turns audio files into timed transcript segments
+ */
+export interface TranscriptionProvider {
+  /**
+   * Transcription service the provider implements
+   */
+  readonly service: TranscriptionEngine;
+  readonly capabilities: TranscriptionProviderCapabilities;
+  /**
+   * Whether the provider is configured and can be used
+   */
+  isAvailable(): Promise<boolean>;
+  transcribe(request: TranscriptionRequest, onProgress?: ProgressCallback): Promise<TranscriptionProviderResult>;
+}
+
+/**
+ * Error thrown when a provider is missing or fails to transcribe
+ */
+export class TranscriptionProviderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TranscriptionProviderError';
+  }
+}
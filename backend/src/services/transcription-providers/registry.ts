@@ -0,0 +1,117 @@
+import config from '../../config';
+import { TranscriptionService as TranscriptionEngine } from '../../models/audio-recording.model';
+import { TranscriptionProvider, TranscriptionProviderCapabilities, TranscriptionProviderError } from './provider';
+import { WhisperCppProvider } from './whisper-cpp.provider';
+
+/**
+ * Providers tried, in order, for hybrid transcriptions
+ */
+const HYBRID_PREFERENCE: TranscriptionEngine[] = [
+  TranscriptionEngine.WHISPER_CPP,
+  TranscriptionEngine.OPENAI_WHISPER,
+  TranscriptionEngine.VOSK
+];
+
+/**
+ * Registered provider as reported to clients
+ */
+export interface TranscriptionProviderInfo {
+  service: TranscriptionEngine;
+  capabilities: TranscriptionProviderCapabilities;
+  available: boolean;
+}
+
+/**
+ * Requirements a provider must meet to be picked
+ */
+export interface TranscriptionProviderRequirements {
+  /**
+   * ISO 639-1 code of the spoken language
+   */
+  language?: string;
+}
+
+/**
+ * Transcription providers keyed by the transcription service they implement
+ */
+export class TranscriptionProviderRegistry {
+  private providers = new Map<TranscriptionEngine, TranscriptionProvider>();
+
+  /**
+   * Register a provider, replacing any provider of the same service
+   * @param provider Transcription provider
+   */
+  public register(provider: TranscriptionProvider): void {
+    this.providers.set(provider.service, provider);
+  }
+
+  /**
+   * Get the provider of a service
+   * @param service Transcription service
+   * @returns Provider, or undefined if none is registered
+   */
+  public get(service: TranscriptionEngine): TranscriptionProvider | undefined {
+    return this.providers.get(service);
+  }
+
+  /**
+   * List the registered providers with their capabilities and availability
+   * @returns Provider information
+   */
+  public async list(): Promise<TranscriptionProviderInfo[]> {
+    return Promise.all(
+      Array.from(this.providers.values()).map(async (provider) => ({
+        service: provider.service,
+        capabilities: provider.capabilities,
+        available: await provider.isAvailable()
+      }))
+    );
+  }
+
+  /**
+   * Pick the provider that transcribes for a service. Hybrid transcriptions use the first available provider
+   * that supports the language, preferring offline ones.
+   * @param service Transcription service
+   * @param requirements Requirements the provider must meet
+   * @returns Transcription provider
+   * @throws TranscriptionProviderError if no suitable provider is available
+   */
+  public async resolve(
+    service: TranscriptionEngine,
+    requirements: TranscriptionProviderRequirements = {}
+  ): Promise<TranscriptionProvider> {
+    const candidates =
+      service === TranscriptionEngine.HYBRID
+        ? HYBRID_PREFERENCE.map((preferred) => this.providers.get(preferred))
+        : [this.providers.get(service)];
+
+    for (const provider of candidates) {
+      if (provider && this.supportsLanguage(provider, requirements.language) && (await provider.isAvailable())) {
+        return provider;
+      }
+    }
+
+    const language = requirements.language ? ` for language ${requirements.language}` : '';
+    throw new TranscriptionProviderError(`No transcription provider is available for ${service}${language}`);
+  }
+
+  /**
+   * Whether a provider supports a language
+   * @param provider Transcription provider
+   * @param language ISO 639-1 code; any provider matches when omitted
+   */
+  private supportsLanguage(provider: TranscriptionProvider, language?: string): boolean {
+    const { languages } = provider.capabilities;
+    return !language || languages.length === 0 || languages.includes(language);
+  }
+}
+
+/**
+ * Create a registry with the providers set up in the configuration
+ * @returns Transcription provider registry
+ */
+export const createTranscriptionProviderRegistry = (): TranscriptionProviderRegistry => {
+  const registry = new TranscriptionProviderRegistry();
+  registry.register(new WhisperCppProvider(config.transcription.whisperCpp));
+  return registry;
+};
@@ -0,0 +1,371 @@
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { TranscriptionSegment, TranscriptionWord } from '../../models/transcription.model';
+import { TranscriptionService as TranscriptionEngine } from '../../models/audio-recording.model';
+import { ProgressCallback } from '../../models/job.model';
+import {
+  TranscriptionProvider,
+  TranscriptionProviderCapabilities,
+  TranscriptionProviderError,
+  TranscriptionProviderResult,
+  TranscriptionRequest
+} from './provider';
+
+/**
+ * whisper.cpp provider options
+ */
+export interface WhisperCppOptions {
+  /**
+   * Path or name on the PATH of the whisper.cpp command line tool
+   */
+  binaryPath: string;
+  /**
+   * Path of the ggml model file
+   */
+  modelPath: string;
+  threads: number;
+  /**
+   * Longest a single run may take before it is stopped; 0 disables the limit
+   */
+  timeoutMs: number;
+}
+
+/**
+ * Token of the full JSON output (-ojf) of whisper.cpp
+ */
+interface WhisperCppToken {
+  text: string;
+  offsets: { from: number; to: number };
+  p?: number;
+}
+
+/**
+ * Segment of the full JSON output (-ojf) of whisper.cpp
+ */
+interface WhisperCppSegment {
+  offsets: { from: number; to: number };
+  text: string;
+  tokens?: WhisperCppToken[];
+  speaker_turn_next?: boolean;
+}
+
+/**
+ * Full JSON output (-ojf) of whisper.cpp
+ */
+interface WhisperCppOutput {
+  model?: { type?: string };
+  result?: { language?: string };
+  transcription: WhisperCppSegment[];
+}
+
+/**
+ * Number of stderr characters kept to explain a failed run
+ */
+const STDERR_TAIL_LENGTH = 2000;
+
+/**
+ * Longest vocabulary prompt; whisper.cpp keeps no more than 224 tokens of a prompt
+ */
+const MAX_PROMPT_LENGTH = 800;
+
+/**
+ * Offline transcription with a local whisper.cpp command line tool (whisper-cli or the older main).
+ *
+ * The tool is run once per recording with full JSON output, which carries token timings and probabilities.
+ * Models trained for tinydiarize (file names containing "tdrz") mark speaker turns, which are used for diarization.
+ * The recording must be in a format the tool reads, which is 16 kHz WAV unless it was built with ffmpeg support.
+ */
+export class WhisperCppProvider implements TranscriptionProvider {
+  public readonly service = TranscriptionEngine.WHISPER_CPP;
+  public readonly capabilities: TranscriptionProviderCapabilities;
+  private options: WhisperCppOptions;
+
+  /**
+   * @param options whisper.cpp provider options
+   */
+  constructor(options: WhisperCppOptions) {
+    this.options = options;
+
+    const modelName = path.basename(options.modelPath);
+    this.capabilities = {
+      diarization: modelName.includes('tdrz'),
+      wordTimestamps: true,
+      // English-only models are named like ggml-base.en.bin
+      languages: /\.en[.-]/.test(modelName) ? ['en'] : []
+    };
+  }
+
+  /**
+   * Whether the tool and the model are both present
+   */
+  public async isAvailable(): Promise<boolean> {
+    if (!this.options.binaryPath || !this.options.modelPath) {
+      return false;
+    }
+    return (await this.resolveBinary()) !== null && (await this.isReadable(this.options.modelPath));
+  }
+
+  /**
+   * Transcribe a recording
+   * @param request Audio to transcribe
+   * @param onProgress Optional progress callback
+   * @returns Transcript
+   */
+  public async transcribe(request: TranscriptionRequest, onProgress?: ProgressCallback): Promise<TranscriptionProviderResult> {
+    const binary = await this.resolveBinary();
+    if (!binary) {
+      throw new TranscriptionProviderError(`whisper.cpp binary not found: ${this.options.binaryPath}`);
+    }
+
+    const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'whisper-cpp-'));
+    try {
+      const outputBase = path.join(workDir, 'transcript');
+      const args = [
+        '-m', this.options.modelPath,
+        '-f', request.filePath,
+        '-l', request.language || 'auto',
+        '-t', String(this.options.threads),
+        '-ojf',
+        '-of', outputBase,
+        '-pp'
+      ];
+      if (request.enableSpeakerDiarization && this.capabilities.diarization) {
+        args.push('-tdrz');
+      }
+      const prompt = this.toPrompt(request.vocabulary);
+      if (prompt) {
+        args.push('--prompt', prompt);
+      }
+
+      await this.run(binary, args, request.signal, onProgress);
+
+      const output = JSON.parse(await fs.promises.readFile(`${outputBase}.json`, 'utf8')) as WhisperCppOutput;
+      return this.toResult(output, request);
+    } finally {
+      await fs.promises.rm(workDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Initial prompt that makes the model expect the vocabulary, made of as many terms as fit
+   * @param vocabulary Names and words likely to be spoken
+   * @returns Prompt, or an empty string without vocabulary
+   */
+  private toPrompt(vocabulary: string[] = []): string {
+    let prompt = '';
+    for (const term of vocabulary) {
+      const next = prompt ? `${prompt}, ${term}` : term;
+      if (next.length > MAX_PROMPT_LENGTH) {
+        break;
+      }
+      prompt = next;
+    }
+    return prompt;
+  }
+
+  /**
+   * Run the tool, reporting the progress it prints
+   * @param binary Path of the tool
+   * @param args Arguments
+   * @param signal Optional abort signal
+   * @param onProgress Optional progress callback
+   */
+  private run(binary: string, args: string[], signal?: AbortSignal, onProgress?: ProgressCallback): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new TranscriptionProviderError('Transcription was cancelled'));
+        return;
+      }
+
+      const child = spawn(binary, args, { stdio: ['ignore', 'ignore', 'pipe'] });
+      let stderr = '';
+      let stopReason: string | null = null;
+
+      const stop = (reason: string) => {
+        stopReason = reason;
+        child.kill('SIGTERM');
+      };
+      const onAbort = () => stop('Transcription was cancelled');
+      signal?.addEventListener('abort', onAbort);
+      const timer =
+        this.options.timeoutMs > 0
+          ? setTimeout(() => stop(`whisper.cpp did not finish within ${this.options.timeoutMs} ms`), this.options.timeoutMs)
+          : null;
+
+      child.stderr.setEncoding('utf8');
+      child.stderr.on('data', (chunk: string) => {
+        stderr = (stderr + chunk).slice(-STDERR_TAIL_LENGTH);
+        for (const match of chunk.matchAll(/progress\s*=\s*(\d+)%/g)) {
+          void Promise.resolve(onProgress?.(Number(match[1]), 'Transcribing audio')).catch((error) =>
+            console.error('Error reporting transcription progress:', error)
+          );
+        }
+      });
+
+      const finish = (error: Error | null) => {
+        signal?.removeEventListener('abort', onAbort);
+        if (timer) {
+          clearTimeout(timer);
+        }
+        if (error) {
+          reject(error);
+        } else {
+          resolve();
+        }
+      };
+
+      child.on('error', (error) => finish(new TranscriptionProviderError(`Could not start whisper.cpp: ${error.message}`)));
+      child.on('close', (code) => {
+        if (stopReason) {
+          finish(new TranscriptionProviderError(stopReason));
+        } else if (code !== 0) {
+          finish(new TranscriptionProviderError(`whisper.cpp exited with code ${code}: ${stderr.trim()}`));
+        } else {
+          finish(null);
+        }
+      });
+    });
+  }
+
+  /**
+   * Convert the output of the tool into a transcript
+   * @param output Full JSON output
+   * @param request Transcribed audio
+   * @returns Transcript
+   */
+  private toResult(output: WhisperCppOutput, request: TranscriptionRequest): TranscriptionProviderResult {
+    const diarize = request.enableSpeakerDiarization && this.capabilities.diarization;
+    let speaker = 1;
+    let speakerCount = 1;
+    const probabilities: number[] = [];
+
+    const segments: TranscriptionSegment[] = [];
+    for (const item of output.transcription || []) {
+      const text = item.text.trim();
+      if (text) {
+        const tokens = (item.tokens || []).filter((token) => !this.isSpecialToken(token));
+        const tokenProbabilities = tokens.map((token) => token.p ?? 1);
+        probabilities.push(...tokenProbabilities);
+
+        segments.push({
+          segment_id: uuidv4(),
+          start_time: item.offsets.from / 1000,
+          end_time: item.offsets.to / 1000,
+          text,
+          confidence_score: this.average(tokenProbabilities),
+          speaker_name: diarize ? `Speaker ${speaker}` : undefined,
+          words: this.toWords(tokens)
+        });
+      }
+
+      // tinydiarize marks a segment after which another speaker takes over
+      if (diarize && item.speaker_turn_next) {
+        speaker = speaker === 1 ? 2 : 1;
+        speakerCount = 2;
+      }
+    }
+
+    return {
+      segments,
+      language_code: output.result?.language || request.language || 'en',
+      confidence_score: this.average(probabilities),
+      model_version: `whisper.cpp ${path.basename(this.options.modelPath)}`,
+      speaker_count: diarize ? speakerCount : undefined
+    };
+  }
+
+  /**
+   * Merge sub-word tokens into words; a token starting with a space starts a new word
+   * @param tokens Tokens of a segment
+   * @returns Words
+   */
+  private toWords(tokens: WhisperCppToken[]): TranscriptionWord[] {
+    const words: TranscriptionWord[] = [];
+    let probabilities: number[] = [];
+
+    for (const token of tokens) {
+      const current = words[words.length - 1];
+      if (!current || token.text.startsWith(' ')) {
+        if (current) {
+          current.confidence_score = this.average(probabilities);
+        }
+        words.push({
+          word: token.text.trim(),
+          start_time: token.offsets.from / 1000,
+          end_time: token.offsets.to / 1000,
+          confidence_score: 0
+        });
+        probabilities = [];
+      } else {
+        current.word += token.text;
+        current.end_time = token.offsets.to / 1000;
+      }
+      probabilities.push(token.p ?? 1);
+    }
+
+    if (words.length > 0) {
+      words[words.length - 1].confidence_score = this.average(probabilities);
+    }
+    return words.filter((word) => word.word);
+  }
+
+  /**
+   * Whether a token is a control token such as [_BEG_] or [_TT_150] rather than text
+   * @param token Token
+   */
+  private isSpecialToken(token: WhisperCppToken): boolean {
+    return token.text.startsWith('[_') || token.text.startsWith('<|');
+  }
+
+  /**
+   * Average of some values, rounded to two decimals
+   * @param values Values
+   * @returns Average, or 0 when there are no values
+   */
+  private average(values: number[]): number {
+    if (values.length === 0) {
+      return 0;
+    }
+    return Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 100) / 100;
+  }
+
+  /**
+   * Find the tool, searching the PATH when only a name is configured
+   * @returns Path of the tool, or null if it cannot be run
+   */
+  private async resolveBinary(): Promise<string | null> {
+    const { binaryPath } = this.options;
+    if (binaryPath.includes(path.sep) || binaryPath.includes('/')) {
+      return (await this.isExecutable(binaryPath)) ? binaryPath : null;
+    }
+
+    for (const dir of (process.env.PATH || '').split(path.delimiter).filter(Boolean)) {
+      const candidate = path.join(dir, binaryPath);
+      if (await this.isExecutable(candidate)) {
+        return candidate;
+      }
+    }
+    return null;
+  }
+
+  private async isExecutable(filePath: string): Promise<boolean> {
+    try {
+      await fs.promises.access(filePath, fs.constants.X_OK);
+      return (await fs.promises.stat(filePath)).isFile();
+    } catch {
+      return false;
+    }
+  }
+
+  private async isReadable(filePath: string): Promise<boolean> {
+    try {
+      await fs.promises.access(filePath, fs.constants.R_OK);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
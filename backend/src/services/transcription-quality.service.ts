@@ -0,0 +1,173 @@
+import { TranscriptionRepository } from '../repositories/transcription.repository';
+import { TranscriptRevisionRepository } from '../repositories/transcript-revision.repository';
+import { TranscriptionQualityRepository } from '../repositories/transcription-quality.repository';
+import { Transcription, TranscriptionSegment } from '../models/transcription.model';
+import { TranscriptionService as TranscriptionEngine } from '../models/audio-recording.model';
+import {
+  TranscriptionQualityComparison,
+  TranscriptionQualityScore
+} from '../models/transcription-quality.model';
+import { alignTranscripts, wordErrorRate } from '../utils/word-error-rate';
+
+/**
+ * Error thrown when the quality of a transcription cannot be scored
+ */
+export class TranscriptionQualityError extends Error {
+  public readonly code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.name = 'TranscriptionQualityError';
+    this.code = code;
+  }
+}
+
+const ENGINES = new Set<string>(Object.values(TranscriptionEngine));
+
+/**
+ * Scores transcription providers by how much of their output users had to correct. The provider's original output is
+ * put back together from the revision log of the transcript and aligned word by word with the corrected transcript,
+ * and the scores are grouped by service, provider, model and noise reduction level so that the transcription paths
+ * can be compared.
+ */
+export class TranscriptionQualityService {
+  private transcriptionRepository: TranscriptionRepository;
+  private transcriptRevisionRepository: TranscriptRevisionRepository;
+  private transcriptionQualityRepository: TranscriptionQualityRepository;
+
+  /**
+   * @param transcriptionRepository Transcription repository
+   * @param transcriptRevisionRepository Transcript revision repository
+   * @param transcriptionQualityRepository Transcription quality repository
+   */
+  constructor(
+    transcriptionRepository: TranscriptionRepository,
+    transcriptRevisionRepository: TranscriptRevisionRepository,
+    transcriptionQualityRepository: TranscriptionQualityRepository
+  ) {
+    this.transcriptionRepository = transcriptionRepository;
+    this.transcriptRevisionRepository = transcriptRevisionRepository;
+    this.transcriptionQualityRepository = transcriptionQualityRepository;
+  }
+
+  /**
+   * Score a transcription against its corrections, replacing its previous score. A transcription that was not made by
+   * a transcription provider, or that has not been corrected since the provider made it, has no score and loses the
+   * one it had.
+   * @param transcriptionId Transcription ID
+   * @returns Quality score, or null if there is nothing to score
+   * @throws TranscriptionQualityError if the transcription does not exist
+   */
+  public async score(transcriptionId: string): Promise<TranscriptionQualityScore | null> {
+    const transcription = await this.transcriptionRepository.findById(transcriptionId);
+    if (!transcription) {
+      throw new TranscriptionQualityError('TRANSCRIPTION_NOT_FOUND', 'Transcription not found');
+    }
+
+    const info = transcription.metadata?.additional_info || {};
+    const service: string = info.requested_service || transcription.service_used;
+    const baseline = ENGINES.has(service) ? await this.findProviderOutput(transcription) : null;
+    if (!baseline) {
+      await this.transcriptionQualityRepository.deleteByTranscription(transcriptionId);
+      return null;
+    }
+
+    const alignment = alignTranscripts(baseline.segments, transcription.segments);
+    return this.transcriptionQualityRepository.upsert({
+      transcription_id: transcription.transcription_id,
+      session_id: transcription.session_id,
+      recording_id: transcription.recording_id || undefined,
+      service,
+      provider: info.service || service,
+      model: transcription.metadata?.model_version || '',
+      noise_reduction_level: info.noise_reduction_level || undefined,
+      ...alignment,
+      word_error_rate: wordErrorRate(alignment),
+      speaker_accuracy: alignment.attributed_words > 0
+        ? alignment.correctly_attributed_words / alignment.attributed_words
+        : undefined,
+      revision_count: baseline.revisionCount,
+      scored_at: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Get the score of a transcription
+   * @param transcriptionId Transcription ID
+   * @returns Quality score, or null if the transcription has not been scored
+   */
+  public async getScore(transcriptionId: string): Promise<TranscriptionQualityScore | null> {
+    return this.transcriptionQualityRepository.findByTranscription(transcriptionId);
+  }
+
+  /**
+   * Compare the scored transcriptions by service, provider, model and noise reduction level
+   * @returns Comparison rows, lowest word error rate first
+   */
+  public async compare(): Promise<TranscriptionQualityComparison[]> {
+    const scores = await this.transcriptionQualityRepository.findAll();
+    const groups = new Map<string, TranscriptionQualityScore[]>();
+    for (const score of scores) {
+      const key = JSON.stringify([score.service, score.provider, score.model, score.noise_reduction_level ?? null]);
+      groups.set(key, [...(groups.get(key) || []), score]);
+    }
+
+    return Array.from(groups.values())
+      .map((group) => {
+        const sum = (field: keyof TranscriptionQualityScore) =>
+          group.reduce((total, score) => total + (score[field] as number), 0);
+        const totals = {
+          reference_words: sum('reference_words'),
+          hypothesis_words: sum('hypothesis_words'),
+          substitutions: sum('substitutions'),
+          deletions: sum('deletions'),
+          insertions: sum('insertions'),
+          attributed_words: sum('attributed_words'),
+          correctly_attributed_words: sum('correctly_attributed_words')
+        };
+        return {
+          service: group[0].service,
+          provider: group[0].provider,
+          model: group[0].model,
+          noise_reduction_level: group[0].noise_reduction_level,
+          transcriptions: group.length,
+          reference_words: totals.reference_words,
+          substitutions: totals.substitutions,
+          deletions: totals.deletions,
+          insertions: totals.insertions,
+          word_error_rate: wordErrorRate(totals),
+          speaker_accuracy: totals.attributed_words > 0
+            ? totals.correctly_attributed_words / totals.attributed_words
+            : undefined
+        };
+      })
+      .sort((a, b) => a.word_error_rate - b.word_error_rate);
+  }
+
+  /**
+   * Put the provider's output back together by undoing the revisions of the transcript, newest first. Revisions made
+   * before the transcript was last transcribed refer to segments that no longer exist and stop the walk back.
+   * @param transcription Transcription
+   * @returns Segments as the provider transcribed them and the number of revisions undone, or null if none were
+   */
+  private async findProviderOutput(
+    transcription: Transcription
+  ): Promise<{ segments: TranscriptionSegment[]; revisionCount: number } | null> {
+    const revisions = await this.transcriptRevisionRepository.findAllByTranscription(transcription.transcription_id);
+    let segments = transcription.segments;
+    let revisionCount = 0;
+
+    for (const revision of [...revisions].reverse()) {
+      const ids = new Set(segments.map((segment) => segment.segment_id));
+      if (!revision.after.every((segment) => ids.has(segment.segment_id))) break;
+
+      const produced = new Set(revision.after.map((segment) => segment.segment_id));
+      segments = [...segments.filter((segment) => !produced.has(segment.segment_id)), ...revision.before].sort(
+        (a, b) => a.start_time - b.start_time
+      );
+      revisionCount++;
+    }
+
+    return revisionCount > 0 ? { segments, revisionCount } : null;
+  }
+}
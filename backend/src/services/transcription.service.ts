@@ -1,11 +1,93 @@
 import { TranscriptionRepository } from '../repositories/transcription.repository';
 import { AudioRecordingRepository } from '../repositories/audio-recording.repository';
-import { Transcription, TranscriptionSegment, TranscriptionUpdateParams, SpeakerIdentification, SpeakerIdentificationUpdateParams } from '../models/transcription.model';
-import { TranscriptionStatus } from '../models/audio-recording.model';
-import * as fs from 'fs';
-import { promisify } from 'util';
+import {
+  SESSION_TRANSCRIPT_SERVICE,
+  SessionTimelineEntry,
+  SessionTranscriptSource,
+  Transcription,
+  TranscriptExportFormat,
+  TranscriptExportOptions,
+  TranscriptImportParams,
+  TranscriptionSegment,
+  TranscriptionUpdateParams,
+  SpeakerIdentification,
+  SpeakerIdentificationUpdateParams
+} from '../models/transcription.model';
+import { AudioTrack, TranscriptionStatus, TranscriptionService as TranscriptionEngine } from '../models/audio-recording.model';
+import { ProgressCallback } from '../models/job.model';
+import { TranscriptionProvider, TranscriptionProviderResult } from './transcription-providers/provider';
+import { SpeakerProfileService } from './speaker-profile.service';
+import { GlossaryService } from './glossary.service';
+import { SegmentClassifier, SegmentClassifierError } from './segment-classifiers/classifier';
+import { RedactionService } from './redaction.service';
+import {
+  TranscriptionProviderInfo,
+  TranscriptionProviderRegistry,
+  createTranscriptionProviderRegistry
+} from './transcription-providers/registry';
+import { parseTranscript, renderTranscript } from '../utils/transcript-formats';
+import { SegmentsRedaction } from '../utils/redaction';
+import { detectSegmentLanguages, withTextVersion } from '../utils/language-detection';
+import { v4 as uuidv4 } from 'uuid';
 
-const readFile = promisify(fs.readFile);
+/**
+ * Options of a single transcription run
+ */
+export interface TranscriptionRunOptions {
+  /**
+   * ISO 639-1 code of the spoken language; detected when omitted
+   */
+  language?: string;
+  /**
+   * Stops the provider when aborted
+   */
+  signal?: AbortSignal;
+  /**
+   * Names and words likely to be spoken; the glossary of the campaign of the session when omitted
+   */
+  vocabulary?: string[];
+}
+
+/**
+ * Error thrown when a transcript cannot be imported into a session
+ */
+export class TranscriptImportError extends Error {
+  public code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.name = 'TranscriptImportError';
+    this.code = code;
+  }
+}
+
+/**
+ * Error thrown when the transcriptions of a session cannot be stitched together
+ */
+export class SessionTranscriptError extends Error {
+  public code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.name = 'SessionTranscriptError';
+    this.code = code;
+  }
+}
+
+/**
+ * Most recordings a session timeline is made of
+ */
+const MAX_SESSION_RECORDINGS = 1000;
+
+/**
+ * File extension and content type of each transcript export format
+ */
+const EXPORT_FILE_TYPES: Record<TranscriptExportFormat, { extension: string; contentType: string }> = {
+  [TranscriptExportFormat.SRT]: { extension: 'srt', contentType: 'application/x-subrip' },
+  [TranscriptExportFormat.WEBVTT]: { extension: 'vtt', contentType: 'text/vtt' },
+  [TranscriptExportFormat.MARKDOWN]: { extension: 'md', contentType: 'text/markdown' },
+  [TranscriptExportFormat.SCREENPLAY]: { extension: 'txt', contentType: 'text/plain' }
+};
 
 /**
  * Transcription service
@@ -13,13 +95,37 @@ const readFile = promisify(fs.readFile);
 export class TranscriptionService {
   private transcriptionRepository: TranscriptionRepository;
   private audioRecordingRepository: AudioRecordingRepository;
+  private providerRegistry: TranscriptionProviderRegistry;
+  private speakerProfileService?: SpeakerProfileService;
+  private glossaryService?: GlossaryService;
+  private segmentClassifier?: SegmentClassifier;
+  private redactionService?: RedactionService;
 
+  /**
+   * @param transcriptionRepository Transcription repository
+   * @param audioRecordingRepository Audio recording repository
+   * @param providerRegistry Transcription providers
+   * @param speakerProfileService Learns speaker profiles from the speakers assigned a character or player
+   * @param glossaryService Gives campaign names to providers and corrects them in new transcripts
+   * @param segmentClassifier Tells in-character play from rules talk and off-topic chatter in new transcripts
+   * @param redactionService Redacts new transcripts with the rules of their campaign before they are saved
+   */
   constructor(
     transcriptionRepository: TranscriptionRepository,
-    audioRecordingRepository: AudioRecordingRepository
+    audioRecordingRepository: AudioRecordingRepository,
+    providerRegistry: TranscriptionProviderRegistry = createTranscriptionProviderRegistry(),
+    speakerProfileService?: SpeakerProfileService,
+    glossaryService?: GlossaryService,
+    segmentClassifier?: SegmentClassifier,
+    redactionService?: RedactionService
   ) {
     this.transcriptionRepository = transcriptionRepository;
     this.audioRecordingRepository = audioRecordingRepository;
+    this.providerRegistry = providerRegistry;
+    this.speakerProfileService = speakerProfileService;
+    this.glossaryService = glossaryService;
+    this.segmentClassifier = segmentClassifier;
+    this.redactionService = redactionService;
   }
 
   /**
@@ -50,7 +156,7 @@ export class TranscriptionService {
     const transcription = await this.transcriptionRepository.update(transcriptionId, params);
 
     // If the transcription has segments, update the recording status to completed
-    if (transcription.segments && transcription.segments.length > 0) {
+    if (transcription.recording_id && transcription.segments && transcription.segments.length > 0) {
       await this.audioRecordingRepository.update(transcription.recording_id, {
         transcription_status: TranscriptionStatus.COMPLETED
       });
@@ -60,182 +166,386 @@ export class TranscriptionService {
   }
 
   /**
-   * Delete transcription
-   * @param transcriptionId Transcription ID
-   * @returns True if deleted
+   * Import a transcript made by another tool. Speakers are matched by name to the speakers already heard in the
+   * session, and new speakers are created for the others.
+   * @param params Transcript import parameters
+   * @param content Transcript file content
+   * @returns Imported transcription
+   * @throws TranscriptFormatError if the transcript cannot be read
+   * @throws TranscriptImportError if the session or recording is missing, or the recording is already transcribed
    */
-  public async delete(transcriptionId: string): Promise<boolean> {
-    return this.transcriptionRepository.delete(transcriptionId);
+  public async importTranscript(params: TranscriptImportParams, content: string): Promise<Transcription> {
+    const { format, cues } = parseTranscript(content, params.format);
+
+    if (params.recording_id && (await this.transcriptionRepository.findByRecordingId(params.recording_id))) {
+      throw new TranscriptImportError('RECORDING_ALREADY_TRANSCRIBED', 'The recording already has a transcription');
+    }
+
+    const transcription = await this.transcriptionRepository.createImported(params, `import_${format}`);
+    if (!transcription) {
+      throw params.recording_id
+        ? new TranscriptImportError('RECORDING_NOT_FOUND', 'Recording not found in this session')
+        : new TranscriptImportError('SESSION_NOT_FOUND', 'Session not found');
+    }
+
+    // Reuse the speakers of the session
+    const speakerIds = new Map<string, string>();
+    for (const speaker of await this.transcriptionRepository.getSpeakersForSession(params.session_id)) {
+      speakerIds.set(speaker.speaker_name.toLowerCase(), speaker.speaker_id);
+    }
+    for (const name of new Set(cues.map(cue => cue.speaker).filter((speaker): speaker is string => !!speaker))) {
+      if (!speakerIds.has(name.toLowerCase())) {
+        const speaker = await this.transcriptionRepository.createOrUpdateSpeaker(undefined, name);
+        speakerIds.set(name.toLowerCase(), speaker.speaker_id);
+      }
+    }
+
+    const redaction = await this.redactSegments(params.session_id, cues.map(cue => ({
+      segment_id: uuidv4(),
+      start_time: cue.start_time,
+      end_time: cue.end_time,
+      text: cue.text,
+      speaker_id: cue.speaker ? speakerIds.get(cue.speaker.toLowerCase()) : undefined,
+      speaker_name: cue.speaker,
+      confidence_score: 1
+    })));
+    await this.redactionService?.silenceRecording(params.recording_id, redaction.silenced_ranges);
+    const segments: TranscriptionSegment[] = detectSegmentLanguages(
+      await this.classifySegments(redaction.segments),
+      params.language_code
+    );
+
+    return this.update(transcription.transcription_id, {
+      full_text: segments.map(segment => segment.text).join(' '),
+      segments,
+      language_code: params.language_code || 'en',
+      confidence_score: 1,
+      metadata: {
+        model_version: `import_${format}`,
+        audio_duration: Math.max(...cues.map(cue => cue.end_time)),
+        speaker_count: new Set(segments.map(segment => segment.speaker_id).filter(Boolean)).size,
+        additional_info: {
+          source_format: format,
+          file_name: params.file_name
+        }
+      }
+    });
   }
 
   /**
-   * Process transcription with OpenAI Whisper
-   * @param transcriptionId Transcription ID
-   * @param enableSpeakerDiarization Enable speaker diarization
-   * @returns Updated transcription
+   * Get the timeline of a session: its recordings in the order they were made, each starting at its offset. A
+   * recording without an offset starts where the recordings before it ended, which covers breaks and device restarts;
+   * recordings made at the same time, such as at a second table, are given overlapping offsets.
+   * @param sessionId Session ID
+   * @returns Recordings of the session on its timeline
    */
-  public async processWithWhisper(
-    transcriptionId: string,
-    enableSpeakerDiarization: boolean = true
-  ): Promise<Transcription> {
-    try {
-      // Get transcription
-      const transcription = await this.transcriptionRepository.findById(transcriptionId);
-      
-      if (!transcription) {
-        throw new Error('Transcription not found');
-      }
+  public async getSessionTimeline(sessionId: string): Promise<SessionTimelineEntry[]> {
+    const { recordings } = await this.audioRecordingRepository.findAllBySession(
+      sessionId,
+      1,
+      MAX_SESSION_RECORDINGS,
+      'created_at',
+      'asc'
+    );
+
+    let end = 0;
+    return recordings.map(recording => {
+      const offsetIsExplicit = recording.session_offset_seconds !== undefined;
+      const offset = offsetIsExplicit ? (recording.session_offset_seconds as number) : end;
+      end = Math.max(end, offset + (recording.duration_seconds || 0));
+
+      return {
+        recording_id: recording.recording_id,
+        name: recording.name,
+        offset_seconds: offset,
+        duration_seconds: recording.duration_seconds || 0,
+        offset_is_explicit: offsetIsExplicit,
+        transcription_id: recording.transcription_id,
+        transcription_status: recording.transcription_status
+      };
+    });
+  }
 
-      // Get recording
-      const recording = await this.audioRecordingRepository.findById(transcription.recording_id);
-      
-      if (!recording) {
-        throw new Error('Recording not found');
+  /**
+   * Get the session transcript of a session
+   * @param sessionId Session ID
+   * @returns Session transcript, or null if the session has not been stitched
+   */
+  public async getSessionTranscript(sessionId: string): Promise<Transcription | null> {
+    return this.transcriptionRepository.findSessionTranscript(sessionId);
+  }
+
+  /**
+   * Stitch the transcriptions of all recordings of a session into the session transcript, moving every segment to
+   * its time on the session timeline. The session transcript is rebuilt when the session was stitched before, so it
+   * keeps its ID and the analyses based on it.
+   * @param sessionId Session ID
+   * @param createdBy User stitching the session
+   * @returns Session transcript
+   * @throws SessionTranscriptError if the session does not exist or none of its recordings is transcribed
+   */
+  public async stitchSession(sessionId: string, createdBy?: string): Promise<Transcription> {
+    const sources: SessionTranscriptSource[] = [];
+    const segments: TranscriptionSegment[] = [];
+    let languageCode: string | undefined;
+    let weightedConfidence = 0;
+    let duration = 0;
+
+    for (const entry of await this.getSessionTimeline(sessionId)) {
+      duration = Math.max(duration, entry.offset_seconds + entry.duration_seconds);
+      if (!entry.transcription_id || entry.transcription_status !== TranscriptionStatus.COMPLETED) continue;
+
+      const transcription = await this.transcriptionRepository.findById(entry.transcription_id);
+      if (!transcription || transcription.segments.length === 0) continue;
+
+      sources.push({
+        recording_id: entry.recording_id,
+        transcription_id: transcription.transcription_id,
+        offset_seconds: entry.offset_seconds,
+        duration_seconds: entry.duration_seconds
+      });
+      languageCode = languageCode || transcription.language_code;
+      weightedConfidence += (transcription.confidence_score || 0) * transcription.segments.length;
+
+      for (const segment of transcription.segments) {
+        segments.push({
+          ...segment,
+          segment_id: uuidv4(),
+          start_time: segment.start_time + entry.offset_seconds,
+          end_time: segment.end_time + entry.offset_seconds,
+          words: segment.words?.map(word => ({
+            ...word,
+            start_time: word.start_time + entry.offset_seconds,
+            end_time: word.end_time + entry.offset_seconds
+          }))
+        });
       }
+    }
 
-      // Read audio file
-      const audioFile = await readFile(recording.file_path);
+    if (segments.length === 0) {
+      throw new SessionTranscriptError('NO_TRANSCRIPTIONS', 'None of the recordings of the session is transcribed');
+    }
+    segments.sort((a, b) => a.start_time - b.start_time);
+
+    const sessionTranscript =
+      (await this.transcriptionRepository.findSessionTranscript(sessionId)) ||
+      (await this.transcriptionRepository.createImported(
+        { session_id: sessionId, language_code: languageCode, created_by: createdBy },
+        SESSION_TRANSCRIPT_SERVICE
+      ));
+    if (!sessionTranscript) {
+      throw new SessionTranscriptError('SESSION_NOT_FOUND', 'Session not found');
+    }
 
-      // In a real implementation, you would call the OpenAI Whisper API here
-      // For now, we'll just simulate the process with a mock response
+    return this.transcriptionRepository.update(sessionTranscript.transcription_id, {
+      full_text: segments.map(segment => segment.text).join(' '),
+      segments,
+      language_code: languageCode || 'en',
+      confidence_score: weightedConfidence / segments.length,
+      metadata: {
+        model_version: SESSION_TRANSCRIPT_SERVICE,
+        audio_duration: duration,
+        speaker_count: new Set(segments.map(segment => segment.speaker_id || segment.speaker_name).filter(Boolean)).size,
+        additional_info: { sources }
+      }
+    });
+  }
 
-      // Mock processing time
-      const processingTimeSeconds = 5;
+  /**
+   * Export a transcription as a file. Screenplays name the characters the speakers play, falling back to the speaker
+   * names for speakers without a character.
+   * @param transcriptionId Transcription ID
+   * @param format Export format
+   * @param options Export options
+   * @returns Exported file, or null if the transcription does not exist
+   */
+  public async exportTranscript(
+    transcriptionId: string,
+    format: TranscriptExportFormat,
+    options: TranscriptExportOptions = {}
+  ): Promise<{ fileName: string; contentType: string; data: string } | null> {
+    const transcription = await this.transcriptionRepository.findById(transcriptionId);
+    if (!transcription) {
+      return null;
+    }
 
-      // Mock transcription result
-      const mockSegments: TranscriptionSegment[] = [
-        {
-          segment_id: '1',
-          start_time: 0,
-          end_time: 5,
-          text: 'Hello, this is a test transcription.',
-          confidence_score: 0.95,
-          speaker_id: enableSpeakerDiarization ? 'speaker1' : undefined,
-          speaker_name: enableSpeakerDiarization ? 'Speaker 1' : undefined
-        },
-        {
-          segment_id: '2',
-          start_time: 5,
-          end_time: 10,
-          text: 'This is another segment of the transcription.',
-          confidence_score: 0.92,
-          speaker_id: enableSpeakerDiarization ? 'speaker2' : undefined,
-          speaker_name: enableSpeakerDiarization ? 'Speaker 2' : undefined
+    const minConfidence = options.min_confidence;
+    const segments = withTextVersion(
+      [...(transcription.segments || [])]
+        .filter(segment => minConfidence === undefined || segment.confidence_score >= minConfidence)
+        .sort((a, b) => a.start_time - b.start_time),
+      options.text_version
+    );
+
+    const displayNames = new Map<string, string>();
+    if (format === TranscriptExportFormat.SCREENPLAY && transcription.session_id) {
+      for (const speaker of await this.transcriptionRepository.getSpeakersForSession(transcription.session_id)) {
+        if (speaker.character_name) {
+          displayNames.set(speaker.speaker_id, speaker.character_name);
         }
-      ];
-
-      const fullText = mockSegments.map(segment => segment.text).join(' ');
+      }
+    }
 
-      // Update transcription
-      const updatedTranscription = await this.transcriptionRepository.update(transcriptionId, {
-        full_text: fullText,
-        segments: mockSegments,
-        language_code: 'en',
-        confidence_score: 0.93,
-        metadata: {
-          model_version: 'gpt-4o-transcribe',
-          audio_duration: recording.duration_seconds,
-          speaker_count: enableSpeakerDiarization ? 2 : undefined,
-          additional_info: {
-            processing_time_seconds: processingTimeSeconds
-          }
-        }
-      });
+    const { extension, contentType } = EXPORT_FILE_TYPES[format];
+    return {
+      fileName: `transcript-${transcriptionId}.${extension}`,
+      contentType,
+      data: renderTranscript(segments, format, {
+        includeTimestamps: options.include_timestamps,
+        displayNames
+      })
+    };
+  }
 
-      // Update recording status
-      await this.audioRecordingRepository.update(recording.recording_id, {
-        transcription_status: TranscriptionStatus.COMPLETED
-      });
+  /**
+   * Classify the segments of a transcription again, such as after the classifier improved. Categories set by hand
+   * are kept.
+   * @param transcriptionId Transcription ID
+   * @returns Classified transcription, or null if it does not exist
+   * @throws SegmentClassifierError if no classifier is set up
+   */
+  public async classify(transcriptionId: string): Promise<Transcription | null> {
+    if (!this.segmentClassifier) {
+      throw new SegmentClassifierError('No segment classifier is set up');
+    }
 
-      return updatedTranscription;
-    } catch (error) {
-      console.error('Error processing transcription with Whisper:', error);
-      
-      // Update recording status to failed
-      const transcription = await this.transcriptionRepository.findById(transcriptionId);
-      if (transcription) {
-        await this.audioRecordingRepository.update(transcription.recording_id, {
-          transcription_status: TranscriptionStatus.FAILED
-        });
-      }
-      
-      throw error;
+    const transcription = await this.transcriptionRepository.findById(transcriptionId);
+    if (!transcription) {
+      return null;
     }
+
+    const segments = await this.classifySegments(transcription.segments);
+    await this.transcriptionRepository.updateSegmentCategories(
+      transcriptionId,
+      segments.filter(segment => !segment.category_set_by)
+    );
+    return this.transcriptionRepository.findById(transcriptionId);
+  }
+
+  /**
+   * Delete transcription
+   * @param transcriptionId Transcription ID
+   * @returns True if deleted
+   */
+  public async delete(transcriptionId: string): Promise<boolean> {
+    return this.transcriptionRepository.delete(transcriptionId);
   }
 
   /**
-   * Process transcription with Vosk
+   * Process transcription with the best available provider
    * @param transcriptionId Transcription ID
    * @param enableSpeakerDiarization Enable speaker diarization
+   * @param onProgress Optional progress callback
    * @returns Updated transcription
    */
-  public async processWithVosk(
+  public async processWithHybrid(
     transcriptionId: string,
-    enableSpeakerDiarization: boolean = true
+    enableSpeakerDiarization = true,
+    onProgress?: ProgressCallback
   ): Promise<Transcription> {
+    return this.processWith(transcriptionId, TranscriptionEngine.HYBRID, enableSpeakerDiarization, onProgress);
+  }
+
+  /**
+   * Process transcription with the provider registered for a transcription service
+   * @param transcriptionId Transcription ID
+   * @param service Transcription service to use
+   * @param enableSpeakerDiarization Enable speaker diarization
+   * @param onProgress Optional progress callback
+   * @param options Language, abort signal and vocabulary of the run
+   * @returns Updated transcription
+   */
+  public async processWith(
+    transcriptionId: string,
+    service: TranscriptionEngine,
+    enableSpeakerDiarization = true,
+    onProgress?: ProgressCallback,
+    options: TranscriptionRunOptions = {}
+  ): Promise<Transcription> {
+    let recordingId: string | undefined;
     try {
       // Get transcription
       const transcription = await this.transcriptionRepository.findById(transcriptionId);
-      
+
       if (!transcription) {
         throw new Error('Transcription not found');
       }
 
       // Get recording
       const recording = await this.audioRecordingRepository.findById(transcription.recording_id);
-      
+
       if (!recording) {
         throw new Error('Recording not found');
       }
-
-      // Read audio file
-      const audioFile = await readFile(recording.file_path);
-
-      // In a real implementation, you would use the Vosk library here
-      // For now, we'll just simulate the process with a mock response
-
-      // Mock processing time
-      const processingTimeSeconds = 3;
-
-      // Mock transcription result
-      const mockSegments: TranscriptionSegment[] = [
-        {
-          segment_id: '1',
-          start_time: 0,
-          end_time: 5,
-          text: 'Hello, this is a test transcription.',
-          confidence_score: 0.88,
-          speaker_id: enableSpeakerDiarization ? 'speaker1' : undefined,
-          speaker_name: enableSpeakerDiarization ? 'Speaker 1' : undefined
-        },
-        {
-          segment_id: '2',
-          start_time: 5,
-          end_time: 10,
-          text: 'This is another segment of the transcription.',
-          confidence_score: 0.85,
-          speaker_id: enableSpeakerDiarization ? 'speaker2' : undefined,
-          speaker_name: enableSpeakerDiarization ? 'Speaker 2' : undefined
-        }
-      ];
-
-      const fullText = mockSegments.map(segment => segment.text).join(' ');
+      recordingId = recording.recording_id;
+
+      const provider = await this.providerRegistry.resolve(service, { language: options.language });
+      const tracks = await this.audioRecordingRepository.findTracks(recording.recording_id);
+      const glossary = this.glossaryService ? await this.glossaryService.getSessionGlossary(transcription.session_id) : [];
+      const runOptions: TranscriptionRunOptions = {
+        ...options,
+        vocabulary: options.vocabulary ?? this.glossaryService?.toVocabulary(glossary)
+      };
+
+      await onProgress?.(5, 'Transcribing audio');
+      const startedAt = Date.now();
+      // Transcription is most of the work; leave the rest of the scale for saving
+      const scaledProgress: ProgressCallback | undefined = onProgress
+        ? (progress, message) => onProgress(5 + Math.round(progress * 0.85), message)
+        : undefined;
+      const result =
+        tracks.length > 0
+          ? await this.transcribeTracks(provider, tracks, runOptions, scaledProgress)
+          : await provider.transcribe(
+              {
+                filePath: recording.file_path,
+                language: options.language,
+                enableSpeakerDiarization: enableSpeakerDiarization && provider.capabilities.diarization,
+                vocabulary: runOptions.vocabulary,
+                signal: options.signal
+              },
+              scaledProgress
+            );
+      await onProgress?.(90, 'Saving transcription');
+
+      // Rewrite campaign names the provider misheard
+      const { segments: corrected, corrections: allCorrections } = this.glossaryService
+        ? this.glossaryService.correct(result.segments, glossary)
+        : { segments: result.segments, corrections: [] };
+
+      // Redact with the rules of the campaign; corrections of redacted segments would keep the redacted words
+      const redaction = await this.redactSegments(transcription.session_id, corrected);
+      const unredacted = new Set(
+        corrected.filter(segment => redaction.segments.includes(segment)).map(segment => segment.segment_id)
+      );
+      const corrections = allCorrections.filter(correction => unredacted.has(correction.segment_id));
+      // Silence before saving, so that the transcript is not kept when the audio cannot be silenced
+      await this.redactionService?.silenceRecording(recording.recording_id, redaction.silenced_ranges);
+      // Tables switch languages, so the provider's language is only where detection finds none
+      const segments = detectSegmentLanguages(await this.classifySegments(redaction.segments), result.language_code);
 
       // Update transcription
       const updatedTranscription = await this.transcriptionRepository.update(transcriptionId, {
-        full_text: fullText,
-        segments: mockSegments,
-        language_code: 'en',
-        confidence_score: 0.86,
+        full_text: segments.map(segment => segment.text).join(' '),
+        segments,
+        language_code: result.language_code,
+        confidence_score: result.confidence_score,
         metadata: {
-          model_version: 'vosk-model-en-us-0.22',
+          model_version: result.model_version,
           audio_duration: recording.duration_seconds,
-          speaker_count: enableSpeakerDiarization ? 2 : undefined,
+          speaker_count: result.speaker_count,
           additional_info: {
-            processing_time_seconds: processingTimeSeconds
+            // The hybrid service resolves to one of the providers; quality is compared by both
+            requested_service: service,
+            service: provider.service,
+            noise_reduction_level: transcription.metadata?.additional_info?.noise_reduction_level ?? null,
+            processing_time_seconds: Math.round((Date.now() - startedAt) / 1000),
+            glossary_corrections: corrections.length,
+            redacted_segments: redaction.segments_removed + redaction.segments_redacted
           }
         }
       });
+      await this.glossaryService?.recordCorrections(transcriptionId, corrections);
 
       // Update recording status
       await this.audioRecordingRepository.update(recording.recording_id, {
@@ -244,57 +554,120 @@ export class TranscriptionService {
 
       return updatedTranscription;
     } catch (error) {
-      console.error('Error processing transcription with Vosk:', error);
-      
+      console.error(`Error processing transcription with ${service}:`, error);
+
       // Update recording status to failed
-      const transcription = await this.transcriptionRepository.findById(transcriptionId);
-      if (transcription) {
-        await this.audioRecordingRepository.update(transcription.recording_id, {
+      if (recordingId) {
+        await this.audioRecordingRepository.update(recordingId, {
           transcription_status: TranscriptionStatus.FAILED
         });
       }
-      
+
       throw error;
     }
   }
 
   /**
-   * Process transcription with hybrid approach (Whisper + Vosk)
-   * @param transcriptionId Transcription ID
-   * @param enableSpeakerDiarization Enable speaker diarization
-   * @returns Updated transcription
+   * Transcribe every track of a multi-track recording on its own and merge the segments into one time-ordered
+   * transcript, attributing the segments of each track to its speaker
+   * @param provider Transcription provider
+   * @param tracks Tracks of the recording
+   * @param options Language, abort signal and vocabulary of the run
+   * @param onProgress Receives the progress over all tracks
+   * @returns Merged transcript
    */
-  public async processWithHybrid(
-    transcriptionId: string,
-    enableSpeakerDiarization: boolean = true
-  ): Promise<Transcription> {
-    try {
-      // Get transcription
-      const transcription = await this.transcriptionRepository.findById(transcriptionId);
-      
-      if (!transcription) {
-        throw new Error('Transcription not found');
-      }
+  private async transcribeTracks(
+    provider: TranscriptionProvider,
+    tracks: AudioTrack[],
+    options: TranscriptionRunOptions,
+    onProgress?: ProgressCallback
+  ): Promise<TranscriptionProviderResult> {
+    const results: TranscriptionProviderResult[] = [];
+    for (const [index, track] of tracks.entries()) {
+      const trackLabel = `Transcribing track ${index + 1} of ${tracks.length} (${track.speaker_name || track.name})`;
+      await onProgress?.(Math.round((index / tracks.length) * 100), trackLabel);
+
+      const result = await provider.transcribe(
+        {
+          filePath: track.file_path,
+          language: options.language,
+          enableSpeakerDiarization: false,
+          vocabulary: options.vocabulary,
+          signal: options.signal
+        },
+        onProgress
+          ? (progress) => onProgress(Math.round(((index + progress / 100) / tracks.length) * 100), trackLabel)
+          : undefined
+      );
+
+      results.push({
+        ...result,
+        segments: result.segments.map((segment) => ({
+          ...segment,
+          segment_id: uuidv4(),
+          speaker_id: track.speaker_id,
+          speaker_name: track.speaker_name
+        }))
+      });
+    }
 
-      // Get recording
-      const recording = await this.audioRecordingRepository.findById(transcription.recording_id);
-      
-      if (!recording) {
-        throw new Error('Recording not found');
-      }
+    const segments = results
+      .flatMap((result) => result.segments)
+      .sort((a, b) => a.start_time - b.start_time || a.end_time - b.end_time);
+    // Weigh the confidence of each track by how much of the transcript it holds
+    const confidence = segments.length
+      ? results.reduce((total, result) => total + result.confidence_score * result.segments.length, 0) / segments.length
+      : 0;
+
+    return {
+      segments,
+      language_code: options.language || results.find((result) => result.segments.length > 0)?.language_code || '',
+      confidence_score: confidence,
+      model_version: results[0]?.model_version || '',
+      speaker_count: results.filter((result) => result.segments.length > 0).length
+    };
+  }
 
-      // In a real implementation, you would:
-      // 1. Process with Vosk for offline initial transcription
-      // 2. Process with Whisper for higher accuracy
-      // 3. Merge results based on confidence scores
-      // 4. Apply speaker diarization with pyannote if enabled
+  /**
+   * Redact segments of a session with the rules of its campaign
+   * @param sessionId Session ID
+   * @param segments Segments of one transcript
+   * @returns Redacted segments, or the segments as given when no redaction service is set up
+   */
+  private async redactSegments(sessionId: string, segments: TranscriptionSegment[]): Promise<SegmentsRedaction> {
+    return this.redactionService
+      ? this.redactionService.redactSegments(sessionId, segments)
+      : { segments, segments_removed: 0, segments_redacted: 0, words_redacted: 0, silenced_ranges: [] };
+  }
 
-      // For now, we'll just use the Whisper mock implementation
-      return this.processWithWhisper(transcriptionId, enableSpeakerDiarization);
-    } catch (error) {
-      console.error('Error processing transcription with hybrid approach:', error);
-      throw error;
+  /**
+   * Give segments the category found by the classifier. Segments whose category was set by hand keep it.
+   * @param segments Segments of one transcript, in time order
+   * @returns Classified segments, or the segments as given when no classifier is set up
+   */
+  private async classifySegments(segments: TranscriptionSegment[]): Promise<TranscriptionSegment[]> {
+    if (!this.segmentClassifier || segments.length === 0) {
+      return segments;
     }
+
+    const classifications = await this.segmentClassifier.classify(segments);
+    return segments.map((segment, index) =>
+      segment.category_set_by || !classifications[index]
+        ? segment
+        : {
+            ...segment,
+            category: classifications[index].category,
+            category_confidence: classifications[index].confidence
+          }
+    );
+  }
+
+  /**
+   * List the transcription providers with their capabilities and availability
+   * @returns Provider information
+   */
+  public async getProviders(): Promise<TranscriptionProviderInfo[]> {
+    return this.providerRegistry.list();
   }
 
   /**
@@ -315,7 +688,7 @@ export class TranscriptionService {
   }
 
   /**
-   * Update speaker identification
+   * Update speaker identification. Assigning a character or player teaches the speaker profiles of the campaign.
    * @param speakerId Speaker ID
    * @param params Speaker identification update parameters
    * @returns Updated speaker identification
@@ -324,7 +697,11 @@ export class TranscriptionService {
     speakerId: string,
     params: SpeakerIdentificationUpdateParams
   ): Promise<SpeakerIdentification> {
-    return this.transcriptionRepository.updateSpeakerIdentification(speakerId, params);
+    const speaker = await this.transcriptionRepository.updateSpeakerIdentification(speakerId, params);
+    if (this.speakerProfileService && (params.character_id || params.user_id)) {
+      await this.speakerProfileService.learnFromSpeaker(speakerId);
+    }
+    return speaker;
   }
 
   /**
@@ -0,0 +1,166 @@
+import { TrashRepository } from '../repositories/trash.repository';
+import { TrashEntityType, TrashEntry, TrashRestoreResult } from '../models/trash.model';
+
+/**
+ * How often expired trash entries are purged
+ */
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Service for the campaign trash
+ */
+export class TrashService {
+  private trashRepository: TrashRepository;
+  private retentionDays: number;
+  private purgeTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * @param trashRepository Trash repository
+   * @param retentionDays Days a deleted entity is kept before it is purged; 0 keeps entries until purged by hand
+   */
+  constructor(trashRepository: TrashRepository, retentionDays: number) {
+    this.trashRepository = trashRepository;
+    this.retentionDays = retentionDays;
+  }
+
+  /**
+   * Get the trash of a campaign
+   * @param campaignId Campaign ID
+   * @param page Page number
+   * @param limit Items per page
+   * @param entityType Optional entity type filter
+   * @returns Trash entries and total count
+   */
+  public async getCampaignTrash(
+    campaignId: string,
+    page = 1,
+    limit = 20,
+    entityType?: TrashEntityType
+  ): Promise<{ entries: TrashEntry[]; total: number }> {
+    try {
+      const { entries, total } = await this.trashRepository.findByCampaign(campaignId, page, limit, entityType);
+      return { entries: entries.map((entry) => this.withExpiry(entry)), total };
+    } catch (error) {
+      console.error('Error getting campaign trash:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a trash entry
+   * @param trashId Trash entry ID
+   * @returns Trash entry, or null if not found
+   */
+  public async getEntry(trashId: string): Promise<TrashEntry | null> {
+    try {
+      const entry = await this.trashRepository.findById(trashId);
+      return entry ? this.withExpiry(entry) : null;
+    } catch (error) {
+      console.error('Error getting trash entry:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Restore a trashed entity
+   * @param trashId Trash entry ID
+   * @returns Restore outcome, or null if the entry does not exist
+   */
+  public async restore(trashId: string): Promise<TrashRestoreResult | null> {
+    try {
+      return await this.trashRepository.restore(trashId);
+    } catch (error) {
+      console.error('Error restoring trash entry:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Permanently delete a trash entry
+   * @param trashId Trash entry ID
+   * @returns True if deleted
+   */
+  public async purge(trashId: string): Promise<boolean> {
+    try {
+      return await this.trashRepository.purge(trashId);
+    } catch (error) {
+      console.error('Error purging trash entry:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Permanently delete everything in a campaign's trash
+   * @param campaignId Campaign ID
+   * @returns Number of entries deleted
+   */
+  public async emptyCampaignTrash(campaignId: string): Promise<number> {
+    try {
+      return await this.trashRepository.purgeCampaign(campaignId);
+    } catch (error) {
+      console.error('Error emptying campaign trash:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Permanently delete entries older than the retention period
+   * @param now Current time
+   * @returns Number of entries deleted
+   */
+  public async purgeExpired(now: Date = new Date()): Promise<number> {
+    try {
+      if (this.retentionDays <= 0) {
+        return 0;
+      }
+      const cutoff = new Date(now.getTime() - this.retentionDays * DAY_MS).toISOString();
+      return await this.trashRepository.purgeDeletedBefore(cutoff);
+    } catch (error) {
+      console.error('Error purging expired trash entries:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Purge expired entries now and then periodically
+   * @param intervalMs Time between purges
+   */
+  public startAutoPurge(intervalMs: number = PURGE_INTERVAL_MS): void {
+    if (this.purgeTimer || this.retentionDays <= 0) {
+      return;
+    }
+
+    const run = () => {
+      this.purgeExpired().catch((error) => console.error('Error during scheduled trash purge:', error));
+    };
+
+    run();
+    this.purgeTimer = setInterval(run, intervalMs);
+    this.purgeTimer.unref();
+  }
+
+  /**
+   * Stop purging expired entries periodically
+   */
+  public stopAutoPurge(): void {
+    if (this.purgeTimer) {
+      clearInterval(this.purgeTimer);
+      this.purgeTimer = null;
+    }
+  }
+
+  /**
+   * Add the time at which an entry will be purged
+   * @param entry Trash entry
+   * @returns Trash entry with expiry
+   */
+  private withExpiry(entry: TrashEntry): TrashEntry {
+    if (this.retentionDays <= 0) {
+      return entry;
+    }
+    const expiresAt = new Date(new Date(entry.deleted_at).getTime() + this.retentionDays * DAY_MS);
+    return { ...entry, expires_at: expiresAt.toISOString() };
+  }
+}
@@ -0,0 +1,243 @@
+import * as fs from 'fs';
+import { AudioRecordingRepository } from '../repositories/audio-recording.repository';
+import { AudioRecording } from '../models/audio-recording.model';
+import { ProgressCallback } from '../models/job.model';
+import { runFfmpeg } from '../utils/ffmpeg';
+import { PeakBuilder, WaveformPeaks, decodeWaveformPeaks, encodeWaveformPeaks } from '../utils/waveform-peaks';
+
+/**
+ * Waveform options
+ */
+export interface WaveformOptions {
+  /**
+   * Path or name on the PATH of the ffmpeg command line tool, used to decode recordings
+   */
+  ffmpegPath: string;
+  /**
+   * Peaks per second of the finest level
+   */
+  peaksPerSecond: number;
+  /**
+   * Longest decoding a recording may take before ffmpeg is stopped; 0 disables the limit
+   */
+  timeoutMs: number;
+}
+
+const DEFAULT_OPTIONS: WaveformOptions = {
+  ffmpegPath: 'ffmpeg',
+  peaksPerSecond: 50,
+  timeoutMs: 0
+};
+
+/**
+ * Section of the waveform of a recording at the resolution closest to the one asked for
+ */
+export interface WaveformData {
+  recording_id: string;
+  duration_seconds: number;
+  seconds_per_peak: number;
+  /**
+   * Time of the first peak
+   */
+  start_time: number;
+  /**
+   * Lowest and highest sample of each peak, interleaved, scaled to 8 bits (-128 to 127)
+   */
+  peaks: number[];
+}
+
+/**
+ * Section and resolution of a waveform request
+ */
+export interface WaveformQuery {
+  /**
+   * Number of peaks wanted over the section, such as the width of the waveform in pixels
+   */
+  peaks?: number;
+  start?: number;
+  end?: number;
+}
+
+/**
+ * Error thrown when the waveform of a recording cannot be computed
+ */
+export class WaveformError extends Error {
+  public readonly code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.name = 'WaveformError';
+    this.code = code;
+  }
+}
+
+/**
+ * Recordings are decoded to mono PCM at this rate, which is plenty to draw them
+ */
+const DECODE_SAMPLE_RATE = 8000;
+
+/**
+ * Peaks returned when a request does not say how many it wants
+ */
+const DEFAULT_PEAKS = 1000;
+
+/**
+ * Computes the waveform peaks of audio recordings at several resolutions and caches them next to the audio file, so
+ * players can draw a whole session or zoom into a part of it without loading the audio.
+ */
+export class WaveformService {
+  private audioRecordingRepository: AudioRecordingRepository;
+  private options: WaveformOptions;
+  private pending = new Map<string, Promise<WaveformPeaks>>();
+
+  /**
+   * @param audioRecordingRepository Audio recording repository
+   * @param options Waveform options
+   */
+  constructor(audioRecordingRepository: AudioRecordingRepository, options: Partial<WaveformOptions> = {}) {
+    this.audioRecordingRepository = audioRecordingRepository;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Path of the cached peaks of a recording
+   * @param recording Audio recording
+   * @returns Cache file path
+   */
+  public static getCachePath(recording: AudioRecording): string {
+    return `${recording.file_path}.peaks`;
+  }
+
+  /**
+   * Get a section of the waveform of a recording, computing the peaks first if they are not cached
+   * @param recordingId Recording ID
+   * @param query Section and resolution
+   * @returns Waveform, or null if the recording does not exist
+   * @throws WaveformError if the recording cannot be decoded
+   */
+  public async getWaveform(recordingId: string, query: WaveformQuery = {}): Promise<WaveformData | null> {
+    const recording = await this.audioRecordingRepository.findById(recordingId);
+    if (!recording) {
+      return null;
+    }
+
+    const waveform = (await this.readCache(recording)) || (await this.compute(recording));
+    const start = Math.max(0, query.start || 0);
+    const end = Math.min(query.end ?? waveform.duration_seconds, waveform.duration_seconds);
+    const wanted = query.peaks || DEFAULT_PEAKS;
+
+    // Coarsest level that still gives at least the wanted number of peaks over the section
+    const span = Math.max(0, end - start);
+    const level =
+      [...waveform.levels].reverse().find((candidate) => span / candidate.seconds_per_peak >= wanted) ||
+      waveform.levels[0];
+
+    const first = Math.floor(start / level.seconds_per_peak);
+    const last = Math.min(Math.ceil(end / level.seconds_per_peak), level.peaks.length / 2);
+    return {
+      recording_id: recordingId,
+      duration_seconds: waveform.duration_seconds,
+      seconds_per_peak: level.seconds_per_peak,
+      start_time: first * level.seconds_per_peak,
+      peaks: Array.from(level.peaks.subarray(first * 2, Math.max(first, last) * 2))
+    };
+  }
+
+  /**
+   * Compute and cache the peaks of a recording, replacing any cached ones
+   * @param recordingId Recording ID
+   * @param onProgress Optional progress callback
+   * @returns False if the recording does not exist
+   * @throws WaveformError if the recording cannot be decoded
+   */
+  public async generate(recordingId: string, onProgress?: ProgressCallback): Promise<boolean> {
+    const recording = await this.audioRecordingRepository.findById(recordingId);
+    if (!recording) {
+      return false;
+    }
+    await this.compute(recording, onProgress);
+    return true;
+  }
+
+  /**
+   * Read the cached peaks of a recording if they were computed from its current audio file
+   * @param recording Audio recording
+   * @returns Peaks, or null if there are none or they are stale
+   */
+  private async readCache(recording: AudioRecording): Promise<WaveformPeaks | null> {
+    try {
+      const [cache, source] = await Promise.all([
+        fs.promises.readFile(WaveformService.getCachePath(recording)),
+        fs.promises.stat(recording.file_path)
+      ]);
+      const waveform = decodeWaveformPeaks(cache);
+      if (!waveform || waveform.source_size !== source.size || waveform.source_modified !== source.mtimeMs) {
+        return null;
+      }
+      return waveform;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Decode a recording, compute its peaks and cache them. Concurrent calls for a recording share one run.
+   * @param recording Audio recording
+   * @param onProgress Optional progress callback
+   * @returns Peaks
+   */
+  private compute(recording: AudioRecording, onProgress?: ProgressCallback): Promise<WaveformPeaks> {
+    const running = this.pending.get(recording.recording_id);
+    if (running) {
+      return running;
+    }
+
+    const run = (async () => {
+      const source = await fs.promises.stat(recording.file_path).catch(() => {
+        throw new WaveformError('AUDIO_FILE_MISSING', 'The audio file of the recording is missing');
+      });
+
+      const builder = new PeakBuilder(DECODE_SAMPLE_RATE, this.options.peaksPerSecond);
+      const totalSamples = recording.duration_seconds * DECODE_SAMPLE_RATE;
+      let reported = 0;
+      await this.decode(recording.file_path, (chunk) => {
+        builder.push(chunk);
+        const progress = totalSamples > 0 ? Math.min(99, Math.floor((builder.sampleCount / totalSamples) * 100)) : 0;
+        if (onProgress && progress >= reported + 5) {
+          reported = progress;
+          void Promise.resolve(onProgress(progress, 'Computing waveform')).catch((error) =>
+            console.error('Error reporting waveform progress:', error)
+          );
+        }
+      });
+
+      const waveform: WaveformPeaks = {
+        duration_seconds: builder.sampleCount / DECODE_SAMPLE_RATE,
+        source_size: source.size,
+        source_modified: source.mtimeMs,
+        levels: builder.finish()
+      };
+      await fs.promises.writeFile(WaveformService.getCachePath(recording), encodeWaveformPeaks(waveform));
+      return waveform;
+    })();
+
+    this.pending.set(recording.recording_id, run);
+    return run.finally(() => this.pending.delete(recording.recording_id));
+  }
+
+  /**
+   * Decode an audio file to signed 16-bit mono PCM with ffmpeg
+   * @param filePath Audio file path
+   * @param onData Receives the PCM as it is decoded
+   */
+  private decode(filePath: string, onData: (chunk: Buffer) => void): Promise<void> {
+    return runFfmpeg(
+      ['-hide_banner', '-loglevel', 'error', '-i', filePath, '-vn', '-ac', '1', '-ar', String(DECODE_SAMPLE_RATE), '-f', 's16le', 'pipe:1'],
+      { ...this.options, onData },
+      (message) => new WaveformError('DECODE_FAILED', message)
+    );
+  }
+}
@@ -1,6 +1,8 @@
 import { Request, Response } from 'express';
 import { SessionAnalysisController } from '../../controllers/session-analysis.controller';
 import { SessionAnalysisService } from '../../services/session-analysis.service';
+import { JobQueueService } from '../../services/job-queue.service';
+import { Job, JobStatus, JobType } from '../../models/job.model';
 import { 
   SessionAnalysis, 
   AnalysisProcessingOptions,
@@ -14,17 +16,31 @@ jest.mock('../../services/session-analysis.service');
 describe('SessionAnalysisController', () => {
   let sessionAnalysisController: SessionAnalysisController;
   let sessionAnalysisService: jest.Mocked<SessionAnalysisService>;
-  let req: Partial<Request>;
+  let jobQueueService: jest.Mocked<JobQueueService>;
+  let req: Partial<Request> & { user?: { user_id: string } };
   let res: Partial<Response>;
   let jsonMock: jest.Mock;
   let statusMock: jest.Mock;
 
   // Mock data
   const mockUserId = 'user-123';
-  const mockSessionId = 'session-123';
-  const mockTranscriptionId = 'transcription-123';
+  const mockSessionId = '11111111-1111-1111-1111-111111111111';
+  const mockTranscriptionId = '22222222-2222-2222-2222-222222222222';
   const mockRecordingId = 'recording-123';
   const mockAnalysisId = 'analysis-123';
+  const mockJob: Job = {
+    job_id: 'job-123',
+    type: JobType.SESSION_ANALYSIS,
+    status: JobStatus.QUEUED,
+    payload: { analysis_id: mockAnalysisId },
+    progress: 0,
+    attempts: 0,
+    max_attempts: 3,
+    created_by: mockUserId,
+    created_at: '2023-01-01T00:00:00.000Z',
+    updated_at: '2023-01-01T00:00:00.000Z',
+    run_after: '2023-01-01T00:00:00.000Z'
+  };
 
   const mockSessionAnalysis: SessionAnalysis = {
     analysis_id: mockAnalysisId,
@@ -59,7 +75,11 @@ describe('SessionAnalysisController', () => {
     } as unknown as jest.Mocked<SessionAnalysisService>;
 
     // Create controller with mock service
-    sessionAnalysisController = new SessionAnalysisController(sessionAnalysisService);
+    jobQueueService = {
+      enqueue: jest.fn()
+    } as unknown as jest.Mocked<JobQueueService>;
+
+    sessionAnalysisController = new SessionAnalysisController(sessionAnalysisService, jobQueueService);
 
     // Create mock request and response
     jsonMock = jest.fn();
@@ -67,7 +87,7 @@ describe('SessionAnalysisController', () => {
     req = {
       params: {},
       body: {},
-      user: { id: mockUserId }
+      user: { user_id: mockUserId }
     };
     res = {
       status: statusMock,
@@ -88,6 +108,7 @@ describe('SessionAnalysisController', () => {
     sessionAnalysisService.deleteSessionAnalysis.mockResolvedValue(true);
     sessionAnalysisService.process.mockResolvedValue(mockSessionAnalysis);
     sessionAnalysisService.processSessionAnalysis.mockResolvedValue(mockSessionAnalysis);
+    jobQueueService.enqueue.mockResolvedValue(mockJob);
   });
 
   describe('getById', () => {
@@ -248,7 +269,8 @@ describe('SessionAnalysisController', () => {
 
       expect(sessionAnalysisService.create).toHaveBeenCalledWith({
         session_id: mockSessionId,
-        transcription_id: mockTranscriptionId
+        transcription_id: mockTranscriptionId,
+        created_by: mockUserId
       });
       expect(statusMock).toHaveBeenCalledWith(201);
       expect(jsonMock).toHaveBeenCalledWith({
@@ -285,7 +307,8 @@ describe('SessionAnalysisController', () => {
 
       expect(sessionAnalysisService.create).toHaveBeenCalledWith({
         session_id: mockSessionId,
-        transcription_id: mockTranscriptionId
+        transcription_id: mockTranscriptionId,
+        created_by: mockUserId
       });
       expect(statusMock).toHaveBeenCalledWith(500);
       expect(jsonMock).toHaveBeenCalledWith({
@@ -353,7 +376,7 @@ describe('SessionAnalysisController', () => {
   });
 
   describe('process', () => {
-    it('should process a session analysis', async () => {
+    it('should queue a session analysis for processing', async () => {
       req.params = { analysisId: mockAnalysisId };
       req.body = {
         include_sentiment_analysis: true,
@@ -367,11 +390,15 @@ describe('SessionAnalysisController', () => {
       await sessionAnalysisController.process(req as Request, res as Response);
 
       expect(sessionAnalysisService.getById).toHaveBeenCalledWith(mockAnalysisId);
-      expect(sessionAnalysisService.process).toHaveBeenCalledWith(mockAnalysisId, req.body);
-      expect(statusMock).toHaveBeenCalledWith(200);
+      expect(jobQueueService.enqueue).toHaveBeenCalledWith({
+        type: JobType.SESSION_ANALYSIS,
+        payload: { analysis_id: mockAnalysisId, options: req.body },
+        created_by: mockUserId
+      });
+      expect(statusMock).toHaveBeenCalledWith(202);
       expect(jsonMock).toHaveBeenCalledWith({
         success: true,
-        data: mockSessionAnalysis
+        data: mockJob
       });
     });
 
@@ -384,7 +411,7 @@ describe('SessionAnalysisController', () => {
       await sessionAnalysisController.process(req as Request, res as Response);
 
       expect(sessionAnalysisService.getById).not.toHaveBeenCalled();
-      expect(sessionAnalysisService.process).not.toHaveBeenCalled();
+      expect(jobQueueService.enqueue).not.toHaveBeenCalled();
       expect(statusMock).toHaveBeenCalledWith(400);
       expect(jsonMock).toHaveBeenCalledWith(expect.objectContaining({
         success: false,
@@ -404,7 +431,7 @@ describe('SessionAnalysisController', () => {
       await sessionAnalysisController.process(req as Request, res as Response);
 
       expect(sessionAnalysisService.getById).toHaveBeenCalledWith(mockAnalysisId);
-      expect(sessionAnalysisService.process).not.toHaveBeenCalled();
+      expect(jobQueueService.enqueue).not.toHaveBeenCalled();
       expect(statusMock).toHaveBeenCalledWith(404);
       expect(jsonMock).toHaveBeenCalledWith({
         success: false,
@@ -420,12 +447,12 @@ describe('SessionAnalysisController', () => {
       req.body = {
         include_sentiment_analysis: true
       };
-      sessionAnalysisService.process.mockRejectedValue(new Error('Test error'));
+      jobQueueService.enqueue.mockRejectedValue(new Error('Test error'));
 
       await sessionAnalysisController.process(req as Request, res as Response);
 
       expect(sessionAnalysisService.getById).toHaveBeenCalledWith(mockAnalysisId);
-      expect(sessionAnalysisService.process).toHaveBeenCalledWith(mockAnalysisId, req.body);
+      expect(jobQueueService.enqueue).toHaveBeenCalled();
       expect(statusMock).toHaveBeenCalledWith(500);
       expect(jsonMock).toHaveBeenCalledWith({
         success: false,
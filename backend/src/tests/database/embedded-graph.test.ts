@@ -0,0 +1,166 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DatabaseService } from '../../services/database.service';
+
+describe('Embedded graph store', () => {
+  let dbService: DatabaseService;
+
+  beforeEach(async () => {
+    dbService = new DatabaseService({ driver: 'embedded', embeddedPath: ':memory:' });
+    await dbService.initialize();
+  });
+
+  afterEach(async () => {
+    await dbService.close();
+  });
+
+  const createCampaignWithCharacters = async () => {
+    await dbService.writeTransaction(async (tx) => {
+      await tx.run('CREATE (c:Campaign $campaign)', {
+        campaign: { campaign_id: 'campaign-1', name: 'Curse of Strahd', created_at: '2024-01-01T00:00:00.000Z' },
+      });
+      for (const [characterId, name] of [['char-1', 'Ireena'], ['char-2', 'Strahd'], ['char-3', 'Ismark']]) {
+        await tx.run('CREATE (c:Character $character)', {
+          character: { character_id: characterId, name, is_player_character: false },
+        });
+        await tx.run(
+          `
+          MATCH (c:Character {character_id: $characterId})
+          MATCH (camp:Campaign {campaign_id: $campaignId})
+          MERGE (c)-[:BELONGS_TO]->(camp)
+          `,
+          { characterId, campaignId: 'campaign-1' }
+        );
+      }
+    });
+  };
+
+  it('should report the embedded backend', () => {
+    expect(dbService.isEmbedded()).toBe(true);
+  });
+
+  it('should read back created nodes with map projections', async () => {
+    await createCampaignWithCharacters();
+
+    const character = await dbService.readTransaction(async (tx) => {
+      const result = await tx.run(
+        `
+        MATCH (c:Character {character_id: $characterId})
+        OPTIONAL MATCH (c)-[:BELONGS_TO]->(camp:Campaign)
+        RETURN c {
+          .*,
+          campaign_id: camp.campaign_id
+        } as character
+        `,
+        { characterId: 'char-2' }
+      );
+      return result.records[0].get('character');
+    });
+
+    expect(character).toEqual({
+      character_id: 'char-2',
+      name: 'Strahd',
+      is_player_character: false,
+      campaign_id: 'campaign-1',
+    });
+  });
+
+  it('should support counting, ordering and pagination', async () => {
+    await createCampaignWithCharacters();
+
+    const { names, total } = await dbService.readTransaction(async (tx) => {
+      const countResult = await tx.run(
+        'MATCH (c:Character)-[:BELONGS_TO]->(:Campaign {campaign_id: $campaignId}) RETURN count(c) as total',
+        { campaignId: 'campaign-1' }
+      );
+      const listResult = await tx.run(
+        `
+        MATCH (c:Character)
+        WHERE toLower(c.name) CONTAINS toLower($search)
+        RETURN c.name as name
+        ORDER BY c.name
+        SKIP $skip
+        LIMIT $limit
+        `,
+        { search: 'i', skip: 0, limit: 2 }
+      );
+      return {
+        total: countResult.records[0].get('total').toNumber(),
+        names: listResult.records.map((record) => record.get('name')),
+      };
+    });
+
+    expect(total).toBe(3);
+    expect(names).toEqual(['Ireena', 'Ismark']);
+  });
+
+  it('should update and delete nodes', async () => {
+    await createCampaignWithCharacters();
+
+    await dbService.writeTransaction(async (tx) => {
+      await tx.run('MATCH (c:Character {character_id: $characterId}) SET c += $updates', {
+        characterId: 'char-1',
+        updates: { name: 'Ireena Kolyana', updated_at: '2024-02-01T00:00:00.000Z' },
+      });
+      await tx.run('MATCH (c:Character {character_id: $characterId}) DETACH DELETE c', { characterId: 'char-3' });
+    });
+
+    const names = await dbService.readTransaction(async (tx) => {
+      const result = await tx.run('MATCH (c:Character) RETURN c.name as name ORDER BY name');
+      return result.records.map((record) => record.get('name'));
+    });
+
+    expect(names).toEqual(['Ireena Kolyana', 'Strahd']);
+  });
+
+  it('should roll back a failed write transaction', async () => {
+    await expect(
+      dbService.writeTransaction(async (tx) => {
+        await tx.run('CREATE (c:Campaign {campaign_id: $campaignId})', { campaignId: 'campaign-2' });
+        throw new Error('Validation failed');
+      })
+    ).rejects.toThrow('Validation failed');
+
+    const count = await dbService.readTransaction(async (tx) => {
+      const result = await tx.run('MATCH (c:Campaign) RETURN count(c) as total');
+      return result.records[0].get('total').toNumber();
+    });
+
+    expect(count).toBe(0);
+  });
+
+  it('should reject writes in a read transaction', async () => {
+    await expect(
+      dbService.readTransaction(async (tx) => tx.run('CREATE (c:Campaign {campaign_id: "campaign-3"})'))
+    ).rejects.toThrow('Writing in read access mode not allowed');
+  });
+
+  it('should persist data across restarts', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'rpg-archivist-'));
+    const filePath = path.join(directory, 'test.graph');
+
+    try {
+      const first = new DatabaseService({ driver: 'embedded', embeddedPath: filePath });
+      await first.initialize();
+      await first.writeTransaction(async (tx) => {
+        await tx.run('CREATE (w:RPGWorld {world_id: $worldId, name: $name})', { worldId: 'world-1', name: 'Barovia' });
+      });
+      await first.close();
+
+      const second = new DatabaseService({ driver: 'embedded', embeddedPath: filePath });
+      await second.initialize();
+      const name = await second.readTransaction(async (tx) => {
+        const result = await tx.run('MATCH (w:RPGWorld {world_id: $worldId}) RETURN w.name as name', {
+          worldId: 'world-1',
+        });
+        return result.records[0].get('name');
+      });
+      await second.close();
+
+      expect(name).toBe('Barovia');
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
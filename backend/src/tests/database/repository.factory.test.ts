@@ -134,7 +134,7 @@ describe('RepositoryFactory', () => {
       expect(repository).toBeInstanceOf(SessionRepository);
       
       // Verify that the repository was created with the DatabaseService
-      expect(SessionRepository).toHaveBeenCalledWith(mockDatabaseService);
+      expect(SessionRepository).toHaveBeenCalledWith(mockDatabaseService, repositoryFactory.getTrashRepository());
     });
 
     it('should return a CharacterRepository', () => {
@@ -144,7 +144,11 @@ describe('RepositoryFactory', () => {
       expect(repository).toBeInstanceOf(CharacterRepository);
       
       // Verify that the repository was created with the DatabaseService
-      expect(CharacterRepository).toHaveBeenCalledWith(mockDatabaseService);
+      expect(CharacterRepository).toHaveBeenCalledWith(
+        mockDatabaseService,
+        repositoryFactory.getRevisionRepository(),
+        repositoryFactory.getTrashRepository()
+      );
     });
 
     it('should return a LocationRepository', () => {
@@ -154,7 +158,11 @@ describe('RepositoryFactory', () => {
       expect(repository).toBeInstanceOf(LocationRepository);
       
       // Verify that the repository was created with the DatabaseService
-      expect(LocationRepository).toHaveBeenCalledWith(mockDatabaseService);
+      expect(LocationRepository).toHaveBeenCalledWith(
+        mockDatabaseService,
+        repositoryFactory.getRevisionRepository(),
+        repositoryFactory.getTrashRepository()
+      );
     });
 
     it('should return a TranscriptionRepository', () => {
@@ -184,7 +192,11 @@ describe('RepositoryFactory', () => {
       expect(repository).toBeInstanceOf(PowerRepository);
       
       // Verify that the repository was created with the DatabaseService
-      expect(PowerRepository).toHaveBeenCalledWith(mockDatabaseService);
+      expect(PowerRepository).toHaveBeenCalledWith(
+        mockDatabaseService,
+        repositoryFactory.getRevisionRepository(),
+        repositoryFactory.getTrashRepository()
+      );
     });
 
     it('should return an ItemRepository', () => {
@@ -194,7 +206,11 @@ describe('RepositoryFactory', () => {
       expect(repository).toBeInstanceOf(ItemRepository);
       
       // Verify that the repository was created with the DatabaseService
-      expect(ItemRepository).toHaveBeenCalledWith(mockDatabaseService);
+      expect(ItemRepository).toHaveBeenCalledWith(
+        mockDatabaseService,
+        repositoryFactory.getRevisionRepository(),
+        repositoryFactory.getTrashRepository()
+      );
     });
 
     it('should return an EventRepository', () => {
@@ -204,7 +220,11 @@ describe('RepositoryFactory', () => {
       expect(repository).toBeInstanceOf(EventRepository);
       
       // Verify that the repository was created with the DatabaseService
-      expect(EventRepository).toHaveBeenCalledWith(mockDatabaseService);
+      expect(EventRepository).toHaveBeenCalledWith(
+        mockDatabaseService,
+        repositoryFactory.getRevisionRepository(),
+        repositoryFactory.getTrashRepository()
+      );
     });
 
     it('should return an AudioRecordingRepository', () => {
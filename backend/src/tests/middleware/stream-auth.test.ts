@@ -0,0 +1,58 @@
+import { Request, Response } from 'express';
+import { AuthRequest, authenticateStream, createStreamToken } from '../../middleware/auth.middleware';
+import { UserRole } from '../../models/user.model';
+
+const user = {
+  user_id: 'user-1',
+  username: 'gm',
+  email: 'gm@example.com',
+  role: UserRole.GAME_MASTER,
+  name: 'Game Master'
+};
+
+describe('authenticateStream', () => {
+  const streamRequest = (recordingId: string, token?: string) =>
+    ({ params: { recordingId }, query: token === undefined ? {} : { token }, headers: {} }) as unknown as Request;
+
+  let res: Partial<Response>;
+  let next: jest.Mock;
+
+  beforeEach(() => {
+    res = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn()
+    };
+    next = jest.fn();
+  });
+
+  it('should let the stream token of a recording through as its user', () => {
+    const { token, expires_at } = createStreamToken('recording-1', user);
+    const req = streamRequest('recording-1', token);
+
+    authenticateStream(req, res as Response, next);
+
+    expect(next).toHaveBeenCalled();
+    expect((req as AuthRequest).user).toEqual(user);
+    expect(new Date(expires_at).getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('should refuse the stream token of another recording and tokens that are not stream tokens', () => {
+    const { token } = createStreamToken('recording-2', user);
+
+    authenticateStream(streamRequest('recording-1', token), res as Response, next);
+    authenticateStream(streamRequest('recording-1', 'not-a-token'), res as Response, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledTimes(2);
+    expect(res.status).toHaveBeenCalledWith(401);
+  });
+
+  it('should authenticate requests without a stream token like any other', () => {
+    const req = streamRequest('recording-1');
+
+    authenticateStream(req, res as Response, next);
+
+    expect(next).toHaveBeenCalled();
+    expect((req as AuthRequest).user).toBeDefined();
+  });
+});
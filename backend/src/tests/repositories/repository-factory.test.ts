@@ -71,7 +71,11 @@ describe('RepositoryFactory', () => {
     
     // Assert
     expect(repository).toBeInstanceOf(CharacterRepository);
-    expect(CharacterRepository).toHaveBeenCalledWith(mockDatabaseService);
+    expect(CharacterRepository).toHaveBeenCalledWith(
+      mockDatabaseService,
+      repositoryFactory.getRevisionRepository(),
+      repositoryFactory.getTrashRepository()
+    );
   });
 
   it('should create LocationRepository', () => {
@@ -80,7 +84,11 @@ describe('RepositoryFactory', () => {
     
     // Assert
     expect(repository).toBeInstanceOf(LocationRepository);
-    expect(LocationRepository).toHaveBeenCalledWith(mockDatabaseService);
+    expect(LocationRepository).toHaveBeenCalledWith(
+      mockDatabaseService,
+      repositoryFactory.getRevisionRepository(),
+      repositoryFactory.getTrashRepository()
+    );
   });
 
   it('should create TranscriptionRepository', () => {
@@ -107,7 +115,11 @@ describe('RepositoryFactory', () => {
     
     // Assert
     expect(repository).toBeInstanceOf(PowerRepository);
-    expect(PowerRepository).toHaveBeenCalledWith(mockDatabaseService);
+    expect(PowerRepository).toHaveBeenCalledWith(
+      mockDatabaseService,
+      repositoryFactory.getRevisionRepository(),
+      repositoryFactory.getTrashRepository()
+    );
   });
 
   it('should create ItemRepository', () => {
@@ -116,7 +128,11 @@ describe('RepositoryFactory', () => {
     
     // Assert
     expect(repository).toBeInstanceOf(ItemRepository);
-    expect(ItemRepository).toHaveBeenCalledWith(mockDatabaseService);
+    expect(ItemRepository).toHaveBeenCalledWith(
+      mockDatabaseService,
+      repositoryFactory.getRevisionRepository(),
+      repositoryFactory.getTrashRepository()
+    );
   });
 
   it('should create EventRepository', () => {
@@ -125,7 +141,11 @@ describe('RepositoryFactory', () => {
     
     // Assert
     expect(repository).toBeInstanceOf(EventRepository);
-    expect(EventRepository).toHaveBeenCalledWith(mockDatabaseService);
+    expect(EventRepository).toHaveBeenCalledWith(
+      mockDatabaseService,
+      repositoryFactory.getRevisionRepository(),
+      repositoryFactory.getTrashRepository()
+    );
   });
 
   it('should reuse existing repository instances', () => {
@@ -24,7 +24,7 @@ describe('Character Routes', () => {
 
   beforeEach(() => {
     // Create mock repositories
-    mockCharacterRepository = new CharacterRepository(null as any) as jest.Mocked<CharacterRepository>;
+    mockCharacterRepository = new CharacterRepository(null as any, null as any, null as any) as jest.Mocked<CharacterRepository>;
     mockCampaignRepository = new CampaignRepository(null as any) as jest.Mocked<CampaignRepository>;
     mockUserRepository = new UserRepository(null as any) as jest.Mocked<UserRepository>;
 
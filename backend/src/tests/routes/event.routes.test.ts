@@ -45,10 +45,10 @@ describe('Event Routes', () => {
 
   beforeEach(() => {
     // Create mock repositories
-    mockEventRepository = new EventRepository(null as any) as jest.Mocked<EventRepository>;
-    mockCharacterRepository = new CharacterRepository(null as any) as jest.Mocked<CharacterRepository>;
-    mockItemRepository = new ItemRepository(null as any) as jest.Mocked<ItemRepository>;
-    mockLocationRepository = new LocationRepository(null as any) as jest.Mocked<LocationRepository>;
+    mockEventRepository = new EventRepository(null as any, null as any, null as any) as jest.Mocked<EventRepository>;
+    mockCharacterRepository = new CharacterRepository(null as any, null as any, null as any) as jest.Mocked<CharacterRepository>;
+    mockItemRepository = new ItemRepository(null as any, null as any, null as any) as jest.Mocked<ItemRepository>;
+    mockLocationRepository = new LocationRepository(null as any, null as any, null as any) as jest.Mocked<LocationRepository>;
     mockSessionRepository = new SessionRepository(null as any) as jest.Mocked<SessionRepository>;
     mockCampaignRepository = new CampaignRepository(null as any) as jest.Mocked<CampaignRepository>;
     mockUserRepository = new UserRepository(null as any) as jest.Mocked<UserRepository>;
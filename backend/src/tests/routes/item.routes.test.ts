@@ -31,9 +31,9 @@ describe('Item Routes', () => {
 
   beforeEach(() => {
     // Create mock repositories
-    mockItemRepository = new ItemRepository(null as any) as jest.Mocked<ItemRepository>;
-    mockCharacterRepository = new CharacterRepository(null as any) as jest.Mocked<CharacterRepository>;
-    mockLocationRepository = new LocationRepository(null as any) as jest.Mocked<LocationRepository>;
+    mockItemRepository = new ItemRepository(null as any, null as any, null as any) as jest.Mocked<ItemRepository>;
+    mockCharacterRepository = new CharacterRepository(null as any, null as any, null as any) as jest.Mocked<CharacterRepository>;
+    mockLocationRepository = new LocationRepository(null as any, null as any, null as any) as jest.Mocked<LocationRepository>;
     mockCampaignRepository = new CampaignRepository(null as any) as jest.Mocked<CampaignRepository>;
     mockUserRepository = new UserRepository(null as any) as jest.Mocked<UserRepository>;
 
@@ -24,7 +24,7 @@ describe('Location Routes', () => {
 
   beforeEach(() => {
     // Create mock repositories
-    mockLocationRepository = new LocationRepository(null as any) as jest.Mocked<LocationRepository>;
+    mockLocationRepository = new LocationRepository(null as any, null as any, null as any) as jest.Mocked<LocationRepository>;
     mockCampaignRepository = new CampaignRepository(null as any) as jest.Mocked<CampaignRepository>;
     mockUserRepository = new UserRepository(null as any) as jest.Mocked<UserRepository>;
 
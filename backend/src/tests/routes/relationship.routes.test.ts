@@ -32,8 +32,8 @@ describe('Relationship Routes', () => {
   beforeEach(() => {
     // Create mock repositories
     mockRelationshipRepository = new RelationshipRepository(null as any) as jest.Mocked<RelationshipRepository>;
-    mockCharacterRepository = new CharacterRepository(null as any) as jest.Mocked<CharacterRepository>;
-    mockLocationRepository = new LocationRepository(null as any) as jest.Mocked<LocationRepository>;
+    mockCharacterRepository = new CharacterRepository(null as any, null as any, null as any) as jest.Mocked<CharacterRepository>;
+    mockLocationRepository = new LocationRepository(null as any, null as any, null as any) as jest.Mocked<LocationRepository>;
     mockCampaignRepository = new CampaignRepository(null as any) as jest.Mocked<CampaignRepository>;
     mockUserRepository = new UserRepository(null as any) as jest.Mocked<UserRepository>;
 
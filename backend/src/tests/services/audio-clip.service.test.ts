@@ -0,0 +1,78 @@
+import { DatabaseService } from '../../services/database.service';
+import { AudioRecordingRepository } from '../../repositories/audio-recording.repository';
+import { AudioClipService } from '../../services/audio-clip.service';
+import { parseByteRange } from '../../utils/http-range';
+
+describe('parseByteRange', () => {
+  it('should parse single byte ranges', () => {
+    expect(parseByteRange('bytes=0-99', 1000)).toEqual({ start: 0, end: 99 });
+    expect(parseByteRange('bytes=500-', 1000)).toEqual({ start: 500, end: 999 });
+    expect(parseByteRange('bytes=-200', 1000)).toEqual({ start: 800, end: 999 });
+    // Ranges running past the end are cut short
+    expect(parseByteRange('bytes=900-5000', 1000)).toEqual({ start: 900, end: 999 });
+  });
+
+  it('should reject ranges outside the file and ignore headers it does not handle', () => {
+    expect(parseByteRange('bytes=1000-', 1000)).toBe('unsatisfiable');
+    expect(parseByteRange('bytes=50-10', 1000)).toBe('unsatisfiable');
+    expect(parseByteRange('bytes=-0', 1000)).toBe('unsatisfiable');
+    expect(parseByteRange(undefined, 1000)).toBeNull();
+    expect(parseByteRange('bytes=0-10, 20-30', 1000)).toBeNull();
+    expect(parseByteRange('items=0-10', 1000)).toBeNull();
+  });
+});
+
+describe('AudioClipService', () => {
+  let dbService: DatabaseService;
+  let audioRecordingRepository: AudioRecordingRepository;
+  let recordingId: string;
+
+  beforeEach(async () => {
+    dbService = new DatabaseService({ driver: 'embedded', embeddedPath: ':memory:' });
+    await dbService.initialize();
+    await dbService.writeTransaction(async (tx) => {
+      await tx.run(`CREATE (:Session {session_id: '11111111-1111-1111-1111-111111111111', name: 'The Crypt'})`);
+    });
+    audioRecordingRepository = new AudioRecordingRepository(dbService);
+
+    const recording = await audioRecordingRepository.create(
+      {
+        session_id: '11111111-1111-1111-1111-111111111111',
+        name: 'Session 1',
+        file_path: '/recordings/session-1.webm',
+        duration_seconds: 600,
+        file_size_bytes: 1000,
+        file_format: 'webm',
+        codec: 'opus',
+        sample_rate: 48000,
+        channels: 1,
+        bit_depth: 0
+      },
+      'user-1'
+    );
+    recordingId = recording.recording_id;
+  });
+
+  afterEach(async () => {
+    await dbService.close();
+  });
+
+  it('should validate the clip before running ffmpeg', async () => {
+    const audioClipService = new AudioClipService(audioRecordingRepository, { maxClipSeconds: 60 });
+
+    expect(await audioClipService.createClip('22222222-2222-2222-2222-222222222222', 0, 10)).toBeNull();
+    await expect(audioClipService.createClip(recordingId, 30, 20)).rejects.toMatchObject({ code: 'INVALID_CLIP_RANGE' });
+    await expect(audioClipService.createClip(recordingId, 600, 610)).rejects.toMatchObject({ code: 'INVALID_CLIP_RANGE' });
+    await expect(audioClipService.createClip(recordingId, 0, 61)).rejects.toMatchObject({ code: 'CLIP_TOO_LONG' });
+  });
+
+  it('should report an ffmpeg that cannot be started', async () => {
+    const audioClipService = new AudioClipService(audioRecordingRepository, { ffmpegPath: '/nonexistent/ffmpeg' });
+
+    // The end is clamped to the length of the recording before the clip is cut
+    await expect(audioClipService.createClip(recordingId, 590, 700)).rejects.toMatchObject({
+      code: 'CLIP_FAILED',
+      message: expect.stringContaining('Could not start ffmpeg')
+    });
+  });
+});
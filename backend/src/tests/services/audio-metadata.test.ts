@@ -0,0 +1,249 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AudioMetadataError, readAudioMetadata, readAudioMetadataFromFile } from '../../utils/audio-metadata';
+
+/**
+ * Build a PCM WAV file
+ */
+const wav = (sampleRate: number, channels: number, bitDepth: number, seconds: number): Buffer => {
+  const byteRate = (sampleRate * channels * bitDepth) / 8;
+  const dataBytes = byteRate * seconds;
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0, 'latin1');
+  header.writeUInt32LE(36 + dataBytes, 4);
+  header.write('WAVEfmt ', 8, 'latin1');
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(channels, 22);
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(byteRate, 28);
+  header.writeUInt16LE((channels * bitDepth) / 8, 32);
+  header.writeUInt16LE(bitDepth, 34);
+  header.write('data', 36, 'latin1');
+  header.writeUInt32LE(dataBytes, 40);
+  return Buffer.concat([header, Buffer.alloc(dataBytes)]);
+};
+
+/**
+ * Build an MP3 of 128 kbit/s, 44.1 kHz stereo MPEG-1 Layer III frames
+ */
+const mp3 = (frames: number, xingFrames?: number): Buffer => {
+  const frame = Buffer.alloc(417);
+  frame.set([0xff, 0xfb, 0x90, 0x00]);
+  const first = Buffer.from(frame);
+  if (xingFrames !== undefined) {
+    first.write('Xing', 36, 'latin1');
+    first.writeUInt32BE(1, 40);
+    first.writeUInt32BE(xingFrames, 44);
+  }
+  const id3 = Buffer.from([0x49, 0x44, 0x33, 4, 0, 0, 0, 0, 0, 10, ...Buffer.alloc(10)]);
+  return Buffer.concat([id3, first, ...Array.from({ length: frames - 1 }, () => frame)]);
+};
+
+/**
+ * Build an Ogg page
+ */
+const oggPage = (granule: number, packet: Buffer): Buffer => {
+  const header = Buffer.alloc(28);
+  header.write('OggS', 0, 'latin1');
+  header.writeBigInt64LE(BigInt(granule), 6);
+  header.writeUInt32LE(1234, 14);
+  header[26] = 1;
+  header[27] = packet.length;
+  return Buffer.concat([header, packet]);
+};
+
+/**
+ * Build an OpusHead packet of a stereo 44.1 kHz recording with a pre-skip of 312 samples
+ */
+const opusHead = (): Buffer => {
+  const head = Buffer.alloc(19);
+  head.write('OpusHead', 0, 'latin1');
+  head[8] = 1;
+  head[9] = 2;
+  head.writeUInt16LE(312, 10);
+  head.writeUInt32LE(44100, 12);
+  return head;
+};
+
+/**
+ * Build a FLAC STREAMINFO header
+ */
+const flac = (sampleRate: number, channels: number, bitDepth: number, totalSamples: number): Buffer => {
+  const info = Buffer.alloc(34);
+  info[10] = sampleRate >> 12;
+  info[11] = (sampleRate >> 4) & 0xff;
+  info[12] = ((sampleRate & 0x0f) << 4) | ((channels - 1) << 1) | ((bitDepth - 1) >> 4);
+  info[13] = (((bitDepth - 1) & 0x0f) << 4) | Math.floor(totalSamples / 2 ** 32);
+  info.writeUInt32BE(totalSamples % 2 ** 32, 14);
+  return Buffer.concat([Buffer.from('fLaC', 'latin1'), Buffer.from([0x80, 0, 0, 34]), info]);
+};
+
+/**
+ * Build an EBML element
+ */
+const ebml = (id: number[], ...children: Buffer[]): Buffer => {
+  const data = Buffer.concat(children);
+  const size = Buffer.alloc(8);
+  size[0] = 0x01;
+  size.writeUIntBE(data.length, 2, 6);
+  return Buffer.concat([Buffer.from(id), size, data]);
+};
+
+/**
+ * Build an EBML element of unknown size, as streaming muxers write them
+ */
+const unknownSize = (id: number[], ...children: Buffer[]): Buffer =>
+  Buffer.concat([Buffer.from(id), Buffer.from([0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff]), ...children]);
+
+const uint = (value: number): Buffer => {
+  const data = Buffer.alloc(4);
+  data.writeUInt32BE(value);
+  return data;
+};
+
+const float = (value: number): Buffer => {
+  const data = Buffer.alloc(8);
+  data.writeDoubleBE(value);
+  return data;
+};
+
+const simpleBlock = (timecode: number): Buffer => {
+  const data = Buffer.alloc(4);
+  data[0] = 0x81;
+  data.writeInt16BE(timecode, 1);
+  return ebml([0xa3], data);
+};
+
+const webm = (duration?: number): Buffer =>
+  Buffer.concat([
+    ebml([0x1a, 0x45, 0xdf, 0xa3], ebml([0x42, 0x82], Buffer.from('webm'))),
+    unknownSize(
+      [0x18, 0x53, 0x80, 0x67],
+      ebml([0x15, 0x49, 0xa9, 0x66], ebml([0x2a, 0xd7, 0xb1], uint(1000000)), ...(duration ? [ebml([0x44, 0x89], float(duration))] : [])),
+      ebml(
+        [0x16, 0x54, 0xae, 0x6b],
+        ebml(
+          [0xae],
+          ebml([0x83], uint(2)),
+          ebml([0x86], Buffer.from('A_OPUS')),
+          ebml([0xe1], ebml([0xb5], float(48000)), ebml([0x9f], uint(1)))
+        )
+      ),
+      unknownSize([0x1f, 0x43, 0xb6, 0x75], ebml([0xe7], uint(0)), simpleBlock(0), simpleBlock(20000)),
+      unknownSize([0x1f, 0x43, 0xb6, 0x75], ebml([0xe7], uint(30000)), simpleBlock(0), simpleBlock(2500))
+    )
+  ]);
+
+describe('readAudioMetadata', () => {
+  it('should read WAV headers', () => {
+    expect(readAudioMetadata(wav(16000, 1, 16, 3))).toEqual({
+      format: 'wav',
+      codec: 'pcm',
+      duration_seconds: 3,
+      sample_rate: 16000,
+      channels: 1,
+      bit_depth: 16
+    });
+  });
+
+  it('should read MP3 length from a Xing header or estimate it from the bitrate', () => {
+    expect(readAudioMetadata(mp3(10, 1000))).toEqual({
+      format: 'mp3',
+      codec: 'mp3',
+      duration_seconds: (1000 * 1152) / 44100,
+      sample_rate: 44100,
+      channels: 2,
+      bit_depth: 0
+    });
+    expect(readAudioMetadata(mp3(10)).duration_seconds).toBeCloseTo((10 * 417 * 8) / 128000);
+  });
+
+  it('should read Ogg Opus length from the last granule position', () => {
+    expect(readAudioMetadata(Buffer.concat([oggPage(0, opusHead()), oggPage(48000 * 5 + 312, Buffer.alloc(10)), oggPage(-1, Buffer.alloc(4))]))).toEqual({
+      format: 'ogg',
+      codec: 'opus',
+      duration_seconds: 5,
+      sample_rate: 44100,
+      channels: 2,
+      bit_depth: 0
+    });
+  });
+
+  it('should read FLAC stream info', () => {
+    expect(readAudioMetadata(flac(48000, 2, 24, 48000 * 90))).toEqual({
+      format: 'flac',
+      codec: 'flac',
+      duration_seconds: 90,
+      sample_rate: 48000,
+      channels: 2,
+      bit_depth: 24
+    });
+  });
+
+  it('should read WebM length from the segment duration or the last block', () => {
+    expect(readAudioMetadata(webm(42000))).toEqual({
+      format: 'webm',
+      codec: 'opus',
+      duration_seconds: 42,
+      sample_rate: 48000,
+      channels: 1,
+      bit_depth: 0
+    });
+    // Browser recordings have no duration and clusters of unknown size
+    expect(readAudioMetadata(webm()).duration_seconds).toBe(32.5);
+  });
+
+  it('should reject unsupported and corrupt files', () => {
+    expect(() => readAudioMetadata(Buffer.from('definitely not audio'))).toThrow(AudioMetadataError);
+    expect(() => readAudioMetadata(wav(16000, 1, 16, 1).subarray(0, 36))).toThrow('WAV file has no data chunk');
+    expect(() => readAudioMetadata(flac(48000, 2, 16, 1000).subarray(0, 20))).toThrow('Audio file is truncated or corrupt');
+    expect(() => readAudioMetadata(flac(0, 2, 16, 1000))).toThrow(AudioMetadataError);
+  });
+});
+
+describe('readAudioMetadataFromFile', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'audio-metadata-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should read the same metadata from the start and end of a file as from the whole file', async () => {
+    const ogg = Buffer.concat([
+      oggPage(0, opusHead()),
+      ...Array.from({ length: 10 }, (_, index) => oggPage(48000 * index, Buffer.alloc(200))),
+      oggPage(48000 * 12 + 312, Buffer.alloc(10))
+    ]);
+    // Heads that end within the header of the first cluster
+    const clusterHead = (buffer: Buffer): number => buffer.indexOf(Buffer.from([0x1f, 0x43, 0xb6, 0x75])) + 8;
+    const fixtures: Array<[Buffer, number]> = [
+      [wav(16000, 1, 16, 3), 64],
+      [mp3(200), 1024],
+      [mp3(200, 1000), 1024],
+      [ogg, 256],
+      [Buffer.concat([flac(48000, 2, 24, 48000 * 90), Buffer.alloc(4096)]), 64],
+      [webm(42000), clusterHead(webm(42000))],
+      [webm(), clusterHead(webm())]
+    ];
+
+    for (const [index, [buffer, rangeBytes]] of fixtures.entries()) {
+      const filePath = path.join(directory, `audio-${index}`);
+      fs.writeFileSync(filePath, buffer);
+      expect(buffer.length).toBeGreaterThan(rangeBytes);
+      expect(await readAudioMetadataFromFile(filePath, rangeBytes)).toEqual(readAudioMetadata(buffer));
+    }
+  });
+
+  it('should read small files whole', async () => {
+    const filePath = path.join(directory, 'audio');
+    fs.writeFileSync(filePath, webm());
+
+    expect((await readAudioMetadataFromFile(filePath)).duration_seconds).toBe(32.5);
+  });
+});
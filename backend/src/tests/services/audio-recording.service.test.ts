@@ -2,6 +2,7 @@ import { AudioRecordingService } from '../../services/audio-recording.service';
 import { AudioRecordingRepository } from '../../repositories/audio-recording.repository';
 import { TranscriptionRepository } from '../../repositories/transcription.repository';
 import { AudioRecording, AudioRecordingSettings, TranscriptionService, TranscriptionStatus } from '../../models/audio-recording.model';
+import { AudioMetadataError } from '../../utils/audio-metadata';
 import * as fs from 'fs';
 import * as path from 'path';
 import { v4 as uuidv4 } from 'uuid';
@@ -32,6 +33,7 @@ describe('AudioRecordingService', () => {
     duration_seconds: 60,
     file_size_bytes: 1000000,
     file_format: 'wav',
+    codec: 'pcm',
     sample_rate: 44100,
     channels: 2,
     bit_depth: 16,
@@ -42,6 +44,21 @@ describe('AudioRecordingService', () => {
     created_by: 'test-user-id'
   };
 
+  // One second of silent 16 kHz mono PCM
+  const wavFile = Buffer.alloc(44 + 32000);
+  wavFile.write('RIFF', 0, 'latin1');
+  wavFile.writeUInt32LE(36 + 32000, 4);
+  wavFile.write('WAVEfmt ', 8, 'latin1');
+  wavFile.writeUInt32LE(16, 16);
+  wavFile.writeUInt16LE(1, 20);
+  wavFile.writeUInt16LE(1, 22);
+  wavFile.writeUInt32LE(16000, 24);
+  wavFile.writeUInt32LE(32000, 28);
+  wavFile.writeUInt16LE(2, 32);
+  wavFile.writeUInt16LE(16, 34);
+  wavFile.write('data', 36, 'latin1');
+  wavFile.writeUInt32LE(32000, 40);
+
   const mockTranscription = {
     transcription_id: 'test-transcription-id',
     recording_id: 'test-recording-id',
@@ -60,7 +77,8 @@ describe('AudioRecordingService', () => {
       findById: jest.fn(),
       create: jest.fn(),
       update: jest.fn(),
-      delete: jest.fn()
+      delete: jest.fn(),
+      findTracks: jest.fn()
     } as unknown as jest.Mocked<AudioRecordingRepository>;
     
     transcriptionRepository = {
@@ -93,6 +111,7 @@ describe('AudioRecordingService', () => {
     audioRecordingRepository.create.mockResolvedValue(mockRecording);
     audioRecordingRepository.update.mockResolvedValue(mockRecording);
     audioRecordingRepository.delete.mockResolvedValue(true);
+    audioRecordingRepository.findTracks.mockResolvedValue([]);
     
     transcriptionRepository.findById.mockResolvedValue(mockTranscription);
     transcriptionRepository.create.mockResolvedValue(mockTranscription);
@@ -184,7 +203,7 @@ describe('AudioRecordingService', () => {
   describe('createFromFile', () => {
     it('should create recording from file', async () => {
       // Arrange
-      const file = Buffer.from('mock audio data');
+      const file = wavFile;
       const fileOriginalName = 'original.wav';
       
       // Act
@@ -207,16 +226,35 @@ describe('AudioRecordingService', () => {
           name: 'Test Recording',
           description: 'Test recording description',
           file_path: '/mock/upload/dir/mock-uuid.wav',
-          file_size_bytes: file.length
+          file_size_bytes: file.length,
+          duration_seconds: 1,
+          sample_rate: 16000,
+          channels: 1,
+          codec: 'pcm'
         }),
         'test-user-id'
       );
       expect(result).toEqual(mockRecording);
     });
 
+    it('should reject files that are not audio', async () => {
+      await expect(
+        audioRecordingService.createFromFile(
+          'test-session-id',
+          'Test Recording',
+          undefined,
+          Buffer.from('mock audio data'),
+          'original.wav',
+          'test-user-id'
+        )
+      ).rejects.toThrow(AudioMetadataError);
+      expect(fs.writeFile).not.toHaveBeenCalled();
+      expect(audioRecordingRepository.create).not.toHaveBeenCalled();
+    });
+
     it('should start transcription if auto-transcribe is enabled', async () => {
       // Arrange
-      const file = Buffer.from('mock audio data');
+      const file = wavFile;
       const fileOriginalName = 'original.wav';
       
       // Act
@@ -240,7 +278,7 @@ describe('AudioRecordingService', () => {
 
     it('should not start transcription if auto-transcribe is disabled', async () => {
       // Arrange
-      const file = Buffer.from('mock audio data');
+      const file = wavFile;
       const fileOriginalName = 'original.wav';
       
       // Act
@@ -347,7 +385,7 @@ describe('AudioRecordingService', () => {
           session_id: 'test-session-id'
         })
       );
-      expect(result).toBe('test-transcription-id');
+      expect(result).toEqual({ transcriptionId: 'test-transcription-id' });
     });
 
     it('should return existing transcription ID if it exists', async () => {
@@ -362,7 +400,7 @@ describe('AudioRecordingService', () => {
       expect(transcriptionRepository.findById).toHaveBeenCalledWith('test-transcription-id');
       expect(audioRecordingRepository.update).not.toHaveBeenCalled();
       expect(transcriptionRepository.create).not.toHaveBeenCalled();
-      expect(result).toBe('test-transcription-id');
+      expect(result).toEqual({ transcriptionId: 'test-transcription-id' });
     });
 
     it('should throw error if recording not found', async () => {
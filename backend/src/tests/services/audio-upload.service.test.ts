@@ -0,0 +1,132 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DatabaseService } from '../../services/database.service';
+import { AudioRecordingRepository } from '../../repositories/audio-recording.repository';
+import { TranscriptionRepository } from '../../repositories/transcription.repository';
+import { SessionRepository } from '../../repositories/session.repository';
+import { TrashRepository } from '../../repositories/trash.repository';
+import { AudioRecordingService } from '../../services/audio-recording.service';
+import { AudioUploadError, AudioUploadService } from '../../services/audio-upload.service';
+
+const SESSION_ID = '11111111-1111-1111-1111-111111111111';
+
+/**
+ * Two seconds of silent 8 kHz mono PCM
+ */
+const wavFile = (): Buffer => {
+  const file = Buffer.alloc(44 + 32000);
+  file.write('RIFF', 0, 'latin1');
+  file.writeUInt32LE(36 + 32000, 4);
+  file.write('WAVEfmt ', 8, 'latin1');
+  file.writeUInt32LE(16, 16);
+  file.writeUInt16LE(1, 20);
+  file.writeUInt16LE(1, 22);
+  file.writeUInt32LE(8000, 24);
+  file.writeUInt32LE(16000, 28);
+  file.writeUInt16LE(2, 32);
+  file.writeUInt16LE(16, 34);
+  file.write('data', 36, 'latin1');
+  file.writeUInt32LE(32000, 40);
+  return file;
+};
+
+describe('AudioUploadService', () => {
+  let dbService: DatabaseService;
+  let workDir: string;
+  let audioUploadService: AudioUploadService;
+
+  beforeEach(async () => {
+    dbService = new DatabaseService({ driver: 'embedded', embeddedPath: ':memory:' });
+    await dbService.initialize();
+    await dbService.writeTransaction(async (tx) => {
+      await tx.run(`CREATE (:Session {session_id: '${SESSION_ID}', name: 'The Crypt'})`);
+    });
+
+    workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'audio-upload-'));
+    const audioRecordingService = new AudioRecordingService(
+      new AudioRecordingRepository(dbService),
+      new TranscriptionRepository(dbService),
+      workDir
+    );
+    audioUploadService = new AudioUploadService(audioRecordingService, new SessionRepository(dbService, new TrashRepository(dbService)), {
+      directory: path.join(workDir, 'incoming'),
+      maxChunkSize: 16000,
+      maxUploadSize: 40000,
+      expiryHours: 1
+    });
+  });
+
+  afterEach(async () => {
+    await dbService.close();
+    await fs.promises.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('should assemble chunks sent out of order into a recording', async () => {
+    const file = wavFile();
+    const upload = await audioUploadService.initiate({ session_id: SESSION_ID, file_name: 'session.wav' }, 'user-1');
+
+    await audioUploadService.putChunk(upload.upload_id, 2, file.subarray(20000), 'user-1');
+    await audioUploadService.putChunk(upload.upload_id, 0, file.subarray(0, 10000), 'user-1');
+    const status = await audioUploadService.getStatus(upload.upload_id, 'user-1');
+    expect(status).toMatchObject({ received_chunks: [[0, 0], [2, 2]], received_bytes: file.length - 10000 });
+
+    await expect(
+      audioUploadService.complete(upload.upload_id, { total_chunks: 3, name: 'Session 1' }, 'user-1')
+    ).rejects.toMatchObject({ code: 'MISSING_CHUNKS', message: 'Missing chunks: 1' });
+
+    await audioUploadService.putChunk(upload.upload_id, 1, file.subarray(10000, 20000), 'user-1');
+    const recording = await audioUploadService.complete(
+      upload.upload_id,
+      { total_chunks: 3, name: 'Session 1', settings: { auto_transcribe: false } },
+      'user-1'
+    );
+
+    expect(recording).toMatchObject({
+      session_id: SESSION_ID,
+      name: 'Session 1',
+      duration_seconds: 2,
+      sample_rate: 8000,
+      file_size_bytes: file.length
+    });
+    expect(await fs.promises.readFile(recording.file_path)).toEqual(file);
+    expect(await audioUploadService.getStatus(upload.upload_id, 'user-1')).toBeNull();
+  });
+
+  it('should keep uploads private to the user who started them', async () => {
+    const upload = await audioUploadService.initiate({ session_id: SESSION_ID, file_name: 'session.wav' }, 'user-1');
+
+    expect(await audioUploadService.getStatus(upload.upload_id, 'user-2')).toBeNull();
+    await expect(audioUploadService.putChunk(upload.upload_id, 0, Buffer.from('data'), 'user-2')).rejects.toMatchObject({
+      code: 'UPLOAD_NOT_FOUND'
+    });
+    expect(await audioUploadService.abort(upload.upload_id, 'user-2')).toBe(false);
+    expect(await audioUploadService.abort(upload.upload_id, 'user-1')).toBe(true);
+  });
+
+  it('should enforce chunk and upload size limits', async () => {
+    const upload = await audioUploadService.initiate({ session_id: SESSION_ID, file_name: 'session.wav' }, 'user-1');
+
+    await expect(audioUploadService.putChunk(upload.upload_id, 0, Buffer.alloc(16001), 'user-1')).rejects.toMatchObject({
+      code: 'CHUNK_TOO_LARGE'
+    });
+    await audioUploadService.putChunk(upload.upload_id, 0, Buffer.alloc(16000), 'user-1');
+    await audioUploadService.putChunk(upload.upload_id, 1, Buffer.alloc(16000), 'user-1');
+    // Sending a chunk again replaces it rather than adding to the total
+    await audioUploadService.putChunk(upload.upload_id, 1, Buffer.alloc(16000), 'user-1');
+    await expect(audioUploadService.putChunk(upload.upload_id, 2, Buffer.alloc(16000), 'user-1')).rejects.toThrow(
+      AudioUploadError
+    );
+  });
+
+  it('should reject uploads to missing sessions and discard expired uploads', async () => {
+    await expect(
+      audioUploadService.initiate({ session_id: '33333333-3333-3333-3333-333333333333', file_name: 'a.wav' }, 'user-1')
+    ).rejects.toMatchObject({ code: 'SESSION_NOT_FOUND' });
+
+    const upload = await audioUploadService.initiate({ session_id: SESSION_ID, file_name: 'session.wav' }, 'user-1');
+    expect(await audioUploadService.purgeExpired(new Date(Date.now() + 30 * 60 * 1000))).toBe(0);
+    expect(await audioUploadService.purgeExpired(new Date(Date.now() + 2 * 60 * 60 * 1000))).toBe(1);
+    expect(await audioUploadService.getStatus(upload.upload_id, 'user-1')).toBeNull();
+  });
+});
@@ -0,0 +1,282 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { createGunzip, createGzip } from 'zlib';
+import { DatabaseService } from '../../services/database.service';
+import { CampaignArchiveRepository } from '../../repositories/campaign-archive.repository';
+import { CampaignArchiveError, CampaignArchiveService } from '../../services/campaign-archive.service';
+import { createTar, extractTar } from '../../utils/tar';
+
+describe('CampaignArchiveService', () => {
+  let dbService: DatabaseService;
+  let uploadRoot: string;
+  let archiveRoot: string;
+  let campaignArchiveService: CampaignArchiveService;
+
+  const query = async (cypher: string, params: Record<string, any> = {}) =>
+    dbService.readTransaction(async (tx) => (await tx.run(cypher, params)).records);
+
+  beforeEach(async () => {
+    dbService = new DatabaseService({ driver: 'embedded', embeddedPath: ':memory:' });
+    await dbService.initialize();
+    uploadRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'campaign-archive-'));
+    archiveRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'campaign-archive-files-'));
+    campaignArchiveService = new CampaignArchiveService(new CampaignArchiveRepository(dbService), uploadRoot);
+
+    fs.mkdirSync(path.join(uploadRoot, 'audio'));
+    fs.writeFileSync(path.join(uploadRoot, 'audio', 'session-1.mp3'), 'session audio');
+
+    await dbService.writeTransaction(async (tx) => {
+      await tx.run(
+        `
+        CREATE (u:User {user_id: 'user-1', username: 'dm'})
+        CREATE (w:RPGWorld {world_id: 'world-1', name: 'Ravenloft'})
+        CREATE (c:Campaign {campaign_id: 'campaign-1', name: 'Curse of Strahd', world_id: 'world-1'})-[:PART_OF]->(w)
+        CREATE (u)-[:CREATED]->(c)
+        CREATE (s:Session {session_id: 'session-1', campaign_id: 'campaign-1', title: 'Death House'})-[:PART_OF]->(c)
+        CREATE (a:AudioRecording {recording_id: 'rec-1', session_id: 'session-1', file_path: $filePath})-[:PART_OF]->(s)
+        CREATE (ch:Character {character_id: 'char-1', name: 'Strahd'})-[:BELONGS_TO]->(c)
+        CREATE (l:Location {location_id: 'loc-1', name: 'Castle Ravenloft'})-[:BELONGS_TO]->(c)
+        CREATE (ch)-[:LIVES_IN {since: 'forever'}]->(l)
+        CREATE (o:Campaign {campaign_id: 'campaign-2', name: 'Other'})
+        CREATE (x:Character {character_id: 'char-2', name: 'Elsewhere'})-[:BELONGS_TO]->(o)
+        CREATE (ch)-[:KNOWS]->(x)
+        `,
+        { filePath: path.join(uploadRoot, 'audio', 'session-1.mp3') }
+      );
+    });
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await dbService.close();
+    fs.rmSync(uploadRoot, { recursive: true, force: true });
+    fs.rmSync(archiveRoot, { recursive: true, force: true });
+  });
+
+  /**
+   * Write an archive stream to a file
+   */
+  const saveArchive = async (data: Readable | undefined): Promise<string> => {
+    const archivePath = path.join(archiveRoot, `archive-${fs.readdirSync(archiveRoot).length}.tar.gz`);
+    await pipeline(data as Readable, fs.createWriteStream(archivePath));
+    return archivePath;
+  };
+
+  const readGraph = async (archivePath: string) => {
+    const directory = fs.mkdtempSync(path.join(archiveRoot, 'extract-'));
+    await pipeline(fs.createReadStream(archivePath), createGunzip(), (source: AsyncIterable<Buffer>) =>
+      extractTar(source, directory)
+    );
+    const readFile = (name: string) => fs.readFileSync(path.join(directory, name), 'utf8');
+    return {
+      manifest: JSON.parse(readFile('manifest.json')),
+      graph: JSON.parse(readFile('graph.json')),
+      readFile
+    };
+  };
+
+  it('should export the campaign, its entities and uploaded files', async () => {
+    const archive = await campaignArchiveService.exportCampaign('campaign-1');
+    expect(archive).not.toBeNull();
+    expect(archive?.fileName).toMatch(/^curse-of-strahd-\d{4}-\d{2}-\d{2}\.rpgarchive\.tar\.gz$/);
+
+    const { manifest, graph, readFile } = await readGraph(await saveArchive(archive?.data));
+    expect(manifest).toMatchObject({ format: 'rpg-archivist-campaign', version: 1, campaign_id: 'campaign-1' });
+
+    const exported = graph.nodes.map((node: any) => node.labels[0]).sort();
+    expect(exported).toEqual(['AudioRecording', 'Campaign', 'Character', 'Location', 'Session']);
+    expect(graph.external.map((node: any) => `${node.label}:${node.value}`).sort()).toEqual([
+      'Character:char-2',
+      'RPGWorld:world-1',
+      'User:user-1'
+    ]);
+    expect(graph.files).toHaveLength(1);
+    expect(readFile(graph.files[0].path)).toBe('session audio');
+  });
+
+  it('should not follow shared transcript terms into the segments of other campaigns', async () => {
+    await dbService.writeTransaction(async (tx) => {
+      await tx.run(
+        `
+        MATCH (s:Session {session_id: 'session-1'}), (o:Campaign {campaign_id: 'campaign-2'})
+        CREATE (tt:TranscriptTerm {term: 'goblin', phonetic_key: 'KBLN'})
+        CREATE (t1:Transcription {transcription_id: 'tr-1'})-[:TRANSCRIPT_OF]->(s)
+        CREATE (s1:TranscriptionSegment {segment_id: 'seg-1', text: 'A goblin attacks'})-[:PART_OF]->(t1)
+        CREATE (s1)-[:HAS_TERM]->(tt)
+        CREATE (os:Session {session_id: 'session-2', campaign_id: 'campaign-2', title: 'Elsewhere'})-[:PART_OF]->(o)
+        CREATE (t2:Transcription {transcription_id: 'tr-2'})-[:TRANSCRIPT_OF]->(os)
+        CREATE (s2:TranscriptionSegment {segment_id: 'seg-2', text: 'The goblin flees'})-[:PART_OF]->(t2)
+        CREATE (s2)-[:HAS_TERM]->(tt)
+        `
+      );
+    });
+
+    const archivePath = await saveArchive((await campaignArchiveService.exportCampaign('campaign-1'))?.data);
+    const { graph } = await readGraph(archivePath);
+    const segments = graph.nodes.filter((node: any) => node.labels.includes('TranscriptionSegment'));
+    expect(segments.map((node: any) => node.properties.text)).toEqual(['A goblin attacks']);
+    expect(graph.nodes.some((node: any) => node.labels.includes('TranscriptTerm'))).toBe(false);
+    expect(graph.nodes.some((node: any) => node.properties.transcription_id === 'tr-2')).toBe(false);
+
+    // The import indexes the copied segment again
+    const result = await campaignArchiveService.importCampaign(archivePath, { userId: 'user-1' });
+    const [indexed] = await query(
+      `
+      MATCH (:TranscriptTerm {term: 'goblin'})<-[:HAS_TERM]-(seg:TranscriptionSegment)-[:PART_OF]->(:Transcription)
+        -[:TRANSCRIPT_OF]->(:Session)-[:PART_OF]->(:Campaign {campaign_id: $campaignId})
+      RETURN count(seg) as count
+      `,
+      { campaignId: result.campaign_id }
+    );
+    expect(indexed.get('count').toNumber()).toBe(1);
+  });
+
+  it('should return null for unknown campaigns', async () => {
+    expect(await campaignArchiveService.exportCampaign('missing')).toBeNull();
+  });
+
+  it('should import an archive as a new campaign with remapped IDs', async () => {
+    const archivePath = await saveArchive((await campaignArchiveService.exportCampaign('campaign-1'))?.data);
+    const result = await campaignArchiveService.importCampaign(archivePath, {
+      userId: 'user-1',
+      name: 'Curse of Strahd (copy)'
+    });
+
+    expect(result.campaign_id).not.toBe('campaign-1');
+    expect(result).toMatchObject({ nodes: 5, files: 1, skipped_relationships: 0 });
+
+    const [campaign] = await query(
+      `
+      MATCH (:User {user_id: 'user-1'})-[:CREATED]->(c:Campaign {campaign_id: $campaignId})-[:PART_OF]->(:RPGWorld {world_id: 'world-1'})
+      RETURN c.name as name
+      `,
+      { campaignId: result.campaign_id }
+    );
+    expect(campaign.get('name')).toBe('Curse of Strahd (copy)');
+
+    const [session] = await query(
+      `
+      MATCH (a:AudioRecording)-[:PART_OF]->(s:Session)-[:PART_OF]->(:Campaign {campaign_id: $campaignId})
+      RETURN s.session_id as sessionId, s.campaign_id as campaignId, a.session_id as recordingSession, a.file_path as filePath
+      `,
+      { campaignId: result.campaign_id }
+    );
+    expect(session.get('sessionId')).not.toBe('session-1');
+    expect(session.get('campaignId')).toBe(result.campaign_id);
+    expect(session.get('recordingSession')).toBe(session.get('sessionId'));
+    expect(session.get('filePath')).not.toBe(path.join(uploadRoot, 'audio', 'session-1.mp3'));
+    expect(fs.readFileSync(session.get('filePath'), 'utf8')).toBe('session audio');
+
+    const [character] = await query(
+      `
+      MATCH (ch:Character {name: 'Strahd'})-[:BELONGS_TO]->(:Campaign {campaign_id: $campaignId})
+      MATCH (ch)-[r:LIVES_IN]->(:Location {name: 'Castle Ravenloft'})
+      MATCH (ch)-[:KNOWS]->(:Character {character_id: 'char-2'})
+      RETURN ch.character_id as id, r.since as since
+      `,
+      { campaignId: result.campaign_id }
+    );
+    expect(character.get('id')).not.toBe('char-1');
+    expect(character.get('since')).toBe('forever');
+
+    const [leftover] = await query('MATCH (n) WHERE n._archive_ref IS NOT NULL RETURN count(n) as count');
+    expect(leftover.get('count').toNumber()).toBe(0);
+  });
+
+  it('should remap IDs stored inside JSON properties', async () => {
+    await dbService.writeTransaction(async (tx) => {
+      await tx.run(
+        `
+        MATCH (s:Session {session_id: 'session-1'})
+        CREATE (t:Transcription {transcription_id: 'tr-1'})-[:TRANSCRIPT_OF]->(s)
+        CREATE (:TranscriptionSegment {segment_id: 'seg-1', text: 'I am Strahd'})-[:PART_OF]->(t)
+        CREATE (:SessionAnalysis {
+          analysis_id: 'analysis-1',
+          key_points: $keyPoints,
+          character_insights: $characterInsights
+        })-[:ANALYZES]->(s)
+        `,
+        {
+          keyPoints: JSON.stringify([{ key_point_id: 'kp-1', segment_ids: ['seg-1'], text: 'Strahd appears' }]),
+          characterInsights: JSON.stringify([{ character_id: 'char-1', notes: 'Not to be trusted' }])
+        }
+      );
+    });
+
+    const archivePath = await saveArchive((await campaignArchiveService.exportCampaign('campaign-1'))?.data);
+    const result = await campaignArchiveService.importCampaign(archivePath, { userId: 'user-1' });
+
+    const [imported] = await query(
+      `
+      MATCH (a:SessionAnalysis)-[:ANALYZES]->(:Session)-[:PART_OF]->(:Campaign {campaign_id: $campaignId})
+      MATCH (seg:TranscriptionSegment)-[:PART_OF]->(:Transcription)-[:TRANSCRIPT_OF]->(:Session)-[:PART_OF]->(:Campaign {campaign_id: $campaignId})
+      MATCH (ch:Character {name: 'Strahd'})-[:BELONGS_TO]->(:Campaign {campaign_id: $campaignId})
+      RETURN a.key_points as keyPoints, a.character_insights as characterInsights, seg.segment_id as segmentId,
+        ch.character_id as characterId
+      `,
+      { campaignId: result.campaign_id }
+    );
+    expect(imported.get('segmentId')).not.toBe('seg-1');
+    expect(JSON.parse(imported.get('keyPoints'))).toEqual([
+      { key_point_id: 'kp-1', segment_ids: [imported.get('segmentId')], text: 'Strahd appears' }
+    ]);
+    expect(JSON.parse(imported.get('characterInsights'))).toEqual([
+      { character_id: imported.get('characterId'), notes: 'Not to be trusted' }
+    ]);
+  });
+
+  it('should remove the copied files when the campaign cannot be written', async () => {
+    const archivePath = await saveArchive((await campaignArchiveService.exportCampaign('campaign-1'))?.data);
+    jest
+      .spyOn(CampaignArchiveRepository.prototype, 'writeCampaignGraph')
+      .mockRejectedValueOnce(new Error('Database unavailable'));
+
+    await expect(campaignArchiveService.importCampaign(archivePath, { userId: 'user-1' })).rejects.toThrow(
+      'Database unavailable'
+    );
+    expect(fs.readdirSync(path.join(uploadRoot, 'audio'))).toEqual(['session-1.mp3']);
+  });
+
+  it('should skip relationships to nodes missing from the target instance', async () => {
+    const archivePath = await saveArchive((await campaignArchiveService.exportCampaign('campaign-1'))?.data);
+    await dbService.writeTransaction(async (tx) => {
+      await tx.run("MATCH (x:Character {character_id: 'char-2'}) DETACH DELETE x");
+    });
+
+    const result = await campaignArchiveService.importCampaign(archivePath, { userId: 'user-1' });
+    expect(result.skipped_relationships).toBe(1);
+  });
+
+  it('should reject archives from newer versions and other files', async () => {
+    const { manifest, graph } = await readGraph(
+      await saveArchive((await campaignArchiveService.exportCampaign('campaign-1'))?.data)
+    );
+    const newer = await saveArchive(
+      createTar([
+        { name: 'manifest.json', data: Buffer.from(JSON.stringify({ ...manifest, version: manifest.version + 1 })) },
+        { name: 'graph.json', data: Buffer.from(JSON.stringify(graph)) }
+      ]).pipe(createGzip())
+    );
+    const other = path.join(archiveRoot, 'other.tar.gz');
+    fs.writeFileSync(other, 'not an archive');
+
+    await expect(campaignArchiveService.importCampaign(newer, { userId: 'user-1' })).rejects.toThrow(CampaignArchiveError);
+    await expect(campaignArchiveService.importCampaign(other, { userId: 'user-1' })).rejects.toThrow(
+      'File is not a campaign archive'
+    );
+  });
+
+  it('should reject archives with files outside the archive', async () => {
+    const escaping = await saveArchive(
+      createTar([{ name: '../escaped.txt', data: Buffer.from('outside') }]).pipe(createGzip())
+    );
+
+    await expect(campaignArchiveService.importCampaign(escaping, { userId: 'user-1' })).rejects.toThrow(
+      'File is not a campaign archive'
+    );
+    expect(fs.existsSync(path.join(os.tmpdir(), 'escaped.txt'))).toBe(false);
+  });
+});
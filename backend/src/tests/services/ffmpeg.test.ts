@@ -0,0 +1,34 @@
+import { runFfmpeg } from '../../utils/ffmpeg';
+
+class TestError extends Error {}
+
+/**
+ * Run a script with node in place of ffmpeg
+ */
+const runScript = (script: string, timeoutMs = 0, onData?: (chunk: Buffer) => void): Promise<void> =>
+  runFfmpeg(['-e', script], { ffmpegPath: process.execPath, timeoutMs, onData }, (message) => new TestError(message));
+
+describe('runFfmpeg', () => {
+  it('should pass what is written to stdout on', async () => {
+    const output: Buffer[] = [];
+    await runScript("process.stdout.write('peaks')", 0, (chunk) => output.push(chunk));
+
+    expect(Buffer.concat(output).toString()).toBe('peaks');
+  });
+
+  it('should reject with the error built from the end of stderr when the run fails', async () => {
+    const run = runScript("process.stderr.write('x'.repeat(5000) + 'Invalid data'); process.exit(1)");
+
+    await expect(run).rejects.toThrow(TestError);
+    await expect(run).rejects.toThrow(/^ffmpeg exited with code 1: x{1988}Invalid data$/);
+  });
+
+  it('should reject when the tool cannot start or runs too long', async () => {
+    await expect(
+      runFfmpeg([], { ffmpegPath: '/nonexistent/ffmpeg', timeoutMs: 0 }, (message) => new TestError(message))
+    ).rejects.toThrow('Could not start ffmpeg');
+    await expect(runScript('setTimeout(() => undefined, 10000)', 100)).rejects.toThrow(
+      'ffmpeg did not finish within 100 ms'
+    );
+  });
+});
@@ -0,0 +1,196 @@
+import { DatabaseService } from '../../services/database.service';
+import { AudioRecordingRepository } from '../../repositories/audio-recording.repository';
+import { TranscriptionRepository } from '../../repositories/transcription.repository';
+import { GlossaryRepository } from '../../repositories/glossary.repository';
+import { SessionRepository } from '../../repositories/session.repository';
+import { TrashRepository } from '../../repositories/trash.repository';
+import { TranscriptRevisionRepository } from '../../repositories/transcript-revision.repository';
+import { TranscriptionService } from '../../services/transcription.service';
+import { GlossaryService } from '../../services/glossary.service';
+import { TranscriptEditService } from '../../services/transcript-edit.service';
+import { TranscriptionProviderRegistry } from '../../services/transcription-providers/registry';
+import { TranscriptionProvider, TranscriptionRequest } from '../../services/transcription-providers/provider';
+import { TranscriptionService as TranscriptionEngine } from '../../models/audio-recording.model';
+import { GlossaryTermSource } from '../../models/glossary.model';
+import { SegmentOperation } from '../../models/transcript-revision.model';
+
+const WORLD_ID = '00000000-0000-0000-0000-000000000000';
+const CAMPAIGN_ID = '00000000-0000-0000-0000-000000000001';
+const SESSION_ID = '11111111-1111-1111-1111-111111111111';
+
+describe('GlossaryService', () => {
+  let dbService: DatabaseService;
+  let audioRecordingRepository: AudioRecordingRepository;
+  let transcriptionRepository: TranscriptionRepository;
+  let transcriptRevisionRepository: TranscriptRevisionRepository;
+  let glossaryService: GlossaryService;
+  let requests: TranscriptionRequest[];
+
+  /**
+   * Provider that mishears the names of the campaign
+   */
+  const provider: TranscriptionProvider = {
+    service: TranscriptionEngine.WHISPER_CPP,
+    capabilities: { diarization: false, wordTimestamps: false, languages: [] },
+    isAvailable: async () => true,
+    transcribe: async (request: TranscriptionRequest) => {
+      requests.push(request);
+      return {
+        segments: [
+          { segment_id: 'seg-1', start_time: 0, end_time: 3, text: "We sneak into Zan a thar's lair.", confidence_score: 0.8 },
+          { segment_id: 'seg-2', start_time: 3, end_time: 6, text: 'Irina waits by the arena.', confidence_score: 0.8 }
+        ],
+        language_code: 'en',
+        confidence_score: 0.8,
+        model_version: 'fake'
+      };
+    }
+  };
+
+  /**
+   * Transcribe a recording of the session with the fake provider
+   */
+  const transcribe = async () => {
+    const recording = await audioRecordingRepository.create(
+      {
+        session_id: SESSION_ID,
+        name: 'Session',
+        file_path: '/tmp/session.wav',
+        duration_seconds: 6,
+        file_size_bytes: 2048,
+        file_format: 'wav',
+        codec: 'pcm_s16le',
+        sample_rate: 16000,
+        channels: 1,
+        bit_depth: 16
+      },
+      'user-1'
+    );
+    const { transcription_id } = await transcriptionRepository.create({
+      recording_id: recording.recording_id,
+      session_id: SESSION_ID,
+      service_options: { service: TranscriptionEngine.WHISPER_CPP }
+    });
+
+    const registry = new TranscriptionProviderRegistry();
+    registry.register(provider);
+    const transcriptionService = new TranscriptionService(
+      transcriptionRepository,
+      audioRecordingRepository,
+      registry,
+      undefined,
+      glossaryService
+    );
+    return transcriptionService.processWith(transcription_id, TranscriptionEngine.WHISPER_CPP);
+  };
+
+  beforeEach(async () => {
+    dbService = new DatabaseService({ driver: 'embedded', embeddedPath: ':memory:' });
+    await dbService.initialize();
+    await dbService.writeTransaction(async (tx) => {
+      await tx.run(`CREATE (:RPGWorld {world_id: '${WORLD_ID}', name: 'Barovia'})`);
+      await tx.run(
+        `
+        MATCH (w:RPGWorld {world_id: '${WORLD_ID}'})
+        CREATE (c:Campaign {campaign_id: '${CAMPAIGN_ID}', name: 'Curse of Strahd'})-[:PART_OF]->(w)
+        CREATE (:Session {session_id: '${SESSION_ID}', name: 'The Lair'})-[:PART_OF]->(c)
+        CREATE (:Character {character_id: 'character-1', name: 'Ireena'})-[:BELONGS_TO]->(c)
+        CREATE (:Location {location_id: 'location-1', name: 'Castle Ravenloft'})-[:BELONGS_TO]->(c)
+        CREATE (:Power {power_id: 'power-1', name: 'Misty Step'})-[:BELONGS_TO]->(c)
+        `
+      );
+    });
+    audioRecordingRepository = new AudioRecordingRepository(dbService);
+    transcriptionRepository = new TranscriptionRepository(dbService);
+    transcriptRevisionRepository = new TranscriptRevisionRepository(dbService);
+    glossaryService = new GlossaryService(
+      new GlossaryRepository(dbService),
+      transcriptionRepository,
+      new SessionRepository(dbService, new TrashRepository(dbService)),
+      transcriptRevisionRepository
+    );
+    requests = [];
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await dbService.close();
+  });
+
+  it('should build the glossary from the campaign entities and the terms users add', async () => {
+    await glossaryService.addTerm(CAMPAIGN_ID, { term: ' Xanathar ', sounds_like: ['Zanathar', ' '] }, 'user-1');
+
+    const glossary = await glossaryService.getGlossary(CAMPAIGN_ID);
+
+    expect(glossary).toEqual([
+      expect.objectContaining({ term: 'Xanathar', source: GlossaryTermSource.USER, sounds_like: ['Zanathar'] }),
+      { term: 'Ireena', source: GlossaryTermSource.CHARACTER, entity_id: 'character-1', sounds_like: [] },
+      { term: 'Castle Ravenloft', source: GlossaryTermSource.LOCATION, entity_id: 'location-1', sounds_like: [] },
+      { term: 'Misty Step', source: GlossaryTermSource.POWER, entity_id: 'power-1', sounds_like: [] },
+      { term: 'Barovia', source: GlossaryTermSource.RPG_WORLD, entity_id: WORLD_ID, sounds_like: [] }
+    ]);
+    await expect(glossaryService.addTerm('missing', { term: 'Xanathar' })).rejects.toMatchObject({
+      code: 'CAMPAIGN_NOT_FOUND'
+    });
+    expect(await glossaryService.deleteTerm(glossary[0].term_id as string)).toBe(true);
+    expect(await glossaryService.getGlossary(CAMPAIGN_ID)).toHaveLength(4);
+  });
+
+  it('should give the glossary to the provider and correct misheard names', async () => {
+    await glossaryService.addTerm(CAMPAIGN_ID, { term: 'Xanathar' });
+
+    const transcription = await transcribe();
+
+    expect(requests[0].vocabulary).toEqual(['Xanathar', 'Ireena', 'Castle Ravenloft', 'Misty Step', 'Barovia']);
+    expect(transcription.segments.map((segment) => segment.text)).toEqual([
+      "We sneak into Xanathar's lair.",
+      'Ireena waits by the arena.'
+    ]);
+    expect(transcription.full_text).toBe("We sneak into Xanathar's lair. Ireena waits by the arena.");
+    expect(await glossaryService.getCorrections(transcription.transcription_id)).toEqual([
+      expect.objectContaining({ segment_id: 'seg-1', original: 'Zan a thar', replacement: 'Xanathar', position: 14 }),
+      expect.objectContaining({ segment_id: 'seg-2', original: 'Irina', replacement: 'Ireena', position: 0 })
+    ]);
+  });
+
+  it('should undo a correction once', async () => {
+    await glossaryService.addTerm(CAMPAIGN_ID, { term: 'Xanathar' });
+    const transcription = await transcribe();
+    const [correction] = await glossaryService.getCorrections(transcription.transcription_id);
+
+    const result = await glossaryService.undoCorrection(correction.correction_id, 'user-2');
+
+    expect(result.correction.undone_at).toBeDefined();
+    expect(result.transcription.segments[0].text).toBe("We sneak into Zan a thar's lair.");
+    expect(result.transcription.full_text).toBe("We sneak into Zan a thar's lair. Ireena waits by the arena.");
+    const [revision] = await transcriptRevisionRepository.findAllByTranscription(transcription.transcription_id);
+    expect(revision).toMatchObject({ operation: SegmentOperation.EDIT_TEXT, created_by: 'user-2' });
+    expect(revision.before[0].text).toBe("We sneak into Xanathar's lair.");
+    expect(revision.after[0].text).toBe("We sneak into Zan a thar's lair.");
+    await expect(glossaryService.undoCorrection(correction.correction_id)).rejects.toMatchObject({
+      code: 'CORRECTION_ALREADY_UNDONE'
+    });
+  });
+
+  it('should not undo a correction over an edit made while it was undone', async () => {
+    await glossaryService.addTerm(CAMPAIGN_ID, { term: 'Xanathar' });
+    const transcription = await transcribe();
+    const [correction] = await glossaryService.getCorrections(transcription.transcription_id);
+
+    // Someone edits the segment right after the undo has read it
+    const editService = new TranscriptEditService(transcriptionRepository, transcriptRevisionRepository);
+    const findById = transcriptionRepository.findById.bind(transcriptionRepository);
+    jest.spyOn(transcriptionRepository, 'findById').mockImplementationOnce(async (transcriptionId) => {
+      const read = await findById(transcriptionId);
+      await editService.editText(transcriptionId, 'seg-1', "We sneak into Xanathar's lair at night.");
+      return read;
+    });
+
+    await expect(glossaryService.undoCorrection(correction.correction_id)).rejects.toMatchObject({
+      code: 'CORRECTION_CONFLICT'
+    });
+    const current = await transcriptionRepository.findById(transcription.transcription_id);
+    expect(current?.segments[0].text).toBe("We sneak into Xanathar's lair at night.");
+    expect((await glossaryService.getCorrections(transcription.transcription_id))[0].undone_at).toBeUndefined();
+  });
+});
@@ -0,0 +1,144 @@
+import { DatabaseService } from '../../services/database.service';
+import { JobRepository } from '../../repositories/job.repository';
+import { JobQueueService } from '../../services/job-queue.service';
+import { Job, JobStatus, JobType } from '../../models/job.model';
+
+describe('JobQueueService', () => {
+  let dbService: DatabaseService;
+  let jobRepository: JobRepository;
+  let jobQueueService: JobQueueService;
+
+  const waitForStatus = (jobId: string, status: JobStatus): Promise<Job> =>
+    new Promise((resolve) => {
+      const unsubscribe = jobQueueService.subscribe((job) => {
+        if (job.job_id === jobId && job.status === status) {
+          unsubscribe();
+          resolve(job);
+        }
+      });
+    });
+
+  beforeEach(async () => {
+    dbService = new DatabaseService({ driver: 'embedded', embeddedPath: ':memory:' });
+    await dbService.initialize();
+    jobRepository = new JobRepository(dbService);
+    jobQueueService = new JobQueueService(jobRepository, { retryDelayMs: 0, pollIntervalMs: 60 * 1000 });
+  });
+
+  afterEach(async () => {
+    jobQueueService.stop();
+    await dbService.close();
+  });
+
+  it('should run queued jobs and report their progress', async () => {
+    jobQueueService.registerHandler(JobType.TRANSCRIPTION, {
+      run: async (job, { reportProgress }) => {
+        await reportProgress(50, 'Halfway');
+        return { transcription_id: job.payload.transcription_id };
+      }
+    });
+    await jobQueueService.start();
+
+    const updates: Job[] = [];
+    jobQueueService.subscribe((update) => updates.push(update));
+
+    const job = await jobQueueService.enqueue({
+      type: JobType.TRANSCRIPTION,
+      payload: { transcription_id: 'transcription-1' },
+      created_by: 'user-1'
+    });
+    const completed = await waitForStatus(job.job_id, JobStatus.COMPLETED);
+
+    expect(completed).toMatchObject({
+      progress: 100,
+      attempts: 1,
+      result: { transcription_id: 'transcription-1' },
+      created_by: 'user-1'
+    });
+    expect(updates.map((update) => [update.status, update.progress])).toEqual([
+      [JobStatus.QUEUED, 0],
+      [JobStatus.RUNNING, 0],
+      [JobStatus.RUNNING, 50],
+      [JobStatus.COMPLETED, 100]
+    ]);
+    expect(updates[2].progress_message).toBe('Halfway');
+    expect(await jobQueueService.getJob(job.job_id)).toEqual(completed);
+  });
+
+  it('should retry failed jobs until they run out of attempts', async () => {
+    const run = jest.fn().mockRejectedValue(new Error('Model not available'));
+    jobQueueService.registerHandler(JobType.SESSION_ANALYSIS, { run });
+    await jobQueueService.start();
+
+    const job = await jobQueueService.enqueue({ type: JobType.SESSION_ANALYSIS, payload: {}, max_attempts: 2 });
+    const failed = await waitForStatus(job.job_id, JobStatus.FAILED);
+
+    expect(run).toHaveBeenCalledTimes(2);
+    expect(failed).toMatchObject({ attempts: 2, error: 'Model not available' });
+  });
+
+  it('should queue failed jobs again on request', async () => {
+    const run = jest.fn().mockRejectedValueOnce(new Error('Model not available')).mockResolvedValue('done');
+    jobQueueService.registerHandler(JobType.SESSION_ANALYSIS, { run });
+    await jobQueueService.start();
+
+    const job = await jobQueueService.enqueue({ type: JobType.SESSION_ANALYSIS, payload: {}, max_attempts: 1 });
+    await waitForStatus(job.job_id, JobStatus.FAILED);
+
+    const completed = waitForStatus(job.job_id, JobStatus.COMPLETED);
+    expect(await jobQueueService.retry(job.job_id)).toMatchObject({ status: JobStatus.QUEUED, attempts: 0 });
+    expect(await completed).toMatchObject({ attempts: 1, result: 'done' });
+    expect(await jobQueueService.retry(job.job_id)).toBeNull();
+  });
+
+  it('should cancel running jobs', async () => {
+    const onCancel = jest.fn().mockResolvedValue(undefined);
+    let aborted = false;
+    jobQueueService.registerHandler(JobType.TRANSCRIPTION, {
+      run: (job, { signal }) =>
+        new Promise((resolve) => {
+          signal.addEventListener('abort', () => {
+            aborted = true;
+            resolve('ignored');
+          });
+        }),
+      onCancel
+    });
+    await jobQueueService.start();
+
+    const job = await jobQueueService.enqueue({ type: JobType.TRANSCRIPTION, payload: { recording_id: 'rec-1' } });
+    await waitForStatus(job.job_id, JobStatus.RUNNING);
+    const cancelled = await jobQueueService.cancel(job.job_id);
+
+    expect(cancelled?.status).toBe(JobStatus.CANCELLED);
+    expect(aborted).toBe(true);
+    expect(onCancel).toHaveBeenCalledWith(expect.objectContaining({ job_id: job.job_id }));
+    expect(await jobQueueService.cancel(job.job_id)).toBeNull();
+
+    // The handler's result is discarded
+    await new Promise((resolve) => setImmediate(resolve));
+    expect((await jobQueueService.getJob(job.job_id))?.status).toBe(JobStatus.CANCELLED);
+  });
+
+  it('should run jobs interrupted by a restart again', async () => {
+    const job = await jobRepository.create({ type: JobType.TRANSCRIPTION, payload: {} });
+    expect((await jobRepository.claimNext(new Date().toISOString()))?.job_id).toBe(job.job_id);
+
+    jobQueueService.registerHandler(JobType.TRANSCRIPTION, { run: async () => 'done' });
+    const completed = waitForStatus(job.job_id, JobStatus.COMPLETED);
+    await jobQueueService.start();
+
+    expect(await completed).toMatchObject({ attempts: 2, result: 'done' });
+  });
+
+  it('should list jobs by creator and status', async () => {
+    await jobQueueService.enqueue({ type: JobType.TRANSCRIPTION, payload: {}, created_by: 'user-1' });
+    await jobQueueService.enqueue({ type: JobType.SESSION_ANALYSIS, payload: {}, created_by: 'user-1' });
+    await jobQueueService.enqueue({ type: JobType.TRANSCRIPTION, payload: {}, created_by: 'user-2' });
+
+    const { jobs, total } = await jobQueueService.getJobs({ created_by: 'user-1', type: JobType.TRANSCRIPTION });
+
+    expect(total).toBe(1);
+    expect(jobs[0]).toMatchObject({ type: JobType.TRANSCRIPTION, status: JobStatus.QUEUED, created_by: 'user-1' });
+  });
+});
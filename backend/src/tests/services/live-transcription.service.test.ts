@@ -0,0 +1,169 @@
+import * as fs from 'fs';
+import { DatabaseService } from '../../services/database.service';
+import { AudioRecordingRepository } from '../../repositories/audio-recording.repository';
+import { SessionRepository } from '../../repositories/session.repository';
+import { TrashRepository } from '../../repositories/trash.repository';
+import { TranscriptionRepository } from '../../repositories/transcription.repository';
+import { LiveTranscriptionService } from '../../services/live-transcription.service';
+import { TranscriptionProviderRegistry } from '../../services/transcription-providers/registry';
+import { TranscriptionProvider, TranscriptionRequest } from '../../services/transcription-providers/provider';
+import { TranscriptionService as TranscriptionEngine, TranscriptionStatus } from '../../models/audio-recording.model';
+import { LiveAudioFormat, LiveTranscriptUpdate } from '../../models/live-transcription.model';
+
+const SESSION_ID = '11111111-1111-1111-1111-111111111111';
+
+// Bytes of one second of 16 kHz 16-bit mono PCM
+const SECOND = 32000;
+
+/**
+ * Provider that splits every window it is given into two halves
+ */
+const createProvider = (): TranscriptionProvider & { windows: number[] } => {
+  const windows: number[] = [];
+  return {
+    service: TranscriptionEngine.WHISPER_CPP,
+    capabilities: { diarization: false, wordTimestamps: false, languages: [] },
+    windows,
+    isAvailable: async () => true,
+    transcribe: async (request: TranscriptionRequest) => {
+      const { size } = await fs.promises.stat(request.filePath);
+      const seconds = (size - 44) / SECOND;
+      const index = windows.push(seconds);
+      return {
+        segments: [
+          { segment_id: `${index}a`, start_time: 0, end_time: seconds / 2, text: `window ${index} first`, confidence_score: 0.8 },
+          { segment_id: `${index}b`, start_time: seconds / 2, end_time: seconds, text: `window ${index} second`, confidence_score: 0.6 }
+        ],
+        language_code: 'en',
+        confidence_score: 0.7,
+        model_version: 'fake'
+      };
+    }
+  };
+};
+
+describe('LiveTranscriptionService', () => {
+  let dbService: DatabaseService;
+  let audioRecordingRepository: AudioRecordingRepository;
+  let transcriptionRepository: TranscriptionRepository;
+  let provider: ReturnType<typeof createProvider>;
+  let liveTranscriptionService: LiveTranscriptionService;
+
+  beforeEach(async () => {
+    dbService = new DatabaseService({ driver: 'embedded', embeddedPath: ':memory:' });
+    await dbService.initialize();
+    await dbService.writeTransaction(async (tx) => {
+      await tx.run(`CREATE (:Session {session_id: '${SESSION_ID}', name: 'The Crypt'})`);
+    });
+    audioRecordingRepository = new AudioRecordingRepository(dbService);
+    transcriptionRepository = new TranscriptionRepository(dbService);
+
+    provider = createProvider();
+    const registry = new TranscriptionProviderRegistry();
+    registry.register(provider);
+    liveTranscriptionService = new LiveTranscriptionService(
+      audioRecordingRepository,
+      transcriptionRepository,
+      new SessionRepository(dbService, new TrashRepository(dbService)),
+      registry,
+      { windowSeconds: 1, maxWindowSeconds: 3, service: TranscriptionEngine.WHISPER_CPP }
+    );
+  });
+
+  afterEach(async () => {
+    await dbService.close();
+  });
+
+  it('should push partial segments while recording and save the transcript on stop', async () => {
+    const updates: LiveTranscriptUpdate[] = [];
+    let onUpdate: () => void = () => undefined;
+    const nextUpdate = () => new Promise<void>((resolve) => (onUpdate = resolve));
+
+    const live = await liveTranscriptionService.start({ session_id: SESSION_ID, format: LiveAudioFormat.PCM }, 'user-1', {
+      onUpdate: (update) => {
+        updates.push(update);
+        onUpdate();
+      },
+      onError: (message) => {
+        throw new Error(message);
+      }
+    });
+    expect(live).toMatchObject({ session_id: SESSION_ID, service: TranscriptionEngine.WHISPER_CPP });
+
+    // Too little audio for a window
+    liveTranscriptionService.pushAudio(live.live_id, Buffer.alloc(SECOND / 2), 'user-1');
+    expect(provider.windows).toHaveLength(0);
+
+    let update = nextUpdate();
+    liveTranscriptionService.pushAudio(live.live_id, Buffer.alloc(SECOND / 2), 'user-1');
+    await update;
+    expect(updates[0].segments.map((segment) => [segment.start_time, segment.end_time])).toEqual([[0, 0.5]]);
+    expect(updates[0].partial).toMatchObject({ start_time: 0.5, end_time: 1, text: 'window 1 second' });
+
+    // The partial segment is transcribed again with the next second
+    update = nextUpdate();
+    liveTranscriptionService.pushAudio(live.live_id, Buffer.alloc(SECOND), 'user-1');
+    await update;
+    expect(provider.windows).toEqual([1, 1.5]);
+    expect(updates[1].segments.map((segment) => [segment.start_time, segment.end_time])).toEqual([[0.5, 1.25]]);
+    expect(updates[1].partial).toMatchObject({ start_time: 1.25, end_time: 2 });
+
+    const recording = await audioRecordingRepository.create(
+      {
+        session_id: SESSION_ID,
+        name: 'Session 1',
+        file_path: '/tmp/session.webm',
+        duration_seconds: 2,
+        file_size_bytes: 2048,
+        file_format: 'webm',
+        codec: 'opus',
+        sample_rate: 48000,
+        channels: 1,
+        bit_depth: 0
+      },
+      'user-1'
+    );
+    await expect(liveTranscriptionService.stop(live.live_id, recording.recording_id, 'user-2')).rejects.toMatchObject({
+      code: 'LIVE_NOT_FOUND'
+    });
+
+    const transcription = await liveTranscriptionService.stop(live.live_id, recording.recording_id, 'user-1');
+    expect(provider.windows).toEqual([1, 1.5, 0.75]);
+    expect(transcription.segments.map((segment) => [segment.start_time, segment.end_time])).toEqual([
+      [0, 0.5],
+      [0.5, 1.25],
+      [1.25, 1.625],
+      [1.625, 2]
+    ]);
+    expect(transcription.full_text).toBe('window 1 first window 2 first window 3 first window 3 second');
+    expect(transcription.confidence_score).toBeCloseTo(0.75);
+
+    expect(await transcriptionRepository.findByRecordingId(recording.recording_id)).toMatchObject({
+      transcription_id: transcription.transcription_id
+    });
+    expect((await audioRecordingRepository.findById(recording.recording_id))?.transcription_status).toBe(
+      TranscriptionStatus.COMPLETED
+    );
+    expect(() => liveTranscriptionService.pushAudio(live.live_id, Buffer.alloc(2), 'user-1')).toThrow(
+      'Live transcription not found'
+    );
+  });
+
+  it('should reject unknown sessions and discard cancelled transcriptions', async () => {
+    const listener = { onUpdate: jest.fn(), onError: jest.fn() };
+
+    await expect(
+      liveTranscriptionService.start(
+        { session_id: '22222222-2222-2222-2222-222222222222', format: LiveAudioFormat.PCM },
+        'user-1',
+        listener
+      )
+    ).rejects.toMatchObject({ code: 'SESSION_NOT_FOUND' });
+
+    const live = await liveTranscriptionService.start({ session_id: SESSION_ID, format: LiveAudioFormat.PCM }, 'user-1', listener);
+    expect(await liveTranscriptionService.cancel(live.live_id, 'user-2')).toBe(false);
+    expect(await liveTranscriptionService.cancel(live.live_id, 'user-1')).toBe(true);
+    expect(await liveTranscriptionService.cancel(live.live_id, 'user-1')).toBe(false);
+    expect(listener.onUpdate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,146 @@
+import { DatabaseService } from '../../services/database.service';
+import { MigrationService } from '../../services/migration.service';
+import { Migration, migrations, renameNodeProperty } from '../../migrations';
+
+describe('MigrationService', () => {
+  let dbService: DatabaseService;
+
+  const renameMigration: Migration = {
+    version: migrations[migrations.length - 1].version + 1,
+    name: 'rename-character-race',
+    up: (tx) => renameNodeProperty(tx, 'Character', 'race', 'ancestry'),
+    down: (tx) => renameNodeProperty(tx, 'Character', 'ancestry', 'race'),
+  };
+
+  const getCharacter = () =>
+    dbService.readTransaction(async (tx) => {
+      const result = await tx.run('MATCH (c:Character {character_id: $characterId}) RETURN c {.*} as character', {
+        characterId: 'char-1',
+      });
+      return result.records[0].get('character');
+    });
+
+  beforeEach(async () => {
+    dbService = new DatabaseService({ driver: 'embedded', embeddedPath: ':memory:' });
+    await dbService.initialize();
+  });
+
+  afterEach(async () => {
+    await dbService.close();
+  });
+
+  describe('migrate', () => {
+    it('should apply pending migrations and record them', async () => {
+      const migrationService = new MigrationService(dbService);
+
+      const applied = await migrationService.migrate();
+
+      expect(applied.map((migration) => migration.version)).toEqual(migrations.map((migration) => migration.version));
+      expect(await migrationService.getCurrentVersion()).toBe(migrations[migrations.length - 1].version);
+      const status = await migrationService.getStatus();
+      expect(status.every((migration) => migration.applied && migration.applied_at)).toBe(true);
+    });
+
+    it('should not reapply migrations', async () => {
+      const migrationService = new MigrationService(dbService);
+      await migrationService.migrate();
+
+      expect(await migrationService.migrate()).toEqual([]);
+    });
+
+    it('should create the uniqueness constraints', async () => {
+      await new MigrationService(dbService).migrate();
+
+      await dbService.writeTransaction(async (tx) => {
+        await tx.run('CREATE (c:Campaign {campaign_id: $campaignId})', { campaignId: 'campaign-1' });
+      });
+
+      await expect(
+        dbService.writeTransaction(async (tx) => {
+          await tx.run('CREATE (c:Campaign {campaign_id: $campaignId})', { campaignId: 'campaign-1' });
+        })
+      ).rejects.toThrow('already exists with label `Campaign`');
+    });
+
+    it('should stop at the target version', async () => {
+      const migrationService = new MigrationService(dbService, [...migrations, renameMigration]);
+
+      await migrationService.migrate(1);
+
+      expect(await migrationService.getCurrentVersion()).toBe(1);
+    });
+
+    it('should rename properties', async () => {
+      await dbService.writeTransaction(async (tx) => {
+        await tx.run('CREATE (c:Character {character_id: $characterId, race: $race})', {
+          characterId: 'char-1',
+          race: 'Dhampir',
+        });
+      });
+
+      await new MigrationService(dbService, [...migrations, renameMigration]).migrate();
+
+      expect(await getCharacter()).toEqual({ character_id: 'char-1', ancestry: 'Dhampir' });
+    });
+
+    it('should index the terms of transcript segments saved before transcript search', async () => {
+      await dbService.writeTransaction(async (tx) => {
+        await tx.run(`
+          CREATE (:TranscriptionSegment {segment_id: 'seg-1', text: 'The goblin attacks'})
+          CREATE (:TranscriptionSegment {segment_id: 'seg-2', text: 'A goblin flees'})
+        `);
+      });
+
+      await new MigrationService(dbService).migrate();
+
+      const segments = await dbService.readTransaction(async (tx) => {
+        const result = await tx.run(`
+          MATCH (s:TranscriptionSegment)-[:HAS_TERM]->(:TranscriptTerm {term: 'goblin'})
+          RETURN s.segment_id as segmentId
+          ORDER BY segmentId
+        `);
+        return result.records.map((record) => record.get('segmentId'));
+      });
+      expect(segments).toEqual(['seg-1', 'seg-2']);
+    });
+
+    it('should reject duplicate versions', () => {
+      expect(() => new MigrationService(dbService, [renameMigration, renameMigration])).toThrow(
+        `Duplicate migration version ${renameMigration.version}`
+      );
+    });
+  });
+
+  describe('rollback', () => {
+    it('should revert the newest migration', async () => {
+      await dbService.writeTransaction(async (tx) => {
+        await tx.run('CREATE (c:Character {character_id: $characterId, race: $race})', {
+          characterId: 'char-1',
+          race: 'Dhampir',
+        });
+      });
+      const migrationService = new MigrationService(dbService, [...migrations, renameMigration]);
+      await migrationService.migrate();
+
+      const reverted = await migrationService.rollback();
+
+      expect(reverted).toEqual([renameMigration]);
+      expect(await migrationService.getCurrentVersion()).toBe(migrations[migrations.length - 1].version);
+      expect(await getCharacter()).toEqual({ character_id: 'char-1', race: 'Dhampir' });
+    });
+
+    it('should drop constraints when reverting the initial schema', async () => {
+      const migrationService = new MigrationService(dbService);
+      await migrationService.migrate();
+
+      await migrationService.rollback(migrations.length);
+
+      const constraints = await dbService.readTransaction(async (tx) => {
+        const result = await tx.run('SHOW CONSTRAINTS');
+        return result.records;
+      });
+      expect(constraints).toHaveLength(0);
+      expect(await migrationService.getCurrentVersion()).toBe(0);
+    });
+  });
+});
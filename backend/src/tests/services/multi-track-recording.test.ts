@@ -0,0 +1,191 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DatabaseService } from '../../services/database.service';
+import { AudioRecordingRepository } from '../../repositories/audio-recording.repository';
+import { TranscriptionRepository } from '../../repositories/transcription.repository';
+import { AudioRecordingService } from '../../services/audio-recording.service';
+import { AudioMixdownService } from '../../services/audio-mixdown.service';
+import { TranscriptionService } from '../../services/transcription.service';
+import { TranscriptionProviderRegistry } from '../../services/transcription-providers/registry';
+import { TranscriptionProvider, TranscriptionRequest } from '../../services/transcription-providers/provider';
+import { TranscriptionService as TranscriptionEngine, TranscriptionStatus } from '../../models/audio-recording.model';
+
+const SESSION_ID = '11111111-1111-1111-1111-111111111111';
+const CHARACTER_ID = '33333333-3333-3333-3333-333333333333';
+
+/**
+ * WAV file of the given number of seconds of silent 16 kHz mono PCM
+ */
+const wav = (seconds: number): Buffer => {
+  const dataLength = seconds * 32000;
+  const file = Buffer.alloc(44 + dataLength);
+  file.write('RIFF', 0, 'latin1');
+  file.writeUInt32LE(36 + dataLength, 4);
+  file.write('WAVEfmt ', 8, 'latin1');
+  file.writeUInt32LE(16, 16);
+  file.writeUInt16LE(1, 20);
+  file.writeUInt16LE(1, 22);
+  file.writeUInt32LE(16000, 24);
+  file.writeUInt32LE(32000, 28);
+  file.writeUInt16LE(2, 32);
+  file.writeUInt16LE(16, 34);
+  file.write('data', 36, 'latin1');
+  file.writeUInt32LE(dataLength, 40);
+  return file;
+};
+
+/**
+ * Provider that hears the game master on the first track and a player on the second
+ */
+const provider: TranscriptionProvider = {
+  service: TranscriptionEngine.WHISPER_CPP,
+  capabilities: { diarization: true, wordTimestamps: false, languages: [] },
+  isAvailable: async () => true,
+  transcribe: async (request: TranscriptionRequest) => {
+    const gameMaster = request.filePath.endsWith('-track-1.wav');
+    const segments = gameMaster
+      ? [
+          { segment_id: 'seg-1', start_time: 0, end_time: 2, text: 'You enter the crypt.', confidence_score: 0.9 },
+          { segment_id: 'seg-2', start_time: 5, end_time: 6, text: 'Roll initiative.', confidence_score: 0.9 }
+        ]
+      : [{ segment_id: 'seg-1', start_time: 2.5, end_time: 4, text: 'I light a torch.', confidence_score: 0.6 }];
+    return { segments, language_code: 'en', confidence_score: gameMaster ? 0.9 : 0.6, model_version: 'fake', speaker_count: 3 };
+  }
+};
+
+describe('Multi-track recordings', () => {
+  let dbService: DatabaseService;
+  let uploadDir: string;
+  let audioRecordingRepository: AudioRecordingRepository;
+  let transcriptionRepository: TranscriptionRepository;
+  let audioRecordingService: AudioRecordingService;
+  let mix: jest.Mock;
+
+  beforeEach(async () => {
+    dbService = new DatabaseService({ driver: 'embedded', embeddedPath: ':memory:' });
+    await dbService.initialize();
+    await dbService.writeTransaction(async (tx) => {
+      await tx.run(`CREATE (:Session {session_id: '${SESSION_ID}', name: 'The Crypt'})`);
+      await tx.run(`CREATE (:Character {character_id: '${CHARACTER_ID}', name: 'Ireena'})`);
+    });
+    audioRecordingRepository = new AudioRecordingRepository(dbService);
+    transcriptionRepository = new TranscriptionRepository(dbService);
+    uploadDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'multi-track-'));
+
+    // Stand in for ffmpeg by taking the first track as the mix
+    mix = jest.fn((inputPaths: string[], outputPath: string) => fs.promises.copyFile(inputPaths[0], outputPath));
+    audioRecordingService = new AudioRecordingService(
+      audioRecordingRepository,
+      transcriptionRepository,
+      uploadDir,
+      undefined,
+      { mix } as unknown as AudioMixdownService
+    );
+  });
+
+  afterEach(async () => {
+    await dbService.close();
+    await fs.promises.rm(uploadDir, { recursive: true, force: true });
+  });
+
+  it('should transcribe every track and attribute its segments to the speaker of the track', async () => {
+    const recording = await audioRecordingService.createMultiTrack(
+      SESSION_ID,
+      'Session 1',
+      undefined,
+      [
+        { file: wav(6), file_name: '1-dungeonmaster.wav' },
+        { file: wav(4), file_name: '2-kate_0.wav', character_id: CHARACTER_ID }
+      ],
+      'user-1',
+      { auto_transcribe: false }
+    );
+
+    expect(mix).toHaveBeenCalledWith(
+      [expect.stringMatching(/-track-1\.wav$/), expect.stringMatching(/-track-2\.wav$/)],
+      recording.file_path
+    );
+    expect(recording).toMatchObject({ file_format: 'wav', duration_seconds: 6 });
+
+    const tracks = await audioRecordingRepository.findTracks(recording.recording_id);
+    expect(tracks.map((track) => [track.name, track.speaker_name, track.duration_seconds])).toEqual([
+      ['1-dungeonmaster.wav', 'dungeonmaster', 6],
+      ['2-kate_0.wav', 'kate_0', 4]
+    ]);
+
+    const registry = new TranscriptionProviderRegistry();
+    registry.register(provider);
+    const transcriptionService = new TranscriptionService(transcriptionRepository, audioRecordingRepository, registry);
+    const { transcription_id } = await transcriptionRepository.create({
+      recording_id: recording.recording_id,
+      session_id: SESSION_ID,
+      service_options: { service: TranscriptionEngine.WHISPER_CPP }
+    });
+    const onProgress = jest.fn();
+
+    const transcription = await transcriptionService.processWith(
+      transcription_id,
+      TranscriptionEngine.WHISPER_CPP,
+      true,
+      onProgress
+    );
+
+    expect(transcription.segments.map((segment) => [segment.start_time, segment.speaker_name, segment.text])).toEqual([
+      [0, 'dungeonmaster', 'You enter the crypt.'],
+      [2.5, 'kate_0', 'I light a torch.'],
+      [5, 'dungeonmaster', 'Roll initiative.']
+    ]);
+    expect(transcription.segments[1].speaker_id).toBe(tracks[1].speaker_id);
+    expect(transcription.confidence_score).toBeCloseTo(0.8);
+    expect(transcription.metadata.speaker_count).toBe(2);
+    expect(onProgress).toHaveBeenCalledWith(48, 'Transcribing track 2 of 2 (kate_0)');
+    expect((await audioRecordingRepository.findById(recording.recording_id))?.transcription_status).toBe(
+      TranscriptionStatus.COMPLETED
+    );
+
+    const speakers = await transcriptionRepository.getSpeakersForSession(SESSION_ID);
+    expect(speakers.find((speaker) => speaker.speaker_name === 'kate_0')).toMatchObject({
+      character_id: CHARACTER_ID,
+      character_name: 'Ireena'
+    });
+  });
+
+  it('should remove the tracks with the recording', async () => {
+    const recording = await audioRecordingService.createMultiTrack(
+      SESSION_ID,
+      'Session 1',
+      undefined,
+      [
+        { file: wav(1), file_name: '1-dungeonmaster.wav' },
+        { file: wav(1), file_name: '2-kate.wav' }
+      ],
+      'user-1',
+      { auto_transcribe: false }
+    );
+    const tracks = await audioRecordingRepository.findTracks(recording.recording_id);
+
+    expect(await audioRecordingService.delete(recording.recording_id)).toBe(true);
+    expect(await audioRecordingRepository.findTracks(recording.recording_id)).toEqual([]);
+    expect(fs.existsSync(tracks[0].file_path)).toBe(false);
+    expect(await fs.promises.readdir(uploadDir)).toEqual([]);
+  });
+
+  it('should not keep any file when a track is not audio', async () => {
+    await expect(
+      audioRecordingService.createMultiTrack(
+        SESSION_ID,
+        'Session 1',
+        undefined,
+        [
+          { file: wav(1), file_name: '1-dungeonmaster.wav' },
+          { file: Buffer.from('not audio'), file_name: '2-kate.wav' }
+        ],
+        'user-1'
+      )
+    ).rejects.toThrow();
+
+    expect(mix).not.toHaveBeenCalled();
+    expect(await fs.promises.readdir(uploadDir)).toEqual([]);
+  });
+});
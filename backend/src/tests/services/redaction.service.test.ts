@@ -0,0 +1,254 @@
+import { DatabaseService } from '../../services/database.service';
+import { AudioRecordingRepository } from '../../repositories/audio-recording.repository';
+import { TranscriptionRepository } from '../../repositories/transcription.repository';
+import { SessionRepository } from '../../repositories/session.repository';
+import { TrashRepository } from '../../repositories/trash.repository';
+import { RedactionRepository } from '../../repositories/redaction.repository';
+import { TranscriptRevisionRepository } from '../../repositories/transcript-revision.repository';
+import { TranscriptionService } from '../../services/transcription.service';
+import { TranscriptEditService } from '../../services/transcript-edit.service';
+import { RedactionService } from '../../services/redaction.service';
+import { AudioRedactionService } from '../../services/audio-redaction.service';
+import { TranscriptionProviderRegistry } from '../../services/transcription-providers/registry';
+import { PiiPattern, REDACTED_TEXT, RedactionRuleType } from '../../models/redaction.model';
+import { TranscriptionSegment } from '../../models/transcription.model';
+import { piiMatcher, redactFreeText, redactSegment } from '../../utils/redaction';
+
+const CAMPAIGN_ID = '00000000-0000-0000-0000-000000000001';
+const SESSION_ID = '11111111-1111-1111-1111-111111111111';
+
+const CHAT_LOG = `[00:00:01] Game Master: Welcome back. Mail me at gm@example.com if you miss a session.
+[00:00:05] Alice: My number is 555-123-4567, call me.
+[00:00:09] Bob: I sneak up on the goblin.
+[00:00:14] Game Master: Roll for stealth.
+`;
+
+describe('Redaction patterns', () => {
+  const matches = (pattern: PiiPattern, text: string) =>
+    piiMatcher(pattern)(text).map(({ start, end }) => text.slice(start, end));
+
+  it('should find emails, phone numbers and card numbers', () => {
+    expect(matches(PiiPattern.EMAIL, 'Write to Jane.Doe+dnd@mail.example.co.uk today')).toEqual([
+      'Jane.Doe+dnd@mail.example.co.uk'
+    ]);
+    expect(matches(PiiPattern.PHONE, 'Call 555-123-4567 or +44 20 7946 0958, or (555) 987 6543.')).toEqual([
+      '555-123-4567',
+      '+44 20 7946 0958',
+      '(555) 987 6543'
+    ]);
+    expect(matches(PiiPattern.CREDIT_CARD, 'Card 4111 1111 1111 1111, not 4111 1111 1111 1112')).toEqual([
+      '4111 1111 1111 1111'
+    ]);
+  });
+
+  it('should leave dates, years and amounts alone', () => {
+    expect(matches(PiiPattern.PHONE, 'On 2023-01-15, between 1999-2003, we found 1500000 gold.')).toEqual([]);
+  });
+
+  it('should redact free text', () => {
+    expect(redactFreeText('Mail gm@example.com or 555-123-4567.', [piiMatcher(PiiPattern.EMAIL), piiMatcher(PiiPattern.PHONE)]))
+      .toBe(`Mail ${REDACTED_TEXT} or ${REDACTED_TEXT}.`);
+  });
+});
+
+describe('redactSegment', () => {
+  const segment: TranscriptionSegment = {
+    segment_id: 'seg-1',
+    start_time: 10,
+    end_time: 14,
+    text: 'Call me at 555 123 4567, okay?',
+    confidence_score: 0.9,
+    words: ['Call', 'me', 'at', '555', '123', '4567,', 'okay?'].map((word, index) => ({
+      word,
+      start_time: 10 + index * 0.5,
+      end_time: 10.5 + index * 0.5,
+      confidence_score: 0.9 - index * 0.01
+    }))
+  };
+
+  it('should redact whole words and time the redacted run of words', () => {
+    const start = segment.text.indexOf('555');
+    const redaction = redactSegment(segment, [{ start, end: start + '555 123 4567'.length, silence_audio: true }]);
+
+    expect(redaction?.segment.text).toBe(`Call me at ${REDACTED_TEXT} okay?`);
+    expect(redaction?.segment.words?.map(({ word }) => word)).toEqual(['Call', 'me', 'at', REDACTED_TEXT, 'okay?']);
+    expect(redaction?.segment.words?.[3]).toEqual({
+      word: REDACTED_TEXT,
+      start_time: 11.5,
+      end_time: 13,
+      confidence_score: expect.closeTo(0.85)
+    });
+    expect(redaction?.words_redacted).toBe(3);
+    expect(redaction?.silenced_ranges).toEqual([{ start_time: 11.5, end_time: 13 }]);
+  });
+
+  it('should leave words redacted before as they are', () => {
+    const redacted = redactSegment(segment, [{ start: 11, end: 23 }])?.segment as TranscriptionSegment;
+    const start = redacted.text.indexOf(REDACTED_TEXT);
+
+    expect(redactSegment(redacted, [{ start, end: start + REDACTED_TEXT.length }])).toBeNull();
+  });
+});
+
+describe('RedactionService', () => {
+  let dbService: DatabaseService;
+  let transcriptionRepository: TranscriptionRepository;
+  let audioRecordingRepository: AudioRecordingRepository;
+  let transcriptionService: TranscriptionService;
+  let transcriptEditService: TranscriptEditService;
+  let redactionService: RedactionService;
+  let silence: jest.Mock;
+
+  /**
+   * Import the chat log as the transcript of a new recording of the session
+   */
+  const importChatLog = async () => {
+    const recording = await audioRecordingRepository.create(
+      {
+        session_id: SESSION_ID,
+        name: 'Session',
+        file_path: '/tmp/session.wav',
+        duration_seconds: 20,
+        file_size_bytes: 2048,
+        file_format: 'wav',
+        codec: 'pcm_s16le',
+        sample_rate: 16000,
+        channels: 1,
+        bit_depth: 16
+      },
+      'user-1'
+    );
+    return transcriptionService.importTranscript(
+      { session_id: SESSION_ID, recording_id: recording.recording_id },
+      CHAT_LOG
+    );
+  };
+
+  beforeEach(async () => {
+    dbService = new DatabaseService({ driver: 'embedded', embeddedPath: ':memory:' });
+    await dbService.initialize();
+    await dbService.writeTransaction(async (tx) => {
+      await tx.run(
+        `
+        CREATE (c:Campaign {campaign_id: '${CAMPAIGN_ID}', name: 'Curse of Strahd'})
+        CREATE (:Session {session_id: '${SESSION_ID}', name: 'The Lair'})-[:PART_OF]->(c)
+        `
+      );
+    });
+
+    transcriptionRepository = new TranscriptionRepository(dbService);
+    audioRecordingRepository = new AudioRecordingRepository(dbService);
+    const transcriptRevisionRepository = new TranscriptRevisionRepository(dbService);
+    silence = jest.fn().mockResolvedValue(undefined);
+    redactionService = new RedactionService(
+      new RedactionRepository(dbService),
+      transcriptionRepository,
+      new SessionRepository(dbService, new TrashRepository(dbService)),
+      audioRecordingRepository,
+      transcriptRevisionRepository,
+      { silence } as unknown as AudioRedactionService
+    );
+    transcriptionService = new TranscriptionService(
+      transcriptionRepository,
+      audioRecordingRepository,
+      new TranscriptionProviderRegistry(),
+      undefined,
+      undefined,
+      undefined,
+      redactionService
+    );
+    transcriptEditService = new TranscriptEditService(transcriptionRepository, transcriptRevisionRepository);
+  });
+
+  afterEach(async () => {
+    await dbService.close();
+  });
+
+  it('should redact the existing transcripts of the campaign when a rule is added', async () => {
+    const { transcription_id, segments } = await importChatLog();
+    const bob = segments.find(({ speaker_name }) => speaker_name === 'Bob') as TranscriptionSegment;
+
+    const { summaries } = await redactionService.addRule(
+      CAMPAIGN_ID,
+      { type: RedactionRuleType.SPEAKER, speaker_id: bob.speaker_id, silence_audio: true },
+      'user-1'
+    );
+    expect(summaries).toEqual([
+      {
+        transcription_id,
+        segments_removed: 1,
+        segments_redacted: 0,
+        words_redacted: 0,
+        silenced_ranges: [{ start_time: bob.start_time, end_time: bob.end_time }]
+      }
+    ]);
+    expect(silence).toHaveBeenCalledWith('/tmp/session.wav', [{ start_time: bob.start_time, end_time: bob.end_time }]);
+
+    await redactionService.addRule(CAMPAIGN_ID, { type: RedactionRuleType.PATTERN, pii_pattern: PiiPattern.EMAIL });
+    await redactionService.addRule(CAMPAIGN_ID, { type: RedactionRuleType.PATTERN, pattern: '\\d{3}-\\d{3}-\\d{4}' });
+
+    const transcription = await transcriptionRepository.findById(transcription_id);
+    expect(transcription?.segments.map(({ text }) => text)).toEqual([
+      `Welcome back. Mail me at ${REDACTED_TEXT} if you miss a session.`,
+      `My number is ${REDACTED_TEXT} call me.`,
+      'Roll for stealth.'
+    ]);
+    expect(transcription?.full_text).not.toMatch(/gm@example\.com|555|goblin/);
+    expect(silence).toHaveBeenCalledTimes(1);
+    expect(await redactionService.getRules(CAMPAIGN_ID)).toHaveLength(3);
+  });
+
+  it('should redact new transcripts and scrub the revision log', async () => {
+    await redactionService.addRule(CAMPAIGN_ID, { type: RedactionRuleType.PATTERN, pii_pattern: PiiPattern.PHONE });
+
+    const { transcription_id, segments } = await importChatLog();
+    expect(segments[1].text).toBe(`My number is ${REDACTED_TEXT} call me.`);
+
+    await transcriptEditService.editText(transcription_id, segments[0].segment_id, 'Welcome back.', 'user-1');
+    await redactionService.addRule(CAMPAIGN_ID, { type: RedactionRuleType.PATTERN, pattern: 'example\\.com' });
+
+    const { revisions } = await transcriptEditService.getRevisions(transcription_id);
+    expect(revisions[0].before[0].text).toBe(`Welcome back. Mail me at ${REDACTED_TEXT} if you miss a session.`);
+  });
+
+  it('should redact a span by hand and scrub it from the revision log', async () => {
+    const { transcription_id, segments } = await importChatLog();
+    await transcriptEditService.editText(transcription_id, segments[2].segment_id, 'I sneak up on the goblin chief.');
+
+    const text = 'I sneak up on the goblin chief.';
+    const { transcription, summary } = await redactionService.redactSpan(transcription_id, {
+      segment_id: segments[2].segment_id,
+      start_offset: text.indexOf('goblin'),
+      end_offset: text.indexOf('goblin') + 3,
+      silence_audio: true
+    });
+
+    expect(transcription.segments[2].text).toBe(`I sneak up on the ${REDACTED_TEXT} chief.`);
+    expect(summary).toMatchObject({ segments_redacted: 1, words_redacted: 0 });
+    expect(silence).toHaveBeenCalledWith('/tmp/session.wav', [
+      { start_time: segments[2].start_time, end_time: segments[2].end_time }
+    ]);
+    const { revisions } = await transcriptEditService.getRevisions(transcription_id);
+    // Words are redacted whole, with their punctuation
+    expect(revisions[0].before[0].text).toBe(`I sneak up on the ${REDACTED_TEXT}`);
+
+    await expect(
+      redactionService.redactSpan(transcription_id, { segment_id: segments[2].segment_id, start_offset: 5, end_offset: 500 })
+    ).rejects.toMatchObject({ code: 'INVALID_SPAN' });
+  });
+
+  it('should reject invalid rules', async () => {
+    await expect(
+      redactionService.addRule(CAMPAIGN_ID, { type: RedactionRuleType.PATTERN, pattern: '(unclosed' })
+    ).rejects.toMatchObject({ code: 'INVALID_PATTERN' });
+    await expect(
+      redactionService.addRule(CAMPAIGN_ID, { type: RedactionRuleType.PATTERN, pattern: 'x', pii_pattern: PiiPattern.EMAIL })
+    ).rejects.toMatchObject({ code: 'INVALID_RULE' });
+    await expect(
+      redactionService.addRule(CAMPAIGN_ID, { type: RedactionRuleType.SPEAKER, speaker_id: 'missing' })
+    ).rejects.toMatchObject({ code: 'SPEAKER_NOT_FOUND' });
+    await expect(
+      redactionService.addRule('missing', { type: RedactionRuleType.PATTERN, pii_pattern: PiiPattern.EMAIL })
+    ).rejects.toMatchObject({ code: 'CAMPAIGN_NOT_FOUND' });
+  });
+});
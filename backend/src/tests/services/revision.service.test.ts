@@ -0,0 +1,154 @@
+import { DatabaseService } from '../../services/database.service';
+import { CharacterRepository } from '../../repositories/character.repository';
+import { RevisionRepository } from '../../repositories/revision.repository';
+import { TrashRepository } from '../../repositories/trash.repository';
+import { RevisionService } from '../../services/revision.service';
+import { RevisionChangeType } from '../../models/revision.model';
+
+describe('RevisionService', () => {
+  let dbService: DatabaseService;
+  let characterRepository: CharacterRepository;
+  let revisionService: RevisionService;
+  let characterId: string;
+
+  beforeEach(async () => {
+    dbService = new DatabaseService({ driver: 'embedded', embeddedPath: ':memory:' });
+    await dbService.initialize();
+    const revisionRepository = new RevisionRepository(dbService);
+    characterRepository = new CharacterRepository(dbService, revisionRepository, new TrashRepository(dbService));
+    revisionService = new RevisionService(revisionRepository);
+
+    const character = await characterRepository.create({
+      name: 'Ireena',
+      description: 'Daughter of the burgomaster'
+    } as any, 'user-1');
+    characterId = character.character_id as string;
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await dbService.close();
+  });
+
+  describe('update tracking', () => {
+    it('should record a baseline and an attributed revision for each update', async () => {
+      await characterRepository.update(characterId, { description: 'Adopted daughter of the burgomaster' }, { userId: 'user-2' });
+      await characterRepository.update(characterId, { name: 'Ireena Kolyana' }, { proposalId: 'proposal-1', userId: 'user-3' });
+
+      const { revisions, total } = await revisionService.getRevisions('character', characterId);
+
+      expect(total).toBe(3);
+      expect(revisions.map((revision) => revision.revision_number)).toEqual([3, 2, 1]);
+      expect(revisions[2]).toMatchObject({ change_type: RevisionChangeType.BASELINE, changed_fields: [] });
+      expect(revisions[2].snapshot.description).toBe('Daughter of the burgomaster');
+      expect(revisions[1]).toMatchObject({
+        change_type: RevisionChangeType.UPDATE,
+        changed_fields: ['description'],
+        created_by: 'user-2'
+      });
+      expect(revisions[0]).toMatchObject({ changed_fields: ['name'], created_by: 'user-3', proposal_id: 'proposal-1' });
+      expect(revisions[0].snapshot.name).toBe('Ireena Kolyana');
+    });
+
+    it('should number the revisions of concurrent updates one after another', async () => {
+      await Promise.all([
+        characterRepository.update(characterId, { name: 'Ireena Kolyana' }),
+        characterRepository.update(characterId, { description: 'Adopted daughter of the burgomaster' })
+      ]);
+
+      const { revisions } = await revisionService.getRevisions('character', characterId);
+
+      expect(revisions.map((revision) => revision.revision_number)).toEqual([3, 2, 1]);
+      expect(revisions.filter((revision) => revision.change_type === RevisionChangeType.BASELINE)).toHaveLength(1);
+
+      // The key that the uniqueness constraint guards
+      const keys = await dbService.readTransaction(async (tx) => {
+        const result = await tx.run(
+          'MATCH (r:EntityRevision {entity_id: $characterId}) RETURN r.revision_key as key ORDER BY key',
+          { characterId }
+        );
+        return result.records.map((record) => record.get('key'));
+      });
+      expect(keys).toEqual([1, 2, 3].map((number) => `character:${characterId}:${number}`));
+    });
+
+    it('should leave the entity unchanged when its revision cannot be recorded', async () => {
+      jest.spyOn(RevisionRepository.prototype, 'createRevision').mockRejectedValueOnce(new Error('Revision conflict'));
+
+      await expect(characterRepository.update(characterId, { name: 'Ireena Kolyana' })).rejects.toThrow('Revision conflict');
+
+      expect((await characterRepository.getById(characterId))?.name).toBe('Ireena');
+      expect((await revisionService.getRevisions('character', characterId)).total).toBe(0);
+    });
+
+    it('should skip updates that change nothing', async () => {
+      await characterRepository.update(characterId, { name: 'Ireena' });
+
+      expect((await revisionService.getRevisions('character', characterId)).total).toBe(0);
+    });
+
+    it('should paginate revisions', async () => {
+      await characterRepository.update(characterId, { name: 'Ireena 2' });
+      await characterRepository.update(characterId, { name: 'Ireena 3' });
+
+      const { revisions, total } = await revisionService.getRevisions('character', characterId, 2, 2);
+
+      expect(total).toBe(3);
+      expect(revisions.map((revision) => revision.revision_number)).toEqual([1]);
+    });
+  });
+
+  describe('diff', () => {
+    it('should report field changes with a word-level text diff', async () => {
+      await characterRepository.update(characterId, {
+        description: 'Adopted daughter of the old burgomaster',
+        character_type: 'npc'
+      } as any);
+
+      const diff = await revisionService.diff('character', characterId, 1, 2);
+
+      expect(diff?.changes).toEqual([
+        { field: 'character_type', type: 'added', newValue: 'npc' },
+        {
+          field: 'description',
+          type: 'changed',
+          oldValue: 'Daughter of the burgomaster',
+          newValue: 'Adopted daughter of the old burgomaster',
+          textDiff: [
+            { type: 'delete', value: 'Daughter ' },
+            { type: 'insert', value: 'Adopted daughter ' },
+            { type: 'equal', value: 'of the ' },
+            { type: 'insert', value: 'old ' },
+            { type: 'equal', value: 'burgomaster' }
+          ]
+        }
+      ]);
+    });
+
+    it('should return null for unknown revisions', async () => {
+      expect(await revisionService.diff('character', characterId, 1, 5)).toBeNull();
+    });
+  });
+
+  describe('revert', () => {
+    it('should restore an earlier revision and record the revert', async () => {
+      await characterRepository.update(characterId, { name: 'Tatyana', description: 'A reincarnation' });
+
+      const revision = await revisionService.revert('character', characterId, 1, { userId: 'user-4' });
+
+      expect(revision).toMatchObject({
+        revision_number: 3,
+        change_type: RevisionChangeType.REVERT,
+        changed_fields: ['description', 'name'],
+        created_by: 'user-4',
+        reverted_from: 1
+      });
+      const character = await characterRepository.getById(characterId);
+      expect(character).toMatchObject({ name: 'Ireena', description: 'Daughter of the burgomaster' });
+    });
+
+    it('should return null when the revision does not exist', async () => {
+      expect(await revisionService.revert('character', characterId, 7)).toBeNull();
+    });
+  });
+});
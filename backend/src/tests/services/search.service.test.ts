@@ -0,0 +1,136 @@
+import { DatabaseService } from '../../services/database.service';
+import { SearchRepository } from '../../repositories/search.repository';
+import { SearchService } from '../../services/search.service';
+
+describe('SearchService', () => {
+  let dbService: DatabaseService;
+  let searchService: SearchService;
+
+  beforeEach(async () => {
+    dbService = new DatabaseService({ driver: 'embedded', embeddedPath: ':memory:' });
+    await dbService.initialize();
+    searchService = new SearchService(new SearchRepository(dbService));
+
+    await dbService.writeTransaction(async (tx) => {
+      await tx.run(`
+        CREATE (w:RPGWorld {world_id: 'world-1', name: 'Barovia', description: 'A land of mists', created_at: 1704067200000})
+        CREATE (w2:RPGWorld {world_id: 'world-2', name: 'Eberron', description: 'Dragonmarked houses'})
+        CREATE (c:Campaign {campaign_id: 'campaign-1', name: 'Curse of Strahd', created_at: 1704067200000})-[:PART_OF]->(w)
+        CREATE (c2:Campaign {campaign_id: 'campaign-2', name: 'Sharn Nights'})-[:PART_OF]->(w2)
+        CREATE (s:Session {session_id: 'session-1', name: 'Death House', created_at: '2024-01-05T00:00:00.000Z'})-[:PART_OF]->(c)
+        CREATE (:Character {character_id: 'char-1', name: 'Strahd von Zarovich', description: 'The vampire lord of Barovia', created_at: '2024-01-02T00:00:00.000Z'})-[:BELONGS_TO]->(c)
+        CREATE (:Character {character_id: 'char-2', name: 'Ireena', description: 'Pursued by Strahd', created_at: '2024-01-03T00:00:00.000Z'})-[:BELONGS_TO]->(c)
+        CREATE (:Character {character_id: 'char-3', name: 'Strahd Impersonator', description: 'A changeling in Sharn', created_at: '2024-01-04T00:00:00.000Z'})-[:BELONGS_TO]->(c2)
+        CREATE (:Item {item_id: 'item-1', campaign_id: 'campaign-1', name: 'Sunsword', description: 'Bane of vampires'})
+        CREATE (r:AudioRecording {recording_id: 'recording-1', name: 'Session 1 audio'})-[:BELONGS_TO]->(s)
+        CREATE (:Transcription {transcription_id: 'transcription-1', full_text: 'The party enters the village and hears about Strahd from the burgomaster.'})-[:TRANSCRIBES]->(r)
+      `);
+    });
+  });
+
+  afterEach(async () => {
+    await dbService.close();
+  });
+
+  describe('search', () => {
+    it('should rank name matches above description and transcript matches', async () => {
+      const { results, total } = await searchService.search({ query: 'strahd' });
+
+      expect(total).toBe(5);
+      expect(results.slice(0, 2).map((result) => result.name)).toEqual(['Strahd Impersonator', 'Strahd von Zarovich']);
+      expect(results[results.length - 1].type).toBe('transcription');
+      expect(results.map((result) => result.type)).toEqual(
+        expect.arrayContaining(['character', 'campaign', 'transcription'])
+      );
+      const transcript = results.find((result) => result.type === 'transcription');
+      expect(transcript).toMatchObject({ name: 'Session 1 audio', parentId: 'session-1', parentType: 'session' });
+    });
+
+    it('should scope results to a campaign', async () => {
+      const { results } = await searchService.search({ query: 'strahd', types: ['character'], campaignId: 'campaign-2' });
+
+      expect(results.map((result) => result.id)).toEqual(['char-3']);
+      expect(results[0]).toMatchObject({ parentId: 'campaign-2', parentName: 'Sharn Nights', parentType: 'campaign' });
+    });
+
+    it('should scope results to a world', async () => {
+      const { results } = await searchService.search({ query: 'strahd', worldId: 'world-1' });
+
+      expect(results.map((result) => result.id)).not.toContain('char-3');
+      expect(results.map((result) => result.id)).toEqual(expect.arrayContaining(['char-1', 'char-2', 'campaign-1']));
+    });
+
+    it('should find items owned through a campaign_id property', async () => {
+      const { results } = await searchService.search({ query: 'vampire', campaignId: 'campaign-1' });
+
+      expect(results.map((result) => result.id).sort()).toEqual(['char-1', 'item-1']);
+    });
+
+    it('should highlight matches', async () => {
+      const { results } = await searchService.search({ query: 'burgomaster', types: ['transcription'] });
+
+      expect(results[0].highlights).toEqual([
+        {
+          field: 'text',
+          text: 'The party enters the village and hears about Strahd from the <mark>burgomaster</mark>.',
+        },
+      ]);
+    });
+
+    it('should sort and paginate', async () => {
+      const { results, total } = await searchService.search({
+        query: 'strahd',
+        types: ['character'],
+        sortBy: 'name',
+        sortDirection: 'desc',
+        offset: 1,
+        limit: 1,
+      });
+
+      expect(total).toBe(3);
+      expect(results.map((result) => result.name)).toEqual(['Strahd Impersonator']);
+    });
+
+    it('should normalize numeric timestamps', async () => {
+      const { results } = await searchService.search({ query: 'barovia', types: ['world'] });
+
+      expect(results[0].createdAt).toBe('2024-01-01T00:00:00.000Z');
+    });
+  });
+
+  describe('getSuggestions', () => {
+    it('should return prefix matches first', async () => {
+      const suggestions = await searchService.getSuggestions('str');
+
+      expect(suggestions).toEqual(['Strahd Impersonator', 'Strahd von Zarovich', 'Curse of Strahd']);
+    });
+
+    it('should filter by type', async () => {
+      expect(await searchService.getSuggestions('s', ['item'])).toEqual(['Sunsword']);
+    });
+  });
+
+  describe('recent searches', () => {
+    it('should store recent searches per user, newest first', async () => {
+      await searchService.saveRecentSearch('user-1', 'strahd');
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      await searchService.saveRecentSearch('user-1', 'sunsword');
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      await searchService.saveRecentSearch('user-1', 'strahd');
+      await searchService.saveRecentSearch('user-2', 'eberron');
+
+      expect(await searchService.getRecentSearches('user-1')).toEqual(['strahd', 'sunsword']);
+      expect(await searchService.getRecentSearches('user-1', 1)).toEqual(['strahd']);
+    });
+
+    it('should clear recent searches', async () => {
+      await searchService.saveRecentSearch('user-1', 'strahd');
+      await searchService.saveRecentSearch('user-2', 'eberron');
+
+      await searchService.clearRecentSearches('user-1');
+
+      expect(await searchService.getRecentSearches('user-1')).toEqual([]);
+      expect(await searchService.getRecentSearches('user-2')).toEqual(['eberron']);
+    });
+  });
+});
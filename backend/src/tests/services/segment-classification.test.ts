@@ -0,0 +1,156 @@
+import { DatabaseService } from '../../services/database.service';
+import { TranscriptionRepository } from '../../repositories/transcription.repository';
+import { AudioRecordingRepository } from '../../repositories/audio-recording.repository';
+import { TranscriptRevisionRepository } from '../../repositories/transcript-revision.repository';
+import { TranscriptionService } from '../../services/transcription.service';
+import { TranscriptEditService } from '../../services/transcript-edit.service';
+import { TranscriptionProviderRegistry } from '../../services/transcription-providers/registry';
+import { KeywordSegmentClassifier } from '../../services/segment-classifiers/keyword.classifier';
+import { SegmentClassifierError } from '../../services/segment-classifiers/classifier';
+import { createSegmentClassifier } from '../../services/segment-classifiers/registry';
+import { SegmentCategory, TranscriptionSegment } from '../../models/transcription.model';
+import { filterSegmentsByCategory } from '../../utils/segment-categories';
+
+const SESSION_ID = '11111111-1111-1111-1111-111111111111';
+
+const CHAT_LOG = `[00:00:01] Game Master: You enter the crypt. The air is cold and damp.
+[00:00:05] Alice: "Who goes there?" I shout into the dark.
+[00:00:09] Bob: Do I roll a d20 for perception or is that a wisdom check?
+[00:00:14] Game Master: Roll with advantage, it's a DC 12.
+[00:00:18] Carol: Sorry, the pizza is here, brb.
+[00:00:22] Bob: Can we move next session to Friday?
+[00:00:26] Alice: Sure.
+`;
+
+const segment = (segment_id: string, text: string, category?: SegmentCategory): TranscriptionSegment => ({
+  segment_id,
+  start_time: 0,
+  end_time: 1,
+  text,
+  confidence_score: 1,
+  category
+});
+
+describe('KeywordSegmentClassifier', () => {
+  const classifier = new KeywordSegmentClassifier();
+
+  it('should tell narration, dialogue, rules and table talk apart', async () => {
+    const classifications = await classifier.classify([
+      segment('1', 'You see a narrow corridor ahead of you.'),
+      segment('2', '"Well met, traveller," she says.'),
+      segment('3', 'Roll a d20 and add your modifier.'),
+      segment('4', 'Who wants more pizza? I can order delivery.')
+    ]);
+
+    expect(classifications.map(({ category }) => category)).toEqual([
+      SegmentCategory.IN_CHARACTER_NARRATION,
+      SegmentCategory.IN_CHARACTER_DIALOGUE,
+      SegmentCategory.RULES,
+      SegmentCategory.OFF_TOPIC
+    ]);
+    expect(classifications[2].confidence).toBeGreaterThan(0.5);
+  });
+
+  it('should give segments without cues the category of the stretch they are in', async () => {
+    const classifications = await classifier.classify([
+      segment('1', 'Okay.'),
+      segment('2', 'Anyone want a beer or a soda?'),
+      segment('3', 'Yes please.'),
+      segment('4', 'Me too.')
+    ]);
+
+    expect(classifications.map(({ category }) => category)).toEqual(new Array(4).fill(SegmentCategory.OFF_TOPIC));
+    expect(classifications[2].confidence).toBeLessThan(classifications[1].confidence);
+    expect(await classifier.classify([segment('1', 'Hmm.')])).toEqual([
+      { category: SegmentCategory.IN_CHARACTER_DIALOGUE, confidence: 0.2 }
+    ]);
+  });
+
+  it('should create the configured classifier', () => {
+    expect(createSegmentClassifier('keyword')).toBeInstanceOf(KeywordSegmentClassifier);
+    expect(() => createSegmentClassifier('missing')).toThrow(SegmentClassifierError);
+  });
+});
+
+describe('Segment classification', () => {
+  let dbService: DatabaseService;
+  let transcriptionService: TranscriptionService;
+  let transcriptEditService: TranscriptEditService;
+
+  beforeEach(async () => {
+    dbService = new DatabaseService({ driver: 'embedded', embeddedPath: ':memory:' });
+    await dbService.initialize();
+    await dbService.writeTransaction(async (tx) => {
+      await tx.run(`CREATE (:Session {session_id: '${SESSION_ID}', name: 'The Crypt'})`);
+    });
+
+    const transcriptionRepository = new TranscriptionRepository(dbService);
+    transcriptionService = new TranscriptionService(
+      transcriptionRepository,
+      new AudioRecordingRepository(dbService),
+      new TranscriptionProviderRegistry(),
+      undefined,
+      undefined,
+      new KeywordSegmentClassifier()
+    );
+    transcriptEditService = new TranscriptEditService(transcriptionRepository, new TranscriptRevisionRepository(dbService));
+  });
+
+  afterEach(async () => {
+    await dbService.close();
+  });
+
+  it('should classify the segments of an imported transcript', async () => {
+    const transcription = await transcriptionService.importTranscript({ session_id: SESSION_ID }, CHAT_LOG);
+
+    expect(transcription.segments.map(({ category }) => category)).toEqual([
+      SegmentCategory.IN_CHARACTER_NARRATION,
+      SegmentCategory.IN_CHARACTER_DIALOGUE,
+      SegmentCategory.RULES,
+      SegmentCategory.RULES,
+      SegmentCategory.OFF_TOPIC,
+      SegmentCategory.OFF_TOPIC,
+      SegmentCategory.OFF_TOPIC
+    ]);
+    expect(filterSegmentsByCategory(transcription.segments, [
+      SegmentCategory.IN_CHARACTER_NARRATION,
+      SegmentCategory.IN_CHARACTER_DIALOGUE
+    ]).map(({ speaker_name }) => speaker_name)).toEqual(['Game Master', 'Alice']);
+  });
+
+  it('should keep categories set by hand when classifying again', async () => {
+    const { transcription_id, segments } = await transcriptionService.importTranscript({ session_id: SESSION_ID }, CHAT_LOG);
+
+    const { transcription, revision } = await transcriptEditService.setCategory(
+      transcription_id,
+      segments[6].segment_id,
+      SegmentCategory.IN_CHARACTER_DIALOGUE,
+      'user-1'
+    );
+    expect(transcription.segments[6]).toMatchObject({
+      category: SegmentCategory.IN_CHARACTER_DIALOGUE,
+      category_confidence: 1,
+      category_set_by: 'user-1'
+    });
+    expect(revision.before[0].category).toBe(SegmentCategory.OFF_TOPIC);
+
+    const classified = await transcriptionService.classify(transcription_id);
+    expect(classified?.segments[6].category).toBe(SegmentCategory.IN_CHARACTER_DIALOGUE);
+    expect(classified?.segments[5].category).toBe(SegmentCategory.OFF_TOPIC);
+    expect(await transcriptionService.classify('missing')).toBeNull();
+  });
+});
+
+describe('filterSegmentsByCategory', () => {
+  it('should keep unclassified segments and every segment when no category is given', () => {
+    const segments = [
+      segment('1', 'You enter.', SegmentCategory.IN_CHARACTER_NARRATION),
+      segment('2', 'Pizza?', SegmentCategory.OFF_TOPIC),
+      segment('3', 'Hmm.')
+    ];
+
+    expect(filterSegmentsByCategory(segments, [SegmentCategory.IN_CHARACTER_NARRATION]).map(({ segment_id }) => segment_id))
+      .toEqual(['1', '3']);
+    expect(filterSegmentsByCategory(segments)).toBe(segments);
+  });
+});
@@ -620,6 +620,20 @@ describe('SessionAnalysisService', () => {
       await expect(sessionAnalysisService.process(mockAnalysisId))
         .rejects.toThrow('Transcription not found');
     });
+
+    it('should stop without saving once it is cancelled', async () => {
+      const controller = new AbortController();
+      const findTranscription = transcriptionRepository.findById;
+      transcriptionRepository.findById = jest.fn().mockImplementation(async (id: string) => {
+        controller.abort();
+        return findTranscription(id);
+      });
+      sessionAnalysisRepository.update = jest.fn();
+
+      await expect(sessionAnalysisService.process(mockAnalysisId, {}, undefined, controller.signal))
+        .rejects.toThrow('Session analysis was cancelled');
+      expect(sessionAnalysisRepository.update).not.toHaveBeenCalled();
+    });
   });
 
   describe('processSessionAnalysis', () => {
@@ -0,0 +1,161 @@
+import { DatabaseService } from '../../services/database.service';
+import { AudioRecordingRepository } from '../../repositories/audio-recording.repository';
+import { TranscriptionRepository } from '../../repositories/transcription.repository';
+import { SessionAnalysisRepository } from '../../repositories/session-analysis.repository';
+import { SessionRepository } from '../../repositories/session.repository';
+import { CharacterRepository } from '../../repositories/character.repository';
+import { RevisionRepository } from '../../repositories/revision.repository';
+import { TrashRepository } from '../../repositories/trash.repository';
+import { TranscriptionService } from '../../services/transcription.service';
+import { SessionAnalysisService } from '../../services/session-analysis.service';
+import { TranscriptionProviderRegistry } from '../../services/transcription-providers/registry';
+import { AudioRecording, TranscriptionService as TranscriptionEngine } from '../../models/audio-recording.model';
+import { SESSION_TRANSCRIPT_SERVICE, TranscriptionSegment } from '../../models/transcription.model';
+
+const SESSION_ID = '11111111-1111-1111-1111-111111111111';
+
+describe('Session transcripts', () => {
+  let dbService: DatabaseService;
+  let audioRecordingRepository: AudioRecordingRepository;
+  let transcriptionRepository: TranscriptionRepository;
+  let transcriptionService: TranscriptionService;
+
+  /**
+   * Record a recording of the session, transcribed into the given segments
+   */
+  const record = async (
+    name: string,
+    durationSeconds: number,
+    segments: Omit<TranscriptionSegment, 'segment_id' | 'confidence_score'>[]
+  ): Promise<AudioRecording> => {
+    const recording = await audioRecordingRepository.create(
+      {
+        session_id: SESSION_ID,
+        name,
+        file_path: `/tmp/${name}.wav`,
+        duration_seconds: durationSeconds,
+        file_size_bytes: 2048,
+        file_format: 'wav',
+        codec: 'pcm_s16le',
+        sample_rate: 16000,
+        channels: 1,
+        bit_depth: 16
+      },
+      'user-1'
+    );
+    if (segments.length > 0) {
+      const { transcription_id } = await transcriptionRepository.create({
+        recording_id: recording.recording_id,
+        session_id: SESSION_ID,
+        service_options: { service: TranscriptionEngine.WHISPER_CPP }
+      });
+      await transcriptionService.update(transcription_id, {
+        full_text: segments.map((segment) => segment.text).join(' '),
+        segments: segments.map((segment, index) => ({
+          ...segment,
+          segment_id: `${name}-${index}`,
+          confidence_score: 0.8
+        })),
+        language_code: 'en',
+        confidence_score: 0.8
+      });
+    }
+    return (await audioRecordingRepository.findById(recording.recording_id)) as AudioRecording;
+  };
+
+  beforeEach(async () => {
+    dbService = new DatabaseService({ driver: 'embedded', embeddedPath: ':memory:' });
+    await dbService.initialize();
+    await dbService.writeTransaction(async (tx) => {
+      await tx.run(`CREATE (:Session {session_id: '${SESSION_ID}', name: 'The Crypt'})`);
+    });
+    audioRecordingRepository = new AudioRecordingRepository(dbService);
+    transcriptionRepository = new TranscriptionRepository(dbService);
+    transcriptionService = new TranscriptionService(
+      transcriptionRepository,
+      audioRecordingRepository,
+      new TranscriptionProviderRegistry()
+    );
+  });
+
+  afterEach(async () => {
+    await dbService.close();
+  });
+
+  it('should place recordings after each other unless they have an offset', async () => {
+    const first = await record('before-break', 60, []);
+    const second = await record('after-break', 30, []);
+    const third = await record('second-table', 45, []);
+    await audioRecordingRepository.update(third.recording_id, { session_offset_seconds: 10 });
+
+    expect(
+      (await transcriptionService.getSessionTimeline(SESSION_ID)).map((entry) => [
+        entry.recording_id,
+        entry.offset_seconds,
+        entry.offset_is_explicit
+      ])
+    ).toEqual([
+      [first.recording_id, 0, false],
+      [second.recording_id, 60, false],
+      [third.recording_id, 10, true]
+    ]);
+
+    await audioRecordingRepository.update(third.recording_id, { session_offset_seconds: null });
+    expect((await transcriptionService.getSessionTimeline(SESSION_ID))[2].offset_seconds).toBe(90);
+  });
+
+  it('should stitch the transcriptions of the session onto its timeline', async () => {
+    await expect(transcriptionService.stitchSession(SESSION_ID)).rejects.toMatchObject({ code: 'NO_TRANSCRIPTIONS' });
+
+    const first = await record('before-break', 60, [
+      { start_time: 1, end_time: 3, text: 'You enter the crypt.' },
+      { start_time: 50, end_time: 55, text: 'Let us take a break.' }
+    ]);
+    await record('untranscribed', 20, []);
+    const third = await record('after-break', 30, [{ start_time: 2, end_time: 4, text: 'Where were we?' }]);
+
+    const transcript = await transcriptionService.stitchSession(SESSION_ID, 'user-1');
+    expect(transcript).toMatchObject({ session_id: SESSION_ID, recording_id: '', service_used: SESSION_TRANSCRIPT_SERVICE });
+    expect(transcript.segments.map((segment) => [segment.start_time, segment.end_time, segment.text])).toEqual([
+      [1, 3, 'You enter the crypt.'],
+      [50, 55, 'Let us take a break.'],
+      [82, 84, 'Where were we?']
+    ]);
+    expect(transcript.full_text).toBe('You enter the crypt. Let us take a break. Where were we?');
+    expect(transcript.metadata.audio_duration).toBe(110);
+    expect(transcript.metadata.additional_info?.sources).toEqual([
+      { recording_id: first.recording_id, transcription_id: first.transcription_id, offset_seconds: 0, duration_seconds: 60 },
+      { recording_id: third.recording_id, transcription_id: third.transcription_id, offset_seconds: 80, duration_seconds: 30 }
+    ]);
+
+    // The transcriptions of the recordings keep their own times
+    expect((await transcriptionRepository.findById(third.transcription_id as string))?.segments[0].start_time).toBe(2);
+
+    // Stitching again rebuilds the same session transcript
+    await audioRecordingRepository.update(third.recording_id, { session_offset_seconds: 100 });
+    const restitched = await transcriptionService.stitchSession(SESSION_ID, 'user-1');
+    expect(restitched.transcription_id).toBe(transcript.transcription_id);
+    expect(restitched.segments.map((segment) => segment.start_time)).toEqual([1, 50, 102]);
+    expect((await transcriptionService.getSessionTranscript(SESSION_ID))?.segments).toHaveLength(3);
+  });
+
+  it('should analyze the session transcript when no transcription is given', async () => {
+    const sessionAnalysisService = new SessionAnalysisService(
+      new SessionAnalysisRepository(dbService),
+      transcriptionRepository,
+      new SessionRepository(dbService, new TrashRepository(dbService)),
+      new CharacterRepository(dbService, new RevisionRepository(dbService), new TrashRepository(dbService)),
+      audioRecordingRepository
+    );
+
+    await expect(
+      sessionAnalysisService.create({ session_id: SESSION_ID, created_by: 'user-1' })
+    ).rejects.toThrow('Session transcript not found');
+
+    await record('before-break', 60, [{ start_time: 1, end_time: 3, text: 'You enter the crypt.' }]);
+    const transcript = await transcriptionService.stitchSession(SESSION_ID, 'user-1');
+
+    const analysis = await sessionAnalysisService.create({ session_id: SESSION_ID, created_by: 'user-1' });
+    expect(analysis).toMatchObject({ session_id: SESSION_ID, transcription_id: transcript.transcription_id });
+  });
+});
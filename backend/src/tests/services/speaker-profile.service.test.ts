@@ -0,0 +1,176 @@
+import { DatabaseService } from '../../services/database.service';
+import { AudioRecordingRepository } from '../../repositories/audio-recording.repository';
+import { TranscriptionRepository } from '../../repositories/transcription.repository';
+import { SpeakerProfileRepository } from '../../repositories/speaker-profile.repository';
+import { SessionRepository } from '../../repositories/session.repository';
+import { TrashRepository } from '../../repositories/trash.repository';
+import { TranscriptionService } from '../../services/transcription.service';
+import { SpeakerProfileService } from '../../services/speaker-profile.service';
+import { TranscriptionProviderRegistry } from '../../services/transcription-providers/registry';
+import { TranscriptionService as TranscriptionEngine } from '../../models/audio-recording.model';
+
+const CAMPAIGN_ID = '00000000-0000-0000-0000-000000000001';
+const FIRST_SESSION_ID = '11111111-1111-1111-1111-111111111111';
+const SECOND_SESSION_ID = '22222222-2222-2222-2222-222222222222';
+const ONE_SHOT_SESSION_ID = '33333333-3333-3333-3333-333333333333';
+const CHARACTER_ID = '44444444-4444-4444-4444-444444444444';
+
+describe('SpeakerProfileService', () => {
+  let dbService: DatabaseService;
+  let audioRecordingRepository: AudioRecordingRepository;
+  let transcriptionRepository: TranscriptionRepository;
+  let speakerProfileService: SpeakerProfileService;
+  let transcriptionService: TranscriptionService;
+
+  /**
+   * Transcribe a recording of a session in which each line is said by the speaker named before it
+   */
+  const transcribe = async (sessionId: string, lines: [string, string][]) => {
+    const recording = await audioRecordingRepository.create(
+      {
+        session_id: sessionId,
+        name: 'Session',
+        file_path: '/tmp/session.wav',
+        duration_seconds: 60,
+        file_size_bytes: 2048,
+        file_format: 'wav',
+        codec: 'pcm_s16le',
+        sample_rate: 16000,
+        channels: 1,
+        bit_depth: 16
+      },
+      'user-1'
+    );
+    const { transcription_id } = await transcriptionRepository.create({
+      recording_id: recording.recording_id,
+      session_id: sessionId,
+      service_options: { service: TranscriptionEngine.WHISPER_CPP }
+    });
+
+    const speakerIds = new Map<string, string>();
+    for (const [name] of lines) {
+      if (!speakerIds.has(name)) {
+        speakerIds.set(name, (await transcriptionRepository.createOrUpdateSpeaker(undefined, name)).speaker_id);
+      }
+    }
+    const transcription = await transcriptionService.update(transcription_id, {
+      full_text: lines.map(([, text]) => text).join(' '),
+      segments: lines.map(([name, text], index) => ({
+        segment_id: `${transcription_id}-${index}`,
+        start_time: index * 4,
+        end_time: index * 4 + 3,
+        text,
+        speaker_id: speakerIds.get(name),
+        speaker_name: name,
+        confidence_score: 0.9
+      }))
+    });
+    return { transcription, speakerIds };
+  };
+
+  beforeEach(async () => {
+    dbService = new DatabaseService({ driver: 'embedded', embeddedPath: ':memory:' });
+    await dbService.initialize();
+    await dbService.writeTransaction(async (tx) => {
+      await tx.run(`CREATE (:Campaign {campaign_id: '${CAMPAIGN_ID}', name: 'Curse of Strahd'})`);
+      await tx.run(`CREATE (:Character {character_id: '${CHARACTER_ID}', name: 'Ireena'})`);
+      await tx.run(`CREATE (:User {user_id: 'user-2', username: 'kate'})`);
+      await tx.run(`CREATE (:Session {session_id: '${ONE_SHOT_SESSION_ID}', name: 'One-shot'})`);
+      for (const sessionId of [FIRST_SESSION_ID, SECOND_SESSION_ID]) {
+        await tx.run(
+          `
+          MATCH (c:Campaign {campaign_id: '${CAMPAIGN_ID}'})
+          CREATE (:Session {session_id: '${sessionId}', name: 'Session'})-[:PART_OF]->(c)
+          `
+        );
+      }
+    });
+    audioRecordingRepository = new AudioRecordingRepository(dbService);
+    transcriptionRepository = new TranscriptionRepository(dbService);
+    speakerProfileService = new SpeakerProfileService(
+      new SpeakerProfileRepository(dbService),
+      transcriptionRepository,
+      audioRecordingRepository,
+      new SessionRepository(dbService, new TrashRepository(dbService))
+    );
+    transcriptionService = new TranscriptionService(
+      transcriptionRepository,
+      audioRecordingRepository,
+      new TranscriptionProviderRegistry(),
+      speakerProfileService
+    );
+  });
+
+  afterEach(async () => {
+    await dbService.close();
+  });
+
+  it('should learn a profile from the speakers assigned a character', async () => {
+    const { speakerIds } = await transcribe(FIRST_SESSION_ID, [
+      ['Speaker 1', "I'm Ireena, and I do not trust this place."],
+      ['Speaker 1', 'Let us leave.'],
+      ['Speaker 2', 'The door slams shut.']
+    ]);
+    const speakerId = speakerIds.get('Speaker 1') as string;
+
+    await transcriptionService.updateSpeakerIdentification(speakerId, { character_id: CHARACTER_ID, user_id: 'user-2' });
+    await transcriptionService.updateSpeakerIdentification(speakerId, { character_id: CHARACTER_ID });
+
+    const profiles = await speakerProfileService.getByCampaign(CAMPAIGN_ID);
+    expect(profiles).toHaveLength(1);
+    expect(profiles[0]).toMatchObject({
+      name: 'Ireena',
+      character_id: CHARACTER_ID,
+      character_name: 'Ireena',
+      user_id: 'user-2',
+      speaker_ids: [speakerId],
+      features: {
+        self_references: ['Ireena'],
+        track_names: [],
+        labels: [],
+        average_turn_seconds: 7,
+        average_turn_words: 12,
+        turn_count: 1
+      }
+    });
+  });
+
+  it('should propose the character of a speaker of a later session', async () => {
+    const first = await transcribe(FIRST_SESSION_ID, [['Speaker 1', "I'm Ireena."], ['Speaker 2', 'Roll initiative.']]);
+    await transcriptionService.updateSpeakerIdentification(first.speakerIds.get('Speaker 1') as string, {
+      character_id: CHARACTER_ID
+    });
+
+    const second = await transcribe(SECOND_SESSION_ID, [
+      ['Speaker 1', 'The mists close in around you.'],
+      ['Speaker 2', 'This is Ireena, I light a torch.']
+    ]);
+    const proposals = await speakerProfileService.proposeMappings(second.transcription.transcription_id);
+
+    expect(proposals).toEqual([
+      expect.objectContaining({
+        speaker_id: second.speakerIds.get('Speaker 2'),
+        character_id: CHARACTER_ID,
+        character_name: 'Ireena',
+        confidence_score: 0.86,
+        reasons: ['Calls themselves "Ireena"', 'Similar turn length (3.0 s)']
+      })
+    ]);
+
+    // No proposals once the character is assigned
+    await transcriptionService.updateSpeakerIdentification(second.speakerIds.get('Speaker 2') as string, {
+      character_id: CHARACTER_ID
+    });
+    expect(await speakerProfileService.proposeMappings(second.transcription.transcription_id)).toEqual([]);
+    expect((await speakerProfileService.getByCampaign(CAMPAIGN_ID))[0].speaker_ids).toHaveLength(2);
+  });
+
+  it('should not propose mappings outside of a campaign', async () => {
+    const { transcription } = await transcribe(ONE_SHOT_SESSION_ID, [['Speaker 1', "I'm Ireena."]]);
+
+    expect(await speakerProfileService.proposeMappings(transcription.transcription_id)).toEqual([]);
+    await expect(
+      speakerProfileService.proposeMappings('55555555-5555-5555-5555-555555555555')
+    ).rejects.toMatchObject({ code: 'TRANSCRIPTION_NOT_FOUND' });
+  });
+});
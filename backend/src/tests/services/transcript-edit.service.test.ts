@@ -0,0 +1,194 @@
+import { DatabaseService } from '../../services/database.service';
+import { AudioRecordingRepository } from '../../repositories/audio-recording.repository';
+import { TranscriptionRepository } from '../../repositories/transcription.repository';
+import { TranscriptRevisionRepository } from '../../repositories/transcript-revision.repository';
+import { TranscriptEditService } from '../../services/transcript-edit.service';
+import { TranscriptionService as TranscriptionEngine } from '../../models/audio-recording.model';
+import { SegmentOperation } from '../../models/transcript-revision.model';
+
+const SESSION_ID = '11111111-1111-1111-1111-111111111111';
+
+describe('TranscriptEditService', () => {
+  let dbService: DatabaseService;
+  let transcriptionRepository: TranscriptionRepository;
+  let transcriptRevisionRepository: TranscriptRevisionRepository;
+  let transcriptEditService: TranscriptEditService;
+  let transcriptionId: string;
+
+  beforeEach(async () => {
+    dbService = new DatabaseService({ driver: 'embedded', embeddedPath: ':memory:' });
+    await dbService.initialize();
+    await dbService.writeTransaction(async (tx) => {
+      await tx.run(`CREATE (:Session {session_id: '${SESSION_ID}', name: 'The Crypt'})`);
+    });
+    transcriptionRepository = new TranscriptionRepository(dbService);
+    transcriptRevisionRepository = new TranscriptRevisionRepository(dbService);
+    transcriptEditService = new TranscriptEditService(transcriptionRepository, transcriptRevisionRepository);
+
+    const recording = await new AudioRecordingRepository(dbService).create(
+      {
+        session_id: SESSION_ID,
+        name: 'Session',
+        file_path: '/tmp/session.wav',
+        duration_seconds: 10,
+        file_size_bytes: 2048,
+        file_format: 'wav',
+        codec: 'pcm_s16le',
+        sample_rate: 16000,
+        channels: 1,
+        bit_depth: 16
+      },
+      'user-1'
+    );
+    ({ transcription_id: transcriptionId } = await transcriptionRepository.create({
+      recording_id: recording.recording_id,
+      session_id: SESSION_ID,
+      service_options: { service: TranscriptionEngine.WHISPER_CPP }
+    }));
+    const gameMaster = await transcriptionRepository.createOrUpdateSpeaker('speaker-gm', 'Game Master');
+    await transcriptionRepository.update(transcriptionId, {
+      full_text: 'You enter the crypt. Roll initiative.',
+      segments: [
+        {
+          segment_id: 'seg-1',
+          start_time: 0,
+          end_time: 2,
+          text: 'You enter the crypt.',
+          speaker_id: gameMaster.speaker_id,
+          confidence_score: 0.9,
+          words: [
+            { word: 'You', start_time: 0, end_time: 0.4, confidence_score: 0.9 },
+            { word: 'enter', start_time: 0.4, end_time: 0.9, confidence_score: 0.8 },
+            { word: 'the', start_time: 0.9, end_time: 1.2, confidence_score: 0.9 },
+            { word: 'crypt.', start_time: 1.2, end_time: 2, confidence_score: 0.7 }
+          ]
+        },
+        { segment_id: 'seg-2', start_time: 3, end_time: 4, text: 'Roll initiative.', confidence_score: 0.5 }
+      ]
+    });
+  });
+
+  afterEach(async () => {
+    await dbService.close();
+  });
+
+  it('should edit the text of a segment and keep the timing of unchanged words', async () => {
+    const { transcription, revision } = await transcriptEditService.editText(
+      transcriptionId,
+      'seg-1',
+      'You enter the dark crypt!',
+      'user-1'
+    );
+
+    expect(transcription.segments[0].words).toEqual([
+      { word: 'You', start_time: 0, end_time: 0.4, confidence_score: 0.9 },
+      { word: 'enter', start_time: 0.4, end_time: 0.9, confidence_score: 0.8 },
+      { word: 'the', start_time: 0.9, end_time: 1.2, confidence_score: 0.9 },
+      { word: 'dark', start_time: 1.2, end_time: 1.2, confidence_score: 1 },
+      { word: 'crypt!', start_time: 1.2, end_time: 2, confidence_score: 0.7 }
+    ]);
+    expect(transcription.segments[0].speaker_name).toBe('Game Master');
+    expect(transcription.full_text).toBe('You enter the dark crypt! Roll initiative.');
+    expect(transcription.word_count).toBe(7);
+    expect(revision).toMatchObject({
+      revision_number: 1,
+      operation: SegmentOperation.EDIT_TEXT,
+      created_by: 'user-1',
+      before: [expect.objectContaining({ text: 'You enter the crypt.' })],
+      after: [expect.objectContaining({ text: 'You enter the dark crypt!' })]
+    });
+  });
+
+  it('should split a segment at a word and merge it back', async () => {
+    const split = await transcriptEditService.split(transcriptionId, 'seg-1', 2);
+
+    expect(split.transcription.segments.map(({ text, start_time, end_time }) => ({ text, start_time, end_time }))).toEqual([
+      { text: 'You enter', start_time: 0, end_time: 0.9 },
+      { text: 'the crypt.', start_time: 0.9, end_time: 2 },
+      { text: 'Roll initiative.', start_time: 3, end_time: 4 }
+    ]);
+    expect(split.transcription.segments[1].speaker_id).toBe('speaker-gm');
+    expect(split.transcription.segments[1].words?.map((word) => word.word)).toEqual(['the', 'crypt.']);
+
+    const merged = await transcriptEditService.mergeWithNext(transcriptionId, 'seg-1');
+
+    expect(merged.transcription.segments).toHaveLength(2);
+    expect(merged.transcription.segments[0]).toMatchObject({ text: 'You enter the crypt.', start_time: 0, end_time: 2 });
+    expect(merged.transcription.segments[0].words).toHaveLength(4);
+    await expect(transcriptEditService.mergeWithNext(transcriptionId, 'seg-2')).rejects.toMatchObject({
+      code: 'NO_NEXT_SEGMENT'
+    });
+    await expect(transcriptEditService.split(transcriptionId, 'seg-2', 2)).rejects.toMatchObject({ code: 'INVALID_SPLIT' });
+  });
+
+  it('should reassign the speaker and retime a segment with its words', async () => {
+    const player = await transcriptionRepository.createOrUpdateSpeaker('speaker-player', 'Player');
+
+    await transcriptEditService.reassignSpeaker(transcriptionId, 'seg-1', player.speaker_id);
+    const { transcription } = await transcriptEditService.retime(transcriptionId, 'seg-1', 10, 14);
+
+    expect(transcription.segments[0]).toMatchObject({ segment_id: 'seg-2', text: 'Roll initiative.' });
+    expect(transcription.segments[1]).toMatchObject({ speaker_id: 'speaker-player', speaker_name: 'Player', start_time: 10 });
+    expect(transcription.segments[1].words?.[1]).toMatchObject({ start_time: 10.8, end_time: 11.8 });
+    await expect(transcriptEditService.reassignSpeaker(transcriptionId, 'seg-1', 'missing')).rejects.toMatchObject({
+      code: 'SPEAKER_NOT_FOUND'
+    });
+    await expect(transcriptEditService.retime(transcriptionId, 'seg-1', 5, 4)).rejects.toMatchObject({
+      code: 'INVALID_TIMING'
+    });
+  });
+
+  it('should roll back a revision unless its segments changed since', async () => {
+    await transcriptEditService.editText(transcriptionId, 'seg-2', 'Roll for initiative.');
+    await transcriptEditService.split(transcriptionId, 'seg-1', 2);
+    await transcriptEditService.editText(transcriptionId, 'seg-1', 'You step into');
+
+    await expect(transcriptEditService.rollback(transcriptionId, 2)).rejects.toMatchObject({ code: 'ROLLBACK_CONFLICT' });
+
+    const undoEdit = await transcriptEditService.rollback(transcriptionId, 3, 'user-2');
+    const undoSplit = await transcriptEditService.rollback(transcriptionId, 2, 'user-2');
+
+    expect(undoEdit.revision).toMatchObject({ revision_number: 4, operation: SegmentOperation.ROLLBACK, rollback_of: 3 });
+    expect(undoSplit.transcription.full_text).toBe('You enter the crypt. Roll for initiative.');
+    expect(undoSplit.transcription.segments[0].words).toHaveLength(4);
+    await expect(transcriptEditService.rollback(transcriptionId, 2)).rejects.toMatchObject({
+      code: 'REVISION_ALREADY_ROLLED_BACK'
+    });
+
+    const { revisions, total } = await transcriptEditService.getRevisions(transcriptionId);
+    expect(total).toBe(5);
+    expect(revisions.map((revision) => [revision.revision_number, revision.rolled_back_by])).toEqual([
+      [5, undefined],
+      [4, undefined],
+      [3, 4],
+      [2, 5],
+      [1, undefined]
+    ]);
+  });
+
+  it('should refuse an edit of a segment changed since it was read', async () => {
+    // Both editors read the transcript before either saves
+    const stale = await transcriptionRepository.findById(transcriptionId);
+    await transcriptEditService.mergeWithNext(transcriptionId, 'seg-1', 'user-1');
+    jest.spyOn(transcriptionRepository, 'findById').mockResolvedValueOnce(stale);
+
+    await expect(
+      transcriptEditService.editText(transcriptionId, 'seg-1', 'You enter the dark crypt.', 'user-2')
+    ).rejects.toMatchObject({ code: 'SEGMENT_CONFLICT' });
+
+    const transcription = await transcriptionRepository.findById(transcriptionId);
+    expect(transcription?.segments.map(({ text }) => text)).toEqual(['You enter the crypt. Roll initiative.']);
+    expect((await transcriptEditService.getRevisions(transcriptionId)).total).toBe(1);
+  });
+
+  it('should not save an edit whose revision cannot be recorded', async () => {
+    jest.spyOn(transcriptRevisionRepository, 'create').mockRejectedValueOnce(new Error('Database unavailable'));
+
+    await expect(transcriptEditService.editText(transcriptionId, 'seg-1', 'You enter the dark crypt.')).rejects.toThrow(
+      'Database unavailable'
+    );
+
+    const transcription = await transcriptionRepository.findById(transcriptionId);
+    expect(transcription?.segments[0].text).toBe('You enter the crypt.');
+  });
+});
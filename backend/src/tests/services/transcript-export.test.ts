@@ -0,0 +1,105 @@
+import { DatabaseService } from '../../services/database.service';
+import { TranscriptionRepository } from '../../repositories/transcription.repository';
+import { AudioRecordingRepository } from '../../repositories/audio-recording.repository';
+import { TranscriptionService } from '../../services/transcription.service';
+import { TranscriptionProviderRegistry } from '../../services/transcription-providers/registry';
+import { TranscriptExportFormat, TranscriptionSegment } from '../../models/transcription.model';
+import { parseTranscript, renderTranscript } from '../../utils/transcript-formats';
+
+const SEGMENTS: TranscriptionSegment[] = [
+  { segment_id: 's1', start_time: 1, end_time: 3.5, text: 'We enter the crypt.', speaker_id: 'a', speaker_name: 'Alice', confidence_score: 0.9 },
+  { segment_id: 's2', start_time: 4, end_time: 6.25, text: 'Carefully.', speaker_id: 'a', speaker_name: 'Alice', confidence_score: 0.8 },
+  { segment_id: 's3', start_time: 3725, end_time: 3727, text: 'A <loud> noise & echo.', confidence_score: 0.4 }
+];
+
+describe('Transcript rendering', () => {
+  it('should render SRT and WebVTT that can be imported again', () => {
+    const srt = renderTranscript(SEGMENTS, TranscriptExportFormat.SRT);
+    expect(srt).toBe(
+      '1\n00:00:01,000 --> 00:00:03,500\nAlice: We enter the crypt.\n\n' +
+        '2\n00:00:04,000 --> 00:00:06,250\nAlice: Carefully.\n\n' +
+        '3\n01:02:05,000 --> 01:02:07,000\nA <loud> noise & echo.\n'
+    );
+
+    const vtt = renderTranscript(SEGMENTS, TranscriptExportFormat.WEBVTT);
+    expect(vtt).toContain('01:02:05.000 --> 01:02:07.000\nA &lt;loud&gt; noise &amp; echo.\n');
+
+    for (const rendered of [srt, vtt]) {
+      expect(parseTranscript(rendered).cues.map((cue) => [cue.start_time, cue.speaker])).toEqual([
+        [1, 'Alice'],
+        [4, 'Alice'],
+        [3725, undefined]
+      ]);
+    }
+  });
+
+  it('should group Markdown by speaker turn', () => {
+    expect(renderTranscript(SEGMENTS, TranscriptExportFormat.MARKDOWN, { includeTimestamps: true })).toBe(
+      '# Transcript\n\n**Alice** _00:00:01_\nWe enter the crypt. Carefully.\n\n_01:02:05_\nA <loud> noise & echo.\n'
+    );
+  });
+
+  it('should write screenplays with display names in capitals', () => {
+    const screenplay = renderTranscript(SEGMENTS.slice(0, 2), TranscriptExportFormat.SCREENPLAY, {
+      displayNames: new Map([['a', 'Lady Mirel']])
+    });
+    expect(screenplay).toBe(`${' '.repeat(22)}LADY MIREL\n${' '.repeat(10)}We enter the crypt. Carefully.\n`);
+  });
+});
+
+describe('TranscriptionService.exportTranscript', () => {
+  let dbService: DatabaseService;
+  let transcriptionService: TranscriptionService;
+  let transcriptionId: string;
+
+  beforeEach(async () => {
+    dbService = new DatabaseService({ driver: 'embedded', embeddedPath: ':memory:' });
+    await dbService.initialize();
+    await dbService.writeTransaction(async (tx) => {
+      await tx.run(`
+        CREATE (:Session {session_id: '11111111-1111-1111-1111-111111111111', name: 'The Crypt'})
+        CREATE (:Character {character_id: '44444444-4444-4444-4444-444444444444', name: 'Lady Mirel'})
+      `);
+    });
+
+    const transcriptionRepository = new TranscriptionRepository(dbService);
+    transcriptionService = new TranscriptionService(
+      transcriptionRepository,
+      new AudioRecordingRepository(dbService),
+      new TranscriptionProviderRegistry()
+    );
+
+    const transcription = await transcriptionService.importTranscript(
+      { session_id: '11111111-1111-1111-1111-111111111111' },
+      '[00:00:01] Alice: We enter the crypt.\n[00:00:04] Bob: I light a torch.\n'
+    );
+    transcriptionId = transcription.transcription_id;
+
+    const alice = transcription.segments.find((segment) => segment.speaker_name === 'Alice');
+    await transcriptionService.updateSpeakerIdentification(alice!.speaker_id!, {
+      character_id: '44444444-4444-4444-4444-444444444444'
+    });
+  });
+
+  afterEach(async () => {
+    await dbService.close();
+  });
+
+  it('should name mapped characters in screenplays', async () => {
+    const file = await transcriptionService.exportTranscript(transcriptionId, TranscriptExportFormat.SCREENPLAY);
+
+    expect(file).toMatchObject({ fileName: `transcript-${transcriptionId}.txt`, contentType: 'text/plain' });
+    expect(file!.data).toContain('LADY MIREL');
+    expect(file!.data).toContain('BOB');
+    expect(file!.data).not.toContain('ALICE');
+  });
+
+  it('should leave out segments below the minimum confidence', async () => {
+    const file = await transcriptionService.exportTranscript(transcriptionId, TranscriptExportFormat.SRT, {
+      min_confidence: 1.1
+    });
+    expect(file!.data).toBe('');
+
+    expect(await transcriptionService.exportTranscript('missing', TranscriptExportFormat.SRT)).toBeNull();
+  });
+});
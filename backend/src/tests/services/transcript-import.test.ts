@@ -0,0 +1,185 @@
+import { DatabaseService } from '../../services/database.service';
+import { TranscriptionRepository } from '../../repositories/transcription.repository';
+import { AudioRecordingRepository } from '../../repositories/audio-recording.repository';
+import { TranscriptImportError, TranscriptionService } from '../../services/transcription.service';
+import { TranscriptionProviderRegistry } from '../../services/transcription-providers/registry';
+import { TranscriptFormat } from '../../models/transcription.model';
+import { TranscriptFormatError, detectTranscriptFormat, parseTranscript } from '../../utils/transcript-formats';
+
+const SRT = `1
+00:00:01,000 --> 00:00:03,500
+Alice: We enter the crypt.
+
+2
+00:00:04,000 --> 00:00:06,000
+Bob: I light a torch.
+`;
+
+const VTT = `WEBVTT
+
+NOTE exported by a captioning tool
+
+intro
+00:01.000 --> 00:03.000 align:start
+<v Game Master>The door creaks <i>open</i>.</v>
+
+00:03.500 --> 00:05.000
+<v.loud Alice>Run!
+`;
+
+const CHAT_LOG = `[00:00:10] Alice: Who goes there?
+[00:00:12] Bob: Only a humble bard,
+who means no harm.
+Game Master: The guard lowers his spear.
+`;
+
+const DISCORD_TEXT = `==============================================================
+Guild: Tabletop
+Channel: #session-notes
+==============================================================
+
+[1/15/2023 8:03 PM] Alice
+I search the altar.
+{Attachments}
+https://cdn.example.com/map.png
+
+[1/15/2023 8:05 PM] Bob
+I keep watch.
+
+==============================================================
+Exported 2 message(s)
+==============================================================
+`;
+
+const DISCORD_JSON = JSON.stringify({
+  messages: [
+    { timestamp: '2023-01-15T20:03:00.000+00:00', author: { name: 'alice', nickname: 'Alice' }, content: 'I search the altar.' },
+    { timestamp: '2023-01-15T20:03:30.000+00:00', author: { name: 'bob' }, content: '' },
+    { timestamp: '2023-01-15T20:04:00.000+00:00', author: { name: 'bob' }, content: 'I keep watch.' }
+  ]
+});
+
+describe('Transcript formats', () => {
+  it('should detect the format of a transcript', () => {
+    expect(detectTranscriptFormat(SRT)).toBe(TranscriptFormat.SRT);
+    expect(detectTranscriptFormat(VTT)).toBe(TranscriptFormat.WEBVTT);
+    expect(detectTranscriptFormat(CHAT_LOG)).toBe(TranscriptFormat.CHAT);
+    expect(detectTranscriptFormat(DISCORD_TEXT)).toBe(TranscriptFormat.DISCORD);
+    expect(detectTranscriptFormat(DISCORD_JSON)).toBe(TranscriptFormat.DISCORD);
+  });
+
+  it('should read cue timing and speakers from SRT and WebVTT', () => {
+    expect(parseTranscript(SRT.replace(/\n/g, '\r\n')).cues).toEqual([
+      { start_time: 1, end_time: 3.5, text: 'We enter the crypt.', speaker: 'Alice' },
+      { start_time: 4, end_time: 6, text: 'I light a torch.', speaker: 'Bob' }
+    ]);
+    expect(parseTranscript(VTT).cues).toEqual([
+      { start_time: 1, end_time: 3, text: 'The door creaks open.', speaker: 'Game Master' },
+      { start_time: 3.5, end_time: 5, text: 'Run!', speaker: 'Alice' }
+    ]);
+  });
+
+  it('should time chat log lines from their timestamps and estimate the rest', () => {
+    expect(parseTranscript(CHAT_LOG).cues).toEqual([
+      { start_time: 10, end_time: 11.2, text: 'Who goes there?', speaker: 'Alice' },
+      { start_time: 12, end_time: 15.2, text: 'Only a humble bard, who means no harm.', speaker: 'Bob' },
+      { start_time: 15.2, end_time: 17.2, text: 'The guard lowers his spear.', speaker: 'Game Master' }
+    ]);
+  });
+
+  it('should time Discord messages from the first message', () => {
+    const expected = [
+      { start_time: 0, end_time: 1.6, text: 'I search the altar.', speaker: 'Alice' },
+      { start_time: 60, end_time: 61.2, text: 'I keep watch.', speaker: 'bob' }
+    ];
+
+    expect(parseTranscript(DISCORD_JSON).cues).toEqual(expected);
+    expect(parseTranscript(DISCORD_TEXT).cues).toEqual([
+      { ...expected[0], text: 'I search the altar. https://cdn.example.com/map.png', end_time: 2 },
+      { ...expected[1], start_time: 120, end_time: 121.2, speaker: 'Bob' }
+    ]);
+  });
+
+  it('should reject transcripts without lines of speech', () => {
+    expect(() => parseTranscript('WEBVTT\n\nNOTE nothing here\n')).toThrow(TranscriptFormatError);
+  });
+});
+
+describe('TranscriptionService.importTranscript', () => {
+  let dbService: DatabaseService;
+  let transcriptionRepository: TranscriptionRepository;
+  let transcriptionService: TranscriptionService;
+
+  beforeEach(async () => {
+    dbService = new DatabaseService({ driver: 'embedded', embeddedPath: ':memory:' });
+    await dbService.initialize();
+    await dbService.writeTransaction(async (tx) => {
+      await tx.run(`
+        CREATE (s:Session {session_id: '11111111-1111-1111-1111-111111111111', name: 'The Crypt'})
+        CREATE (:AudioRecording {recording_id: '22222222-2222-2222-2222-222222222222', name: 'Crypt audio', transcription_status: 'not_started'})-[:BELONGS_TO]->(s)
+      `);
+    });
+
+    transcriptionRepository = new TranscriptionRepository(dbService);
+    transcriptionService = new TranscriptionService(
+      transcriptionRepository,
+      new AudioRecordingRepository(dbService),
+      new TranscriptionProviderRegistry()
+    );
+  });
+
+  afterEach(async () => {
+    await dbService.close();
+  });
+
+  it('should import a transcript into a session without a recording', async () => {
+    const transcription = await transcriptionService.importTranscript(
+      { session_id: '11111111-1111-1111-1111-111111111111', file_name: 'crypt.srt' },
+      SRT
+    );
+
+    expect(transcription).toMatchObject({
+      session_id: '11111111-1111-1111-1111-111111111111',
+      recording_id: '',
+      full_text: 'We enter the crypt. I light a torch.',
+      service_used: 'import_srt',
+      word_count: 8
+    });
+    expect(transcription.segments.map((segment) => [segment.start_time, segment.speaker_name])).toEqual([
+      [1, 'Alice'],
+      [4, 'Bob']
+    ]);
+    expect(transcription.segments.every((segment) => segment.speaker_id)).toBe(true);
+
+    const speakers = await transcriptionService.getSpeakersForSession('11111111-1111-1111-1111-111111111111');
+    expect(speakers.map((speaker) => speaker.speaker_name).sort()).toEqual(['Alice', 'Bob']);
+  });
+
+  it('should reuse the speakers of the session and link the recording', async () => {
+    const first = await transcriptionService.importTranscript({ session_id: '11111111-1111-1111-1111-111111111111' }, SRT);
+    const second = await transcriptionService.importTranscript(
+      { session_id: '11111111-1111-1111-1111-111111111111', recording_id: '22222222-2222-2222-2222-222222222222' },
+      CHAT_LOG
+    );
+
+    const aliceId = first.segments[0].speaker_id;
+    expect(second.recording_id).toBe('22222222-2222-2222-2222-222222222222');
+    expect(second.segments[0]).toMatchObject({ speaker_name: 'Alice', speaker_id: aliceId });
+
+    const recording = await new AudioRecordingRepository(dbService).findById('22222222-2222-2222-2222-222222222222');
+    expect(recording?.transcription_status).toBe('completed');
+
+    await expect(
+      transcriptionService.importTranscript(
+        { session_id: '11111111-1111-1111-1111-111111111111', recording_id: '22222222-2222-2222-2222-222222222222' },
+        SRT
+      )
+    ).rejects.toMatchObject({ code: 'RECORDING_ALREADY_TRANSCRIBED' });
+  });
+
+  it('should reject imports into missing sessions', async () => {
+    await expect(
+      transcriptionService.importTranscript({ session_id: '33333333-3333-3333-3333-333333333333' }, SRT)
+    ).rejects.toThrow(TranscriptImportError);
+  });
+});
@@ -0,0 +1,190 @@
+import { DatabaseService } from '../../services/database.service';
+import { AudioRecordingRepository } from '../../repositories/audio-recording.repository';
+import { TranscriptionRepository } from '../../repositories/transcription.repository';
+import { TranscriptRevisionRepository } from '../../repositories/transcript-revision.repository';
+import { SearchRepository } from '../../repositories/search.repository';
+import { SearchService } from '../../services/search.service';
+import { TranscriptionService } from '../../services/transcription.service';
+import { TranscriptEditService } from '../../services/transcript-edit.service';
+import { TranscriptionProviderRegistry } from '../../services/transcription-providers/registry';
+import { Transcription } from '../../models/transcription.model';
+import { parseTranscriptQuery } from '../../utils/transcript-search';
+
+const FIRST_SESSION_LOG = `[00:00:01] Game Master: You see the black tower rising over the swamp.
+[00:00:06] Alice: I cast fireball at the tower.
+[00:00:12] Bob: Is Xanathar here?
+`;
+
+const SECOND_SESSION_LOG = `[00:01:00] Game Master: The tower is black and silent.
+[00:01:10] Alice: We should ask Zanathar about the beholder.
+`;
+
+const OTHER_CAMPAIGN_LOG = `[00:00:01] Game Master: The black tower again.
+`;
+
+describe('parseTranscriptQuery', () => {
+  it('should split quoted phrases from loose terms and leave stop words out of the terms', () => {
+    expect(parseTranscriptQuery('"the black tower" goblin\'s "fireball"')).toEqual({
+      terms: ['black', 'tower', 'goblin', 'fireball'],
+      phrases: [['the', 'black', 'tower']]
+    });
+  });
+});
+
+describe('SearchService transcript search', () => {
+  let dbService: DatabaseService;
+  let transcriptionRepository: TranscriptionRepository;
+  let transcriptionService: TranscriptionService;
+  let searchService: SearchService;
+  let firstSession: Transcription;
+  let secondSession: Transcription;
+  let recordingId: string;
+
+  beforeEach(async () => {
+    dbService = new DatabaseService({ driver: 'embedded', embeddedPath: ':memory:' });
+    await dbService.initialize();
+    await dbService.writeTransaction(async (tx) => {
+      await tx.run(`
+        CREATE (c:Campaign {campaign_id: 'campaign-1', name: 'Waterdeep'})
+        CREATE (:Session {session_id: 'session-1', name: 'The Swamp', number: 1})-[:PART_OF]->(c)
+        CREATE (:Session {session_id: 'session-2', name: 'The Tower', number: 2})-[:PART_OF]->(c)
+        CREATE (:Character {character_id: 'char-1', name: 'Vex'})-[:BELONGS_TO]->(c)
+        CREATE (c2:Campaign {campaign_id: 'campaign-2', name: 'Barovia'})
+        CREATE (:Session {session_id: 'session-3', name: 'Death House', number: 1})-[:PART_OF]->(c2)
+      `);
+    });
+
+    transcriptionRepository = new TranscriptionRepository(dbService);
+    const audioRecordingRepository = new AudioRecordingRepository(dbService);
+    transcriptionService = new TranscriptionService(
+      transcriptionRepository,
+      audioRecordingRepository,
+      new TranscriptionProviderRegistry()
+    );
+    searchService = new SearchService(new SearchRepository(dbService));
+
+    const recording = await audioRecordingRepository.create(
+      {
+        session_id: 'session-2',
+        name: 'Session 2',
+        file_path: '/tmp/session-2.wav',
+        duration_seconds: 120,
+        file_size_bytes: 2048,
+        file_format: 'wav',
+        codec: 'pcm_s16le',
+        sample_rate: 16000,
+        channels: 1,
+        bit_depth: 16
+      },
+      'user-1'
+    );
+    recordingId = recording.recording_id;
+
+    firstSession = await transcriptionService.importTranscript({ session_id: 'session-1' }, FIRST_SESSION_LOG);
+    secondSession = await transcriptionService.importTranscript(
+      { session_id: 'session-2', recording_id: recordingId },
+      SECOND_SESSION_LOG
+    );
+    await transcriptionService.importTranscript({ session_id: 'session-3' }, OTHER_CAMPAIGN_LOG);
+  });
+
+  afterEach(async () => {
+    await dbService.close();
+  });
+
+  it('should find the moments of a campaign where a word was said, in the order they happened', async () => {
+    const { results, total } = await searchService.searchTranscripts({
+      campaignId: 'campaign-1',
+      query: 'Tower',
+      sortBy: 'time'
+    });
+
+    expect(total).toBe(3);
+    expect(results.map(({ sessionId, startTime }) => [sessionId, startTime])).toEqual([
+      ['session-1', 1],
+      ['session-1', 6],
+      ['session-2', 60]
+    ]);
+    expect(results[2]).toMatchObject({
+      sessionName: 'The Tower',
+      sessionNumber: 2,
+      recordingId,
+      transcriptionId: secondSession.transcription_id,
+      segmentId: secondSession.segments[0].segment_id,
+      endTime: secondSession.segments[0].end_time,
+      speakerName: 'Game Master',
+      highlight: 'The <mark>tower</mark> is black and silent.'
+    });
+    expect(results[0].recordingId).toBeUndefined();
+  });
+
+  it('should require quoted phrases word for word and rank them first', async () => {
+    const phrase = await searchService.searchTranscripts({ campaignId: 'campaign-1', query: '"the black tower"' });
+    expect(phrase.results.map(({ segmentId }) => segmentId)).toEqual([firstSession.segments[0].segment_id]);
+
+    const terms = await searchService.searchTranscripts({ campaignId: 'campaign-1', query: 'black tower' });
+    expect(terms.results.map(({ segmentId }) => segmentId)).toEqual([
+      firstSession.segments[0].segment_id,
+      secondSession.segments[0].segment_id
+    ]);
+  });
+
+  it('should match words that sound like the query when fuzzy', async () => {
+    const exact = await searchService.searchTranscripts({ campaignId: 'campaign-1', query: 'xanathar' });
+    expect(exact.results.map(({ text }) => text)).toEqual(['Is Xanathar here?']);
+
+    const fuzzy = await searchService.searchTranscripts({ campaignId: 'campaign-1', query: 'xanathar', fuzzy: true });
+    expect(fuzzy.results.map(({ text }) => text)).toEqual([
+      'Is Xanathar here?',
+      'We should ask Zanathar about the beholder.'
+    ]);
+    expect(fuzzy.results[0].score).toBeGreaterThan(fuzzy.results[1].score);
+    expect(fuzzy.results[1].highlight).toBe('We should ask <mark>Zanathar</mark> about the beholder.');
+  });
+
+  it('should filter on speakers and the characters they play', async () => {
+    const alice = firstSession.segments[1];
+    await transcriptionRepository.updateSpeakerIdentification(alice.speaker_id as string, { character_id: 'char-1' });
+
+    const bySpeaker = await searchService.searchTranscripts({
+      campaignId: 'campaign-1',
+      query: 'tower',
+      speakerIds: [firstSession.segments[0].speaker_id as string]
+    });
+    expect(bySpeaker.results.map(({ startTime }) => startTime)).toEqual([1]);
+
+    const byCharacter = await searchService.searchTranscripts({
+      campaignId: 'campaign-1',
+      query: 'tower',
+      characterIds: ['char-1']
+    });
+    expect(byCharacter.results).toEqual([
+      expect.objectContaining({ segmentId: alice.segment_id, characterId: 'char-1', characterName: 'Vex' })
+    ]);
+  });
+
+  it('should only limit the segments that contain every term', async () => {
+    const partyLog = Array.from({ length: 5 }, (_, index) => `[00:00:0${index}] Game Master: The party waits.`).join('\n');
+    await transcriptionService.importTranscript(
+      { session_id: 'session-1' },
+      `${partyLog}\n[00:00:09] Alice: The party flees from the owlbear.\n`
+    );
+
+    const candidates = await new SearchRepository(dbService).findTranscriptSegments(
+      [['party'], ['owlbear']],
+      { campaignId: 'campaign-1' },
+      3
+    );
+
+    expect(candidates.map(({ text }) => text)).toEqual(['The party flees from the owlbear.']);
+    expect((await searchService.searchTranscripts({ campaignId: 'campaign-1', query: 'party owlbear' })).total).toBe(1);
+  });
+
+  it('should keep the index up to date when a segment is edited', async () => {
+    const editService = new TranscriptEditService(transcriptionRepository, new TranscriptRevisionRepository(dbService));
+    await editService.editText(firstSession.transcription_id, firstSession.segments[2].segment_id, 'Is the lich here?');
+
+    expect((await searchService.searchTranscripts({ campaignId: 'campaign-1', query: 'xanathar' })).total).toBe(0);
+    expect((await searchService.searchTranscripts({ campaignId: 'campaign-1', query: 'lich' })).total).toBe(1);
+  });
+});
@@ -0,0 +1,203 @@
+import { DatabaseService } from '../../services/database.service';
+import { TranscriptionRepository } from '../../repositories/transcription.repository';
+import { AudioRecordingRepository } from '../../repositories/audio-recording.repository';
+import { TranscriptRevisionRepository } from '../../repositories/transcript-revision.repository';
+import { RedactionRepository } from '../../repositories/redaction.repository';
+import { SessionRepository } from '../../repositories/session.repository';
+import { TrashRepository } from '../../repositories/trash.repository';
+import { TranscriptionService } from '../../services/transcription.service';
+import { TranscriptEditService } from '../../services/transcript-edit.service';
+import { TranscriptionProviderRegistry } from '../../services/transcription-providers/registry';
+import { RedactionService } from '../../services/redaction.service';
+import { AudioRedactionService } from '../../services/audio-redaction.service';
+import {
+  TranscriptTranslationError,
+  TranscriptTranslationService
+} from '../../services/transcript-translation.service';
+import { LLMService } from '../../services/llm.service';
+import { LLMMessage } from '../../models/llm.model';
+import { REDACTED_TEXT } from '../../models/redaction.model';
+import { Transcription, TranscriptExportFormat, TranscriptTextVersion } from '../../models/transcription.model';
+import { detectLanguage } from '../../utils/language-detection';
+
+const SESSION_ID = '11111111-1111-1111-1111-111111111111';
+
+const CHAT_LOG = `[00:00:01] Game Master: You enter the tavern and the innkeeper looks at you.
+[00:00:05] Alice: Dobra, rzucam kostką na percepcję.
+[00:00:09] Bob: Ja też, ale nie wiem co się dzieje.
+[00:00:14] Alice: Okay, I attack the goblin.
+[00:00:18] Bob: Hmm.
+`;
+
+const TRANSLATIONS: Record<string, string> = {
+  'Dobra, rzucam kostką na percepcję.': 'Okay, I roll for perception.',
+  'Ja też, ale nie wiem co się dzieje.': "Me too, but I don't know what's going on."
+};
+
+/**
+ * Language model answering with the translations above, as a fenced JSON block
+ */
+const translatingChat = async (messages: LLMMessage[]) => {
+  const lines: { id: string; text: string }[] = JSON.parse(messages[1].content);
+  const translated = lines
+    .filter((line) => TRANSLATIONS[line.text])
+    .map((line) => ({ id: line.id, text: TRANSLATIONS[line.text] }));
+  return { message: { content: '```json\n' + JSON.stringify(translated) + '\n```' } };
+};
+
+describe('detectLanguage', () => {
+  it('should tell Polish from English by common words and letters', () => {
+    expect(detectLanguage('Nie wiem, co się dzieje')).toBe('pl');
+    expect(detectLanguage('I attack the goblin with my sword')).toBe('en');
+    expect(detectLanguage('Hmm.')).toBeUndefined();
+  });
+});
+
+describe('Transcript translation', () => {
+  let dbService: DatabaseService;
+  let transcriptionRepository: TranscriptionRepository;
+  let transcriptionService: TranscriptionService;
+  let chat: jest.Mock;
+  let translationService: TranscriptTranslationService;
+  let transcription: Transcription;
+
+  beforeEach(async () => {
+    dbService = new DatabaseService({ driver: 'embedded', embeddedPath: ':memory:' });
+    await dbService.initialize();
+    await dbService.writeTransaction(async (tx) => {
+      await tx.run('CREATE (:Session {session_id: $sessionId, name: "Session 1"})', { sessionId: SESSION_ID });
+    });
+
+    transcriptionRepository = new TranscriptionRepository(dbService);
+    transcriptionService = new TranscriptionService(
+      transcriptionRepository,
+      new AudioRecordingRepository(dbService),
+      new TranscriptionProviderRegistry()
+    );
+    chat = jest.fn(translatingChat);
+    translationService = new TranscriptTranslationService(
+      transcriptionRepository,
+      { chat } as unknown as LLMService,
+      { batchSize: 1 }
+    );
+
+    transcription = await transcriptionService.importTranscript(
+      { session_id: SESSION_ID, language_code: 'en-US' },
+      CHAT_LOG
+    );
+  });
+
+  afterEach(async () => {
+    await dbService.close();
+  });
+
+  it('should detect the language of each segment when a transcript is imported', () => {
+    expect(transcription.segments.map(({ language_code }) => language_code)).toEqual(['en', 'pl', 'pl', 'en', 'en']);
+  });
+
+  it('should translate the segments that are not in the target language and keep the original text', async () => {
+    const onProgress = jest.fn();
+    const summary = await translationService.translate(
+      transcription.transcription_id,
+      { target_language: 'en' },
+      onProgress
+    );
+
+    expect(summary).toEqual({ target_language: 'en', translated_segments: 2, skipped_segments: 3, failed_segments: 0 });
+    expect(chat).toHaveBeenCalledTimes(2);
+    expect(onProgress).toHaveBeenLastCalledWith(100, 'Translation complete');
+
+    const translated = await transcriptionRepository.findById(transcription.transcription_id);
+    expect(translated?.segments.map(({ text, translated_text }) => [text, translated_text])).toEqual([
+      ['You enter the tavern and the innkeeper looks at you.', undefined],
+      ['Dobra, rzucam kostką na percepcję.', 'Okay, I roll for perception.'],
+      ['Ja też, ale nie wiem co się dzieje.', "Me too, but I don't know what's going on."],
+      ['Okay, I attack the goblin.', undefined],
+      ['Hmm.', undefined]
+    ]);
+    expect(translated?.segments[1].translation_language_code).toBe('en');
+
+    // Translated segments are only translated again when asked to
+    chat.mockClear();
+    expect(await translationService.translate(transcription.transcription_id, { target_language: 'en' })).toMatchObject({
+      translated_segments: 0,
+      skipped_segments: 5
+    });
+    expect(chat).not.toHaveBeenCalled();
+    await translationService.translate(transcription.transcription_id, { target_language: 'en', retranslate: true });
+    expect(chat).toHaveBeenCalledTimes(2);
+  });
+
+  it('should export either the original text or the translation', async () => {
+    await translationService.translate(transcription.transcription_id, { target_language: 'en' });
+
+    const original = await transcriptionService.exportTranscript(transcription.transcription_id, TranscriptExportFormat.SRT);
+    const translation = await transcriptionService.exportTranscript(
+      transcription.transcription_id,
+      TranscriptExportFormat.SRT,
+      { text_version: TranscriptTextVersion.TRANSLATION }
+    );
+
+    expect(original?.data).toContain('Dobra, rzucam kostką na percepcję.');
+    expect(translation?.data).not.toContain('Dobra, rzucam kostką na percepcję.');
+    expect(translation?.data).toContain('Okay, I roll for perception.');
+    expect(translation?.data).toContain('You enter the tavern and the innkeeper looks at you.');
+  });
+
+  it('should drop the translation of a segment whose text is edited', async () => {
+    await translationService.translate(transcription.transcription_id, { target_language: 'en' });
+    const editService = new TranscriptEditService(transcriptionRepository, new TranscriptRevisionRepository(dbService));
+
+    const { transcription: edited } = await editService.editText(
+      transcription.transcription_id,
+      transcription.segments[1].segment_id,
+      'Rzucam na spostrzegawczość.'
+    );
+
+    expect(edited.segments[1]).toMatchObject({ text: 'Rzucam na spostrzegawczość.', language_code: 'pl' });
+    expect(edited.segments[1].translated_text).toBeUndefined();
+    expect(edited.segments[2].translated_text).toBe("Me too, but I don't know what's going on.");
+  });
+
+  it('should not write back the translation of a segment redacted while it was translated', async () => {
+    const redactionService = new RedactionService(
+      new RedactionRepository(dbService),
+      transcriptionRepository,
+      new SessionRepository(dbService, new TrashRepository(dbService)),
+      new AudioRecordingRepository(dbService),
+      new TranscriptRevisionRepository(dbService),
+      new AudioRedactionService()
+    );
+    const segmentId = transcription.segments[1].segment_id;
+    chat.mockImplementationOnce(async (messages: LLMMessage[]) => {
+      await redactionService.redactSpan(transcription.transcription_id, {
+        segment_id: segmentId,
+        start_offset: 0,
+        end_offset: 'Dobra, rzucam'.length
+      });
+      return translatingChat(messages);
+    });
+
+    const summary = await translationService.translate(transcription.transcription_id, { target_language: 'en' });
+
+    expect(summary).toMatchObject({ translated_segments: 1, failed_segments: 1 });
+    const translated = await transcriptionRepository.findById(transcription.transcription_id);
+    expect(translated?.segments[1].text).toContain(REDACTED_TEXT);
+    expect(translated?.segments[1].translated_text).toBeUndefined();
+    expect(translated?.segments[2].translated_text).toBe("Me too, but I don't know what's going on.");
+  });
+
+  it('should count segments the language model left out as failed and stop when it cannot be reached', async () => {
+    chat.mockResolvedValueOnce({ message: { content: 'Sorry, I cannot help with that.' } });
+    expect(await translationService.translate(transcription.transcription_id, { target_language: 'en' })).toMatchObject({
+      translated_segments: 1,
+      failed_segments: 1
+    });
+
+    chat.mockRejectedValueOnce(new Error('OpenAI service not initialized'));
+    await expect(
+      translationService.translate(transcription.transcription_id, { target_language: 'en' })
+    ).rejects.toThrow(TranscriptTranslationError);
+    expect(await translationService.translate('missing', { target_language: 'en' })).toBeNull();
+  });
+});
@@ -0,0 +1,202 @@
+import { DatabaseService } from '../../services/database.service';
+import { AudioRecordingRepository } from '../../repositories/audio-recording.repository';
+import { TranscriptionRepository } from '../../repositories/transcription.repository';
+import { TranscriptRevisionRepository } from '../../repositories/transcript-revision.repository';
+import { TranscriptionQualityRepository } from '../../repositories/transcription-quality.repository';
+import { TranscriptEditService } from '../../services/transcript-edit.service';
+import {
+  TranscriptionQualityError,
+  TranscriptionQualityService
+} from '../../services/transcription-quality.service';
+import { TranscriptionService as TranscriptionEngine } from '../../models/audio-recording.model';
+import { TranscriptionSegment } from '../../models/transcription.model';
+import { alignTranscripts, wordErrorRate } from '../../utils/word-error-rate';
+
+const SESSION_ID = '11111111-1111-1111-1111-111111111111';
+
+const segment = (segmentId: string, start: number, text: string, speakerId?: string): TranscriptionSegment => ({
+  segment_id: segmentId,
+  start_time: start,
+  end_time: start + 2,
+  text,
+  speaker_id: speakerId,
+  confidence_score: 0.9
+});
+
+describe('alignTranscripts', () => {
+  it('should count substitutions, deletions and insertions against the corrected transcript', () => {
+    const alignment = alignTranscripts(
+      [segment('seg-1', 0, 'You enter the crip, uh, slowly.'), segment('seg-2', 3, 'Roll initiative.')],
+      [segment('seg-1', 0, 'You quietly enter the crypt slowly.'), segment('seg-2', 3, 'roll Initiative')]
+    );
+
+    // Nothing for "quietly", "crip" for "crypt" and "uh" for nothing
+    expect(alignment).toMatchObject({
+      reference_words: 8,
+      hypothesis_words: 8,
+      substitutions: 1,
+      deletions: 1,
+      insertions: 1
+    });
+    expect(wordErrorRate(alignment)).toBeCloseTo(3 / 8);
+  });
+
+  it('should align segments that were split and merged across their new boundaries', () => {
+    const alignment = alignTranscripts(
+      [segment('seg-1', 0, 'I attack the goblin with'), segment('seg-2', 2, 'my sword', 'bob')],
+      [segment('seg-1', 0, 'I attack the goblin with my sword', 'alice')]
+    );
+
+    expect(alignment).toMatchObject({ reference_words: 7, substitutions: 0, deletions: 0, insertions: 0 });
+    expect(alignment).toMatchObject({ attributed_words: 2, correctly_attributed_words: 0 });
+  });
+
+  it('should score an empty corrected transcript by whether the provider heard anything', () => {
+    expect(wordErrorRate(alignTranscripts([segment('seg-1', 0, 'Hmm.')], []))).toBe(1);
+    expect(wordErrorRate(alignTranscripts([], []))).toBe(0);
+  });
+});
+
+describe('TranscriptionQualityService', () => {
+  let dbService: DatabaseService;
+  let transcriptionRepository: TranscriptionRepository;
+  let audioRecordingRepository: AudioRecordingRepository;
+  let qualityService: TranscriptionQualityService;
+  let editService: TranscriptEditService;
+
+  /**
+   * Create a transcription as a provider would have made it
+   */
+  const createTranscription = async (
+    service: TranscriptionEngine,
+    provider: TranscriptionEngine,
+    segments: TranscriptionSegment[]
+  ): Promise<string> => {
+    const recording = await audioRecordingRepository.create(
+      {
+        session_id: SESSION_ID,
+        name: 'Session',
+        file_path: '/tmp/session.wav',
+        duration_seconds: 10,
+        file_size_bytes: 2048,
+        file_format: 'wav',
+        codec: 'pcm_s16le',
+        sample_rate: 16000,
+        channels: 1,
+        bit_depth: 16
+      },
+      'user-1'
+    );
+    const { transcription_id } = await transcriptionRepository.create({
+      recording_id: recording.recording_id,
+      session_id: SESSION_ID,
+      service_options: { service }
+    });
+    await transcriptionRepository.update(transcription_id, {
+      full_text: segments.map((part) => part.text).join(' '),
+      segments,
+      metadata: {
+        model_version: `${provider}-base`,
+        audio_duration: 10,
+        additional_info: { requested_service: service, service: provider, noise_reduction_level: 'medium' }
+      }
+    });
+    return transcription_id;
+  };
+
+  beforeEach(async () => {
+    dbService = new DatabaseService({ driver: 'embedded', embeddedPath: ':memory:' });
+    await dbService.initialize();
+    await dbService.writeTransaction(async (tx) => {
+      await tx.run(`CREATE (:Session {session_id: '${SESSION_ID}', name: 'The Crypt'})`);
+    });
+    transcriptionRepository = new TranscriptionRepository(dbService);
+    audioRecordingRepository = new AudioRecordingRepository(dbService);
+    const transcriptRevisionRepository = new TranscriptRevisionRepository(dbService);
+    qualityService = new TranscriptionQualityService(
+      transcriptionRepository,
+      transcriptRevisionRepository,
+      new TranscriptionQualityRepository(dbService)
+    );
+    editService = new TranscriptEditService(transcriptionRepository, transcriptRevisionRepository, qualityService);
+
+    await transcriptionRepository.createOrUpdateSpeaker('speaker-gm', 'Game Master');
+    await transcriptionRepository.createOrUpdateSpeaker('speaker-alice', 'Alice');
+  });
+
+  afterEach(async () => {
+    await dbService.close();
+  });
+
+  it('should score a transcription as it is corrected, against what the provider first transcribed', async () => {
+    const transcriptionId = await createTranscription(TranscriptionEngine.HYBRID, TranscriptionEngine.WHISPER_CPP, [
+      segment('seg-1', 0, 'You enter the crypt.', 'speaker-gm'),
+      segment('seg-2', 3, 'Roll initiative.', 'speaker-alice')
+    ]);
+    expect(await qualityService.getScore(transcriptionId)).toBeNull();
+
+    await editService.editText(transcriptionId, 'seg-1', 'You enter the dark crypt.');
+    await editService.reassignSpeaker(transcriptionId, 'seg-2', 'speaker-gm');
+
+    const score = await qualityService.getScore(transcriptionId);
+    expect(score).toMatchObject({
+      service: TranscriptionEngine.HYBRID,
+      provider: TranscriptionEngine.WHISPER_CPP,
+      model: 'whisper_cpp-base',
+      noise_reduction_level: 'medium',
+      reference_words: 7,
+      deletions: 1,
+      attributed_words: 6,
+      correctly_attributed_words: 4,
+      revision_count: 2
+    });
+    expect(score?.word_error_rate).toBeCloseTo(1 / 7);
+    expect(score?.speaker_accuracy).toBeCloseTo(4 / 6);
+
+    // Rolling back the speaker change puts the provider's speaker back
+    await editService.rollback(transcriptionId, 2);
+    expect(await qualityService.getScore(transcriptionId)).toMatchObject({ speaker_accuracy: 1, revision_count: 3 });
+  });
+
+  it('should drop the score when the transcript is transcribed again', async () => {
+    const transcriptionId = await createTranscription(TranscriptionEngine.VOSK, TranscriptionEngine.VOSK, [
+      segment('seg-1', 0, 'You enter the crip.')
+    ]);
+    await editService.editText(transcriptionId, 'seg-1', 'You enter the crypt.');
+    expect(await qualityService.getScore(transcriptionId)).not.toBeNull();
+
+    await transcriptionRepository.update(transcriptionId, { segments: [segment('seg-9', 0, 'You enter the crypt.')] });
+
+    expect(await qualityService.score(transcriptionId)).toBeNull();
+    expect(await qualityService.getScore(transcriptionId)).toBeNull();
+    await expect(qualityService.score('missing')).rejects.toThrow(TranscriptionQualityError);
+  });
+
+  it('should compare providers by the errors over all their corrected words', async () => {
+    const whisper = await createTranscription(
+      TranscriptionEngine.OPENAI_WHISPER,
+      TranscriptionEngine.OPENAI_WHISPER,
+      [segment('seg-1', 0, 'You enter the crypt and see a goblin.')]
+    );
+    const vosk = await createTranscription(TranscriptionEngine.VOSK, TranscriptionEngine.VOSK, [
+      segment('seg-1', 0, 'You enter the crip.')
+    ]);
+    const voskAgain = await createTranscription(TranscriptionEngine.VOSK, TranscriptionEngine.VOSK, [
+      segment('seg-1', 0, 'Roll initiative now please.')
+    ]);
+
+    await editService.editText(whisper, 'seg-1', 'You enter the crypt and see a hobgoblin.');
+    await editService.editText(vosk, 'seg-1', 'You enter the crypt.');
+    await editService.editText(voskAgain, 'seg-1', 'Roll initiative now.');
+
+    const comparison = await qualityService.compare();
+    expect(comparison.map(({ service, transcriptions }) => [service, transcriptions])).toEqual([
+      [TranscriptionEngine.OPENAI_WHISPER, 1],
+      [TranscriptionEngine.VOSK, 2]
+    ]);
+    expect(comparison[0].word_error_rate).toBeCloseTo(1 / 8);
+    // One substitution and one insertion over seven corrected words
+    expect(comparison[1]).toMatchObject({ reference_words: 7, substitutions: 1, insertions: 1 });
+    expect(comparison[1].word_error_rate).toBeCloseTo(2 / 7);
+  });
+});
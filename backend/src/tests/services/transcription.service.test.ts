@@ -2,21 +2,29 @@ import { TranscriptionService } from '../../services/transcription.service';
 import { TranscriptionRepository } from '../../repositories/transcription.repository';
 import { AudioRecordingRepository } from '../../repositories/audio-recording.repository';
 import { Transcription, TranscriptionSegment, SpeakerIdentification } from '../../models/transcription.model';
-import { TranscriptionStatus } from '../../models/audio-recording.model';
-import * as fs from 'fs';
+import {
+  AudioRecording,
+  TranscriptionStatus,
+  TranscriptionService as TranscriptionEngine
+} from '../../models/audio-recording.model';
+import { TranscriptionProviderRegistry } from '../../services/transcription-providers/registry';
+import { TranscriptionProviderResult } from '../../services/transcription-providers/provider';
 
 // Mock dependencies
 jest.mock('../../repositories/transcription.repository');
 jest.mock('../../repositories/audio-recording.repository');
-jest.mock('fs');
-jest.mock('util', () => ({
-  promisify: jest.fn((fn) => fn),
-}));
 
 describe('TranscriptionService', () => {
   let transcriptionService: TranscriptionService;
   let transcriptionRepository: jest.Mocked<TranscriptionRepository>;
   let audioRecordingRepository: jest.Mocked<AudioRecordingRepository>;
+  let providerRegistry: jest.Mocked<TranscriptionProviderRegistry>;
+  let mockProvider: {
+    service: TranscriptionEngine;
+    capabilities: { diarization: boolean; wordTimestamps: boolean; languages: string[] };
+    isAvailable: jest.Mock;
+    transcribe: jest.Mock;
+  };
 
   // Mock data
   const mockTranscription: Transcription = {
@@ -26,29 +34,61 @@ describe('TranscriptionService', () => {
     full_text: 'This is a test transcription.',
     segments: [],
     language_code: 'en',
+    language: 'en',
     confidence_score: 0.9,
-    created_at: Date.now(),
-    updated_at: Date.now(),
-    metadata: {}
+    word_count: 4,
+    processing_time_seconds: 0,
+    service_used: TranscriptionEngine.WHISPER_CPP,
+    created_at: '2023-01-01T00:00:00.000Z',
+    updated_at: '2023-01-01T00:00:00.000Z',
+    metadata: {
+      model_version: 'whisper.cpp ggml-base.bin',
+      audio_duration: 60
+    }
   };
 
-  const mockRecording = {
+  const mockRecording: AudioRecording = {
     recording_id: 'test-recording-id',
     session_id: 'test-session-id',
+    name: 'Session audio',
     file_path: '/path/to/audio.mp3',
     duration_seconds: 60,
-    transcription_status: TranscriptionStatus.PENDING,
-    created_at: Date.now(),
-    updated_at: Date.now()
+    file_size_bytes: 960000,
+    file_format: 'mp3',
+    codec: 'mp3',
+    sample_rate: 16000,
+    channels: 1,
+    bit_depth: 0,
+    created_at: '2023-01-01T00:00:00.000Z',
+    created_by: 'test-user-id',
+    transcription_status: TranscriptionStatus.NOT_STARTED
   };
 
   const mockSpeaker: SpeakerIdentification = {
     speaker_id: 'test-speaker-id',
-    name: 'Test Speaker',
+    speaker_name: 'Test Speaker',
     character_id: 'test-character-id',
     user_id: 'test-user-id',
-    created_at: Date.now(),
-    updated_at: Date.now()
+    confidence_score: 1
+  };
+
+  const mockProviderSegments: TranscriptionSegment[] = [
+    {
+      segment_id: 'segment-1',
+      start_time: 0,
+      end_time: 5,
+      text: 'Hello, this is a test transcription.',
+      confidence_score: 0.95,
+      speaker_name: 'Speaker 1'
+    }
+  ];
+
+  const mockProviderResult: TranscriptionProviderResult = {
+    segments: mockProviderSegments,
+    language_code: 'en',
+    confidence_score: 0.95,
+    model_version: 'whisper.cpp ggml-base.bin',
+    speaker_count: 1
   };
 
   beforeEach(() => {
@@ -68,13 +108,28 @@ describe('TranscriptionService', () => {
     
     audioRecordingRepository = {
       findById: jest.fn(),
+      findTracks: jest.fn(),
       update: jest.fn()
     } as unknown as jest.Mocked<AudioRecordingRepository>;
     
+    // Create mock provider registry
+    mockProvider = {
+      service: TranscriptionEngine.WHISPER_CPP,
+      capabilities: { diarization: true, wordTimestamps: true, languages: [] },
+      isAvailable: jest.fn().mockResolvedValue(true),
+      transcribe: jest.fn().mockResolvedValue(mockProviderResult)
+    };
+
+    providerRegistry = {
+      resolve: jest.fn().mockResolvedValue(mockProvider),
+      list: jest.fn()
+    } as unknown as jest.Mocked<TranscriptionProviderRegistry>;
+
     // Create service with mock repositories
     transcriptionService = new TranscriptionService(
       transcriptionRepository,
-      audioRecordingRepository
+      audioRecordingRepository,
+      providerRegistry
     );
 
     // Setup default mock implementations
@@ -84,6 +139,7 @@ describe('TranscriptionService', () => {
       return Promise.resolve({
         ...mockTranscription,
         ...params,
+        metadata: { ...mockTranscription.metadata, ...params.metadata },
         transcription_id: id
       });
     });
@@ -93,9 +149,8 @@ describe('TranscriptionService', () => {
     transcriptionRepository.getSpeakersForSession.mockResolvedValue([mockSpeaker]);
     
     audioRecordingRepository.findById.mockResolvedValue(mockRecording);
+    audioRecordingRepository.findTracks.mockResolvedValue([]);
     audioRecordingRepository.update.mockResolvedValue(mockRecording);
-    
-    (fs.readFile as jest.Mock).mockResolvedValue(Buffer.from('mock audio data'));
   });
 
   describe('getById', () => {
@@ -207,137 +262,125 @@ describe('TranscriptionService', () => {
     });
   });
 
-  describe('processWithWhisper', () => {
-    it('should process transcription with Whisper', async () => {
+  describe('processWith', () => {
+    it('should store the transcript of the provider for the service', async () => {
       // Act
-      const result = await transcriptionService.processWithWhisper('test-transcription-id', true);
-      
+      const result = await transcriptionService.processWith(
+        'test-transcription-id',
+        TranscriptionEngine.WHISPER_CPP,
+        true,
+        undefined,
+        { language: 'en' }
+      );
+
       // Assert
-      expect(transcriptionRepository.findById).toHaveBeenCalledWith('test-transcription-id');
-      expect(audioRecordingRepository.findById).toHaveBeenCalledWith('test-recording-id');
-      expect(fs.readFile).toHaveBeenCalledWith('/path/to/audio.mp3');
-      expect(transcriptionRepository.update).toHaveBeenCalled();
+      expect(providerRegistry.resolve).toHaveBeenCalledWith(TranscriptionEngine.WHISPER_CPP, { language: 'en' });
+      expect(mockProvider.transcribe).toHaveBeenCalledWith(
+        expect.objectContaining({ filePath: '/path/to/audio.mp3', language: 'en', enableSpeakerDiarization: true }),
+        undefined
+      );
+      expect(transcriptionRepository.update).toHaveBeenCalledWith('test-transcription-id', expect.objectContaining({
+        full_text: 'Hello, this is a test transcription.',
+        // Each segment is tagged with the language it is spoken in
+        segments: mockProviderSegments.map((segment) => ({ ...segment, language_code: 'en' })),
+        language_code: 'en',
+        confidence_score: 0.95
+      }));
       expect(audioRecordingRepository.update).toHaveBeenCalledWith('test-recording-id', {
         transcription_status: TranscriptionStatus.COMPLETED
       });
-      
-      // Verify result contains expected fields
-      expect(result).toHaveProperty('full_text');
-      expect(result).toHaveProperty('segments');
-      expect(result).toHaveProperty('language_code', 'en');
-      expect(result).toHaveProperty('confidence_score');
-      expect(result).toHaveProperty('metadata');
-      expect(result.metadata).toHaveProperty('model_version', 'gpt-4o-transcribe');
+      expect(result.metadata).toHaveProperty('model_version', 'whisper.cpp ggml-base.bin');
     });
 
-    it('should process transcription without speaker diarization', async () => {
+    it('should not ask for speaker diarization when the provider cannot do it', async () => {
+      // Arrange
+      mockProvider.capabilities.diarization = false;
+
       // Act
-      const result = await transcriptionService.processWithWhisper('test-transcription-id', false);
-      
+      await transcriptionService.processWith('test-transcription-id', TranscriptionEngine.WHISPER_CPP, true);
+
       // Assert
-      expect(transcriptionRepository.update).toHaveBeenCalled();
-      
-      // Verify segments don't have speaker information
-      const updateCall = transcriptionRepository.update.mock.calls[0][1];
-      expect(updateCall.segments).toBeDefined();
-      expect(updateCall.segments[0]).not.toHaveProperty('speaker_name');
-      expect(updateCall.segments[0]).not.toHaveProperty('speaker_id');
+      expect(mockProvider.transcribe).toHaveBeenCalledWith(
+        expect.objectContaining({ enableSpeakerDiarization: false }),
+        undefined
+      );
+    });
+
+    it('should scale the progress of the provider', async () => {
+      // Arrange
+      const onProgress = jest.fn();
+      mockProvider.transcribe.mockImplementation(async (_request, providerProgress) => {
+        await providerProgress?.(100, 'Transcribing audio');
+        return mockProviderResult;
+      });
+
+      // Act
+      await transcriptionService.processWith('test-transcription-id', TranscriptionEngine.WHISPER_CPP, true, onProgress);
+
+      // Assert
+      expect(onProgress.mock.calls.map(([progress]) => progress)).toEqual([5, 90, 90]);
     });
 
     it('should throw error if transcription not found', async () => {
       // Arrange
       transcriptionRepository.findById.mockResolvedValue(null);
-      
+
       // Act & Assert
       await expect(
-        transcriptionService.processWithWhisper('non-existent-id')
+        transcriptionService.processWith('non-existent-id', TranscriptionEngine.WHISPER_CPP)
       ).rejects.toThrow('Transcription not found');
     });
 
     it('should throw error if recording not found', async () => {
       // Arrange
       audioRecordingRepository.findById.mockResolvedValue(null);
-      
+
       // Act & Assert
       await expect(
-        transcriptionService.processWithWhisper('test-transcription-id')
+        transcriptionService.processWith('test-transcription-id', TranscriptionEngine.WHISPER_CPP)
       ).rejects.toThrow('Recording not found');
     });
 
     it('should update recording status to failed on error', async () => {
       // Arrange
-      fs.readFile.mockRejectedValue(new Error('File read error'));
-      
+      mockProvider.transcribe.mockRejectedValue(new Error('whisper.cpp exited with code 1'));
+
       // Act & Assert
       await expect(
-        transcriptionService.processWithWhisper('test-transcription-id')
-      ).rejects.toThrow('File read error');
-      
-      expect(audioRecordingRepository.update).toHaveBeenCalledWith('test-recording-id', {
-        transcription_status: TranscriptionStatus.FAILED
-      });
-    });
-  });
+        transcriptionService.processWith('test-transcription-id', TranscriptionEngine.WHISPER_CPP)
+      ).rejects.toThrow('whisper.cpp exited with code 1');
 
-  describe('processWithVosk', () => {
-    it('should process transcription with Vosk', async () => {
-      // Act
-      const result = await transcriptionService.processWithVosk('test-transcription-id', true);
-      
-      // Assert
-      expect(transcriptionRepository.findById).toHaveBeenCalledWith('test-transcription-id');
-      expect(audioRecordingRepository.findById).toHaveBeenCalledWith('test-recording-id');
-      expect(fs.readFile).toHaveBeenCalledWith('/path/to/audio.mp3');
-      expect(transcriptionRepository.update).toHaveBeenCalled();
       expect(audioRecordingRepository.update).toHaveBeenCalledWith('test-recording-id', {
-        transcription_status: TranscriptionStatus.COMPLETED
+        transcription_status: TranscriptionStatus.FAILED
       });
-      
-      // Verify result contains expected fields
-      expect(result).toHaveProperty('full_text');
-      expect(result).toHaveProperty('segments');
-      expect(result).toHaveProperty('language_code', 'en');
-      expect(result).toHaveProperty('confidence_score');
-      expect(result).toHaveProperty('metadata');
-      expect(result.metadata).toHaveProperty('model_version', 'vosk-model-en-us-0.22');
     });
 
-    it('should throw error if transcription not found', async () => {
+    it('should fail when no provider is registered for the service', async () => {
       // Arrange
-      transcriptionRepository.findById.mockResolvedValue(null);
-      
+      providerRegistry.resolve.mockRejectedValue(new Error('No transcription provider is available for vosk'));
+
       // Act & Assert
       await expect(
-        transcriptionService.processWithVosk('non-existent-id')
-      ).rejects.toThrow('Transcription not found');
+        transcriptionService.processWith('test-transcription-id', TranscriptionEngine.VOSK)
+      ).rejects.toThrow('No transcription provider is available for vosk');
+
+      expect(audioRecordingRepository.update).toHaveBeenCalledWith('test-recording-id', {
+        transcription_status: TranscriptionStatus.FAILED
+      });
     });
   });
 
   describe('processWithHybrid', () => {
-    it('should process transcription with hybrid approach', async () => {
+    it('should resolve a hybrid provider', async () => {
       // Act
-      const result = await transcriptionService.processWithHybrid('test-transcription-id', true);
-      
-      // Assert
-      expect(transcriptionRepository.findById).toHaveBeenCalledWith('test-transcription-id');
-      expect(audioRecordingRepository.findById).toHaveBeenCalledWith('test-recording-id');
-      
-      // Verify it calls processWithWhisper internally
-      expect(fs.readFile).toHaveBeenCalledWith('/path/to/audio.mp3');
-      expect(transcriptionRepository.update).toHaveBeenCalled();
-      expect(audioRecordingRepository.update).toHaveBeenCalledWith('test-recording-id', {
-        transcription_status: TranscriptionStatus.COMPLETED
-      });
-    });
+      await transcriptionService.processWithHybrid('test-transcription-id', false);
 
-    it('should throw error if transcription not found', async () => {
-      // Arrange
-      transcriptionRepository.findById.mockResolvedValue(null);
-      
-      // Act & Assert
-      await expect(
-        transcriptionService.processWithHybrid('non-existent-id')
-      ).rejects.toThrow('Transcription not found');
+      // Assert
+      expect(providerRegistry.resolve).toHaveBeenCalledWith(TranscriptionEngine.HYBRID, { language: undefined });
+      expect(mockProvider.transcribe).toHaveBeenCalledWith(
+        expect.objectContaining({ enableSpeakerDiarization: false }),
+        undefined
+      );
     });
   });
 
@@ -366,7 +409,7 @@ describe('TranscriptionService', () => {
     it('should update speaker identification', async () => {
       // Arrange
       const updateParams = {
-        name: 'Updated Speaker Name',
+        speaker_name: 'Updated Speaker Name',
         character_id: 'updated-character-id'
       };
       
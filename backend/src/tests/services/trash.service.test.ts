@@ -0,0 +1,171 @@
+import { DatabaseService } from '../../services/database.service';
+import { CharacterRepository } from '../../repositories/character.repository';
+import { RevisionRepository } from '../../repositories/revision.repository';
+import { SessionRepository } from '../../repositories/session.repository';
+import { TrashRepository } from '../../repositories/trash.repository';
+import { TrashService } from '../../services/trash.service';
+
+describe('TrashService', () => {
+  let dbService: DatabaseService;
+  let characterRepository: CharacterRepository;
+  let trashService: TrashService;
+
+  const countRelationships = async (query: string): Promise<number> =>
+    dbService.readTransaction(async (tx) => {
+      const result = await tx.run(query);
+      return result.records[0].get('count').toNumber();
+    });
+
+  beforeEach(async () => {
+    dbService = new DatabaseService({ driver: 'embedded', embeddedPath: ':memory:' });
+    await dbService.initialize();
+    const trashRepository = new TrashRepository(dbService);
+    characterRepository = new CharacterRepository(dbService, new RevisionRepository(dbService), trashRepository);
+    trashService = new TrashService(trashRepository, 30);
+
+    await dbService.writeTransaction(async (tx) => {
+      await tx.run(`
+        CREATE (c:Campaign {campaign_id: 'campaign-1', name: 'Curse of Strahd'})
+        CREATE (s:Character {character_id: 'char-1', name: 'Strahd'})-[:BELONGS_TO]->(c)
+        CREATE (i:Character {character_id: 'char-2', name: 'Ireena'})-[:BELONGS_TO]->(c)
+        CREATE (s)-[:OBSESSED_WITH {since: 'forever'}]->(i)
+        CREATE (:Location {location_id: 'loc-1', name: 'Castle Ravenloft'})-[:BELONGS_TO]->(c)
+      `);
+    });
+  });
+
+  afterEach(async () => {
+    trashService.stopAutoPurge();
+    await dbService.close();
+  });
+
+  it('should move deleted entities and their relationships to the campaign trash', async () => {
+    expect(await characterRepository.delete('char-1', 'user-1')).toBe(true);
+
+    expect(await characterRepository.getById('char-1')).toBeNull();
+    const { entries, total } = await trashService.getCampaignTrash('campaign-1');
+    expect(total).toBe(1);
+    expect(entries[0]).toMatchObject({
+      entity_type: 'character',
+      entity_id: 'char-1',
+      campaign_id: 'campaign-1',
+      name: 'Strahd',
+      deleted_by: 'user-1'
+    });
+    expect(entries[0].relationships).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ type: 'BELONGS_TO', direction: 'outgoing', node: { label: 'Campaign', key: 'campaign_id', value: 'campaign-1' } }),
+        expect.objectContaining({ type: 'OBSESSED_WITH', direction: 'outgoing', properties: { since: 'forever' } })
+      ])
+    );
+    expect(new Date(entries[0].expires_at as string).getTime() - new Date(entries[0].deleted_at).getTime()).toBe(
+      30 * 24 * 60 * 60 * 1000
+    );
+  });
+
+  it('should return false when deleting a missing entity', async () => {
+    expect(await characterRepository.delete('char-404')).toBe(false);
+  });
+
+  it('should filter the trash by entity type', async () => {
+    await characterRepository.delete('char-1');
+    await new TrashRepository(dbService).moveToTrash('location', 'loc-1');
+
+    expect((await trashService.getCampaignTrash('campaign-1', 1, 20, 'location')).entries.map((entry) => entry.entity_id)).toEqual(['loc-1']);
+    expect((await trashService.getCampaignTrash('campaign-1')).total).toBe(2);
+  });
+
+  it('should restore an entity with its relationships', async () => {
+    await characterRepository.delete('char-1');
+    const { entries } = await trashService.getCampaignTrash('campaign-1');
+
+    const result = await trashService.restore(entries[0].trash_id);
+
+    expect(result).toMatchObject({ restoredRelationships: 2, pendingRelationships: 0, missingRelationships: 0 });
+    expect(await characterRepository.getById('char-1')).toMatchObject({ name: 'Strahd', campaign_id: 'campaign-1' });
+    expect(
+      await countRelationships(
+        "MATCH (:Character {character_id: 'char-1'})-[r:OBSESSED_WITH {since: 'forever'}]->(:Character {character_id: 'char-2'}) RETURN count(r) as count"
+      )
+    ).toBe(1);
+    expect((await trashService.getCampaignTrash('campaign-1')).total).toBe(0);
+  });
+
+  it('should restore relationships between entities restored in any order', async () => {
+    await characterRepository.delete('char-1');
+    await characterRepository.delete('char-2');
+    const { entries } = await trashService.getCampaignTrash('campaign-1');
+    const strahd = entries.find((entry) => entry.entity_id === 'char-1');
+    const ireena = entries.find((entry) => entry.entity_id === 'char-2');
+
+    expect(await trashService.restore(strahd!.trash_id)).toMatchObject({ restoredRelationships: 1, pendingRelationships: 1 });
+    expect(await trashService.restore(ireena!.trash_id)).toMatchObject({ restoredRelationships: 2, pendingRelationships: 0 });
+
+    expect(
+      await countRelationships(
+        "MATCH (:Character {character_id: 'char-1'})-[r:OBSESSED_WITH]->(:Character {character_id: 'char-2'}) RETURN count(r) as count"
+      )
+    ).toBe(1);
+  });
+
+  it('should move deleted sessions to the trash and link their recordings to them again on restore', async () => {
+    const sessionRepository = new SessionRepository(dbService, new TrashRepository(dbService));
+    await dbService.writeTransaction(async (tx) => {
+      await tx.run(`
+        MATCH (c:Campaign {campaign_id: 'campaign-1'})
+        CREATE (s:Session {session_id: 'session-1', name: 'Death House'})-[:PART_OF]->(c)
+        CREATE (:AudioRecording {recording_id: 'rec-1', name: 'Death House'})-[:BELONGS_TO]->(s)
+      `);
+    });
+
+    expect(await sessionRepository.delete('session-1', 'user-1')).toBe(true);
+    expect(await sessionRepository.findById('session-1')).toBeNull();
+    const { entries } = await trashService.getCampaignTrash('campaign-1', 1, 20, 'session');
+    expect(entries).toEqual([
+      expect.objectContaining({ entity_id: 'session-1', campaign_id: 'campaign-1', name: 'Death House', deleted_by: 'user-1' })
+    ]);
+
+    expect(await trashService.restore(entries[0].trash_id)).toMatchObject({ restoredRelationships: 2, missingRelationships: 0 });
+    expect(
+      await countRelationships(
+        "MATCH (:AudioRecording {recording_id: 'rec-1'})-[r:BELONGS_TO]->(:Session {session_id: 'session-1'})-[:PART_OF]->(:Campaign {campaign_id: 'campaign-1'}) RETURN count(r) as count"
+      )
+    ).toBe(1);
+  });
+
+  it('should refuse to restore over an existing entity', async () => {
+    await characterRepository.delete('char-1');
+    const { entries } = await trashService.getCampaignTrash('campaign-1');
+    await dbService.writeTransaction(async (tx) => {
+      await tx.run("CREATE (:Character {character_id: 'char-1', name: 'Vampyr'})");
+    });
+
+    await expect(trashService.restore(entries[0].trash_id)).rejects.toThrow('already exists');
+  });
+
+  it('should purge entries permanently', async () => {
+    await characterRepository.delete('char-1');
+    await characterRepository.delete('char-2');
+    const { entries } = await trashService.getCampaignTrash('campaign-1');
+
+    expect(await trashService.purge(entries[0].trash_id)).toBe(true);
+    expect(await trashService.getEntry(entries[0].trash_id)).toBeNull();
+    expect(await trashService.emptyCampaignTrash('campaign-1')).toBe(1);
+  });
+
+  it('should purge entries older than the retention period', async () => {
+    await characterRepository.delete('char-1');
+
+    expect(await trashService.purgeExpired(new Date(Date.now() + 29 * 24 * 60 * 60 * 1000))).toBe(0);
+    expect(await trashService.purgeExpired(new Date(Date.now() + 31 * 24 * 60 * 60 * 1000))).toBe(1);
+    expect((await trashService.getCampaignTrash('campaign-1')).total).toBe(0);
+  });
+
+  it('should keep entries when retention is disabled', async () => {
+    await characterRepository.delete('char-1');
+    const keepForever = new TrashService(new TrashRepository(dbService), 0);
+
+    expect(await keepForever.purgeExpired(new Date(Date.now() + 365 * 24 * 60 * 60 * 1000))).toBe(0);
+    expect((await keepForever.getCampaignTrash('campaign-1')).entries[0].expires_at).toBeUndefined();
+  });
+});
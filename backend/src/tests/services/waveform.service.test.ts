@@ -0,0 +1,143 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DatabaseService } from '../../services/database.service';
+import { AudioRecordingRepository } from '../../repositories/audio-recording.repository';
+import { WaveformService } from '../../services/waveform.service';
+import { PeakBuilder, decodeWaveformPeaks, encodeWaveformPeaks } from '../../utils/waveform-peaks';
+
+const SESSION_ID = '11111111-1111-1111-1111-111111111111';
+
+/**
+ * Signed 16-bit little-endian PCM of the given samples
+ */
+const pcm = (samples: number[]): Buffer => {
+  const buffer = Buffer.alloc(samples.length * 2);
+  samples.forEach((sample, i) => buffer.writeInt16LE(sample, i * 2));
+  return buffer;
+};
+
+describe('PeakBuilder', () => {
+  it('should compute peaks from PCM split at any byte', () => {
+    const builder = new PeakBuilder(8, 2);
+    const data = pcm([100, -2560, 5120, 0, 32767, -32768, 256, 512, 1024]);
+
+    // Split in the middle of a sample
+    builder.push(data.subarray(0, 5));
+    builder.push(data.subarray(5));
+    const [level] = builder.finish();
+
+    expect(builder.sampleCount).toBe(9);
+    expect(level.seconds_per_peak).toBe(0.5);
+    expect(Array.from(level.peaks)).toEqual([-10, 20, -128, 127, 4, 4]);
+  });
+
+  it('should add coarser levels until one is short enough', () => {
+    const builder = new PeakBuilder(100, 100);
+    builder.push(pcm(Array.from({ length: 5000 }, (_, i) => (i === 4321 ? 12800 : 0))));
+    const levels = builder.finish();
+
+    expect(levels.map((level) => level.peaks.length / 2)).toEqual([5000, 1250, 313]);
+    expect(levels.map((level) => level.seconds_per_peak)).toEqual([0.01, 0.04, 0.16]);
+    // The loudest sample survives in every level
+    expect(levels[2].peaks[Math.floor(4321 / 16) * 2 + 1]).toBe(50);
+  });
+
+  it('should round-trip peaks through the cache format', () => {
+    const builder = new PeakBuilder(100, 100);
+    builder.push(pcm(Array.from({ length: 3000 }, (_, i) => (i % 7) * 1000 - 3000)));
+    const waveform = { duration_seconds: 30, source_size: 1234, source_modified: 5678, levels: builder.finish() };
+
+    const encoded = encodeWaveformPeaks(waveform);
+    expect(decodeWaveformPeaks(encoded)).toEqual(waveform);
+    expect(decodeWaveformPeaks(encoded.subarray(0, encoded.length - 1))).toBeNull();
+    expect(decodeWaveformPeaks(Buffer.from('not peaks'))).toBeNull();
+  });
+});
+
+describe('WaveformService', () => {
+  let dbService: DatabaseService;
+  let workDir: string;
+  let audioRecordingRepository: AudioRecordingRepository;
+
+  /**
+   * Create a recording with an audio file and peaks cached for it
+   */
+  const createRecording = async (): Promise<{ recordingId: string; filePath: string }> => {
+    const filePath = path.join(workDir, 'session.webm');
+    await fs.promises.writeFile(filePath, Buffer.alloc(2048));
+    const recording = await audioRecordingRepository.create(
+      {
+        session_id: SESSION_ID,
+        name: 'Session 1',
+        file_path: filePath,
+        duration_seconds: 50,
+        file_size_bytes: 2048,
+        file_format: 'webm',
+        codec: 'opus',
+        sample_rate: 48000,
+        channels: 1,
+        bit_depth: 0
+      },
+      'user-1'
+    );
+
+    const builder = new PeakBuilder(100, 100);
+    builder.push(pcm(Array.from({ length: 5000 }, (_, i) => (i % 100) * 256)));
+    const source = await fs.promises.stat(filePath);
+    await fs.promises.writeFile(
+      WaveformService.getCachePath(recording),
+      encodeWaveformPeaks({
+        duration_seconds: 50,
+        source_size: source.size,
+        source_modified: source.mtimeMs,
+        levels: builder.finish()
+      })
+    );
+    return { recordingId: recording.recording_id, filePath };
+  };
+
+  beforeEach(async () => {
+    dbService = new DatabaseService({ driver: 'embedded', embeddedPath: ':memory:' });
+    await dbService.initialize();
+    await dbService.writeTransaction(async (tx) => {
+      await tx.run(`CREATE (:Session {session_id: '${SESSION_ID}', name: 'The Crypt'})`);
+    });
+    audioRecordingRepository = new AudioRecordingRepository(dbService);
+    workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'waveform-'));
+  });
+
+  afterEach(async () => {
+    await dbService.close();
+    await fs.promises.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('should serve the coarsest cached level that has enough peaks', async () => {
+    const { recordingId } = await createRecording();
+    const waveformService = new WaveformService(audioRecordingRepository, { ffmpegPath: '/nonexistent/ffmpeg' });
+
+    const overview = await waveformService.getWaveform(recordingId, { peaks: 1000 });
+    expect(overview).toMatchObject({ duration_seconds: 50, seconds_per_peak: 0.04, start_time: 0 });
+    expect(overview?.peaks).toHaveLength(1250 * 2);
+
+    // Zooming into ten seconds needs the finest level
+    const zoomed = await waveformService.getWaveform(recordingId, { peaks: 500, start: 20, end: 30 });
+    expect(zoomed).toMatchObject({ seconds_per_peak: 0.01, start_time: 20 });
+    expect(zoomed?.peaks).toHaveLength(1000 * 2);
+    expect(zoomed?.peaks.slice(0, 4)).toEqual([0, 0, 1, 1]);
+
+    expect(await waveformService.getWaveform('22222222-2222-2222-2222-222222222222')).toBeNull();
+  });
+
+  it('should compute the peaks again once the audio file changes', async () => {
+    const { recordingId, filePath } = await createRecording();
+    const waveformService = new WaveformService(audioRecordingRepository, { ffmpegPath: '/nonexistent/ffmpeg' });
+
+    await fs.promises.appendFile(filePath, Buffer.alloc(16));
+
+    await expect(waveformService.getWaveform(recordingId)).rejects.toMatchObject({
+      code: 'DECODE_FAILED',
+      message: expect.stringContaining('Could not start ffmpeg')
+    });
+  });
+});
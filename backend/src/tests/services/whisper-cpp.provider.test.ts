@@ -0,0 +1,145 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { WhisperCppProvider } from '../../services/transcription-providers/whisper-cpp.provider';
+import { TranscriptionProviderRegistry } from '../../services/transcription-providers/registry';
+import { TranscriptionService as TranscriptionEngine } from '../../models/audio-recording.model';
+
+/**
+ * Full JSON output written by the stub binary
+ */
+const STUB_OUTPUT = {
+  result: { language: 'en' },
+  transcription: [
+    {
+      offsets: { from: 0, to: 2500 },
+      text: ' The dragon wakes.',
+      speaker_turn_next: true,
+      tokens: [
+        { text: '[_BEG_]', offsets: { from: 0, to: 0 }, p: 0.5 },
+        { text: ' The', offsets: { from: 0, to: 400 }, p: 0.9 },
+        { text: ' drag', offsets: { from: 400, to: 900 }, p: 0.8 },
+        { text: 'on', offsets: { from: 900, to: 1200 }, p: 1 },
+        { text: ' wakes.', offsets: { from: 1200, to: 2500 }, p: 0.7 }
+      ]
+    },
+    {
+      offsets: { from: 2500, to: 4000 },
+      text: ' Roll initiative.',
+      tokens: [
+        { text: ' Roll', offsets: { from: 2500, to: 3000 }, p: 0.9 },
+        { text: ' initiative.', offsets: { from: 3000, to: 4000 }, p: 0.9 }
+      ]
+    }
+  ]
+};
+
+/**
+ * Shell script standing in for whisper-cli: reports progress, then writes the output given with -of,
+ * or fails for audio files named fail.wav and hangs for hang.wav
+ */
+const STUB_SCRIPT = `#!/bin/sh
+out=""
+file=""
+while [ $# -gt 0 ]; do
+  case "$1" in
+    -of) out="$2"; shift ;;
+    -f) file="$2"; shift ;;
+  esac
+  shift
+done
+case "$file" in
+  *fail.wav) echo "error: failed to read WAV file" >&2; exit 2 ;;
+  *hang.wav) exec sleep 30 ;;
+esac
+echo "whisper_print_progress_callback: progress =  50%" >&2
+cat "$(dirname "$0")/output.json" > "$out.json"
+`;
+
+describe('WhisperCppProvider', () => {
+  let workDir: string;
+  let binaryPath: string;
+  let modelPath: string;
+  let provider: WhisperCppProvider;
+
+  beforeEach(async () => {
+    workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'whisper-cpp-test-'));
+    binaryPath = path.join(workDir, 'whisper-cli');
+    modelPath = path.join(workDir, 'ggml-base-tdrz.bin');
+    await fs.promises.writeFile(binaryPath, STUB_SCRIPT, { mode: 0o755 });
+    await fs.promises.writeFile(path.join(workDir, 'output.json'), JSON.stringify(STUB_OUTPUT));
+    await fs.promises.writeFile(modelPath, 'model');
+    provider = new WhisperCppProvider({ binaryPath, modelPath, threads: 2, timeoutMs: 0 });
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('should transcribe audio into segments with word timings and report progress', async () => {
+    const progress: number[] = [];
+
+    const result = await provider.transcribe(
+      { filePath: path.join(workDir, 'session.wav'), enableSpeakerDiarization: true },
+      (value) => {
+        progress.push(value);
+      }
+    );
+
+    expect(progress).toEqual([50]);
+    expect(result.language_code).toBe('en');
+    expect(result.model_version).toBe('whisper.cpp ggml-base-tdrz.bin');
+    expect(result.speaker_count).toBe(2);
+    expect(result.segments.map((segment) => [segment.text, segment.start_time, segment.end_time, segment.speaker_name])).toEqual([
+      ['The dragon wakes.', 0, 2.5, 'Speaker 1'],
+      ['Roll initiative.', 2.5, 4, 'Speaker 2']
+    ]);
+    expect(result.segments[0].words).toEqual([
+      { word: 'The', start_time: 0, end_time: 0.4, confidence_score: 0.9 },
+      { word: 'dragon', start_time: 0.4, end_time: 1.2, confidence_score: 0.9 },
+      { word: 'wakes.', start_time: 1.2, end_time: 2.5, confidence_score: 0.7 }
+    ]);
+    expect(result.segments[0].confidence_score).toBe(0.85);
+  });
+
+  it('should leave segments unattributed without diarization', async () => {
+    const result = await provider.transcribe({ filePath: path.join(workDir, 'session.wav'), enableSpeakerDiarization: false });
+
+    expect(result.speaker_count).toBeUndefined();
+    expect(result.segments.every((segment) => segment.speaker_name === undefined)).toBe(true);
+  });
+
+  it('should fail with the output of the binary when it exits with an error', async () => {
+    await expect(
+      provider.transcribe({ filePath: path.join(workDir, 'fail.wav'), enableSpeakerDiarization: false })
+    ).rejects.toThrow('whisper.cpp exited with code 2: error: failed to read WAV file');
+  });
+
+  it('should stop the binary when the transcription is aborted', async () => {
+    const controller = new AbortController();
+    const transcription = provider.transcribe({
+      filePath: path.join(workDir, 'hang.wav'),
+      enableSpeakerDiarization: false,
+      signal: controller.signal
+    });
+    setTimeout(() => controller.abort(), 100);
+
+    await expect(transcription).rejects.toThrow('Transcription was cancelled');
+  });
+
+  it('should only be available when the binary and the model exist', async () => {
+    expect(await provider.isAvailable()).toBe(true);
+    expect(await new WhisperCppProvider({ binaryPath, modelPath: '', threads: 1, timeoutMs: 0 }).isAvailable()).toBe(false);
+    expect(
+      await new WhisperCppProvider({ binaryPath: path.join(workDir, 'missing'), modelPath, threads: 1, timeoutMs: 0 }).isAvailable()
+    ).toBe(false);
+  });
+
+  it('should be picked for hybrid transcriptions when available', async () => {
+    const registry = new TranscriptionProviderRegistry();
+    registry.register(provider);
+
+    await expect(registry.resolve(TranscriptionEngine.HYBRID)).resolves.toBe(provider);
+    await expect(registry.resolve(TranscriptionEngine.VOSK)).rejects.toThrow('No transcription provider is available for vosk');
+  });
+});
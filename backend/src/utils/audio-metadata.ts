@@ -0,0 +1,765 @@
+/**
+ * Header parsing for the audio containers accepted on upload: WAV, MP3, Ogg (Opus and Vorbis), FLAC and WebM
+ */
+import fs from 'fs';
+
+/**
+ * Properties of an audio file read from its headers
+ */
+export interface AudioMetadata {
+  /**
+   * Container format, also used as the file extension
+   */
+  format: 'wav' | 'mp3' | 'ogg' | 'flac' | 'webm';
+  codec: string;
+  duration_seconds: number;
+  sample_rate: number;
+  channels: number;
+  /**
+   * Bits per sample, 0 for lossy codecs
+   */
+  bit_depth: number;
+}
+
+/**
+ * Parts of an audio file its metadata is read from. Small files and uploads held in memory are read whole, with the
+ * same buffer as head and tail.
+ */
+interface AudioBytes {
+  /**
+   * Start of the file, holding its headers
+   */
+  head: Buffer;
+  /**
+   * End of the file, holding the last Ogg pages, the last WebM cluster and ID3v1 tags
+   */
+  tail: Buffer;
+  /**
+   * Size of the whole file
+   */
+  size: number;
+}
+
+/**
+ * Bytes read from the start and from the end of a file on disk, past any ID3v2 tag at its start. The last WebM
+ * cluster must start within them; browsers start a new cluster at least every 32 seconds.
+ */
+const FILE_RANGE_BYTES = 1024 * 1024;
+
+/**
+ * Error thrown when an audio file is not in a supported format or its headers cannot be read
+ */
+export class AudioMetadataError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AudioMetadataError';
+  }
+}
+
+/**
+ * Skip an ID3v2 tag at the start of a file
+ * @param buffer File content
+ * @returns Offset of the first byte after the tag
+ */
+const skipId3v2 = (buffer: Buffer): number => {
+  if (buffer.length < 10 || buffer.toString('latin1', 0, 3) !== 'ID3') {
+    return 0;
+  }
+  // Tag size is a 28-bit synchsafe integer; a footer adds another 10 bytes
+  const size = ((buffer[6] & 0x7f) << 21) | ((buffer[7] & 0x7f) << 14) | ((buffer[8] & 0x7f) << 7) | (buffer[9] & 0x7f);
+  return 10 + size + (buffer[5] & 0x10 ? 10 : 0);
+};
+
+/**
+ * Codec names of WAV format tags
+ */
+const WAV_CODECS: Record<number, string> = {
+  0x0001: 'pcm',
+  0x0003: 'pcm_float',
+  0x0006: 'alaw',
+  0x0007: 'mulaw'
+};
+
+/**
+ * Read the fmt and data chunks of a RIFF WAVE file
+ * @param bytes File content
+ * @returns Audio metadata
+ */
+const readWav = ({ head: buffer, size: fileSize }: AudioBytes): AudioMetadata => {
+  let format: { tag: number; channels: number; sampleRate: number; byteRate: number; bitDepth: number } | undefined;
+  let dataBytes: number | undefined;
+
+  let offset = 12;
+  while (offset + 8 <= buffer.length && dataBytes === undefined) {
+    const id = buffer.toString('latin1', offset, offset + 4);
+    const size = buffer.readUInt32LE(offset + 4);
+    const body = offset + 8;
+
+    if (id === 'fmt ') {
+      let tag = buffer.readUInt16LE(body);
+      // WAVE_FORMAT_EXTENSIBLE keeps the actual format tag at the start of the sub-format GUID
+      if (tag === 0xfffe && size >= 26) {
+        tag = buffer.readUInt16LE(body + 24);
+      }
+      format = {
+        tag,
+        channels: buffer.readUInt16LE(body + 2),
+        sampleRate: buffer.readUInt32LE(body + 4),
+        byteRate: buffer.readUInt32LE(body + 8),
+        bitDepth: buffer.readUInt16LE(body + 14)
+      };
+    } else if (id === 'data') {
+      // Recorders that never finalise the header leave the size at 0 or 0xFFFFFFFF
+      const available = fileSize - body;
+      dataBytes = size === 0 || size > available ? available : size;
+    }
+
+    offset = body + size + (size % 2);
+  }
+
+  if (!format) {
+    throw new AudioMetadataError('WAV file has no fmt chunk');
+  }
+  if (dataBytes === undefined) {
+    throw new AudioMetadataError('WAV file has no data chunk');
+  }
+  if (!format.byteRate) {
+    throw new AudioMetadataError('WAV file has an invalid byte rate');
+  }
+
+  return {
+    format: 'wav',
+    codec: WAV_CODECS[format.tag] || `wav_0x${format.tag.toString(16).padStart(4, '0')}`,
+    duration_seconds: dataBytes / format.byteRate,
+    sample_rate: format.sampleRate,
+    channels: format.channels,
+    bit_depth: format.bitDepth
+  };
+};
+
+/**
+ * MPEG audio bitrates in kbit/s, by version group and layer
+ */
+const MPEG_BITRATES: Record<string, number[]> = {
+  'V1L1': [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+  'V1L2': [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+  'V1L3': [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  'V2L1': [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+  'V2L2': [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  'V2L3': [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160]
+};
+
+/**
+ * MPEG audio sample rates by version bits: MPEG 2.5, reserved, MPEG 2, MPEG 1
+ */
+const MPEG_SAMPLE_RATES = [[11025, 12000, 8000], [], [22050, 24000, 16000], [44100, 48000, 32000]];
+
+/**
+ * How far past the ID3 tag to look for the first MPEG frame
+ */
+const MPEG_SYNC_SEARCH_BYTES = 64 * 1024;
+
+/**
+ * Decoded MPEG audio frame header
+ */
+interface MpegFrameHeader {
+  version: number;
+  layer: number;
+  bitrate: number;
+  sampleRate: number;
+  channels: number;
+  samplesPerFrame: number;
+  frameLength: number;
+}
+
+/**
+ * Decode the MPEG audio frame header at an offset
+ * @param buffer File content
+ * @param offset Header offset
+ * @returns Frame header, or undefined if there is no valid header at the offset
+ */
+const readMpegFrameHeader = (buffer: Buffer, offset: number): MpegFrameHeader | undefined => {
+  if (offset + 4 > buffer.length || buffer[offset] !== 0xff || (buffer[offset + 1] & 0xe0) !== 0xe0) {
+    return undefined;
+  }
+  const versionBits = (buffer[offset + 1] >> 3) & 0x03;
+  const layerBits = (buffer[offset + 1] >> 1) & 0x03;
+  const bitrateIndex = buffer[offset + 2] >> 4;
+  const sampleRateIndex = (buffer[offset + 2] >> 2) & 0x03;
+  if (versionBits === 1 || layerBits === 0 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+    return undefined;
+  }
+
+  const version = versionBits === 3 ? 1 : 2;
+  const layer = 4 - layerBits;
+  const bitrate = MPEG_BITRATES[`V${version}L${layer}`][bitrateIndex] * 1000;
+  const sampleRate = MPEG_SAMPLE_RATES[versionBits][sampleRateIndex];
+  const padding = (buffer[offset + 2] >> 1) & 0x01;
+  const samplesPerFrame = layer === 1 ? 384 : layer === 3 && version === 2 ? 576 : 1152;
+  const frameLength =
+    layer === 1
+      ? (Math.floor((12 * bitrate) / sampleRate) + padding) * 4
+      : Math.floor(((samplesPerFrame / 8) * bitrate) / sampleRate) + padding;
+
+  return {
+    version,
+    layer,
+    bitrate,
+    sampleRate,
+    channels: buffer[offset + 3] >> 6 === 3 ? 1 : 2,
+    samplesPerFrame,
+    frameLength
+  };
+};
+
+/**
+ * Read an MPEG audio file. The length comes from a Xing, Info or VBRI header when the encoder wrote one, and is
+ * estimated from the first frame's bitrate otherwise.
+ * @param bytes File content
+ * @returns Audio metadata
+ */
+const readMp3 = ({ head: buffer, tail, size }: AudioBytes): AudioMetadata => {
+  const start = skipId3v2(buffer);
+  const searchEnd = Math.min(buffer.length, start + MPEG_SYNC_SEARCH_BYTES);
+
+  let offset = start;
+  let header: MpegFrameHeader | undefined;
+  for (; offset < searchEnd; offset++) {
+    header = readMpegFrameHeader(buffer, offset);
+    // A second frame right after the first rules out stray sync bytes
+    if (header && (offset + header.frameLength >= buffer.length || readMpegFrameHeader(buffer, offset + header.frameLength))) {
+      break;
+    }
+    header = undefined;
+  }
+  if (!header) {
+    throw new AudioMetadataError('No MPEG audio frames found');
+  }
+
+  let frameCount: number | undefined;
+  const sideInfoLength = header.version === 1 ? (header.channels === 1 ? 17 : 32) : header.channels === 1 ? 9 : 17;
+  const xing = offset + 4 + sideInfoLength;
+  const vbri = offset + 4 + 32;
+  if (xing + 12 <= buffer.length && ['Xing', 'Info'].includes(buffer.toString('latin1', xing, xing + 4))) {
+    if (buffer.readUInt32BE(xing + 4) & 0x01) {
+      frameCount = buffer.readUInt32BE(xing + 8);
+    }
+  } else if (vbri + 18 <= buffer.length && buffer.toString('latin1', vbri, vbri + 4) === 'VBRI') {
+    frameCount = buffer.readUInt32BE(vbri + 14);
+  }
+
+  let duration: number;
+  if (frameCount) {
+    duration = (frameCount * header.samplesPerFrame) / header.sampleRate;
+  } else {
+    const id3v1 = tail.length >= 128 && tail.toString('latin1', tail.length - 128, tail.length - 125) === 'TAG' ? 128 : 0;
+    duration = ((size - offset - id3v1) * 8) / header.bitrate;
+  }
+
+  return {
+    format: 'mp3',
+    codec: `mp${header.layer}`,
+    duration_seconds: duration,
+    sample_rate: header.sampleRate,
+    channels: header.channels,
+    bit_depth: 0
+  };
+};
+
+/**
+ * Sample rate Opus granule positions count in
+ */
+const OPUS_GRANULE_RATE = 48000;
+
+/**
+ * Read an Ogg Opus or Ogg Vorbis file. The length is the granule position of the last page of the first stream.
+ * @param bytes File content
+ * @returns Audio metadata
+ */
+const readOgg = ({ head: buffer, tail, size }: AudioBytes): AudioMetadata => {
+  const serial = buffer.readUInt32LE(14);
+  const segmentCount = buffer[26];
+  const packet = 27 + segmentCount;
+
+  let codec: string;
+  let sampleRate: number;
+  let channels: number;
+  let granuleRate: number;
+  let preSkip = 0;
+  if (buffer.toString('latin1', packet, packet + 8) === 'OpusHead') {
+    codec = 'opus';
+    channels = buffer[packet + 9];
+    preSkip = buffer.readUInt16LE(packet + 10);
+    // Opus always decodes at 48 kHz; the header keeps the rate of the original input
+    sampleRate = buffer.readUInt32LE(packet + 12) || OPUS_GRANULE_RATE;
+    granuleRate = OPUS_GRANULE_RATE;
+  } else if (buffer.toString('latin1', packet, packet + 7) === '\x01vorbis') {
+    codec = 'vorbis';
+    channels = buffer[packet + 11];
+    sampleRate = buffer.readUInt32LE(packet + 12);
+    granuleRate = sampleRate;
+  } else {
+    throw new AudioMetadataError('Unsupported Ogg codec; only Opus and Vorbis are supported');
+  }
+
+  // The first page of the file holds the codec header rather than audio
+  const tailStart = size - tail.length;
+  let lastGranule: bigint | undefined;
+  for (
+    let page = tail.lastIndexOf('OggS');
+    page >= 0 && tailStart + page > 0;
+    page = page > 0 ? tail.lastIndexOf('OggS', page - 1) : -1
+  ) {
+    if (page + 27 <= tail.length && tail.readUInt32LE(page + 14) === serial) {
+      const granule = tail.readBigInt64LE(page + 6);
+      // Pages without a completed packet have a granule position of -1
+      if (granule >= BigInt(0)) {
+        lastGranule = granule;
+        break;
+      }
+    }
+  }
+  if (lastGranule === undefined) {
+    throw new AudioMetadataError('Ogg file has no audio pages');
+  }
+
+  return {
+    format: 'ogg',
+    codec,
+    duration_seconds: Math.max(0, Number(lastGranule) - preSkip) / granuleRate,
+    sample_rate: sampleRate,
+    channels,
+    bit_depth: 0
+  };
+};
+
+/**
+ * Read the STREAMINFO block of a FLAC file
+ * @param buffer File content
+ * @param start Offset of the fLaC marker
+ * @returns Audio metadata
+ */
+const readFlac = (buffer: Buffer, start: number): AudioMetadata => {
+  const block = start + 4;
+  if ((buffer[block] & 0x7f) !== 0) {
+    throw new AudioMetadataError('FLAC file does not start with a STREAMINFO block');
+  }
+
+  // Sample rate (20 bits), channels - 1 (3 bits), bits per sample - 1 (5 bits) and total samples (36 bits)
+  const info = block + 4;
+  const sampleRate = (buffer[info + 10] << 12) | (buffer[info + 11] << 4) | (buffer[info + 12] >> 4);
+  const channels = ((buffer[info + 12] >> 1) & 0x07) + 1;
+  const bitDepth = (((buffer[info + 12] & 0x01) << 4) | (buffer[info + 13] >> 4)) + 1;
+  const totalSamples = (buffer[info + 13] & 0x0f) * 2 ** 32 + buffer.readUInt32BE(info + 14);
+
+  if (!totalSamples) {
+    throw new AudioMetadataError('FLAC file does not record its length');
+  }
+
+  return {
+    format: 'flac',
+    codec: 'flac',
+    duration_seconds: totalSamples / sampleRate,
+    sample_rate: sampleRate,
+    channels,
+    bit_depth: bitDepth
+  };
+};
+
+/**
+ * Matroska element IDs, with their length marker bits
+ */
+const EBML = {
+  HEADER: 0x1a45dfa3,
+  DOC_TYPE: 0x4282,
+  SEGMENT: 0x18538067,
+  INFO: 0x1549a966,
+  TIMECODE_SCALE: 0x2ad7b1,
+  DURATION: 0x4489,
+  TRACKS: 0x1654ae6b,
+  TRACK_ENTRY: 0xae,
+  TRACK_TYPE: 0x83,
+  CODEC_ID: 0x86,
+  AUDIO: 0xe1,
+  SAMPLING_FREQUENCY: 0xb5,
+  CHANNELS: 0x9f,
+  BIT_DEPTH: 0x6264,
+  CLUSTER: 0x1f43b675,
+  TIMECODE: 0xe7,
+  SIMPLE_BLOCK: 0xa3,
+  BLOCK_GROUP: 0xa0,
+  BLOCK: 0xa1,
+  BLOCK_DURATION: 0x9b
+};
+
+/**
+ * Elements that can follow a cluster in a segment. A cluster of unknown size ends where one of them starts.
+ */
+const SEGMENT_CHILDREN = new Set([0x114d9b74, EBML.INFO, EBML.TRACKS, EBML.CLUSTER, 0x1c53bb6b, 0x1043a770, 0x1254c367, 0x1941a469]);
+
+/**
+ * Matroska track type of audio tracks
+ */
+const MATROSKA_AUDIO_TRACK = 2;
+
+/**
+ * Codec names of Matroska codec IDs
+ */
+const MATROSKA_CODECS: Record<string, string> = {
+  A_OPUS: 'opus',
+  A_VORBIS: 'vorbis',
+  A_FLAC: 'flac',
+  'A_MPEG/L3': 'mp3'
+};
+
+/**
+ * Element header read from an EBML stream
+ */
+interface EbmlElement {
+  id: number;
+  /**
+   * Offset of the element data
+   */
+  data: number;
+  /**
+   * Offset of the first byte after the element, clamped to the end of the file
+   */
+  end: number;
+  unknownSize: boolean;
+}
+
+/**
+ * Read a variable-length EBML integer
+ * @param buffer File content
+ * @param offset Offset of the integer
+ * @param keepMarker Keep the length marker bit, as element IDs do
+ * @returns Value and length in bytes
+ */
+const readVint = (buffer: Buffer, offset: number, keepMarker: boolean): { value: number; length: number; allOnes: boolean } => {
+  const first = buffer[offset];
+  const length = first ? Math.clz32(first) - 23 : 0;
+  if (!length || offset + length > buffer.length) {
+    throw new AudioMetadataError('WebM file has an invalid element header');
+  }
+
+  const marker = 0x80 >> (length - 1);
+  let value = keepMarker ? first : first & (marker - 1);
+  let allOnes = (first & (marker - 1)) === marker - 1;
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + buffer[offset + i];
+    allOnes = allOnes && buffer[offset + i] === 0xff;
+  }
+  return { value, length, allOnes };
+};
+
+/**
+ * Read the element header at an offset
+ * @param buffer File content
+ * @param offset Element offset
+ * @param parentEnd End of the parent element
+ * @returns Element header
+ */
+const readElement = (buffer: Buffer, offset: number, parentEnd: number): EbmlElement => {
+  const id = readVint(buffer, offset, true);
+  const size = readVint(buffer, offset + id.length, false);
+  const data = offset + id.length + size.length;
+  return {
+    id: id.value,
+    data,
+    end: size.allOnes ? parentEnd : Math.min(data + size.value, parentEnd),
+    unknownSize: size.allOnes
+  };
+};
+
+/**
+ * Read the unsigned integer or float data of an element
+ * @param buffer File content
+ * @param element Element
+ * @param float Read the data as a float
+ * @returns Value
+ */
+const readEbmlNumber = (buffer: Buffer, element: EbmlElement, float = false): number => {
+  const length = element.end - element.data;
+  if (float) {
+    return length === 4 ? buffer.readFloatBE(element.data) : buffer.readDoubleBE(element.data);
+  }
+  let value = 0;
+  for (let i = element.data; i < element.end; i++) {
+    value = value * 256 + buffer[i];
+  }
+  return value;
+};
+
+/**
+ * Visit the child elements of an element
+ * @param buffer File content
+ * @param start Offset of the first child
+ * @param end End of the parent element
+ * @param visit Called with each child
+ */
+const forEachElement = (buffer: Buffer, start: number, end: number, visit: (element: EbmlElement) => void): void => {
+  for (let offset = start; offset < end; ) {
+    const element = readElement(buffer, offset, end);
+    visit(element);
+    offset = element.end;
+  }
+};
+
+/**
+ * Read the blocks of a cluster
+ * @param buffer File content
+ * @param cluster Cluster element
+ * @returns Timecode of the end of its last block, and the offset of the element that follows it
+ */
+const readCluster = (buffer: Buffer, cluster: EbmlElement): { lastTimecode: number; next: number } => {
+  let clusterTimecode = 0;
+  let lastTimecode = 0;
+  for (let childOffset = cluster.data; childOffset < cluster.end; ) {
+    const child = readElement(buffer, childOffset, cluster.end);
+    if (cluster.unknownSize && SEGMENT_CHILDREN.has(child.id)) {
+      return { lastTimecode, next: childOffset };
+    }
+    childOffset = child.end;
+
+    if (child.id === EBML.TIMECODE) {
+      clusterTimecode = readEbmlNumber(buffer, child);
+    } else if (child.id === EBML.SIMPLE_BLOCK || child.id === EBML.BLOCK_GROUP) {
+      let block = child.id === EBML.SIMPLE_BLOCK ? child : undefined;
+      let blockDuration = 0;
+      if (child.id === EBML.BLOCK_GROUP) {
+        forEachElement(buffer, child.data, child.end, (grandchild) => {
+          if (grandchild.id === EBML.BLOCK) {
+            block = grandchild;
+          } else if (grandchild.id === EBML.BLOCK_DURATION) {
+            blockDuration = readEbmlNumber(buffer, grandchild);
+          }
+        });
+      }
+      if (block && block.data + 3 <= block.end) {
+        // Block data: track number, then the timecode relative to the cluster
+        const trackNumber = readVint(buffer, block.data, false);
+        const relative = buffer.readInt16BE(block.data + trackNumber.length);
+        lastTimecode = Math.max(lastTimecode, clusterTimecode + relative + blockDuration);
+      }
+    }
+  }
+  return { lastTimecode, next: cluster.end };
+};
+
+/**
+ * Bytes of the cluster element ID
+ */
+const CLUSTER_ID_BYTES = Buffer.from([0x1f, 0x43, 0xb6, 0x75]);
+
+/**
+ * Find the last cluster in the end of a file and read its blocks
+ * @param tail End of the file
+ * @returns Timecode of the end of the last block of the file
+ */
+const readLastClusterTimecode = (tail: Buffer): number => {
+  for (
+    let offset = tail.lastIndexOf(CLUSTER_ID_BYTES);
+    offset >= 0;
+    offset = offset > 0 ? tail.lastIndexOf(CLUSTER_ID_BYTES, offset - 1) : -1
+  ) {
+    // Audio data can hold the bytes of a cluster ID too; clusters start with their timecode
+    try {
+      const cluster = readElement(tail, offset, tail.length);
+      if (cluster.data < cluster.end && readElement(tail, cluster.data, cluster.end).id === EBML.TIMECODE) {
+        return readCluster(tail, cluster).lastTimecode;
+      }
+    } catch (error) {
+      // Not a cluster
+    }
+  }
+  throw new AudioMetadataError('WebM file has no cluster near its end');
+};
+
+/**
+ * Read a WebM or Matroska file. The length comes from the segment duration, or from the timecode of the last block
+ * when the recorder never wrote one, as browser MediaRecorder output does not.
+ * @param bytes File content
+ * @returns Audio metadata
+ */
+const readWebm = ({ head: buffer, tail, size }: AudioBytes): AudioMetadata => {
+  // Clusters run past the head of files that are not read whole; the last one is read from the tail instead
+  const partial = size > buffer.length;
+  const header = readElement(buffer, 0, buffer.length);
+  let docType = 'matroska';
+  forEachElement(buffer, header.data, header.end, (element) => {
+    if (element.id === EBML.DOC_TYPE) {
+      docType = buffer.toString('latin1', element.data, element.end).replace(/\0+$/, '');
+    }
+  });
+  if (docType !== 'webm' && docType !== 'matroska') {
+    throw new AudioMetadataError(`Unsupported EBML document type: ${docType}`);
+  }
+
+  const segment = readElement(buffer, header.end, buffer.length);
+  if (segment.id !== EBML.SEGMENT) {
+    throw new AudioMetadataError('WebM file has no segment');
+  }
+
+  let timecodeScale = 1000000;
+  let duration: number | undefined;
+  let track: { codecId: string; sampleRate: number; channels: number; bitDepth: number } | undefined;
+  let lastTimecode = 0;
+
+  for (let offset = segment.data; offset < segment.end; ) {
+    // The head can end within the header of the first cluster, so only its ID is looked at
+    if (partial && buffer.subarray(offset, offset + CLUSTER_ID_BYTES.length).equals(CLUSTER_ID_BYTES)) {
+      break;
+    }
+    const element = readElement(buffer, offset, segment.end);
+    offset = element.end;
+
+    if (element.id === EBML.INFO) {
+      forEachElement(buffer, element.data, element.end, (child) => {
+        if (child.id === EBML.TIMECODE_SCALE) {
+          timecodeScale = readEbmlNumber(buffer, child);
+        } else if (child.id === EBML.DURATION) {
+          duration = readEbmlNumber(buffer, child, true);
+        }
+      });
+    } else if (element.id === EBML.TRACKS) {
+      forEachElement(buffer, element.data, element.end, (entry) => {
+        if (entry.id !== EBML.TRACK_ENTRY || track) {
+          return;
+        }
+        let type = 0;
+        // Matroska defaults for tracks that leave these out
+        const candidate = { codecId: '', sampleRate: 8000, channels: 1, bitDepth: 0 };
+        forEachElement(buffer, entry.data, entry.end, (child) => {
+          if (child.id === EBML.TRACK_TYPE) {
+            type = readEbmlNumber(buffer, child);
+          } else if (child.id === EBML.CODEC_ID) {
+            candidate.codecId = buffer.toString('latin1', child.data, child.end).replace(/\0+$/, '');
+          } else if (child.id === EBML.AUDIO) {
+            forEachElement(buffer, child.data, child.end, (audio) => {
+              if (audio.id === EBML.SAMPLING_FREQUENCY) {
+                candidate.sampleRate = readEbmlNumber(buffer, audio, true);
+              } else if (audio.id === EBML.CHANNELS) {
+                candidate.channels = readEbmlNumber(buffer, audio);
+              } else if (audio.id === EBML.BIT_DEPTH) {
+                candidate.bitDepth = readEbmlNumber(buffer, audio);
+              }
+            });
+          }
+        });
+        if (type === MATROSKA_AUDIO_TRACK) {
+          track = candidate;
+        }
+      });
+    } else if (element.id === EBML.CLUSTER && duration === undefined) {
+      const cluster = readCluster(buffer, element);
+      lastTimecode = Math.max(lastTimecode, cluster.lastTimecode);
+      offset = cluster.next;
+    }
+  }
+  if (partial && duration === undefined) {
+    lastTimecode = readLastClusterTimecode(tail);
+  }
+
+  if (!track) {
+    throw new AudioMetadataError('WebM file has no audio track');
+  }
+
+  const units = duration !== undefined && duration > 0 ? duration : lastTimecode;
+  const codecId = track.codecId;
+  return {
+    format: 'webm',
+    codec:
+      MATROSKA_CODECS[codecId] ||
+      (codecId.startsWith('A_AAC') ? 'aac' : codecId.startsWith('A_PCM') ? 'pcm' : codecId.replace(/^A_/, '').toLowerCase()),
+    duration_seconds: (units * timecodeScale) / 1e9,
+    sample_rate: track.sampleRate,
+    channels: track.channels,
+    bit_depth: track.bitDepth
+  };
+};
+
+/**
+ * Read the metadata of an audio file from its head and tail
+ * @param bytes File content
+ * @returns Audio metadata
+ * @throws AudioMetadataError if the format is not supported or the file is truncated or corrupt
+ */
+const readAudioBytes = (bytes: AudioBytes): AudioMetadata => {
+  const buffer = bytes.head;
+  let metadata: AudioMetadata;
+  try {
+    const id3End = skipId3v2(buffer);
+    if (buffer.length >= 12 && buffer.toString('latin1', 0, 4) === 'RIFF' && buffer.toString('latin1', 8, 12) === 'WAVE') {
+      metadata = readWav(bytes);
+    } else if (buffer.length >= 4 && buffer.toString('latin1', 0, 4) === 'OggS') {
+      metadata = readOgg(bytes);
+    } else if (buffer.length >= 4 && buffer.readUInt32BE(0) === EBML.HEADER) {
+      metadata = readWebm(bytes);
+    } else if (buffer.length >= id3End + 4 && buffer.toString('latin1', id3End, id3End + 4) === 'fLaC') {
+      metadata = readFlac(buffer, id3End);
+    } else if (id3End > 0 || readMpegFrameHeader(buffer, 0)) {
+      metadata = readMp3(bytes);
+    } else {
+      throw new AudioMetadataError('Unsupported audio format; upload WAV, MP3, Ogg, FLAC or WebM');
+    }
+  } catch (error) {
+    if (error instanceof AudioMetadataError) {
+      throw error;
+    }
+    // Reads past the end of the buffer
+    throw new AudioMetadataError('Audio file is truncated or corrupt');
+  }
+
+  if (
+    !(metadata.sample_rate > 0) ||
+    !(metadata.channels > 0) ||
+    !Number.isFinite(metadata.duration_seconds) ||
+    metadata.duration_seconds < 0
+  ) {
+    throw new AudioMetadataError(`Audio file has invalid ${metadata.format} headers`);
+  }
+  return metadata;
+};
+
+/**
+ * Read the format, codec, length, sample rate and channel count of an audio file from its headers
+ * @param buffer File content
+ * @returns Audio metadata
+ * @throws AudioMetadataError if the format is not supported or the file is truncated or corrupt
+ */
+export const readAudioMetadata = (buffer: Buffer): AudioMetadata =>
+  readAudioBytes({ head: buffer, tail: buffer, size: buffer.length });
+
+/**
+ * Read the metadata of an audio file on disk without loading it, from its start and its end
+ * @param filePath Path of the file
+ * @param rangeBytes Bytes to read from the start, past any ID3v2 tag, and from the end
+ * @returns Audio metadata
+ * @throws AudioMetadataError if the format is not supported or the file is truncated or corrupt
+ */
+export const readAudioMetadataFromFile = async (
+  filePath: string,
+  rangeBytes: number = FILE_RANGE_BYTES
+): Promise<AudioMetadata> => {
+  const file = await fs.promises.open(filePath, 'r');
+  try {
+    const { size } = await file.stat();
+    const read = async (position: number, length: number): Promise<Buffer> => {
+      const buffer = Buffer.alloc(Math.max(0, Math.min(length, size - position)));
+      const { bytesRead } = await file.read(buffer, 0, buffer.length, position);
+      return buffer.subarray(0, bytesRead);
+    };
+
+    let head = await read(0, rangeBytes);
+    const id3End = skipId3v2(head);
+    if (id3End > 0) {
+      head = await read(0, id3End + rangeBytes);
+    }
+    if (head.length >= size) {
+      return readAudioMetadata(head);
+    }
+    return readAudioBytes({ head, tail: await read(Math.max(0, size - rangeBytes), rangeBytes), size });
+  } finally {
+    await file.close();
+  }
+};
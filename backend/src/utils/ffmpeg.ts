@@ -0,0 +1,74 @@
+import { spawn } from 'child_process';
+
+/**
+ * Options of an ffmpeg run
+ */
+export interface FfmpegRunOptions {
+  /**
+   * Path or name on the PATH of the ffmpeg command line tool
+   */
+  ffmpegPath: string;
+  /**
+   * Longest the run may take before ffmpeg is stopped; 0 disables the limit
+   */
+  timeoutMs: number;
+  /**
+   * Receives what ffmpeg writes to stdout, for runs whose output is piped rather than written to a file
+   */
+  onData?: (chunk: Buffer) => void;
+}
+
+/**
+ * Number of stderr characters kept to explain a failed run
+ */
+const STDERR_TAIL_LENGTH = 2000;
+
+/**
+ * Run ffmpeg
+ * @param args Command line arguments
+ * @param options Run options
+ * @param createError Builds the error the run is rejected with from the reason it failed
+ * @throws The error built by createError if ffmpeg cannot start, fails or runs too long
+ */
+export const runFfmpeg = (
+  args: string[],
+  options: FfmpegRunOptions,
+  createError: (message: string) => Error
+): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const { onData } = options;
+    const child = spawn(options.ffmpegPath, args, { stdio: ['ignore', onData ? 'pipe' : 'ignore', 'pipe'] });
+    let stderr = '';
+    let timedOut = false;
+
+    const timer =
+      options.timeoutMs > 0
+        ? setTimeout(() => {
+            timedOut = true;
+            child.kill('SIGTERM');
+          }, options.timeoutMs)
+        : undefined;
+
+    if (onData) {
+      child.stdout?.on('data', onData);
+    }
+    child.stderr?.setEncoding('utf8');
+    child.stderr?.on('data', (chunk: string) => {
+      stderr = (stderr + chunk).slice(-STDERR_TAIL_LENGTH);
+    });
+
+    child.on('error', (error) => {
+      clearTimeout(timer);
+      reject(createError(`Could not start ffmpeg: ${error.message}`));
+    });
+    child.on('close', (code) => {
+      clearTimeout(timer);
+      if (timedOut) {
+        reject(createError(`ffmpeg did not finish within ${options.timeoutMs} ms`));
+      } else if (code !== 0) {
+        reject(createError(`ffmpeg exited with code ${code}: ${stderr.trim()}`));
+      } else {
+        resolve();
+      }
+    });
+  });
@@ -0,0 +1,49 @@
+/**
+ * Node identified by its label and ID property
+ */
+export interface NodeKey {
+  label: string;
+  key: string;
+  value: string;
+}
+
+/**
+ * ID properties of labels whose ID is not named after the label
+ */
+const NODE_KEY_OVERRIDES: Record<string, string[]> = {
+  RPGWorld: ['world_id', 'rpg_world_id'],
+  AudioRecording: ['recording_id'],
+  SessionAnalysis: ['analysis_id'],
+  TranscriptionSegment: ['segment_id']
+};
+
+/**
+ * Labels, relationship types and property names are interpolated into queries, so they must be plain identifiers
+ */
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Check that a label, relationship type or property name can be safely interpolated into a query
+ * @param identifier Identifier
+ * @returns True if the identifier is safe
+ */
+export const isSafeIdentifier = (identifier: string): boolean => IDENTIFIER.test(identifier);
+
+/**
+ * Find the label and ID property that identify a node. The ID property is named after the label
+ * (Character -> character_id, CharacterPower -> character_power_id) unless overridden.
+ * @param labels Node labels
+ * @param properties Node properties
+ * @returns Node key, or null if the node has no recognisable ID
+ */
+export const identifyNode = (labels: string[], properties: Record<string, any>): NodeKey | null => {
+  for (const label of labels) {
+    const snakeCase = label.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase();
+    const candidates = [...(NODE_KEY_OVERRIDES[label] || []), `${snakeCase}_id`, 'id'];
+    const key = candidates.find((candidate) => properties[candidate] !== undefined && properties[candidate] !== null);
+    if (key) {
+      return { label, key, value: properties[key] };
+    }
+  }
+  return null;
+};
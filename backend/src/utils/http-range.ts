@@ -0,0 +1,39 @@
+/**
+ * Byte range of a file, inclusive at both ends
+ */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Parse the Range header of a request for a single byte range.
+ *
+ * Headers asking for several ranges or using another unit are ignored, which lets the caller send the whole file
+ * as allowed by RFC 9110.
+ * @param header Range header value
+ * @param size File size in bytes
+ * @returns Requested range, 'unsatisfiable' if it lies outside the file, or null if the header should be ignored
+ */
+export const parseByteRange = (header: string | undefined, size: number): ByteRange | 'unsatisfiable' | null => {
+  const match = header?.trim().match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (match[1] === '' && match[2] === '')) {
+    return null;
+  }
+
+  if (match[1] === '') {
+    // Suffix range: the last n bytes
+    const length = Number(match[2]);
+    if (length === 0 || size === 0) {
+      return 'unsatisfiable';
+    }
+    return { start: Math.max(0, size - length), end: size - 1 };
+  }
+
+  const start = Number(match[1]);
+  const end = match[2] === '' ? size - 1 : Math.min(Number(match[2]), size - 1);
+  if (start >= size || start > end) {
+    return 'unsatisfiable';
+  }
+  return { start, end };
+};
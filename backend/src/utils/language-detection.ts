@@ -0,0 +1,138 @@
+/**
+ * Languages of transcript segments, for tables that switch languages mid-session: detecting the language of each
+ * segment and reading segments in the original or translated text
+ */
+import { TranscriptionSegment, TranscriptTextVersion } from '../models/transcription.model';
+
+/**
+ * Words and letters that give a language away
+ */
+interface LanguageProfile {
+  /**
+   * Common words, leaving out those that are also common in another profiled language
+   */
+  words: Set<string>;
+  /**
+   * Letters used by the language and none of the other profiled languages
+   */
+  letters?: RegExp;
+}
+
+/**
+ * Profiled languages by ISO 639-1 code
+ */
+const LANGUAGE_PROFILES: Record<string, LanguageProfile> = {
+  en: {
+    words: new Set([
+      'the', 'and', 'is', 'are', 'you', 'it', 'that', 'of', 'what', 'this', 'with', 'for', 'have', 'he',
+      'she', 'they', 'we', 'my', 'your', 'can', 'do', 'don', 'not', 'just', 'yeah', 'okay', 'roll', 'attack',
+      'damage', 'there', 'here', 'go', 'get', 'i', 'me', 'be', 'at', 'on', 'in', 'to', 'so', 'if', 'or', 'but'
+    ])
+  },
+  pl: {
+    words: new Set([
+      'się', 'nie', 'jest', 'że', 'na', 'w', 'z', 'jak', 'co', 'ale', 'tak', 'czy', 'już', 'tylko', 'jego',
+      'jej', 'ten', 'ta', 'mam', 'ma', 'będzie', 'są', 'może', 'tam', 'teraz', 'dobra', 'dobrze', 'ty',
+      'mi', 'mnie', 'jestem', 'coś', 'też', 'bo', 'więc', 'był', 'była', 'rzucam', 'kostką', 'atakuję', 'obrażenia'
+    ]),
+    letters: /[ąćęłńśźż]/u
+  },
+  de: {
+    words: new Set([
+      'der', 'die', 'das', 'und', 'ist', 'ich', 'nicht', 'ein', 'eine', 'mit', 'auf', 'zu', 'den', 'wir', 'sie',
+      'aber', 'auch', 'noch', 'dann', 'jetzt', 'hier', 'würfel', 'schaden'
+    ]),
+    letters: /[äöüß]/u
+  },
+  fr: {
+    words: new Set([
+      'le', 'la', 'les', 'et', 'est', 'je', 'il', 'elle', 'nous', 'vous', 'pas', 'qui', 'un', 'une', 'des', 'dans',
+      'pour', 'avec', 'mais', 'oui', 'ça', 'c', 'j', 'dé', 'dégâts'
+    ]),
+    letters: /[àâçèêëîïôûùœ]/u
+  },
+  es: {
+    words: new Set([
+      'el', 'los', 'las', 'y', 'yo', 'tú', 'él', 'ella', 'en', 'por', 'para', 'con', 'pero', 'sí', 'muy', 'está',
+      'lo', 'al', 'del', 'dado', 'daño'
+    ]),
+    letters: /[ñ¿¡áíú]/u
+  }
+};
+
+/**
+ * English names of the profiled languages and other common languages, by ISO 639-1 code
+ */
+export const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English',
+  pl: 'Polish',
+  de: 'German',
+  fr: 'French',
+  es: 'Spanish',
+  it: 'Italian',
+  pt: 'Portuguese',
+  nl: 'Dutch',
+  cs: 'Czech',
+  uk: 'Ukrainian',
+  ru: 'Russian'
+};
+
+/**
+ * Word of text
+ */
+const WORD = /\p{L}+/gu;
+
+/**
+ * Detect the language of a short text by its common words and letters
+ * @param text Text
+ * @returns ISO 639-1 code, or undefined when the text gives no language away or two languages fit it equally
+ */
+export const detectLanguage = (text: string): string | undefined => {
+  const words = text.toLowerCase().match(WORD) || [];
+
+  const scores = Object.entries(LANGUAGE_PROFILES)
+    .map(([code, profile]) => ({
+      code,
+      // Letters of no other language weigh more than common words, which may be borrowed
+      score: words.reduce(
+        (score, word) => score + (profile.words.has(word) ? 1 : 0) + (profile.letters?.test(word) ? 2 : 0),
+        0
+      )
+    }))
+    .sort((a, b) => b.score - a.score);
+
+  return scores[0].score > 0 && scores[0].score > scores[1].score ? scores[0].code : undefined;
+};
+
+/**
+ * Give each segment the language it is spoken in. Segments that give no language away are taken to be in the
+ * language of the segment before them, or the language of the transcript for the first.
+ * @param segments Segments in time order
+ * @param languageCode Language of the transcript, as an ISO 639-1 code or a locale such as en-US
+ * @returns Segments with their language code
+ */
+export const detectSegmentLanguages = (
+  segments: TranscriptionSegment[],
+  languageCode?: string
+): TranscriptionSegment[] => {
+  let previous = languageCode ? languageCode.split('-')[0].toLowerCase() : undefined;
+  return segments.map((segment) => {
+    const language = detectLanguage(segment.text) || previous;
+    previous = language;
+    return language ? { ...segment, language_code: language } : segment;
+  });
+};
+
+/**
+ * Segments with the text of the given version
+ * @param segments Segments
+ * @param version Text version
+ * @returns Segments whose text is the chosen version
+ */
+export const withTextVersion = (
+  segments: TranscriptionSegment[],
+  version: TranscriptTextVersion = TranscriptTextVersion.ORIGINAL
+): TranscriptionSegment[] =>
+  version === TranscriptTextVersion.TRANSLATION
+    ? segments.map((segment) => (segment.translated_text ? { ...segment, text: segment.translated_text } : segment))
+    : segments;
@@ -0,0 +1,199 @@
+/**
+ * Fuzzy phonetic matching of glossary terms in transcribed text
+ */
+
+/**
+ * Term to look for, with every spelling it may be heard as
+ */
+export interface PhoneticTerm {
+  term: string;
+  /**
+   * The term itself and the ways it is known to be misheard
+   */
+  forms: string[];
+}
+
+/**
+ * Span of text that sounds like a term
+ */
+export interface PhoneticMatch {
+  /**
+   * Character offsets of the span in the text
+   */
+  start: number;
+  end: number;
+  original: string;
+  term: string;
+  similarity: number;
+}
+
+/**
+ * Lowest similarity at which text is taken for a term
+ */
+const MIN_SIMILARITY = 0.8;
+
+/**
+ * Lowest similarity at which a single lowercase word is taken for a term; transcription capitalizes the names it
+ * mishears, so lowercase words are more likely to be ordinary words
+ */
+const MIN_LOWERCASE_WORD_SIMILARITY = 0.9;
+
+/**
+ * Forms with fewer letters are too short to match fuzzily
+ */
+const MIN_FORM_LETTERS = 4;
+
+/**
+ * Spans are made of up to this many more words than the form they are compared with
+ */
+const EXTRA_WINDOW_WORDS = 2;
+
+/**
+ * Spans are compared with forms whose number of letters is within this ratio of their own
+ */
+const MAX_LENGTH_RATIO = 1.4;
+
+/**
+ * Spellings that sound the same, applied in order to lowercase letters
+ */
+const PHONETIC_RULES: [RegExp, string][] = [
+  [/^[kgp]n/, 'n'],
+  [/^wr/, 'r'],
+  [/^x/, 's'],
+  [/ph/g, 'f'],
+  [/ck/g, 'k'],
+  [/sch/g, 'sk'],
+  [/[cs]h/g, 'S'],
+  [/th/g, 'T'],
+  [/dg/g, 'j'],
+  [/gh/g, 'g'],
+  [/qu/g, 'kw'],
+  [/q/g, 'k'],
+  [/x/g, 'ks'],
+  [/c(?=[eiy])/g, 's'],
+  [/c/g, 'k'],
+  [/z/g, 's'],
+  [/(?!^)h/g, '']
+];
+
+/**
+ * Word of text, with inner apostrophes and hyphens
+ */
+const WORD = /[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu;
+
+/**
+ * Possessive ending of a word, left out of the spans so that it is kept
+ */
+const POSSESSIVE = /['’]s$/i;
+
+/**
+ * Lowercase letters and digits of text, leaving out spaces and punctuation
+ * @param text Text
+ */
+const lettersOf = (text: string): string => text.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+/**
+ * Phonetic key of text: consonant sounds with a single placeholder for a leading vowel, so that "Xanathar" and
+ * "Zan a thar" share the key "snTr"
+ * @param text Text
+ * @returns Phonetic key
+ */
+export const phoneticKey = (text: string): string => {
+  const spelled = PHONETIC_RULES.reduce((key, [pattern, sound]) => key.replace(pattern, sound), lettersOf(text));
+  const key = /^[aeiouy]/.test(spelled) ? `a${spelled.slice(1).replace(/[aeiouy]/g, '')}` : spelled.replace(/[aeiouy]/g, '');
+  return key.replace(/(.)\1+/g, '$1');
+};
+
+/**
+ * Levenshtein distance between two strings
+ * @param a First string
+ * @param b Second string
+ */
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * Similarity from 0 to 1 of two strings by edit distance
+ */
+const stringSimilarity = (a: string, b: string): number => {
+  const length = Math.max(a.length, b.length);
+  return length === 0 ? 1 : 1 - editDistance(a, b) / length;
+};
+
+/**
+ * Similarity from 0 to 1 of how two texts are spelled and how they sound, ignoring case, spaces and punctuation
+ * @param a First text
+ * @param b Second text
+ * @returns Average of the spelling and phonetic key similarities
+ */
+export const phoneticSimilarity = (a: string, b: string): number =>
+  (stringSimilarity(lettersOf(a), lettersOf(b)) + stringSimilarity(phoneticKey(a), phoneticKey(b))) / 2;
+
+/**
+ * Find the spans of a text that sound like terms. Spans of consecutive words are compared with every form of every
+ * term, and the most similar spans are kept without overlapping.
+ * @param text Text to search
+ * @param terms Terms to look for
+ * @returns Matches ordered by position
+ */
+export const findPhoneticMatches = (text: string, terms: PhoneticTerm[]): PhoneticMatch[] => {
+  const words = [...text.matchAll(WORD)].map((match) => ({
+    start: match.index as number,
+    end: (match.index as number) + match[0].replace(POSSESSIVE, '').length
+  }));
+  const forms = terms.flatMap(({ term, forms }) =>
+    forms
+      .filter((form) => lettersOf(form).length >= MIN_FORM_LETTERS)
+      .map((form) => ({ term, letters: lettersOf(form), key: phoneticKey(form), words: form.split(/\s+/).length }))
+  );
+  if (forms.length === 0) {
+    return [];
+  }
+  const maxWords = Math.max(...forms.map((form) => form.words)) + EXTRA_WINDOW_WORDS;
+
+  const candidates: PhoneticMatch[] = [];
+  for (let first = 0; first < words.length; first++) {
+    for (let last = first; last < Math.min(words.length, first + maxWords); last++) {
+      const original = text.slice(words[first].start, words[last].end);
+      const letters = lettersOf(original);
+      const key = phoneticKey(original);
+      const minSimilarity =
+        first === last && original === original.toLowerCase() ? MIN_LOWERCASE_WORD_SIMILARITY : MIN_SIMILARITY;
+
+      let best: PhoneticMatch | null = null;
+      for (const form of forms) {
+        const ratio = letters.length / form.letters.length;
+        if (ratio > MAX_LENGTH_RATIO || ratio < 1 / MAX_LENGTH_RATIO || key[0] !== form.key[0]) {
+          continue;
+        }
+        const similarity = (stringSimilarity(letters, form.letters) + stringSimilarity(key, form.key)) / 2;
+        if (similarity >= minSimilarity && (!best || similarity > best.similarity)) {
+          best = { start: words[first].start, end: words[last].end, original, term: form.term, similarity };
+        }
+      }
+      if (best) {
+        candidates.push(best);
+      }
+    }
+  }
+
+  // Keep the most similar spans, preferring shorter spans between equally similar ones. Spans already spelled as
+  // their term hold their place so that they are not matched again as part of a longer span
+  candidates.sort((a, b) => b.similarity - a.similarity || a.end - a.start - (b.end - b.start));
+  const matches: PhoneticMatch[] = [];
+  for (const candidate of candidates) {
+    if (matches.every((match) => candidate.end <= match.start || candidate.start >= match.end)) {
+      matches.push(candidate);
+    }
+  }
+  return matches.filter((match) => match.original !== match.term).sort((a, b) => a.start - b.start);
+};
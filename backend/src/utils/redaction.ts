@@ -0,0 +1,328 @@
+import { AudioRange, PiiPattern, REDACTED_TEXT } from '../models/redaction.model';
+import { TranscriptionSegment, TranscriptionWord } from '../models/transcription.model';
+
+/**
+ * Characters of a text to redact, from start up to end
+ */
+export interface TextRange {
+  start: number;
+  end: number;
+  /**
+   * Also silence the audio of the redacted words
+   */
+  silence_audio?: boolean;
+}
+
+/**
+ * Finds the characters of a text to redact
+ */
+export type TextMatcher = (text: string) => TextRange[];
+
+/**
+ * Redaction rules of a campaign, ready to be applied
+ */
+export interface CompiledRedactionRules {
+  /**
+   * Excluded speakers, with whether to silence their audio
+   */
+  speakers: Map<string, boolean>;
+  matchers: { match: TextMatcher; silence_audio: boolean }[];
+}
+
+/**
+ * Segments after redaction, with counts of what changed
+ */
+export interface SegmentsRedaction {
+  segments: TranscriptionSegment[];
+  segments_removed: number;
+  segments_redacted: number;
+  words_redacted: number;
+  /**
+   * Audio of redacted material whose rules ask for silence
+   */
+  silenced_ranges: AudioRange[];
+}
+
+/**
+ * Segment after redaction
+ */
+interface SegmentRedaction {
+  segment: TranscriptionSegment;
+  words_redacted: number;
+  silenced_ranges: AudioRange[];
+}
+
+const EMAIL = /[a-z0-9._%+-]+@[a-z0-9-]+(?:\.[a-z0-9-]+)*\.[a-z]{2,}/gi;
+
+/**
+ * Runs of digits with the separators people write phone numbers with
+ */
+const PHONE_CANDIDATE = /(?<![\w+])\+?\(?\d[\d\s().-]{5,}\d(?!\w)/g;
+
+/**
+ * Fewest digits of a phone number; fewer could be a date, a year range or an amount of gold
+ */
+const MIN_PHONE_DIGITS = 9;
+
+/**
+ * Fewest digits of an international phone number written with a leading +
+ */
+const MIN_INTERNATIONAL_PHONE_DIGITS = 7;
+
+const CARD_CANDIDATE = /(?<!\d)(?:\d[ -]?){12,18}\d(?!\d)/g;
+
+/**
+ * Whether a card number passes the Luhn checksum
+ * @param digits Digits of the number
+ */
+const passesLuhn = (digits: string): boolean => {
+  let sum = 0;
+  for (let index = 0; index < digits.length; index++) {
+    let digit = Number(digits[digits.length - 1 - index]);
+    if (index % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+/**
+ * Match a regular expression, skipping empty matches
+ * @param pattern Regular expression with the global flag
+ * @param text Text
+ * @param accept Keeps only the matches it accepts
+ */
+const matchAll = (pattern: RegExp, text: string, accept: (match: string) => boolean = () => true): TextRange[] =>
+  Array.from(text.matchAll(pattern))
+    .filter((match) => match[0].length > 0 && accept(match[0]))
+    .map((match) => ({ start: match.index as number, end: (match.index as number) + match[0].length }));
+
+/**
+ * Matchers of the built-in patterns of personal information
+ */
+const PII_MATCHERS: Record<PiiPattern, TextMatcher> = {
+  [PiiPattern.EMAIL]: (text) => matchAll(EMAIL, text),
+  [PiiPattern.PHONE]: (text) =>
+    matchAll(PHONE_CANDIDATE, text, (match) => {
+      const digits = match.replace(/\D/g, '').length;
+      return digits >= MIN_PHONE_DIGITS || (match.startsWith('+') && digits >= MIN_INTERNATIONAL_PHONE_DIGITS);
+    }),
+  [PiiPattern.CREDIT_CARD]: (text) => matchAll(CARD_CANDIDATE, text, (match) => passesLuhn(match.replace(/\D/g, '')))
+};
+
+/**
+ * Matcher of a built-in pattern of personal information
+ * @param pattern Built-in pattern
+ */
+export const piiMatcher = (pattern: PiiPattern): TextMatcher => PII_MATCHERS[pattern];
+
+/**
+ * Matcher of a regular expression, matched without regard to case
+ * @param pattern Regular expression source
+ * @throws SyntaxError if the pattern is not a valid regular expression
+ */
+export const regexMatcher = (pattern: string): TextMatcher => {
+  const regex = new RegExp(pattern, 'gi');
+  return (text) => matchAll(regex, text);
+};
+
+/**
+ * Matcher of the exact text that was redacted elsewhere, such as a span redacted by hand
+ * @param redacted Redacted text
+ */
+export const literalMatcher = (redacted: string): TextMatcher =>
+  regexMatcher(redacted.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+'));
+
+/**
+ * Word without case and punctuation
+ */
+const normalize = (word: string): string => word.toLowerCase().replace(/[^\p{L}\p{N}@]/gu, '');
+
+/**
+ * Redact characters of a segment. Ranges are widened to whole words, and every run of redacted words becomes a single
+ * redacted word timed over the run, so that the text and the words of the segment keep matching.
+ * @param segment Segment
+ * @param ranges Characters to redact
+ * @returns Redacted segment, or null if no word was redacted
+ */
+export const redactSegment = (segment: TranscriptionSegment, ranges: TextRange[]): SegmentRedaction | null => {
+  const tokens = Array.from(segment.text.matchAll(/\S+/g)).map((match) => ({
+    text: match[0],
+    start: match.index as number,
+    end: (match.index as number) + match[0].length
+  }));
+
+  // Widen every range to the words it touches and merge the ranges that share words
+  let groups: { first: number; last: number; silence_audio: boolean }[] = [];
+  for (const range of [...ranges].sort((a, b) => a.start - b.start)) {
+    const first = tokens.findIndex((token) => token.end > range.start && token.start < range.end);
+    if (first < 0) continue;
+    let last = first;
+    while (last + 1 < tokens.length && tokens[last + 1].start < range.end) last++;
+
+    const previous = groups[groups.length - 1];
+    if (previous && first <= previous.last) {
+      previous.last = Math.max(previous.last, last);
+      previous.silence_audio = previous.silence_audio || !!range.silence_audio;
+    } else {
+      groups.push({ first, last, silence_audio: !!range.silence_audio });
+    }
+  }
+  // Words redacted before are left as they are, so that applying rules again changes nothing
+  groups = groups.filter((group) =>
+    tokens.slice(group.first, group.last + 1).some((token) => token.text !== REDACTED_TEXT)
+  );
+  if (groups.length === 0) {
+    return null;
+  }
+
+  let text = segment.text;
+  for (const group of [...groups].reverse()) {
+    text = text.slice(0, tokens[group.first].start) + REDACTED_TEXT + text.slice(tokens[group.last].end);
+  }
+
+  const words = segment.words || [];
+  const silenced: AudioRange[] = [];
+  let redactedWords: TranscriptionWord[];
+  let wordsRedacted = 0;
+  if (words.length === tokens.length) {
+    redactedWords = [];
+    let next = 0;
+    for (const group of groups) {
+      redactedWords.push(...words.slice(next, group.first));
+      const run = words.slice(group.first, group.last + 1);
+      const redacted = {
+        word: REDACTED_TEXT,
+        start_time: run[0].start_time,
+        end_time: run[run.length - 1].end_time,
+        confidence_score: Math.min(...run.map((word) => word.confidence_score))
+      };
+      redactedWords.push(redacted);
+      wordsRedacted += run.length;
+      if (group.silence_audio) {
+        silenced.push({ start_time: redacted.start_time, end_time: redacted.end_time });
+      }
+      next = group.last + 1;
+    }
+    redactedWords.push(...words.slice(next));
+  } else {
+    // Words that do not line up with the text are redacted wherever they appear among the redacted words
+    const redactedTexts = new Set(
+      groups.flatMap((group) =>
+        tokens.slice(group.first, group.last + 1).map((token) => normalize(token.text))
+      )
+    );
+    const silence = groups.some((group) => group.silence_audio);
+    redactedWords = words.map((word) => {
+      if (!redactedTexts.has(normalize(word.word))) return word;
+      wordsRedacted++;
+      if (silence) silenced.push({ start_time: word.start_time, end_time: word.end_time });
+      return { ...word, word: REDACTED_TEXT };
+    });
+    // Without word timing only the whole segment is known to hold the redacted words
+    if (silence && words.length === 0) {
+      silenced.push({ start_time: segment.start_time, end_time: segment.end_time });
+    }
+  }
+
+  return {
+    // A translation may still hold the redacted words; the segment is to be translated again from the redacted text
+    segment: {
+      ...segment,
+      text,
+      words: redactedWords,
+      translated_text: undefined,
+      translation_language_code: undefined
+    },
+    words_redacted: wordsRedacted,
+    silenced_ranges: silenced
+  };
+};
+
+/**
+ * Apply redaction rules to the segments of a transcript: segments of excluded speakers are removed and matching text
+ * is redacted in the text and words of the others
+ * @param segments Segments
+ * @param rules Compiled redaction rules
+ * @returns Redacted segments
+ */
+export const redactSegments = (segments: TranscriptionSegment[], rules: CompiledRedactionRules): SegmentsRedaction => {
+  const result: SegmentsRedaction = {
+    segments: [],
+    segments_removed: 0,
+    segments_redacted: 0,
+    words_redacted: 0,
+    silenced_ranges: []
+  };
+
+  for (const segment of segments) {
+    const excluded = segment.speaker_id !== undefined ? rules.speakers.get(segment.speaker_id) : undefined;
+    if (excluded !== undefined) {
+      result.segments_removed++;
+      if (excluded) {
+        result.silenced_ranges.push({ start_time: segment.start_time, end_time: segment.end_time });
+      }
+      continue;
+    }
+
+    const ranges = rules.matchers.flatMap(({ match, silence_audio }) =>
+      match(segment.text).map((range) => ({ ...range, silence_audio }))
+    );
+    const redaction = ranges.length > 0 ? redactSegment(segment, ranges) : null;
+    if (!redaction) {
+      result.segments.push(segment);
+      continue;
+    }
+    result.segments.push(redaction.segment);
+    result.segments_redacted++;
+    result.words_redacted += redaction.words_redacted;
+    result.silenced_ranges.push(...redaction.silenced_ranges);
+  }
+
+  result.silenced_ranges = mergeAudioRanges(result.silenced_ranges);
+  return result;
+};
+
+/**
+ * Redact matching text of a free text, such as a prompt
+ * @param text Text
+ * @param matchers Text matchers
+ * @returns Redacted text
+ */
+export const redactFreeText = (text: string, matchers: TextMatcher[]): string => {
+  const ranges = matchers
+    .flatMap((match) => match(text))
+    .sort((a, b) => a.start - b.start)
+    .reduce<TextRange[]>((merged, range) => {
+      const previous = merged[merged.length - 1];
+      if (previous && range.start <= previous.end) {
+        previous.end = Math.max(previous.end, range.end);
+      } else {
+        merged.push({ ...range });
+      }
+      return merged;
+    }, []);
+
+  return ranges.reduceRight((redacted, range) => redacted.slice(0, range.start) + REDACTED_TEXT + redacted.slice(range.end), text);
+};
+
+/**
+ * Sort audio ranges and merge those that overlap or touch
+ * @param ranges Audio ranges
+ * @returns Merged ranges
+ */
+export const mergeAudioRanges = (ranges: AudioRange[]): AudioRange[] =>
+  [...ranges]
+    .filter((range) => range.end_time > range.start_time)
+    .sort((a, b) => a.start_time - b.start_time)
+    .reduce<AudioRange[]>((merged, range) => {
+      const previous = merged[merged.length - 1];
+      if (previous && range.start_time <= previous.end_time) {
+        previous.end_time = Math.max(previous.end_time, range.end_time);
+      } else {
+        merged.push({ ...range });
+      }
+      return merged;
+    }, []);
@@ -0,0 +1,18 @@
+import { SegmentCategory, TranscriptionSegment } from '../models/transcription.model';
+
+/**
+ * Keep the segments of some categories, such as to leave table talk out of an analysis. Segments that were never
+ * classified are kept, as nothing is known about them.
+ * @param segments Segments
+ * @param categories Categories to keep; every segment is kept when omitted or empty
+ * @returns Kept segments
+ */
+export const filterSegmentsByCategory = (
+  segments: TranscriptionSegment[],
+  categories?: SegmentCategory[]
+): TranscriptionSegment[] => {
+  if (!categories || categories.length === 0) {
+    return segments;
+  }
+  return segments.filter((segment) => !segment.category || categories.includes(segment.category));
+};
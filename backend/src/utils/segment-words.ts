@@ -0,0 +1,113 @@
+import { TranscriptionWord } from '../models/transcription.model';
+
+/**
+ * Confidence of words typed by a person rather than transcribed
+ */
+const EDITED_WORD_CONFIDENCE = 1;
+
+/**
+ * Round seconds to milliseconds
+ */
+const roundTime = (seconds: number): number => Math.round(seconds * 1000) / 1000;
+
+/**
+ * Words of a text, split on whitespace
+ * @param text Text
+ */
+export const tokenize = (text: string): string[] => text.split(/\s+/).filter(Boolean);
+
+/**
+ * Word without case and punctuation, for comparing an edited text with the transcribed words
+ */
+const normalize = (word: string): string => word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+/**
+ * Time the words of a segment whose text has been edited. Words left unchanged, ignoring case and punctuation, keep
+ * their timing and confidence; new words share the time between the kept words around them.
+ * @param words Words of the segment before the edit
+ * @param text Edited text
+ * @param startTime Start of the segment in seconds
+ * @param endTime End of the segment in seconds
+ * @returns Words of the edited text, or none if the segment had no word timing
+ */
+export const alignWords = (
+  words: TranscriptionWord[],
+  text: string,
+  startTime: number,
+  endTime: number
+): TranscriptionWord[] => {
+  const tokens = tokenize(text);
+  if (words.length === 0 || tokens.length === 0) {
+    return [];
+  }
+
+  // lengths[i][j] is the length of the longest common subsequence of words[i..] and tokens[j..]
+  const oldWords = words.map((word) => normalize(word.word));
+  const newWords = tokens.map(normalize);
+  const lengths: number[][] = Array.from({ length: oldWords.length + 1 }, () =>
+    new Array<number>(newWords.length + 1).fill(0)
+  );
+  for (let i = oldWords.length - 1; i >= 0; i--) {
+    for (let j = newWords.length - 1; j >= 0; j--) {
+      lengths[i][j] = oldWords[i] === newWords[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const aligned: (TranscriptionWord | null)[] = new Array(tokens.length).fill(null);
+  for (let i = 0, j = 0; i < oldWords.length && j < newWords.length;) {
+    if (oldWords[i] === newWords[j]) {
+      aligned[j] = { ...words[i], word: tokens[j] };
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  // Spread every run of new words over the time between the kept words around it
+  for (let first = 0; first < tokens.length; first++) {
+    if (aligned[first]) {
+      continue;
+    }
+    let last = first;
+    while (last + 1 < tokens.length && !aligned[last + 1]) {
+      last++;
+    }
+    const from = first > 0 ? (aligned[first - 1] as TranscriptionWord).end_time : startTime;
+    const to = Math.max(from, last + 1 < tokens.length ? (aligned[last + 1] as TranscriptionWord).start_time : endTime);
+    const step = (to - from) / (last - first + 1);
+    for (let index = first; index <= last; index++) {
+      aligned[index] = {
+        word: tokens[index],
+        start_time: roundTime(from + step * (index - first)),
+        end_time: roundTime(from + step * (index - first + 1)),
+        confidence_score: EDITED_WORD_CONFIDENCE
+      };
+    }
+    first = last;
+  }
+
+  return aligned as TranscriptionWord[];
+};
+
+/**
+ * Move and stretch word timings from one time span to another, keeping their relative timing
+ * @param words Words
+ * @param from Span the words were timed in
+ * @param to Span to time them in
+ * @returns Retimed words
+ */
+export const rescaleWords = (
+  words: TranscriptionWord[],
+  from: { start_time: number; end_time: number },
+  to: { start_time: number; end_time: number }
+): TranscriptionWord[] => {
+  const fromDuration = from.end_time - from.start_time;
+  const scale = fromDuration > 0 ? (to.end_time - to.start_time) / fromDuration : 1;
+  const retime = (seconds: number) => roundTime(to.start_time + (seconds - from.start_time) * scale);
+  return words.map((word) => ({ ...word, start_time: retime(word.start_time), end_time: retime(word.end_time) }));
+};
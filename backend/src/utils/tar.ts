@@ -0,0 +1,218 @@
+/**
+ * Minimal streaming reader and writer for ustar archives holding regular files
+ */
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { promisify } from 'util';
+
+const stat = promisify(fs.stat);
+const mkdir = promisify(fs.mkdir);
+
+const BLOCK_SIZE = 512;
+
+/**
+ * File to store in a tar archive, given by its contents or by the path of a file on disk
+ */
+export type TarEntry = { name: string; data: Buffer } | { name: string; filePath: string };
+
+/**
+ * Write a null-terminated octal number into a header field
+ * @param header Header block
+ * @param value Number to write
+ * @param offset Field offset
+ * @param length Field length
+ */
+const writeOctal = (header: Buffer, value: number, offset: number, length: number): void => {
+  header.write(value.toString(8).padStart(length - 1, '0'), offset, length - 1, 'ascii');
+  header[offset + length - 1] = 0;
+};
+
+/**
+ * Read a string field, stopping at the first null byte
+ * @param header Header block
+ * @param offset Field offset
+ * @param length Field length
+ * @returns Field value
+ */
+const readString = (header: Buffer, offset: number, length: number): string => {
+  const field = header.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.toString('utf8', 0, end === -1 ? length : end);
+};
+
+/**
+ * Build the header block of a file entry
+ * @param name File name, at most 255 bytes
+ * @param size File size in bytes
+ * @returns Header block
+ */
+const createHeader = (name: string, size: number): Buffer => {
+  const header = Buffer.alloc(BLOCK_SIZE);
+  let prefix = '';
+  let base = name;
+  if (Buffer.byteLength(name) > 100) {
+    const split = name.lastIndexOf('/', 155);
+    if (split <= 0 || Buffer.byteLength(name.slice(split + 1)) > 100) {
+      throw new Error(`File name too long for tar archive: ${name}`);
+    }
+    prefix = name.slice(0, split);
+    base = name.slice(split + 1);
+  }
+
+  header.write(base, 0, 100, 'utf8');
+  writeOctal(header, 0o644, 100, 8);
+  writeOctal(header, 0, 108, 8);
+  writeOctal(header, 0, 116, 8);
+  writeOctal(header, size, 124, 12);
+  writeOctal(header, Math.floor(Date.now() / 1000), 136, 12);
+  header.write('0', 156, 1, 'ascii');
+  header.write('ustar\u000000', 257, 8, 'ascii');
+  header.write(prefix, 345, 155, 'utf8');
+
+  // The checksum is computed with its own field filled with spaces
+  header.fill(' ', 148, 156);
+  const checksum = header.reduce((sum, byte) => sum + byte, 0);
+  writeOctal(header, checksum, 148, 7);
+  header[155] = 0x20;
+
+  return header;
+};
+
+/**
+ * Number of zero bytes that pad an entry to a whole number of blocks
+ * @param size Entry size in bytes
+ * @returns Padding size in bytes
+ */
+const paddingSize = (size: number): number => (BLOCK_SIZE - (size % BLOCK_SIZE)) % BLOCK_SIZE;
+
+/**
+ * Blocks of an archive, reading files from disk one chunk at a time
+ * @param entries Files to store
+ */
+async function* tarBlocks(entries: TarEntry[]): AsyncGenerator<Buffer> {
+  for (const entry of entries) {
+    if ('data' in entry) {
+      yield createHeader(entry.name, entry.data.length);
+      yield entry.data;
+      yield Buffer.alloc(paddingSize(entry.data.length));
+      continue;
+    }
+
+    const { size } = await stat(entry.filePath);
+    yield createHeader(entry.name, size);
+    let written = 0;
+    for await (const chunk of fs.createReadStream(entry.filePath)) {
+      written += chunk.length;
+      yield chunk as Buffer;
+    }
+    if (written !== size) {
+      throw new Error(`File changed while it was archived: ${entry.filePath}`);
+    }
+    yield Buffer.alloc(paddingSize(size));
+  }
+  // Two empty blocks mark the end of the archive
+  yield Buffer.alloc(BLOCK_SIZE * 2);
+}
+
+/**
+ * Create a tar archive
+ * @param entries Files to store
+ * @returns Stream of the archive contents
+ */
+export const createTar = (entries: TarEntry[]): Readable => Readable.from(tarBlocks(entries), { objectMode: false });
+
+/**
+ * Extract the regular files of a tar archive into a directory. Entries whose names lead out of the directory are
+ * rejected.
+ * @param archive Stream of the archive contents
+ * @param directory Directory to extract into
+ * @returns Names of the extracted files
+ */
+export const extractTar = async (archive: AsyncIterable<Buffer>, directory: string): Promise<string[]> => {
+  const root = path.resolve(directory);
+  const names: string[] = [];
+  let pending = Buffer.alloc(0);
+  let file: fs.promises.FileHandle | null = null;
+  // Bytes left of the file being extracted, and bytes to pass over after it
+  let remaining = 0;
+  let skip = 0;
+  let ended = false;
+
+  const closeFile = async (): Promise<void> => {
+    const open = file;
+    file = null;
+    await open?.close();
+  };
+
+  try {
+    for await (const chunk of archive) {
+      pending = pending.length > 0 ? Buffer.concat([pending, chunk]) : chunk;
+
+      while (!ended) {
+        if (remaining > 0) {
+          if (pending.length === 0) break;
+          const data = pending.subarray(0, remaining);
+          pending = pending.subarray(data.length);
+          remaining -= data.length;
+          await file?.write(data);
+          if (remaining === 0) {
+            await closeFile();
+          }
+          continue;
+        }
+
+        if (skip > 0) {
+          const skipped = Math.min(skip, pending.length);
+          pending = pending.subarray(skipped);
+          skip -= skipped;
+          if (skip > 0) break;
+          continue;
+        }
+
+        if (pending.length < BLOCK_SIZE) break;
+        const header = pending.subarray(0, BLOCK_SIZE);
+        pending = pending.subarray(BLOCK_SIZE);
+        if (header.every((byte) => byte === 0)) {
+          ended = true;
+          break;
+        }
+
+        const size = parseInt(readString(header, 124, 12).trim() || '0', 8);
+        if (Number.isNaN(size)) {
+          throw new Error('Corrupt tar archive');
+        }
+        skip = paddingSize(size);
+
+        const type = String.fromCharCode(header[156]);
+        if (type !== '0' && type !== '\u0000') {
+          skip += size;
+          continue;
+        }
+
+        const prefix = readString(header, 345, 155);
+        const name = readString(header, 0, 100);
+        const fullName = prefix ? `${prefix}/${name}` : name;
+        const target = path.resolve(root, fullName);
+        if (!target.startsWith(root + path.sep)) {
+          throw new Error(`Invalid file name in tar archive: ${fullName}`);
+        }
+
+        await mkdir(path.dirname(target), { recursive: true });
+        file = await fs.promises.open(target, 'w');
+        names.push(fullName);
+        remaining = size;
+        if (size === 0) {
+          await closeFile();
+        }
+      }
+    }
+  } finally {
+    await closeFile();
+  }
+
+  if (!ended) {
+    throw new Error('Corrupt tar archive');
+  }
+  return names;
+};
@@ -0,0 +1,479 @@
+import { TranscriptExportFormat, TranscriptFormat, TranscriptionSegment } from '../models/transcription.model';
+
+/**
+ * Timed line of speech read from a transcript file
+ */
+export interface TranscriptCue {
+  /**
+   * Seconds from the start of the session
+   */
+  start_time: number;
+  end_time: number;
+  text: string;
+  speaker?: string;
+}
+
+/**
+ * Line of speech before timing has been filled in
+ */
+interface RawCue {
+  start_time?: number;
+  end_time?: number;
+  text: string;
+  speaker?: string;
+}
+
+/**
+ * Error thrown when a transcript cannot be read
+ */
+export class TranscriptFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TranscriptFormatError';
+  }
+}
+
+/**
+ * Speaking rate used to estimate the length of lines without end times
+ */
+const WORDS_PER_SECOND = 2.5;
+
+/**
+ * Shortest estimated length of a line, in seconds
+ */
+const MIN_CUE_SECONDS = 1;
+
+/**
+ * SRT or WebVTT cue timing line, e.g. 00:01:02,500 --> 00:01:04,000
+ */
+const CUE_TIMING = /^\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s+-->\s+((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+
+/**
+ * "Speaker: text" line with an optional leading [HH:MM:SS] or (MM:SS) timestamp
+ */
+const CHAT_LINE = /^\s*(?:[[(]((?:\d+:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?)[\])]\s*)?([\p{L}\p{N}_][\p{L}\p{N} _.'#-]{0,39}):\s+(.+)$/u;
+
+/**
+ * Header line of a DiscordChatExporter text export, e.g. [1/15/2023 8:03 PM] Alice
+ */
+const DISCORD_HEADER = /^\[([^\]]*\d{4}[^\]]*)\]\s+(.+)$/;
+
+/**
+ * Lines of a DiscordChatExporter text export that are not message text: {Attachments}, {Embed} and {Reactions}
+ * markers, separator rules and the closing message count
+ */
+const DISCORD_NOISE = /^(\{.*\}|=+|Exported \d+ message\(s\))$/;
+
+/**
+ * Parse a timestamp such as 01:02:03.500, 02:03,5 or 62:03
+ * @param value Timestamp
+ * @returns Seconds
+ */
+const parseTimestamp = (value: string): number => {
+  const [clock, fraction = ''] = value.replace(',', '.').split('.');
+  const seconds = clock.split(':').reduce((total, part) => total * 60 + parseInt(part, 10), 0);
+  return seconds + (fraction ? parseInt(fraction.padEnd(3, '0').slice(0, 3), 10) / 1000 : 0);
+};
+
+/**
+ * Estimate how long it takes to say a line
+ * @param text Line
+ * @returns Seconds
+ */
+const estimateDuration = (text: string): number =>
+  Math.max(MIN_CUE_SECONDS, text.split(/\s+/).filter(Boolean).length / WORDS_PER_SECOND);
+
+/**
+ * Split a "Speaker: text" line
+ * @param text Line
+ * @returns Speaker and text, without speaker if the line has no speaker prefix
+ */
+const splitSpeaker = (text: string): { speaker?: string; text: string } => {
+  const match = CHAT_LINE.exec(text);
+  if (!match || match[1]) {
+    return { text };
+  }
+  return { speaker: match[2].trim(), text: match[3].trim() };
+};
+
+/**
+ * Fill in missing times: lines without a start follow the previous line, and lines without an end last until
+ * the next line starts or for as long as it takes to say them, whichever comes first
+ * @param cues Lines in order
+ * @returns Timed lines
+ */
+const assignTiming = (cues: RawCue[]): TranscriptCue[] => {
+  const timed: TranscriptCue[] = [];
+  let previousEnd = 0;
+
+  cues.forEach((cue, index) => {
+    const start = Math.max(cue.start_time ?? previousEnd, timed.length > 0 ? timed[timed.length - 1].start_time : 0);
+    let end = cue.end_time ?? start + estimateDuration(cue.text);
+    if (cue.end_time === undefined) {
+      const nextStart = cues.slice(index + 1).find((next) => next.start_time !== undefined)?.start_time;
+      if (nextStart !== undefined && nextStart > start) {
+        end = Math.min(end, nextStart);
+      }
+    }
+
+    timed.push({
+      start_time: Math.round(start * 1000) / 1000,
+      end_time: Math.round(Math.max(end, start) * 1000) / 1000,
+      text: cue.text,
+      speaker: cue.speaker
+    });
+    previousEnd = Math.max(end, start);
+  });
+
+  return timed;
+};
+
+/**
+ * Parse SRT or WebVTT subtitles
+ * @param content Subtitle file
+ * @param format Subtitle format
+ * @returns Lines
+ */
+const parseSubtitles = (content: string, format: TranscriptFormat): RawCue[] => {
+  const cues: RawCue[] = [];
+
+  for (const block of content.split(/\n\s*\n/)) {
+    const lines = block.split('\n').map((line) => line.trim()).filter(Boolean);
+    const timingIndex = lines.findIndex((line) => CUE_TIMING.test(line));
+    // Skips numbering-only blocks and the WEBVTT header, NOTE, STYLE and REGION blocks
+    if (timingIndex === -1) {
+      continue;
+    }
+
+    const timing = CUE_TIMING.exec(lines[timingIndex]) as RegExpExecArray;
+    let text = lines.slice(timingIndex + 1).join(' ');
+    let speaker: string | undefined;
+
+    if (format === TranscriptFormat.WEBVTT) {
+      const voice = /<v(?:\.[\w.-]+)*\s+([^>]+)>/.exec(text);
+      speaker = voice?.[1].trim();
+    }
+    text = text.replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim();
+    if (!speaker) {
+      ({ speaker, text } = splitSpeaker(text));
+    }
+
+    if (text) {
+      cues.push({
+        start_time: parseTimestamp(timing[1]),
+        end_time: parseTimestamp(timing[2]),
+        text,
+        speaker
+      });
+    }
+  }
+
+  return cues;
+};
+
+/**
+ * Parse a chat log of "Speaker: text" lines; lines without a speaker continue the previous line
+ * @param content Chat log
+ * @returns Lines
+ */
+const parseChatLog = (content: string): RawCue[] => {
+  const cues: RawCue[] = [];
+
+  for (const line of content.split('\n')) {
+    const match = CHAT_LINE.exec(line);
+    if (match) {
+      cues.push({
+        start_time: match[1] ? parseTimestamp(match[1]) : undefined,
+        text: match[3].trim(),
+        speaker: match[2].trim()
+      });
+    } else if (line.trim() && cues.length > 0) {
+      cues[cues.length - 1].text += ` ${line.trim()}`;
+    }
+  }
+
+  return cues;
+};
+
+/**
+ * Parse a DiscordChatExporter export, timed relative to the first message
+ * @param content JSON or text export
+ * @returns Lines
+ */
+const parseDiscordExport = (content: string): RawCue[] => {
+  const messages: { timestamp: number; speaker: string; text: string }[] = [];
+
+  if (content.trimStart().startsWith('{')) {
+    let data: any;
+    try {
+      data = JSON.parse(content);
+    } catch {
+      throw new TranscriptFormatError('Discord export is not valid JSON');
+    }
+    if (!Array.isArray(data?.messages)) {
+      throw new TranscriptFormatError('Discord export has no messages');
+    }
+
+    for (const message of data.messages) {
+      const text = typeof message.content === 'string' ? message.content.trim() : '';
+      const speaker = message.author?.nickname || message.author?.name;
+      if (text && speaker) {
+        messages.push({ timestamp: Date.parse(message.timestamp), speaker, text });
+      }
+    }
+  } else {
+    let current: { timestamp: number; speaker: string; text: string } | null = null;
+    for (const line of content.split('\n')) {
+      const header = DISCORD_HEADER.exec(line.trim());
+      if (header && !Number.isNaN(Date.parse(header[1]))) {
+        current = { timestamp: Date.parse(header[1]), speaker: header[2].trim(), text: '' };
+        messages.push(current);
+      } else if (current && line.trim() && !DISCORD_NOISE.test(line.trim())) {
+        current.text = `${current.text} ${line.trim()}`.trim();
+      }
+    }
+  }
+
+  const timed = messages.filter((message) => message.text);
+  const first = timed.find((message) => !Number.isNaN(message.timestamp))?.timestamp;
+  return timed.map((message) => ({
+    start_time: first === undefined || Number.isNaN(message.timestamp) ? undefined : (message.timestamp - first) / 1000,
+    text: message.text,
+    speaker: message.speaker
+  }));
+};
+
+/**
+ * Guess the format of a transcript from its content
+ * @param content Transcript
+ * @returns Transcript format
+ */
+export const detectTranscriptFormat = (content: string): TranscriptFormat => {
+  const text = content.replace(/^\uFEFF/, '').trimStart();
+  if (text.startsWith('WEBVTT')) {
+    return TranscriptFormat.WEBVTT;
+  }
+  if (text.startsWith('{') && text.includes('"messages"')) {
+    return TranscriptFormat.DISCORD;
+  }
+  const lines = text.split('\n').slice(0, 50);
+  if (lines.some((line) => CUE_TIMING.test(line))) {
+    return TranscriptFormat.SRT;
+  }
+  if (lines.some((line) => DISCORD_HEADER.test(line.trim()) && !CHAT_LINE.test(line))) {
+    return TranscriptFormat.DISCORD;
+  }
+  return TranscriptFormat.CHAT;
+};
+
+/**
+ * Read the lines of speech of a transcript file
+ * @param content Transcript
+ * @param format Transcript format; detected from the content when omitted
+ * @returns Format and timed lines
+ * @throws TranscriptFormatError if the transcript holds no lines of speech
+ */
+export const parseTranscript = (
+  content: string,
+  format?: TranscriptFormat
+): { format: TranscriptFormat; cues: TranscriptCue[] } => {
+  const text = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  const resolvedFormat = format || detectTranscriptFormat(text);
+
+  let cues: RawCue[];
+  switch (resolvedFormat) {
+    case TranscriptFormat.SRT:
+    case TranscriptFormat.WEBVTT:
+      cues = parseSubtitles(text, resolvedFormat);
+      break;
+    case TranscriptFormat.DISCORD:
+      cues = parseDiscordExport(text);
+      break;
+    default:
+      cues = parseChatLog(text);
+  }
+
+  if (cues.length === 0) {
+    throw new TranscriptFormatError(`No lines of speech found in ${resolvedFormat} transcript`);
+  }
+  return { format: resolvedFormat, cues: assignTiming(cues) };
+};
+
+/**
+ * Consecutive segments of one speaker
+ */
+interface SpeakerTurn {
+  speaker?: string;
+  start_time: number;
+  text: string;
+}
+
+/**
+ * Transcript rendering options
+ */
+export interface TranscriptRenderOptions {
+  /**
+   * Add the start time of each speaker turn to Markdown and screenplay output
+   */
+  includeTimestamps?: boolean;
+  /**
+   * Names shown instead of the speaker names, keyed by speaker ID
+   */
+  displayNames?: Map<string, string>;
+}
+
+/**
+ * Indentation of character names in screenplays
+ */
+const SCREENPLAY_CHARACTER_INDENT = ' '.repeat(22);
+
+/**
+ * Indentation of dialogue in screenplays
+ */
+const SCREENPLAY_DIALOGUE_INDENT = ' '.repeat(10);
+
+/**
+ * Width of dialogue lines in screenplays
+ */
+const SCREENPLAY_DIALOGUE_WIDTH = 35;
+
+/**
+ * Format seconds as HH:MM:SS
+ * @param seconds Seconds
+ * @returns Clock time
+ */
+const formatClock = (seconds: number): string => {
+  const whole = Math.floor(Math.max(0, seconds));
+  return [Math.floor(whole / 3600), Math.floor(whole / 60) % 60, whole % 60]
+    .map((part) => String(part).padStart(2, '0'))
+    .join(':');
+};
+
+/**
+ * Format seconds as a subtitle timestamp, e.g. 01:02:03,500
+ * @param seconds Seconds
+ * @param separator Separator of the milliseconds: ',' for SRT, '.' for WebVTT
+ * @returns Timestamp
+ */
+const formatCueTimestamp = (seconds: number, separator: ',' | '.'): string => {
+  const milliseconds = Math.round(Math.max(0, seconds) * 1000);
+  return `${formatClock(Math.floor(milliseconds / 1000))}${separator}${String(milliseconds % 1000).padStart(3, '0')}`;
+};
+
+/**
+ * Merge consecutive segments of the same speaker
+ * @param segments Segments in order
+ * @param nameOf Display name of the speaker of a segment
+ * @returns Speaker turns
+ */
+const groupTurns = (segments: TranscriptionSegment[], nameOf: (segment: TranscriptionSegment) => string | undefined): SpeakerTurn[] => {
+  const turns: SpeakerTurn[] = [];
+  for (const segment of segments) {
+    const speaker = nameOf(segment);
+    const previous = turns[turns.length - 1];
+    if (previous && previous.speaker === speaker) {
+      previous.text += ` ${segment.text}`;
+    } else {
+      turns.push({ speaker, start_time: segment.start_time, text: segment.text });
+    }
+  }
+  return turns;
+};
+
+/**
+ * Break text into lines of at most a given width
+ * @param text Text
+ * @param width Line width
+ * @returns Lines
+ */
+const wrap = (text: string, width: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (line && line.length + word.length + 1 > width) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  return line ? [...lines, line] : lines;
+};
+
+/**
+ * Escape text for WebVTT cue payloads
+ * @param text Text
+ * @returns Escaped text
+ */
+const escapeVtt = (text: string): string => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * Render transcript segments in an export format. SRT and WebVTT output can be imported again.
+ * @param segments Segments in order
+ * @param format Export format
+ * @param options Rendering options
+ * @returns Rendered transcript
+ */
+export const renderTranscript = (
+  segments: TranscriptionSegment[],
+  format: TranscriptExportFormat,
+  options: TranscriptRenderOptions = {}
+): string => {
+  const nameOf = (segment: TranscriptionSegment) =>
+    (segment.speaker_id && options.displayNames?.get(segment.speaker_id)) || segment.speaker_name || undefined;
+
+  switch (format) {
+    case TranscriptExportFormat.SRT:
+      return segments
+        .map((segment, index) => {
+          const speaker = nameOf(segment);
+          return [
+            String(index + 1),
+            `${formatCueTimestamp(segment.start_time, ',')} --> ${formatCueTimestamp(segment.end_time, ',')}`,
+            speaker ? `${speaker}: ${segment.text}` : segment.text
+          ].join('\n');
+        })
+        .map((cue) => `${cue}\n`)
+        .join('\n');
+
+    case TranscriptExportFormat.WEBVTT:
+      return [
+        'WEBVTT\n',
+        ...segments.map((segment) => {
+          const speaker = nameOf(segment);
+          return [
+            `${formatCueTimestamp(segment.start_time, '.')} --> ${formatCueTimestamp(segment.end_time, '.')}`,
+            speaker ? `<v ${escapeVtt(speaker)}>${escapeVtt(segment.text)}` : escapeVtt(segment.text)
+          ].join('\n') + '\n';
+        })
+      ].join('\n');
+
+    case TranscriptExportFormat.MARKDOWN:
+      return [
+        '# Transcript\n',
+        ...groupTurns(segments, nameOf).map((turn) => {
+          const time = options.includeTimestamps ? ` _${formatClock(turn.start_time)}_` : '';
+          const heading = turn.speaker ? `**${turn.speaker}**${time}\n` : time ? `${time.trim()}\n` : '';
+          return `${heading}${turn.text}\n`;
+        })
+      ].join('\n');
+
+    case TranscriptExportFormat.SCREENPLAY:
+      return groupTurns(segments, nameOf)
+        .map((turn) => {
+          const lines = options.includeTimestamps ? [`[${formatClock(turn.start_time)}]`] : [];
+          if (turn.speaker) {
+            lines.push(`${SCREENPLAY_CHARACTER_INDENT}${turn.speaker.toUpperCase()}`);
+            lines.push(...wrap(turn.text, SCREENPLAY_DIALOGUE_WIDTH).map((line) => `${SCREENPLAY_DIALOGUE_INDENT}${line}`));
+          } else {
+            // Lines nobody speaks are written as action
+            lines.push(...wrap(turn.text, SCREENPLAY_DIALOGUE_WIDTH * 2));
+          }
+          return `${lines.join('\n')}\n`;
+        })
+        .join('\n');
+
+    default:
+      throw new TranscriptFormatError(`Unsupported export format: ${format}`);
+  }
+};
@@ -0,0 +1,92 @@
+/**
+ * Tokenizing transcript text and queries for the transcript search index
+ */
+import { phoneticKey } from './phonetic';
+
+/**
+ * Indexed term of a transcript segment
+ */
+export interface TranscriptTerm {
+  term: string;
+  phonetic_key: string;
+}
+
+/**
+ * Transcript search query split into its parts
+ */
+export interface TranscriptQuery {
+  /**
+   * Distinct indexed terms of the query, including the words of its phrases; a segment must contain all of them
+   */
+  terms: string[];
+  /**
+   * Quoted phrases as their tokens, stop words included; a segment must contain each phrase word for word
+   */
+  phrases: string[][];
+}
+
+/**
+ * Run of letters and digits; apostrophes and hyphens split words so that "goblin's" is found as "goblin"
+ */
+const TOKEN = /[\p{L}\p{N}]+/gu;
+
+/**
+ * Quoted phrase of a query
+ */
+const QUOTED = /"([^"]*)"?/g;
+
+/**
+ * Words too common to index; they are still matched inside phrases
+ */
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'if', 'in', 'into', 'is', 'it', 'its', 'no',
+  'not', 'of', 'on', 'or', 's', 'so', 't', 'that', 'the', 'their', 'then', 'there', 'these', 'they', 'this', 'to',
+  'was', 'were', 'will', 'with', 'um', 'uh'
+]);
+
+/**
+ * Split text into lowercase tokens
+ * @param text Text
+ * @returns Tokens in order
+ */
+export const tokenizeTranscript = (text: string): string[] => text.toLowerCase().match(TOKEN) || [];
+
+/**
+ * Whether a token is kept in the index
+ * @param token Lowercase token
+ */
+export const isIndexedTerm = (token: string): boolean => !STOP_WORDS.has(token);
+
+/**
+ * Distinct indexed terms of a segment's text, with their phonetic keys for fuzzy lookup
+ * @param text Segment text
+ * @returns Terms to index
+ */
+export const indexTerms = (text: string): TranscriptTerm[] =>
+  Array.from(new Set(tokenizeTranscript(text).filter(isIndexedTerm))).map((term) => ({
+    term,
+    phonetic_key: phoneticKey(term)
+  }));
+
+/**
+ * Parse a query into loose terms and quoted phrases, e.g. `"black tower" goblin`
+ * @param query Search query
+ * @returns Terms and phrases; a phrase of one word counts as a loose term
+ */
+export const parseTranscriptQuery = (query: string): TranscriptQuery => {
+  const phrases: string[][] = [];
+  const loose = query.replace(QUOTED, (_match, phrase: string) => {
+    const tokens = tokenizeTranscript(phrase);
+    if (tokens.length > 1) {
+      phrases.push(tokens);
+      return ' ';
+    }
+    return ` ${phrase} `;
+  });
+
+  const tokens = [...phrases.flat(), ...tokenizeTranscript(loose)];
+  return {
+    terms: Array.from(new Set(tokens.filter(isIndexedTerm))),
+    phrases
+  };
+};
@@ -0,0 +1,215 @@
+/**
+ * Multi-resolution waveform peaks computed from 16-bit mono PCM, and the binary format they are cached in
+ */
+
+/**
+ * Peaks of a recording at one resolution
+ */
+export interface PeakLevel {
+  seconds_per_peak: number;
+  /**
+   * Lowest and highest sample of each peak, interleaved, scaled to 8 bits (-128 to 127)
+   */
+  peaks: Int8Array;
+}
+
+/**
+ * Cached peaks of a recording
+ */
+export interface WaveformPeaks {
+  duration_seconds: number;
+  /**
+   * Size and modification time of the audio file the peaks were computed from, to tell when they are stale
+   */
+  source_size: number;
+  source_modified: number;
+  /**
+   * Levels from the finest to the coarsest
+   */
+  levels: PeakLevel[];
+}
+
+/**
+ * Number of peaks of a level merged into one peak of the next coarser level
+ */
+const LEVEL_FACTOR = 4;
+
+/**
+ * Coarser levels are added until a level has at most this many peaks
+ */
+const MIN_LEVEL_PEAKS = 1000;
+
+/**
+ * Marks the start of a cached waveform file
+ */
+const MAGIC = 'RAPK';
+
+/**
+ * Computes the finest level of peaks from PCM fed to it in chunks of any size, then derives the coarser levels
+ */
+export class PeakBuilder {
+  private samplesPerPeak: number;
+  private secondsPerPeak: number;
+  private peaks: number[] = [];
+  private min = 0;
+  private max = 0;
+  private count = 0;
+  private carry: number | null = null;
+  private samples = 0;
+
+  /**
+   * @param sampleRate Sample rate of the PCM
+   * @param peaksPerSecond Peaks per second of the finest level
+   */
+  constructor(sampleRate: number, peaksPerSecond: number) {
+    this.samplesPerPeak = Math.max(1, Math.round(sampleRate / peaksPerSecond));
+    this.secondsPerPeak = this.samplesPerPeak / sampleRate;
+  }
+
+  /**
+   * Number of samples read so far
+   */
+  public get sampleCount(): number {
+    return this.samples;
+  }
+
+  /**
+   * Add signed 16-bit little-endian mono PCM
+   * @param chunk PCM data; a chunk may end in the middle of a sample
+   */
+  public push(chunk: Buffer): void {
+    let offset = 0;
+    if (this.carry !== null && chunk.length > 0) {
+      this.addSample(Buffer.from([this.carry, chunk[0]]).readInt16LE(0));
+      this.carry = null;
+      offset = 1;
+    }
+    for (; offset + 1 < chunk.length; offset += 2) {
+      this.addSample(chunk.readInt16LE(offset));
+    }
+    if (offset < chunk.length) {
+      this.carry = chunk[offset];
+    }
+  }
+
+  /**
+   * Finish the last peak and build every level
+   * @returns Levels from the finest to the coarsest
+   */
+  public finish(): PeakLevel[] {
+    if (this.count > 0) {
+      this.endPeak();
+    }
+
+    const levels: PeakLevel[] = [{ seconds_per_peak: this.secondsPerPeak, peaks: Int8Array.from(this.peaks) }];
+    while (levels[levels.length - 1].peaks.length / 2 > MIN_LEVEL_PEAKS) {
+      levels.push(downsample(levels[levels.length - 1]));
+    }
+    return levels;
+  }
+
+  private addSample(sample: number): void {
+    if (this.count === 0 || sample < this.min) {
+      this.min = sample;
+    }
+    if (this.count === 0 || sample > this.max) {
+      this.max = sample;
+    }
+    this.samples++;
+    if (++this.count === this.samplesPerPeak) {
+      this.endPeak();
+    }
+  }
+
+  private endPeak(): void {
+    this.peaks.push(this.min >> 8, this.max >> 8);
+    this.count = 0;
+  }
+}
+
+/**
+ * Merge the peaks of a level into a level LEVEL_FACTOR times coarser
+ * @param level Level
+ * @returns Coarser level
+ */
+const downsample = (level: PeakLevel): PeakLevel => {
+  const count = Math.ceil(level.peaks.length / 2 / LEVEL_FACTOR);
+  const peaks = new Int8Array(count * 2);
+  for (let i = 0; i < count; i++) {
+    let min = 127;
+    let max = -128;
+    const end = Math.min((i + 1) * LEVEL_FACTOR, level.peaks.length / 2);
+    for (let j = i * LEVEL_FACTOR; j < end; j++) {
+      min = Math.min(min, level.peaks[j * 2]);
+      max = Math.max(max, level.peaks[j * 2 + 1]);
+    }
+    peaks[i * 2] = min;
+    peaks[i * 2 + 1] = max;
+  }
+  return { seconds_per_peak: level.seconds_per_peak * LEVEL_FACTOR, peaks };
+};
+
+/**
+ * Encode peaks for caching: the magic, a little-endian uint32 header length, a JSON header describing the levels,
+ * then the peaks of every level in order
+ * @param waveform Peaks
+ * @returns Encoded peaks
+ */
+export const encodeWaveformPeaks = (waveform: WaveformPeaks): Buffer => {
+  const header = Buffer.from(
+    JSON.stringify({
+      duration_seconds: waveform.duration_seconds,
+      source_size: waveform.source_size,
+      source_modified: waveform.source_modified,
+      levels: waveform.levels.map((level) => ({ seconds_per_peak: level.seconds_per_peak, length: level.peaks.length }))
+    }),
+    'utf8'
+  );
+  const prefix = Buffer.alloc(8);
+  prefix.write(MAGIC, 0, 'latin1');
+  prefix.writeUInt32LE(header.length, 4);
+
+  return Buffer.concat([
+    prefix,
+    header,
+    ...waveform.levels.map((level) => Buffer.from(level.peaks.buffer, level.peaks.byteOffset, level.peaks.length))
+  ]);
+};
+
+/**
+ * Decode cached peaks
+ * @param buffer Encoded peaks
+ * @returns Peaks, or null if the buffer does not hold valid peaks
+ */
+export const decodeWaveformPeaks = (buffer: Buffer): WaveformPeaks | null => {
+  if (buffer.length < 8 || buffer.toString('latin1', 0, 4) !== MAGIC) {
+    return null;
+  }
+
+  try {
+    const headerEnd = 8 + buffer.readUInt32LE(4);
+    const header = JSON.parse(buffer.toString('utf8', 8, headerEnd));
+    const dataLength = header.levels.reduce((total: number, level: { length: number }) => total + level.length, 0);
+    if (headerEnd + dataLength !== buffer.length) {
+      return null;
+    }
+
+    let offset = headerEnd;
+    const levels: PeakLevel[] = header.levels.map((level: { seconds_per_peak: number; length: number }) => {
+      const peaks = new Int8Array(level.length);
+      peaks.set(new Int8Array(buffer.buffer, buffer.byteOffset + offset, level.length));
+      offset += level.length;
+      return { seconds_per_peak: level.seconds_per_peak, peaks };
+    });
+
+    return {
+      duration_seconds: header.duration_seconds,
+      source_size: header.source_size,
+      source_modified: header.source_modified,
+      levels
+    };
+  } catch (error) {
+    // Truncated file or broken header
+    return null;
+  }
+};
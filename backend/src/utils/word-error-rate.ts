@@ -0,0 +1,206 @@
+/**
+ * Aligning a provider's transcript with its corrected version word by word, to count the words the provider got wrong
+ * and the words it gave to the wrong speaker
+ */
+import { TranscriptionSegment } from '../models/transcription.model';
+import { TranscriptAlignment } from '../models/transcription-quality.model';
+
+/**
+ * Word of a transcript with the speaker it is attributed to
+ */
+interface SpokenWord {
+  word: string;
+  speaker?: string;
+}
+
+/**
+ * Alignment cost and counts of a prefix of two word sequences
+ */
+interface AlignmentCell extends TranscriptAlignment {
+  cost: number;
+}
+
+/**
+ * Lowercase words of a text without punctuation, so that "Goblin," and "goblin" are the same word
+ * @param text Text
+ * @returns Words
+ */
+export const normalizeWords = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .split(/\s+/)
+    .map((word) => word.replace(/[^\p{L}\p{N}']/gu, ''))
+    .filter(Boolean);
+
+/**
+ * Speaker a segment is attributed to
+ */
+const speakerOf = (segment: TranscriptionSegment): string | undefined =>
+  segment.speaker_id || segment.speaker_name || undefined;
+
+/**
+ * Words of segments in time order
+ */
+const spokenWords = (segments: TranscriptionSegment[]): SpokenWord[] =>
+  [...segments]
+    .sort((a, b) => a.start_time - b.start_time)
+    .flatMap((segment) => normalizeWords(segment.text).map((word) => ({ word, speaker: speakerOf(segment) })));
+
+const emptyAlignment = (): TranscriptAlignment => ({
+  reference_words: 0,
+  hypothesis_words: 0,
+  substitutions: 0,
+  deletions: 0,
+  insertions: 0,
+  attributed_words: 0,
+  correctly_attributed_words: 0
+});
+
+/**
+ * Add the counts of one alignment to another
+ */
+const addAlignment = (total: TranscriptAlignment, alignment: TranscriptAlignment): void => {
+  total.reference_words += alignment.reference_words;
+  total.hypothesis_words += alignment.hypothesis_words;
+  total.substitutions += alignment.substitutions;
+  total.deletions += alignment.deletions;
+  total.insertions += alignment.insertions;
+  total.attributed_words += alignment.attributed_words;
+  total.correctly_attributed_words += alignment.correctly_attributed_words;
+};
+
+/**
+ * Align two word sequences with the fewest substitutions, deletions and insertions (Levenshtein distance), keeping
+ * two rows of the table so that long stretches fit in memory
+ * @param hypothesis Words of the provider's transcript
+ * @param reference Words of the corrected transcript
+ * @returns Counts of the alignment
+ */
+const alignSpokenWords = (hypothesis: SpokenWord[], reference: SpokenWord[]): TranscriptAlignment => {
+  const cell = (from: AlignmentCell, changes: Partial<AlignmentCell>): AlignmentCell => ({
+    ...from,
+    cost: from.cost + (changes.cost || 0),
+    substitutions: from.substitutions + (changes.substitutions || 0),
+    deletions: from.deletions + (changes.deletions || 0),
+    insertions: from.insertions + (changes.insertions || 0),
+    attributed_words: from.attributed_words + (changes.attributed_words || 0),
+    correctly_attributed_words: from.correctly_attributed_words + (changes.correctly_attributed_words || 0)
+  });
+
+  let previous: AlignmentCell[] = [{ ...emptyAlignment(), cost: 0 }];
+  for (let j = 1; j <= reference.length; j++) {
+    previous.push(cell(previous[j - 1], { cost: 1, deletions: 1 }));
+  }
+
+  for (let i = 1; i <= hypothesis.length; i++) {
+    const heard = hypothesis[i - 1];
+    const current: AlignmentCell[] = [cell(previous[0], { cost: 1, insertions: 1 })];
+    for (let j = 1; j <= reference.length; j++) {
+      const said = reference[j - 1];
+      const substituted = heard.word !== said.word;
+      // Prefer pairing words up, so that the speakers of substituted words are compared too
+      let best = cell(previous[j - 1], {
+        cost: substituted ? 1 : 0,
+        substitutions: substituted ? 1 : 0,
+        attributed_words: heard.speaker ? 1 : 0,
+        correctly_attributed_words: heard.speaker && heard.speaker === said.speaker ? 1 : 0
+      });
+      if (previous[j].cost + 1 < best.cost) {
+        best = cell(previous[j], { cost: 1, insertions: 1 });
+      }
+      if (current[j - 1].cost + 1 < best.cost) {
+        best = cell(current[j - 1], { cost: 1, deletions: 1 });
+      }
+      current.push(best);
+    }
+    previous = current;
+  }
+
+  const last = previous[reference.length];
+  return {
+    reference_words: reference.length,
+    hypothesis_words: hypothesis.length,
+    substitutions: last.substitutions,
+    deletions: last.deletions,
+    insertions: last.insertions,
+    attributed_words: last.attributed_words,
+    correctly_attributed_words: last.correctly_attributed_words
+  };
+};
+
+/**
+ * Align a provider's transcript with its corrected version. Segments left as they were count as right without
+ * aligning them; the changed segments are aligned in stretches of segments that overlap in time, so that a correction
+ * in the last minute of a session does not realign the whole session.
+ * @param original Segments as the provider transcribed them
+ * @param corrected Segments as corrected
+ * @returns Counts of the alignment
+ */
+export const alignTranscripts = (
+  original: TranscriptionSegment[],
+  corrected: TranscriptionSegment[]
+): TranscriptAlignment => {
+  const total = emptyAlignment();
+  const correctedById = new Map(corrected.map((segment) => [segment.segment_id, segment]));
+  const unchangedIds = new Set<string>();
+
+  for (const segment of original) {
+    const correction = correctedById.get(segment.segment_id);
+    const words = normalizeWords(segment.text);
+    if (!correction || normalizeWords(correction.text).join(' ') !== words.join(' ')) continue;
+
+    unchangedIds.add(segment.segment_id);
+    const speaker = speakerOf(segment);
+    const attributed = speaker ? words.length : 0;
+    addAlignment(total, {
+      ...emptyAlignment(),
+      reference_words: words.length,
+      hypothesis_words: words.length,
+      attributed_words: attributed,
+      correctly_attributed_words: speaker && speaker === speakerOf(correction) ? attributed : 0
+    });
+  }
+
+  // Group the changed segments of both transcripts into stretches that overlap in time
+  const changed = [
+    ...original.filter((segment) => !unchangedIds.has(segment.segment_id)).map((segment) => ({ segment, original: true })),
+    ...corrected.filter((segment) => !unchangedIds.has(segment.segment_id)).map((segment) => ({ segment, original: false }))
+  ].sort((a, b) => a.segment.start_time - b.segment.start_time);
+
+  let stretch: typeof changed = [];
+  let stretchEnd = -Infinity;
+  const alignStretch = () => {
+    if (stretch.length === 0) return;
+    addAlignment(
+      total,
+      alignSpokenWords(
+        spokenWords(stretch.filter((item) => item.original).map((item) => item.segment)),
+        spokenWords(stretch.filter((item) => !item.original).map((item) => item.segment))
+      )
+    );
+  };
+  for (const item of changed) {
+    if (item.segment.start_time > stretchEnd) {
+      alignStretch();
+      stretch = [];
+    }
+    stretch.push(item);
+    stretchEnd = Math.max(stretchEnd, item.segment.end_time);
+  }
+  alignStretch();
+
+  return total;
+};
+
+/**
+ * Word error rate of an alignment
+ * @param alignment Counts of an alignment
+ * @returns Substitutions, deletions and insertions per word of the corrected transcript; 1 when the corrected
+ * transcript is empty but the provider heard words, 0 when both are empty
+ */
+export const wordErrorRate = (alignment: TranscriptAlignment): number => {
+  if (alignment.reference_words === 0) {
+    return alignment.hypothesis_words > 0 ? 1 : 0;
+  }
+  return (alignment.substitutions + alignment.deletions + alignment.insertions) / alignment.reference_words;
+};
@@ -23,6 +23,7 @@ import {
   PeopleOutlined
 } from '@mui/icons-material';
 import { useTheme } from '@mui/material/styles';
+import ClipPlayButton from '../audio/ClipPlayButton';
 
 interface NotableQuote {
   text: string;
@@ -54,11 +55,14 @@ interface CharacterInsight {
 
 interface CharacterInsightsListProps {
   characterInsights: CharacterInsight[];
+  // Recording the quotes were taken from; enables playing them back
+  recordingId?: string;
   onQuoteClick?: (quote: NotableQuote, characterName: string) => void;
 }
 
 const CharacterInsightsList: React.FC<CharacterInsightsListProps> = ({ 
   characterInsights,
+  recordingId,
   onQuoteClick
 }) => {
   const theme = useTheme();
@@ -224,13 +228,22 @@ const CharacterInsightsList: React.FC<CharacterInsightsListProps> = ({
                                 <Typography variant="body1" component="div">
                                   "{quote.text}"
                                 </Typography>
-                                <Box sx={{ display: 'flex', justifyContent: 'space-between', mt: 1 }}>
+                                <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mt: 1 }}>
                                   <Typography variant="caption" color="text.secondary">
                                     Importance: {Math.round(quote.importance_score * 100)}%
                                   </Typography>
-                                  <Typography variant="caption" color="text.secondary">
-                                    {formatTime(quote.start_time)} - {formatTime(quote.end_time)}
-                                  </Typography>
+                                  <Box sx={{ display: 'flex', alignItems: 'center' }}>
+                                    <Typography variant="caption" color="text.secondary">
+                                      {formatTime(quote.start_time)} - {formatTime(quote.end_time)}
+                                    </Typography>
+                                    {recordingId && (
+                                      <ClipPlayButton
+                                        recordingId={recordingId}
+                                        startTime={quote.start_time}
+                                        endTime={quote.end_time}
+                                      />
+                                    )}
+                                  </Box>
                                 </Box>
                               </CardContent>
                             </Card>
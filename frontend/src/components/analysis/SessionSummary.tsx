@@ -5,13 +5,27 @@ import {
   Paper,
   Divider,
   Card,
-  CardContent
+  CardContent,
+  List,
+  ListItem,
+  ListItemText
 } from '@mui/material';
-import { SummarizeOutlined } from '@mui/icons-material';
+import { LightbulbOutlined, SummarizeOutlined } from '@mui/icons-material';
 import { useTheme } from '@mui/material/styles';
+import ClipPlayButton from '../audio/ClipPlayButton';
+
+interface KeyMoment {
+  key_point_id: string;
+  text: string;
+  start_time?: number;
+  end_time?: number;
+}
 
 interface SessionSummaryProps {
   summary: string;
+  // Key points listed as moments that can be played back from the recording
+  keyPoints?: KeyMoment[];
+  recordingId?: string;
   metadata?: {
     model_version: string;
     processing_time_seconds: number;
@@ -23,10 +37,17 @@ interface SessionSummaryProps {
 
 const SessionSummary: React.FC<SessionSummaryProps> = ({ 
   summary,
+  keyPoints,
+  recordingId,
   metadata
 }) => {
   const theme = useTheme();
 
+  // Key points with a place in the recording, in the order they happened
+  const keyMoments = (keyPoints || [])
+    .filter(keyPoint => keyPoint.start_time !== undefined && keyPoint.end_time !== undefined)
+    .sort((a, b) => (a.start_time as number) - (b.start_time as number));
+
   if (!summary) {
     return (
       <Paper sx={{ p: 2, borderRadius: 2 }}>
@@ -53,6 +74,35 @@ const SessionSummary: React.FC<SessionSummaryProps> = ({
             </Typography>
           </CardContent>
         </Card>
+
+        {keyMoments.length > 0 && (
+          <Box sx={{ mt: 2 }}>
+            <Typography variant="subtitle1" gutterBottom>
+              <LightbulbOutlined sx={{ mr: 1, verticalAlign: 'middle' }} />
+              Key Moments
+            </Typography>
+            <List dense disablePadding>
+              {keyMoments.map(keyPoint => (
+                <ListItem
+                  key={keyPoint.key_point_id}
+                  disableGutters
+                  secondaryAction={recordingId && (
+                    <ClipPlayButton
+                      recordingId={recordingId}
+                      startTime={keyPoint.start_time as number}
+                      endTime={keyPoint.end_time as number}
+                    />
+                  )}
+                >
+                  <ListItemText
+                    primary={keyPoint.text}
+                    secondary={formatTime(keyPoint.start_time as number)}
+                  />
+                </ListItem>
+              ))}
+            </List>
+          </Box>
+        )}
         
         {metadata && (
           <Box sx={{ mt: 2 }}>
@@ -72,4 +122,11 @@ const SessionSummary: React.FC<SessionSummaryProps> = ({
   );
 };
 
+// Format time (seconds to MM:SS)
+const formatTime = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const remainingSeconds = Math.floor(seconds % 60);
+  return `${minutes.toString().padStart(2, '0')}:${remainingSeconds.toString().padStart(2, '0')}`;
+};
+
 export default SessionSummary;
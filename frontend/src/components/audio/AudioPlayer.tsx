@@ -2,6 +2,7 @@ import React, { useState, useRef, useEffect } from 'react';
 import { Box, IconButton, Slider, Typography, Paper, Stack, Tooltip } from '@mui/material';
 import { PlayArrowOutlined, PauseOutlined, SkipPreviousOutlined, SkipNextOutlined, VolumeUpOutlined, VolumeOffOutlined, SpeedOutlined } from '@mui/icons-material';
 import { useTheme } from '@mui/material/styles';
+import Waveform, { WaveformMarker } from './Waveform';
 
 interface AudioPlayerProps {
   src: string;
@@ -18,6 +19,11 @@ interface AudioPlayerProps {
   }[];
   currentSegmentId?: string;
   onSegmentChange?: (segmentId: string) => void;
+  // Waveform endpoint of the recording; the waveform is drawn above the controls when set
+  waveformUrl?: string;
+  markers?: WaveformMarker[];
+  // Time in seconds to start from instead of the beginning
+  startTime?: number;
 }
 
 const AudioPlayer: React.FC<AudioPlayerProps> = ({
@@ -28,7 +34,10 @@ const AudioPlayer: React.FC<AudioPlayerProps> = ({
   onEnded,
   segments = [],
   currentSegmentId,
-  onSegmentChange
+  onSegmentChange,
+  waveformUrl,
+  markers = [],
+  startTime
 }) => {
   const theme = useTheme();
   const [isPlaying, setIsPlaying] = useState(false);
@@ -75,6 +84,14 @@ const AudioPlayer: React.FC<AudioPlayerProps> = ({
     };
   }, [src]);
 
+  // Start from the given time; set before the metadata loads, it becomes the position playback starts from
+  useEffect(() => {
+    if (audioRef.current && startTime !== undefined) {
+      audioRef.current.currentTime = startTime;
+      setCurrentTime(startTime);
+    }
+  }, [src, startTime]);
+
   // Update volume and playback rate
   useEffect(() => {
     if (audioRef.current) {
@@ -147,7 +164,14 @@ const AudioPlayer: React.FC<AudioPlayerProps> = ({
 
   // Handle slider change
   const handleSliderChange = (_event: Event, newValue: number | number[]) => {
-    if (!audioRef.current || typeof newValue !== 'number') return;
+    if (typeof newValue !== 'number') return;
+
+    seekTo(newValue);
+  };
+
+  // Seek to a time, from the slider or the waveform
+  const seekTo = (newValue: number) => {
+    if (!audioRef.current) return;
     
     audioRef.current.currentTime = newValue;
     setCurrentTime(newValue);
@@ -280,6 +304,18 @@ const AudioPlayer: React.FC<AudioPlayerProps> = ({
       )}
       
       <Box sx={{ width: '100%' }}>
+        {/* Waveform */}
+        {waveformUrl && !compact && (
+          <Waveform
+            url={waveformUrl}
+            currentTime={currentTime}
+            duration={duration || undefined}
+            segments={segments}
+            markers={markers}
+            onSeek={seekTo}
+          />
+        )}
+
         {/* Main Controls */}
         <Stack 
           direction="row" 
@@ -1,7 +1,58 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Box, Button, Typography, CircularProgress, Slider, IconButton, Paper, Stack, TextField, FormControlLabel, Switch, Select, MenuItem, FormControl, InputLabel } from '@mui/material';
+import { Alert, Box, Button, Typography, CircularProgress, Slider, IconButton, Paper, Stack, TextField, FormControlLabel, Switch, Select, MenuItem, FormControl, InputLabel } from '@mui/material';
 import { MicOutlined, StopOutlined, PlayArrowOutlined, PauseOutlined, SaveOutlined, DeleteOutlined } from '@mui/icons-material';
 import { useTheme } from '@mui/material/styles';
+import { io, Socket } from 'socket.io-client';
+
+/**
+ * Resumable upload as returned by the API
+ */
+interface AudioUploadStatus {
+  upload_id: string;
+  received_chunks: [number, number][];
+}
+
+/**
+ * Transcript segment pushed by live transcription
+ */
+interface LiveSegment {
+  segment_id: string;
+  start_time: number;
+  end_time: number;
+  text: string;
+}
+
+/**
+ * Acknowledgement of a live transcription request, shaped like API responses
+ */
+interface LiveAck {
+  success: boolean;
+  data?: any;
+  error?: { code: string; message: string };
+}
+
+/**
+ * How long to wait before sending chunks again after a failed attempt
+ */
+const CHUNK_RETRY_DELAY_MS = 5000;
+
+/**
+ * Send an authenticated request to the resumable upload API
+ */
+const uploadRequest = async (url: string, init: RequestInit = {}): Promise<any> => {
+  const response = await fetch(`/api/audio-recordings/uploads${url}`, {
+    ...init,
+    headers: {
+      'Authorization': `Bearer ${localStorage.getItem('token')}`,
+      ...init.headers
+    }
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error?.message || 'Upload request failed');
+  }
+  return data.data;
+};
 
 interface AudioRecorderProps {
   sessionId: string;
@@ -29,11 +80,27 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
   const [enableSpeakerDiarization, setEnableSpeakerDiarization] = useState(true);
   const [noiseReductionLevel, setNoiseReductionLevel] = useState('medium');
   const [transcriptionService, setTranscriptionService] = useState('hybrid');
+  const [recoveredUpload, setRecoveredUpload] = useState<{ uploadId: string; totalChunks: number } | null>(null);
+  const [liveTranscribe, setLiveTranscribe] = useState(false);
+  const [liveActive, setLiveActive] = useState(false);
+  const [liveSegments, setLiveSegments] = useState<LiveSegment[]>([]);
+  const [livePartial, setLivePartial] = useState<LiveSegment | null>(null);
   
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  // Chunks are uploaded while recording, so a crashed browser loses at most the last few seconds
+  const uploadIdRef = useRef<string | null>(null);
+  const nextChunkRef = useRef(0);
+  const pendingChunksRef = useRef<{ index: number; blob: Blob }[]>([]);
+  const flushPromiseRef = useRef<Promise<void> | null>(null);
+  const retryTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const uploadStorageKey = `audioUpload:${sessionId}`;
   const audioChunksRef = useRef<Blob[]>([]);
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
+  // Recorded chunks are also streamed over a socket to be transcribed while recording
+  const socketRef = useRef<Socket | null>(null);
+  const liveIdRef = useRef<string | null>(null);
+  const liveSendRef = useRef<Promise<void>>(Promise.resolve());
 
   // Initialize audio element
   useEffect(() => {
@@ -51,6 +118,222 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
     };
   }, []);
 
+  // Close the live transcription socket; the server cancels transcriptions that were not stopped
+  useEffect(() => {
+    return () => {
+      socketRef.current?.disconnect();
+    };
+  }, []);
+
+  // Offer to recover a recording whose upload was never completed
+  useEffect(() => {
+    const stored = localStorage.getItem(uploadStorageKey);
+    if (!stored) return;
+
+    uploadRequest(`/${JSON.parse(stored).uploadId}`)
+      .then((upload: AudioUploadStatus) => {
+        const [firstRange] = upload.received_chunks;
+        if (firstRange && firstRange[0] === 0) {
+          setRecoveredUpload({ uploadId: upload.upload_id, totalChunks: firstRange[1] + 1 });
+        } else {
+          localStorage.removeItem(uploadStorageKey);
+        }
+      })
+      .catch(() => localStorage.removeItem(uploadStorageKey));
+  }, [uploadStorageKey]);
+
+  // Send queued chunks in order; chunks that fail are sent again after a delay
+  const flushChunks = (): Promise<void> => {
+    if (flushPromiseRef.current) {
+      return flushPromiseRef.current;
+    }
+
+    const flush = async () => {
+      while (uploadIdRef.current && pendingChunksRef.current.length > 0) {
+        const { index, blob } = pendingChunksRef.current[0];
+        try {
+          await uploadRequest(`/${uploadIdRef.current}/chunks/${index}`, {
+            method: 'PUT',
+            body: blob,
+            headers: { 'Content-Type': 'application/octet-stream' }
+          });
+        } catch (error) {
+          console.error('Error uploading recording chunk:', error);
+          if (!retryTimerRef.current) {
+            retryTimerRef.current = setTimeout(() => {
+              retryTimerRef.current = null;
+              flushChunks();
+            }, CHUNK_RETRY_DELAY_MS);
+          }
+          return;
+        }
+        pendingChunksRef.current.shift();
+      }
+    };
+
+    flushPromiseRef.current = flush().finally(() => {
+      flushPromiseRef.current = null;
+    });
+    return flushPromiseRef.current;
+  };
+
+  // Start a resumable upload for a new recording
+  const startUpload = async (mimeType: string) => {
+    uploadIdRef.current = null;
+    nextChunkRef.current = 0;
+    pendingChunksRef.current = [];
+
+    try {
+      const extension = mimeType.includes('ogg') ? 'ogg' : 'webm';
+      const upload: AudioUploadStatus = await uploadRequest('', {
+        method: 'POST',
+        body: JSON.stringify({ session_id: sessionId, file_name: `recording.${extension}` }),
+        headers: { 'Content-Type': 'application/json' }
+      });
+      uploadIdRef.current = upload.upload_id;
+      localStorage.setItem(uploadStorageKey, JSON.stringify({ uploadId: upload.upload_id }));
+      flushChunks();
+    } catch (error) {
+      // Fall back to uploading the whole recording when it is saved
+      console.error('Error starting recording upload:', error);
+    }
+  };
+
+  // Discard the resumable upload of the current or recovered recording
+  const abortUpload = (uploadId: string | null) => {
+    localStorage.removeItem(uploadStorageKey);
+    if (uploadId) {
+      uploadRequest(`/${uploadId}`, { method: 'DELETE' }).catch((error) => {
+        console.error('Error discarding recording upload:', error);
+      });
+    }
+  };
+
+  // Send a live transcription request and wait for its acknowledgement
+  const liveRequest = (event: string, ...args: any[]): Promise<any> => {
+    return new Promise((resolve, reject) => {
+      if (!socketRef.current) {
+        reject(new Error('Live transcription is not connected'));
+        return;
+      }
+      socketRef.current.emit(event, ...args, (response: LiveAck) => {
+        if (response.success) {
+          resolve(response.data);
+        } else {
+          reject(new Error(response.error?.message || 'Live transcription request failed'));
+        }
+      });
+    });
+  };
+
+  // Start transcribing the new recording while it is recorded
+  const startLive = async (mimeType: string) => {
+    liveIdRef.current = null;
+    liveSendRef.current = Promise.resolve();
+    setLiveSegments([]);
+    setLivePartial(null);
+
+    if (!socketRef.current) {
+      const socket = io({ auth: { token: localStorage.getItem('token') } });
+      socket.on('live:transcript', (update: { live_id: string; segments: LiveSegment[]; partial?: LiveSegment }) => {
+        if (update.live_id !== liveIdRef.current) return;
+        setLiveSegments(segments => [...segments, ...update.segments]);
+        setLivePartial(update.partial || null);
+      });
+      socket.on('live:error', (error: { live_id: string; message: string }) => {
+        console.error('Live transcription error:', error.message);
+      });
+      socketRef.current = socket;
+    }
+
+    try {
+      const live = await liveRequest('live:start', {
+        session_id: sessionId,
+        format: mimeType.includes('ogg') ? 'ogg' : 'webm'
+      });
+      liveIdRef.current = live.live_id;
+      setLiveActive(true);
+    } catch (error) {
+      // The recording is still transcribed once it is saved
+      console.error('Error starting live transcription:', error);
+      setLiveActive(false);
+    }
+  };
+
+  // Send a recorded chunk to live transcription, keeping the chunks in order
+  const sendLiveChunk = (blob: Blob) => {
+    const liveId = liveIdRef.current;
+    if (!liveId) return;
+
+    liveSendRef.current = liveSendRef.current
+      .then(() => blob.arrayBuffer())
+      .then(data => {
+        socketRef.current?.emit('live:audio', liveId, data);
+      })
+      .catch(error => console.error('Error sending live audio:', error));
+  };
+
+  // Stop live transcription without saving its transcript
+  const cancelLive = () => {
+    if (liveIdRef.current) {
+      socketRef.current?.emit('live:cancel', { live_id: liveIdRef.current });
+    }
+    liveIdRef.current = null;
+    setLiveActive(false);
+    setLiveSegments([]);
+    setLivePartial(null);
+  };
+
+  // Create the recording from the chunks of an upload
+  const completeUpload = async (uploadId: string, totalChunks: number, name: string, transcribe = autoTranscribe) => {
+    const recording = await uploadRequest(`/${uploadId}/complete`, {
+      method: 'POST',
+      body: JSON.stringify({
+        total_chunks: totalChunks,
+        name,
+        description: recordingDescription.trim() || undefined,
+        auto_transcribe: transcribe,
+        enable_speaker_diarization: enableSpeakerDiarization,
+        noise_reduction_level: noiseReductionLevel,
+        transcription_service: transcriptionService
+      }),
+      headers: { 'Content-Type': 'application/json' }
+    });
+    localStorage.removeItem(uploadStorageKey);
+    return recording;
+  };
+
+  // Save a recovered recording
+  const saveRecoveredRecording = async () => {
+    if (!recoveredUpload) return;
+
+    setIsSaving(true);
+    try {
+      const recording = await completeUpload(
+        recoveredUpload.uploadId,
+        recoveredUpload.totalChunks,
+        recordingName.trim() || `Recovered recording ${new Date().toLocaleString()}`
+      );
+      setRecoveredUpload(null);
+      if (onRecordingComplete) {
+        onRecordingComplete(recording.recording_id);
+      }
+    } catch (error) {
+      console.error('Error saving recovered recording:', error);
+      if (onError) {
+        onError('Failed to recover the recording. Please try again.');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Discard a recovered recording
+  const discardRecoveredRecording = () => {
+    abortUpload(recoveredUpload?.uploadId || null);
+    setRecoveredUpload(null);
+  };
+
   // Handle time update during playback
   const handleTimeUpdate = () => {
     if (audioRef.current) {
@@ -89,6 +372,9 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
       mediaRecorder.ondataavailable = (event) => {
         if (event.data.size > 0) {
           audioChunksRef.current.push(event.data);
+          pendingChunksRef.current.push({ index: nextChunkRef.current++, blob: event.data });
+          flushChunks();
+          sendLiveChunk(event.data);
         }
       };
       
@@ -108,6 +394,10 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
       };
       
       // Start recording
+      await startUpload(mediaRecorder.mimeType);
+      if (liveTranscribe) {
+        await startLive(mediaRecorder.mimeType);
+      }
       mediaRecorder.start(1000);
       setIsRecording(true);
       
@@ -207,8 +497,36 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
     }
     
     setIsSaving(true);
-    
+
+    // The live transcript replaces transcribing the saved recording
+    const liveId = liveIdRef.current;
+    const transcribe = autoTranscribe && !liveId;
+
     try {
+      if (uploadIdRef.current) {
+        // Send what is left of the recording and assemble it on the server
+        await flushChunks();
+        if (pendingChunksRef.current.length > 0) {
+          throw new Error('Some chunks of the recording could not be uploaded');
+        }
+
+        const recording = await completeUpload(uploadIdRef.current, nextChunkRef.current, recordingName.trim(), transcribe);
+        uploadIdRef.current = null;
+        await saveLiveTranscript(liveId, recording.recording_id);
+
+        // Reset state
+        setAudioBlob(null);
+        setRecordingName('');
+        setRecordingDescription('');
+        setPlaybackTime(0);
+        setAudioDuration(0);
+
+        if (onRecordingComplete) {
+          onRecordingComplete(recording.recording_id);
+        }
+        return;
+      }
+
       // Create form data
       const formData = new FormData();
       formData.append('audio', audioBlob, `${recordingName.trim()}.wav`);
@@ -219,7 +537,7 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
         formData.append('description', recordingDescription.trim());
       }
       
-      formData.append('autoTranscribe', String(autoTranscribe));
+      formData.append('autoTranscribe', String(transcribe));
       formData.append('enableSpeakerDiarization', String(enableSpeakerDiarization));
       formData.append('noiseReductionLevel', noiseReductionLevel);
       formData.append('transcriptionService', transcriptionService);
@@ -239,6 +557,7 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
       if (!response.ok) {
         throw new Error(data.error?.message || 'Failed to save recording');
       }
+      await saveLiveTranscript(liveId, data.data.recording_id);
       
       // Reset state
       setAudioBlob(null);
@@ -261,8 +580,32 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
     }
   };
 
+  // Save the live transcript as the transcription of the saved recording
+  const saveLiveTranscript = async (liveId: string | null, recordingId: string) => {
+    if (!liveId) return;
+
+    liveIdRef.current = null;
+    setLiveActive(false);
+    try {
+      await liveSendRef.current;
+      await liveRequest('live:stop', { live_id: liveId, recording_id: recordingId });
+      setLiveSegments([]);
+      setLivePartial(null);
+    } catch (error) {
+      // The recording itself was saved, so only report the transcript
+      console.error('Error saving live transcript:', error);
+      if (onError) {
+        onError('The recording was saved, but its live transcript could not be. Transcribe it from the recording list.');
+      }
+    }
+  };
+
   // Discard recording
   const discardRecording = () => {
+    cancelLive();
+    abortUpload(uploadIdRef.current);
+    uploadIdRef.current = null;
+    pendingChunksRef.current = [];
     setAudioBlob(null);
     setRecordingName('');
     setRecordingDescription('');
@@ -283,6 +626,26 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
         Audio Recorder
       </Typography>
       
+      {/* Recovered Recording */}
+      {recoveredUpload && !isRecording && !audioBlob && (
+        <Alert
+          severity="warning"
+          sx={{ mb: 2 }}
+          action={
+            <Stack direction="row" spacing={1}>
+              <Button color="inherit" size="small" onClick={discardRecoveredRecording} disabled={isSaving}>
+                Discard
+              </Button>
+              <Button color="inherit" size="small" onClick={saveRecoveredRecording} disabled={isSaving}>
+                {isSaving ? 'Saving...' : 'Save'}
+              </Button>
+            </Stack>
+          }
+        >
+          An unfinished recording of this session was found.
+        </Alert>
+      )}
+
       {/* Recording Controls */}
       {!audioBlob && (
         <Box sx={{ mb: 2 }}>
@@ -314,6 +677,19 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
               {formatTime(recordingTime)}
             </Typography>
             
+            {!isRecording && (
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={liveTranscribe}
+                    onChange={(e) => setLiveTranscribe(e.target.checked)}
+                    disabled={isSaving}
+                  />
+                }
+                label="Live transcript"
+              />
+            )}
+
             {isRecording && (
               <Box sx={{ display: 'flex', alignItems: 'center' }}>
                 <CircularProgress 
@@ -334,6 +710,42 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
         </Box>
       )}
       
+      {/* Live Transcript */}
+      {liveActive && (
+        <Box
+          sx={{
+            mb: 2,
+            p: 2,
+            maxHeight: 200,
+            overflowY: 'auto',
+            borderRadius: 1,
+            backgroundColor: theme.palette.action.hover
+          }}
+        >
+          {liveSegments.length === 0 && !livePartial ? (
+            <Typography variant="body2" color="text.secondary">
+              Listening...
+            </Typography>
+          ) : (
+            <Typography variant="body2" component="div">
+              {liveSegments.map(segment => (
+                <Box key={`${segment.segment_id}-${segment.start_time}`} component="span">
+                  <Typography component="span" variant="caption" color="text.secondary" sx={{ mr: 0.5 }}>
+                    {formatTime(segment.start_time)}
+                  </Typography>
+                  {segment.text}{' '}
+                </Box>
+              ))}
+              {livePartial && (
+                <Box component="span" sx={{ fontStyle: 'italic', color: 'text.secondary' }}>
+                  {livePartial.text}
+                </Box>
+              )}
+            </Typography>
+          )}
+        </Box>
+      )}
+
       {/* Playback Controls */}
       {audioBlob && (
         <Box sx={{ mb: 3 }}>
@@ -391,19 +803,25 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
             disabled={isSaving}
           />
           
-          <FormControlLabel
-            control={
-              <Switch
-                checked={autoTranscribe}
-                onChange={(e) => setAutoTranscribe(e.target.checked)}
-                disabled={isSaving}
-              />
-            }
-            label="Auto-transcribe"
-            sx={{ mt: 2 }}
-          />
+          {liveActive ? (
+            <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+              The live transcript will be saved with the recording.
+            </Typography>
+          ) : (
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={autoTranscribe}
+                  onChange={(e) => setAutoTranscribe(e.target.checked)}
+                  disabled={isSaving}
+                />
+              }
+              label="Auto-transcribe"
+              sx={{ mt: 2 }}
+            />
+          )}
           
-          {autoTranscribe && (
+          {autoTranscribe && !liveActive && (
             <Box sx={{ mt: 2 }}>
               <FormControlLabel
                 control={
@@ -423,8 +841,7 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({
                   onChange={(e) => setTranscriptionService(e.target.value)}
                   label="Transcription Service"
                 >
-                  <MenuItem value="openai_whisper">OpenAI Whisper (Cloud)</MenuItem>
-                  <MenuItem value="vosk">Vosk (Offline)</MenuItem>
+                  <MenuItem value="whisper_cpp">whisper.cpp (Offline)</MenuItem>
                   <MenuItem value="hybrid">Hybrid (Recommended)</MenuItem>
                 </Select>
               </FormControl>
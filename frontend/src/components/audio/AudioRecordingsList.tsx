@@ -4,6 +4,7 @@ import { AudioFileOutlined, DeleteOutlined, PlayArrowOutlined, TranscribeOutline
 import { useTheme } from '@mui/material/styles';
 import AudioPlayer from './AudioPlayer';
 import TranscriptionViewer from './TranscriptionViewer';
+import { useStreamUrl } from './useStreamUrl';
 
 interface AudioRecording {
   recording_id: string;
@@ -20,25 +21,31 @@ interface AudioRecording {
 
 interface AudioRecordingsListProps {
   sessionId: string;
+  // Recording to open with its transcription, at a segment when given
+  initialRecordingId?: string;
+  initialSegmentId?: string;
   onError?: (error: string) => void;
   onAnalyzeClick?: (transcriptionId: string, sessionId: string) => void;
 }
 
 const AudioRecordingsList: React.FC<AudioRecordingsListProps> = ({
   sessionId,
+  initialRecordingId,
+  initialSegmentId,
   onError,
   onAnalyzeClick
 }) => {
   const theme = useTheme();
   const [recordings, setRecordings] = useState<AudioRecording[]>([]);
   const [loading, setLoading] = useState(true);
-  const [selectedRecordingId, setSelectedRecordingId] = useState<string | null>(null);
+  const [selectedRecordingId, setSelectedRecordingId] = useState<string | null>(initialRecordingId || null);
   const [showPlayer, setShowPlayer] = useState(false);
-  const [showTranscription, setShowTranscription] = useState(false);
+  const [showTranscription, setShowTranscription] = useState(!!initialRecordingId);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [recordingToDelete, setRecordingToDelete] = useState<string | null>(null);
   const [deleting, setDeleting] = useState(false);
   const [transcribing, setTranscribing] = useState(false);
+  const streamUrl = useStreamUrl(selectedRecordingId);
 
   // Fetch recordings
   useEffect(() => {
@@ -420,23 +427,25 @@ const AudioRecordingsList: React.FC<AudioRecordingsListProps> = ({
       </Paper>
 
       {/* Audio Player */}
-      {selectedRecording && showPlayer && (
+      {selectedRecording && showPlayer && streamUrl && (
         <Box sx={{ mt: 3 }}>
           <AudioPlayer
-            src={`/api/audio-recordings/${selectedRecording.recording_id}/stream`}
+            src={streamUrl}
+            waveformUrl={`/api/audio-recordings/${selectedRecording.recording_id}/waveform`}
             title={selectedRecording.name}
           />
         </Box>
       )}
 
       {/* Transcription Viewer */}
-      {selectedRecording && showTranscription && selectedRecording.transcription_id && (
+      {selectedRecording && showTranscription && selectedRecording.transcription_id && streamUrl && (
         <Box sx={{ mt: 3 }}>
           <TranscriptionViewer
             transcriptionId={selectedRecording.transcription_id}
             recordingId={selectedRecording.recording_id}
-            audioUrl={`/api/audio-recordings/${selectedRecording.recording_id}/stream`}
+            audioUrl={streamUrl}
             sessionId={sessionId}
+            initialSegmentId={selectedRecording.recording_id === initialRecordingId ? initialSegmentId : undefined}
             onError={onError}
             onAnalyzeClick={onAnalyzeClick ? (transcriptionId) => onAnalyzeClick(transcriptionId, sessionId) : undefined}
           />
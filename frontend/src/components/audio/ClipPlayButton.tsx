@@ -0,0 +1,115 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CircularProgress, IconButton, Tooltip } from '@mui/material';
+import { PlayCircleOutline, StopCircleOutlined } from '@mui/icons-material';
+
+interface ClipPlayButtonProps {
+  recordingId: string;
+  startTime: number;
+  endTime: number;
+  size?: 'small' | 'medium';
+}
+
+// Seconds of context played before and after the moment
+const CLIP_PADDING_SECONDS = 1;
+
+// Only one clip plays at a time, whichever button started it
+let activeClip: { owner: object; audio: HTMLAudioElement; url: string; stop: () => void } | null = null;
+
+const stopActiveClip = () => {
+  if (activeClip) {
+    activeClip.audio.pause();
+    URL.revokeObjectURL(activeClip.url);
+    activeClip.stop();
+    activeClip = null;
+  }
+};
+
+const ClipPlayButton: React.FC<ClipPlayButtonProps> = ({
+  recordingId,
+  startTime,
+  endTime,
+  size = 'small'
+}) => {
+  const [loading, setLoading] = useState(false);
+  const [playing, setPlaying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const ownerRef = useRef({});
+
+  // Stop the clip when the button that started it goes away
+  useEffect(() => {
+    const owner = ownerRef.current;
+    return () => {
+      if (activeClip?.owner === owner) {
+        stopActiveClip();
+      }
+    };
+  }, []);
+
+  // Fetch the clip and play it
+  const playClip = async (event: React.MouseEvent) => {
+    // Keep clicks from reaching clickable cards around the button
+    event.stopPropagation();
+
+    if (playing) {
+      stopActiveClip();
+      return;
+    }
+
+    stopActiveClip();
+    setLoading(true);
+    setError(null);
+
+    try {
+      const start = Math.max(0, startTime - CLIP_PADDING_SECONDS);
+      const end = endTime + CLIP_PADDING_SECONDS;
+      const response = await fetch(`/api/audio-recordings/${recordingId}/clip?start=${start}&end=${end}`, {
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('token')}`
+        }
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error?.message || 'Failed to load the clip');
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const audio = new Audio(url);
+      activeClip = { owner: ownerRef.current, audio, url, stop: () => setPlaying(false) };
+      audio.onended = stopActiveClip;
+
+      await audio.play();
+      setPlaying(true);
+    } catch (error) {
+      console.error('Error playing clip:', error);
+      stopActiveClip();
+      setError(error instanceof Error ? error.message : 'Failed to play the clip');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Tooltip title={error || (playing ? 'Stop' : 'Play this moment')}>
+      <span>
+        <IconButton
+          size={size}
+          onClick={playClip}
+          disabled={loading}
+          color={error ? 'error' : 'primary'}
+          aria-label={playing ? 'Stop clip' : 'Play clip'}
+        >
+          {loading ? (
+            <CircularProgress size={20} />
+          ) : playing ? (
+            <StopCircleOutlined />
+          ) : (
+            <PlayCircleOutline />
+          )}
+        </IconButton>
+      </span>
+    </Tooltip>
+  );
+};
+
+export default ClipPlayButton;
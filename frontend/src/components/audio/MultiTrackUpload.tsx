@@ -0,0 +1,200 @@
+import React, { useRef, useState } from 'react';
+import { Box, Button, CircularProgress, FormControlLabel, IconButton, Paper, Stack, Switch, TextField, Typography } from '@mui/material';
+import { CloudUploadOutlined, DeleteOutlined, LibraryMusicOutlined } from '@mui/icons-material';
+import { useTheme } from '@mui/material/styles';
+
+interface TrackEntry {
+  file: File;
+  speakerName: string;
+}
+
+interface MultiTrackUploadProps {
+  sessionId: string;
+  onUploadComplete?: (recordingId: string) => void;
+  onError?: (error: string) => void;
+}
+
+/**
+ * Speaker name taken from a track file name; Craig names tracks "<number>-<username>.<extension>"
+ */
+const speakerNameOfFile = (fileName: string) => {
+  const baseName = fileName.replace(/\.[^.]+$/, '');
+  return baseName.replace(/^\d+-/, '') || baseName;
+};
+
+const MultiTrackUpload: React.FC<MultiTrackUploadProps> = ({
+  sessionId,
+  onUploadComplete,
+  onError
+}) => {
+  const theme = useTheme();
+  const [tracks, setTracks] = useState<TrackEntry[]>([]);
+  const [recordingName, setRecordingName] = useState('');
+  const [autoTranscribe, setAutoTranscribe] = useState(true);
+  const [isUploading, setIsUploading] = useState(false);
+  const inputRef = useRef<HTMLInputElement | null>(null);
+
+  // Add the chosen files as tracks
+  const handleFilesSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    setTracks(current => [
+      ...current,
+      ...files.map(file => ({ file, speakerName: speakerNameOfFile(file.name) }))
+    ]);
+    event.target.value = '';
+  };
+
+  // Change the speaker of a track
+  const handleSpeakerNameChange = (index: number, speakerName: string) => {
+    setTracks(current => current.map((track, i) => (i === index ? { ...track, speakerName } : track)));
+  };
+
+  // Remove a track
+  const handleRemoveTrack = (index: number) => {
+    setTracks(current => current.filter((_track, i) => i !== index));
+  };
+
+  // Upload the tracks as one recording
+  const uploadTracks = async () => {
+    if (tracks.length === 0 || !recordingName.trim()) return;
+
+    setIsUploading(true);
+    try {
+      const formData = new FormData();
+      tracks.forEach(track => formData.append('tracks', track.file, track.file.name));
+      formData.append('sessionId', sessionId);
+      formData.append('name', recordingName.trim());
+      formData.append('autoTranscribe', String(autoTranscribe));
+      formData.append(
+        'speakers',
+        JSON.stringify(tracks.map(track => ({ speaker_name: track.speakerName.trim() || undefined })))
+      );
+
+      const response = await fetch('/api/audio-recordings/upload/multitrack', {
+        method: 'POST',
+        body: formData,
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('token')}`
+        }
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to upload tracks');
+      }
+
+      setTracks([]);
+      setRecordingName('');
+      if (onUploadComplete) {
+        onUploadComplete(data.data.recording_id);
+      }
+    } catch (error) {
+      console.error('Error uploading tracks:', error);
+      if (onError) {
+        onError('Failed to upload the tracks. Please try again.');
+      }
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <Paper
+      elevation={3}
+      sx={{
+        p: 3,
+        borderRadius: 2,
+        backgroundColor: theme.palette.background.paper
+      }}
+    >
+      <Typography variant="h6" gutterBottom>
+        Multi-track Upload
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Upload one audio file per speaker, such as a Craig recording of a Discord session. Every track is transcribed on
+        its own and attributed to its speaker.
+      </Typography>
+
+      <input
+        ref={inputRef}
+        type="file"
+        accept="audio/*"
+        multiple
+        hidden
+        onChange={handleFilesSelected}
+      />
+
+      {tracks.length > 0 && (
+        <Stack spacing={1} sx={{ mb: 2 }}>
+          {tracks.map((track, index) => (
+            <Stack key={`${track.file.name}-${index}`} direction="row" spacing={2} alignItems="center">
+              <LibraryMusicOutlined color="action" />
+              <Typography variant="body2" sx={{ flex: 1, minWidth: 0 }} noWrap title={track.file.name}>
+                {track.file.name}
+              </Typography>
+              <TextField
+                label="Speaker"
+                size="small"
+                value={track.speakerName}
+                onChange={(e) => handleSpeakerNameChange(index, e.target.value)}
+                disabled={isUploading}
+              />
+              <IconButton onClick={() => handleRemoveTrack(index)} disabled={isUploading} size="small">
+                <DeleteOutlined fontSize="small" />
+              </IconButton>
+            </Stack>
+          ))}
+        </Stack>
+      )}
+
+      {tracks.length > 0 && (
+        <Box sx={{ mb: 2 }}>
+          <TextField
+            label="Recording Name"
+            value={recordingName}
+            onChange={(e) => setRecordingName(e.target.value)}
+            fullWidth
+            margin="normal"
+            disabled={isUploading}
+            required
+          />
+          <FormControlLabel
+            control={
+              <Switch
+                checked={autoTranscribe}
+                onChange={(e) => setAutoTranscribe(e.target.checked)}
+                disabled={isUploading}
+              />
+            }
+            label="Auto-transcribe"
+          />
+        </Box>
+      )}
+
+      <Stack direction="row" spacing={2} justifyContent="flex-end">
+        <Button
+          variant="outlined"
+          startIcon={<LibraryMusicOutlined />}
+          onClick={() => inputRef.current?.click()}
+          disabled={isUploading}
+        >
+          {tracks.length > 0 ? 'Add Tracks' : 'Choose Tracks'}
+        </Button>
+
+        {tracks.length > 0 && (
+          <Button
+            variant="contained"
+            color="primary"
+            startIcon={isUploading ? <CircularProgress size={20} color="inherit" /> : <CloudUploadOutlined />}
+            onClick={uploadTracks}
+            disabled={isUploading || !recordingName.trim()}
+          >
+            {isUploading ? 'Uploading...' : 'Upload Tracks'}
+          </Button>
+        )}
+      </Stack>
+    </Paper>
+  );
+};
+
+export default MultiTrackUpload;
@@ -0,0 +1,190 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Box, Button, Chip, CircularProgress, Paper, Stack, TextField, Typography } from '@mui/material';
+import { AnalyticsOutlined, MergeTypeOutlined } from '@mui/icons-material';
+import { useTheme } from '@mui/material/styles';
+
+interface TimelineEntry {
+  recording_id: string;
+  name: string;
+  offset_seconds: number;
+  duration_seconds: number;
+  offset_is_explicit: boolean;
+  transcription_id?: string;
+  transcription_status: string;
+}
+
+interface SessionTimelineProps {
+  sessionId: string;
+  onAnalyzeClick?: (transcriptionId: string, sessionId: string) => void;
+  onError?: (error: string) => void;
+}
+
+/**
+ * Format seconds as H:MM:SS
+ */
+const formatOffset = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${hours}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+};
+
+const SessionTimeline: React.FC<SessionTimelineProps> = ({ sessionId, onAnalyzeClick, onError }) => {
+  const theme = useTheme();
+  const [entries, setEntries] = useState<TimelineEntry[]>([]);
+  const [offsets, setOffsets] = useState<Record<string, string>>({});
+  const [transcriptId, setTranscriptId] = useState<string | null>(null);
+  const [isStitching, setIsStitching] = useState(false);
+
+  const headers = { 'Authorization': `Bearer ${localStorage.getItem('token')}` };
+
+  // Fetch the timeline and the session transcript
+  const fetchTimeline = useCallback(async () => {
+    try {
+      const authorization = { 'Authorization': `Bearer ${localStorage.getItem('token')}` };
+      const [timelineResponse, transcriptResponse] = await Promise.all([
+        fetch(`/api/transcriptions/session/${sessionId}/timeline`, { headers: authorization }),
+        fetch(`/api/transcriptions/session/${sessionId}/transcript`, { headers: authorization })
+      ]);
+      const timeline = await timelineResponse.json();
+      if (!timelineResponse.ok) {
+        throw new Error(timeline.error?.message || 'Failed to fetch the session timeline');
+      }
+
+      setEntries(timeline.data);
+      setOffsets({});
+      setTranscriptId(transcriptResponse.ok ? (await transcriptResponse.json()).data.transcription_id : null);
+    } catch (error) {
+      console.error('Error fetching session timeline:', error);
+      if (onError) {
+        onError('Failed to load the session timeline. Please try again.');
+      }
+    }
+  }, [sessionId, onError]);
+
+  useEffect(() => {
+    fetchTimeline();
+  }, [fetchTimeline]);
+
+  // Save the offset of a recording; an empty offset makes it follow the previous recording again
+  const saveOffset = async (entry: TimelineEntry) => {
+    const value = offsets[entry.recording_id];
+    if (value === undefined) return;
+
+    try {
+      const response = await fetch(`/api/audio-recordings/${entry.recording_id}`, {
+        method: 'PUT',
+        headers: { ...headers, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ session_offset_seconds: value.trim() === '' ? null : Number(value) })
+      });
+      if (!response.ok) {
+        throw new Error('Failed to save the offset');
+      }
+      await fetchTimeline();
+    } catch (error) {
+      console.error('Error saving recording offset:', error);
+      if (onError) {
+        onError('Failed to save the offset. Please try again.');
+      }
+    }
+  };
+
+  // Stitch the transcriptions into the session transcript
+  const stitchTranscript = async () => {
+    setIsStitching(true);
+    try {
+      const response = await fetch(`/api/transcriptions/session/${sessionId}/transcript`, {
+        method: 'POST',
+        headers
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to stitch the session transcript');
+      }
+      setTranscriptId(data.data.transcription_id);
+    } catch (error) {
+      console.error('Error stitching session transcript:', error);
+      if (onError) {
+        onError(error instanceof Error ? error.message : 'Failed to stitch the session transcript.');
+      }
+    } finally {
+      setIsStitching(false);
+    }
+  };
+
+  if (entries.length === 0) {
+    return null;
+  }
+
+  return (
+    <Paper
+      elevation={3}
+      sx={{
+        p: 3,
+        mt: 3,
+        borderRadius: 2,
+        backgroundColor: theme.palette.background.paper
+      }}
+    >
+      <Typography variant="h6" gutterBottom>
+        Session Timeline
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Recordings follow each other unless they are given a start in seconds from the start of the session. Stitch the
+        transcriptions into one session transcript to analyze the whole session.
+      </Typography>
+
+      <Stack spacing={1} sx={{ mb: 2 }}>
+        {entries.map(entry => (
+          <Stack key={entry.recording_id} direction="row" spacing={2} alignItems="center">
+            <Typography variant="body2" sx={{ flex: 1, minWidth: 0 }} noWrap title={entry.name}>
+              {entry.name}
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              {formatOffset(entry.offset_seconds)} – {formatOffset(entry.offset_seconds + entry.duration_seconds)}
+            </Typography>
+            <Chip
+              size="small"
+              label={entry.transcription_status === 'completed' ? 'Transcribed' : 'Not transcribed'}
+              color={entry.transcription_status === 'completed' ? 'success' : 'default'}
+            />
+            <TextField
+              label="Start (s)"
+              size="small"
+              type="number"
+              sx={{ width: 120 }}
+              placeholder={String(entry.offset_seconds)}
+              value={offsets[entry.recording_id] ?? (entry.offset_is_explicit ? String(entry.offset_seconds) : '')}
+              onChange={(e) => setOffsets(current => ({ ...current, [entry.recording_id]: e.target.value }))}
+              onBlur={() => saveOffset(entry)}
+              inputProps={{ min: 0 }}
+            />
+          </Stack>
+        ))}
+      </Stack>
+
+      <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 2 }}>
+        <Button
+          variant="outlined"
+          startIcon={isStitching ? <CircularProgress size={20} color="inherit" /> : <MergeTypeOutlined />}
+          onClick={stitchTranscript}
+          disabled={isStitching}
+        >
+          {transcriptId ? 'Restitch Transcript' : 'Stitch Transcript'}
+        </Button>
+        {transcriptId && onAnalyzeClick && (
+          <Button
+            variant="contained"
+            startIcon={<AnalyticsOutlined />}
+            onClick={() => onAnalyzeClick(transcriptId, sessionId)}
+            disabled={isStitching}
+          >
+            Analyze Session
+          </Button>
+        )}
+      </Box>
+    </Paper>
+  );
+};
+
+export default SessionTimeline;
@@ -1,7 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Box, Typography, Paper, Divider, CircularProgress, Button, Chip, IconButton, Stack, TextField, MenuItem, Select, FormControl, InputLabel, Dialog, DialogTitle, DialogContent, DialogActions } from '@mui/material';
+import { Box, Typography, Paper, Divider, CircularProgress, Button, Chip, IconButton, Stack, TextField, MenuItem, Select, FormControl, FormControlLabel, InputLabel, Switch, Dialog, DialogTitle, DialogContent, DialogActions } from '@mui/material';
 import { useTheme } from '@mui/material/styles';
-import { PersonOutlined, EditOutlined, SaveOutlined, CancelOutlined, ContentCopyOutlined, DownloadOutlined, AnalyticsOutlined } from '@mui/icons-material';
+import { PersonOutlined, EditOutlined, SaveOutlined, CancelOutlined, ContentCopyOutlined, DownloadOutlined, AnalyticsOutlined, CheckOutlined, UndoOutlined, MergeTypeOutlined, HistoryOutlined, TranslateOutlined } from '@mui/icons-material';
 import AudioPlayer from './AudioPlayer';
 
 interface TranscriptionSegment {
@@ -12,8 +12,76 @@ interface TranscriptionSegment {
   speaker_id?: string;
   speaker_name?: string;
   confidence_score: number;
+  category?: SegmentCategory;
+  category_confidence?: number;
+  language_code?: string;
+  translated_text?: string;
+  translation_language_code?: string;
 }
 
+type SegmentCategory = 'in_character_narration' | 'in_character_dialogue' | 'rules' | 'off_topic';
+
+/**
+ * Label of each segment category
+ */
+const SEGMENT_CATEGORY_LABELS: Record<SegmentCategory, string> = {
+  in_character_narration: 'Narration',
+  in_character_dialogue: 'In character',
+  rules: 'Rules',
+  off_topic: 'Off-topic'
+};
+
+/**
+ * Languages transcripts can be translated into
+ */
+const TRANSLATION_LANGUAGES: Record<string, string> = {
+  en: 'English',
+  pl: 'Polish',
+  de: 'German',
+  fr: 'French',
+  es: 'Spanish'
+};
+
+/**
+ * How often a running translation is checked on
+ */
+const TRANSLATION_POLL_INTERVAL_MS = 3000;
+
+interface OffTopicStretch {
+  first_segment_id: string;
+  segment_count: number;
+  start_time: number;
+  end_time: number;
+}
+
+/**
+ * Group consecutive off-topic segments into stretches that can be collapsed
+ * @param segments Segments in time order
+ * @returns Stretch of each off-topic segment, keyed by segment ID
+ */
+const getOffTopicStretches = (segments: TranscriptionSegment[]): Map<string, OffTopicStretch> => {
+  const stretches = new Map<string, OffTopicStretch>();
+  let stretch: OffTopicStretch | null = null;
+  for (const segment of segments) {
+    if (segment.category !== 'off_topic') {
+      stretch = null;
+      continue;
+    }
+    if (!stretch) {
+      stretch = {
+        first_segment_id: segment.segment_id,
+        segment_count: 0,
+        start_time: segment.start_time,
+        end_time: segment.end_time
+      };
+    }
+    stretch.segment_count++;
+    stretch.end_time = segment.end_time;
+    stretches.set(segment.segment_id, stretch);
+  }
+  return stretches;
+};
+
 interface Speaker {
   speaker_id: string;
   speaker_name: string;
@@ -21,6 +89,49 @@ interface Speaker {
   user_id?: string;
 }
 
+interface SpeakerMappingProposal {
+  speaker_id: string;
+  speaker_name: string;
+  profile_id: string;
+  character_id?: string;
+  character_name?: string;
+  user_id?: string;
+  confidence_score: number;
+  reasons: string[];
+}
+
+interface TranscriptRevision {
+  revision_number: number;
+  operation: string;
+  created_at: string;
+  created_by?: string;
+  rollback_of?: number;
+  rolled_back_by?: number;
+}
+
+/**
+ * Label of each segment operation in the revision history
+ */
+const OPERATION_LABELS: Record<string, string> = {
+  edit_text: 'Edited text',
+  split: 'Split segment',
+  merge: 'Merged segments',
+  reassign_speaker: 'Reassigned speaker',
+  retime: 'Retimed segment',
+  set_category: 'Set category',
+  rollback: 'Rolled back'
+};
+
+interface GlossaryCorrection {
+  correction_id: string;
+  segment_id: string;
+  term: string;
+  original: string;
+  replacement: string;
+  similarity: number;
+  undone_at?: string;
+}
+
 interface Character {
   character_id: string;
   name: string;
@@ -31,11 +142,15 @@ interface User {
   username: string;
 }
 
+type TranscriptExportFormat = 'srt' | 'vtt' | 'markdown' | 'screenplay';
+
 interface TranscriptionViewerProps {
   transcriptionId: string;
   recordingId: string;
   audioUrl: string;
   sessionId?: string;
+  // Segment to open the transcription and its audio at, e.g. a transcript search hit
+  initialSegmentId?: string;
   onError?: (error: string) => void;
   onAnalyzeClick?: (transcriptionId: string) => void;
 }
@@ -45,6 +160,7 @@ const TranscriptionViewer: React.FC<TranscriptionViewerProps> = ({
   recordingId,
   audioUrl,
   sessionId,
+  initialSegmentId,
   onError,
   onAnalyzeClick
 }) => {
@@ -53,6 +169,15 @@ const TranscriptionViewer: React.FC<TranscriptionViewerProps> = ({
   const [transcription, setTranscription] = useState<any>(null);
   const [currentSegmentId, setCurrentSegmentId] = useState<string | null>(null);
   const [speakers, setSpeakers] = useState<Speaker[]>([]);
+  const [proposals, setProposals] = useState<SpeakerMappingProposal[]>([]);
+  const [corrections, setCorrections] = useState<GlossaryCorrection[]>([]);
+  const [undoingCorrectionId, setUndoingCorrectionId] = useState<string | null>(null);
+  const [revisions, setRevisions] = useState<TranscriptRevision[]>([]);
+  const [editingSegmentId, setEditingSegmentId] = useState<string | null>(null);
+  const [editedSegmentText, setEditedSegmentText] = useState('');
+  const [savingSegment, setSavingSegment] = useState(false);
+  const [collapseOffTopic, setCollapseOffTopic] = useState(true);
+  const [expandedStretchIds, setExpandedStretchIds] = useState<string[]>([]);
   const [characters, setCharacters] = useState<Character[]>([]);
   const [users, setUsers] = useState<User[]>([]);
   const [editingSpeakerId, setEditingSpeakerId] = useState<string | null>(null);
@@ -64,6 +189,10 @@ const TranscriptionViewer: React.FC<TranscriptionViewerProps> = ({
   const [newSpeakerName, setNewSpeakerName] = useState('');
   const [newSpeakerCharacterId, setNewSpeakerCharacterId] = useState<string | null>(null);
   const [newSpeakerUserId, setNewSpeakerUserId] = useState<string | null>(null);
+  const [downloadFormat, setDownloadFormat] = useState<TranscriptExportFormat>('markdown');
+  const [showTranslations, setShowTranslations] = useState(false);
+  const [translationLanguage, setTranslationLanguage] = useState('en');
+  const [translationJobId, setTranslationJobId] = useState<string | null>(null);
 
   const segmentRefs = useRef<{ [key: string]: HTMLDivElement | null }>({});
 
@@ -90,7 +219,10 @@ const TranscriptionViewer: React.FC<TranscriptionViewerProps> = ({
 
           // Set initial segment if available
           if (data.data.segments && data.data.segments.length > 0) {
-            setCurrentSegmentId(data.data.segments[0].segment_id);
+            const initialSegment = data.data.segments.find(
+              (segment: TranscriptionSegment) => segment.segment_id === initialSegmentId
+            );
+            setCurrentSegmentId((initialSegment || data.data.segments[0]).segment_id);
           }
         } else {
           throw new Error(data.error?.message || 'Failed to fetch transcription');
@@ -149,6 +281,81 @@ const TranscriptionViewer: React.FC<TranscriptionViewerProps> = ({
       }
     };
 
+    const fetchProposals = async () => {
+      try {
+        // Fetch the characters and players proposed for the speakers from the campaign speaker profiles
+        const response = await fetch(`/api/speaker-profiles/transcription/${transcriptionId}/proposals`, {
+          headers: {
+            'Authorization': `Bearer ${localStorage.getItem('token')}`
+          }
+        });
+
+        if (!response.ok) {
+          throw new Error('Failed to fetch speaker proposals');
+        }
+
+        const data = await response.json();
+
+        if (data.success) {
+          setProposals(data.data);
+        } else {
+          throw new Error(data.error?.message || 'Failed to fetch speaker proposals');
+        }
+      } catch (error) {
+        console.error('Error fetching speaker proposals:', error);
+      }
+    };
+
+    const fetchCorrections = async () => {
+      try {
+        // Fetch the campaign names the glossary corrected in the transcript
+        const response = await fetch(`/api/glossary/transcription/${transcriptionId}/corrections`, {
+          headers: {
+            'Authorization': `Bearer ${localStorage.getItem('token')}`
+          }
+        });
+
+        if (!response.ok) {
+          throw new Error('Failed to fetch glossary corrections');
+        }
+
+        const data = await response.json();
+
+        if (data.success) {
+          setCorrections(data.data.filter((correction: GlossaryCorrection) => !correction.undone_at));
+        } else {
+          throw new Error(data.error?.message || 'Failed to fetch glossary corrections');
+        }
+      } catch (error) {
+        console.error('Error fetching glossary corrections:', error);
+      }
+    };
+
+    const fetchRevisions = async () => {
+      try {
+        // Fetch the latest segment edits
+        const response = await fetch(`/api/transcriptions/${transcriptionId}/revisions`, {
+          headers: {
+            'Authorization': `Bearer ${localStorage.getItem('token')}`
+          }
+        });
+
+        if (!response.ok) {
+          throw new Error('Failed to fetch transcript revisions');
+        }
+
+        const data = await response.json();
+
+        if (data.success) {
+          setRevisions(data.data);
+        } else {
+          throw new Error(data.error?.message || 'Failed to fetch transcript revisions');
+        }
+      } catch (error) {
+        console.error('Error fetching transcript revisions:', error);
+      }
+    };
+
     const fetchCharacters = async () => {
       try {
         // Fetch characters for campaign
@@ -201,9 +408,12 @@ const TranscriptionViewer: React.FC<TranscriptionViewerProps> = ({
 
     fetchTranscription();
     fetchSpeakers();
+    fetchProposals();
+    fetchCorrections();
+    fetchRevisions();
     fetchCharacters();
     fetchUsers();
-  }, [transcriptionId, onError]);
+  }, [transcriptionId, initialSegmentId, onError]);
 
   // Scroll to segment when current segment changes
   useEffect(() => {
@@ -213,9 +423,48 @@ const TranscriptionViewer: React.FC<TranscriptionViewerProps> = ({
         block: 'center'
       });
     }
-  }, [currentSegmentId]);
+  }, [currentSegmentId, loading]);
 
   // Handle segment change from audio player
+  // Reload the transcription once a queued translation is done
+  useEffect(() => {
+    if (!translationJobId) return;
+
+    const intervalId = setInterval(async () => {
+      try {
+        const headers = { 'Authorization': `Bearer ${localStorage.getItem('token')}` };
+        const jobResponse = await fetch(`/api/jobs/${translationJobId}`, { headers });
+        const jobData = await jobResponse.json();
+        if (!jobResponse.ok) {
+          throw new Error(jobData.error?.message || 'Failed to check the translation');
+        }
+
+        const job = jobData.data;
+        if (job.status === 'failed' || job.status === 'cancelled') {
+          setTranslationJobId(null);
+          throw new Error(job.error || 'The transcription could not be translated');
+        }
+        if (job.status !== 'completed') return;
+
+        const response = await fetch(`/api/transcriptions/${transcriptionId}`, { headers });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error?.message || 'Failed to fetch transcription');
+        }
+        setTranscription(data.data);
+        setShowTranslations(true);
+        setTranslationJobId(null);
+      } catch (error) {
+        console.error('Error checking transcription translation:', error);
+        if (onError) {
+          onError(error instanceof Error ? error.message : 'Failed to translate the transcription. Please try again.');
+        }
+      }
+    }, TRANSLATION_POLL_INTERVAL_MS);
+
+    return () => clearInterval(intervalId);
+  }, [translationJobId, transcriptionId, onError]);
+
   const handleSegmentChange = (segmentId: string) => {
     setCurrentSegmentId(segmentId);
   };
@@ -319,6 +568,131 @@ const TranscriptionViewer: React.FC<TranscriptionViewerProps> = ({
     }
   };
 
+  // Confirm a proposed character and player for a speaker
+  const handleConfirmProposal = async (proposal: SpeakerMappingProposal) => {
+    const speaker = speakers.find(s => s.speaker_id === proposal.speaker_id);
+
+    try {
+      setSavingSpeaker(true);
+
+      const response = await fetch(`/api/transcriptions/speakers/${proposal.speaker_id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('token')}`
+        },
+        body: JSON.stringify({
+          speaker_name: speaker?.speaker_name || proposal.speaker_name,
+          character_id: proposal.character_id,
+          user_id: proposal.user_id
+        })
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to update speaker');
+      }
+
+      setSpeakers(prevSpeakers =>
+        prevSpeakers.map(s =>
+          s.speaker_id === proposal.speaker_id
+            ? { ...s, character_id: proposal.character_id, user_id: proposal.user_id }
+            : s
+        )
+      );
+      setProposals(prevProposals => prevProposals.filter(p => p.speaker_id !== proposal.speaker_id));
+    } catch (error) {
+      console.error('Error confirming speaker proposal:', error);
+      if (onError) {
+        onError('Failed to confirm the speaker. Please try again.');
+      }
+    } finally {
+      setSavingSpeaker(false);
+    }
+  };
+
+  // Dismiss a proposed character and player for a speaker
+  const handleDismissProposal = (speakerId: string) => {
+    setProposals(prevProposals => prevProposals.filter(p => p.speaker_id !== speakerId));
+  };
+
+  // Put the text as transcribed back in place of a glossary correction
+  const handleUndoCorrection = async (correctionId: string) => {
+    try {
+      setUndoingCorrectionId(correctionId);
+
+      const response = await fetch(`/api/glossary/corrections/${correctionId}/undo`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('token')}`
+        }
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to undo the correction');
+      }
+
+      setTranscription(data.data.transcription);
+      setCorrections(prevCorrections => prevCorrections.filter(c => c.correction_id !== correctionId));
+    } catch (error) {
+      console.error('Error undoing glossary correction:', error);
+      if (onError) {
+        onError(error instanceof Error ? error.message : 'Failed to undo the correction. Please try again.');
+      }
+    } finally {
+      setUndoingCorrectionId(null);
+    }
+  };
+
+  // Apply a segment operation and add its revision to the history
+  const applySegmentOperation = async (path: string, method: string, body?: Record<string, unknown>) => {
+    try {
+      setSavingSegment(true);
+
+      const response = await fetch(`/api/transcriptions/${transcriptionId}/${path}`, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('token')}`
+        },
+        body: body ? JSON.stringify(body) : undefined
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to edit the transcript');
+      }
+
+      const revision: TranscriptRevision = data.data.revision;
+      setTranscription(data.data.transcription);
+      setRevisions(prevRevisions => [
+        revision,
+        ...prevRevisions.map(r =>
+          r.revision_number === revision.rollback_of ? { ...r, rolled_back_by: revision.revision_number } : r
+        )
+      ]);
+      return true;
+    } catch (error) {
+      console.error('Error editing transcript:', error);
+      if (onError) {
+        onError(error instanceof Error ? error.message : 'Failed to edit the transcript. Please try again.');
+      }
+      return false;
+    } finally {
+      setSavingSegment(false);
+    }
+  };
+
+  // Save the edited text of a segment
+  const handleSaveSegmentText = async () => {
+    if (!editingSegmentId) return;
+
+    const saved = await applySegmentOperation(`segments/${editingSegmentId}/text`, 'PUT', { text: editedSegmentText });
+    if (saved) {
+      setEditingSegmentId(null);
+    }
+  };
+
   // Open create speaker dialog
   const handleOpenSpeakerDialog = () => {
     setShowSpeakerDialog(true);
@@ -398,25 +772,65 @@ const TranscriptionViewer: React.FC<TranscriptionViewerProps> = ({
       });
   };
 
-  // Download transcription as text file
-  const handleDownloadTranscription = () => {
+  // Download transcription in the selected export format
+  const handleDownloadTranscription = async () => {
     if (!transcription) return;
 
-    const text = transcription.segments
-      .map((segment: TranscriptionSegment) =>
-        `[${formatTime(segment.start_time)} - ${formatTime(segment.end_time)}]${segment.speaker_name ? ` ${segment.speaker_name}:` : ''} ${segment.text}`
-      )
-      .join('\n\n');
-
-    const blob = new Blob([text], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `transcription-${recordingId}.txt`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    try {
+      // Download the translations when they are shown
+      const query = showTranslations ? '?text_version=translation' : '';
+      const response = await fetch(`/api/transcriptions/${transcriptionId}/export/${downloadFormat}${query}`, {
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('token')}`
+        }
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to export transcription');
+      }
+
+      const fileName = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1];
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = fileName || `transcription-${recordingId}.txt`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error downloading transcription:', error);
+      if (onError) {
+        onError('Failed to download transcription. Please try again.');
+      }
+    }
+  };
+
+  // Queue the translation of the transcription into the selected language
+  const handleTranslate = async () => {
+    try {
+      const response = await fetch(`/api/transcriptions/${transcriptionId}/translate`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('token')}`
+        },
+        body: JSON.stringify({ target_language: translationLanguage })
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to translate the transcription');
+      }
+
+      setTranslationJobId(data.data.job_id);
+    } catch (error) {
+      console.error('Error translating transcription:', error);
+      if (onError) {
+        onError(error instanceof Error ? error.message : 'Failed to translate the transcription. Please try again.');
+      }
+    }
   };
 
   // Format time (seconds to MM:SS)
@@ -460,6 +874,9 @@ const TranscriptionViewer: React.FC<TranscriptionViewerProps> = ({
     );
   }
 
+  const offTopicStretches = getOffTopicStretches(transcription.segments);
+  const hasTranslations = transcription.segments.some((segment: TranscriptionSegment) => segment.translated_text);
+
   return (
     <Box>
       {/* Audio Player */}
@@ -476,6 +893,10 @@ const TranscriptionViewer: React.FC<TranscriptionViewerProps> = ({
           }))}
           currentSegmentId={currentSegmentId || undefined}
           onSegmentChange={handleSegmentChange}
+          startTime={
+            transcription.segments.find((segment: TranscriptionSegment) => segment.segment_id === initialSegmentId)
+              ?.start_time
+          }
         />
       </Box>
 
@@ -499,6 +920,41 @@ const TranscriptionViewer: React.FC<TranscriptionViewerProps> = ({
           >
             Download
           </Button>
+
+          <FormControl size="small" sx={{ minWidth: 130 }}>
+            <Select
+              value={downloadFormat}
+              onChange={(e) => setDownloadFormat(e.target.value as TranscriptExportFormat)}
+              inputProps={{ 'aria-label': 'Download format' }}
+            >
+              <MenuItem value="markdown">Markdown</MenuItem>
+              <MenuItem value="screenplay">Screenplay</MenuItem>
+              <MenuItem value="srt">SRT</MenuItem>
+              <MenuItem value="vtt">WebVTT</MenuItem>
+            </Select>
+          </FormControl>
+
+          <Button
+            variant="outlined"
+            size="small"
+            startIcon={translationJobId ? <CircularProgress size={16} /> : <TranslateOutlined />}
+            onClick={handleTranslate}
+            disabled={translationJobId !== null}
+          >
+            {translationJobId ? 'Translating' : 'Translate'}
+          </Button>
+
+          <FormControl size="small" sx={{ minWidth: 110 }}>
+            <Select
+              value={translationLanguage}
+              onChange={(e) => setTranslationLanguage(e.target.value)}
+              inputProps={{ 'aria-label': 'Translation language' }}
+            >
+              {Object.entries(TRANSLATION_LANGUAGES).map(([code, name]) => (
+                <MenuItem key={code} value={code}>{name}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
         </Stack>
 
         <Stack direction="row" spacing={1}>
@@ -546,150 +1002,432 @@ const TranscriptionViewer: React.FC<TranscriptionViewerProps> = ({
         </Paper>
       </Box>
 
+      {/* Speaker Proposals */}
+      {proposals.length > 0 && (
+        <Box sx={{ mb: 3 }}>
+          <Paper sx={{ p: 2, borderRadius: 2 }}>
+            <Typography variant="h6" gutterBottom>
+              Suggested Speakers
+            </Typography>
+
+            <Divider sx={{ mb: 2 }} />
+
+            {proposals.map(proposal => (
+              <Box key={proposal.speaker_id} sx={{ display: 'flex', alignItems: 'center', mb: 1 }}>
+                <Box sx={{ flexGrow: 1 }}>
+                  <Typography variant="body2">
+                    <strong>{proposal.speaker_name}</strong> is{' '}
+                    {proposal.character_name ||
+                      users.find(user => user.user_id === proposal.user_id)?.username ||
+                      'a known speaker'}
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    {proposal.reasons.join(' · ')}
+                  </Typography>
+                </Box>
+                <Chip
+                  label={`${Math.round(proposal.confidence_score * 100)}%`}
+                  size="small"
+                  color={proposal.confidence_score >= 0.8 ? 'success' : 'default'}
+                  sx={{ mr: 1 }}
+                />
+                <IconButton
+                  size="small"
+                  color="primary"
+                  onClick={() => handleConfirmProposal(proposal)}
+                  disabled={savingSpeaker}
+                  aria-label="Confirm speaker"
+                >
+                  <CheckOutlined fontSize="small" />
+                </IconButton>
+                <IconButton
+                  size="small"
+                  onClick={() => handleDismissProposal(proposal.speaker_id)}
+                  disabled={savingSpeaker}
+                  aria-label="Dismiss speaker"
+                >
+                  <CancelOutlined fontSize="small" />
+                </IconButton>
+              </Box>
+            ))}
+          </Paper>
+        </Box>
+      )}
+
+      {/* Glossary Corrections */}
+      {corrections.length > 0 && (
+        <Box sx={{ mb: 3 }}>
+          <Paper sx={{ p: 2, borderRadius: 2 }}>
+            <Typography variant="h6" gutterBottom>
+              Glossary Corrections
+            </Typography>
+
+            <Divider sx={{ mb: 2 }} />
+
+            {corrections.map(correction => (
+              <Box key={correction.correction_id} sx={{ display: 'flex', alignItems: 'center', mb: 1 }}>
+                <Typography variant="body2" sx={{ flexGrow: 1 }}>
+                  "{correction.original}" → <strong>{correction.replacement}</strong>
+                </Typography>
+                <Chip
+                  label={`${Math.round(correction.similarity * 100)}%`}
+                  size="small"
+                  color={correction.similarity >= 0.9 ? 'success' : 'default'}
+                  sx={{ mr: 1 }}
+                />
+                <IconButton
+                  size="small"
+                  onClick={() => handleUndoCorrection(correction.correction_id)}
+                  disabled={undoingCorrectionId !== null}
+                  aria-label="Undo correction"
+                >
+                  <UndoOutlined fontSize="small" />
+                </IconButton>
+              </Box>
+            ))}
+          </Paper>
+        </Box>
+      )}
+
       {/* Transcription Segments */}
       <Box sx={{ mb: 3 }}>
         <Paper sx={{ p: 2, borderRadius: 2 }}>
-          <Typography variant="h6" gutterBottom>
-            Transcription
-          </Typography>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+            <Typography variant="h6" gutterBottom>
+              Transcription
+            </Typography>
+
+            <Box>
+              {hasTranslations && (
+                <FormControlLabel
+                  control={
+                    <Switch
+                      size="small"
+                      checked={showTranslations}
+                      onChange={(e) => setShowTranslations(e.target.checked)}
+                    />
+                  }
+                  label="Show translations"
+                />
+              )}
+
+              {offTopicStretches.size > 0 && (
+                <FormControlLabel
+                  control={
+                    <Switch
+                      size="small"
+                      checked={collapseOffTopic}
+                      onChange={(e) => setCollapseOffTopic(e.target.checked)}
+                    />
+                  }
+                  label="Collapse off-topic"
+                />
+              )}
+            </Box>
+          </Box>
 
           <Divider sx={{ mb: 2 }} />
 
-          {transcription.segments.map((segment: TranscriptionSegment, index: number) => (
-            <Box
-              key={segment.segment_id}
-              ref={el => segmentRefs.current[segment.segment_id] = el as HTMLDivElement}
-              sx={{
-                p: 1.5,
-                mb: 1,
-                borderRadius: 1,
-                backgroundColor: currentSegmentId === segment.segment_id ?
-                  `${theme.palette.primary.main}10` :
-                  'transparent',
-                cursor: 'pointer',
-                '&:hover': {
+          {transcription.segments.map((segment: TranscriptionSegment, index: number) => {
+            const stretch = offTopicStretches.get(segment.segment_id);
+            if (collapseOffTopic && stretch && !expandedStretchIds.includes(stretch.first_segment_id)) {
+              // Show a collapsed stretch as a single row in place of its first segment
+              return stretch.first_segment_id === segment.segment_id ? (
+                <Box
+                  key={segment.segment_id}
+                  sx={{ display: 'flex', alignItems: 'center', gap: 1, p: 1, mb: 1, borderRadius: 1, backgroundColor: theme.palette.action.hover }}
+                >
+                  <Typography variant="caption" color="text.secondary" sx={{ flexGrow: 1 }}>
+                    {stretch.segment_count} off-topic {stretch.segment_count === 1 ? 'segment' : 'segments'} ({formatTime(stretch.start_time)} - {formatTime(stretch.end_time)})
+                  </Typography>
+                  <Button
+                    size="small"
+                    onClick={() => setExpandedStretchIds(prevIds => [...prevIds, stretch.first_segment_id])}
+                  >
+                    Show
+                  </Button>
+                </Box>
+              ) : null;
+            }
+
+            return (
+              <Box
+                key={segment.segment_id}
+                ref={el => segmentRefs.current[segment.segment_id] = el as HTMLDivElement}
+                sx={{
+                  p: 1.5,
+                  mb: 1,
+                  borderRadius: 1,
                   backgroundColor: currentSegmentId === segment.segment_id ?
-                    `${theme.palette.primary.main}20` :
-                    `${theme.palette.action.hover}`
-                },
-                borderLeft: `3px solid ${
-                  currentSegmentId === segment.segment_id ?
-                    theme.palette.primary.main :
-                    'transparent'
-                }`
-              }}
-              onClick={() => handleSegmentClick(segment.segment_id)}
-            >
-              <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 0.5 }}>
-                <Typography variant="caption" color="text.secondary">
-                  {formatTime(segment.start_time)} - {formatTime(segment.end_time)}
-                </Typography>
-
-                <Typography variant="caption" color="text.secondary">
-                  {Math.round(segment.confidence_score * 100)}% confidence
-                </Typography>
-              </Box>
-
-              {segment.speaker_id && (
-                <Box sx={{ mb: 1 }}>
-                  {editingSpeakerId === segment.speaker_id ? (
-                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
-                      <TextField
-                        size="small"
-                        label="Speaker Name"
-                        value={editedSpeakerName}
-                        onChange={(e) => setEditedSpeakerName(e.target.value)}
-                        sx={{ flexGrow: 1 }}
-                      />
-
-                      <IconButton
-                        size="small"
-                        color="primary"
-                        onClick={handleSaveSpeaker}
-                        disabled={savingSpeaker || !editedSpeakerName.trim()}
-                      >
-                        {savingSpeaker ? <CircularProgress size={20} /> : <SaveOutlined />}
-                      </IconButton>
+                    `${theme.palette.primary.main}10` :
+                    'transparent',
+                  cursor: 'pointer',
+                  '&:hover': {
+                    backgroundColor: currentSegmentId === segment.segment_id ?
+                      `${theme.palette.primary.main}20` :
+                      `${theme.palette.action.hover}`
+                  },
+                  borderLeft: `3px solid ${
+                    currentSegmentId === segment.segment_id ?
+                      theme.palette.primary.main :
+                      'transparent'
+                  }`
+                }}
+                onClick={() => handleSegmentClick(segment.segment_id)}
+              >
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 0.5 }}>
+                  <Typography variant="caption" color="text.secondary">
+                    {formatTime(segment.start_time)} - {formatTime(segment.end_time)}
+                  </Typography>
+
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                    <Select
+                      size="small"
+                      variant="standard"
+                      value={segment.category || ''}
+                      displayEmpty
+                      onClick={(e) => e.stopPropagation()}
+                      onChange={(e) => applySegmentOperation(`segments/${segment.segment_id}/category`, 'PUT', { category: e.target.value })}
+                      disabled={savingSegment}
+                      sx={{ typography: 'caption' }}
+                    >
+                      <MenuItem value="" disabled>
+                        <em>Unclassified</em>
+                      </MenuItem>
+                      {(Object.keys(SEGMENT_CATEGORY_LABELS) as SegmentCategory[]).map(category => (
+                        <MenuItem key={category} value={category}>
+                          {SEGMENT_CATEGORY_LABELS[category]}
+                        </MenuItem>
+                      ))}
+                    </Select>
+
+                    {segment.language_code && (
+                      <Typography variant="caption" color="text.secondary">
+                        {segment.language_code.toUpperCase()}
+                      </Typography>
+                    )}
+
+                    <Typography variant="caption" color="text.secondary">
+                      {Math.round(segment.confidence_score * 100)}% confidence
+                    </Typography>
+                  </Box>
+                </Box>
 
-                      <IconButton
-                        size="small"
-                        color="error"
-                        onClick={handleCancelEditSpeaker}
-                        disabled={savingSpeaker}
-                      >
-                        <CancelOutlined />
-                      </IconButton>
+                {segment.speaker_id && (
+                  <Box sx={{ mb: 1 }}>
+                    {editingSpeakerId === segment.speaker_id ? (
+                      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+                        <TextField
+                          size="small"
+                          label="Speaker Name"
+                          value={editedSpeakerName}
+                          onChange={(e) => setEditedSpeakerName(e.target.value)}
+                          sx={{ flexGrow: 1 }}
+                        />
+
+                        <IconButton
+                          size="small"
+                          color="primary"
+                          onClick={handleSaveSpeaker}
+                          disabled={savingSpeaker || !editedSpeakerName.trim()}
+                        >
+                          {savingSpeaker ? <CircularProgress size={20} /> : <SaveOutlined />}
+                        </IconButton>
+
+                        <IconButton
+                          size="small"
+                          color="error"
+                          onClick={handleCancelEditSpeaker}
+                          disabled={savingSpeaker}
+                        >
+                          <CancelOutlined />
+                        </IconButton>
+                      </Box>
+                    ) : (
+                      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+                        <Chip
+                          label={segment.speaker_name || `Speaker ${index + 1}`}
+                          size="small"
+                          sx={{
+                            backgroundColor: getSpeakerColor(segment.speaker_id),
+                            color: theme.palette.getContrastText(getSpeakerColor(segment.speaker_id))
+                          }}
+                        />
+
+                        <IconButton
+                          size="small"
+                          onClick={() => handleEditSpeaker(segment.speaker_id!)}
+                        >
+                          <EditOutlined fontSize="small" />
+                        </IconButton>
+                      </Box>
+                    )}
+
+                    {editingSpeakerId === segment.speaker_id && (
+                      <Box sx={{ display: 'flex', gap: 2, mb: 1 }}>
+                        <FormControl size="small" sx={{ minWidth: 200 }}>
+                          <InputLabel>Character</InputLabel>
+                          <Select
+                            value={editedCharacterId || ''}
+                            label="Character"
+                            onChange={(e) => setEditedCharacterId(e.target.value || null)}
+                          >
+                            <MenuItem value="">
+                              <em>None</em>
+                            </MenuItem>
+                            {characters.map((character) => (
+                              <MenuItem key={character.character_id} value={character.character_id}>
+                                {character.name}
+                              </MenuItem>
+                            ))}
+                          </Select>
+                        </FormControl>
+
+                        <FormControl size="small" sx={{ minWidth: 200 }}>
+                          <InputLabel>User</InputLabel>
+                          <Select
+                            value={editedUserId || ''}
+                            label="User"
+                            onChange={(e) => setEditedUserId(e.target.value || null)}
+                          >
+                            <MenuItem value="">
+                              <em>None</em>
+                            </MenuItem>
+                            {users.map((user) => (
+                              <MenuItem key={user.user_id} value={user.user_id}>
+                                {user.username}
+                              </MenuItem>
+                            ))}
+                          </Select>
+                        </FormControl>
+                      </Box>
+                    )}
+                  </Box>
+                )}
+
+                {editingSegmentId === segment.segment_id ? (
+                  <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 1 }} onClick={(e) => e.stopPropagation()}>
+                    <TextField
+                      size="small"
+                      multiline
+                      fullWidth
+                      value={editedSegmentText}
+                      onChange={(e) => setEditedSegmentText(e.target.value)}
+                    />
+
+                    <IconButton
+                      size="small"
+                      color="primary"
+                      onClick={handleSaveSegmentText}
+                      disabled={savingSegment || !editedSegmentText.trim()}
+                      aria-label="Save text"
+                    >
+                      {savingSegment ? <CircularProgress size={20} /> : <SaveOutlined />}
+                    </IconButton>
+
+                    <IconButton
+                      size="small"
+                      color="error"
+                      onClick={() => setEditingSegmentId(null)}
+                      disabled={savingSegment}
+                      aria-label="Cancel editing"
+                    >
+                      <CancelOutlined />
+                    </IconButton>
+                  </Box>
+                ) : (
+                  <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 1 }}>
+                    <Box sx={{ flexGrow: 1 }}>
+                      <Typography variant="body1">
+                        {segment.text}
+                      </Typography>
+
+                      {showTranslations && segment.translated_text && (
+                        <Typography variant="body2" color="text.secondary" sx={{ fontStyle: 'italic', mt: 0.5 }}>
+                          {segment.translated_text}
+                        </Typography>
+                      )}
                     </Box>
-                  ) : (
-                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
-                      <Chip
-                        label={segment.speaker_name || `Speaker ${index + 1}`}
-                        size="small"
-                        sx={{
-                          backgroundColor: getSpeakerColor(segment.speaker_id),
-                          color: theme.palette.getContrastText(getSpeakerColor(segment.speaker_id))
-                        }}
-                      />
 
+                    <IconButton
+                      size="small"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setEditingSegmentId(segment.segment_id);
+                        setEditedSegmentText(segment.text);
+                      }}
+                      disabled={savingSegment}
+                      aria-label="Edit text"
+                    >
+                      <EditOutlined fontSize="small" />
+                    </IconButton>
+
+                    {index < transcription.segments.length - 1 && (
                       <IconButton
                         size="small"
-                        onClick={() => handleEditSpeaker(segment.speaker_id!)}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          applySegmentOperation(`segments/${segment.segment_id}/merge`, 'POST');
+                        }}
+                        disabled={savingSegment}
+                        aria-label="Merge with next segment"
+                        title="Merge with next segment"
                       >
-                        <EditOutlined fontSize="small" />
+                        <MergeTypeOutlined fontSize="small" />
                       </IconButton>
-                    </Box>
-                  )}
-
-                  {editingSpeakerId === segment.speaker_id && (
-                    <Box sx={{ display: 'flex', gap: 2, mb: 1 }}>
-                      <FormControl size="small" sx={{ minWidth: 200 }}>
-                        <InputLabel>Character</InputLabel>
-                        <Select
-                          value={editedCharacterId || ''}
-                          label="Character"
-                          onChange={(e) => setEditedCharacterId(e.target.value || null)}
-                        >
-                          <MenuItem value="">
-                            <em>None</em>
-                          </MenuItem>
-                          {characters.map((character) => (
-                            <MenuItem key={character.character_id} value={character.character_id}>
-                              {character.name}
-                            </MenuItem>
-                          ))}
-                        </Select>
-                      </FormControl>
-
-                      <FormControl size="small" sx={{ minWidth: 200 }}>
-                        <InputLabel>User</InputLabel>
-                        <Select
-                          value={editedUserId || ''}
-                          label="User"
-                          onChange={(e) => setEditedUserId(e.target.value || null)}
-                        >
-                          <MenuItem value="">
-                            <em>None</em>
-                          </MenuItem>
-                          {users.map((user) => (
-                            <MenuItem key={user.user_id} value={user.user_id}>
-                              {user.username}
-                            </MenuItem>
-                          ))}
-                        </Select>
-                      </FormControl>
-                    </Box>
-                  )}
-                </Box>
-              )}
-
-              <Typography variant="body1">
-                {segment.text}
-              </Typography>
-            </Box>
-          ))}
+                    )}
+                  </Box>
+                )}
+              </Box>
+            );
+          })}
         </Paper>
       </Box>
 
+      {/* Revision History */}
+      {revisions.length > 0 && (
+        <Box sx={{ mb: 3 }}>
+          <Paper sx={{ p: 2, borderRadius: 2 }}>
+            <Typography variant="h6" gutterBottom sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+              <HistoryOutlined /> Revision History
+            </Typography>
+
+            <Divider sx={{ mb: 2 }} />
+
+            {revisions.map(revision => (
+              <Box key={revision.revision_number} sx={{ display: 'flex', alignItems: 'center', mb: 1 }}>
+                <Box sx={{ flexGrow: 1 }}>
+                  <Typography
+                    variant="body2"
+                    sx={{ textDecoration: revision.rolled_back_by ? 'line-through' : 'none' }}
+                  >
+                    #{revision.revision_number} {OPERATION_LABELS[revision.operation] || revision.operation}
+                    {revision.rollback_of ? ` #${revision.rollback_of}` : ''}
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    {new Date(revision.created_at).toLocaleString()}
+                    {revision.created_by
+                      ? ` · ${users.find(user => user.user_id === revision.created_by)?.username || revision.created_by}`
+                      : ''}
+                  </Typography>
+                </Box>
+                {!revision.rolled_back_by && (
+                  <IconButton
+                    size="small"
+                    onClick={() => applySegmentOperation(`revisions/${revision.revision_number}/rollback`, 'POST')}
+                    disabled={savingSegment}
+                    aria-label="Roll back revision"
+                    title="Roll back"
+                  >
+                    <UndoOutlined fontSize="small" />
+                  </IconButton>
+                )}
+              </Box>
+            ))}
+          </Paper>
+        </Box>
+      )}
+
       {/* Create Speaker Dialog */}
       <Dialog open={showSpeakerDialog} onClose={handleCloseSpeakerDialog}>
         <DialogTitle>Add New Speaker</DialogTitle>
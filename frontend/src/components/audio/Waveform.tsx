@@ -0,0 +1,233 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Box, CircularProgress, Tooltip, Typography } from '@mui/material';
+import { useTheme } from '@mui/material/styles';
+
+export interface WaveformMarker {
+  id: string;
+  time: number;
+  label: string;
+  kind: 'key_point' | 'sentiment';
+  color?: string;
+}
+
+interface WaveformSegment {
+  id: string;
+  startTime: number;
+  endTime: number;
+  speakerName?: string;
+}
+
+interface WaveformData {
+  duration_seconds: number;
+  seconds_per_peak: number;
+  start_time: number;
+  peaks: number[];
+}
+
+interface WaveformProps {
+  url: string;
+  currentTime: number;
+  duration?: number;
+  segments?: WaveformSegment[];
+  markers?: WaveformMarker[];
+  height?: number;
+  onSeek?: (time: number) => void;
+}
+
+// Height of the band showing transcript segments under the waveform
+const SEGMENT_BAND_HEIGHT = 4;
+
+const Waveform: React.FC<WaveformProps> = ({
+  url,
+  currentTime,
+  duration,
+  segments = [],
+  markers = [],
+  height = 64,
+  onSeek
+}) => {
+  const theme = useTheme();
+  const [waveform, setWaveform] = useState<WaveformData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [width, setWidth] = useState(0);
+
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  const totalDuration = duration || waveform?.duration_seconds || 0;
+
+  // Follow the width of the container
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    const observer = new ResizeObserver(entries => {
+      setWidth(Math.floor(entries[0].contentRect.width));
+    });
+    observer.observe(containerRef.current);
+    return () => observer.disconnect();
+  }, []);
+
+  // Fetch one peak per pixel; the width is rounded so resizing does not refetch all the time
+  const peakCount = Math.max(100, Math.ceil(width / 100) * 100);
+  useEffect(() => {
+    if (!width) return;
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    fetch(`${url}?peaks=${peakCount}`, {
+      headers: {
+        'Authorization': `Bearer ${localStorage.getItem('token')}`
+      }
+    })
+      .then(async response => {
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error?.message || 'Failed to load the waveform');
+        }
+        if (!cancelled) {
+          setWaveform(data.data);
+        }
+      })
+      .catch(error => {
+        console.error('Error loading waveform:', error);
+        if (!cancelled) {
+          setError('Waveform unavailable');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [url, peakCount]);
+
+  // Draw the waveform, the played part and the transcript segments
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !waveform || !width || !totalDuration) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = width * ratio;
+    canvas.height = height * ratio;
+    const context = canvas.getContext('2d');
+    if (!context) return;
+
+    context.scale(ratio, ratio);
+    context.clearRect(0, 0, width, height);
+
+    const waveHeight = height - SEGMENT_BAND_HEIGHT - 2;
+    const middle = waveHeight / 2;
+    const playedX = (currentTime / totalDuration) * width;
+    const peakTotal = waveform.peaks.length / 2;
+
+    for (let x = 0; x < width; x++) {
+      const first = Math.floor(((x / width) * totalDuration - waveform.start_time) / waveform.seconds_per_peak);
+      const last = Math.max(first + 1, Math.floor((((x + 1) / width) * totalDuration - waveform.start_time) / waveform.seconds_per_peak));
+      let min = 0;
+      let max = 0;
+      for (let i = Math.max(0, first); i < Math.min(last, peakTotal); i++) {
+        min = Math.min(min, waveform.peaks[i * 2]);
+        max = Math.max(max, waveform.peaks[i * 2 + 1]);
+      }
+
+      const top = middle - (max / 128) * middle;
+      const bottom = middle - (min / 128) * middle;
+      context.fillStyle = x < playedX ? theme.palette.primary.main : theme.palette.grey[400];
+      context.fillRect(x, top, 1, Math.max(1, bottom - top));
+    }
+
+    // Colour segments by speaker so turns stand out
+    const speakers: string[] = [];
+    segments.forEach(segment => {
+      const speaker = segment.speakerName || '';
+      if (!speakers.includes(speaker)) {
+        speakers.push(speaker);
+      }
+      const hue = (speakers.indexOf(speaker) * 137) % 360;
+      const startX = (segment.startTime / totalDuration) * width;
+      const endX = (segment.endTime / totalDuration) * width;
+      context.fillStyle = `hsl(${hue}, 60%, 55%)`;
+      context.fillRect(startX, height - SEGMENT_BAND_HEIGHT, Math.max(1, endX - startX - 1), SEGMENT_BAND_HEIGHT);
+    });
+  }, [waveform, width, height, currentTime, totalDuration, segments, theme]);
+
+  // Seek to the clicked position
+  const handleClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (!onSeek || !totalDuration || !containerRef.current) return;
+
+    const bounds = containerRef.current.getBoundingClientRect();
+    const position = Math.min(Math.max(0, event.clientX - bounds.left), bounds.width);
+    onSeek((position / bounds.width) * totalDuration);
+  };
+
+  return (
+    <Box
+      ref={containerRef}
+      onClick={handleClick}
+      sx={{
+        position: 'relative',
+        width: '100%',
+        height,
+        cursor: onSeek ? 'pointer' : 'default',
+        mb: 1
+      }}
+    >
+      <canvas ref={canvasRef} style={{ width: '100%', height: '100%', display: 'block' }} />
+
+      {loading && !waveform && (
+        <Box sx={{ position: 'absolute', inset: 0, display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+          <CircularProgress size={24} />
+        </Box>
+      )}
+
+      {error && !waveform && (
+        <Box sx={{ position: 'absolute', inset: 0, display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+          <Typography variant="caption" color="text.secondary">
+            {error}
+          </Typography>
+        </Box>
+      )}
+
+      {/* Markers */}
+      {totalDuration > 0 && markers.map(marker => (
+        <Tooltip key={marker.id} title={marker.label} placement="top">
+          <Box
+            onClick={event => {
+              event.stopPropagation();
+              onSeek?.(marker.time);
+            }}
+            sx={{
+              position: 'absolute',
+              top: 0,
+              bottom: SEGMENT_BAND_HEIGHT,
+              left: `${(marker.time / totalDuration) * 100}%`,
+              width: 2,
+              ml: '-1px',
+              bgcolor: marker.color || (marker.kind === 'key_point' ? theme.palette.warning.main : theme.palette.info.main),
+              opacity: marker.kind === 'key_point' ? 0.9 : 0.6,
+              '&::before': {
+                content: '""',
+                position: 'absolute',
+                top: 0,
+                left: -3,
+                width: 8,
+                height: 8,
+                borderRadius: marker.kind === 'key_point' ? '1px' : '50%',
+                bgcolor: 'inherit'
+              }
+            }}
+          />
+        </Tooltip>
+      ))}
+    </Box>
+  );
+};
+
+export default Waveform;
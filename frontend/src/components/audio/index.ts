@@ -1,4 +1,10 @@
 export { default as AudioPlayer } from './AudioPlayer';
 export { default as AudioRecorder } from './AudioRecorder';
+export { default as ClipPlayButton } from './ClipPlayButton';
 export { default as AudioRecordingsList } from './AudioRecordingsList';
+export { default as MultiTrackUpload } from './MultiTrackUpload';
+export { default as SessionTimeline } from './SessionTimeline';
 export { default as TranscriptionViewer } from './TranscriptionViewer';
+export { default as Waveform } from './Waveform';
+export type { WaveformMarker } from './Waveform';
+export { useStreamUrl } from './useStreamUrl';
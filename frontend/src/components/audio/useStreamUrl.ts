@@ -0,0 +1,42 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * Get a signed URL to play a recording from. Audio elements cannot send the Authorization header, so the stream is
+ * authorized by a short-lived token in its URL instead.
+ * @param recordingId Recording ID
+ * @returns Stream URL, or undefined until it is signed
+ */
+export const useStreamUrl = (recordingId?: string | null): string | undefined => {
+  const [streamUrl, setStreamUrl] = useState<string>();
+
+  useEffect(() => {
+    setStreamUrl(undefined);
+    if (!recordingId) {
+      return;
+    }
+
+    let cancelled = false;
+    fetch(`/api/audio-recordings/${recordingId}/stream-url`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${localStorage.getItem('token')}`
+      }
+    })
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok || !data.success) {
+          throw new Error(data.error?.message || 'Failed to sign stream URL');
+        }
+        if (!cancelled) {
+          setStreamUrl(data.data.url);
+        }
+      })
+      .catch((error) => console.error('Error signing stream URL:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [recordingId]);
+
+  return streamUrl;
+};
@@ -27,7 +27,6 @@ import {
 } from '@mui/icons-material';
 import SessionAnalysisService, { AnalysisStatus } from '../services/api/session-analysis.service';
 import SessionService from '../services/api/session.service';
-import TranscriptionService from '../services/api/transcription.service';
 import {
   KeyPointsList,
   CharacterInsightsList,
@@ -36,7 +35,7 @@ import {
   TopicsList,
   SessionSummary
 } from '../components/analysis';
-import { AudioPlayer } from '../components/audio';
+import { AudioPlayer, WaveformMarker, useStreamUrl } from '../components/audio';
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -72,8 +71,9 @@ const SessionAnalysisPage: React.FC = () => {
   const [success, setSuccess] = useState<string | null>(null);
   const [sessionName, setSessionName] = useState('');
   const [analysis, setAnalysis] = useState<any>(null);
-  const [audioUrl, setAudioUrl] = useState<string>('');
+  const [recordingId, setRecordingId] = useState<string>('');
   const [currentSegmentId, setCurrentSegmentId] = useState<string | null>(null);
+  const streamUrl = useStreamUrl(recordingId);
 
   // Fetch session analysis
   useEffect(() => {
@@ -93,9 +93,9 @@ const SessionAnalysisPage: React.FC = () => {
             const analysisResponse = await SessionAnalysisService.getSessionAnalysisBySessionId(sessionId || '');
             setAnalysis(analysisResponse);
 
-            // Set audio URL if there's a recording ID
-            if (analysisResponse.transcriptionId) {
-              setAudioUrl(`/api/audio-recordings/${analysisResponse.transcriptionId}/stream`);
+            // Set the recording if there's a recording ID
+            if (analysisResponse.recording_id) {
+              setRecordingId(analysisResponse.recording_id);
               return;
             }
           } catch (error) {
@@ -113,9 +113,8 @@ const SessionAnalysisPage: React.FC = () => {
             // Process the analysis
             await processAnalysis(createResponse.id);
 
-            // Get transcription details to set audio URL
-            const transcriptionResponse = await TranscriptionService.getTranscriptionById(transcriptionId);
-            setAudioUrl(`/api/audio-recordings/${transcriptionResponse.audioFileId}/stream`);
+            // The analysis knows the recording of its transcription
+            setRecordingId(createResponse.recording_id || '');
             return;
           }
         }
@@ -126,9 +125,9 @@ const SessionAnalysisPage: React.FC = () => {
             const analysisResponse = await SessionAnalysisService.getSessionAnalysisBySessionId(sessionId);
             setAnalysis(analysisResponse);
 
-            // Set audio URL if there's a recording ID
-            if (analysisResponse.transcriptionId) {
-              setAudioUrl(`/api/audio-recordings/${analysisResponse.transcriptionId}/stream`);
+            // Set the recording if there's a recording ID
+            if (analysisResponse.recording_id) {
+              setRecordingId(analysisResponse.recording_id);
             }
           } catch (error) {
             setError('No analysis found for this session. Please create one from a transcription.');
@@ -202,6 +201,24 @@ const SessionAnalysisPage: React.FC = () => {
     setCurrentSegmentId(segmentId);
   };
 
+  // Key points and sentiment timeline points shown on the waveform
+  const waveformMarkers: WaveformMarker[] = [
+    ...(analysis?.keyPoints || [])
+      .filter((keyPoint: any) => typeof keyPoint?.start_time === 'number')
+      .map((keyPoint: any) => ({
+        id: `key-point-${keyPoint.key_point_id}`,
+        time: keyPoint.start_time,
+        label: keyPoint.text,
+        kind: 'key_point' as const
+      })),
+    ...(analysis?.sentimentAnalysis?.sentiment_timeline || []).map((point: any, index: number) => ({
+      id: `sentiment-${index}`,
+      time: point.time,
+      label: `Sentiment ${Math.round(point.sentiment_score * 100)}%${point.context ? `: ${point.context}` : ''}`,
+      kind: 'sentiment' as const
+    }))
+  ];
+
   if (loading) {
     return (
       <Container maxWidth="lg" sx={{ mt: 4, mb: 4 }}>
@@ -247,10 +264,12 @@ const SessionAnalysisPage: React.FC = () => {
       </Box>
 
       {/* Audio Player */}
-      {audioUrl && (
+      {recordingId && streamUrl && (
         <Box sx={{ mb: 3 }}>
           <AudioPlayer
-            src={audioUrl}
+            src={streamUrl}
+            waveformUrl={`/api/audio-recordings/${recordingId}/waveform`}
+            markers={waveformMarkers}
             title="Session Recording"
             segments={analysis?.transcription?.segments?.map((segment: any) => ({
               id: segment.segment_id,
@@ -317,6 +336,8 @@ const SessionAnalysisPage: React.FC = () => {
           <TabPanel value={tabValue} index={0}>
             <SessionSummary
               summary={analysis.summary || ''}
+              keyPoints={analysis.keyPoints}
+              recordingId={recordingId || undefined}
               metadata={analysis.metadata || {}}
             />
           </TabPanel>
@@ -336,6 +357,7 @@ const SessionAnalysisPage: React.FC = () => {
           <TabPanel value={tabValue} index={2}>
             <CharacterInsightsList
               characterInsights={analysis.characters || []}
+              recordingId={recordingId || undefined}
               onQuoteClick={(quote) => {
                 // In a real implementation, we would have segment IDs
                 console.log('Quote clicked:', quote);
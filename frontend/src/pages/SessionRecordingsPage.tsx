@@ -1,8 +1,8 @@
 import React, { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { Container, Typography, Box, Paper, Tabs, Tab, Button, Snackbar, Alert, Divider } from '@mui/material';
 import { MicOutlined, AudioFileOutlined, ArrowBackOutlined } from '@mui/icons-material';
-import { AudioRecorder, AudioRecordingsList } from '../components/audio';
+import { AudioRecorder, AudioRecordingsList, MultiTrackUpload, SessionTimeline } from '../components/audio';
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -31,7 +31,11 @@ const TabPanel: React.FC<TabPanelProps> = ({ children, value, index, ...other })
 const SessionRecordingsPage: React.FC = () => {
   const { sessionId } = useParams<{ sessionId: string }>();
   const navigate = useNavigate();
-  const [tabValue, setTabValue] = useState(0);
+  // Recording and segment to open, e.g. from a transcript search hit
+  const [searchParams] = useSearchParams();
+  const initialRecordingId = searchParams.get('recording') || undefined;
+  const initialSegmentId = searchParams.get('segment') || undefined;
+  const [tabValue, setTabValue] = useState(initialRecordingId ? 1 : 0);
   const [sessionName, setSessionName] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
@@ -152,10 +156,28 @@ const SessionRecordingsPage: React.FC = () => {
             onRecordingComplete={handleRecordingComplete}
             onError={handleError}
           />
+
+          <Divider sx={{ my: 3 }} />
+
+          <MultiTrackUpload
+            sessionId={sessionId}
+            onUploadComplete={handleRecordingComplete}
+            onError={handleError}
+          />
         </TabPanel>
 
         <TabPanel value={tabValue} index={1}>
           <AudioRecordingsList
+            sessionId={sessionId}
+            initialRecordingId={initialRecordingId}
+            initialSegmentId={initialSegmentId}
+            onError={handleError}
+            onAnalyzeClick={(transcriptionId, sessionId) => {
+              navigate(`/sessions/${sessionId}/analysis/${transcriptionId}`);
+            }}
+          />
+
+          <SessionTimeline
             sessionId={sessionId}
             onError={handleError}
             onAnalyzeClick={(transcriptionId, sessionId) => {
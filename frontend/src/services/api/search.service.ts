@@ -2,7 +2,7 @@ import apiClient from './client';
 import { AxiosResponse } from 'axios';
 
 // Entity types
-export type EntityType = 'world' | 'campaign' | 'session' | 'character' | 'location' | 'item' | 'event';
+export type EntityType = 'world' | 'campaign' | 'session' | 'character' | 'location' | 'item' | 'event' | 'transcription';
 
 // Search result interface
 export interface SearchResult {
@@ -16,6 +16,7 @@ export interface SearchResult {
   parentType?: EntityType;
   createdAt: string;
   updatedAt: string;
+  score?: number;
   highlights?: {
     field: string;
     text: string;
@@ -34,6 +35,51 @@ export interface SearchParams {
   sortDirection?: 'asc' | 'desc';
 }
 
+// Transcript search query parameters; quoted phrases in the query must occur word for word
+export interface TranscriptSearchParams {
+  campaignId: string;
+  query: string;
+  speakerIds?: string[];
+  characterIds?: string[];
+  fuzzy?: boolean;
+  sortBy?: 'relevance' | 'time';
+  limit?: number;
+  offset?: number;
+}
+
+// Moment of a session where a transcript search matched
+export interface TranscriptSearchHit {
+  sessionId: string;
+  sessionName: string;
+  sessionNumber?: number;
+  sessionDate?: string;
+  recordingId?: string;
+  transcriptionId: string;
+  segmentId: string;
+  startTime: number;
+  endTime: number;
+  text: string;
+  speakerId?: string;
+  speakerName?: string;
+  characterId?: string;
+  characterName?: string;
+  score: number;
+  highlight: string;
+}
+
+/**
+ * Path of the session recordings page with the recording of a transcript search hit open at the hit
+ * @param hit Transcript search hit
+ * @returns Page path
+ */
+export const getTranscriptHitPath = (hit: TranscriptSearchHit): string => {
+  const params = new URLSearchParams({ segment: hit.segmentId });
+  if (hit.recordingId) {
+    params.set('recording', hit.recordingId);
+  }
+  return `/sessions/${hit.sessionId}/recordings?${params.toString()}`;
+};
+
 // Search service
 const SearchService = {
   /**
@@ -47,6 +93,23 @@ const SearchService = {
     return response.data.data;
   },
 
+  /**
+   * Search the transcripts of a campaign
+   * @param params Transcript search parameters
+   * @returns Matching moments and their total number
+   */
+  searchTranscripts: async (params: TranscriptSearchParams): Promise<{ results: TranscriptSearchHit[]; total: number }> => {
+    const response: AxiosResponse<{ success: boolean; data: { results: TranscriptSearchHit[]; total: number } }> = 
+      await apiClient.get('/search/transcripts', {
+        params: {
+          ...params,
+          speakerIds: params.speakerIds?.join(','),
+          characterIds: params.characterIds?.join(',')
+        }
+      });
+    return response.data.data;
+  },
+
   /**
    * Get search suggestions based on partial query
    * @param query Partial search query
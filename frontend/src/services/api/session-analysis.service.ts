@@ -5,6 +5,8 @@ export interface SessionAnalysis {
   id: string;
   sessionId: string;
   transcriptionId?: string;
+  // Recording the analysed transcription was made from, as named by the API
+  recording_id?: string;
   summary: string;
   keyPoints: string[];
   characters: CharacterInsight[];
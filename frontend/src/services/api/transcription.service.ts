@@ -200,8 +200,13 @@ const TranscriptionService = {
   /**
    * Export transcription to different formats
    */
-  exportTranscription: async (id: string, format: 'txt' | 'srt' | 'vtt' | 'json'): Promise<Blob> => {
+  exportTranscription: async (
+    id: string,
+    format: 'srt' | 'vtt' | 'markdown' | 'screenplay',
+    options?: { min_confidence?: number; include_timestamps?: boolean; text_version?: 'original' | 'translation' }
+  ): Promise<Blob> => {
     const response: AxiosResponse<Blob> = await apiClient.get(`/transcriptions/${id}/export/${format}`, {
+      params: options,
       responseType: 'blob',
     });
     return response.data;
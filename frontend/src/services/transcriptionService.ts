@@ -132,88 +132,6 @@ export const transcriptionService = {
     };
   },
 
-  /**
-   * Process transcription with Whisper
-   * @param transcriptionId Transcription ID
-   * @param enableSpeakerDiarization Enable speaker diarization
-   * @returns Processed transcription
-   */
-  processWithWhisper: async (transcriptionId: string, enableSpeakerDiarization: boolean = true) => {
-    // This would make an API call in a real implementation
-    return {
-      success: true,
-      data: {
-        transcription_id: transcriptionId,
-        recording_id: 'recording-123',
-        session_id: 'session-123',
-        full_text: 'This is a test transcription processed with Whisper.',
-        segments: [
-          {
-            segment_id: 'segment1',
-            start_time: 0,
-            end_time: 10,
-            text: 'This is a test segment',
-            speaker_name: enableSpeakerDiarization ? 'Speaker 1' : undefined,
-            speaker_id: enableSpeakerDiarization ? 'speaker1' : undefined
-          }
-        ],
-        language_code: 'en',
-        confidence_score: 0.95,
-        created_at: Date.now(),
-        updated_at: Date.now(),
-        metadata: {
-          model_version: 'gpt-4o-transcribe',
-          audio_duration: 60,
-          speaker_count: enableSpeakerDiarization ? 2 : undefined,
-          additional_info: {
-            processing_time_seconds: 5
-          }
-        }
-      }
-    };
-  },
-
-  /**
-   * Process transcription with Vosk
-   * @param transcriptionId Transcription ID
-   * @param enableSpeakerDiarization Enable speaker diarization
-   * @returns Processed transcription
-   */
-  processWithVosk: async (transcriptionId: string, enableSpeakerDiarization: boolean = true) => {
-    // This would make an API call in a real implementation
-    return {
-      success: true,
-      data: {
-        transcription_id: transcriptionId,
-        recording_id: 'recording-123',
-        session_id: 'session-123',
-        full_text: 'This is a test transcription processed with Vosk.',
-        segments: [
-          {
-            segment_id: 'segment1',
-            start_time: 0,
-            end_time: 10,
-            text: 'This is a test segment',
-            speaker_name: enableSpeakerDiarization ? 'Speaker 1' : undefined,
-            speaker_id: enableSpeakerDiarization ? 'speaker1' : undefined
-          }
-        ],
-        language_code: 'en',
-        confidence_score: 0.88,
-        created_at: Date.now(),
-        updated_at: Date.now(),
-        metadata: {
-          model_version: 'vosk-model-en-us-0.22',
-          audio_duration: 60,
-          speaker_count: enableSpeakerDiarization ? 2 : undefined,
-          additional_info: {
-            processing_time_seconds: 3
-          }
-        }
-      }
-    };
-  },
-
   /**
    * Create or update speaker
    * @param speakerId Speaker ID